@@ -52,7 +52,7 @@ export default function EditAccountPage() {
 
       // Check if account has transactions
       try {
-        const transactionsData = await apiClient.getAccountTransactions(parseInt(accountId)) as { hasTransactions: boolean };
+        const transactionsData = await apiClient.getAccountTransactions(parseInt(accountId));
         setHasTransactions(transactionsData.hasTransactions);
       } catch {
         // If transactions endpoint doesn't exist, assume no transactions
@@ -5,10 +5,11 @@ import { useRouter, useParams } from 'next/navigation';
 import { useEffect, useState, useCallback, Suspense } from 'react';
 import { AppLayout } from '@/components/app-layout';
 import { Button } from '@/components/ui/button';
-import { formatCurrency, formatMonthYearFromName, cn } from '@/lib/utils';
+import { formatCurrency, formatMonthYearFromName, cn, BackendAccountType } from '@/lib/utils';
 import { AccountTypeBadge } from '@/components/ui/account-type-badge';
 import { getAccountTypeStyle } from '@/lib/account-styles';
 import { apiClient } from '@/lib/api-client';
+import type { AccountDetailsDto } from '@/types/accounts';
 import Link from 'next/link';
 import { toast } from 'sonner';
 import {
@@ -23,39 +24,11 @@ import { BackButton } from '@/components/ui/back-button';
 import { AddTransactionButton } from '@/components/buttons/add-transaction-button';
 import { ReconcileAccountButton } from '@/components/buttons/reconcile-account-button';
 import { TransactionList } from '@/components/transaction-list';
+import { InvestmentPortfolioPanel } from '@/components/investments/investment-portfolio-panel';
+import { DebtTermsPanel } from '@/components/debts/debt-terms-panel';
 import { useTranslations } from 'next-intl';
 import { useLocale } from '@/contexts/locale-context';
 
-interface Account {
-  id: number;
-  name: string;
-  type: number;
-  institution?: string;
-  currentBalance: number;
-  calculatedBalance: number;
-  currency: string;
-  isActive: boolean;
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-  lastReconciledDate?: string;
-  lastReconciledBalance?: number;
-}
-
-interface MonthlySpending {
-  currentMonthSpending: number;
-  previousMonthSpending: number;
-  changeAmount: number;
-  changePercentage: number;
-  trendDirection: 'up' | 'down' | 'neutral';
-  monthName: string;
-  year: number;
-}
-
-interface AccountDetails extends Account {
-  monthlySpending: MonthlySpending;
-}
-
 function AccountDetailsPageContent() {
   const { isAuthenticated, isLoading } = useAuth();
   const router = useRouter();
@@ -65,7 +38,7 @@ function AccountDetailsPageContent() {
   const tCommon = useTranslations('common');
   const { locale } = useLocale();
 
-  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [account, setAccount] = useState<AccountDetailsDto | null>(null);
   const [loading, setLoading] = useState(true);
   const [filteredBalance, setFilteredBalance] = useState<number | null>(null);
 
@@ -78,7 +51,7 @@ function AccountDetailsPageContent() {
   const loadAccountDetails = useCallback(async () => {
     try {
       setLoading(true);
-      const accountData = await apiClient.getAccountDetails(parseInt(accountId)) as AccountDetails;
+      const accountData = await apiClient.getAccountDetails(parseInt(accountId));
       setAccount(accountData);
     } catch (error) {
       console.error('Failed to load account:', error);
@@ -284,6 +257,16 @@ function AccountDetailsPageContent() {
           </section>
         )}
 
+        {/* Holdings and performance */}
+        {account.type === BackendAccountType.Investment && (
+          <InvestmentPortfolioPanel accountId={account.id} onChange={handleTransactionUpdate} />
+        )}
+
+        {/* Interest, repayment terms and amortization */}
+        {(account.type === BackendAccountType.Loan || account.type === BackendAccountType.CreditCard) && (
+          <DebtTermsPanel accountId={account.id} balance={account.currentBalance} />
+        )}
+
         {/* Transactions Section */}
         <section className="rounded-[26px] border border-ink-200 bg-white/90 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)] p-5">
           <TransactionList
@@ -19,6 +19,7 @@ import { AkahuReconciliationForm } from '@/components/reconciliation/akahu-recon
 import { AkahuBalanceComparison } from '@/components/reconciliation/akahu-balance-comparison';
 import { formatCurrency, cn } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import { ReconciliationStatus } from '@/types/reconciliation';
 import { toast } from 'sonner';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { CurrencyInput } from '@/components/ui/currency-input';
@@ -52,7 +53,7 @@ interface ReconciliationData {
   statementEndBalance: number;
   calculatedBalance?: number;
   balanceDifference?: number;
-  status?: string;
+  status?: ReconciliationStatus;
   notes?: string;
 }
 
@@ -153,8 +154,7 @@ export default function ReconcileAccountPage() {
         notes: reconciliation.notes
       });
 
-      const createdReconciliation = result as ReconciliationData;
-      setReconciliation(prev => ({ ...prev, ...createdReconciliation }));
+      setReconciliation(prev => ({ ...prev, ...result }));
       setStep('import');
       toast.success(t('started'));
     } catch (error) {
@@ -8,6 +8,7 @@ import { formatCurrency, cn, BackendAccountType } from '@/lib/utils';
 import { AccountTypeBadge } from '@/components/ui/account-type-badge';
 import { getAccountTypeStyle } from '@/lib/account-styles';
 import { apiClient, ReceivedShareDto } from '@/lib/api-client';
+import type { AccountWithBalanceDto } from '@/types/accounts';
 import { CheckIcon, XMarkIcon, EnvelopeIcon } from '@heroicons/react/24/outline';
 import Link from 'next/link';
 import { toast } from 'sonner';
@@ -33,34 +34,16 @@ import { useTranslations } from 'next-intl';
 import { useAuthGuard } from '@/hooks/use-auth-guard';
 import { AccountsSkeleton } from '@/components/skeletons';
 
-interface Account {
-  id: number;
-  name: string;
-  type: number; // Backend returns numeric enum value
-  institution?: string;
-  currentBalance: number;
-  calculatedBalance: number;
-  currency: string;
-  isActive: boolean;
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-  isOwner: boolean;
-  isSharedWithMe: boolean;
-  shareRole?: number;
-  sharedByUserName?: string;
-}
-
 export default function AccountsPage() {
   const { shouldRender, isAuthResolved } = useAuthGuard();
   const router = useRouter();
   const t = useTranslations('accounts');
   const tCommon = useTranslations('common');
-  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accounts, setAccounts] = useState<AccountWithBalanceDto[]>([]);
   const [loading, setLoading] = useState(true);
-  const [archiveConfirm, setArchiveConfirm] = useState<{ show: boolean; account?: Account }>({ show: false });
-  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; account?: Account }>({ show: false });
-  const [shareModal, setShareModal] = useState<{ show: boolean; account?: Account }>({ show: false });
+  const [archiveConfirm, setArchiveConfirm] = useState<{ show: boolean; account?: AccountWithBalanceDto }>({ show: false });
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; account?: AccountWithBalanceDto }>({ show: false });
+  const [shareModal, setShareModal] = useState<{ show: boolean; account?: AccountWithBalanceDto }>({ show: false });
   const [pendingInvitations, setPendingInvitations] = useState<ReceivedShareDto[]>([]);
   const [processingShareIds, setProcessingShareIds] = useState<Set<number>>(new Set());
 
@@ -74,7 +57,7 @@ export default function AccountsPage() {
   const loadAccounts = async () => {
     try {
       setLoading(true);
-      const accountsData = await apiClient.getAccountsWithBalances() as Account[];
+      const accountsData = await apiClient.getAccountsWithBalances();
       setAccounts(accountsData || []);
     } catch (error) {
       console.error('Failed to load accounts:', error);
@@ -149,7 +132,7 @@ export default function AccountsPage() {
     }
   };
 
-  const handleArchiveAccount = async (account: Account) => {
+  const handleArchiveAccount = async (account: AccountWithBalanceDto) => {
     try {
       await apiClient.archiveAccount(account.id);
       toast.success(t('archivedSuccess', { name: account.name }));
@@ -165,7 +148,7 @@ export default function AccountsPage() {
     }
   };
 
-  const handleDeleteAccount = async (account: Account) => {
+  const handleDeleteAccount = async (account: AccountWithBalanceDto) => {
     try {
       await apiClient.deleteAccount(account.id);
       loadAccounts();
@@ -406,11 +389,11 @@ function AccountCard({
   getShareRoleName,
   t,
 }: {
-  account: Account;
+  account: AccountWithBalanceDto;
   onClick: () => void;
-  onShare: (account: Account) => void;
-  onArchive: (account: Account) => void;
-  onDelete: (account: Account) => void;
+  onShare: (account: AccountWithBalanceDto) => void;
+  onArchive: (account: AccountWithBalanceDto) => void;
+  onDelete: (account: AccountWithBalanceDto) => void;
   getShareRoleName: (role?: number) => string;
   t: ReturnType<typeof useTranslations<'accounts'>>;
 }) {
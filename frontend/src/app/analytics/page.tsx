@@ -7,6 +7,7 @@ import { AppLayout } from '@/components/app-layout';
 import { Button } from '@/components/ui/button';
 import { CategorySpendingChart } from '@/components/charts/category-spending-chart';
 import { PeriodSelector, PeriodType } from '@/components/analytics/period-selector';
+import { TagSpendingReportPanel } from '@/components/analytics/tag-spending-report';
 import { apiClient } from '@/lib/api-client';
 import { cn, formatCurrency } from '@/lib/utils';
 import { useAuthGuard } from '@/hooks/use-auth-guard';
@@ -76,6 +77,30 @@ const SKELETON_BANNER_CLASS = 'h-20 rounded-[24px] border border-ink-200 bg-whit
 const SKELETON_STAT_CARD_CLASS = 'h-32 rounded-2xl border border-ink-200 bg-white/85';
 const SKELETON_PANEL_CLASS = 'rounded-[26px] border border-ink-200 bg-white/85';
 
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/** Inclusive `YYYY-MM-DD` bounds of the selected period, for reports that take a date range. */
+function periodDateRange(range: PeriodType, year: number, month: number): { start: string; end: string } {
+  const today = new Date();
+  const todayString = `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+
+  switch (range) {
+    case 'month': {
+      const lastDay = new Date(year, month, 0).getDate();
+      return { start: `${year}-${pad(month)}-01`, end: `${year}-${pad(month)}-${pad(lastDay)}` };
+    }
+    case 'quarter': {
+      const startMonth = (Math.ceil(month / 3) - 1) * 3 + 1;
+      const lastDay = new Date(year, startMonth + 2, 0).getDate();
+      return { start: `${year}-${pad(startMonth)}-01`, end: `${year}-${pad(startMonth + 2)}-${pad(lastDay)}` };
+    }
+    case 'year':
+      return { start: `${year}-01-01`, end: `${year}-12-31` };
+    default:
+      return { start: '2000-01-01', end: todayString };
+  }
+}
+
 interface StatCardProps {
   label: string;
   value: string;
@@ -225,6 +250,7 @@ export default function AnalyticsPage() {
   const initialYearly = loadingTrends && yearlyData.length === 0;
 
   const insightTone = netAmount >= 0 ? 'emerald' : 'amber';
+  const tagRange = periodDateRange(timeRange, selectedYear, selectedMonth);
 
   if (!shouldRender) return null;
 
@@ -285,6 +311,14 @@ export default function AnalyticsPage() {
                   {t('summary.totalSaved')}: <span className="font-[var(--font-dash-mono)]">{formatCurrency(netAmount)}</span>{' '}
                   • {t('summary.savingsRate')}: <span className="font-[var(--font-dash-mono)]">{savingsRate.toFixed(1)}%</span>
                 </p>
+                {analyticsSummary && analyticsSummary.unconvertedCurrencies?.length > 0 && (
+                  <p className="mt-1 text-xs text-amber-700">
+                    {t('unconvertedCurrencies', {
+                      currencies: analyticsSummary.unconvertedCurrencies.join(', '),
+                      baseCurrency: analyticsSummary.baseCurrency,
+                    })}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -513,6 +547,13 @@ export default function AnalyticsPage() {
             </div>
           </section>
         )}
+
+        {/* Tag spending */}
+        <TagSpendingReportPanel
+          startDate={tagRange.start}
+          endDate={tagRange.end}
+          className={cn(PANEL_CLASS, 'xl:col-span-3')}
+        />
       </div>
     </AppLayout>
   );
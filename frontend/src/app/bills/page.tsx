@@ -0,0 +1,251 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { BillCalendar } from '@/components/recurring-schedules/bill-calendar';
+import { ScheduleFormModal } from '@/components/recurring-schedules/schedule-form-modal';
+import { CalendarDaysIcon, PencilIcon, PlusIcon, ReceiptRefundIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { AccountDto } from '@/types/accounts';
+import type { CategoryDto } from '@/types/categories';
+import type { RecurringScheduleDto } from '@/types/recurring-schedules';
+
+const cardClassName =
+  'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+export default function BillsPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const t = useTranslations('bills');
+  const tForm = useTranslations('bills.form');
+  const tCommon = useTranslations('common');
+
+  const [schedules, setSchedules] = useState<RecurringScheduleDto[]>([]);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [loadingSchedules, setLoadingSchedules] = useState(true);
+  const [editing, setEditing] = useState<RecurringScheduleDto | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [deleting, setDeleting] = useState<RecurringScheduleDto | null>(null);
+  const [calendarKey, setCalendarKey] = useState(0);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setLoadingSchedules(true);
+      setSchedules(await apiClient.getRecurringSchedules());
+    } catch (error) {
+      console.error('Failed to load recurring schedules:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingSchedules(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadSchedules();
+    Promise.all([apiClient.getAccounts(), apiClient.getCategories()])
+      .then(([accountList, categoryList]) => {
+        setAccounts(accountList.filter((account) => account.isActive));
+        setCategories(categoryList);
+      })
+      .catch((error) => console.error('Failed to load accounts or categories:', error));
+  }, [isAuthenticated, loadSchedules]);
+
+  const openForm = (schedule: RecurringScheduleDto | null) => {
+    setEditing(schedule);
+    setFormOpen(true);
+  };
+
+  const handleSaved = async () => {
+    setFormOpen(false);
+    setEditing(null);
+    setCalendarKey((key) => key + 1);
+    await loadSchedules();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await apiClient.deleteRecurringSchedule(deleting.id);
+      toast.success(t('toasts.deleted', { name: deleting.name }));
+      setDeleting(null);
+      setCalendarKey((key) => key + 1);
+      await loadSchedules();
+    } catch (error) {
+      console.error('Failed to delete recurring schedule:', error);
+      toast.error(t('errors.deleteFailed'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <CalendarDaysIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between lg:mb-8">
+        <div>
+          <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+            {t('title')}
+          </h1>
+          <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/bills/subscriptions">
+            <Button variant="secondary">
+              <ReceiptRefundIcon className="mr-1 h-4 w-4" />
+              {t('subscriptionsLink')}
+            </Button>
+          </Link>
+          <Button onClick={() => openForm(null)}>
+            <PlusIcon className="mr-1 h-4 w-4" />
+            {t('addSchedule')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-[minmax(0,1.6fr)_minmax(0,1fr)]">
+        <Card className={cardClassName}>
+          <CardContent className="p-4 sm:p-6">
+            <BillCalendar refreshKey={calendarKey} />
+          </CardContent>
+        </Card>
+
+        <Card className={cardClassName}>
+          <CardContent className="p-0">
+            <div className="border-b border-ink-100 px-6 py-4">
+              <h2 className="font-semibold text-ink-900">{t('schedules.title')}</h2>
+              <p className="mt-0.5 text-xs text-ink-500">{t('schedules.description')}</p>
+            </div>
+            {loadingSchedules ? (
+              <div className="space-y-3 p-6">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div key={i} className="h-12 animate-pulse rounded-lg bg-ink-100" />
+                ))}
+              </div>
+            ) : schedules.length === 0 ? (
+              <div className="p-10 text-center">
+                <CalendarDaysIcon className="mx-auto mb-3 h-10 w-10 text-ink-300" />
+                <p className="font-medium text-ink-700">{t('empty.title')}</p>
+                <p className="mt-1 text-sm text-ink-500">{t('empty.description')}</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-ink-100">
+                {schedules.map((schedule) => (
+                  <li key={schedule.id} className="flex items-start gap-3 px-6 py-4">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className={cn('truncate font-medium', schedule.isActive ? 'text-ink-900' : 'text-ink-400')}>
+                          {schedule.name}
+                        </p>
+                        {!schedule.isActive && (
+                          <span className="rounded-full bg-ink-100 px-2 py-0.5 text-[11px] font-medium text-ink-500">
+                            {t('schedules.paused')}
+                          </span>
+                        )}
+                        {schedule.missedCount > 0 && (
+                          <span className="rounded-full bg-red-50 px-2 py-0.5 text-[11px] font-medium text-red-700">
+                            {t('schedules.missed', { count: schedule.missedCount })}
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-0.5 text-xs text-ink-500">
+                        {tForm(`frequencies.${schedule.frequency}`)} · {schedule.accountName}
+                        {schedule.categoryName && ` · ${schedule.categoryName}`}
+                      </p>
+                      <p className="mt-0.5 text-xs text-ink-500">
+                        {schedule.nextDueDate
+                          ? t('schedules.nextDue', { date: formatDate(schedule.nextDueDate) })
+                          : t('schedules.noUpcoming')}
+                      </p>
+                      {schedule.lastChangedAmount !== undefined && (
+                        <p className="mt-0.5 text-xs text-amber-700">
+                          {t('schedules.amountChanged', { amount: formatCurrency(Math.abs(schedule.lastChangedAmount)) })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-2">
+                      <span className={cn('font-semibold', schedule.amount < 0 ? 'text-red-600' : 'text-green-600')}>
+                        {formatCurrency(Math.abs(schedule.amount))}
+                      </span>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openForm(schedule)}>
+                          <PencilIcon className="h-4 w-4" />
+                          <span className="sr-only">{tCommon('edit')}</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                          onClick={() => setDeleting(schedule)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                          <span className="sr-only">{tCommon('delete')}</span>
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {formOpen && (
+        <ScheduleFormModal
+          isOpen={formOpen}
+          onClose={() => {
+            setFormOpen(false);
+            setEditing(null);
+          }}
+          onSaved={handleSaved}
+          schedule={editing}
+          accounts={accounts}
+          categories={categories}
+        />
+      )}
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('deleteDialog.title', { name: deleting?.name ?? '' })}
+        description={t('deleteDialog.description')}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BackButton } from '@/components/ui/back-button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { BaseModal } from '@/components/modals/base-modal';
+import {
+  ArrowTrendingDownIcon,
+  ArrowTrendingUpIcon,
+  ExclamationTriangleIcon,
+  PencilIcon,
+  ReceiptRefundIcon,
+} from '@heroicons/react/24/outline';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import {
+  SUBSCRIPTION_FILTERS,
+  getLatestPriceChange,
+  hasStoppedCharging,
+  matchesSubscriptionFilter,
+  type SubscriptionFilter,
+} from '@/lib/subscriptions/subscriptions';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type {
+  SubscriptionCancellationStatus,
+  SubscriptionDto,
+  SubscriptionsResponse,
+} from '@/types/subscriptions';
+
+const cardClassName =
+  'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+const KNOWN_INTERVALS = ['Weekly', 'Biweekly', 'Monthly'];
+
+const CANCELLATION_STATUSES: SubscriptionCancellationStatus[] = ['None', 'CancelIntended', 'Cancelled'];
+
+export default function SubscriptionsPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const t = useTranslations('subscriptions');
+  const tCommon = useTranslations('common');
+
+  const [data, setData] = useState<SubscriptionsResponse | null>(null);
+  const [loadingSubscriptions, setLoadingSubscriptions] = useState(true);
+  const [filter, setFilter] = useState<SubscriptionFilter>('all');
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ subscription: SubscriptionDto; lastUsedAt: string; notes: string } | null>(
+    null
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setLoadingSubscriptions(true);
+      setData(await apiClient.getSubscriptions());
+    } catch (error) {
+      console.error('Failed to load subscriptions:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingSubscriptions(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSubscriptions();
+    }
+  }, [isAuthenticated, loadSubscriptions]);
+
+  const subscriptions = useMemo(() => data?.subscriptions ?? [], [data]);
+  const visible = subscriptions.filter((subscription) => matchesSubscriptionFilter(subscription, filter));
+
+  const saveSubscription = async (
+    subscription: SubscriptionDto,
+    changes: { cancellationStatus?: SubscriptionCancellationStatus; lastUsedAt?: string; notes?: string }
+  ) => {
+    const saved = await apiClient.updateSubscription(subscription.patternId, {
+      cancellationStatus: changes.cancellationStatus ?? (subscription.cancellationStatus as SubscriptionCancellationStatus),
+      lastUsedAt: 'lastUsedAt' in changes ? changes.lastUsedAt : subscription.lastUsedAt,
+      notes: 'notes' in changes ? changes.notes : subscription.notes,
+    });
+    setData((current) =>
+      current
+        ? {
+            ...current,
+            subscriptions: current.subscriptions.map((candidate) =>
+              candidate.patternId === saved.patternId ? saved : candidate
+            ),
+          }
+        : current
+    );
+  };
+
+  const handleStatusChange = async (subscription: SubscriptionDto, status: SubscriptionCancellationStatus) => {
+    try {
+      await saveSubscription(subscription, { cancellationStatus: status });
+      toast.success(t(`toasts.${status}`, { name: subscription.merchantName }));
+      // Totals depend on every subscription's status, so refresh them without the loading skeleton
+      setData(await apiClient.getSubscriptions());
+    } catch (error) {
+      console.error('Failed to update subscription:', error);
+      toast.error(t('errors.saveFailed'));
+    }
+  };
+
+  const handleSaveNotes = async () => {
+    if (!editing) return;
+
+    try {
+      setSaving(true);
+      await saveSubscription(editing.subscription, {
+        lastUsedAt: editing.lastUsedAt || undefined,
+        notes: editing.notes.trim() || undefined,
+      });
+      setEditing(null);
+    } catch (error) {
+      console.error('Failed to save subscription notes:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <ReceiptRefundIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 lg:mb-8">
+        <BackButton variant="link" href="/bills" label={t('backToBills')} />
+        <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+          {t('title')}
+        </h1>
+        <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {[
+            { key: 'annualCost', amount: data?.totalAnnualCost ?? 0, className: 'text-ink-900' },
+            { key: 'cancelIntended', amount: data?.cancelIntendedAnnualCost ?? 0, className: 'text-amber-600' },
+            { key: 'saved', amount: data?.cancelledAnnualSavings ?? 0, className: 'text-green-600' },
+          ].map((summary) => (
+            <Card key={summary.key} className={cardClassName}>
+              <CardContent className="p-5">
+                <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">
+                  {t(`summary.${summary.key}`)}
+                </p>
+                <p className={cn('mt-2 text-2xl font-semibold', summary.className)}>
+                  {loadingSubscriptions ? '—' : formatCurrency(summary.amount)}
+                </p>
+                <p className="mt-1 text-xs text-ink-500">{t('summary.perYear')}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className={cardClassName}>
+          <CardContent className="p-0">
+            <div className="flex flex-wrap gap-2 border-b border-ink-100 px-6 py-4">
+              {SUBSCRIPTION_FILTERS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFilter(option)}
+                  className={cn(
+                    'rounded-full px-3 py-1 text-sm font-medium transition-colors',
+                    filter === option ? 'bg-primary-600 text-white' : 'bg-ink-100 text-ink-600 hover:bg-ink-200'
+                  )}
+                >
+                  {t(`filters.${option}`, {
+                    count: subscriptions.filter((subscription) => matchesSubscriptionFilter(subscription, option)).length,
+                  })}
+                </button>
+              ))}
+            </div>
+
+            {loadingSubscriptions ? (
+              <div className="space-y-3 p-6">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <div key={i} className="h-14 animate-pulse rounded-lg bg-ink-100" />
+                ))}
+              </div>
+            ) : visible.length === 0 ? (
+              <div className="p-10 text-center">
+                <ReceiptRefundIcon className="mx-auto mb-3 h-10 w-10 text-ink-300" />
+                <p className="font-medium text-ink-700">{t('empty.title')}</p>
+                <p className="mt-1 text-sm text-ink-500">{t('empty.description')}</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-ink-100">
+                {visible.map((subscription) => {
+                  const priceChange = getLatestPriceChange(subscription);
+                  const isExpanded = expanded === subscription.patternId;
+                  return (
+                    <li key={subscription.patternId} className="px-6 py-4">
+                      <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+                        <div className="min-w-0 flex-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <p className="truncate font-medium text-ink-900">{subscription.merchantName}</p>
+                            {subscription.cancellationStatus === 'CancelIntended' && (
+                              <span className="rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-700">
+                                {t('badges.cancelIntended')}
+                              </span>
+                            )}
+                            {subscription.cancellationStatus === 'Cancelled' && (
+                              <span className="rounded-full bg-ink-100 px-2 py-0.5 text-[11px] font-medium text-ink-600">
+                                {t('badges.cancelled', {
+                                  date: formatDate(subscription.cancellationStatusChangedAt ?? subscription.lastChargedAt),
+                                })}
+                              </span>
+                            )}
+                            {hasStoppedCharging(subscription) && (
+                              <span className="rounded-full bg-ink-100 px-2 py-0.5 text-[11px] font-medium text-ink-500">
+                                {t('badges.stopped')}
+                              </span>
+                            )}
+                          </div>
+                          <p className="mt-0.5 text-xs text-ink-500">
+                            {KNOWN_INTERVALS.includes(subscription.interval)
+                              ? t(`intervals.${subscription.interval}`)
+                              : t('intervals.everyDays', { days: subscription.intervalDays })}
+                            {subscription.categoryName && ` · ${subscription.categoryName}`}
+                            {` · ${t('lastCharged', { date: formatDate(subscription.lastChargedAt) })}`}
+                          </p>
+                          {subscription.chargedAfterCancellationAt && (
+                            <p className="mt-1 flex items-center gap-1 text-xs font-medium text-red-600">
+                              <ExclamationTriangleIcon className="h-4 w-4" />
+                              {t('chargedAfterCancellation', { date: formatDate(subscription.chargedAfterCancellationAt) })}
+                            </p>
+                          )}
+                          {priceChange && (
+                            <button
+                              type="button"
+                              onClick={() => setExpanded(isExpanded ? null : subscription.patternId)}
+                              className={cn(
+                                'mt-1 flex items-center gap-1 text-xs font-medium hover:underline',
+                                priceChange.percent > 0 ? 'text-red-600' : 'text-green-600'
+                              )}
+                            >
+                              {priceChange.percent > 0 ? (
+                                <ArrowTrendingUpIcon className="h-4 w-4" />
+                              ) : (
+                                <ArrowTrendingDownIcon className="h-4 w-4" />
+                              )}
+                              {t('priceChange', {
+                                percent: Math.abs(priceChange.percent).toFixed(0),
+                                direction: priceChange.percent > 0 ? 'up' : 'down',
+                                date: formatDate(priceChange.date),
+                              })}
+                            </button>
+                          )}
+                          {(subscription.lastUsedAt || subscription.notes) && (
+                            <p className="mt-1 text-xs text-ink-600">
+                              {subscription.lastUsedAt && t('lastUsed', { date: formatDate(subscription.lastUsedAt) })}
+                              {subscription.lastUsedAt && subscription.notes && ' · '}
+                              {subscription.notes}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex shrink-0 flex-col gap-2 sm:items-end">
+                          <div className="sm:text-right">
+                            <p className="font-semibold text-ink-900">{formatCurrency(subscription.currentAmount)}</p>
+                            <p className="text-xs text-ink-500">
+                              {t('annualized', { amount: formatCurrency(subscription.annualizedAmount) })}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={subscription.cancellationStatus}
+                              onChange={(event) =>
+                                handleStatusChange(subscription, event.target.value as SubscriptionCancellationStatus)
+                              }
+                              className="h-8 w-44 text-sm"
+                              aria-label={t('statusLabel', { name: subscription.merchantName })}
+                            >
+                              {CANCELLATION_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                  {t(`statuses.${status}`)}
+                                </option>
+                              ))}
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() =>
+                                setEditing({
+                                  subscription,
+                                  lastUsedAt: subscription.lastUsedAt?.slice(0, 10) ?? '',
+                                  notes: subscription.notes ?? '',
+                                })
+                              }
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                              <span className="sr-only">{t('editNotes')}</span>
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-3 rounded-xl border border-ink-100 bg-ink-50/50 p-3">
+                          <p className="mb-2 text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">
+                            {t('priceHistory')}
+                          </p>
+                          <ul className="space-y-1 text-sm">
+                            {[...subscription.priceChanges].reverse().map((change) => (
+                              <li key={change.date} className="flex justify-between gap-3">
+                                <span className="text-ink-600">{formatDate(change.date)}</span>
+                                <span className="text-ink-900">
+                                  {formatCurrency(change.previousAmount)} → {formatCurrency(change.newAmount)}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                          <Link
+                            href={`/transactions?search=${encodeURIComponent(subscription.merchantName)}`}
+                            className="mt-2 inline-block text-xs text-primary-600 hover:underline"
+                          >
+                            {t('viewCharges')}
+                          </Link>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing && (
+        <BaseModal
+          isOpen={editing !== null}
+          onClose={() => setEditing(null)}
+          title={t('notesDialog.title', { name: editing.subscription.merchantName })}
+          size="md"
+        >
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleSaveNotes();
+            }}
+          >
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('notesDialog.lastUsed')}</label>
+              <Input
+                type="date"
+                value={editing.lastUsedAt}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(event) => setEditing({ ...editing, lastUsedAt: event.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('notesDialog.notes')}</label>
+              <Textarea
+                value={editing.notes}
+                onChange={(event) => setEditing({ ...editing, notes: event.target.value })}
+                placeholder={t('notesDialog.notesPlaceholder')}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setEditing(null)} disabled={saving}>
+                {tCommon('cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? tCommon('saving') : tCommon('save')}
+              </Button>
+            </div>
+          </form>
+        </BaseModal>
+      )}
+    </AppLayout>
+  );
+}
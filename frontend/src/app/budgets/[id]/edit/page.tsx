@@ -12,6 +12,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import type { BudgetDetail, BudgetSuggestion } from '@/types/budget';
 import { formatCurrency } from '@/types/budget';
 import { toast } from 'sonner';
@@ -26,12 +27,6 @@ import { renderCategoryIcon } from '@/lib/category-icons';
 
 const BUDGET_BASE = '/budgets';
 
-interface Category {
-  id: number;
-  name: string;
-  icon?: string;
-}
-
 interface CategoryDraft {
   budgetedAmount: number;
   allowRollover: boolean;
@@ -55,7 +50,7 @@ export default function EditBudgetPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [budget, setBudget] = useState<BudgetDetail | null>(null);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [suggestions, setSuggestions] = useState<BudgetSuggestion[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -79,7 +74,7 @@ export default function EditBudgetPage() {
         setLoading(true);
         const [budgetData, categoriesData, suggestionsData] = await Promise.all([
           apiClient.getBudget(budgetId),
-          apiClient.getCategories() as Promise<Category[]>,
+          apiClient.getCategories(),
           apiClient.getBudgetSuggestions(3).catch(() => [] as BudgetSuggestion[]),
         ]);
 
@@ -157,7 +152,7 @@ export default function EditBudgetPage() {
     });
   };
 
-  const handleAddCategory = (category: Category) => {
+  const handleAddCategory = (category: CategoryDto) => {
     const suggestion = suggestions.find((entry) => entry.categoryId === category.id);
     setNewCategories((current) => [
       ...current,
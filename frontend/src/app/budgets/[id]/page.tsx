@@ -21,6 +21,7 @@ import { BackButton } from '@/components/ui/back-button';
 import { cn } from '@/lib/utils';
 import { BudgetHealthInsight } from '@/components/budget/budget-health-insight';
 import { BudgetDeleteDialog } from '@/components/budget/budget-delete-dialog';
+import { MonthCloseHistory } from '@/components/budget/month-close-history';
 
 const BUDGET_BASE = '/budgets';
 
@@ -301,6 +302,8 @@ export default function BudgetDetailPage() {
             </div>
           )}
         </section>
+
+        <MonthCloseHistory budgetId={budget.id} />
       </div>
     </AppLayout>
   );
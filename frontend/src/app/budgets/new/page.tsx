@@ -11,6 +11,7 @@ import { Select } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import type {
   BudgetPeriodType,
   BudgetSuggestion,
@@ -31,12 +32,6 @@ import { BudgetWizardStepShell } from '@/components/budget/budget-wizard-step-sh
 
 const BUDGET_BASE = '/budgets';
 
-interface Category {
-  id: number;
-  name: string;
-  icon?: string;
-}
-
 interface CategorySelection extends CreateBudgetCategoryRequest {
   categoryName: string;
   categoryIcon?: string;
@@ -63,7 +58,7 @@ export default function CreateBudgetPage() {
   const [isRecurring, setIsRecurring] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
 
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [suggestions, setSuggestions] = useState<BudgetSuggestion[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<CategorySelection[]>([]);
 
@@ -89,7 +84,7 @@ export default function CreateBudgetPage() {
       try {
         setLoadingCategories(true);
         const [categoriesData, suggestionsData] = await Promise.all([
-          apiClient.getCategories() as Promise<Category[]>,
+          apiClient.getCategories(),
           apiClient.getBudgetSuggestions(3).catch(() => [] as BudgetSuggestion[]),
         ]);
         setCategories(categoriesData);
@@ -114,7 +109,7 @@ export default function CreateBudgetPage() {
   const canProceedStep2 = selectedCategories.length > 0 && selectedCategories.every((item) => item.budgetedAmount > 0);
   const totalBudget = selectedCategories.reduce((sum, item) => sum + item.budgetedAmount, 0);
 
-  const addCategory = (category: Category) => {
+  const addCategory = (category: CategoryDto) => {
     const suggestion = suggestions.find((entry) => entry.categoryId === category.id);
     setSelectedCategories((current) => [
       ...current,
@@ -14,6 +14,7 @@ import { toast } from 'sonner';
 import {
   ArrowRightIcon,
   CalendarDaysIcon,
+  LockClosedIcon,
   PlusIcon,
   SparklesIcon,
   TagIcon,
@@ -23,6 +24,7 @@ import {
   sortBudgetsForTriage,
 } from '@/lib/budget/budget-triage';
 import { BudgetContextualNudge } from '@/components/budget/budget-contextual-nudge';
+import { MonthCloseWizard } from '@/components/budget/month-close-wizard';
 import { cn } from '@/lib/utils';
 import { BudgetsSkeleton } from '@/components/skeletons';
 import { useAuthGuard } from '@/hooks/use-auth-guard';
@@ -72,6 +74,8 @@ export default function BudgetsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showInactive, setShowInactive] = useState(false);
   const [currentPeriodOnly, setCurrentPeriodOnly] = useState(false);
+  const [showMonthClose, setShowMonthClose] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     if (!isAuthResolved) return;
@@ -91,7 +95,7 @@ export default function BudgetsPage() {
     };
 
     load();
-  }, [isAuthResolved, showInactive, currentPeriodOnly, t]);
+  }, [isAuthResolved, showInactive, currentPeriodOnly, reloadKey, t]);
 
   const sortedBudgets = useMemo(() => sortBudgetsForTriage(budgets), [budgets]);
 
@@ -107,13 +111,19 @@ export default function BudgetsPage() {
             </h1>
             <p className="mt-1.5 text-[15px] text-ink-500">{t('subtitle')}</p>
           </div>
-          <Link href={`${BUDGET_BASE}/new`}>
-            <Button>
-              <PlusIcon className="mr-1.5 h-4 w-4" />
-              <span className="hidden sm:inline">{t('createBudget')}</span>
-              <span className="sm:hidden">{tCommon('add')}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={() => setShowMonthClose(true)}>
+              <LockClosedIcon className="mr-1.5 h-4 w-4" />
+              {t('monthClose.open')}
             </Button>
-          </Link>
+            <Link href={`${BUDGET_BASE}/new`}>
+              <Button>
+                <PlusIcon className="mr-1.5 h-4 w-4" />
+                <span className="hidden sm:inline">{t('createBudget')}</span>
+                <span className="sm:hidden">{tCommon('add')}</span>
+              </Button>
+            </Link>
+          </div>
         </div>
         <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
           <div className="flex items-center gap-2">
@@ -246,6 +256,12 @@ export default function BudgetsPage() {
           </section>
         )}
       </div>
+
+      <MonthCloseWizard
+        isOpen={showMonthClose}
+        onClose={() => setShowMonthClose(false)}
+        onClosed={() => setReloadKey((key) => key + 1)}
+      />
     </AppLayout>
   );
 }
@@ -8,6 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import Link from 'next/link';
 import {
   TagIcon,
@@ -18,25 +19,6 @@ import { renderCategoryIcon } from '@/lib/category-icons';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 
-interface Category {
-  id: number;
-  name: string;
-  description?: string;
-  color?: string;
-  icon?: string;
-  type: number;
-  isSystemCategory: boolean;
-  isActive: boolean;
-  sortOrder: number;
-  parentCategoryId?: number;
-  parentCategoryName?: string;
-  fullPath: string;
-  transactionCount: number;
-  totalAmount: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface FormData {
   name: string;
   description: string;
@@ -60,8 +42,8 @@ export default function EditCategoryPage() {
   const tCommon = useTranslations('common');
   const tToasts = useTranslations('toasts');
 
-  const [category, setCategory] = useState<Category | null>(null);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [category, setCategory] = useState<CategoryDto | null>(null);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState<FormData>({
@@ -81,7 +63,7 @@ export default function EditCategoryPage() {
   const loadCategoryDetails = useCallback(async () => {
     try {
       setLoading(true);
-      const categoryData = await apiClient.getCategory(parseInt(categoryId)) as Category;
+      const categoryData = await apiClient.getCategory(parseInt(categoryId));
       setCategory(categoryData);
       setFormData({
         name: categoryData.name,
@@ -105,7 +87,7 @@ export default function EditCategoryPage() {
         includeSystemCategories: true,
         includeInactive: false,
         includeHierarchy: false
-      }) as Category[];
+      });
       setCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
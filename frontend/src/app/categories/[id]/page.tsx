@@ -6,8 +6,10 @@ import { useEffect, useState, useCallback } from 'react';
 import { AppLayout } from '@/components/app-layout';
 import { Button } from '@/components/ui/button';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto, CategoryStatisticsDto } from '@/types/categories';
 import Link from 'next/link';
 import {
+  ListBulletIcon,
   PencilIcon,
   TrashIcon,
   TagIcon,
@@ -19,25 +21,9 @@ import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 import { TransactionList } from '@/components/transaction-list';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
-
-interface Category {
-  id: number;
-  name: string;
-  description?: string;
-  color?: string;
-  icon?: string;
-  type: number;
-  isSystemCategory: boolean;
-  isActive: boolean;
-  sortOrder: number;
-  parentCategoryId?: number;
-  parentCategoryName?: string;
-  fullPath: string;
-  transactionCount: number;
-  totalAmount: number;
-  createdAt: string;
-  updatedAt: string;
-}
+import { CategoryAnalyticsPanel } from '@/components/categories/category-analytics-panel';
+import { CategoryReferences } from '@/components/categories/category-references';
+import { categoryTransactionsHref } from '@/lib/categories/category-analytics';
 
 interface Transaction {
   id: number;
@@ -79,12 +65,13 @@ export default function CategoryDetailsPage() {
     }
   };
 
-  const [category, setCategory] = useState<Category | null>(null);
+  const [category, setCategory] = useState<CategoryDto | null>(null);
   const [categoryStats, setCategoryStats] = useState<CategoryStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadingStats, setLoadingStats] = useState(false);
   const [dateFilter, setDateFilter] = useState<DateFilter>('thisMonth');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [analytics, setAnalytics] = useState<CategoryStatisticsDto | null>(null);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -95,7 +82,7 @@ export default function CategoryDetailsPage() {
   const loadCategoryDetails = useCallback(async () => {
     try {
       setLoading(true);
-      const categoryData = await apiClient.getCategory(parseInt(categoryId)) as Category;
+      const categoryData = await apiClient.getCategory(parseInt(categoryId));
       setCategory(categoryData);
     } catch (error) {
       console.error('Failed to load category:', error);
@@ -186,6 +173,25 @@ export default function CategoryDetailsPage() {
     }
   }, [dateFilter, isAuthenticated, categoryId, loadCategoryStats]);
 
+  useEffect(() => {
+    if (!isAuthenticated || !categoryId) return;
+    let cancelled = false;
+
+    apiClient
+      .getCategoryStatistics(parseInt(categoryId))
+      .then((data) => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch((error) => {
+        // The page still works without analytics, so don't interrupt with a toast
+        console.error('Failed to load category analytics:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, categoryId]);
+
   const handleDeleteCategory = async () => {
     if (!category) return;
 
@@ -226,25 +232,33 @@ export default function CategoryDetailsPage() {
       <header className="flex flex-wrap items-center justify-between gap-4 mb-5">
         <BackButton href="/categories" label={t('details.backToCategories')} />
 
-        {!category.isSystemCategory && (
-          <div className="flex items-center gap-2">
-            <Button
-              variant="secondary"
-              size="sm"
-              className="flex items-center gap-2 border-red-300 text-red-600 hover:bg-red-50"
-              onClick={() => setShowDeleteConfirm(true)}
-            >
-              <TrashIcon className="w-4 h-4" />
-              <span className="hidden sm:inline">{tCommon('delete')}</span>
+        <div className="flex items-center gap-2">
+          <Link href={categoryTransactionsHref(category.id)}>
+            <Button variant="secondary" size="sm" className="flex items-center gap-2">
+              <ListBulletIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('details.viewTransactions')}</span>
             </Button>
-            <Link href={`/categories/${category.id}/edit`}>
-              <Button variant="secondary" size="sm" className="flex items-center gap-2">
-                <PencilIcon className="w-4 h-4" />
-                <span className="hidden sm:inline">{tCommon('edit')}</span>
+          </Link>
+          {!category.isSystemCategory && (
+            <>
+              <Button
+                variant="secondary"
+                size="sm"
+                className="flex items-center gap-2 border-red-300 text-red-600 hover:bg-red-50"
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                <TrashIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">{tCommon('delete')}</span>
               </Button>
-            </Link>
-          </div>
-        )}
+              <Link href={`/categories/${category.id}/edit`}>
+                <Button variant="secondary" size="sm" className="flex items-center gap-2">
+                  <PencilIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">{tCommon('edit')}</span>
+                </Button>
+              </Link>
+            </>
+          )}
+        </div>
       </header>
 
       <div className="space-y-5">
@@ -389,6 +403,11 @@ export default function CategoryDetailsPage() {
           )}
         </section>
 
+        {/* Analytics over the last two years, including subcategories */}
+        {analytics && <CategoryAnalyticsPanel stats={analytics} />}
+
+        <CategoryReferences categoryId={category.id} />
+
         {/* Transactions Section */}
         <section className="rounded-[26px] border border-ink-200 bg-white/90 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)] p-5">
           <TransactionList
@@ -8,6 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import Link from 'next/link';
 import {
   TagIcon,
@@ -17,15 +18,6 @@ import {
 import { BackButton } from '@/components/ui/back-button';
 import { useTranslations } from 'next-intl';
 
-interface Category {
-  id: number;
-  name: string;
-  color?: string;
-
-  isSystemCategory?: boolean;
-  fullPath?: string;
-}
-
 export default function NewCategoryPage() {
   const { isAuthenticated, isLoading } = useAuth();
   const router = useRouter();
@@ -33,7 +25,7 @@ export default function NewCategoryPage() {
   const tCommon = useTranslations('common');
   const tToasts = useTranslations('toasts');
   const [loading, setLoading] = useState(false);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [success, setSuccess] = useState(false);
 
@@ -65,7 +57,7 @@ export default function NewCategoryPage() {
 
   const loadCategories = async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Category[];
+      const categoriesData = await apiClient.getCategories();
       setCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { formatCurrency, cn } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import {
@@ -21,7 +22,9 @@ import {
   SparklesIcon,
   EyeIcon,
   ArrowPathIcon,
+  Squares2X2Icon,
 } from '@heroicons/react/24/outline';
+import { CategoryManager } from '@/components/categories/category-manager';
 
 // Dynamic import for BankCategoryMappings to avoid SSR issues
 const BankCategoryMappings = dynamic(
@@ -49,30 +52,11 @@ import {
 import { toast } from 'sonner';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 
-interface Category {
-  id: number;
-  name: string;
-  description?: string;
-  color?: string;
-  icon?: string;
-  type: number;
-  isSystemCategory: boolean;
-  isActive: boolean;
-  sortOrder: number;
-  parentCategoryId?: number;
-  parentCategoryName?: string;
-  fullPath: string;
-  transactionCount: number;
-  totalAmount: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
 export default function CategoriesPage() {
   const { shouldRender, isAuthResolved } = useAuthGuard();
   const t = useTranslations('categories');
   const tCommon = useTranslations('common');
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [initializingCategories, setInitializingCategories] = useState(false);
@@ -80,6 +64,7 @@ export default function CategoriesPage() {
   const [showAll, setShowAll] = useState(false);
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [deleteCategoryTarget, setDeleteCategoryTarget] = useState<{ id: number; name: string } | null>(null);
+  const [managing, setManaging] = useState(false);
 
   useEffect(() => {
     if (isAuthResolved) {
@@ -104,8 +89,8 @@ export default function CategoriesPage() {
           includeSystemCategories: true,
           includeInactive: false,
           includeHierarchy: false
-        }) as Promise<Category[]>,
-        apiClient.getFilteredCategories({}) as Promise<Category[]>
+        }),
+        apiClient.getFilteredCategories({})
       ]);
 
       // Build a map of transaction counts from filtered results
@@ -205,7 +190,7 @@ export default function CategoriesPage() {
     if (viewMode === 'top' || viewMode === 'search') {
       // Build a set of visible IDs for quick lookup
       const visibleIds = new Set(displayCategories.map(c => c.id));
-      const sorted: Category[] = [];
+      const sorted: CategoryDto[] = [];
       const added = new Set<number>();
 
       for (const cat of displayCategories) {
@@ -244,7 +229,7 @@ export default function CategoriesPage() {
 
     // 'all' mode: full hierarchy sort
     const parents = displayCategories.filter(c => !c.parentCategoryId).sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
-    const childrenMap = new Map<number, Category[]>();
+    const childrenMap = new Map<number, CategoryDto[]>();
     for (const c of displayCategories.filter(c => c.parentCategoryId)) {
       const existing = childrenMap.get(c.parentCategoryId!) || [];
       existing.push(c);
@@ -254,7 +239,7 @@ export default function CategoriesPage() {
       children.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
     }
 
-    const sorted: Category[] = [];
+    const sorted: CategoryDto[] = [];
     for (const parent of parents) {
       sorted.push(parent);
       const children = childrenMap.get(parent.id);
@@ -289,13 +274,26 @@ export default function CategoriesPage() {
             </div>
 
             {activeTab === 'categories' && (
-              <Link href="/categories/new">
-                <Button size="sm" className="flex items-center gap-2">
-                  <PlusIcon className="w-4 h-4" />
-                  <span className="hidden sm:inline">{t('addCategory')}</span>
-                  <span className="sm:hidden">{tCommon('add')}</span>
-                </Button>
-              </Link>
+              <div className="flex items-center gap-2">
+                {categories.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant={managing ? 'primary' : 'secondary'}
+                    className="flex items-center gap-2"
+                    onClick={() => setManaging(!managing)}
+                  >
+                    <Squares2X2Icon className="w-4 h-4" />
+                    <span>{managing ? t('manage.done') : t('manage.open')}</span>
+                  </Button>
+                )}
+                <Link href="/categories/new">
+                  <Button size="sm" className="flex items-center gap-2">
+                    <PlusIcon className="w-4 h-4" />
+                    <span className="hidden sm:inline">{t('addCategory')}</span>
+                    <span className="sm:hidden">{tCommon('add')}</span>
+                  </Button>
+                </Link>
+              </div>
             )}
           </div>
 
@@ -330,7 +328,7 @@ export default function CategoriesPage() {
           </div>
 
           {/* Search Bar - only for categories tab */}
-          {activeTab === 'categories' && (
+          {activeTab === 'categories' && !managing && (
             <div className="mt-4 relative">
               <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-ink-400" />
               <Input
@@ -350,8 +348,13 @@ export default function CategoriesPage() {
           <BankCategoryMappings />
         )}
 
+        {/* Management mode: merge, split and re-parent */}
+        {activeTab === 'categories' && managing && (
+          <CategoryManager categories={categories} onChanged={loadCategories} />
+        )}
+
         {/* Categories List */}
-        {activeTab === 'categories' && (
+        {activeTab === 'categories' && !managing && (
         <>
         {/* Status label */}
         {!loading && displayCategories.length > 0 && (
@@ -19,10 +19,32 @@ import {
 import type { ChatMessageDto } from '@/types/chat';
 import type { Components } from 'react-markdown';
 import { useAuthGuard } from '@/hooks/use-auth-guard';
+import { useRealtimeEvent } from '@/contexts/realtime-context';
 import { ChatSkeleton } from '@/components/skeletons';
 
 const MAX_CHARS = 5000;
 
+/**
+ * Adds `message` unless it is already shown. A streamed user message replaces
+ * its optimistic copy, which has a temporary negative id.
+ */
+function mergeChatMessage(messages: ChatMessageDto[], message: ChatMessageDto): ChatMessageDto[] {
+  if (messages.some((m) => m.id === message.id)) return messages;
+
+  if (message.role === 'user') {
+    const optimisticIndex = messages.findIndex(
+      (m) => m.id < 0 && m.role === 'user' && m.content === message.content
+    );
+    if (optimisticIndex !== -1) {
+      const next = [...messages];
+      next[optimisticIndex] = message;
+      return next;
+    }
+  }
+
+  return [...messages, message];
+}
+
 // Custom components for chat-friendly markdown rendering
 const chatComponents: Partial<Components> = {
   // Headings render as compact section labels with a subtle separator
@@ -109,6 +131,11 @@ export default function ChatPage() {
     }
   }, [isAuthResolved, checkChatConfiguration, loadHistory]);
 
+  // Replies (and messages sent from another tab or Telegram) arrive over the event stream
+  useRealtimeEvent('chat.message', ({ message }) => {
+    setMessages((prev) => mergeChatMessage(prev, message));
+  });
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (shouldAutoScroll.current && messagesEndRef.current) {
@@ -152,10 +179,10 @@ export default function ChatPage() {
       const response = await apiClient.sendChatMessage(messageContent);
 
       if (response.success && response.userMessage && response.assistantMessage) {
-        // Replace the temp message with the real ones
+        // Replace the temp message with the real ones, unless the stream already delivered them
         setMessages((prev) => {
           const filtered = prev.filter((m) => m.id !== tempUserMessage.id);
-          return [...filtered, response.userMessage!, response.assistantMessage!];
+          return [response.userMessage!, response.assistantMessage!].reduce(mergeChatMessage, filtered);
         });
       } else {
         // Error from AI - show error message in a bubble
@@ -0,0 +1,399 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getAccountTypeKey } from '@/components/ui/account-type-badge';
+import { CalculatorIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { useDebtPayoffPlan } from '@/hooks/use-debt-payoff-plan';
+import { apiClient } from '@/lib/api-client';
+import {
+  PAYOFF_STRATEGIES,
+  addMonths,
+  formatPayoffMonth,
+  simulatePayoff,
+  toPlanDebts,
+  type PayoffPlan,
+  type PayoffStrategy,
+} from '@/lib/debts/payoff';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { DebtsResponse } from '@/types/debts';
+
+const cardClassName =
+  'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+const STRATEGY_COLORS: Record<PayoffStrategy | 'minimums', string> = {
+  avalanche: '#2563eb',
+  snowball: '#059669',
+  minimums: '#9ca3af',
+};
+
+export default function DebtsPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations('debts');
+  const tTypes = useTranslations('accounts.types');
+  const tCommon = useTranslations('common');
+  const [data, setData] = useState<DebtsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { settings, updateSettings } = useDebtPayoffPlan(data?.plan);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadDebts = useCallback(async () => {
+    try {
+      setData(await apiClient.getDebts());
+    } catch (error) {
+      console.error('Failed to load debts:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadDebts();
+    }
+  }, [isAuthenticated, loadDebts]);
+
+  const debts = useMemo(() => data?.debts ?? [], [data]);
+
+  const plans = useMemo(() => {
+    const planDebts = toPlanDebts(debts);
+    const start = new Date();
+    return {
+      avalanche: simulatePayoff(planDebts, 'avalanche', settings.extraPayment, start),
+      snowball: simulatePayoff(planDebts, 'snowball', settings.extraPayment, start),
+      minimums: simulatePayoff(planDebts, settings.strategy, 0, start),
+    };
+  }, [debts, settings.extraPayment, settings.strategy]);
+
+  const chartRows = useMemo(() => {
+    const length = Math.max(plans.avalanche.balances.length, plans.snowball.balances.length, plans.minimums.balances.length);
+    const start = new Date();
+    const total = debts.reduce((sum, debt) => sum + debt.baseBalance, 0);
+    return Array.from({ length: length + 1 }, (_, month) => ({
+      month: addMonths(start, month),
+      avalanche: month === 0 ? total : plans.avalanche.balances[month - 1] ?? 0,
+      snowball: month === 0 ? total : plans.snowball.balances[month - 1] ?? 0,
+      minimums: month === 0 ? total : plans.minimums.balances[month - 1] ?? 0,
+    }));
+  }, [plans, debts]);
+
+  const chosen = plans[settings.strategy];
+  const currency = data?.baseCurrency;
+  const totalOwed = debts.reduce((sum, debt) => sum + debt.baseBalance, 0);
+  const missingTerms = debts.filter((debt) => !debt.terms);
+  const debtsById = new Map(debts.map((debt) => [debt.accountId, debt]));
+
+  const describePlan = (plan: PayoffPlan) =>
+    plan.payoffMonth ? formatPayoffMonth(plan.payoffMonth, locale) : t('never');
+
+  const extraEffect =
+    settings.extraPayment > 0 && chosen.months !== null
+      ? {
+          months: plans.minimums.months !== null ? plans.minimums.months - chosen.months : null,
+          interest: plans.minimums.totalInterest - chosen.totalInterest,
+        }
+      : null;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <CalculatorIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between lg:mb-8">
+        <div>
+          <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+            {t('title')}
+          </h1>
+          <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+        </div>
+        <div className="sm:w-56">
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('extraPayment')}</label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="10"
+            value={settings.extraPayment || ''}
+            onChange={(event) => updateSettings({ ...settings, extraPayment: parseFloat(event.target.value) || 0 })}
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {data && data.unconvertedCurrencies.length > 0 && (
+          <div className="flex items-start gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-600" />
+            <p className="text-sm text-amber-800">
+              {t('unconverted', { currencies: data.unconvertedCurrencies.join(', ') })}{' '}
+              <Link href="/settings/currencies" className="font-medium underline">
+                {t('addRates')}
+              </Link>
+            </p>
+          </div>
+        )}
+
+        {missingTerms.length > 0 && (
+          <div className="flex items-start gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-600" />
+            <div className="text-sm text-amber-800">
+              <p>{t('missingTerms', { count: missingTerms.length })}</p>
+              <p className="mt-1 flex flex-wrap gap-x-3">
+                {missingTerms.map((debt) => (
+                  <Link key={debt.accountId} href={`/accounts/${debt.accountId}`} className="font-medium underline">
+                    {debt.name}
+                  </Link>
+                ))}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {!loading && debts.length === 0 ? (
+          <Card className={cardClassName}>
+            <CardContent className="flex flex-col items-center gap-3 p-10 text-center">
+              <CheckCircleIcon className="h-10 w-10 text-emerald-500" />
+              <p className="font-semibold text-ink-900">{t('empty.title')}</p>
+              <p className="text-sm text-ink-500">{t('empty.description')}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {[
+                { label: t('summary.totalOwed'), value: loading ? '—' : formatCurrency(totalOwed, currency) },
+                { label: t('summary.monthlyBudget'), value: loading ? '—' : formatCurrency(chosen.monthlyBudget, currency) },
+                { label: t('summary.debtFree'), value: loading ? '—' : describePlan(chosen) },
+                {
+                  label: t('summary.totalInterest'),
+                  value: loading || chosen.months === null ? '—' : formatCurrency(chosen.totalInterest, currency),
+                },
+              ].map((item) => (
+                <Card key={item.label} className={cardClassName}>
+                  <CardContent className="p-5">
+                    <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-ink-400">{item.label}</p>
+                    <p className="mt-1 font-[var(--font-dash-mono)] text-2xl font-semibold text-ink-900">{item.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {chosen.months === null && !loading && (
+              <div className="flex items-start gap-3 rounded-2xl border border-red-200 bg-red-50 p-4">
+                <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-red-600" />
+                <p className="text-sm text-red-700">{t('neverPaysOff')}</p>
+              </div>
+            )}
+
+            {extraEffect && (
+              <p className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+                {extraEffect.months !== null
+                  ? t('extraEffect', {
+                      amount: formatCurrency(settings.extraPayment, currency),
+                      months: extraEffect.months,
+                      interest: formatCurrency(extraEffect.interest, currency),
+                    })
+                  : t('extraMakesItPossible', { amount: formatCurrency(settings.extraPayment, currency) })}
+              </p>
+            )}
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              {PAYOFF_STRATEGIES.map((strategy) => {
+                const plan = plans[strategy];
+                const other = plans[strategy === 'avalanche' ? 'snowball' : 'avalanche'];
+                const selected = settings.strategy === strategy;
+                const firstPaid = plan.debts.find((debt) => debt.months !== null);
+
+                return (
+                  <Card key={strategy} className={cn(cardClassName, selected && 'ring-2 ring-primary-400')}>
+                    <CardContent className="space-y-3 p-6">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <h2 className="font-semibold text-ink-900">{t(`strategies.${strategy}.title`)}</h2>
+                          <p className="mt-0.5 text-sm text-ink-500">{t(`strategies.${strategy}.description`)}</p>
+                        </div>
+                        {selected ? (
+                          <span className="shrink-0 rounded-full bg-primary-50 px-2.5 py-1 text-xs font-medium text-primary-700">
+                            {t('yourPlan')}
+                          </span>
+                        ) : (
+                          <Button size="sm" variant="secondary" onClick={() => updateSettings({ ...settings, strategy })}>
+                            {t('usePlan')}
+                          </Button>
+                        )}
+                      </div>
+                      <dl className="grid grid-cols-3 gap-3 text-sm">
+                        <div>
+                          <dt className="text-xs text-ink-400">{t('comparison.debtFree')}</dt>
+                          <dd className="font-semibold text-ink-900">{describePlan(plan)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-xs text-ink-400">{t('comparison.months')}</dt>
+                          <dd className="font-semibold text-ink-900">{plan.months ?? '—'}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-xs text-ink-400">{t('comparison.interest')}</dt>
+                          <dd className="font-semibold text-ink-900">
+                            {plan.months !== null ? formatCurrency(plan.totalInterest, currency) : '—'}
+                          </dd>
+                        </div>
+                      </dl>
+                      {firstPaid && (
+                        <p className="text-xs text-ink-500">
+                          {t('comparison.firstWin', {
+                            name: firstPaid.name,
+                            date: formatPayoffMonth(firstPaid.payoffMonth!, locale),
+                          })}
+                        </p>
+                      )}
+                      {plan.months !== null && other.months !== null && other.totalInterest - plan.totalInterest >= 0.01 && (
+                        <p className="text-xs font-medium text-emerald-700">
+                          {t('comparison.saves', { amount: formatCurrency(other.totalInterest - plan.totalInterest, currency) })}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <Card className={cardClassName}>
+              <CardContent className="p-6">
+                <h2 className="font-semibold text-ink-900">{t('chart.title')}</h2>
+                <p className="mt-0.5 text-sm text-ink-500">{t('chart.description')}</p>
+                <div className="mt-4 h-72 w-full">
+                  {loading ? (
+                    <div className="h-full animate-pulse rounded-2xl bg-ink-100" />
+                  ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartRows} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                        <XAxis dataKey="month" tick={{ fontSize: 11 }} tickFormatter={(month: string) => formatPayoffMonth(month, locale)} />
+                        <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatCurrency(value, currency)} width={90} />
+                        <Tooltip
+                          formatter={(value) => formatCurrency(Number(value), currency)}
+                          labelFormatter={(label) => formatPayoffMonth(String(label), locale)}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {PAYOFF_STRATEGIES.map((strategy) => (
+                          <Line
+                            key={strategy}
+                            type="monotone"
+                            dataKey={strategy}
+                            name={t(`strategies.${strategy}.title`)}
+                            stroke={STRATEGY_COLORS[strategy]}
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        ))}
+                        {settings.extraPayment > 0 && (
+                          <Line
+                            type="monotone"
+                            dataKey="minimums"
+                            name={t('chart.minimumsOnly')}
+                            stroke={STRATEGY_COLORS.minimums}
+                            strokeDasharray="4 4"
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        )}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className={cardClassName}>
+              <CardContent className="p-0">
+                <div className="border-b border-ink-100 px-6 py-4">
+                  <h2 className="font-semibold text-ink-900">{t('order.title')}</h2>
+                  <p className="mt-0.5 text-sm text-ink-500">{t(`strategies.${settings.strategy}.title`)}</p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-ink-100 text-left text-xs font-semibold uppercase tracking-wide text-ink-400">
+                        <th className="px-6 py-2">#</th>
+                        <th className="py-2 pr-3">{t('order.debt')}</th>
+                        <th className="py-2 pr-3 text-right">{t('order.balance')}</th>
+                        <th className="py-2 pr-3 text-right">{t('order.rate')}</th>
+                        <th className="py-2 pr-3 text-right">{t('order.minimum')}</th>
+                        <th className="py-2 pr-3 text-right">{t('order.paidOff')}</th>
+                        <th className="py-2 pr-6 text-right">{t('order.interest')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {chosen.debts.map((result) => {
+                        const debt = debtsById.get(result.id);
+                        if (!debt) return null;
+
+                        return (
+                          <tr key={result.id} className="border-b border-ink-50 last:border-0">
+                            <td className="px-6 py-2 text-ink-400">{result.order}</td>
+                            <td className="py-2 pr-3">
+                              <Link href={`/accounts/${debt.accountId}`} className="font-medium text-ink-900 hover:underline">
+                                {debt.name}
+                              </Link>
+                              <p className="text-xs text-ink-500">{tTypes(getAccountTypeKey(debt.type))}</p>
+                            </td>
+                            <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                              {formatCurrency(debt.balance, debt.currency)}
+                            </td>
+                            <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                              {debt.terms ? `${debt.terms.annualInterestRate}%` : '—'}
+                            </td>
+                            <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                              {debt.terms ? formatCurrency(debt.terms.minimumPayment, debt.currency) : '—'}
+                            </td>
+                            <td className="py-2 pr-3 text-right">
+                              {result.payoffMonth ? formatPayoffMonth(result.payoffMonth, locale) : t('never')}
+                            </td>
+                            <td className="py-2 pr-6 text-right font-[var(--font-dash-mono)]">
+                              {formatCurrency(result.interest, currency)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
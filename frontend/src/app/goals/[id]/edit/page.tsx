@@ -12,14 +12,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { apiClient, UpdateGoalRequest } from '@/lib/api-client';
+import type { AccountDto } from '@/types/accounts';
 import { toast } from 'sonner';
 import { BackButton } from '@/components/ui/back-button';
 
-interface Account {
-  id: number;
-  name: string;
-}
-
 const GOAL_TYPES = ['EmergencyFund', 'Savings', 'DebtPayoff', 'Investment', 'Custom'] as const;
 const STATUSES = ['Active', 'Paused', 'Abandoned'] as const;
 
@@ -32,7 +28,7 @@ export default function EditGoalPage() {
   const goalId = Number(params.id);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
 
   // Form state
   const [name, setName] = useState('');
@@ -50,7 +46,7 @@ export default function EditGoalPage() {
         setIsLoading(true);
         const [goal, accountsData] = await Promise.all([
           apiClient.getGoal(goalId),
-          apiClient.getAccounts() as Promise<Account[]>,
+          apiClient.getAccounts(),
         ]);
 
         setName(goal.name);
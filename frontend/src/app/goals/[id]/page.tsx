@@ -32,6 +32,7 @@ import {
   LinkIcon,
 } from '@heroicons/react/24/outline';
 import { BackButton } from '@/components/ui/back-button';
+import { GoalContributionsPanel } from '@/components/goals/goal-contributions-panel';
 import { MapPinIcon as MapPinSolidIcon } from '@heroicons/react/24/solid';
 import {
   getGoalTypeConfig,
@@ -88,6 +89,14 @@ export default function GoalDetailPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [goalId]);
 
+  const refreshGoal = async () => {
+    try {
+      setGoal(await apiClient.getGoal(goalId));
+    } catch {
+      toast.error(t('loadError'));
+    }
+  };
+
   const handleDelete = async () => {
     try {
       await apiClient.deleteGoal(goalId);
@@ -351,6 +360,9 @@ export default function GoalDetailPage() {
           <config.DetailPanel goal={goal} ctx={goalCtx} />
         )}
 
+        {/* Contributions */}
+        <GoalContributionsPanel goal={goal} onChanged={refreshGoal} />
+
         {/* Details Section */}
         <div className="rounded-[24px] border border-ink-100 bg-white/90 p-6 shadow-sm backdrop-blur-xs">
           <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
@@ -11,14 +11,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select } from '@/components/ui/select';
 import { apiClient, CreateGoalRequest } from '@/lib/api-client';
+import type { AccountDto } from '@/types/accounts';
 import { toast } from 'sonner';
 import { BackButton } from '@/components/ui/back-button';
 
-interface Account {
-  id: number;
-  name: string;
-}
-
 const GOAL_TYPES = ['EmergencyFund', 'Savings', 'DebtPayoff', 'Investment', 'Custom'] as const;
 
 export default function CreateGoalPage() {
@@ -27,7 +23,7 @@ export default function CreateGoalPage() {
   const tCommon = useTranslations('common');
 
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
 
   // Form state
   const [name, setName] = useState('');
@@ -40,7 +36,7 @@ export default function CreateGoalPage() {
   useEffect(() => {
     const loadAccounts = async () => {
       try {
-        const data = (await apiClient.getAccounts()) as Account[];
+        const data = await apiClient.getAccounts();
         setAccounts(data);
       } catch {
         // Accounts are optional, don't show error
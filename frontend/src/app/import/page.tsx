@@ -15,30 +15,44 @@ import {
   ArrowLeftIcon,
   ExclamationTriangleIcon,
   AdjustmentsHorizontalIcon,
+  BookmarkIcon,
 } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 import { apiClient } from '@/lib/api-client';
+import type { AccountDto } from '@/types/accounts';
 import { useFeatures } from '@/contexts/features-context';
 import { CSVMappingReview } from '@/components/forms/csv-mapping-review';
 import { ImportReviewScreen } from '@/components/import-review/import-review-screen';
-import { ImportAnalysisResult, ImportExecutionResult, ImportReviewItem } from '@/types/import-review';
+import {
+  ConflictCheckRequest,
+  ImportAnalysisResult,
+  ImportExecutionResult,
+  ImportReviewItem,
+} from '@/types/import-review';
 import { useTranslations } from 'next-intl';
 import { BackendAccountType } from '@/lib/utils';
+import {
+  STATEMENT_FILE_EXTENSIONS,
+  StatementFormat,
+  StatementParseError,
+  StatementParseResult,
+  detectStatementFormat,
+  parseStatement,
+} from '@/lib/import/statement-import';
+import { formatStatementIssue, prepareStatementImport } from '@/lib/import/statement-analysis';
+import {
+  CsvMappingProfile,
+  findCsvMappingProfiles,
+  loadCsvMappingProfiles,
+} from '@/lib/import/csv-mapping-profiles';
 
 // ────────────────────────────────────────────────────────────────────────────
 // Types
 // ────────────────────────────────────────────────────────────────────────────
 
-type FileFormat = 'csv' | 'ofx';
+type FileFormat = 'csv' | 'ofx' | StatementFormat;
 type ImportStep = 'configure' | 'csv-mapping' | 'conflicts' | 'complete';
 
-interface Account {
-  id: number;
-  name: string;
-  type: number;
-  currentBalance: number;
-}
-
 interface CSVAnalysisResult {
   success: boolean;
   suggestedMappings: Record<string, {
@@ -159,7 +173,7 @@ function determineCorrectTransactionType(
 // ────────────────────────────────────────────────────────────────────────────
 
 function ImportPageContent() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
   const { features } = useFeatures();
@@ -179,8 +193,8 @@ function ImportPageContent() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [fileFormat, setFileFormat] = useState<FileFormat>('ofx');
 
-  // OFX-specific
-  const [accounts, setAccounts] = useState<Account[]>([]);
+  // OFX and statement files
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
   const [selectedAccount, setSelectedAccount] = useState<number | null>(urlAccountId ?? null);
   const [createAccount, setCreateAccount] = useState(false);
   const [accountName, setAccountName] = useState('');
@@ -189,9 +203,18 @@ function ImportPageContent() {
   const [csvAnalysisResult, setCsvAnalysisResult] = useState<CSVAnalysisResult | null>(null);
   const [csvContent, setCsvContent] = useState<string | null>(null);
   const [isAnalyzingCSV, setIsAnalyzingCSV] = useState(false);
+  // Saved mapping profile matching the uploaded file's header row, and the one in use
+  const [matchedCsvProfile, setMatchedCsvProfile] = useState<CsvMappingProfile | null>(null);
+  const [appliedCsvProfile, setAppliedCsvProfile] = useState<CsvMappingProfile | null>(null);
+
+  // QIF / CAMT.053 / MT940, parsed in the browser
+  const [statementResult, setStatementResult] = useState<StatementParseResult | null>(null);
+  const [isAnalyzingStatement, setIsAnalyzingStatement] = useState(false);
 
   // Conflicts / success
   const [importAnalysisResult, setImportAnalysisResult] = useState<ImportAnalysisResult | null>(null);
+  // Statement imports detect conflicts in the browser, on the review screen
+  const [conflictCheck, setConflictCheck] = useState<ConflictCheckRequest | undefined>();
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [isAnalyzingOFX, setIsAnalyzingOFX] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -222,7 +245,7 @@ function ImportPageContent() {
       apiClient
         .getAccounts()
         .then((data) => {
-          const list = (data as Account[]) || [];
+          const list = data || [];
           setAccounts(list);
           if (!selectedAccount && list.length > 0) {
             setSelectedAccount(list[0].id);
@@ -237,11 +260,11 @@ function ImportPageContent() {
   const detectFormat = (file: File): FileFormat => {
     const name = file.name.toLowerCase();
     if (name.endsWith('.ofx') || name.endsWith('.qfx')) return 'ofx';
-    return 'csv';
+    return detectStatementFormat(name) ?? 'csv';
   };
 
   const validateFile = (file: File): boolean => {
-    const valid = ['.csv', '.ofx', '.qfx'];
+    const valid = ['.csv', '.ofx', '.qfx', ...STATEMENT_FILE_EXTENSIONS];
     if (!valid.some((ext) => file.name.toLowerCase().endsWith(ext))) {
       setError(t('validation.invalidFileType'));
       return false;
@@ -251,11 +274,20 @@ function ImportPageContent() {
 
   const applyFile = (file: File) => {
     if (!validateFile(file)) return;
+    const format = detectFormat(file);
     setSelectedFile(file);
-    setFileFormat(detectFormat(file));
+    setFileFormat(format);
     setError(null);
     setCsvAnalysisResult(null);
     setCsvContent(null);
+    setMatchedCsvProfile(null);
+    setAppliedCsvProfile(null);
+    setStatementResult(null);
+    if (format === 'csv') {
+      void detectCsvProfile(file);
+    } else if (format !== 'ofx') {
+      void parseStatementFile(file, format);
+    }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -275,6 +307,8 @@ function ImportPageContent() {
 
   const removeFile = () => {
     setSelectedFile(null);
+    setMatchedCsvProfile(null);
+    setStatementResult(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
     setError(null);
   };
@@ -316,6 +350,7 @@ function ImportPageContent() {
         },
       });
       setImportAnalysisResult(result as unknown as ImportAnalysisResult);
+      setConflictCheck(undefined);
       setCurrentStep('conflicts');
       toast.success(t('toasts.analysisComplete'), { duration: 3000 });
     } catch (err) {
@@ -340,6 +375,102 @@ function ImportPageContent() {
     }
   };
 
+  // ── QIF / CAMT.053 / MT940 path ───────────────────────────────────────────
+
+  const parseStatementFile = async (file: File, format: StatementFormat) => {
+    try {
+      const result = parseStatement(format, await file.text());
+      setStatementResult(result);
+      if (result.candidates.length === 0) {
+        setError(t('statement.noTransactions', { format: t(`statement.formats.${format}`) }));
+      }
+    } catch (err) {
+      console.error('Statement parse error:', err);
+      setError(
+        err instanceof StatementParseError
+          ? t('statement.invalidFile', { format: t(`statement.formats.${format}`), reason: err.message })
+          : t('validation.invalidFileType')
+      );
+    }
+  };
+
+  const handleAnalyzeStatement = async () => {
+    if (!statementResult || statementResult.candidates.length === 0) {
+      setError(t('validation.selectFile'));
+      return;
+    }
+    if (!selectedAccount && !createAccount) {
+      setError(t('validation.selectAccountOrCreate'));
+      return;
+    }
+    if (createAccount && !accountName.trim()) {
+      setError(t('validation.provideAccountName'));
+      return;
+    }
+
+    setIsAnalyzingStatement(true);
+    setError(null);
+
+    try {
+      let accountId = selectedAccount || 0;
+      if (createAccount) {
+        const account = await apiClient.createAccount({
+          name: accountName.trim(),
+          type: BackendAccountType.Checking,
+          currentBalance: 0,
+          currency: statementResult.account?.currency ?? 'NZD',
+        });
+        setAccounts((previous) => [...previous, account]);
+        setSelectedAccount(account.id);
+        setCreateAccount(false);
+        accountId = account.id;
+      }
+
+      const prepared = await prepareStatementImport(statementResult, accountId);
+      setImportAnalysisResult(prepared.analysisResult);
+      setConflictCheck(prepared.conflictCheck);
+      setCurrentStep('conflicts');
+    } catch (err) {
+      console.error('Statement analysis error:', err);
+      setError(err instanceof Error ? err.message : t('aiCsv.analysisFailed'));
+    } finally {
+      setIsAnalyzingStatement(false);
+    }
+  };
+
+  // ── CSV saved profile path ────────────────────────────────────────────────
+
+  const detectCsvProfile = async (file: File) => {
+    if (!user) return;
+    try {
+      const { availableColumns } = parseCSVForManualMapping(await file.text());
+      const [profile] = findCsvMappingProfiles(loadCsvMappingProfiles(user.id), availableColumns);
+      setMatchedCsvProfile(profile ?? null);
+    } catch (err) {
+      // Without a match the AI and manual paths still work
+      console.error('CSV profile detection error:', err);
+    }
+  };
+
+  const handleUseCsvProfile = async () => {
+    if (!selectedFile || !matchedCsvProfile) return;
+    setIsAnalyzingCSV(true);
+    setError(null);
+    try {
+      const text = await selectedFile.text();
+      setCsvContent(text);
+      setCsvAnalysisResult({ ...parseCSVForManualMapping(text), detectedBankFormat: matchedCsvProfile.name });
+      setAppliedCsvProfile(matchedCsvProfile);
+      setCurrentStep('csv-mapping');
+      toast.success(t('csvProfile.applied', { name: matchedCsvProfile.name }));
+    } catch (err) {
+      console.error('CSV parse error:', err);
+      setError(err instanceof Error ? err.message : t('validation.invalidFileType'));
+    } finally {
+      setIsAnalyzingCSV(false);
+    }
+  };
+
   // ── CSV + AI path ─────────────────────────────────────────────────────────
 
   const handleAnalyzeCSVWithAI = async () => {
@@ -356,6 +487,7 @@ function ImportPageContent() {
       ]);
       setCsvAnalysisResult(result as CSVAnalysisResult);
       setCsvContent(text);
+      setAppliedCsvProfile(null);
       setCurrentStep('csv-mapping');
     } catch (err) {
       console.error('AI CSV analysis error:', err);
@@ -378,6 +510,7 @@ function ImportPageContent() {
       const text = await selectedFile.text();
       setCsvContent(text);
       setCsvAnalysisResult(parseCSVForManualMapping(text));
+      setAppliedCsvProfile(null);
       setCurrentStep('csv-mapping');
     } catch (err) {
       console.error('CSV parse error:', err);
@@ -457,6 +590,7 @@ function ImportPageContent() {
       };
 
       setImportAnalysisResult(correctedResponse as unknown as ImportAnalysisResult);
+      setConflictCheck(undefined);
       setCurrentStep('conflicts');
     } catch (err) {
       console.error('CSV conflict analysis error:', err);
@@ -492,7 +626,11 @@ function ImportPageContent() {
     if (fileInputRef.current) fileInputRef.current.value = '';
     setCsvAnalysisResult(null);
     setCsvContent(null);
+    setMatchedCsvProfile(null);
+    setAppliedCsvProfile(null);
+    setStatementResult(null);
     setImportAnalysisResult(null);
+    setConflictCheck(undefined);
     setImportResult(null);
     setError(null);
   };
@@ -573,6 +711,50 @@ function ImportPageContent() {
 
   // ── Render steps ──────────────────────────────────────────────────────────
 
+  const renderStatementSummary = () => {
+    const formatLabel = t(`statement.formats.${fileFormat as StatementFormat}`);
+    if (!statementResult) {
+      return <p className="text-sm text-ink-600">{t('statement.reading', { format: formatLabel })}</p>;
+    }
+
+    const issues = [
+      ...statementResult.errors.map((issue) => ({ issue, isError: true })),
+      ...statementResult.warnings.map((issue) => ({ issue, isError: false })),
+    ];
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-ink-600">
+          {t('statement.ready', { format: formatLabel, count: statementResult.candidates.length })}
+          {statementResult.account?.identifier && (
+            <span className="ml-1 font-mono text-xs text-ink-500">{statementResult.account.identifier}</span>
+          )}
+        </p>
+        {issues.length > 0 && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3">
+            <p className="text-sm font-medium text-amber-800">
+              {[
+                statementResult.errors.length > 0 &&
+                  t('statement.unreadableRecords', { count: statementResult.errors.length }),
+                statementResult.warnings.length > 0 &&
+                  t('statement.warnings', { count: statementResult.warnings.length }),
+              ]
+                .filter(Boolean)
+                .join(', ')}
+            </p>
+            <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto text-xs">
+              {issues.map(({ issue, isError }, index) => (
+                <li key={index} className={isError ? 'text-red-700' : 'text-amber-700'}>
+                  {formatStatementIssue(issue)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderConfigure = () => (
     <div className="max-w-2xl mx-auto space-y-6">
       {/* File upload zone */}
@@ -616,7 +798,7 @@ function ImportPageContent() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv,.ofx,.qfx"
+            accept={['.csv', '.ofx', '.qfx', ...STATEMENT_FILE_EXTENSIONS].join(',')}
             onChange={handleFileInputChange}
             className="hidden"
           />
@@ -630,11 +812,15 @@ function ImportPageContent() {
         </div>
       )}
 
-      {/* OFX: account selection + import button */}
-      {selectedFile && fileFormat === 'ofx' && (
+      {/* OFX and statement files: account selection + import button */}
+      {selectedFile && fileFormat !== 'csv' && (
         <Card className="bg-white/90 backdrop-blur-xs border-0 shadow-lg">
           <div className="p-6 space-y-5">
-            <p className="text-sm text-ink-600">{t('unified.ofxReady')}</p>
+            {fileFormat === 'ofx' ? (
+              <p className="text-sm text-ink-600">{t('unified.ofxReady')}</p>
+            ) : (
+              renderStatementSummary()
+            )}
 
             {/* Account selection */}
             <div className="space-y-3">
@@ -683,27 +869,40 @@ function ImportPageContent() {
                     placeholder={t('account.enterAccountName')}
                     className="input w-full"
                   />
-                  <p className="text-xs text-ink-500">{t('account.detailsFromOfx')}</p>
+                  <p className="text-xs text-ink-500">
+                    {fileFormat === 'ofx'
+                      ? t('account.detailsFromOfx')
+                      : t('statement.newAccountCurrency', {
+                          currency: statementResult?.account?.currency ?? 'NZD',
+                        })}
+                  </p>
                 </div>
               )}
             </div>
 
             <div className="flex gap-3">
+              {fileFormat === 'ofx' && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleValidateOFX}
+                  disabled={isAnalyzingOFX}
+                >
+                  <CheckCircleIcon className="w-4 h-4 mr-1" />
+                  {t('file.validateOfx')}
+                </Button>
+              )}
               <Button
-                variant="secondary"
-                size="sm"
-                onClick={handleValidateOFX}
-                disabled={isAnalyzingOFX}
-              >
-                <CheckCircleIcon className="w-4 h-4 mr-1" />
-                {t('file.validateOfx')}
-              </Button>
-              <Button
-                onClick={handleAnalyzeOFX}
-                disabled={isAnalyzingOFX || (!selectedAccount && !createAccount)}
+                onClick={fileFormat === 'ofx' ? handleAnalyzeOFX : handleAnalyzeStatement}
+                disabled={
+                  isAnalyzingOFX ||
+                  isAnalyzingStatement ||
+                  (!selectedAccount && !createAccount) ||
+                  (fileFormat !== 'ofx' && !statementResult?.candidates.length)
+                }
                 className="flex-1 bg-linear-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 text-white font-semibold"
               >
-                {isAnalyzingOFX ? (
+                {isAnalyzingOFX || isAnalyzingStatement ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
                     {t('importing')}
@@ -724,6 +923,25 @@ function ImportPageContent() {
       {selectedFile && fileFormat === 'csv' && (
         <Card className="bg-white/90 backdrop-blur-xs border-0 shadow-lg">
           <div className="p-6 space-y-4">
+            {matchedCsvProfile && (
+              <>
+                <div className="flex items-start gap-3 rounded-xl bg-green-50 p-4">
+                  <BookmarkIcon className="w-5 h-5 text-green-600 mt-0.5 shrink-0" />
+                  <p className="text-sm text-green-800">
+                    {t('csvProfile.matched', { name: matchedCsvProfile.name })}
+                  </p>
+                </div>
+                <Button
+                  onClick={handleUseCsvProfile}
+                  disabled={isAnalyzingCSV}
+                  className="w-full bg-linear-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 text-white font-semibold py-3"
+                >
+                  <BookmarkIcon className="w-4 h-4 mr-2" />
+                  {t('csvProfile.useProfile', { name: matchedCsvProfile.name })}
+                </Button>
+                <p className="text-center text-xs text-ink-400">{tCommon('or')}</p>
+              </>
+            )}
             {features.aiCategorization ? (
               <>
                 <div className="flex items-start gap-3 rounded-xl bg-primary-50 p-4">
@@ -810,6 +1028,7 @@ function ImportPageContent() {
         onBack={() => setCurrentStep('configure')}
         accountId={urlAccountId}
         accountName={urlAccountName}
+        profile={appliedCsvProfile ?? undefined}
       />
     );
   };
@@ -840,6 +1059,7 @@ function ImportPageContent() {
           accounts.find((a) => a.id === selectedAccount)?.name || urlAccountName
         }
         showBulkActions={true}
+        conflictCheck={conflictCheck}
       />
     );
   };
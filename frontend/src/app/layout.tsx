@@ -4,6 +4,7 @@ import './globals.css';
 import { AuthProvider } from '@/contexts/auth-context';
 import { AiSuggestionsProvider } from '@/contexts/ai-suggestions-context';
 import { FeaturesProvider } from '@/contexts/features-context';
+import { RealtimeProvider } from '@/contexts/realtime-context';
 import { LocaleWrapper } from '@/components/locale-wrapper';
 import { CookieConsent } from '@/components/cookie-consent';
 import { Toaster } from 'sonner';
@@ -56,6 +57,7 @@ export default async function RootLayout({
         <NextIntlClientProvider messages={messages}>
           <FeaturesProvider>
           <AuthProvider>
+          <RealtimeProvider>
             <LocaleWrapper>
               <AiSuggestionsProvider>
                 <div id="root">
@@ -75,6 +77,7 @@ export default async function RootLayout({
                 />
               </AiSuggestionsProvider>
             </LocaleWrapper>
+          </RealtimeProvider>
           </AuthProvider>
           </FeaturesProvider>
         </NextIntlClientProvider>
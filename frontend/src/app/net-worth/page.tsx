@@ -0,0 +1,477 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { getAccountTypeKey } from '@/components/ui/account-type-badge';
+import { ExclamationTriangleIcon, ScaleIcon, SparklesIcon, TrashIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import { getAccountTypeStyle } from '@/lib/account-styles';
+import { findMilestones, getContributions, toChartRows } from '@/lib/net-worth/net-worth';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { AccountDto } from '@/types/accounts';
+import type { AccountValuationDto, NetWorthHistoryResponse } from '@/types/net-worth';
+
+const cardClassName =
+  'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+const RANGE_OPTIONS = [6, 12, 24, 60];
+
+interface ValuationFormState {
+  accountId: string;
+  value: string;
+  valuationDate: string;
+  notes: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function NetWorthPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations('netWorth');
+  const tTypes = useTranslations('accounts.types');
+  const tCommon = useTranslations('common');
+
+  const [months, setMonths] = useState(12);
+  const [history, setHistory] = useState<NetWorthHistoryResponse | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [valuations, setValuations] = useState<AccountValuationDto[]>([]);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
+  const [form, setForm] = useState<ValuationFormState>({ accountId: '', value: '', valuationDate: today(), notes: '' });
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<AccountValuationDto | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoadingHistory(true);
+      setHistory(await apiClient.getNetWorthHistory(months));
+    } catch (error) {
+      console.error('Failed to load net worth history:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [months, t]);
+
+  const loadValuations = useCallback(async () => {
+    try {
+      setValuations(await apiClient.getAccountValuations());
+    } catch (error) {
+      console.error('Failed to load account valuations:', error);
+      toast.error(t('errors.valuationsLoadFailed'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadHistory();
+    }
+  }, [isAuthenticated, loadHistory]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadValuations();
+    apiClient
+      .getAccounts()
+      .then((accountList) => setAccounts(accountList.filter((account) => account.isActive)))
+      .catch((error) => console.error('Failed to load accounts:', error));
+  }, [isAuthenticated, loadValuations]);
+
+  const chart = useMemo(() => toChartRows(history?.snapshots ?? []), [history]);
+  const milestones = useMemo(() => findMilestones(history?.snapshots ?? []), [history]);
+  const contributions = useMemo(() => getContributions(history?.accounts ?? []), [history]);
+
+  const latest = history?.snapshots[history.snapshots.length - 1];
+  const first = history?.snapshots[0];
+  const change = latest && first ? latest.netWorth - first.netWorth : 0;
+
+  const monthLabel = (date: string) =>
+    new Date(date).toLocaleDateString(locale, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+  const selectedAccountId = form.accountId || (accounts[0] ? String(accounts[0].id) : '');
+  const selectedAccount = accounts.find((account) => String(account.id) === selectedAccountId);
+
+  const updateForm = <K extends keyof ValuationFormState>(key: K, value: ValuationFormState[K]) =>
+    setForm((current) => ({ ...current, [key]: value }));
+
+  const handleSaveValuation = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = parseFloat(form.value);
+    if (!selectedAccountId) {
+      toast.error(t('errors.accountRequired'));
+      return;
+    }
+    if (!Number.isFinite(value)) {
+      toast.error(t('errors.valueRequired'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.saveAccountValuation({
+        accountId: Number(selectedAccountId),
+        value,
+        valuationDate: form.valuationDate,
+        notes: form.notes.trim() || undefined,
+      });
+      toast.success(t('toasts.valuationSaved', { name: selectedAccount?.name ?? '' }));
+      setForm((current) => ({ ...current, value: '', notes: '' }));
+      await Promise.all([loadValuations(), loadHistory()]);
+    } catch (error) {
+      console.error('Failed to save account valuation:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await apiClient.deleteAccountValuation(deleting.id);
+      setDeleting(null);
+      await Promise.all([loadValuations(), loadHistory()]);
+    } catch (error) {
+      console.error('Failed to delete account valuation:', error);
+      toast.error(t('errors.deleteFailed'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <ScaleIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between lg:mb-8">
+        <div>
+          <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+            {t('title')}
+          </h1>
+          <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+        </div>
+        <Select
+          value={String(months)}
+          onChange={(event) => setMonths(Number(event.target.value))}
+          className="sm:w-48"
+          aria-label={t('range')}
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t('rangeOption', { months: option })}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="space-y-6">
+        {history && history.unconvertedCurrencies.length > 0 && (
+          <div className="flex items-start gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-600" />
+            <p className="text-sm text-amber-800">
+              {t('unconverted', { currencies: history.unconvertedCurrencies.join(', ') })}{' '}
+              <Link href="/settings/currencies" className="font-medium underline">
+                {t('addRates')}
+              </Link>
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {[
+            { label: t('summary.netWorth'), value: latest?.netWorth ?? 0, className: 'text-ink-900' },
+            { label: t('summary.assets'), value: latest?.totalAssets ?? 0, className: 'text-emerald-700' },
+            { label: t('summary.liabilities'), value: latest?.totalLiabilities ?? 0, className: 'text-rose-600' },
+          ].map((item) => (
+            <Card key={item.label} className={cardClassName}>
+              <CardContent className="p-5">
+                <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-ink-400">{item.label}</p>
+                <p className={cn('mt-1 font-[var(--font-dash-mono)] text-2xl font-semibold', item.className)}>
+                  {loadingHistory ? '—' : formatCurrency(item.value)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className={cardClassName}>
+          <CardContent className="p-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="font-semibold text-ink-900">{t('chart.title')}</h2>
+                <p className="mt-0.5 text-sm text-ink-500">{t('chart.description')}</p>
+              </div>
+              {history && history.snapshots.length > 1 && (
+                <span
+                  className={cn(
+                    'inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium',
+                    change >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-600'
+                  )}
+                >
+                  {t('chart.change', { amount: `${change >= 0 ? '+' : ''}${formatCurrency(change)}`, months })}
+                </span>
+              )}
+            </div>
+            <div className="mt-4 h-80 w-full">
+              {loadingHistory ? (
+                <div className="h-full animate-pulse rounded-2xl bg-ink-100" />
+              ) : chart.rows.length === 0 ? (
+                <p className="py-16 text-center text-sm text-ink-500">{t('chart.empty')}</p>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chart.rows} stackOffset="sign" margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                    <XAxis dataKey="date" tick={{ fontSize: 11 }} tickFormatter={monthLabel} />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatCurrency(value)} width={90} />
+                    <Tooltip
+                      formatter={(value) => formatCurrency(Number(value))}
+                      labelFormatter={(label) => monthLabel(String(label))}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    {chart.accountTypes.map((type) => (
+                      <Bar
+                        key={type}
+                        dataKey={`type${type}`}
+                        name={tTypes(getAccountTypeKey(type))}
+                        stackId="types"
+                        fill={getAccountTypeStyle(type).chartColor}
+                      />
+                    ))}
+                    <Line
+                      type="monotone"
+                      dataKey="netWorth"
+                      name={t('summary.netWorth')}
+                      stroke="#1f2937"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className={cardClassName}>
+            <CardContent className="p-0">
+              <div className="border-b border-ink-100 px-6 py-4">
+                <h2 className="font-semibold text-ink-900">{t('contributions.title')}</h2>
+                <p className="mt-0.5 text-xs text-ink-500">{t('contributions.description', { months })}</p>
+              </div>
+              {contributions.length === 0 ? (
+                <p className="p-6 text-sm text-ink-500">{t('contributions.empty')}</p>
+              ) : (
+                <ul className="divide-y divide-ink-100">
+                  {contributions.map((account) => {
+                    // Liability balances are negative, so the signed change is the effect on net worth
+                    const effect = account.change;
+                    return (
+                      <li key={account.accountId} className="px-6 py-3">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="truncate font-medium text-ink-900">{account.name}</p>
+                            <p className="text-xs text-ink-500">
+                              {tTypes(getAccountTypeKey(account.type))}
+                              {account.hasValuations && ` · ${t('contributions.valued')}`}
+                            </p>
+                          </div>
+                          <span className={cn('shrink-0 font-semibold', effect >= 0 ? 'text-emerald-700' : 'text-rose-600')}>
+                            {effect >= 0 ? '+' : ''}
+                            {formatCurrency(effect)}
+                          </span>
+                        </div>
+                        <div className="mt-2 h-1.5 rounded-full bg-ink-100">
+                          <div
+                            className={cn('h-1.5 rounded-full', effect >= 0 ? 'bg-emerald-500' : 'bg-rose-500')}
+                            style={{ width: `${Math.max(account.share, 2)}%` }}
+                          />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className={cardClassName}>
+            <CardContent className="p-0">
+              <div className="border-b border-ink-100 px-6 py-4">
+                <h2 className="font-semibold text-ink-900">{t('milestones.title')}</h2>
+                <p className="mt-0.5 text-xs text-ink-500">{t('milestones.description')}</p>
+              </div>
+              {milestones.length === 0 ? (
+                <p className="p-6 text-sm text-ink-500">{t('milestones.empty')}</p>
+              ) : (
+                <ul className="divide-y divide-ink-100">
+                  {milestones.map((milestone) => (
+                    <li key={`${milestone.kind}-${milestone.amount}`} className="flex items-center gap-3 px-6 py-3">
+                      {milestone.kind === 'peak' ? (
+                        <SparklesIcon className="h-5 w-5 shrink-0 text-primary-600" />
+                      ) : (
+                        <TrophyIcon className="h-5 w-5 shrink-0 text-amber-500" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-ink-900">
+                          {milestone.kind === 'peak'
+                            ? t('milestones.peak', { amount: formatCurrency(milestone.amount) })
+                            : milestone.amount === 0
+                              ? t('milestones.positive')
+                              : t('milestones.reached', { amount: formatCurrency(milestone.amount) })}
+                        </p>
+                        <p className="text-xs text-ink-500">{monthLabel(milestone.date)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className={cardClassName}>
+            <CardContent className="p-6">
+              <h2 className="font-semibold text-ink-900">{t('valuations.addTitle')}</h2>
+              <p className="mt-0.5 text-sm text-ink-500">{t('valuations.addDescription')}</p>
+              <form onSubmit={handleSaveValuation} className="mt-4 grid gap-3 sm:grid-cols-2">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('valuations.account')}</label>
+                  <Select value={selectedAccountId} onChange={(event) => updateForm('accountId', event.target.value)}>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">
+                    {t('valuations.value', { currency: selectedAccount?.currency ?? '' })}
+                  </label>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    value={form.value}
+                    onChange={(event) => updateForm('value', event.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('valuations.date')}</label>
+                  <Input
+                    type="date"
+                    value={form.valuationDate}
+                    max={today()}
+                    onChange={(event) => updateForm('valuationDate', event.target.value)}
+                    required
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('valuations.notes')}</label>
+                  <Input
+                    value={form.notes}
+                    onChange={(event) => updateForm('notes', event.target.value)}
+                    placeholder={t('valuations.notesPlaceholder')}
+                    maxLength={500}
+                  />
+                </div>
+                <p className="sm:col-span-2 text-xs text-ink-500">{t('valuations.hint')}</p>
+                <div className="sm:col-span-2 flex justify-end">
+                  <Button type="submit" disabled={saving || !form.value || !selectedAccountId}>
+                    {t('valuations.submit')}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className={cardClassName}>
+            <CardContent className="p-0">
+              <div className="border-b border-ink-100 px-6 py-4">
+                <h2 className="font-semibold text-ink-900">{t('valuations.title')}</h2>
+              </div>
+              {valuations.length === 0 ? (
+                <p className="p-6 text-sm text-ink-500">{t('valuations.empty')}</p>
+              ) : (
+                <ul className="max-h-96 divide-y divide-ink-100 overflow-y-auto">
+                  {valuations.map((valuation) => (
+                    <li key={valuation.id} className="flex items-start gap-3 px-6 py-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium text-ink-900">{valuation.accountName}</p>
+                        <p className="text-xs text-ink-500">
+                          {formatDate(valuation.valuationDate)}
+                          {valuation.notes && ` · ${valuation.notes}`}
+                        </p>
+                      </div>
+                      <span className="shrink-0 font-semibold text-ink-900">
+                        {formatCurrency(valuation.value, valuation.currency)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                        onClick={() => setDeleting(valuation)}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                        <span className="sr-only">{tCommon('delete')}</span>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('deleteDialog.title')}
+        description={t('deleteDialog.description', {
+          name: deleting?.accountName ?? '',
+          date: deleting ? formatDate(deleting.valuationDate) : '',
+        })}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </AppLayout>
+  );
+}
@@ -21,42 +21,18 @@ import {
   ArrowUpIcon,
   ArrowDownIcon,
   ArrowsUpDownIcon,
-  XMarkIcon
+  XMarkIcon,
+  MagnifyingGlassCircleIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '@/lib/api-client';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
-
-type RuleType = 'Contains' | 'StartsWith' | 'EndsWith' | 'Equals' | 'Regex';
-type RuleTypeValue = RuleType | 1 | 2 | 3 | 4 | 5;
-
-interface CategorizationRule {
-  id: number;
-  name: string;
-  description?: string;
-  type: RuleTypeValue;
-  pattern: string;
-  isCaseSensitive: boolean;
-  priority: number;
-  isActive: boolean;
-  isAiGenerated: boolean;
-  confidenceScore?: number;
-  matchCount: number;
-  correctionCount: number;
-  minAmount?: number;
-  maxAmount?: number;
-  accountTypes?: string;
-  categoryId: number;
-  categoryName: string;
-  logic: 'All' | 'Any';
-  accuracyRate: number;
-  createdAt: string;
-  updatedAt: string;
-  conditions: Array<{ field: string; operator: string; value: string; isCaseSensitive: boolean; order: number }>;
-  applicationCount: number;
-}
+import { RuleAnalyzerPanel } from '@/components/rules/rule-analyzer-panel';
+import type { CategorizationRule, RuleType, RuleTypeValue } from '@/types/rules';
+import { TagChip } from '@/components/tags/tag-chip';
+import { parseTags } from '@/lib/tags/tags';
 
 interface RuleStatistics {
   totalRules: number;
@@ -109,6 +85,7 @@ export default function RulesPage() {
   const [testingRuleId, setTestingRuleId] = useState<number | null>(null);
   const [deleteRuleTarget, setDeleteRuleTarget] = useState<{ id: number; name: string } | null>(null);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [showAnalyzer, setShowAnalyzer] = useState(false);
 
   useEffect(() => {
     if (isAuthResolved) {
@@ -495,6 +472,16 @@ export default function RulesPage() {
             </p>
           </div>
           <div className="flex flex-wrap gap-2 sm:gap-3">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowAnalyzer((previous) => !previous)}
+              className="flex items-center gap-2"
+            >
+              <MagnifyingGlassCircleIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('page.analyzeRules')}</span>
+              <span className="sm:hidden">{t('page.analyze')}</span>
+            </Button>
             <Link href="/rules/suggestions">
               <Button variant="secondary" size="sm" className="flex items-center gap-2">
                 <SparklesIcon className="w-4 h-4" />
@@ -557,6 +544,10 @@ export default function RulesPage() {
           </section>
         )}
 
+        {showAnalyzer && (
+          <RuleAnalyzerPanel onRulesChanged={refreshRulesData} onClose={() => setShowAnalyzer(false)} />
+        )}
+
         {/* Filters */}
         <section className="rounded-[20px] border border-ink-200 bg-white/90 p-4 shadow-sm shadow-primary-200/20 backdrop-blur-xs space-y-3">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
@@ -900,6 +891,14 @@ export default function RulesPage() {
                               {t('card.category')}{' '}
                               <strong className="text-ink-700">{rule.categoryName}</strong>
                             </span>
+                            {parseTags(rule.applyTags).length > 0 && (
+                              <span className="flex flex-wrap items-center gap-1">
+                                {t('card.tags')}
+                                {parseTags(rule.applyTags).map((tag) => (
+                                  <TagChip key={tag} name={tag} />
+                                ))}
+                              </span>
+                            )}
                             <span>{t('priority')}: {rule.priority}</span>
                             {rule.accuracyRate > 0 && (
                               <span>
@@ -0,0 +1,356 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  BuildingLibraryIcon,
+  CalendarDaysIcon,
+  ChartBarIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BackButton } from '@/components/ui/back-button';
+import { SyncStatusIndicator } from '@/components/bank-connections/sync-status-indicator';
+import { SyncHistoryTimeline } from '@/components/bank-connections/sync-history-timeline';
+import { SyncReliabilityChart } from '@/components/bank-connections/sync-reliability-chart';
+import { useAuthGuard } from '@/hooks/use-auth-guard';
+import { apiClient } from '@/lib/api-client';
+import {
+  addDays,
+  buildSyncDiagnostics,
+  dailySyncReliability,
+  daysBetween,
+  findCoverageGaps,
+  formatSyncDuration,
+  formatSyncRange,
+  MAX_SYNC_RANGE_DAYS,
+  summarizeSyncReliability,
+  SyncDateRange,
+  toDateKey,
+} from '@/lib/bank-connections/sync-diagnostics';
+import type { BankConnectionDetail, BankSyncLog } from '@/types/bank-connections';
+
+const CONNECTIONS_BASE = '/settings/bank-connections';
+const HISTORY_LIMIT = 100;
+const CHART_DAYS = 30;
+
+export default function BankConnectionDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const connectionId = Number(params.id);
+  const { shouldRender, isAuthResolved } = useAuthGuard();
+  const t = useTranslations('settings.bankConnections.detail');
+  const tPage = useTranslations('settings.bankConnections');
+  const tBank = useTranslations('bankConnections');
+
+  const [connection, setConnection] = useState<BankConnectionDetail | null>(null);
+  const [logs, setLogs] = useState<BankSyncLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  // Inputs show the last day to fetch; the API takes an exclusive end
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const syncAbortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [detail, history] = await Promise.all([
+        apiClient.getBankConnection(connectionId),
+        apiClient.getSyncHistory(connectionId, HISTORY_LIMIT),
+      ]);
+      setConnection(detail);
+      setLogs([...history].sort((a, b) => b.startedAt.localeCompare(a.startedAt)));
+    } catch (error) {
+      console.error('Failed to load bank connection:', error);
+      toast.error(t('loadFailed'));
+      router.push(CONNECTIONS_BASE);
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId, router, t]);
+
+  useEffect(() => {
+    if (!isAuthResolved) return;
+    if (isNaN(connectionId)) {
+      router.push(CONNECTIONS_BASE);
+      return;
+    }
+    void load();
+  }, [isAuthResolved, connectionId, load, router]);
+
+  useEffect(() => {
+    return () => syncAbortRef.current?.abort();
+  }, []);
+
+  const today = useMemo(() => new Date(), []);
+  const summary = useMemo(() => summarizeSyncReliability(logs), [logs]);
+  const daily = useMemo(() => dailySyncReliability(logs, CHART_DAYS, today), [logs, today]);
+  const gaps = useMemo(() => findCoverageGaps(logs, today), [logs, today]);
+
+  const customRange = useMemo((): SyncDateRange | null => {
+    if (!rangeFrom || !rangeTo) return null;
+    return { from: rangeFrom, to: addDays(rangeTo, 1) };
+  }, [rangeFrom, rangeTo]);
+
+  const customRangeError = useMemo(() => {
+    if (!customRange) return undefined;
+    if (customRange.from >= customRange.to) return t('range.errors.order');
+    if (customRange.to > addDays(toDateKey(today), 1)) return t('range.errors.future');
+    if (daysBetween(customRange.from, customRange.to) > MAX_SYNC_RANGE_DAYS) {
+      return t('range.errors.tooLong', { days: MAX_SYNC_RANGE_DAYS });
+    }
+    return undefined;
+  }, [customRange, today, t]);
+
+  const runSync = async (range?: SyncDateRange) => {
+    if (syncing || !connection) return;
+    setSyncing(true);
+    syncAbortRef.current = new AbortController();
+
+    try {
+      const accepted = range
+        ? await apiClient.syncBankConnectionRange(connection.id, range)
+        : await apiClient.syncBankConnection(connection.id);
+      toast.info(range ? t('range.started', { range: formatSyncRange(range) }) : tPage('toasts.syncStarting'));
+
+      const status = await apiClient.waitForSyncJob(accepted.jobId, { signal: syncAbortRef.current.signal });
+      if (status.status === 'succeeded') {
+        toast.success(tPage('toasts.syncSuccess', { count: status.transactionsImported }));
+      } else {
+        toast.error(status.errorMessage || tPage('toasts.syncAllFailed'));
+      }
+      await load();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('Sync failed:', error);
+      toast.error(tPage('toasts.syncAllFailed'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDownloadDiagnostics = () => {
+    if (!connection) return;
+    const bundle = buildSyncDiagnostics(connection, logs, new Date());
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bank-sync-diagnostics-${connection.id}-${toDateKey(new Date())}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!shouldRender) return null;
+
+  if (loading || !connection) {
+    return (
+      <AppLayout>
+        <div className="space-y-4">
+          <div className="h-20 animate-pulse rounded-[24px] border border-ink-200 bg-white/80" />
+          <div className="grid gap-4 md:grid-cols-4">
+            {[1, 2, 3, 4].map((item) => (
+              <div key={item} className="h-24 animate-pulse rounded-[22px] border border-ink-200 bg-white/80" />
+            ))}
+          </div>
+          <div className="h-64 animate-pulse rounded-[24px] border border-ink-200 bg-white/80" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const stats = [
+    {
+      label: t('stats.successRate'),
+      value: summary.successRate === null ? '—' : `${Math.round(summary.successRate * 100)}%`,
+      hint: t('stats.runs', { count: summary.total }),
+    },
+    {
+      label: t('stats.failures'),
+      value: summary.failed.toString(),
+      hint: summary.lastFailureAt ? t('stats.lastAt', { date: new Date(summary.lastFailureAt).toLocaleString() }) : t('stats.none'),
+    },
+    {
+      label: t('stats.lastSuccess'),
+      value: summary.lastSuccessAt ? new Date(summary.lastSuccessAt).toLocaleDateString() : '—',
+      hint: summary.lastSuccessAt ? new Date(summary.lastSuccessAt).toLocaleTimeString() : t('stats.none'),
+    },
+    {
+      label: t('stats.averageDuration'),
+      value: summary.averageDurationMs === null ? '—' : formatSyncDuration(Math.round(summary.averageDurationMs)),
+      hint: t('stats.partial', { count: summary.partial }),
+    },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="mb-6 lg:mb-8">
+        <BackButton variant="link" href={CONNECTIONS_BASE} label={t('backToConnections')} />
+
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start gap-4">
+            <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-gradient-to-br from-blue-400 to-blue-600">
+              <BuildingLibraryIcon className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+                {connection.accountName}
+              </h1>
+              <p className="mt-1 text-[15px] text-ink-500">
+                {tBank('viaProvider', { name: connection.providerName })}
+                {connection.externalAccountName && ` · ${connection.externalAccountName}`}
+              </p>
+              <div className="mt-2">
+                <SyncStatusIndicator
+                  isActive={connection.isActive}
+                  lastSyncAt={connection.lastSyncAt}
+                  lastSyncError={connection.lastSyncError}
+                  isSyncing={syncing}
+                  connectionId={connection.id}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleDownloadDiagnostics} className="flex items-center gap-2">
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              {t('downloadDiagnostics')}
+            </Button>
+            <Button
+              onClick={() => runSync()}
+              disabled={syncing || !connection.isActive}
+              className="flex items-center gap-2"
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+              {syncing ? tBank('syncing') : tBank('syncNow')}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-[22px] border border-ink-200 bg-white/92 p-4">
+              <p className="text-xs font-medium uppercase tracking-wide text-ink-500">{stat.label}</p>
+              <p className="mt-1 text-2xl font-semibold text-ink-900">{stat.value}</p>
+              <p className="mt-0.5 text-xs text-ink-500">{stat.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <Card className="rounded-[26px] border border-ink-200 bg-white/92">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ChartBarIcon className="h-5 w-5 text-primary-600" />
+              {t('reliabilityTitle', { days: CHART_DAYS })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SyncReliabilityChart days={daily} />
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-[26px] border border-ink-200 bg-white/92">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDaysIcon className="h-5 w-5 text-primary-600" />
+              {t('coverage.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {gaps === null ? (
+              <p className="text-sm text-ink-500">{t('coverage.unknown')}</p>
+            ) : gaps.length === 0 ? (
+              <p className="text-sm text-emerald-700">{t('coverage.complete')}</p>
+            ) : (
+              <div>
+                <p className="text-sm text-ink-600">{t('coverage.gapsHint')}</p>
+                <ul className="mt-2 divide-y divide-ink-100 rounded-xl border border-ink-200">
+                  {gaps.map((gap) => (
+                    <li key={gap.from} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <span className="text-ink-800">
+                        {formatSyncRange(gap)}
+                        <span className="ml-2 text-xs text-ink-500">
+                          {t('coverage.days', { count: daysBetween(gap.from, gap.to) })}
+                        </span>
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runSync(gap)}
+                        disabled={syncing || !connection.isActive || daysBetween(gap.from, gap.to) > MAX_SYNC_RANGE_DAYS}
+                      >
+                        {t('retryRange')}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="rounded-xl border border-ink-200 bg-ink-50/60 p-4">
+              <p className="text-sm font-medium text-ink-900">{t('range.title')}</p>
+              <p className="mt-0.5 text-xs text-ink-500">{t('range.hint')}</p>
+              <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-end">
+                <Input
+                  id="sync-range-from"
+                  type="date"
+                  label={t('range.from')}
+                  value={rangeFrom}
+                  max={toDateKey(today)}
+                  onChange={(e) => setRangeFrom(e.target.value)}
+                />
+                <Input
+                  id="sync-range-to"
+                  type="date"
+                  label={t('range.to')}
+                  value={rangeTo}
+                  max={toDateKey(today)}
+                  onChange={(e) => setRangeTo(e.target.value)}
+                />
+                <Button
+                  onClick={() => customRange && runSync(customRange)}
+                  disabled={!customRange || !!customRangeError || syncing || !connection.isActive}
+                  className="flex items-center gap-2"
+                >
+                  <ArrowPathIcon className="h-4 w-4" />
+                  {t('range.submit')}
+                </Button>
+              </div>
+              {customRangeError && <p className="form-error mt-2">{customRangeError}</p>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-[26px] border border-ink-200 bg-white/92">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClockIcon className="h-5 w-5 text-primary-600" />
+              {t('historyTitle')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SyncHistoryTimeline
+              logs={logs}
+              onRetryRange={(range) => runSync(range)}
+              retryDisabled={syncing || !connection.isActive}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
+
+export const dynamic = 'force-dynamic';
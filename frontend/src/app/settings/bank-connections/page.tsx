@@ -1,6 +1,7 @@
 'use client';
 
 import { useAuth } from '@/contexts/auth-context';
+import { useRealtime, useRealtimeEvent } from '@/contexts/realtime-context';
 import { useRouter } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { AppLayout } from '@/components/app-layout';
@@ -44,6 +45,9 @@ export default function BankConnectionsPage() {
   const pollTimersRef = useRef<Record<string, number>>({});
   const pollSyncJobRef = useRef<((jobId: string) => Promise<void>) | undefined>(undefined);
   const pollAbortRef = useRef<AbortController | null>(null);
+  // Terminal jobs can be reported by both the event stream and a poll; toast once
+  const handledJobIdsRef = useRef(new Set<string>());
+  const { status: realtimeStatus } = useRealtime();
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -185,7 +189,7 @@ export default function BankConnectionsPage() {
     });
   }, [clearPollTimer]);
 
-  const schedulePoll = useCallback((jobId: string, delay = 1500) => {
+  const schedulePoll = useCallback((jobId: string, delay = realtimeStatus === 'live' ? 15000 : 1500) => {
     if (typeof window === 'undefined') {
       return;
     }
@@ -194,9 +198,12 @@ export default function BankConnectionsPage() {
     pollTimersRef.current[jobId] = window.setTimeout(() => {
       void pollSyncJobRef.current?.(jobId);
     }, delay);
-  }, [clearPollTimer]);
+  }, [clearPollTimer, realtimeStatus]);
 
   const handleTerminalJob = useCallback(async (status: BankSyncJobStatus) => {
+    if (handledJobIdsRef.current.has(status.jobId)) return;
+    handledJobIdsRef.current.add(status.jobId);
+
     const successfulConnections = status.completedConnections - status.failedConnections;
 
     if (status.scope === 'all') {
@@ -252,6 +259,26 @@ export default function BankConnectionsPage() {
   // Keep ref in sync so schedulePoll always calls the latest pollSyncJob
   pollSyncJobRef.current = pollSyncJob;
 
+  // Streamed job updates land immediately; polling above remains the fallback
+  useRealtimeEvent('bankSync.job', (job) => {
+    const isTerminal = job.status !== 'queued' && job.status !== 'processing';
+
+    if (!activeSyncJobs[job.jobId]) {
+      // A sync started elsewhere (another tab, scheduled sync) finished for one of our connections
+      if (isTerminal && job.connectionIds.some((id) => connections.some((connection) => connection.id === id))) {
+        void loadConnections();
+      }
+      return;
+    }
+
+    if (isTerminal) {
+      clearPollTimer(job.jobId);
+      void handleTerminalJob(job);
+    } else {
+      setActiveSyncJobs((current) => ({ ...current, [job.jobId]: job }));
+    }
+  });
+
   const trackAcceptedJob = useCallback((accepted: BankSyncJobAccepted) => {
     const queuedStatus: BankSyncJobStatus = {
       jobId: accepted.jobId,
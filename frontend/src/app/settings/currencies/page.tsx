@@ -0,0 +1,392 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { BackButton } from '@/components/ui/back-button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  ArrowUpTrayIcon,
+  CurrencyDollarIcon,
+  ExclamationTriangleIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import { withCurrencies } from '@/lib/currencies';
+import { formatDate } from '@/lib/utils';
+import type { ExchangeRateDto, ExchangeRatesResponse } from '@/types/exchange-rates';
+
+const cardClassName =
+  'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+interface RateFormState {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+  rateDate: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function CurrencySettingsPage() {
+  const { isAuthenticated, isLoading, refreshUser } = useAuth();
+  const router = useRouter();
+  const t = useTranslations('currencies');
+  const tCommon = useTranslations('common');
+
+  const [data, setData] = useState<ExchangeRatesResponse | null>(null);
+  const [loadingRates, setLoadingRates] = useState(true);
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [form, setForm] = useState<RateFormState>({ fromCurrency: '', toCurrency: '', rate: '', rateDate: today() });
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState<ExchangeRateDto | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setLoadingRates(true);
+      setData(await apiClient.getExchangeRates());
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingRates(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadRates();
+    }
+  }, [isAuthenticated, loadRates]);
+
+  // Until the user picks, the form suggests converting a missing account currency into the base currency
+  const selectedBase = baseCurrency || data?.baseCurrency || '';
+  const fromCurrency = form.fromCurrency || data?.missingCurrencies[0] || data?.accountCurrencies[0] || 'USD';
+  const toCurrency = form.toCurrency || data?.baseCurrency || 'NZD';
+  const currencyOptions = withCurrencies(data?.baseCurrency, ...(data?.accountCurrencies ?? []));
+
+  const updateForm = <K extends keyof RateFormState>(key: K, value: RateFormState[K]) =>
+    setForm((current) => ({ ...current, [key]: value }));
+
+  const handleBaseCurrencySave = async () => {
+    if (!selectedBase || selectedBase === data?.baseCurrency) return;
+
+    try {
+      setSaving(true);
+      await apiClient.updateBaseCurrency(selectedBase);
+      await refreshUser();
+      toast.success(t('toasts.baseCurrencyUpdated', { currency: selectedBase }));
+      setBaseCurrency('');
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to update base currency:', error);
+      toast.error(t('errors.baseCurrencyFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const rate = parseFloat(form.rate);
+    if (fromCurrency === toCurrency) {
+      toast.error(t('errors.sameCurrency'));
+      return;
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast.error(t('errors.rateRequired'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.saveExchangeRate({ fromCurrency, toCurrency, rate, rateDate: form.rateDate });
+      toast.success(t('toasts.rateSaved', { from: fromCurrency, to: toCurrency }));
+      setForm((current) => ({ ...current, rate: '' }));
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to save exchange rate:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      toast.error(t('errors.fileTooLarge'));
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const result = await apiClient.importExchangeRates(file);
+      setImportErrors(result.errors);
+      toast.success(t('toasts.imported', { imported: result.imported, updated: result.updated }));
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to import exchange rates:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.importFailed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await apiClient.deleteExchangeRate(deleting.id);
+      setDeleting(null);
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to delete exchange rate:', error);
+      toast.error(t('errors.deleteFailed'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <CurrencyDollarIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 lg:mb-8">
+        <BackButton variant="link" href="/settings" label={t('backToSettings')} />
+        <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+          {t('title')}
+        </h1>
+        <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+      </div>
+
+      <div className="space-y-6">
+        {data && data.missingCurrencies.length > 0 && (
+          <div className="flex items-start gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-600" />
+            <p className="text-sm text-amber-800">
+              {t('missingRates', { currencies: data.missingCurrencies.join(', '), baseCurrency: data.baseCurrency })}
+            </p>
+          </div>
+        )}
+
+        <Card className={cardClassName}>
+          <CardContent className="p-6">
+            <h2 className="font-semibold text-ink-900">{t('baseCurrency.title')}</h2>
+            <p className="mt-0.5 text-sm text-ink-500">{t('baseCurrency.description')}</p>
+            <div className="mt-4 flex flex-col gap-3 sm:flex-row">
+              <Select
+                value={selectedBase}
+                onChange={(event) => setBaseCurrency(event.target.value)}
+                disabled={saving || loadingRates}
+                className="sm:max-w-xs"
+              >
+                {currencyOptions.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </Select>
+              <Button
+                onClick={handleBaseCurrencySave}
+                disabled={saving || !selectedBase || selectedBase === data?.baseCurrency}
+              >
+                {tCommon('save')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className={cardClassName}>
+            <CardContent className="p-6">
+              <h2 className="font-semibold text-ink-900">{t('addRate.title')}</h2>
+              <p className="mt-0.5 text-sm text-ink-500">{t('addRate.description')}</p>
+              <form onSubmit={handleSaveRate} className="mt-4 grid gap-3 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('addRate.from')}</label>
+                  <Select value={fromCurrency} onChange={(event) => updateForm('fromCurrency', event.target.value)}>
+                    {currencyOptions.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('addRate.to')}</label>
+                  <Select value={toCurrency} onChange={(event) => updateForm('toCurrency', event.target.value)}>
+                    {currencyOptions.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('addRate.rate')}</label>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="any"
+                    value={form.rate}
+                    onChange={(event) => updateForm('rate', event.target.value)}
+                  />
+                  <p className="mt-1 text-xs text-ink-500">
+                    {t('addRate.rateHint', { from: fromCurrency, to: toCurrency })}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-700 mb-1">{t('addRate.date')}</label>
+                  <Input
+                    type="date"
+                    value={form.rateDate}
+                    max={today()}
+                    onChange={(event) => updateForm('rateDate', event.target.value)}
+                    required
+                  />
+                </div>
+                <div className="sm:col-span-2 flex justify-end">
+                  <Button type="submit" disabled={saving || !form.rate}>
+                    {t('addRate.submit')}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className={cardClassName}>
+            <CardContent className="p-6">
+              <h2 className="font-semibold text-ink-900">{t('import.title')}</h2>
+              <p className="mt-0.5 text-sm text-ink-500">{t('import.description')}</p>
+              <pre className="mt-3 rounded-lg bg-ink-50 px-3 py-2 text-xs text-ink-600">
+                date,from,to,rate{'\n'}2026-01-31,USD,NZD,1.6512
+              </pre>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={handleImport}
+              />
+              <Button
+                variant="secondary"
+                className="mt-4"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+              >
+                <ArrowUpTrayIcon className="mr-1 h-4 w-4" />
+                {importing ? t('import.importing') : t('import.chooseFile')}
+              </Button>
+              {importErrors.length > 0 && (
+                <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-sm font-medium text-red-700">
+                    {t('import.errors', { count: importErrors.length })}
+                  </p>
+                  <ul className="mt-1 max-h-40 space-y-0.5 overflow-y-auto text-xs text-red-600">
+                    {importErrors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className={cardClassName}>
+          <CardContent className="p-0">
+            <div className="border-b border-ink-100 px-6 py-4">
+              <h2 className="font-semibold text-ink-900">{t('rates.title')}</h2>
+              <p className="mt-0.5 text-xs text-ink-500">{t('rates.description')}</p>
+            </div>
+            {loadingRates ? (
+              <div className="space-y-3 p-6">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <div key={i} className="h-10 animate-pulse rounded-lg bg-ink-100" />
+                ))}
+              </div>
+            ) : !data || data.rates.length === 0 ? (
+              <div className="p-10 text-center">
+                <CurrencyDollarIcon className="mx-auto mb-3 h-10 w-10 text-ink-300" />
+                <p className="font-medium text-ink-700">{t('empty.title')}</p>
+                <p className="mt-1 text-sm text-ink-500">{t('empty.description')}</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-ink-100">
+                {data.rates.map((rate) => (
+                  <li key={rate.id} className="flex items-center gap-3 px-6 py-3">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-ink-900">
+                        {t('rates.pair', { from: rate.fromCurrency, to: rate.toCurrency, rate: rate.rate })}
+                      </p>
+                      <p className="text-xs text-ink-500">
+                        {formatDate(rate.rateDate)} · {t(`sources.${rate.source}`)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      onClick={() => setDeleting(rate)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                      <span className="sr-only">{tCommon('delete')}</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('deleteDialog.title', { from: deleting?.fromCurrency ?? '', to: deleting?.toCurrency ?? '' })}
+        description={t('deleteDialog.description', { date: deleting ? formatDate(deleting.rateDate) : '' })}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,531 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuthGuard } from '@/hooks/use-auth-guard';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { BackButton } from '@/components/ui/back-button';
+import { QuietHoursTimeline } from '@/components/notifications/quiet-hours-timeline';
+import {
+  BellIcon,
+  BellAlertIcon,
+  MoonIcon,
+  PaperAirplaneIcon
+} from '@heroicons/react/24/outline';
+import { useTranslations } from 'next-intl';
+import { apiClient } from '@/lib/api-client';
+import { toast } from 'sonner';
+import {
+  isChannelEnabled,
+  minutesInTimeZone,
+  minutesToTime,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_GROUPS,
+  NotificationDeliveryPreview,
+  parseChannelPreferences,
+  previewNotificationDelivery,
+  serializeChannelPreferences,
+  setChannelEnabled,
+  timeToMinutes
+} from '@/lib/notifications/notification-preferences';
+import type {
+  ChannelPreferences,
+  NotificationChannel,
+  NotificationPreferenceDto,
+  UpdateNotificationPreferenceRequest
+} from '@/types/notifications';
+
+interface PreferencesForm {
+  quietHoursEnabled: boolean;
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  quietHoursTimezone: string;
+  largeTransactionThreshold: string;
+  budgetAlertPercentage: string;
+  runwayWarningMonths: string;
+}
+
+const DEFAULT_QUIET_HOURS_START = 22 * 60;
+const DEFAULT_QUIET_HOURS_END = 7 * 60;
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf isn't in the ES6 lib typings and is missing from older browsers
+const availableTimeZones = (current: string): string[] => {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+  return [...new Set([current, browserTimeZone(), 'UTC', ...supported])].filter(Boolean).sort();
+};
+
+const toForm = (preferences: NotificationPreferenceDto): PreferencesForm => {
+  const start = timeToMinutes(preferences.quietHoursStart);
+  const end = timeToMinutes(preferences.quietHoursEnd);
+  return {
+    quietHoursEnabled: start !== null && end !== null,
+    quietHoursStart: start ?? DEFAULT_QUIET_HOURS_START,
+    quietHoursEnd: end ?? DEFAULT_QUIET_HOURS_END,
+    quietHoursTimezone: preferences.quietHoursTimezone || browserTimeZone(),
+    largeTransactionThreshold: preferences.largeTransactionThreshold?.toString() ?? '',
+    budgetAlertPercentage: preferences.budgetAlertPercentage?.toString() ?? '',
+    runwayWarningMonths: preferences.runwayWarningMonths?.toString() ?? ''
+  };
+};
+
+// Blank fields are sent as null so the backend falls back to its defaults
+const parseOptionalNumber = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+export default function NotificationSettingsPage() {
+  const { shouldRender, isAuthResolved } = useAuthGuard();
+  const t = useTranslations('settings.notifications');
+  const tCommon = useTranslations('common');
+
+  const [form, setForm] = useState<PreferencesForm | null>(null);
+  const [channelPreferences, setChannelPreferences] = useState<ChannelPreferences>({});
+  const [loadingPreferences, setLoadingPreferences] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [previewType, setPreviewType] = useState(NOTIFICATION_TYPE_GROUPS[0].types[0]);
+  const [preview, setPreview] = useState<NotificationDeliveryPreview | null>(null);
+
+  const applyPreferences = (preferences: NotificationPreferenceDto) => {
+    setForm(toForm(preferences));
+    setChannelPreferences(parseChannelPreferences(preferences.channelPreferences));
+    setIsDirty(false);
+  };
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      setLoadingPreferences(true);
+      applyPreferences(await apiClient.getNotificationPreferences());
+    } catch (error) {
+      console.error('Failed to load notification preferences:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingPreferences(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthResolved) {
+      loadPreferences();
+    }
+  }, [isAuthResolved, loadPreferences]);
+
+  const updateForm = (changes: Partial<PreferencesForm>) => {
+    setForm((previous) => previous && { ...previous, ...changes });
+    setIsDirty(true);
+    setPreview(null);
+  };
+
+  const toggleChannel = (type: string, channel: NotificationChannel, enabled: boolean) => {
+    setChannelPreferences((previous) => setChannelEnabled(previous, type, channel, enabled));
+    setIsDirty(true);
+    setPreview(null);
+  };
+
+  const toggleChannelForAll = (channel: NotificationChannel, enabled: boolean) => {
+    setChannelPreferences((previous) =>
+      NOTIFICATION_TYPE_GROUPS.flatMap((group) => group.types).reduce(
+        (next, type) => setChannelEnabled(next, type, channel, enabled),
+        previous
+      )
+    );
+    setIsDirty(true);
+    setPreview(null);
+  };
+
+  const timeZones = useMemo(() => availableTimeZones(form?.quietHoursTimezone ?? ''), [form?.quietHoursTimezone]);
+
+  const quietHoursRequest = (current: PreferencesForm) => ({
+    quietHoursStart: current.quietHoursEnabled ? minutesToTime(current.quietHoursStart) : null,
+    quietHoursEnd: current.quietHoursEnabled ? minutesToTime(current.quietHoursEnd) : null,
+    quietHoursTimezone: current.quietHoursEnabled ? current.quietHoursTimezone : null
+  });
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const largeTransactionThreshold = parseOptionalNumber(form.largeTransactionThreshold);
+    const budgetAlertPercentage = parseOptionalNumber(form.budgetAlertPercentage);
+    const runwayWarningMonths = parseOptionalNumber(form.runwayWarningMonths);
+
+    if (largeTransactionThreshold !== null && !(largeTransactionThreshold > 0)) {
+      toast.error(t('errors.invalidThreshold'));
+      return;
+    }
+    if (budgetAlertPercentage !== null && !(Number.isInteger(budgetAlertPercentage) && budgetAlertPercentage >= 1 && budgetAlertPercentage <= 100)) {
+      toast.error(t('errors.invalidBudgetPercentage'));
+      return;
+    }
+    if (runwayWarningMonths !== null && !(Number.isInteger(runwayWarningMonths) && runwayWarningMonths >= 1 && runwayWarningMonths <= 24)) {
+      toast.error(t('errors.invalidRunwayMonths'));
+      return;
+    }
+    if (form.quietHoursEnabled && form.quietHoursStart === form.quietHoursEnd) {
+      toast.error(t('errors.emptyQuietHours'));
+      return;
+    }
+
+    // The endpoint replaces the whole preference record, so every field is sent
+    const request: UpdateNotificationPreferenceRequest = {
+      channelPreferences: serializeChannelPreferences(channelPreferences),
+      ...quietHoursRequest(form),
+      largeTransactionThreshold,
+      budgetAlertPercentage,
+      runwayWarningMonths
+    };
+
+    try {
+      setSaving(true);
+      applyPreferences(await apiClient.updateNotificationPreferences(request));
+      toast.success(t('saved'));
+    } catch (error) {
+      console.error('Failed to save notification preferences:', error);
+      toast.error(t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSendTest = () => {
+    if (!form) return;
+
+    const result = previewNotificationDelivery(quietHoursRequest(form), channelPreferences, previewType, new Date());
+    setPreview(result);
+
+    if (!result.silencedByQuietHours && result.channels.includes('inApp')) {
+      toast(t(`types.${previewType}`), {
+        description: t('test.sampleBody'),
+        icon: <BellAlertIcon className="w-5 h-5 text-primary-600" />
+      });
+    }
+  };
+
+  if (!shouldRender) return null;
+
+  const nowInTimeZone = form?.quietHoursEnabled ? minutesInTimeZone(new Date(), form.quietHoursTimezone) : undefined;
+  const cardClassName = 'rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs';
+
+  return (
+    <AppLayout>
+      <BackButton variant="link" href="/settings" label={t('backToSettings')} />
+
+      {/* Header */}
+      <div className="mb-6 lg:mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
+            <BellIcon className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+              {t('title')}
+            </h1>
+            <p className="text-[15px] text-ink-500 mt-0.5">{t('subtitle')}</p>
+          </div>
+        </div>
+        <Button onClick={handleSave} loading={saving} disabled={!form || saving || !isDirty}>
+          {saving ? tCommon('saving') : tCommon('save')}
+        </Button>
+      </div>
+
+      {loadingPreferences || !form ? (
+        <Card className={cardClassName}>
+          <CardContent className="p-6">
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-ink-200 rounded w-1/3"></div>
+              <div className="h-10 bg-ink-200 rounded"></div>
+              <div className="h-4 bg-ink-200 rounded w-1/4"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {/* Channel routing */}
+          <Card className={cardClassName}>
+            <CardContent className="p-6">
+              <h2 className="text-lg font-semibold text-ink-900">{t('channels.title')}</h2>
+              <p className="text-sm text-ink-500 mt-1 mb-4">{t('channels.description')}</p>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wide text-ink-400">
+                      <th className="py-2 pr-4 font-semibold">{t('channels.type')}</th>
+                      {NOTIFICATION_CHANNELS.map((channel) => {
+                        const allTypes = NOTIFICATION_TYPE_GROUPS.flatMap((group) => group.types);
+                        const allEnabled = allTypes.every((type) => isChannelEnabled(channelPreferences, type, channel));
+                        return (
+                          <th key={channel} className="py-2 px-3 text-center font-semibold">
+                            <div>{t(`channels.${channel}`)}</div>
+                            <button
+                              type="button"
+                              onClick={() => toggleChannelForAll(channel, !allEnabled)}
+                              className="mt-0.5 text-[11px] font-medium normal-case tracking-normal text-primary-600 hover:text-primary-800"
+                            >
+                              {allEnabled ? t('channels.noneOn') : t('channels.allOn')}
+                            </button>
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  {NOTIFICATION_TYPE_GROUPS.map((group) => (
+                    <tbody key={group.key} className="border-t border-ink-100">
+                      <tr>
+                        <th colSpan={NOTIFICATION_CHANNELS.length + 1} className="pt-3 pb-1 text-left text-xs font-semibold text-ink-500">
+                          {t(`groups.${group.key}`)}
+                        </th>
+                      </tr>
+                      {group.types.map((type) => (
+                        <tr key={type} className="hover:bg-ink-50/60">
+                          <td className="py-1.5 pr-4 text-ink-800">{t(`types.${type}`)}</td>
+                          {NOTIFICATION_CHANNELS.map((channel) => (
+                            <td key={channel} className="py-1.5 px-3 text-center">
+                              <input
+                                type="checkbox"
+                                checked={isChannelEnabled(channelPreferences, type, channel)}
+                                onChange={(e) => toggleChannel(type, channel, e.target.checked)}
+                                aria-label={t('channels.toggleLabel', { type: t(`types.${type}`), channel: t(`channels.${channel}`) })}
+                                className="rounded border-ink-200 text-primary-600 focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2"
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  ))}
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Quiet hours */}
+          <Card className={cardClassName}>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-ink-900 flex items-center gap-2">
+                    <MoonIcon className="w-5 h-5 text-ink-500" />
+                    {t('quietHours.title')}
+                  </h2>
+                  <p className="text-sm text-ink-500 mt-1">{t('quietHours.description')}</p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={form.quietHoursEnabled}
+                  aria-label={t('quietHours.enable')}
+                  onClick={() => updateForm({ quietHoursEnabled: !form.quietHoursEnabled })}
+                  className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 ${
+                    form.quietHoursEnabled ? 'bg-primary-600' : 'bg-ink-200'
+                  }`}
+                >
+                  <span
+                    className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                      form.quietHoursEnabled ? 'translate-x-5' : 'translate-x-0'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {form.quietHoursEnabled && (
+                <>
+                  <QuietHoursTimeline
+                    start={form.quietHoursStart}
+                    end={form.quietHoursEnd}
+                    now={nowInTimeZone}
+                    onChange={(quietHoursStart, quietHoursEnd) => updateForm({ quietHoursStart, quietHoursEnd })}
+                  />
+                  <p className="text-xs text-ink-500">{t('quietHours.dragHint')}</p>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label htmlFor="quietHoursStart" className="block text-sm font-medium text-ink-700 mb-1.5">
+                        {t('quietHours.start')}
+                      </label>
+                      <Input
+                        id="quietHoursStart"
+                        type="time"
+                        value={minutesToTime(form.quietHoursStart)}
+                        onChange={(e) => updateForm({ quietHoursStart: timeToMinutes(e.target.value) ?? form.quietHoursStart })}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="quietHoursEnd" className="block text-sm font-medium text-ink-700 mb-1.5">
+                        {t('quietHours.end')}
+                      </label>
+                      <Input
+                        id="quietHoursEnd"
+                        type="time"
+                        value={minutesToTime(form.quietHoursEnd)}
+                        onChange={(e) => updateForm({ quietHoursEnd: timeToMinutes(e.target.value) ?? form.quietHoursEnd })}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="quietHoursTimezone" className="block text-sm font-medium text-ink-700 mb-1.5">
+                        {t('quietHours.timezone')}
+                      </label>
+                      <Select
+                        id="quietHoursTimezone"
+                        value={form.quietHoursTimezone}
+                        onChange={(e) => updateForm({ quietHoursTimezone: e.target.value })}
+                      >
+                        {timeZones.map((zone) => (
+                          <option key={zone} value={zone}>{zone}</option>
+                        ))}
+                      </Select>
+                    </div>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Thresholds */}
+          <Card className={cardClassName}>
+            <CardContent className="p-6">
+              <h2 className="text-lg font-semibold text-ink-900">{t('thresholds.title')}</h2>
+              <p className="text-sm text-ink-500 mt-1 mb-4">{t('thresholds.description')}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="largeTransactionThreshold" className="block text-sm font-medium text-ink-700 mb-1.5">
+                    {t('thresholds.largeTransaction')}
+                  </label>
+                  <Input
+                    id="largeTransactionThreshold"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    inputMode="decimal"
+                    value={form.largeTransactionThreshold}
+                    onChange={(e) => updateForm({ largeTransactionThreshold: e.target.value })}
+                    placeholder={t('thresholds.defaultPlaceholder')}
+                  />
+                  <p className="text-xs text-ink-500 mt-1.5">{t('thresholds.largeTransactionHint')}</p>
+                </div>
+                <div>
+                  <label htmlFor="budgetAlertPercentage" className="block text-sm font-medium text-ink-700 mb-1.5">
+                    {t('thresholds.budgetAlert')}
+                  </label>
+                  <Input
+                    id="budgetAlertPercentage"
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="1"
+                    value={form.budgetAlertPercentage}
+                    onChange={(e) => updateForm({ budgetAlertPercentage: e.target.value })}
+                    placeholder={t('thresholds.defaultPlaceholder')}
+                  />
+                  <p className="text-xs text-ink-500 mt-1.5">{t('thresholds.budgetAlertHint')}</p>
+                </div>
+                <div>
+                  <label htmlFor="runwayWarningMonths" className="block text-sm font-medium text-ink-700 mb-1.5">
+                    {t('thresholds.runwayWarning')}
+                  </label>
+                  <Input
+                    id="runwayWarningMonths"
+                    type="number"
+                    min="1"
+                    max="24"
+                    step="1"
+                    value={form.runwayWarningMonths}
+                    onChange={(e) => updateForm({ runwayWarningMonths: e.target.value })}
+                    placeholder={t('thresholds.defaultPlaceholder')}
+                  />
+                  <p className="text-xs text-ink-500 mt-1.5">{t('thresholds.runwayWarningHint')}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Test notification */}
+          <Card className={cardClassName}>
+            <CardContent className="p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold text-ink-900">{t('test.title')}</h2>
+                <p className="text-sm text-ink-500 mt-1">{t('test.description')}</p>
+              </div>
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+                <div className="flex-1">
+                  <label htmlFor="previewType" className="block text-sm font-medium text-ink-700 mb-1.5">
+                    {t('test.type')}
+                  </label>
+                  <Select
+                    id="previewType"
+                    value={previewType}
+                    onChange={(e) => {
+                      setPreviewType(e.target.value);
+                      setPreview(null);
+                    }}
+                  >
+                    {NOTIFICATION_TYPE_GROUPS.map((group) => (
+                      <optgroup key={group.key} label={t(`groups.${group.key}`)}>
+                        {group.types.map((type) => (
+                          <option key={type} value={type}>{t(`types.${type}`)}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </Select>
+                </div>
+                <Button variant="secondary" onClick={handleSendTest} className="flex items-center gap-2">
+                  <PaperAirplaneIcon className="w-4 h-4" />
+                  {t('test.send')}
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="rounded-xl border border-ink-200 bg-ink-50 p-4 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <BellAlertIcon className="w-5 h-5 text-primary-600 shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium text-ink-900">{t(`types.${previewType}`)}</p>
+                      <p className="text-sm text-ink-500">{t('test.sampleBody')}</p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {NOTIFICATION_CHANNELS.map((channel) => {
+                      const routed = preview.channels.includes(channel);
+                      const delivered = routed && !preview.silencedByQuietHours;
+                      return (
+                        <span
+                          key={channel}
+                          className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                            delivered
+                              ? 'bg-green-100 text-green-700'
+                              : routed
+                                ? 'bg-amber-100 text-amber-700'
+                                : 'bg-ink-100 text-ink-500'
+                          }`}
+                        >
+                          {t(`channels.${channel}`)}: {delivered ? t('test.delivered') : routed ? t('test.silenced') : t('test.off')}
+                        </span>
+                      );
+                    })}
+                  </div>
+                  {preview.silencedByQuietHours && (
+                    <p className="text-xs text-amber-700">{t('test.quietHoursActive', { time: preview.quietHoursEnd ?? '' })}</p>
+                  )}
+                  {preview.channels.length === 0 && (
+                    <p className="text-xs text-ink-500">{t('test.noChannels')}</p>
+                  )}
+                  {isDirty && (
+                    <p className="text-xs text-ink-400">{t('test.unsavedHint')}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </AppLayout>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -21,7 +21,9 @@ import {
   ChatBubbleBottomCenterTextIcon,
   PresentationChartBarIcon,
   CreditCardIcon,
-  InformationCircleIcon
+  InformationCircleIcon,
+  HashtagIcon,
+  CurrencyDollarIcon
 } from '@heroicons/react/24/outline';
 import { useLocale } from '@/contexts/locale-context';
 import { useTranslations } from 'next-intl';
@@ -55,6 +57,21 @@ const settingsItems: SettingsItem[] = [
     labelKey: 'billing',
     featureFlag: 'stripeBilling',
   },
+  {
+    href: '/settings/tags',
+    icon: HashtagIcon,
+    labelKey: 'tags',
+  },
+  {
+    href: '/settings/currencies',
+    icon: CurrencyDollarIcon,
+    labelKey: 'currencies',
+  },
+  {
+    href: '/settings/notifications',
+    icon: BellIcon,
+    labelKey: 'notifications',
+  },
   {
     href: '/settings/telegram',
     icon: ChatBubbleBottomCenterTextIcon,
@@ -474,7 +491,6 @@ export default function SettingsPage() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {[
               { icon: UserIcon, labelKey: 'profile' as const },
-              { icon: BellIcon, labelKey: 'notifications' as const },
               { icon: ShieldCheckIcon, labelKey: 'security' as const },
             ].map((item) => {
               const IconComponent = item.icon;
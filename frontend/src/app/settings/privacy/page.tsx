@@ -65,7 +65,7 @@ export default function PrivacySettingsPage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `mymascada-data-export-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `mymascada-data-export-${new Date().toISOString().split('T')[0]}.zip`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
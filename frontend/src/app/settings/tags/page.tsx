@@ -0,0 +1,308 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '@/components/app-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BackButton } from '@/components/ui/back-button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TagChip } from '@/components/tags/tag-chip';
+import { HashtagIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import { tagColor, validateTagName } from '@/lib/tags/tags';
+import { formatDate } from '@/lib/utils';
+import type { TagDto } from '@/types/tags';
+
+export default function TagSettingsPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const t = useTranslations('tags');
+  const tCommon = useTranslations('common');
+
+  const [tags, setTags] = useState<TagDto[]>([]);
+  const [loadingTags, setLoadingTags] = useState(true);
+  const [newTagName, setNewTagName] = useState('');
+  const [renaming, setRenaming] = useState<{ name: string; newName: string } | null>(null);
+  const [deleting, setDeleting] = useState<TagDto | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setLoadingTags(true);
+      setTags(await apiClient.getTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoadingTags(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadTags();
+    }
+  }, [isAuthenticated, loadTags]);
+
+  const nameError = (name: string) => {
+    const problem = validateTagName(name);
+    return problem ? t(`validation.${problem}`) : null;
+  };
+
+  const handleCreate = async () => {
+    const error = nameError(newTagName);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.saveTag({ name: newTagName.trim(), color: tagColor(newTagName.trim()) });
+      setNewTagName('');
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+      toast.error(t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleColorChange = async (tag: TagDto, color: string) => {
+    try {
+      const saved = await apiClient.saveTag({ name: tag.name, color });
+      setTags((current) => current.map((candidate) => (candidate.name === tag.name ? saved : candidate)));
+    } catch (error) {
+      console.error('Failed to update tag color:', error);
+      toast.error(t('errors.saveFailed'));
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const error = nameError(renaming.newName);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    // Renaming onto another existing tag merges the two
+    const isMerge = tags.some(
+      (tag) =>
+        tag.name.toLowerCase() === renaming.newName.trim().toLowerCase() &&
+        tag.name.toLowerCase() !== renaming.name.toLowerCase()
+    );
+
+    try {
+      setSaving(true);
+      const result = await apiClient.renameTag({ name: renaming.name, newName: renaming.newName.trim() });
+      toast.success(
+        t(isMerge ? 'toasts.merged' : 'toasts.renamed', {
+          name: result.name,
+          transactions: result.transactionsUpdated,
+          rules: result.rulesUpdated,
+        })
+      );
+      setRenaming(null);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      toast.error(t('errors.renameFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const result = await apiClient.deleteTag(deleting.name);
+      toast.success(
+        t('toasts.deleted', {
+          name: result.name,
+          transactions: result.transactionsUpdated,
+          rules: result.rulesUpdated,
+        })
+      );
+      setDeleting(null);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      toast.error(t('errors.deleteFailed'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-alt flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-400 rounded-2xl shadow-2xl flex items-center justify-center animate-pulse mx-auto">
+            <HashtagIcon className="w-8 h-8 text-white" />
+          </div>
+          <div className="mt-6 text-ink-700 font-medium">{tCommon('loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6 lg:mb-8">
+        <BackButton variant="link" href="/settings" label={t('backToSettings')} />
+        <h1 className="font-[var(--font-dash-sans)] text-3xl font-semibold tracking-[-0.03em] text-ink-900 sm:text-[2.1rem]">
+          {t('title')}
+        </h1>
+        <p className="text-[15px] text-ink-500 mt-1.5">{t('subtitle')}</p>
+      </div>
+
+      <div className="space-y-6">
+        <Card className="rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs">
+          <CardContent className="p-6">
+            <form
+              className="flex flex-col gap-3 sm:flex-row"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleCreate();
+              }}
+            >
+              <Input
+                value={newTagName}
+                onChange={(event) => setNewTagName(event.target.value)}
+                placeholder={t('newTagPlaceholder')}
+                maxLength={50}
+                disabled={saving}
+              />
+              <Button type="submit" disabled={saving || !newTagName.trim()}>
+                {t('createButton')}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-[26px] border border-ink-200 bg-white/92 shadow-[0_20px_46px_-30px_rgba(47,129,112,0.20)] backdrop-blur-xs">
+          <CardContent className="p-0">
+            {loadingTags ? (
+              <div className="space-y-3 p-6">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <div key={i} className="h-10 animate-pulse rounded-lg bg-ink-100" />
+                ))}
+              </div>
+            ) : tags.length === 0 ? (
+              <div className="p-10 text-center">
+                <HashtagIcon className="mx-auto mb-3 h-10 w-10 text-ink-300" />
+                <p className="font-medium text-ink-700">{t('empty.title')}</p>
+                <p className="mt-1 text-sm text-ink-500">{t('empty.description')}</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-ink-100">
+                {tags.map((tag) => (
+                  <li key={tag.name} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:px-6">
+                    <div className="flex min-w-0 flex-1 items-center gap-3">
+                      <input
+                        type="color"
+                        value={tagColor(tag.name, tags)}
+                        onChange={(event) => handleColorChange(tag, event.target.value.toUpperCase())}
+                        className="h-8 w-8 shrink-0 cursor-pointer rounded border border-ink-200 bg-white p-0.5"
+                        aria-label={t('colorLabel', { name: tag.name })}
+                      />
+                      {renaming?.name === tag.name ? (
+                        <form
+                          className="flex flex-1 gap-2"
+                          onSubmit={(event) => {
+                            event.preventDefault();
+                            handleRename();
+                          }}
+                        >
+                          <Input
+                            autoFocus
+                            value={renaming.newName}
+                            maxLength={50}
+                            onChange={(event) => setRenaming({ ...renaming, newName: event.target.value })}
+                            disabled={saving}
+                          />
+                          <Button type="submit" size="sm" disabled={saving}>
+                            {tCommon('save')}
+                          </Button>
+                          <Button type="button" variant="secondary" size="sm" onClick={() => setRenaming(null)}>
+                            {tCommon('cancel')}
+                          </Button>
+                        </form>
+                      ) : (
+                        <div className="min-w-0">
+                          <Link href={`/transactions?tag=${encodeURIComponent(tag.name)}`}>
+                            <TagChip name={tag.name} tags={tags} />
+                          </Link>
+                          <p className="mt-1 text-xs text-ink-500">
+                            {t('usage', { transactions: tag.transactionCount, rules: tag.ruleCount })}
+                            {tag.lastUsedAt && ` · ${t('lastUsed', { date: formatDate(tag.lastUsedAt) })}`}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    {renaming?.name !== tag.name && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => setRenaming({ name: tag.name, newName: tag.name })}
+                        >
+                          <PencilIcon className="mr-1 h-4 w-4" />
+                          {t('renameButton')}
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setDeleting(tag)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                          <span className="sr-only">{tCommon('delete')}</span>
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {renaming && (
+              <p className="border-t border-ink-100 px-6 py-3 text-xs text-ink-500">{t('mergeHint')}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('deleteDialog.title', { name: deleting?.name ?? '' })}
+        description={t('deleteDialog.description', {
+          transactions: deleting?.transactionCount ?? 0,
+          rules: deleting?.ruleCount ?? 0,
+        })}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </AppLayout>
+  );
+}
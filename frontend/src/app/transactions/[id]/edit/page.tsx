@@ -8,6 +8,10 @@ import { useEffect, useState, useCallback } from 'react';
 import { AppLayout } from '@/components/app-layout';
 import { TransactionForm, TransactionStatus } from '@/components/forms/transaction-form';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import { buildSplitRequests, SplitLineDraft, splitLinesFromDto } from '@/lib/transactions/splits';
+import { joinTags, parseTags } from '@/lib/tags/tags';
+import type { TransactionSplitDto } from '@/types/transactions';
 import { TransactionBackButton } from '@/components/ui/smart-back-button';
 import {
   PencilIcon,
@@ -25,9 +29,11 @@ interface Transaction {
   userDescription?: string;
   accountId: number;
   categoryId?: number;
+  splits?: TransactionSplitDto[];
   notes?: string;
   location?: string;
-  tags?: string[];
+  /** Comma-separated tag list. */
+  tags?: string;
   status: string | number;
   // Transfer-related properties
   transferId?: string;
@@ -115,8 +121,9 @@ export default function EditTransactionPage() {
     categoryId?: string;
     notes?: string;
     location?: string;
-    tags?: string;
+    tags?: string[];
     status?: string;
+    splits?: SplitLineDraft[];
   }) => {
     try {
       setLoading(true);
@@ -153,9 +160,13 @@ export default function EditTransactionPage() {
         userDescription: formData.userDescription || undefined,
         // Don't allow category changes for transfer transactions
         categoryId: isCurrentTransfer ? undefined : (formData.categoryId ? parseInt(formData.categoryId) : undefined),
+        // Always send the lines for regular transactions: an empty list removes an existing split
+        splits: isCurrentTransfer || formData.type === 'transfer'
+          ? undefined
+          : buildSplitRequests(formData.splits ?? [], formData.type),
         notes: formData.notes || undefined,
         location: formData.location || undefined,
-        tags: formData.tags ? formData.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean) : undefined,
+        tags: joinTags(formData.tags ?? []),
         status: statusMap[formData.status || 'cleared'] || 2, // Default to Cleared (2)
       };
 
@@ -170,6 +181,11 @@ export default function EditTransactionPage() {
         router.push(returnUrl);
       }, 1000);
     } catch (err) {
+      if (isQueuedOffline(err)) {
+        toast.info(tToasts('transactionQueuedOffline'), { duration: 4000 });
+        router.push(returnUrl);
+        return;
+      }
       console.error('Failed to update transaction:', err);
       setError(t('updateFailed'));
       toast.error(tToasts('transactionUpdateFailed'), { duration: 4000 });
@@ -221,9 +237,10 @@ export default function EditTransactionPage() {
     accountId: transaction.accountId.toString(),
     // Don't include categoryId for transfer transactions
     categoryId: isTransfer(transaction) ? '' : (transaction.categoryId?.toString() || ''),
+    splits: splitLinesFromDto(transaction.splits),
     notes: transaction.notes || '',
     location: transaction.location || '',
-    tags: transaction.tags?.join(', ') || '',
+    tags: parseTags(transaction.tags),
     status: getTransactionStatus(transaction.status),
   } : undefined;
 
@@ -287,6 +304,7 @@ export default function EditTransactionPage() {
             onSubmit={handleSubmit}
             onCancel={handleCancel}
             submitText={loading ? t('updating') : t('updateTransaction')}
+            allowSplits={!isTransfer(transaction)}
           />
         )}
       </div>
@@ -7,6 +7,12 @@ import { AppLayout } from '@/components/app-layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import { parseTags } from '@/lib/tags/tags';
+import { TagChip } from '@/components/tags/tag-chip';
+import { TransactionAttachments } from '@/components/attachments/transaction-attachments';
+import type { CategoryDto } from '@/types/categories';
+import type { TransactionSplitDto } from '@/types/transactions';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { EditTransactionButton } from '@/components/buttons/edit-transaction-button';
 import { CategoryPicker } from '@/components/forms/category-picker';
@@ -29,17 +35,6 @@ import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { toast } from 'sonner';
 import Link from 'next/link';
 
-interface Category {
-  id: number;
-  name: string;
-  type: number;
-  parentId: number | null;
-  color?: string;
-  icon?: string;
-  isSystem?: boolean;
-  children?: Category[];
-}
-
 interface Transaction {
   id: number;
   amount: number;
@@ -51,9 +46,11 @@ interface Transaction {
   categoryId?: number;
   categoryName?: string;
   categoryColor?: string;
+  splits?: TransactionSplitDto[];
   notes?: string;
   location?: string;
-  tags?: string[];
+  /** Comma-separated tag list. */
+  tags?: string;
   status: string | number;
   source: string | number;
   isReviewed: boolean;
@@ -100,7 +97,7 @@ export default function TransactionDetailsPage() {
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState({ show: false, transactionId: 0 });
   const [deleting, setDeleting] = useState(false);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(false);
   const [updatingCategory, setUpdatingCategory] = useState(false);
   const [reviewingTransaction, setReviewingTransaction] = useState(false);
@@ -130,7 +127,7 @@ export default function TransactionDetailsPage() {
   const loadCategories = useCallback(async () => {
     try {
       setLoadingCategories(true);
-      const categoriesData = await apiClient.getCategories() as Category[];
+      const categoriesData = await apiClient.getCategories();
       setCategories(categoriesData);
     } catch (err) {
       console.error('Failed to load categories:', err);
@@ -167,6 +164,10 @@ export default function TransactionDetailsPage() {
       await loadTransaction();
       toast.success(tToasts('categoryAssigned'));
     } catch (err) {
+      if (isQueuedOffline(err)) {
+        toast.info(tToasts('transactionQueuedOffline'));
+        return;
+      }
       console.error('Failed to assign category:', err);
       toast.error(tToasts('categoryAssignFailed'));
     } finally {
@@ -204,6 +205,11 @@ export default function TransactionDetailsPage() {
       toast.success(tToasts('transactionDeleted'), { duration: 4000 });
       router.push('/transactions');
     } catch (err) {
+      if (isQueuedOffline(err)) {
+        toast.info(tToasts('transactionQueuedOffline'), { duration: 4000 });
+        router.push('/transactions');
+        return;
+      }
       console.error('Failed to delete transaction:', err);
       toast.error(t('failedToDeleteTransaction'), { duration: 4000 });
     } finally {
@@ -252,7 +258,7 @@ export default function TransactionDetailsPage() {
     (transaction.description !== transaction.userDescription) ||
     transaction.notes ||
     transaction.location ||
-    (Array.isArray(transaction.tags) && transaction.tags.length > 0) ||
+    parseTags(transaction.tags).length > 0 ||
     transaction.externalId;
 
   return (
@@ -398,6 +404,32 @@ export default function TransactionDetailsPage() {
               )}
             </div>
 
+            {/* Split lines */}
+            {transaction.splits && transaction.splits.length > 0 && (
+              <div>
+                <span className="text-xs font-semibold uppercase tracking-wide text-ink-400">
+                  {t('splits.title')}
+                </span>
+                <ul className="mt-2 divide-y divide-ink-100 rounded-xl border border-ink-200">
+                  {transaction.splits.map((split) => (
+                    <li key={split.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span
+                        className="h-2.5 w-2.5 shrink-0 rounded-full"
+                        style={{ backgroundColor: split.categoryColor || '#94a3b8' }}
+                      />
+                      <span className="min-w-0 flex-1 truncate text-ink-800">
+                        {split.categoryName}
+                        {split.description && <span className="ml-2 text-ink-500">{split.description}</span>}
+                      </span>
+                      <span className="shrink-0 font-[var(--font-dash-mono)] text-ink-700">
+                        {formatCurrency(split.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="h-px bg-ink-100" />
 
             {/* Source */}
@@ -499,16 +531,16 @@ export default function TransactionDetailsPage() {
                 </div>
               )}
 
-              {Array.isArray(transaction.tags) && transaction.tags.length > 0 && (
+              {parseTags(transaction.tags).length > 0 && (
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-ink-400 mb-2 block">
                     {t('tags')}
                   </label>
                   <div className="flex flex-wrap gap-2">
-                    {transaction.tags.map((tag, index) => (
-                      <Badge key={index} variant="outline" className="text-xs">
-                        {tag}
-                      </Badge>
+                    {parseTags(transaction.tags).map((tag) => (
+                      <Link key={tag} href={`/transactions?tag=${encodeURIComponent(tag)}`}>
+                        <TagChip name={tag} />
+                      </Link>
                     ))}
                   </div>
                 </div>
@@ -527,6 +559,9 @@ export default function TransactionDetailsPage() {
             </div>
           </section>
         )}
+
+        {/* Receipts and documents */}
+        <TransactionAttachments transactionId={transaction.id} />
       </div>
 
       {/* Delete Confirmation Dialog */}
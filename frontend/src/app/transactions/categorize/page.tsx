@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import type { CategoryDto } from '@/types/categories';
 import {
   MagnifyingGlassIcon,
   FunnelIcon,
@@ -72,7 +73,7 @@ export default function CategorizePage() {
   const [accounts, setAccounts] = useState<Array<{ id: number; name: string }>>([]);
   const [selectedAccountId, setSelectedAccountId] = useState<string>('');
   const [showAll, setShowAll] = useState(false);
-  const [allCategories, setAllCategories] = useState<Array<{ id: number; name: string; fullPath?: string; type: number; parentId: number | null }>>([]);
+  const [allCategories, setAllCategories] = useState<CategoryDto[]>([]);
   const [categorizedCount, setCategorizedCount] = useState(0);
   const [batchCategorizationKey, setBatchCategorizationKey] = useState(0);
 
@@ -173,7 +174,7 @@ export default function CategorizePage() {
 
   const loadCategories = async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Array<{ id: number; name: string; fullPath?: string; type: number; parentId: number | null }>;
+      const categoriesData = await apiClient.getCategories();
       setAllCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
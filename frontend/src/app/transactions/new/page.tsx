@@ -6,6 +6,9 @@ import { useEffect, useState, Suspense } from 'react';
 import { AppLayout } from '@/components/app-layout';
 import { TransactionForm, TransactionFormData } from '@/components/forms/transaction-form';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import { buildSplitRequests } from '@/lib/transactions/splits';
+import { joinTags } from '@/lib/tags/tags';
 import { toast } from 'sonner';
 import {
   BanknotesIcon,
@@ -21,6 +24,7 @@ function NewTransactionPageContent() {
   const [success, setSuccess] = useState(false);
   const t = useTranslations('transactions');
   const tCommon = useTranslations('common');
+  const tToasts = useTranslations('toasts');
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -52,20 +56,27 @@ function NewTransactionPageContent() {
       userDescription: formData.userDescription.trim() || undefined,
       accountId: parseInt(formData.accountId), // Required field
       categoryId: formData.categoryId ? parseInt(formData.categoryId) : undefined,
+      splits: formData.splits.length > 0 ? buildSplitRequests(formData.splits, formData.type) : undefined,
       notes: formData.notes.trim() || undefined,
       location: formData.location.trim() || undefined,
+      tags: joinTags(formData.tags),
       status: statusMap[formData.status] || 2, // Default to Cleared (2)
     };
 
-    await apiClient.createTransaction(transactionData);
-
-    toast.success(t('addedToast', {
-      type: formData.type === 'income' ? t('income') : t('expense'),
-      amount: amount.toFixed(2),
-      description: formData.description
-    }), {
-      duration: 4000,
-    });
+    try {
+      await apiClient.createTransaction(transactionData);
+
+      toast.success(t('addedToast', {
+        type: formData.type === 'income' ? t('income') : t('expense'),
+        amount: amount.toFixed(2),
+        description: formData.description
+      }), {
+        duration: 4000,
+      });
+    } catch (error) {
+      if (!isQueuedOffline(error)) throw error;
+      toast.info(tToasts('transactionQueuedOffline'), { duration: 4000 });
+    }
 
     setSuccess(true);
 
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn, formatCurrency, formatDate } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
 import { createTransactionDetailUrl } from '@/lib/navigation-utils';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import Link from 'next/link';
@@ -23,6 +24,8 @@ import {
   TrashIcon,
   CalendarIcon,
   TagIcon,
+  PaperClipIcon,
+  HashtagIcon,
   BuildingOffice2Icon,
   WalletIcon,
   ArrowTrendingUpIcon,
@@ -55,8 +58,16 @@ import { TransfersModal } from '@/components/modals/transfers-modal';
 import { ContextualTransactionLink } from '@/components/ui/contextual-transaction-link';
 import { useTransactionFilters, SortField, SortDirection } from '@/hooks/use-transaction-filters';
 import { InlineTransferCreator } from '@/components/forms/inline-transfer-creator';
+import { OfflineQueuePanel, PendingSyncBadge } from '@/components/offline/pending-sync';
+import { useTransactionOutbox } from '@/hooks/use-transaction-outbox';
+import { useRealtime } from '@/contexts/realtime-context';
 import { useTranslations } from 'next-intl';
 import { MobileActionsOverflow } from '@/components/ui/mobile-actions-overflow';
+import { BulkTagDialog } from '@/components/tags/bulk-tag-dialog';
+import { TagChip } from '@/components/tags/tag-chip';
+import { AttachmentThumbnail } from '@/components/attachments/attachment-thumbnail';
+import { parseTags } from '@/lib/tags/tags';
+import type { TagDto } from '@/types/tags';
 
 interface Transaction {
   id: number;
@@ -74,6 +85,9 @@ interface Transaction {
   relatedTransactionId?: number;
   isTransferSource?: boolean;
   type: number;
+  tags?: string;
+  attachmentCount?: number;
+  thumbnailAttachmentId?: number;
 }
 
 // interface TransactionListResponse {
@@ -88,6 +102,8 @@ function TransactionsPageContent() {
   const { shouldRender, isAuthResolved } = useAuthGuard();
   const { features } = useFeatures();
   const { isMobile } = useDeviceDetect();
+  const { entriesByTransactionId } = useTransactionOutbox();
+  const { waitForSyncJob } = useRealtime();
   const router = useRouter();
   const t = useTranslations('transactions');
   const tCommon = useTranslations('common');
@@ -108,6 +124,10 @@ function TransactionsPageContent() {
     setSelectedCategoryId,
     selectedAccountId,
     setSelectedAccountId,
+    selectedTag,
+    setSelectedTag,
+    attachmentFilter,
+    setAttachmentFilter,
     dateFilter,
     setDateFilter,
     startDate,
@@ -143,6 +163,8 @@ function TransactionsPageContent() {
   const [showDuplicatesModal, setShowDuplicatesModal] = useState(false);
   const [showTransfersModal, setShowTransfersModal] = useState(false);
   const [accounts, setAccounts] = useState<Array<{ id: number; name: string }>>([]);
+  const [availableTags, setAvailableTags] = useState<TagDto[]>([]);
+  const [showBulkTagDialog, setShowBulkTagDialog] = useState(false);
   const [openMenuId, setOpenMenuId] = useState<number | null>(null);
   const [expandedTransfers, setExpandedTransfers] = useState<Set<string>>(new Set());
   const [createTransferForTransaction, setCreateTransferForTransaction] = useState<Transaction | null>(null);
@@ -319,7 +341,7 @@ function TransactionsPageContent() {
     return grouped;
   }, [transactions]);
 
-  const fetchTransactions = useCallback(async (page = 1, search = '', filter = transferFilter, categoryId = selectedCategoryId, accountId = selectedAccountId, reviewStatus = reviewFilter, currentDateFilter = dateFilter, currentTypeFilter = typeFilter, currentReconciliationFilter = reconciliationFilter, currentSortBy = sortBy, currentSortDirection = sortDirection) => {
+  const fetchTransactions = useCallback(async (page = 1, search = '', filter = transferFilter, categoryId = selectedCategoryId, accountId = selectedAccountId, reviewStatus = reviewFilter, currentDateFilter = dateFilter, currentTypeFilter = typeFilter, currentReconciliationFilter = reconciliationFilter, currentSortBy = sortBy, currentSortDirection = sortDirection, currentTag = selectedTag, currentAttachmentFilter = attachmentFilter) => {
     try {
       setLoading(true);
       const params: {
@@ -335,6 +357,8 @@ function TransactionsPageContent() {
         startDate?: string;
         endDate?: string;
         transactionType?: string;
+        tag?: string;
+        hasAttachments?: boolean;
         sortBy?: string;
         sortDirection?: string;
       } = {
@@ -357,6 +381,12 @@ function TransactionsPageContent() {
       if (accountId) {
         params.accountId = parseInt(accountId);
       }
+      if (currentTag) {
+        params.tag = currentTag;
+      }
+      if (currentAttachmentFilter !== 'all') {
+        params.hasAttachments = currentAttachmentFilter === 'with';
+      }
 
       // Add review status filter (server-side)
       if (reviewStatus === 'reviewed') {
@@ -417,14 +447,14 @@ function TransactionsPageContent() {
     } finally {
       setLoading(false);
     }
-  }, [getDateRangeFromFilter, setCurrentPage, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection]);
+  }, [getDateRangeFromFilter, setCurrentPage, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection, selectedTag, attachmentFilter]);
 
   useEffect(() => {
     if (isAuthResolved) {
       fetchTransactions(currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthResolved, currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, startDate, endDate, reconciliationFilter, sortBy, sortDirection]);
+  }, [isAuthResolved, currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, startDate, endDate, reconciliationFilter, sortBy, sortDirection, selectedTag, attachmentFilter]);
 
   const handleSearch = (value: string) => {
     setSearchTerm(value);
@@ -433,7 +463,7 @@ function TransactionsPageContent() {
 
   const loadCategories = useCallback(async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Array<{ id: number; name: string; fullPath?: string; type: number; parentId: number | null }>;
+      const categoriesData = await apiClient.getCategories();
       setAllCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
@@ -451,12 +481,19 @@ function TransactionsPageContent() {
     }
   }, [setAccounts]);
 
+  const loadTags = useCallback(async () => {
+    try {
+      setAvailableTags(await apiClient.getTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      setAvailableTags([]);
+    }
+  }, []);
+
   const loadAllCategories = useCallback(async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Array<{ id: number; name: string; fullPath?: string }>;
-      // We need to ensure the categories have the fields required by CategoryPicker
-      const formattedCategories = categoriesData.map(c => ({ ...c, type: 0, parentId: null }));
-      setAllCategories(formattedCategories || []);
+      const categoriesData = await apiClient.getCategories();
+      setAllCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories for bulk assignment:', error);
       setAllCategories([]);
@@ -468,8 +505,9 @@ function TransactionsPageContent() {
       loadCategories();
       loadAccounts();
       loadAllCategories();
+      loadTags();
     }
-  }, [isAuthResolved, loadCategories, loadAccounts, loadAllCategories]);
+  }, [isAuthResolved, loadCategories, loadAccounts, loadAllCategories, loadTags]);
 
   // Check Akahu connection status for mobile overflow menu
   useEffect(() => {
@@ -497,7 +535,7 @@ function TransactionsPageContent() {
     toast.info(tToasts('syncStarting'));
     try {
       const accepted = await apiClient.syncAllConnections();
-      const status = await apiClient.waitForSyncJob(accepted.jobId, { signal: syncAbortRef.current.signal });
+      const status = await waitForSyncJob(accepted.jobId, { signal: syncAbortRef.current.signal });
       const successful = status.completedConnections - status.failedConnections;
 
       if (status.status === 'succeeded') {
@@ -555,6 +593,7 @@ function TransactionsPageContent() {
     const selectedIds = Array.from(selectedTransactionIds);
     let successCount = 0;
     let errorCount = 0;
+    let queuedCount = 0;
 
     try {
       // Update each transaction individually
@@ -587,6 +626,10 @@ function TransactionsPageContent() {
             successCount++;
           }
         } catch (err) {
+          if (isQueuedOffline(err)) {
+            queuedCount++;
+            continue;
+          }
           console.error(`Failed to update transaction ${transactionId}:`, err);
           errorCount++;
         }
@@ -596,6 +639,9 @@ function TransactionsPageContent() {
       if (successCount > 0) {
         toast.success(t('categoryAssigned', { count: successCount }));
       }
+      if (queuedCount > 0) {
+        toast.info(tToasts('transactionsQueuedOffline', { count: queuedCount }));
+      }
       if (errorCount > 0) {
         toast.error(t('failedToUpdate', { count: errorCount }));
       }
@@ -634,6 +680,7 @@ function TransactionsPageContent() {
     const selectedIds = Array.from(selectedTransactionIds);
     let successCount = 0;
     let errorCount = 0;
+    let queuedCount = 0;
 
     try {
       // Delete each transaction individually
@@ -642,6 +689,10 @@ function TransactionsPageContent() {
           await apiClient.deleteTransaction(transactionId);
           successCount++;
         } catch (err) {
+          if (isQueuedOffline(err)) {
+            queuedCount++;
+            continue;
+          }
           console.error(`Failed to delete transaction ${transactionId}:`, err);
           errorCount++;
         }
@@ -651,6 +702,9 @@ function TransactionsPageContent() {
       if (successCount > 0) {
         toast.success(t('deleted', { count: successCount }));
       }
+      if (queuedCount > 0) {
+        toast.info(tToasts('transactionsQueuedOffline', { count: queuedCount }));
+      }
       if (errorCount > 0) {
         toast.error(t('failedToDelete', { count: errorCount }));
       }
@@ -678,6 +732,10 @@ function TransactionsPageContent() {
         await fetchTransactions(currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection);
         toast.success(t('deletedSuccess'));
       } catch (error) {
+        if (isQueuedOffline(error)) {
+          toast.info(tToasts('transactionQueuedOffline'));
+          return;
+        }
         console.error('Failed to delete transaction:', error);
         toast.error(t('failedToDeleteTransaction'));
       } finally {
@@ -1036,6 +1094,43 @@ function TransactionsPageContent() {
                     </select>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-ink-700 mb-2">
+                      {tFilters('tag')}
+                    </label>
+                    <select
+                      className="select text-sm"
+                      value={selectedTag}
+                      onChange={(e) => setSelectedTag(e.target.value)}
+                    >
+                      <option value="">{tFilters('allTags')}</option>
+                      {/* Keep a tag from the URL selectable even before the list loads */}
+                      {selectedTag && !availableTags.some((tag) => tag.name === selectedTag) && (
+                        <option value={selectedTag}>{selectedTag}</option>
+                      )}
+                      {availableTags.map((tag) => (
+                        <option key={tag.name} value={tag.name}>
+                          {tag.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-ink-700 mb-2">
+                      {tFilters('attachments')}
+                    </label>
+                    <select
+                      className="select text-sm"
+                      value={attachmentFilter}
+                      onChange={(e) => setAttachmentFilter(e.target.value as 'all' | 'with' | 'without')}
+                    >
+                      <option value="all">{tFilters('allAttachments')}</option>
+                      <option value="with">{tFilters('withAttachments')}</option>
+                      <option value="without">{tFilters('withoutAttachments')}</option>
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-ink-700 mb-2">
                       {tFilters('transfers')}
@@ -1129,6 +1224,8 @@ function TransactionsPageContent() {
                     setTypeFilter('all');
                     setSelectedCategoryId('');
                     setSelectedAccountId('');
+                    setSelectedTag('');
+                    setAttachmentFilter('all');
                     setDateFilter('all');
                     setStartDate('');
                     setEndDate('');
@@ -1181,6 +1278,17 @@ function TransactionsPageContent() {
                         </div>
                       </div>
 
+                      {/* Bulk Tagging */}
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setShowBulkTagDialog(true)}
+                        className="flex items-center gap-1"
+                      >
+                        <HashtagIcon className="w-4 h-4" />
+                        {!isMobile && <span>{t('tagsLabel')}</span>}
+                      </Button>
+
                       {/* Bulk Delete Button */}
                       <Button
                         variant="secondary"
@@ -1199,6 +1307,13 @@ function TransactionsPageContent() {
           </Card>
         )}
 
+        {/* Writes queued while offline */}
+        <OfflineQueuePanel
+          onSynced={() => {
+            void fetchTransactions(currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection);
+          }}
+        />
+
         {/* Transaction List */}
         <Card className="rounded-[26px] border border-ink-200 bg-white/90 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
           {loading ? (
@@ -1500,8 +1615,14 @@ function TransactionsPageContent() {
                             </div>
                           )}
                           
-                          {/* Transaction Icon - Desktop Only */}
-                          {!isMobile && (
+                          {/* Transaction Icon (receipt thumbnail when attached) - Desktop Only */}
+                          {!isMobile && transaction.thumbnailAttachmentId ? (
+                            <AttachmentThumbnail
+                              attachmentId={transaction.thumbnailAttachmentId}
+                              alt={t('attachmentThumbnail')}
+                              className="w-12 h-12 rounded-xl shadow-sm"
+                            />
+                          ) : !isMobile && (
                             <div className={cn(
                               'w-12 h-12 rounded-xl flex items-center justify-center shadow-sm',
                               isTransfer(transaction)
@@ -1534,6 +1655,7 @@ function TransactionsPageContent() {
                                       {tCommon('transfer')}
                                     </span>
                                   )}
+                                  <PendingSyncBadge entry={entriesByTransactionId.get(transaction.id)} />
                                 </div>
                                 
                                 {isMobile ? (
@@ -1572,6 +1694,20 @@ function TransactionsPageContent() {
                                         {transaction.accountName}
                                       </span>
                                     )}
+
+                                    {!!transaction.attachmentCount && (
+                                      <span
+                                        className="flex items-center gap-0.5"
+                                        title={t('attachmentCount', { count: transaction.attachmentCount })}
+                                      >
+                                        <PaperClipIcon className="w-3 h-3" />
+                                        {transaction.attachmentCount}
+                                      </span>
+                                    )}
+
+                                    {parseTags(transaction.tags).map((tag) => (
+                                      <TagChip key={tag} name={tag} tags={availableTags} />
+                                    ))}
                                   </div>
                                 )}
                               </div>
@@ -1775,6 +1911,22 @@ function TransactionsPageContent() {
         onClose={() => setShowTransfersModal(false)}
         onRefresh={() => fetchTransactions(currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection)}
       />
+
+      <BulkTagDialog
+        isOpen={showBulkTagDialog}
+        onClose={() => setShowBulkTagDialog(false)}
+        transactionIds={Array.from(selectedTransactionIds)}
+        availableTags={availableTags}
+        onApplied={async () => {
+          setShowBulkTagDialog(false);
+          setSelectedTransactionIds(new Set());
+          setIsSelectionMode(false);
+          await Promise.all([
+            fetchTransactions(currentPage, searchTerm, transferFilter, selectedCategoryId, selectedAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, sortBy, sortDirection),
+            loadTags(),
+          ]);
+        }}
+      />
     </AppLayout>
   );
 }
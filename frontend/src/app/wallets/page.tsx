@@ -18,6 +18,7 @@ import {
   UpdateWalletRequest,
 } from '@/lib/api-client';
 import { formatCurrency, cn } from '@/lib/utils';
+import { withCurrencies } from '@/lib/currencies';
 import { WALLET_ICONS, WalletIcon, DEFAULT_WALLET_ICON_ID } from '@/lib/wallet-icons';
 import { toast } from 'sonner';
 import {
@@ -36,11 +37,6 @@ const WALLET_COLORS = [
   '#65a30d', '#ea580c', '#6d28d9', '#0d9488',
 ];
 
-const CURRENCIES = [
-  'NZD', 'USD', 'EUR', 'BRL', 'GBP', 'AUD',
-  'CAD', 'JPY', 'ARS', 'CLP', 'COP', 'MXN',
-];
-
 const DEFAULT_COLOR = '#7c3aed';
 
 interface WalletFormData {
@@ -473,7 +469,7 @@ export default function WalletsPage() {
               onChange={(e) => setFormData((prev) => ({ ...prev, currency: e.target.value }))}
               className="mt-1.5"
             >
-              {CURRENCIES.map((cur) => (
+              {withCurrencies(formData.currency).map((cur) => (
                 <option key={cur} value={cur}>
                   {cur}
                 </option>
@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { ChevronDownIcon, ChevronRightIcon, HashtagIcon } from '@heroicons/react/24/outline';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { TagChip } from '@/components/tags/tag-chip';
+import { apiClient } from '@/lib/api-client';
+import { tagColor } from '@/lib/tags/tags';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { TagSpendingReport } from '@/types/tags';
+
+interface TagSpendingReportProps {
+  /** Inclusive range, `YYYY-MM-DD`. */
+  startDate: string;
+  endDate: string;
+  className?: string;
+}
+
+export function TagSpendingReportPanel({ startDate, endDate, className }: TagSpendingReportProps) {
+  const t = useTranslations('analytics.tagSpending');
+  const [report, setReport] = useState<TagSpendingReport | null>(null);
+  // The range the last response (or failure) belongs to; anything else is still loading
+  const [loadedRange, setLoadedRange] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const range = `${startDate}|${endDate}`;
+  const loading = loadedRange !== range;
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient
+      .getTagSpending(startDate, endDate)
+      .then((data) => {
+        if (!cancelled) setReport(data);
+      })
+      .catch((error) => console.error('Failed to load tag spending:', error))
+      .finally(() => {
+        if (!cancelled) setLoadedRange(`${startDate}|${endDate}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate]);
+
+  const tags = report?.tags ?? [];
+
+  return (
+    <section className={cn(className, loading && report && 'opacity-60 transition-opacity duration-200')}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="font-[var(--font-dash-sans)] text-lg font-semibold text-ink-900">{t('title')}</h2>
+          <p className="mt-0.5 text-xs text-ink-500">{t('overlapNote')}</p>
+        </div>
+        <HashtagIcon className="h-5 w-5 text-ink-400" />
+      </div>
+
+      {loading && !report ? (
+        <div className="mt-4 space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-12 animate-pulse rounded-xl bg-ink-100" />
+          ))}
+        </div>
+      ) : tags.length === 0 ? (
+        <div className="mt-4 flex h-32 items-center justify-center rounded-2xl border border-dashed border-ink-200 bg-primary-50/30 text-ink-500">
+          <p className="text-sm font-medium">{t('empty')}</p>
+        </div>
+      ) : (
+        <ul className="mt-4 divide-y divide-ink-100 rounded-2xl border border-ink-200">
+          {tags.map((tag) => {
+            const isOpen = expanded === tag.name;
+            const color = tag.color ?? tagColor(tag.name);
+            const months = tag.months.map((month) => ({
+              label: new Date(month.year, month.month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+              amount: month.amount,
+            }));
+
+            return (
+              <li key={tag.name}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-3 px-4 py-3 text-left hover:bg-ink-50/60"
+                  onClick={() => setExpanded(isOpen ? null : tag.name)}
+                  aria-expanded={isOpen}
+                >
+                  {isOpen ? (
+                    <ChevronDownIcon className="h-4 w-4 shrink-0 text-ink-400" />
+                  ) : (
+                    <ChevronRightIcon className="h-4 w-4 shrink-0 text-ink-400" />
+                  )}
+                  <TagChip name={tag.name} color={color} />
+                  <span className="text-xs text-ink-500">{t('transactions', { count: tag.transactionCount })}</span>
+                  <span className="ml-auto text-right">
+                    <span className="block font-[var(--font-dash-mono)] text-sm font-semibold text-ink-900">
+                      {formatCurrency(tag.totalSpent)}
+                    </span>
+                    {tag.totalIncome > 0 && (
+                      <span className="block font-[var(--font-dash-mono)] text-xs text-emerald-600">
+                        {t('income', { amount: formatCurrency(tag.totalIncome) })}
+                      </span>
+                    )}
+                  </span>
+                </button>
+
+                {isOpen && (
+                  <div className="grid gap-4 border-t border-ink-100 bg-ink-50/40 px-4 py-4 md:grid-cols-2">
+                    <div>
+                      <h3 className="mb-2 text-xs font-semibold uppercase tracking-[0.08em] text-ink-500">
+                        {t('byCategory')}
+                      </h3>
+                      <ul className="space-y-1.5">
+                        {tag.categories.map((category) => (
+                          <li key={category.categoryId ?? 'uncategorized'} className="flex items-center gap-2 text-sm">
+                            <span
+                              className="h-2.5 w-2.5 shrink-0 rounded-full"
+                              style={{ backgroundColor: category.categoryColor ?? '#94a3b8' }}
+                            />
+                            <span className="min-w-0 flex-1 truncate text-ink-700">
+                              {category.categoryId ? category.categoryName : t('uncategorized')}
+                            </span>
+                            <span className="font-[var(--font-dash-mono)] text-ink-900">
+                              {formatCurrency(category.amount)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div>
+                      <h3 className="mb-2 text-xs font-semibold uppercase tracking-[0.08em] text-ink-500">
+                        {t('byMonth')}
+                      </h3>
+                      <div className="h-36">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={months} margin={{ top: 4, right: 4, left: 4, bottom: 0 }}>
+                            <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#64748b' }} tickLine={false} axisLine={false} />
+                            <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                            <Bar dataKey="amount" fill={color} name={t('spent')} radius={[5, 5, 0, 0]} />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
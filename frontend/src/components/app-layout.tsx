@@ -3,6 +3,7 @@
 import Navigation from '@/components/navigation';
 import { DashboardBackground } from '@/components/dashboard/dashboard-background';
 import { NotificationBell } from '@/components/notifications/notification-bell';
+import { useConnectionRecovery } from '@/hooks/use-connection-recovery';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -13,6 +14,8 @@ interface AppLayoutProps {
 }
 
 export function AppLayout({ children, mainClassName, noBackground }: AppLayoutProps) {
+  useConnectionRecovery();
+
   return (
     <div className="flex flex-col lg:flex-row min-h-dvh bg-surface-alt">
       <Navigation />
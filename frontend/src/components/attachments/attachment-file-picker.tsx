@@ -0,0 +1,82 @@
+'use client';
+
+import { useRef } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { PaperClipIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachmentFile } from '@/lib/attachments/attachments';
+
+interface AttachmentFilePickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Collects files for a transaction that does not exist yet; the caller uploads
+ * them once the transaction has been created.
+ */
+export function AttachmentFilePicker({ files, onChange, disabled }: AttachmentFilePickerProps) {
+  const t = useTranslations('attachments');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (selected: FileList | null) => {
+    if (!selected) return;
+    const accepted: File[] = [];
+    for (const file of Array.from(selected)) {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        toast.error(t(`errors.${error}`, { name: file.name }));
+      } else {
+        accepted.push(file);
+      }
+    }
+    onChange([...files, ...accepted]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div>
+      {files.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-2 rounded-lg border border-ink-200 px-2 py-1 text-sm"
+            >
+              <PaperClipIcon className="w-4 h-4 shrink-0 text-ink-400" />
+              <span className="min-w-0 flex-1 truncate text-ink-800">{file.name}</span>
+              <span className="shrink-0 text-xs text-ink-500">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="text-ink-400 hover:text-ink-600"
+                aria-label={t('remove')}
+                disabled={disabled}
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="inline-flex items-center gap-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        disabled={disabled}
+      >
+        <PaperClipIcon className="w-4 h-4" />
+        {t('add')}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={(e) => handleSelect(e.target.files)}
+      />
+    </div>
+  );
+}
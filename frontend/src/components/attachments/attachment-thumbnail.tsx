@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PhotoIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+
+interface AttachmentThumbnailProps {
+  attachmentId: number;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Attachment content needs the bearer token, so the image is fetched as a blob
+ * and shown through an object URL instead of a plain `src`.
+ */
+export function AttachmentThumbnail({ attachmentId, alt, className }: AttachmentThumbnailProps) {
+  const [loaded, setLoaded] = useState<{ id: number; url: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    apiClient
+      .getAttachmentContent(attachmentId)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setLoaded({ id: attachmentId, url: objectUrl });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ id: attachmentId, url: null });
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId]);
+
+  const url = loaded?.id === attachmentId ? loaded.url : null;
+  const loading = loaded?.id !== attachmentId;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex shrink-0 items-center justify-center overflow-hidden rounded-lg border border-ink-200 bg-ink-50',
+        loading && 'animate-pulse',
+        className
+      )}
+    >
+      {url ? (
+        // eslint-disable-next-line @next/next/no-img-element -- object URLs cannot go through next/image
+        <img src={url} alt={alt} className="h-full w-full object-cover" />
+      ) : (
+        !loading && <PhotoIcon className="h-1/2 w-1/2 text-ink-300" aria-hidden="true" />
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowUpTrayIcon, DocumentIcon, PaperClipIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { AttachmentThumbnail } from '@/components/attachments/attachment-thumbnail';
+import { apiClient } from '@/lib/api-client';
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachmentFile } from '@/lib/attachments/attachments';
+import type { TransactionAttachmentDto } from '@/types/attachments';
+
+interface TransactionAttachmentsProps {
+  transactionId: number;
+}
+
+export function TransactionAttachments({ transactionId }: TransactionAttachmentsProps) {
+  const t = useTranslations('attachments');
+  const tCommon = useTranslations('common');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [attachments, setAttachments] = useState<TransactionAttachmentDto[]>([]);
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<TransactionAttachmentDto | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await apiClient.getTransactionAttachments(transactionId));
+    } catch (err) {
+      console.error('Failed to load attachments:', err);
+      toast.error(t('loadFailed'));
+    } finally {
+      setLoadedFor(transactionId);
+    }
+  }, [transactionId, t]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+    for (const file of Array.from(files)) {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        toast.error(t(`errors.${error}`, { name: file.name }));
+        continue;
+      }
+      try {
+        const attachment = await apiClient.uploadTransactionAttachment(transactionId, file);
+        setAttachments((prev) => [...prev, attachment]);
+        uploaded++;
+      } catch (err) {
+        console.error('Failed to upload attachment:', err);
+        toast.error(t('uploadFailed', { name: file.name }));
+      }
+    }
+    setUploading(false);
+    if (inputRef.current) inputRef.current.value = '';
+    if (uploaded > 0) toast.success(t('uploaded', { count: uploaded }));
+  };
+
+  const handleOpen = async (attachment: TransactionAttachmentDto) => {
+    try {
+      const blob = await apiClient.getAttachmentContent(attachment.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      // Give the new tab time to load the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      console.error('Failed to open attachment:', err);
+      toast.error(t('openFailed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      setDeleting(true);
+      await apiClient.deleteTransactionAttachment(pendingDelete.id);
+      setAttachments((prev) => prev.filter((a) => a.id !== pendingDelete.id));
+      toast.success(t('deleted'));
+    } catch (err) {
+      console.error('Failed to delete attachment:', err);
+      toast.error(t('deleteFailed'));
+    } finally {
+      setDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
+  const loading = loadedFor !== transactionId;
+
+  return (
+    <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h2 className="font-[var(--font-dash-sans)] flex items-center gap-2 text-base font-semibold text-ink-900">
+          <PaperClipIcon className="w-5 h-5 text-primary-600" />
+          {t('title')}
+        </h2>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          {uploading ? t('uploading') : t('upload')}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-ink-500">{tCommon('loading')}</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-ink-500">{t('empty')}</p>
+      ) : (
+        <ul className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-3 rounded-xl border border-ink-200 bg-white p-2"
+            >
+              <button
+                type="button"
+                onClick={() => handleOpen(attachment)}
+                className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                title={t('open')}
+              >
+                {attachment.isImage ? (
+                  <AttachmentThumbnail attachmentId={attachment.id} alt={attachment.fileName} className="h-12 w-12" />
+                ) : (
+                  <span className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg border border-ink-200 bg-ink-50">
+                    <DocumentIcon className="h-6 w-6 text-ink-400" />
+                  </span>
+                )}
+                <span className="min-w-0">
+                  <span className="block truncate text-sm font-medium text-ink-800">{attachment.fileName}</span>
+                  <span className="block text-xs text-ink-500">{formatFileSize(attachment.sizeBytes)}</span>
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setPendingDelete(attachment)}
+                className="rounded-lg p-1.5 text-ink-400 hover:bg-red-50 hover:text-red-600"
+                aria-label={t('delete')}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 text-xs text-ink-400">{t('hint')}</p>
+
+      <ConfirmationDialog
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleDelete}
+        title={t('delete')}
+        description={t('deleteConfirm', { name: pendingDelete?.fileName ?? '' })}
+        confirmText={deleting ? tCommon('loading') : tCommon('delete')}
+        variant="danger"
+      />
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { BankConnection } from '@/types/bank-connections';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,7 +11,8 @@ import {
   ArrowPathIcon,
   TrashIcon,
   LinkIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ChartBarIcon
 } from '@heroicons/react/24/outline';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { toast } from 'sonner';
@@ -92,6 +94,7 @@ export function BankConnectionCard({
                   lastSyncAt={connection.lastSyncAt}
                   lastSyncError={connection.lastSyncError}
                   isSyncing={isSyncing}
+                  connectionId={connection.id}
                 />
               </div>
 
@@ -118,6 +121,13 @@ export function BankConnectionCard({
                   {isSyncing ? t('syncing') : t('syncNow')}
                 </Button>
 
+                <Link href={`/settings/bank-connections/${connection.id}`}>
+                  <Button variant="ghost" size="sm" className="flex items-center gap-1.5">
+                    <ChartBarIcon className="w-4 h-4" />
+                    {t('syncHistory')}
+                  </Button>
+                </Link>
+
                 <Button
                   variant="ghost"
                   size="sm"
@@ -11,19 +11,10 @@ import {
   CurrencyDollarIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '@/lib/api-client';
+import type { AccountWithBalanceDto } from '@/types/accounts';
 import { formatCurrency } from '@/lib/utils';
 import { useTranslations } from 'next-intl';
 
-interface Account {
-  id: number;
-  name: string;
-  type: number;
-  institution?: string;
-  currentBalance: number;
-  currency: string;
-  isActive: boolean;
-}
-
 interface LinkAccountDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -40,7 +31,7 @@ export function LinkAccountDialog({
   const t = useTranslations('bankConnections');
   const [step, setStep] = useState<'select-akahu' | 'select-local'>('select-akahu');
   const [selectedAkahu, setSelectedAkahu] = useState<AkahuAccount | null>(null);
-  const [localAccounts, setLocalAccounts] = useState<Account[]>([]);
+  const [localAccounts, setLocalAccounts] = useState<AccountWithBalanceDto[]>([]);
   const [loadingAccounts, setLoadingAccounts] = useState(false);
   const [isLinking, setIsLinking] = useState(false);
 
@@ -61,9 +52,9 @@ export function LinkAccountDialog({
   const loadLocalAccounts = async () => {
     setLoadingAccounts(true);
     try {
-      const accounts = await apiClient.getAccountsWithBalances() as Account[];
+      const accounts = await apiClient.getAccountsWithBalances();
       // Filter to active accounts without existing bank connections
-      setLocalAccounts(accounts.filter((a: Account) => a.isActive));
+      setLocalAccounts(accounts.filter((a) => a.isActive));
     } catch (error) {
       console.error('Failed to load accounts:', error);
     } finally {
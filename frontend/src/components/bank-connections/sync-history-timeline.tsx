@@ -0,0 +1,115 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  failedTransactionCount,
+  formatSyncDuration,
+  formatSyncRange,
+  parseSyncLogRange,
+  SyncDateRange,
+  syncDurationMs,
+} from '@/lib/bank-connections/sync-diagnostics';
+import type { BankSyncLog } from '@/types/bank-connections';
+
+interface SyncHistoryTimelineProps {
+  logs: BankSyncLog[];
+  onRetryRange: (range: SyncDateRange) => void;
+  retryDisabled?: boolean;
+}
+
+const statusStyles: Record<string, { icon: typeof CheckCircleIcon; className: string }> = {
+  Completed: { icon: CheckCircleIcon, className: 'text-emerald-600 bg-emerald-50 border-emerald-200' },
+  PartialSuccess: { icon: ExclamationTriangleIcon, className: 'text-amber-600 bg-amber-50 border-amber-200' },
+  Failed: { icon: ExclamationCircleIcon, className: 'text-red-600 bg-red-50 border-red-200' },
+  InProgress: { icon: ArrowPathIcon, className: 'text-blue-600 bg-blue-50 border-blue-200' },
+};
+
+export function SyncHistoryTimeline({ logs, onRetryRange, retryDisabled = false }: SyncHistoryTimelineProps) {
+  const t = useTranslations('settings.bankConnections.detail');
+
+  if (logs.length === 0) {
+    return <p className="py-6 text-center text-sm text-ink-500">{t('noHistory')}</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-ink-200 pl-6">
+      {logs.map((log) => {
+        const style = statusStyles[log.status] ?? statusStyles.InProgress;
+        const StatusIcon = style.icon;
+        const range = parseSyncLogRange(log);
+        const duration = syncDurationMs(log);
+        const failed = failedTransactionCount(log);
+
+        return (
+          <li key={log.id} className="relative">
+            <span
+              className={cn(
+                'absolute -left-[35px] top-0.5 flex h-6 w-6 items-center justify-center rounded-full border',
+                style.className
+              )}
+            >
+              <StatusIcon className={cn('h-3.5 w-3.5', log.status === 'InProgress' && 'animate-spin')} />
+            </span>
+
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold text-ink-900">
+                  {new Date(log.startedAt).toLocaleString()}
+                  <span className="ml-2 text-xs font-normal text-ink-500">
+                    {t(`status.${log.status}`)} · {t(`syncType.${log.syncType}`)}
+                  </span>
+                </p>
+                <p className="mt-0.5 text-xs text-ink-500">
+                  {range ? t('rangeFetched', { range: formatSyncRange(range) }) : t('rangeUnknown')}
+                  {duration !== null && <> · {t('duration', { duration: formatSyncDuration(duration) })}</>}
+                </p>
+              </div>
+
+              {log.status === 'Failed' && range && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRetryRange(range)}
+                  disabled={retryDisabled}
+                  className="flex items-center gap-1.5"
+                >
+                  <ArrowPathIcon className="h-4 w-4" />
+                  {t('retryRange')}
+                </Button>
+              )}
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-2 text-xs">
+              <span className="rounded-full bg-ink-100 px-2 py-0.5 text-ink-700">
+                {t('counts.processed', { count: log.transactionsProcessed })}
+              </span>
+              <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700">
+                {t('counts.imported', { count: log.transactionsImported })}
+              </span>
+              <span className="rounded-full bg-ink-100 px-2 py-0.5 text-ink-600">
+                {t('counts.skipped', { count: log.transactionsSkipped })}
+              </span>
+              {failed > 0 && (
+                <span className="rounded-full bg-red-50 px-2 py-0.5 text-red-700">
+                  {t('counts.failed', { count: failed })}
+                </span>
+              )}
+            </div>
+
+            {log.errorMessage && (
+              <p className="mt-2 rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">{log.errorMessage}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
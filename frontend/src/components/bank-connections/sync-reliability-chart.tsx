@@ -0,0 +1,34 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useTranslations } from 'next-intl';
+import type { DailySyncReliability } from '@/lib/bank-connections/sync-diagnostics';
+
+interface SyncReliabilityChartProps {
+  days: DailySyncReliability[];
+}
+
+export function SyncReliabilityChart({ days }: SyncReliabilityChartProps) {
+  const t = useTranslations('settings.bankConnections.detail');
+  const data = days.map((day) => ({
+    ...day,
+    label: new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+
+  return (
+    <div className="h-56 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} interval="preserveStartEnd" minTickGap={16} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+          <Tooltip />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="succeeded" name={t('status.Completed')} stackId="runs" fill="#10B981" />
+          <Bar dataKey="partial" name={t('status.PartialSuccess')} stackId="runs" fill="#F59E0B" />
+          <Bar dataKey="failed" name={t('status.Failed')} stackId="runs" fill="#EF4444" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
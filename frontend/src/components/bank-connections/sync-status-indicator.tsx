@@ -1,23 +1,36 @@
 'use client';
 
+import { useState } from 'react';
 import { CheckCircleIcon, ExclamationCircleIcon, ArrowPathIcon, ClockIcon } from '@heroicons/react/24/outline';
 import { formatDistanceToNow } from 'date-fns';
 import { useTranslations } from 'next-intl';
+import { useRealtimeEvent } from '@/contexts/realtime-context';
+import type { BankSyncJobStatus } from '@/types/bank-connections';
 
 interface SyncStatusIndicatorProps {
   isActive: boolean;
   lastSyncAt?: string;
   lastSyncError?: string;
   isSyncing?: boolean;
+  /** When set, sync jobs streamed for this connection show as they run, wherever they were started. */
+  connectionId?: number;
 }
 
 export function SyncStatusIndicator({
   isActive,
   lastSyncAt,
   lastSyncError,
-  isSyncing = false
+  isSyncing = false,
+  connectionId
 }: SyncStatusIndicatorProps) {
   const t = useTranslations('bankConnections');
+  const [liveJob, setLiveJob] = useState<BankSyncJobStatus | null>(null);
+
+  useRealtimeEvent('bankSync.job', (job) => {
+    if (connectionId === undefined || !job.connectionIds.includes(connectionId)) return;
+    setLiveJob(job.status === 'queued' || job.status === 'processing' ? job : null);
+  });
+
   if (!isActive) {
     return (
       <div className="flex items-center gap-1.5 text-ink-500">
@@ -27,11 +40,15 @@ export function SyncStatusIndicator({
     );
   }
 
-  if (isSyncing) {
+  if (isSyncing || liveJob) {
     return (
       <div className="flex items-center gap-1.5 text-blue-600">
         <ArrowPathIcon className="w-4 h-4 animate-spin" />
-        <span className="text-sm">{t('syncing')}</span>
+        <span className="text-sm">
+          {liveJob && liveJob.transactionsImported > 0
+            ? t('syncingProgress', { count: liveJob.transactionsImported })
+            : t('syncing')}
+        </span>
       </div>
     );
   }
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { ArrowRightIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import { BudgetPeriodClose, formatCurrency } from '@/types/budget';
+
+interface MonthCloseHistoryProps {
+  budgetId: number;
+}
+
+/** Month closes that closed this budget or opened it as the next period. */
+export function MonthCloseHistory({ budgetId }: MonthCloseHistoryProps) {
+  const t = useTranslations('budgets.monthClose');
+  const [closes, setCloses] = useState<BudgetPeriodClose[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient
+      .getBudgetPeriodCloses(budgetId)
+      .then((data) => {
+        if (!cancelled) setCloses(data || []);
+      })
+      .catch((error) => {
+        console.error('Failed to load month close history:', error);
+        if (!cancelled) setCloses([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [budgetId]);
+
+  if (closes.length === 0) return null;
+
+  return (
+    <section className="rounded-[28px] border border-ink-200 bg-white/92 p-6 shadow-[0_20px_42px_-30px_rgba(47,129,112,0.20)]">
+      <h2 className="text-2xl font-semibold tracking-[-0.02em] text-ink-900">{t('history.title')}</h2>
+      <p className="mt-1 text-sm text-ink-500">{t('history.subtitle')}</p>
+
+      <div className="mt-4 space-y-3">
+        {closes.map((close) => {
+          const closedThisBudget = close.sourceBudgetId === budgetId;
+
+          return (
+            <article key={close.id} className="rounded-xl border border-ink-200 bg-white p-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-ink-900">
+                    {closedThisBudget
+                      ? t('history.closedOn', { date: new Date(close.closedAt).toLocaleDateString() })
+                      : t('history.openedFrom', { name: close.sourceBudgetName, date: new Date(close.closedAt).toLocaleDateString() })}
+                  </p>
+                  <p className="text-xs text-ink-500">{t('history.carriedTotal', { amount: formatCurrency(close.totalCarried) })}</p>
+                </div>
+                {closedThisBudget && close.newBudgetId ? (
+                  <Link
+                    href={`/budgets/${close.newBudgetId}`}
+                    className="inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:text-primary-700"
+                  >
+                    {t('viewNextPeriod')}
+                    <ArrowRightIcon className="h-3.5 w-3.5" />
+                  </Link>
+                ) : !closedThisBudget ? (
+                  <Link
+                    href={`/budgets/${close.sourceBudgetId}`}
+                    className="inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:text-primary-700"
+                  >
+                    {t('history.viewPreviousPeriod')}
+                    <ArrowRightIcon className="h-3.5 w-3.5" />
+                  </Link>
+                ) : null}
+              </div>
+
+              {close.categories.length > 0 && (
+                <ul className="mt-3 divide-y divide-ink-100 text-sm">
+                  {close.categories.map((category) => (
+                    <li key={category.categoryId} className="flex items-center justify-between gap-3 py-1.5">
+                      <span className="text-ink-700">
+                        {category.categoryName}
+                        <span className="ml-2 text-xs text-ink-400">{t(`reasons.${category.reason}`)}</span>
+                      </span>
+                      <span className="text-right">
+                        <span
+                          className={cn(
+                            'font-[var(--font-dash-mono)] font-medium',
+                            category.carriedAmount >= 0 ? 'text-emerald-600' : 'text-rose-600'
+                          )}
+                        >
+                          {formatCurrency(category.carriedAmount)}
+                        </span>
+                        {category.overridden && (
+                          <span className="block text-[11px] text-ink-400">
+                            {t('history.overriddenFrom', { amount: formatCurrency(category.calculatedAmount) })}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
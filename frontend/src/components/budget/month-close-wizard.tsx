@@ -0,0 +1,358 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowPathIcon, ArrowRightIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { BaseModal } from '@/components/modals/base-modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiClient } from '@/lib/api-client';
+import {
+  describeCategoryRollover,
+  RolloverOverrides,
+  RolloverReason,
+  rolloverOverride,
+  rolloverOverridesToApply,
+  totalCarried,
+} from '@/lib/budget/month-close';
+import { cn } from '@/lib/utils';
+import type { BudgetRolloverResult } from '@/types/budget';
+import { formatCurrency } from '@/types/budget';
+
+type WizardStep = 'review' | 'confirm' | 'done';
+
+interface MonthCloseWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after the rollovers were committed, so the page can reload its budgets. */
+  onClosed: () => void;
+}
+
+const REASON_STYLES: Record<RolloverReason, string> = {
+  surplus: 'border-emerald-200 bg-emerald-50 text-emerald-700',
+  overspendCarried: 'border-rose-200 bg-rose-50 text-rose-700',
+  overspendCapped: 'border-amber-200 bg-amber-50 text-amber-700',
+  notRecurring: 'border-ink-200 bg-ink-100 text-ink-600',
+};
+
+function formatPeriod(startDate: string, endDate: string) {
+  const format = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${format(startDate)} — ${format(endDate)}`;
+}
+
+export function MonthCloseWizard({ isOpen, onClose, onClosed }: MonthCloseWizardProps) {
+  const t = useTranslations('budgets.monthClose');
+  const tCommon = useTranslations('common');
+  const [step, setStep] = useState<WizardStep>('review');
+  const [preview, setPreview] = useState<BudgetRolloverResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  // Raw input per `${budgetId}:${categoryId}` so a half-typed amount isn't reset
+  const [overrideInputs, setOverrideInputs] = useState<Record<string, string>>({});
+  const [closeResult, setCloseResult] = useState<BudgetRolloverResult | null>(null);
+
+  const loadPreview = async () => {
+    try {
+      setLoading(true);
+      setPreview(await apiClient.processBudgetRollovers(true));
+    } catch (error) {
+      console.error('Failed to preview budget rollovers:', error);
+      toast.error(t('errors.previewFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('review');
+    setOverrideInputs({});
+    setCloseResult(null);
+    loadPreview();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const overrides = useMemo(() => {
+    const parsed: RolloverOverrides = {};
+    for (const [key, value] of Object.entries(overrideInputs)) {
+      const [budgetId, categoryId] = key.split(':').map(Number);
+      const amount = Number(value);
+      if (value.trim() === '' || !Number.isFinite(amount)) continue;
+      parsed[budgetId] = { ...parsed[budgetId], [categoryId]: amount };
+    }
+    return parsed;
+  }, [overrideInputs]);
+
+  const budgets = useMemo(
+    () =>
+      (preview?.processedBudgets ?? []).map((budget) => ({
+        budget,
+        categories: budget.categoryRollovers.map((category) => describeCategoryRollover(budget, category)),
+      })),
+    [preview]
+  );
+
+  const totals = useMemo(() => {
+    let carried = 0;
+    let overridden = 0;
+    for (const { budget, categories } of budgets) {
+      for (const category of categories) {
+        const override = budget.isRecurring ? rolloverOverride(overrides, budget.sourceBudgetId, category) : undefined;
+        carried += override ?? category.carriedAmount;
+        if (override !== undefined) overridden++;
+      }
+    }
+    return {
+      carried,
+      overridden,
+      newPeriods: budgets.filter(({ budget }) => budget.isRecurring).length,
+    };
+  }, [budgets, overrides]);
+
+  const setOverrideInput = (budgetId: number, categoryId: number, value: string | null) => {
+    setOverrideInputs((previous) => {
+      const next = { ...previous };
+      if (value === null) {
+        delete next[`${budgetId}:${categoryId}`];
+      } else {
+        next[`${budgetId}:${categoryId}`] = value;
+      }
+      return next;
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!preview) return;
+    try {
+      setCommitting(true);
+      // Overrides go with the rollover so the new periods open with them in the same transaction
+      const result = await apiClient.processBudgetRollovers(false, rolloverOverridesToApply(preview, overrides));
+
+      setCloseResult(result);
+      setStep('done');
+      onClosed();
+      toast.success(t('closed', { count: result.totalBudgetsProcessed }));
+    } catch (error) {
+      console.error('Failed to process budget rollovers:', error);
+      toast.error(t('errors.commitFailed'));
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const renderReview = () => {
+    if (loading && !preview) {
+      return (
+        <div className="space-y-3">
+          {[1, 2].map((item) => (
+            <div key={item} className="h-28 animate-pulse rounded-2xl border border-ink-200 bg-ink-50" />
+          ))}
+        </div>
+      );
+    }
+
+    if (budgets.length === 0) {
+      return (
+        <div className="rounded-2xl border border-ink-200 bg-primary-50/40 p-6 text-center">
+          <CheckCircleIcon className="mx-auto h-8 w-8 text-emerald-500" />
+          <p className="mt-2 font-medium text-ink-900">{t('nothingToClose')}</p>
+          <p className="mt-1 text-sm text-ink-500">{t('nothingToCloseHint')}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-ink-500">{t('reviewHint')}</p>
+        {budgets.map(({ budget, categories }) => (
+          <section key={budget.sourceBudgetId} className="rounded-2xl border border-ink-200 bg-white p-4">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <h4 className="font-semibold text-ink-900">{budget.sourceBudgetName}</h4>
+                <p className="text-xs text-ink-500">{formatPeriod(budget.periodStartDate, budget.periodEndDate)}</p>
+              </div>
+              <span className="text-xs font-medium text-ink-500">
+                {budget.isRecurring ? t('opensNextPeriod') : t('endsWithoutNextPeriod')}
+              </span>
+            </div>
+
+            {categories.length === 0 ? (
+              <p className="mt-3 text-sm text-ink-500">{t('noRolloverCategories')}</p>
+            ) : (
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[11px] font-semibold uppercase tracking-[0.08em] text-ink-400">
+                      <th className="py-1.5 pr-3 font-semibold">{t('columns.category')}</th>
+                      <th className="py-1.5 px-3 text-right font-semibold">{t('columns.budgeted')}</th>
+                      <th className="py-1.5 px-3 text-right font-semibold">{t('columns.spent')}</th>
+                      <th className="py-1.5 px-3 text-right font-semibold">{t('columns.remaining')}</th>
+                      <th className="py-1.5 px-3 text-right font-semibold">{t('columns.carried')}</th>
+                      <th className="py-1.5 pl-3 font-semibold">{t('columns.reason')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-ink-100">
+                    {categories.map((category) => {
+                      const override = rolloverOverride(overrides, budget.sourceBudgetId, category);
+                      return (
+                        <tr key={category.categoryId}>
+                          <td className="py-2 pr-3 font-medium text-ink-900">{category.categoryName}</td>
+                          <td className="py-2 px-3 text-right font-[var(--font-dash-mono)] text-ink-600">
+                            {formatCurrency(category.budgetedAmount)}
+                          </td>
+                          <td className="py-2 px-3 text-right font-[var(--font-dash-mono)] text-ink-600">
+                            {formatCurrency(category.actualSpent)}
+                          </td>
+                          <td
+                            className={cn(
+                              'py-2 px-3 text-right font-[var(--font-dash-mono)]',
+                              category.remainingAmount >= 0 ? 'text-emerald-600' : 'text-rose-600'
+                            )}
+                          >
+                            {formatCurrency(category.remainingAmount)}
+                          </td>
+                          <td className="py-2 px-3 text-right">
+                            {budget.isRecurring ? (
+                              <div className="flex items-center justify-end gap-1.5">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  inputMode="decimal"
+                                  aria-label={t('overrideLabel', { category: category.categoryName })}
+                                  value={overrideInputs[`${budget.sourceBudgetId}:${category.categoryId}`] ?? category.carriedAmount.toFixed(2)}
+                                  onChange={(e) => setOverrideInput(budget.sourceBudgetId, category.categoryId, e.target.value)}
+                                  className={cn('h-8 w-28 text-right font-[var(--font-dash-mono)]', override !== undefined && 'border-primary-400 bg-primary-50')}
+                                />
+                                {override !== undefined && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setOverrideInput(budget.sourceBudgetId, category.categoryId, null)}
+                                    title={t('resetOverride', { amount: formatCurrency(category.carriedAmount) })}
+                                    aria-label={t('resetOverride', { amount: formatCurrency(category.carriedAmount) })}
+                                    className="text-ink-400 hover:text-ink-700"
+                                  >
+                                    <ArrowPathIcon className="h-4 w-4" />
+                                  </button>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="font-[var(--font-dash-mono)] text-ink-400">{formatCurrency(0)}</span>
+                            )}
+                          </td>
+                          <td className="py-2 pl-3">
+                            <span className={cn('inline-flex rounded-full border px-2 py-0.5 text-[11px] font-semibold', REASON_STYLES[category.reason])}>
+                              {t(`reasons.${category.reason}`)}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        ))}
+        <p className="text-xs text-ink-400">{t('rolloverOnlyHint')}</p>
+      </div>
+    );
+  };
+
+  const renderConfirm = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {[
+          { label: t('summary.budgets'), value: String(budgets.length) },
+          { label: t('summary.newPeriods'), value: String(totals.newPeriods) },
+          { label: t('summary.carried'), value: formatCurrency(totals.carried) },
+          { label: t('summary.overrides'), value: String(totals.overridden) },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-xl bg-ink-50 p-3 text-center">
+            <p className="font-[var(--font-dash-mono)] text-lg font-semibold text-ink-900">{stat.value}</p>
+            <p className="mt-0.5 text-xs text-ink-500">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-ink-600">{t('confirmHint')}</p>
+    </div>
+  );
+
+  const renderDone = () => (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 rounded-xl bg-emerald-50 p-3 text-sm text-emerald-800">
+        <CheckCircleIcon className="h-5 w-5 shrink-0" />
+        {t('doneSummary', {
+          count: closeResult?.processedBudgets.length ?? 0,
+          amount: formatCurrency(closeResult ? totalCarried(closeResult) : 0),
+        })}
+      </div>
+      <ul className="space-y-2">
+        {closeResult?.processedBudgets.map((budget) => (
+          <li key={budget.sourceBudgetId} className="flex items-center justify-between gap-3 rounded-xl border border-ink-200 p-3 text-sm">
+            <span className="text-ink-700">{budget.sourceBudgetName}</span>
+            {budget.newBudgetId ? (
+              <Link
+                href={`/budgets/${budget.newBudgetId}`}
+                className="inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:text-primary-700"
+              >
+                {t('viewNextPeriod')}
+                <ArrowRightIcon className="h-3.5 w-3.5" />
+              </Link>
+            ) : (
+              <span className="text-xs text-ink-500">{t('completed')}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={committing ? () => undefined : onClose} title={t('title')} size="xl">
+      <div className="space-y-5">
+        <ol className="flex items-center gap-2 text-xs font-medium">
+          {(['review', 'confirm', 'done'] as WizardStep[]).map((item, index) => (
+            <li
+              key={item}
+              className={cn(
+                'rounded-full px-2.5 py-1',
+                step === item ? 'bg-primary-100 text-primary-700' : 'bg-ink-100 text-ink-500'
+              )}
+            >
+              {index + 1}. {t(`steps.${item}`)}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'review' && renderReview()}
+        {step === 'confirm' && renderConfirm()}
+        {step === 'done' && renderDone()}
+
+        <div className="flex justify-end gap-2 border-t border-ink-100 pt-4">
+          {step === 'review' && (
+            <>
+              <Button variant="secondary" onClick={onClose}>{tCommon('cancel')}</Button>
+              <Button onClick={() => setStep('confirm')} disabled={loading || budgets.length === 0}>
+                {t('continue')}
+              </Button>
+            </>
+          )}
+          {step === 'confirm' && (
+            <>
+              <Button variant="secondary" onClick={() => setStep('review')} disabled={committing}>
+                {tCommon('back')}
+              </Button>
+              <Button onClick={handleCommit} loading={committing} disabled={committing}>
+                {t('commit')}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={onClose}>{tCommon('close')}</Button>}
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
@@ -6,6 +6,7 @@ import { ArrowPathIcon } from '@heroicons/react/24/outline';
 import { apiClient } from '@/lib/api-client';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
+import { useRealtime } from '@/contexts/realtime-context';
 
 interface AkahuSyncButtonProps {
   onSyncComplete?: () => void;
@@ -17,6 +18,7 @@ export function AkahuSyncButton({
   className = ''
 }: AkahuSyncButtonProps) {
   const t = useTranslations('dashboard.akahuSync');
+  const { waitForSyncJob } = useRealtime();
   const [hasAkahuConnection, setHasAkahuConnection] = useState<boolean | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const syncAbortRef = useRef<AbortController | null>(null);
@@ -49,7 +51,7 @@ export function AkahuSyncButton({
     toast.info(t('syncStarting'));
     try {
       const accepted = await apiClient.syncAllConnections();
-      const status = await apiClient.waitForSyncJob(accepted.jobId, { signal: syncAbortRef.current.signal });
+      const status = await waitForSyncJob(accepted.jobId, { signal: syncAbortRef.current.signal });
       const successful = status.completedConnections - status.failedConnections;
 
       if (status.status === 'succeeded') {
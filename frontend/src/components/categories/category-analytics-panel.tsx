@@ -0,0 +1,209 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  categoryDirection,
+  categoryTransactionsHref,
+  monthDateRange,
+  monthlyHistory,
+  peakMonths,
+  seasonality,
+} from '@/lib/categories/category-analytics';
+import type { CategoryStatisticsDto } from '@/types/categories';
+
+interface CategoryAnalyticsPanelProps {
+  stats: CategoryStatisticsDto;
+}
+
+const HISTORY_MONTHS = 12;
+
+const monthLabel = (periodStart: string) =>
+  new Date(periodStart).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+const calendarMonthLabel = (month: number) =>
+  new Date(Date.UTC(2000, month, 1)).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' });
+
+export function CategoryAnalyticsPanel({ stats }: CategoryAnalyticsPanelProps) {
+  const t = useTranslations('categories.analytics');
+  const router = useRouter();
+  const direction = categoryDirection(stats);
+
+  const history = useMemo(
+    () => monthlyHistory(stats, HISTORY_MONTHS).map((month) => ({ ...month, label: monthLabel(month.periodStart) })),
+    [stats]
+  );
+  const seasons = useMemo(() => seasonality(stats), [stats]);
+  const peaks = useMemo(() => peakMonths(seasons).slice(0, 3), [seasons]);
+  const thinHistory = seasons.some((month) => month.samples < 2);
+  const maxSeasonIndex = Math.max(1, ...seasons.map((month) => month.index ?? 0));
+  const subcategoryTotal = stats.subcategories.reduce((sum, sub) => sum + sub.amount * direction, 0);
+  const monthsWithActivity = stats.monthlyTotals.filter((month) => month.transactionCount > 0).length;
+
+  if (stats.transactionCount === 0) {
+    return (
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 text-center text-sm text-ink-500">
+        {t('noActivity', { months: stats.months })}
+      </section>
+    );
+  }
+
+  const summary = [
+    { label: t('summary.total', { months: stats.months }), value: formatCurrency(stats.totalAmount * direction) },
+    { label: t('summary.monthlyAverage'), value: formatCurrency((stats.totalAmount * direction) / Math.max(1, monthsWithActivity)) },
+    { label: t('summary.averageTransaction'), value: formatCurrency(stats.averageAmount * direction) },
+    { label: t('summary.transactions'), value: stats.transactionCount.toString() },
+  ];
+
+  return (
+    <div className="space-y-5">
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h2 className="font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">
+            {direction < 0 ? t('history.spendTitle') : t('history.incomeTitle')}
+          </h2>
+          <p className="text-xs text-ink-500">{t('history.clickHint')}</p>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-3 lg:grid-cols-4">
+          {summary.map((item) => (
+            <div key={item.label} className="rounded-xl bg-ink-50/80 p-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-ink-400">{item.label}</p>
+              <p className="mt-1 font-[var(--font-dash-mono)] text-lg font-semibold text-ink-900">{item.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 h-60 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={history} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatCurrency(value)} width={80} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Bar
+                dataKey="amount"
+                name={t('history.amount')}
+                fill="#2f8170"
+                radius={[4, 4, 0, 0]}
+                cursor="pointer"
+                onClick={(entry: { payload?: { periodStart: string } }) => {
+                  if (!entry.payload) return;
+                  router.push(categoryTransactionsHref(stats.categoryId, monthDateRange(entry.payload.periodStart)));
+                }}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </section>
+
+      <div className="grid gap-5 lg:grid-cols-2">
+        <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+          <h2 className="font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">{t('merchants.title')}</h2>
+          {stats.topMerchants.length === 0 ? (
+            <p className="mt-3 text-sm text-ink-500">{t('merchants.empty')}</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-ink-100">
+              {stats.topMerchants.map((merchant) => (
+                <li key={merchant.name}>
+                  <Link
+                    href={categoryTransactionsHref(stats.categoryId, { search: merchant.name })}
+                    className="flex items-center justify-between gap-3 py-2 text-sm hover:bg-ink-50/60"
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate font-medium text-ink-800">{merchant.name}</span>
+                      <span className="text-xs text-ink-500">
+                        {t('merchants.transactions', { count: merchant.transactionCount })}
+                      </span>
+                    </span>
+                    <span className="shrink-0 font-[var(--font-dash-mono)] font-medium text-ink-900">
+                      {formatCurrency(merchant.amount * direction)}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+          <h2 className="font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">{t('seasonality.title')}</h2>
+          <p className="mt-1 text-xs text-ink-500">
+            {peaks.length > 0
+              ? t('seasonality.peaks', { months: peaks.map((month) => calendarMonthLabel(month.month)).join(', ') })
+              : t('seasonality.steady')}
+          </p>
+          <div className="mt-4 grid grid-cols-12 items-end gap-1" style={{ height: 120 }}>
+            {seasons.map((month) => (
+              <div key={month.month} className="flex h-full flex-col items-center justify-end gap-1">
+                <div
+                  className={cn(
+                    'w-full rounded-t',
+                    month.index === null ? 'bg-ink-100' : month.index >= 1.25 ? 'bg-amber-400' : 'bg-primary-400'
+                  )}
+                  style={{ height: `${Math.max(4, ((month.index ?? 0) / maxSeasonIndex) * 100)}%` }}
+                  title={
+                    month.index === null
+                      ? t('seasonality.noData')
+                      : t('seasonality.tooltip', {
+                          average: formatCurrency(month.average),
+                          percent: Math.round(month.index * 100),
+                          years: month.samples,
+                        })
+                  }
+                />
+                <span className="text-[10px] text-ink-500">{calendarMonthLabel(month.month)}</span>
+              </div>
+            ))}
+          </div>
+          {thinHistory && <p className="mt-3 text-xs text-ink-400">{t('seasonality.thinHistory')}</p>}
+        </section>
+      </div>
+
+      {stats.subcategories.length > 0 && (
+        <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+          <h2 className="font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">{t('subcategories.title')}</h2>
+          <ul className="mt-3 space-y-3">
+            {stats.subcategories.map((sub) => {
+              const amount = sub.amount * direction;
+              const share = subcategoryTotal > 0 ? Math.max(0, amount / subcategoryTotal) : 0;
+              return (
+                <li key={sub.categoryId}>
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <Link href={`/categories/${sub.categoryId}`} className="font-medium text-ink-800 hover:text-primary-700">
+                      {sub.categoryName}
+                    </Link>
+                    <span className="flex items-center gap-3">
+                      <span className="font-[var(--font-dash-mono)] text-ink-900">{formatCurrency(amount)}</span>
+                      <Link
+                        href={categoryTransactionsHref(sub.categoryId)}
+                        className="text-ink-400 hover:text-primary-600"
+                        aria-label={t('subcategories.viewTransactions', { name: sub.categoryName })}
+                      >
+                        <ArrowTopRightOnSquareIcon className="h-4 w-4" />
+                      </Link>
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 overflow-hidden rounded-full bg-ink-100">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${share * 100}%`, backgroundColor: sub.color || '#2f8170' }}
+                    />
+                  </div>
+                  <p className="mt-0.5 text-xs text-ink-500">
+                    {t('subcategories.share', { percent: Math.round(share * 100), count: sub.transactionCount })}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
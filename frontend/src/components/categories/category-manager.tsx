@@ -0,0 +1,200 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowsPointingInIcon, Bars3Icon, ScissorsIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiClient } from '@/lib/api-client';
+import { canReparent, flattenCategoryTree, reparentRequest } from '@/lib/categories/category-tree';
+import { cn } from '@/lib/utils';
+import type { CategoryDto } from '@/types/categories';
+import { MergeCategoriesDialog } from './merge-categories-dialog';
+import { SplitCategoryDialog } from './split-category-dialog';
+
+interface CategoryManagerProps {
+  categories: CategoryDto[];
+  /** Called after any change so the page reloads categories and counts. */
+  onChanged: () => void;
+}
+
+/** Drop target for the top level of the tree. */
+const ROOT = 'root';
+
+/**
+ * Management mode for the categories page: select categories to merge or split,
+ * and drag a category onto another to re-parent it.
+ */
+export function CategoryManager({ categories, onChanged }: CategoryManagerProps) {
+  const t = useTranslations('categories.manage');
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | typeof ROOT | null>(null);
+  const [movingId, setMovingId] = useState<number | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+
+  const rows = useMemo(() => flattenCategoryTree(categories), [categories]);
+  const selected = useMemo(
+    () => categories.filter((category) => selectedIds.has(category.id)),
+    [categories, selectedIds]
+  );
+
+  const toggleSelected = (categoryId: number, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(categoryId);
+      else next.delete(categoryId);
+      return next;
+    });
+  };
+
+  const resetDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = async (parentId: number | undefined) => {
+    const category = categories.find((candidate) => candidate.id === draggedId);
+    resetDrag();
+    if (!category || !canReparent(categories, category.id, parentId)) return;
+
+    const parent = categories.find((candidate) => candidate.id === parentId);
+    try {
+      setMovingId(category.id);
+      await apiClient.updateCategory(category.id, reparentRequest(category, parentId));
+      toast.success(
+        parent ? t('reparent.moved', { name: category.name, parent: parent.name }) : t('reparent.movedToTop', { name: category.name })
+      );
+      onChanged();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : t('reparent.failed'));
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const handleMigrated = () => {
+    setSelectedIds(new Set());
+    onChanged();
+  };
+
+  const isValidDrop = (parentId: number | undefined) =>
+    draggedId !== null && canReparent(categories, draggedId, parentId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 rounded-[20px] border border-ink-200 bg-white/90 px-4 py-3 shadow-sm">
+        <p className="text-sm text-ink-600">
+          {selected.length > 0 ? t('selectedCount', { count: selected.length }) : t('selectHint')}
+        </p>
+        <div className="ml-auto flex flex-wrap gap-2">
+          <Button variant="secondary" size="sm" onClick={() => setShowMerge(true)} disabled={selected.length === 0}>
+            <ArrowsPointingInIcon className="mr-1 h-4 w-4" />
+            {t('mergeAction')}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setShowSplit(true)} disabled={selected.length !== 1}>
+            <ScissorsIcon className="mr-1 h-4 w-4" />
+            {t('splitAction')}
+          </Button>
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+              {t('clearSelection')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div
+        onDragOver={(event) => {
+          if (!isValidDrop(undefined)) return;
+          event.preventDefault();
+          setDropTarget(ROOT);
+        }}
+        onDragLeave={() => setDropTarget((current) => (current === ROOT ? null : current))}
+        onDrop={(event) => {
+          event.preventDefault();
+          void handleDrop(undefined);
+        }}
+        className={cn(
+          'rounded-xl border-2 border-dashed px-4 py-2 text-center text-xs transition-colors',
+          draggedId === null
+            ? 'border-ink-200 text-ink-400'
+            : dropTarget === ROOT
+              ? 'border-primary-400 bg-primary-50 text-primary-700'
+              : 'border-ink-300 text-ink-500'
+        )}
+      >
+        {draggedId === null ? t('reparent.hint') : t('reparent.dropTop')}
+      </div>
+
+      <div className="overflow-hidden rounded-[26px] border border-ink-200 bg-white/90 shadow-lg shadow-primary-200/20">
+        {rows.map(({ category, depth }) => {
+          const movable = !category.isSystemCategory;
+          const validDrop = isValidDrop(category.id);
+          return (
+            <div
+              key={category.id}
+              draggable={movable && movingId === null}
+              onDragStart={(event) => {
+                setDraggedId(category.id);
+                event.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(event) => {
+                if (!validDrop) return;
+                event.preventDefault();
+                setDropTarget(category.id);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === category.id ? null : current))}
+              onDrop={(event) => {
+                event.preventDefault();
+                void handleDrop(category.id);
+              }}
+              onDragEnd={resetDrag}
+              className={cn(
+                'flex items-center gap-3 border-b border-ink-100 py-2.5 pr-4 last:border-b-0 transition-colors',
+                movable && 'cursor-grab',
+                dropTarget === category.id && 'bg-primary-50 ring-2 ring-inset ring-primary-300',
+                draggedId === category.id && 'opacity-60',
+                draggedId !== null && !validDrop && draggedId !== category.id && 'opacity-50',
+                movingId === category.id && 'animate-pulse'
+              )}
+              style={{ paddingLeft: 16 + depth * 24 }}
+            >
+              <Checkbox
+                checked={selectedIds.has(category.id)}
+                onCheckedChange={(checked) => toggleSelected(category.id, checked)}
+                disabled={!movable}
+              />
+              <Bars3Icon className={cn('h-4 w-4 shrink-0', movable ? 'text-ink-400' : 'text-ink-200')} />
+              <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: category.color || '#94a3b8' }} />
+              <span className={cn('min-w-0 flex-1 truncate text-ink-900', depth === 0 ? 'font-semibold' : 'text-sm font-medium')}>
+                {category.name}
+              </span>
+              {category.isSystemCategory && (
+                <span className="rounded bg-ink-100 px-1.5 py-0.5 text-[10px] font-medium text-ink-500">{t('system')}</span>
+              )}
+              <span className="shrink-0 text-xs text-ink-400">{t('transactions', { count: category.transactionCount })}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <MergeCategoriesDialog
+        isOpen={showMerge}
+        onClose={() => setShowMerge(false)}
+        selected={selected}
+        categories={categories}
+        onMerged={handleMigrated}
+      />
+      <SplitCategoryDialog
+        isOpen={showSplit}
+        onClose={() => setShowSplit(false)}
+        source={selected.length === 1 ? selected[0] : null}
+        categories={categories}
+        onSplit={handleMigrated}
+      />
+    </div>
+  );
+}
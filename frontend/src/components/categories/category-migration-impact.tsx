@@ -0,0 +1,85 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { cn } from '@/lib/utils';
+import type { CategoryMigrationSummary } from '@/types/categories';
+
+interface CategoryMigrationImpactProps {
+  summary: CategoryMigrationSummary | null;
+  loading: boolean;
+  /** For a split, references stay with the source, so they're listed as staying rather than moving. */
+  mode: 'merge' | 'split';
+}
+
+/** Counts of what a merge or split moves, shown before the user confirms it. */
+export function CategoryMigrationImpact({ summary, loading, mode }: CategoryMigrationImpactProps) {
+  const t = useTranslations('categories.manage.impact');
+
+  if (loading && !summary) {
+    return <div className="h-24 animate-pulse rounded-xl bg-ink-50" />;
+  }
+  if (!summary) return null;
+
+  const moving = [
+    { label: t('transactions', { count: summary.transactionCount }), count: summary.transactionCount },
+    { label: t('splitLines', { count: summary.splitLineCount }), count: summary.splitLineCount },
+    { label: t('recurringSchedules', { count: summary.recurringScheduleCount }), count: summary.recurringScheduleCount },
+  ];
+  const references = [
+    { label: t('budgets', { count: summary.budgetCount }), count: summary.budgetCount },
+    { label: t('rules', { count: summary.ruleCount }), count: summary.ruleCount },
+    { label: t('bankMappings', { count: summary.bankCategoryMappingCount }), count: summary.bankCategoryMappingCount },
+    { label: t('recurringPatterns', { count: summary.recurringPatternCount }), count: summary.recurringPatternCount },
+  ];
+  if (mode === 'merge') {
+    moving.push(...references, { label: t('subcategories', { count: summary.subcategoryCount }), count: summary.subcategoryCount });
+  }
+
+  return (
+    <div className={cn('space-y-3 rounded-xl border border-ink-200 bg-ink-50/60 p-4 text-sm', loading && 'opacity-60')}>
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-ink-400">{t('moves')}</p>
+        <ul className="mt-1 grid grid-cols-2 gap-x-4 gap-y-1">
+          {moving.map((item) => (
+            <li key={item.label} className={cn(item.count === 0 ? 'text-ink-400' : 'font-medium text-ink-800')}>
+              {item.label}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {mode === 'merge' && summary.combinedBudgetAllocationCount > 0 && (
+        <p className="text-xs text-amber-700">{t('combinedBudgets', { count: summary.combinedBudgetAllocationCount })}</p>
+      )}
+
+      {mode === 'split' && (
+        <>
+          {summary.targets.length > 0 && (
+            <ul className="space-y-1 border-t border-ink-200 pt-3">
+              {summary.targets.map((target, index) => (
+                <li key={`${target.categoryName}-${index}`} className="flex items-center justify-between gap-3">
+                  <span className="truncate text-ink-800">
+                    {target.categoryName}
+                    {target.isNew && <span className="ml-2 text-xs text-primary-600">{t('newCategory')}</span>}
+                  </span>
+                  <span className="shrink-0 font-[var(--font-dash-mono)] text-ink-700">{target.transactionCount}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-ink-500">{t('remaining', { count: summary.remainingTransactionCount })}</p>
+          {references.some((item) => item.count > 0) && (
+            <p className="text-xs text-ink-500">
+              {t('staysWithSource', {
+                items: references
+                  .filter((item) => item.count > 0)
+                  .map((item) => item.label)
+                  .join(', '),
+              })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { AdjustmentsHorizontalIcon, ChartPieIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api-client';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { BudgetCategoryProgress, BudgetDetail } from '@/types/budget';
+import type { CategorizationRule } from '@/types/rules';
+
+interface CategoryReferencesProps {
+  categoryId: number;
+}
+
+interface BudgetReference {
+  budget: BudgetDetail;
+  category: BudgetCategoryProgress;
+}
+
+/** Active budgets and categorization rules that point at the category. */
+export function CategoryReferences({ categoryId }: CategoryReferencesProps) {
+  const t = useTranslations('categories.references');
+  const [budgets, setBudgets] = useState<BudgetReference[] | null>(null);
+  const [rules, setRules] = useState<CategorizationRule[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const [budgetResult, ruleResult] = await Promise.allSettled([
+        apiClient
+          .getBudgets({ includeInactive: false })
+          .then((summaries) => Promise.all(summaries.map((summary) => apiClient.getBudget(summary.id)))),
+        apiClient.get<CategorizationRule[]>('/api/rules?includeInactive=true'),
+      ]);
+      if (cancelled) return;
+
+      setBudgets(
+        budgetResult.status === 'fulfilled'
+          ? budgetResult.value.flatMap((budget) =>
+              budget.categories
+                .filter((category) => category.categoryId === categoryId)
+                .map((category) => ({ budget, category }))
+            )
+          : []
+      );
+      setRules(
+        ruleResult.status === 'fulfilled'
+          ? ruleResult.value.filter((rule) => rule.categoryId === categoryId).sort((a, b) => a.priority - b.priority)
+          : []
+      );
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId]);
+
+  return (
+    <div className="grid gap-5 lg:grid-cols-2">
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+        <h2 className="flex items-center gap-2 font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">
+          <ChartPieIcon className="h-5 w-5 text-primary-600" />
+          {t('budgetsTitle')}
+        </h2>
+        {budgets === null ? (
+          <div className="mt-3 h-16 animate-pulse rounded-xl bg-ink-50" />
+        ) : budgets.length === 0 ? (
+          <p className="mt-3 text-sm text-ink-500">{t('noBudgets')}</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-ink-100">
+            {budgets.map(({ budget, category }) => (
+              <li key={budget.id}>
+                <Link href={`/budgets/${budget.id}`} className="flex items-center justify-between gap-3 py-2 text-sm hover:bg-ink-50/60">
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium text-ink-800">{budget.name}</span>
+                    <span className="text-xs text-ink-500">
+                      {t('budgetProgress', {
+                        spent: formatCurrency(category.actualSpent),
+                        budgeted: formatCurrency(category.effectiveBudget),
+                      })}
+                    </span>
+                  </span>
+                  <span
+                    className={cn(
+                      'shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold',
+                      category.isOverBudget
+                        ? 'bg-rose-50 text-rose-700'
+                        : category.isApproachingLimit
+                          ? 'bg-amber-50 text-amber-700'
+                          : 'bg-emerald-50 text-emerald-700'
+                    )}
+                  >
+                    {Math.round(category.usedPercentage)}%
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-lg shadow-primary-200/20 backdrop-blur-xs">
+        <h2 className="flex items-center gap-2 font-[var(--font-dash-sans)] text-base font-semibold text-ink-900">
+          <AdjustmentsHorizontalIcon className="h-5 w-5 text-primary-600" />
+          {t('rulesTitle')}
+        </h2>
+        {rules === null ? (
+          <div className="mt-3 h-16 animate-pulse rounded-xl bg-ink-50" />
+        ) : rules.length === 0 ? (
+          <p className="mt-3 text-sm text-ink-500">{t('noRules')}</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-ink-100">
+            {rules.map((rule) => (
+              <li key={rule.id}>
+                <Link href="/rules" className="flex items-center justify-between gap-3 py-2 text-sm hover:bg-ink-50/60">
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium text-ink-800">{rule.name}</span>
+                    <span className="block truncate font-[var(--font-dash-mono)] text-xs text-ink-500">{rule.pattern}</span>
+                  </span>
+                  <span className="shrink-0 text-xs text-ink-500">
+                    {rule.isActive ? t('ruleMatches', { count: rule.matchCount }) : t('ruleInactive')}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
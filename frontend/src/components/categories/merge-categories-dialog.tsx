@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/modals/base-modal';
+import { CategoryPicker } from '@/components/forms/category-picker';
+import { Button } from '@/components/ui/button';
+import { apiClient } from '@/lib/api-client';
+import { hasMigrationImpact } from '@/lib/categories/category-tree';
+import type { CategoryDto, CategoryMigrationSummary } from '@/types/categories';
+import { CategoryMigrationImpact } from './category-migration-impact';
+
+interface MergeCategoriesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The selected categories; the one kept is picked in the dialog. */
+  selected: CategoryDto[];
+  categories: CategoryDto[];
+  onMerged: () => void;
+}
+
+export function MergeCategoriesDialog({ isOpen, onClose, selected, categories, onMerged }: MergeCategoriesDialogProps) {
+  const t = useTranslations('categories.manage.merge');
+  const tCommon = useTranslations('common');
+  const [targetId, setTargetId] = useState<number | undefined>();
+  const [preview, setPreview] = useState<CategoryMigrationSummary | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  // Default to keeping the busiest selected category; with a single selection the user picks where it goes
+  useEffect(() => {
+    if (!isOpen) return;
+    const busiest = [...selected].sort((a, b) => b.transactionCount - a.transactionCount)[0];
+    setTargetId(selected.length > 1 ? busiest?.id : undefined);
+  }, [isOpen, selected]);
+
+  const sourceIds = useMemo(
+    () => selected.filter((category) => category.id !== targetId).map((category) => category.id),
+    [selected, targetId]
+  );
+  const target = categories.find((category) => category.id === targetId);
+
+  useEffect(() => {
+    if (!isOpen || !targetId || sourceIds.length === 0) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewing(true);
+    apiClient
+      .previewMergeCategories({ sourceCategoryIds: sourceIds, targetCategoryId: targetId })
+      .then((summary) => {
+        if (!cancelled) setPreview(summary);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setPreview(null);
+        toast.error(error instanceof Error && error.message ? error.message : t('previewFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, targetId, sourceIds, t]);
+
+  const handleMerge = async () => {
+    if (!targetId || sourceIds.length === 0) return;
+    try {
+      setMerging(true);
+      const result = await apiClient.mergeCategories({ sourceCategoryIds: sourceIds, targetCategoryId: targetId });
+      toast.success(t('success', { target: target?.name ?? '', transactions: result.transactionCount }));
+      onMerged();
+      onClose();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : t('failed'));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const sources = selected.filter((category) => category.id !== targetId);
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={t('title')} size="lg">
+      <div className="space-y-5">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-ink-700">{t('targetLabel')}</label>
+          <CategoryPicker
+            value={targetId}
+            onChange={(categoryId) => setTargetId(typeof categoryId === 'number' ? categoryId : parseInt(String(categoryId), 10))}
+            categories={categories}
+            placeholder={t('targetPlaceholder')}
+            disableQuickPicks={true}
+          />
+          <p className="mt-1 text-xs text-ink-500">{t('targetHint')}</p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-ink-700">{t('sourcesLabel', { count: sources.length })}</p>
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {sources.map((category) => (
+              <li
+                key={category.id}
+                className="inline-flex items-center gap-2 rounded-full border border-ink-200 bg-white px-3 py-1 text-sm text-ink-700"
+              >
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: category.color || '#94a3b8' }} />
+                {category.fullPath || category.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <CategoryMigrationImpact summary={preview} loading={previewing} mode="merge" />
+        {preview && !hasMigrationImpact(preview) && <p className="text-sm text-ink-500">{t('nothingToMove')}</p>}
+
+        <p className="text-xs text-ink-500">{t('irreversible')}</p>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={merging}>
+            {tCommon('cancel')}
+          </Button>
+          <Button variant="danger" onClick={handleMerge} disabled={merging || previewing || !preview || sources.length === 0}>
+            {merging ? t('merging') : t('confirm', { count: sources.length })}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
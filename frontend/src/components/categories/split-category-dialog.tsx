@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BaseModal } from '@/components/modals/base-modal';
+import { CategoryPicker } from '@/components/forms/category-picker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiClient } from '@/lib/api-client';
+import { buildSplitTargets, splitDestination, SplitTargetDraft } from '@/lib/categories/category-tree';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { CategoryDto, CategoryMigrationSummary } from '@/types/categories';
+import type { TransactionDto } from '@/types/transactions';
+import { CategoryMigrationImpact } from './category-migration-impact';
+
+interface SplitCategoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: CategoryDto | null;
+  categories: CategoryDto[];
+  onSplit: () => void;
+}
+
+/** Transactions listed for picking by hand; patterns still apply to the whole category. */
+const SELECTION_PAGE_SIZE = 100;
+
+let nextDraftKey = 1;
+const newDraft = (): SplitTargetDraft => ({
+  key: `target-${nextDraftKey++}`,
+  mode: 'new',
+  newCategoryName: '',
+  pattern: '',
+});
+
+export function SplitCategoryDialog({ isOpen, onClose, source, categories, onSplit }: SplitCategoryDialogProps) {
+  const t = useTranslations('categories.manage.split');
+  const tCommon = useTranslations('common');
+  const [drafts, setDrafts] = useState<SplitTargetDraft[]>(() => [newDraft()]);
+  const [selection, setSelection] = useState<Record<number, string>>({});
+  const [transactions, setTransactions] = useState<TransactionDto[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingTransactions, setLoadingTransactions] = useState(false);
+  const [preview, setPreview] = useState<CategoryMigrationSummary | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !source) return;
+
+    setDrafts([newDraft()]);
+    setSelection({});
+    setPreview(null);
+
+    let cancelled = false;
+    setLoadingTransactions(true);
+    apiClient
+      .getTransactions({ categoryId: source.id, pageSize: SELECTION_PAGE_SIZE, sortBy: 'transactionDate', sortDirection: 'desc' })
+      .then((response) => {
+        if (cancelled) return;
+        setTransactions(response.transactions);
+        setTotalCount(response.totalCount);
+      })
+      .catch(() => {
+        if (!cancelled) setTransactions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTransactions(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, source]);
+
+  const targets = useMemo(() => buildSplitTargets(drafts, selection), [drafts, selection]);
+  const targetOptions = useMemo(
+    () => categories.filter((category) => category.id !== source?.id),
+    [categories, source]
+  );
+
+  const draftLabel = (draft: SplitTargetDraft, index: number) =>
+    (draft.mode === 'existing'
+      ? categories.find((category) => category.id === draft.categoryId)?.name
+      : draft.newCategoryName.trim()) || t('targetFallback', { number: index + 1 });
+
+  // Any edit invalidates the preview; the split can only run against a fresh one
+  const updateDraft = (key: string, changes: Partial<SplitTargetDraft>) => {
+    setDrafts((current) => current.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+    setPreview(null);
+  };
+
+  const removeDraft = (key: string) => {
+    setDrafts((current) => current.filter((draft) => draft.key !== key));
+    setSelection((current) => Object.fromEntries(Object.entries(current).filter(([, draftKey]) => draftKey !== key)));
+    setPreview(null);
+  };
+
+  const assignTransaction = (transactionId: number, draftKey: string) => {
+    setSelection((current) => {
+      const next = { ...current };
+      if (draftKey) next[transactionId] = draftKey;
+      else delete next[transactionId];
+      return next;
+    });
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!source || targets.length === 0) return;
+    try {
+      setPreviewing(true);
+      setPreview(await apiClient.previewSplitCategory(source.id, { targets }));
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : t('previewFailed'));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSplit = async () => {
+    if (!source || !preview) return;
+    try {
+      setSplitting(true);
+      const result = await apiClient.splitCategory(source.id, { targets });
+      toast.success(t('success', { count: result.transactionCount, name: source.name }));
+      onSplit();
+      onClose();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : t('failed'));
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  if (!source) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={t('title', { name: source.name })} size="xl">
+      <div className="space-y-5">
+        <p className="text-sm text-ink-500">{t('description')}</p>
+
+        <div className="space-y-3">
+          {drafts.map((draft) => (
+            <div key={draft.key} className="rounded-xl border border-ink-200 p-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="inline-flex rounded-lg border border-ink-200 p-0.5 text-xs">
+                  {(['new', 'existing'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => updateDraft(draft.key, { mode })}
+                      className={cn(
+                        'rounded-md px-2 py-1 font-medium',
+                        draft.mode === mode ? 'bg-primary-600 text-white' : 'text-ink-600 hover:bg-ink-50'
+                      )}
+                    >
+                      {t(mode === 'new' ? 'newCategory' : 'existingCategory')}
+                    </button>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto text-ink-400 hover:text-red-600"
+                  onClick={() => removeDraft(draft.key)}
+                  disabled={drafts.length === 1}
+                  aria-label={t('removeTarget')}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                {draft.mode === 'new' ? (
+                  <Input
+                    id={`${draft.key}-name`}
+                    label={t('newCategoryName')}
+                    value={draft.newCategoryName}
+                    maxLength={100}
+                    placeholder={t('newCategoryPlaceholder')}
+                    onChange={(event) => updateDraft(draft.key, { newCategoryName: event.target.value })}
+                  />
+                ) : (
+                  <div>
+                    <label className="mb-1 block text-sm font-medium text-ink-700">{t('existingCategory')}</label>
+                    <CategoryPicker
+                      value={draft.categoryId}
+                      onChange={(categoryId) =>
+                        updateDraft(draft.key, {
+                          categoryId: typeof categoryId === 'number' ? categoryId : parseInt(String(categoryId), 10),
+                        })
+                      }
+                      categories={targetOptions}
+                      placeholder={t('existingPlaceholder')}
+                      disableQuickPicks={true}
+                    />
+                  </div>
+                )}
+                <Input
+                  id={`${draft.key}-pattern`}
+                  label={t('pattern')}
+                  value={draft.pattern}
+                  placeholder={t('patternPlaceholder')}
+                  onChange={(event) => updateDraft(draft.key, { pattern: event.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+
+          <Button variant="secondary" size="sm" onClick={() => setDrafts((current) => [...current, newDraft()])}>
+            <PlusIcon className="mr-1 h-4 w-4" />
+            {t('addTarget')}
+          </Button>
+        </div>
+
+        <div>
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm font-medium text-ink-700">{t('selectionTitle')}</p>
+            {totalCount > transactions.length && (
+              <p className="text-xs text-ink-500">{t('selectionLimited', { shown: transactions.length, total: totalCount })}</p>
+            )}
+          </div>
+          {loadingTransactions ? (
+            <div className="mt-2 h-32 animate-pulse rounded-xl bg-ink-50" />
+          ) : transactions.length === 0 ? (
+            <p className="mt-2 text-sm text-ink-500">{t('noTransactions')}</p>
+          ) : (
+            <ul className="mt-2 max-h-72 divide-y divide-ink-100 overflow-y-auto rounded-xl border border-ink-200">
+              {transactions.map((transaction) => {
+                const destination = splitDestination(transaction, drafts, selection);
+                const byPattern = destination && !selection[transaction.id];
+                return (
+                  <li key={transaction.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className="w-20 shrink-0 text-xs text-ink-500">{formatDate(transaction.transactionDate)}</span>
+                    <span className="min-w-0 flex-1 truncate text-ink-800">
+                      {transaction.userDescription || transaction.description}
+                    </span>
+                    <span className="shrink-0 font-[var(--font-dash-mono)] text-ink-700">
+                      {formatCurrency(transaction.amount)}
+                    </span>
+                    <select
+                      className={cn('select w-40 shrink-0 text-xs', byPattern && 'text-primary-700')}
+                      value={selection[transaction.id] ?? ''}
+                      onChange={(event) => assignTransaction(transaction.id, event.target.value)}
+                      aria-label={t('assignTo')}
+                    >
+                      <option value="">
+                        {byPattern
+                          ? t('matchedByPattern', { name: draftLabel(destination, drafts.indexOf(destination)) })
+                          : t('staysInSource')}
+                      </option>
+                      {drafts.map((draft, index) => (
+                        <option key={draft.key} value={draft.key}>
+                          {draftLabel(draft, index)}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <CategoryMigrationImpact summary={preview} loading={previewing} mode="split" />
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={splitting}>
+            {tCommon('cancel')}
+          </Button>
+          <Button variant="outline" onClick={handlePreview} disabled={previewing || targets.length === 0}>
+            {previewing ? t('previewing') : t('preview')}
+          </Button>
+          <Button onClick={handleSplit} disabled={splitting || !preview || preview.transactionCount === 0}>
+            {splitting ? t('splitting') : t('confirm', { count: preview?.transactionCount ?? 0 })}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { format, subDays } from 'date-fns';
+import { ArrowRightIcon } from '@heroicons/react/24/outline';
+import { DashboardCard } from '@/components/dashboard/dashboard-card';
+import { Sparkline } from '@/components/dashboard/sparkline';
+import { apiClient } from '@/lib/api-client';
+import { buildBalanceSeries, SparklinePoint } from '@/lib/dashboard/sparklines';
+import { formatCurrency } from '@/lib/utils';
+import type { AccountWithBalanceDto } from '@/types/accounts';
+import type { TransactionDto } from '@/types/transactions';
+
+const MAX_ACCOUNTS = 5;
+const HISTORY_DAYS = 30;
+// The server caps a page at 100 transactions
+const PAGE_SIZE = 100;
+
+interface AccountSparkline {
+  account: AccountWithBalanceDto;
+  series: SparklinePoint[];
+}
+
+/** Loads the account's transactions since the start date, page by page. */
+async function loadTransactionsSince(accountId: number, startDate: string): Promise<TransactionDto[]> {
+  const transactions: TransactionDto[] = [];
+  for (let page = 1; ; page++) {
+    const response = await apiClient.getTransactions({
+      accountId,
+      startDate,
+      page,
+      pageSize: PAGE_SIZE,
+      includeTransfers: true,
+    });
+    transactions.push(...response.transactions);
+    if (!response.hasNextPage) return transactions;
+  }
+}
+
+export function AccountBalancesCard() {
+  const t = useTranslations('dashboard.cards.accountBalances');
+  const [rows, setRows] = useState<AccountSparkline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const accounts = await apiClient.getAccountsWithBalances();
+        const largest = accounts
+          .filter((account) => account.isActive)
+          .sort((a, b) => Math.abs(b.calculatedBalance) - Math.abs(a.calculatedBalance))
+          .slice(0, MAX_ACCOUNTS);
+
+        const today = new Date();
+        const endDate = format(today, 'yyyy-MM-dd');
+        const startDate = format(subDays(today, HISTORY_DAYS), 'yyyy-MM-dd');
+
+        const withSeries = await Promise.all(
+          largest.map(async (account) => {
+            const transactions = await loadTransactionsSince(account.id, startDate);
+            return {
+              account,
+              series: buildBalanceSeries(account.calculatedBalance, transactions, endDate, HISTORY_DAYS),
+            };
+          })
+        );
+
+        setRows(withSeries);
+      } catch (err) {
+        console.error('Failed to load account balances:', err);
+        setError(t('loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [t]);
+
+  return (
+    <DashboardCard cardId="account-balances" loading={loading} error={error}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-ink-500">{t('title')}</p>
+          <p className="mt-1 text-xs text-ink-400">{t('subtitle', { days: HISTORY_DAYS })}</p>
+        </div>
+        <Link
+          href="/accounts"
+          className="inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:text-primary-800"
+        >
+          {t('viewAll')} <ArrowRightIcon className="h-3 w-3" />
+        </Link>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex h-32 items-center justify-center text-sm text-ink-400">{t('noAccounts')}</div>
+      ) : (
+        <div className="mt-4 divide-y divide-ink-100">
+          {rows.map(({ account, series }) => (
+            <Link
+              key={account.id}
+              href={`/accounts/${account.id}`}
+              className="grid grid-cols-[minmax(0,1fr)_6rem_auto] items-center gap-3 py-2.5 transition-colors hover:bg-primary-50/30"
+            >
+              <span className="min-w-0">
+                <span className="block truncate text-sm font-medium text-ink-700">{account.name}</span>
+                <span className="block truncate text-[11px] text-ink-400">{account.typeDisplayName}</span>
+              </span>
+              <Sparkline points={series} />
+              <span className="text-right font-[var(--font-dash-mono)] text-sm font-semibold text-ink-900">
+                {formatCurrency(account.calculatedBalance, account.currency)}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </DashboardCard>
+  );
+}
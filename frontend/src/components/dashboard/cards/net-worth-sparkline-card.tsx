@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { DashboardCard } from '@/components/dashboard/dashboard-card';
+import { Sparkline } from '@/components/dashboard/sparkline';
+import { apiClient } from '@/lib/api-client';
+import { buildNetWorthSeries, SparklinePoint } from '@/lib/dashboard/sparklines';
+import { cn, formatCurrency } from '@/lib/utils';
+
+const HISTORY_MONTHS = 12;
+
+export function NetWorthSparklineCard() {
+  const t = useTranslations('dashboard.cards.netWorth');
+  const [series, setSeries] = useState<SparklinePoint[]>([]);
+  const [totals, setTotals] = useState({ netWorth: 0, assets: 0, liabilities: 0 });
+  const [unconvertedCurrencies, setUnconvertedCurrencies] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [summary, history] = await Promise.all([
+          apiClient.getDashboardSummary(),
+          apiClient.getCashflowHistory(HISTORY_MONTHS),
+        ]);
+
+        setTotals({
+          netWorth: summary.netWorth,
+          assets: summary.totalAssets,
+          liabilities: summary.totalLiabilities,
+        });
+        setUnconvertedCurrencies(summary.unconvertedCurrencies ?? []);
+        setSeries(buildNetWorthSeries(summary.netWorth, history.months || []));
+      } catch (err) {
+        console.error('Failed to load net worth history:', err);
+        setError(t('loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [t]);
+
+  const change = series.length > 1 ? series[series.length - 1].value - series[0].value : 0;
+
+  return (
+    <DashboardCard cardId="net-worth" loading={loading} error={error}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-ink-500">{t('title')}</p>
+          <p className="mt-2 font-[var(--font-dash-mono)] text-3xl font-semibold tracking-[-0.02em] text-ink-900">
+            {formatCurrency(totals.netWorth)}
+          </p>
+        </div>
+        {series.length > 1 && (
+          <span
+            className={cn(
+              'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+              change >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-600',
+            )}
+          >
+            {change >= 0 ? '+' : ''}
+            {formatCurrency(change)}
+          </span>
+        )}
+      </div>
+
+      <Sparkline points={series} className="mt-4 h-14" />
+      {series.length > 1 && (
+        <div className="mt-1 flex justify-between text-[11px] text-ink-400">
+          <span>{series[0].label}</span>
+          <span>{series[series.length - 1].label}</span>
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-2 gap-3 rounded-2xl border border-primary-100/50 bg-primary-50/20 p-3">
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-ink-400">{t('assets')}</p>
+          <p className="mt-1 font-[var(--font-dash-mono)] text-sm font-semibold text-emerald-700">
+            {formatCurrency(totals.assets)}
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-ink-400">{t('liabilities')}</p>
+          <p className="mt-1 font-[var(--font-dash-mono)] text-sm font-semibold text-rose-600">
+            {formatCurrency(totals.liabilities)}
+          </p>
+        </div>
+      </div>
+      <Link href="/net-worth" className="mt-3 inline-block text-xs font-medium text-primary-700 hover:underline">
+        {t('viewHistory')}
+      </Link>
+      {unconvertedCurrencies.length > 0 && (
+        <p className="mt-3 text-xs text-amber-700">
+          {t('unconverted', { currencies: unconvertedCurrencies.join(', ') })}{' '}
+          <Link href="/settings/currencies" className="font-medium underline">
+            {t('addRates')}
+          </Link>
+        </p>
+      )}
+    </DashboardCard>
+  );
+}
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { DashboardCard } from '@/components/dashboard/dashboard-card';
-import { apiClient, WalletSummary } from '@/lib/api-client';
+import { apiClient, WalletDashboardSummary } from '@/lib/api-client';
 import { formatCurrency } from '@/lib/utils';
 import {
   CircleStackIcon,
@@ -15,7 +15,7 @@ import { WalletIcon } from '@/lib/wallet-icons';
 
 export function WalletSummaryCard() {
   const t = useTranslations('dashboard.cards.wallet');
-  const [wallets, setWallets] = useState<WalletSummary[]>([]);
+  const [summary, setSummary] = useState<WalletDashboardSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -24,8 +24,7 @@ export function WalletSummaryCard() {
       try {
         setError(null);
         setLoading(true);
-        const data = await apiClient.getWallets();
-        setWallets(data);
+        setSummary(await apiClient.getWalletDashboard());
       } catch (err) {
         console.error('Failed to load wallets:', err);
         setError(t('loadError'));
@@ -36,12 +35,10 @@ export function WalletSummaryCard() {
     load();
   }, [t]);
 
-  const totalsByCurrency = wallets.reduce<Record<string, number>>((acc, w) => {
-    acc[w.currency] = (acc[w.currency] || 0) + w.balance;
-    return acc;
-  }, {});
-  const currencyEntries = Object.entries(totalsByCurrency);
+  const wallets = summary?.wallets ?? [];
+  const currencyEntries = Object.entries(summary?.balanceByCurrency ?? {});
   const displayWallets = wallets.slice(0, 5);
+  const showConvertedTotal = currencyEntries.length > 1 && !!summary?.baseCurrency;
 
   return (
     <DashboardCard cardId="wallet-pots" loading={loading} error={error}>
@@ -84,6 +81,15 @@ export function WalletSummaryCard() {
                 ))}
               </div>
             </div>
+            {showConvertedTotal && (
+              <p className="mt-1 text-right text-xs text-ink-500">
+                {t('convertedTotal', {
+                  amount: formatCurrency(summary.totalBalanceInBaseCurrency, summary.baseCurrency),
+                })}
+                {summary.unconvertedCurrencies.length > 0 &&
+                  ` · ${t('unconverted', { currencies: summary.unconvertedCurrencies.join(', ') })}`}
+              </p>
+            )}
 
             <div className="mt-4 space-y-2.5">
               {displayWallets.map((wallet) => (
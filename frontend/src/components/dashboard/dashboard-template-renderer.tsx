@@ -1,7 +1,10 @@
 'use client';
 
+import { useDashboard } from '@/contexts/dashboard-context';
+import { AdvancedTemplate } from '@/components/dashboard/templates/advanced-template';
 import { EducationTemplate } from '@/components/dashboard/templates/education-template';
 
 export function DashboardTemplateRenderer() {
-  return <EducationTemplate />;
+  const { template } = useDashboard();
+  return template === 'advanced' ? <AdvancedTemplate /> : <EducationTemplate />;
 }
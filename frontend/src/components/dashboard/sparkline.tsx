@@ -0,0 +1,51 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { SparklinePoint } from '@/lib/dashboard/sparklines';
+
+interface SparklineProps {
+  points: SparklinePoint[];
+  className?: string;
+  /** Defaults to green when the series ends higher than it started, coral otherwise. */
+  color?: string;
+}
+
+export function Sparkline({ points, className, color }: SparklineProps) {
+  const w = 120;
+  const h = 32;
+  const pad = 3;
+
+  if (points.length < 2) {
+    return <div className={cn('h-8 w-full', className)} aria-hidden />;
+  }
+
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const range = Math.max(Math.max(...values) - min, 1);
+  const stroke = color ?? (values[values.length - 1] >= values[0] ? '#10b981' : '#c0614a');
+
+  const coords = values.map((v, i) => {
+    const x = pad + (i / (values.length - 1)) * (w - pad * 2);
+    const y = pad + (h - pad * 2) - ((v - min) / range) * (h - pad * 2);
+    return `${x},${y}`;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${w} ${h}`}
+      preserveAspectRatio="none"
+      className={cn('h-8 w-full', className)}
+      aria-hidden
+    >
+      <polyline
+        points={coords.join(' ')}
+        fill="none"
+        stroke={stroke}
+        strokeWidth="1.75"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
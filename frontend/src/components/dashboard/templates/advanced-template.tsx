@@ -0,0 +1,182 @@
+'use client';
+
+import { CSSProperties, ComponentType, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  AdjustmentsHorizontalIcon,
+  ArrowDownIcon,
+  ArrowPathIcon,
+  ArrowUpIcon,
+  Bars3Icon,
+  EyeIcon,
+  EyeSlashIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { CashflowChartCard } from '@/components/dashboard/cards/cashflow-chart-card';
+import { FinancialRunwayCard } from '@/components/dashboard/cards/financial-runway-card';
+import { BudgetHealthCard } from '@/components/dashboard/cards/budget-health-card';
+import { WalletSummaryCard } from '@/components/dashboard/cards/wallet-summary-card';
+import { CategorizationStatsCard } from '@/components/dashboard/cards/categorization-stats-card';
+import { NetWorthSparklineCard } from '@/components/dashboard/cards/net-worth-sparkline-card';
+import { AccountBalancesCard } from '@/components/dashboard/cards/account-balances-card';
+import { UpcomingBillsWidget } from '@/components/dashboard/upcoming-bills-widget';
+import { GettingStartedSection } from '@/components/dashboard/getting-started-section';
+import { useAdvancedDashboardLayout } from '@/hooks/use-advanced-dashboard-layout';
+import type { AdvancedCardId } from '@/lib/dashboard/advanced-layout';
+import { cn } from '@/lib/utils';
+
+const CARDS: Record<AdvancedCardId, { component: ComponentType; wide?: boolean }> = {
+  cashflow: { component: CashflowChartCard, wide: true },
+  runway: { component: FinancialRunwayCard },
+  netWorth: { component: NetWorthSparklineCard },
+  accountBalances: { component: AccountBalancesCard, wide: true },
+  budgetHealth: { component: BudgetHealthCard },
+  wallets: { component: WalletSummaryCard },
+  categorization: { component: CategorizationStatsCard },
+  bills: { component: UpcomingBillsWidget },
+};
+
+function stagger(index: number): CSSProperties {
+  return { '--stagger': index } as CSSProperties;
+}
+
+export function AdvancedTemplate() {
+  const t = useTranslations('dashboard.advanced');
+  const { visibleCards, hiddenCards, moveCard, shiftCard, setCardHidden, resetLayout } =
+    useAdvancedDashboardLayout();
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  const [draggedCardId, setDraggedCardId] = useState<AdvancedCardId | null>(null);
+  const [dragOverCardId, setDragOverCardId] = useState<AdvancedCardId | null>(null);
+
+  return (
+    <div className="space-y-5">
+      <GettingStartedSection />
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isCustomizing && (
+          <Button variant="ghost" size="sm" onClick={resetLayout}>
+            <ArrowPathIcon className="w-4 h-4 mr-1.5" />
+            {t('resetLayout')}
+          </Button>
+        )}
+        <Button
+          variant={isCustomizing ? 'primary' : 'secondary'}
+          size="sm"
+          onClick={() => setIsCustomizing((previous) => !previous)}
+        >
+          <AdjustmentsHorizontalIcon className="w-4 h-4 mr-1.5" />
+          {isCustomizing ? t('doneCustomizing') : t('customize')}
+        </Button>
+      </div>
+
+      {isCustomizing && (
+        <div className="rounded-2xl border border-dashed border-primary-200 bg-primary-50/30 px-4 py-3">
+          <p className="text-sm text-ink-600">{t('customizeHint')}</p>
+          {hiddenCards.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">
+                {t('hiddenCards')}
+              </span>
+              {hiddenCards.map((cardId) => (
+                <button
+                  key={cardId}
+                  type="button"
+                  onClick={() => setCardHidden(cardId, false)}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border border-ink-200 bg-white text-ink-600 hover:border-primary-300 hover:text-primary-700"
+                >
+                  <EyeIcon className="h-3.5 w-3.5" />
+                  {t(`cards.${cardId}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {visibleCards.length === 0 ? (
+        <div className="rounded-2xl border border-ink-200 bg-surface p-8 text-center text-sm text-ink-500">
+          {t('allHidden')}
+        </div>
+      ) : (
+        <div className="grid gap-5 lg:grid-cols-2 xl:grid-cols-3">
+          {visibleCards.map((cardId, index) => {
+            const { component: Card, wide } = CARDS[cardId];
+            return (
+              <section
+                key={cardId}
+                draggable={isCustomizing}
+                onDragStart={(event) => {
+                  setDraggedCardId(cardId);
+                  event.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={(event) => {
+                  if (!draggedCardId) return;
+                  event.preventDefault();
+                  setDragOverCardId(cardId);
+                }}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  if (draggedCardId) {
+                    moveCard(draggedCardId, cardId);
+                  }
+                  setDragOverCardId(null);
+                }}
+                onDragEnd={() => {
+                  setDraggedCardId(null);
+                  setDragOverCardId(null);
+                }}
+                className={cn(
+                  'relative animate-card-entrance',
+                  wide && 'lg:col-span-2',
+                  isCustomizing && 'cursor-grab rounded-2xl outline-dashed outline-2 outline-offset-4 outline-primary-200',
+                  dragOverCardId === cardId && draggedCardId !== cardId && 'outline-primary-500',
+                  draggedCardId === cardId && 'opacity-60'
+                )}
+                style={stagger(index)}
+              >
+                {isCustomizing && (
+                  <div className="absolute right-3 top-3 z-10 flex items-center gap-1 rounded-xl border border-ink-200 bg-white/95 p-1 shadow-sm">
+                    <Bars3Icon className="mx-1 h-4 w-4 text-ink-400" aria-hidden />
+                    <span className="sr-only">{t(`cards.${cardId}`)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-7 h-7 p-0"
+                      onClick={() => shiftCard(cardId, -1)}
+                      disabled={index === 0}
+                      title={t('moveUp')}
+                    >
+                      <ArrowUpIcon className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-7 h-7 p-0"
+                      onClick={() => shiftCard(cardId, 1)}
+                      disabled={index === visibleCards.length - 1}
+                      title={t('moveDown')}
+                    >
+                      <ArrowDownIcon className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-7 h-7 p-0"
+                      onClick={() => setCardHidden(cardId, true)}
+                      title={t('hideCard')}
+                    >
+                      <EyeSlashIcon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+                <div className={cn('h-full', isCustomizing && 'pointer-events-none select-none')}>
+                  <Card />
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,25 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { BillCalendar } from '@/components/recurring-schedules/bill-calendar';
 import { apiClient } from '@/lib/api-client';
 import { UpcomingBillsResponse, UpcomingBillDto } from '@/types/upcoming-bills';
-import { formatCurrency } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import {
   CalendarDaysIcon,
+  ListBulletIcon,
 } from '@heroicons/react/24/outline';
 
 export function UpcomingBillsWidget() {
   const t = useTranslations('upcomingBills');
   const [data, setData] = useState<UpcomingBillsResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
 
   useEffect(() => {
     const loadUpcomingBills = async () => {
@@ -58,35 +62,60 @@ export function UpcomingBillsWidget() {
     );
   }
 
-  // Hide entirely when there are no upcoming bills
-  if (!data || data.bills.length === 0) {
-    return null;
-  }
-
   return (
     <Card className="bg-white/90 backdrop-blur-xs border-0 border-l-4 border-l-info-500 shadow-lg">
       <CardHeader className="pb-2">
-        <div className="flex items-center gap-2">
-          <CalendarDaysIcon className="h-6 w-6 text-info-600" />
-          <CardTitle className="text-xl font-bold text-ink-900">{t('title')}</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <CalendarDaysIcon className="h-6 w-6 text-info-600" />
+            <CardTitle className="text-xl font-bold text-ink-900">{t('title')}</CardTitle>
+          </div>
+          <div className="flex rounded-lg border border-ink-200 p-0.5">
+            {(['list', 'calendar'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                title={t(option === 'list' ? 'listView' : 'calendarView')}
+                className={cn(
+                  'rounded-md p-1 text-ink-500 transition-colors hover:text-ink-900',
+                  view === option && 'bg-ink-100 text-ink-900'
+                )}
+              >
+                {option === 'list' ? <ListBulletIcon className="h-4 w-4" /> : <CalendarDaysIcon className="h-4 w-4" />}
+              </button>
+            ))}
+          </div>
         </div>
-        <p className="text-sm text-ink-500">{t('next7Days')}</p>
+        {view === 'list' && <p className="text-sm text-ink-500">{t('next7Days')}</p>}
       </CardHeader>
       <CardContent className="space-y-3">
-        {/* Bill list (up to 3) */}
-        {data.bills.slice(0, 3).map((bill, index) => (
-          <BillItem key={index} bill={bill} formatDueDate={formatDueDate} t={t} />
-        ))}
+        {view === 'calendar' ? (
+          <BillCalendar compact />
+        ) : !data || data.bills.length === 0 ? (
+          <p className="py-4 text-center text-sm text-ink-500">{t('noBills')}</p>
+        ) : (
+          <>
+            {/* Bill list (up to 3) */}
+            {data.bills.slice(0, 3).map((bill, index) => (
+              <BillItem key={index} bill={bill} formatDueDate={formatDueDate} t={t} />
+            ))}
 
-        {/* Footer with total */}
-        <div className="pt-2 border-t border-ink-100">
-          <div className="flex justify-between items-center text-sm">
-            <span className="text-ink-600">{t('totalExpected')}</span>
-            <span className="font-semibold text-red-600">
-              {formatCurrency(data.totalExpectedAmount)}
-            </span>
-          </div>
-        </div>
+            {/* Footer with total */}
+            <div className="pt-2 border-t border-ink-100">
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-ink-600">{t('totalExpected')}</span>
+                <span className="font-semibold text-red-600">
+                  {formatCurrency(data.totalExpectedAmount)}
+                </span>
+              </div>
+            </div>
+          </>
+        )}
+
+        <Link href="/bills" className="block text-center text-sm font-medium text-primary-600 hover:underline">
+          {t('manageSchedules')}
+        </Link>
       </CardContent>
     </Card>
   );
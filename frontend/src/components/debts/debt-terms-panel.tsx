@@ -0,0 +1,377 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { apiClient } from '@/lib/api-client';
+import { formatPayoffMonth, getAmortizationSchedule, getRequiredPayment, monthsUntil } from '@/lib/debts/payoff';
+import { BackendAccountType, cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { DebtDto } from '@/types/debts';
+
+/** Rows shown before the schedule is expanded. */
+const PREVIEW_ROWS = 12;
+
+interface DebtTermsPanelProps {
+  accountId: number;
+  /** The account's balance as the page knows it; the terms are reloaded when it changes. */
+  balance?: number;
+}
+
+interface TermsForm {
+  annualInterestRate: string;
+  minimumPayment: string;
+  termMonths: string;
+  startDate: string;
+}
+
+function toForm(debt: DebtDto | null): TermsForm {
+  const terms = debt?.terms;
+  return {
+    annualInterestRate: terms ? String(terms.annualInterestRate) : '',
+    minimumPayment: terms ? String(terms.minimumPayment) : '',
+    termMonths: terms?.termMonths !== undefined ? String(terms.termMonths) : '',
+    startDate: terms?.startDate ? terms.startDate.slice(0, 10) : '',
+  };
+}
+
+export function DebtTermsPanel({ accountId, balance: accountBalance }: DebtTermsPanelProps) {
+  const t = useTranslations('debts.terms');
+  const tCommon = useTranslations('common');
+  const locale = useLocale();
+
+  const [debt, setDebt] = useState<DebtDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<TermsForm>(toForm(null));
+  const [saving, setSaving] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [extraPayment, setExtraPayment] = useState('');
+  const [showAllRows, setShowAllRows] = useState(false);
+
+  const loadDebt = useCallback(async () => {
+    try {
+      const data = await apiClient.getDebt(accountId);
+      setDebt(data);
+      setForm(toForm(data));
+    } catch (error) {
+      console.error('Failed to load debt terms:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId, t]);
+
+  useEffect(() => {
+    loadDebt();
+  }, [loadDebt, accountBalance]);
+
+  const terms = debt?.terms;
+  const balance = debt?.balance ?? 0;
+  const extra = Math.max(parseFloat(extraPayment) || 0, 0);
+
+  const projection = useMemo(() => {
+    if (!terms || balance <= 0) return null;
+
+    const start = new Date();
+    const schedule = getAmortizationSchedule(balance, terms.annualInterestRate, terms.minimumPayment, start);
+    const withExtra = extra > 0
+      ? getAmortizationSchedule(balance, terms.annualInterestRate, terms.minimumPayment + extra, start)
+      : null;
+    const monthsLeft = terms.maturityDate ? monthsUntil(start, terms.maturityDate.slice(0, 7)) : null;
+    const requiredPayment = monthsLeft !== null && monthsLeft > 0
+      ? getRequiredPayment(balance, terms.annualInterestRate, monthsLeft)
+      : null;
+
+    const monthlyInterest = balance * terms.annualInterestRate / 1200;
+
+    return { schedule, withExtra, requiredPayment, monthlyInterest };
+  }, [terms, balance, extra]);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const annualInterestRate = parseFloat(form.annualInterestRate);
+    const minimumPayment = parseFloat(form.minimumPayment);
+    const termMonths = form.termMonths ? parseInt(form.termMonths, 10) : undefined;
+
+    if (!Number.isFinite(annualInterestRate) || annualInterestRate < 0 || annualInterestRate > 100) {
+      toast.error(t('errors.invalidRate'));
+      return;
+    }
+    if (!Number.isFinite(minimumPayment) || minimumPayment < 0) {
+      toast.error(t('errors.invalidPayment'));
+      return;
+    }
+    if (termMonths !== undefined && (!Number.isFinite(termMonths) || termMonths < 1 || termMonths > 600)) {
+      toast.error(t('errors.invalidTerm'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.saveDebtTerms(accountId, {
+        annualInterestRate,
+        minimumPayment,
+        termMonths,
+        startDate: form.startDate || undefined,
+      });
+      toast.success(t('saved'));
+      setEditing(false);
+      await loadDebt();
+    } catch (error) {
+      console.error('Failed to save debt terms:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiClient.deleteDebtTerms(accountId);
+      toast.success(t('deleted'));
+      setConfirmingDelete(false);
+      await loadDebt();
+    } catch (error) {
+      console.error('Failed to delete debt terms:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.deleteFailed'));
+    }
+  };
+
+  if (loading || !debt) {
+    return (
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
+        <p className="text-sm text-ink-500">{loading ? t('loading') : t('errors.loadFailed')}</p>
+      </section>
+    );
+  }
+
+  const currency = debt.currency;
+  const isLoan = debt.type === BackendAccountType.Loan;
+  const schedule = projection?.schedule;
+  const rows = schedule ? (showAllRows ? schedule.rows : schedule.rows.slice(0, PREVIEW_ROWS)) : [];
+
+  return (
+    <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-[var(--font-dash-sans)] text-lg font-semibold text-ink-900">{t('title')}</h2>
+          <p className="mt-0.5 text-sm text-ink-500">{t('subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link href="/debts" className="text-sm font-medium text-primary-600 hover:underline">
+            {t('openPlanner')}
+          </Link>
+          {terms && !editing && (
+            <Button size="sm" variant="secondary" onClick={() => setEditing(true)}>
+              {t('edit')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {(!terms || editing) && (
+        <form onSubmit={handleSave} className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('annualInterestRate')}</label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              max="100"
+              step="0.01"
+              value={form.annualInterestRate}
+              onChange={(event) => setForm((current) => ({ ...current, annualInterestRate: event.target.value }))}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">
+              {isLoan ? t('monthlyPayment') : t('minimumPayment')}
+            </label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.01"
+              value={form.minimumPayment}
+              onChange={(event) => setForm((current) => ({ ...current, minimumPayment: event.target.value }))}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('termMonths')}</label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min="1"
+              max="600"
+              step="1"
+              value={form.termMonths}
+              onChange={(event) => setForm((current) => ({ ...current, termMonths: event.target.value }))}
+              placeholder={t('optional')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('startDate')}</label>
+            <Input
+              type="date"
+              value={form.startDate}
+              onChange={(event) => setForm((current) => ({ ...current, startDate: event.target.value }))}
+            />
+          </div>
+          <div className="flex flex-wrap justify-end gap-2 sm:col-span-2 lg:col-span-4">
+            {terms && (
+              <>
+                <Button type="button" variant="ghost" onClick={() => setConfirmingDelete(true)} disabled={saving}>
+                  {t('remove')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => {
+                    setForm(toForm(debt));
+                    setEditing(false);
+                  }}
+                  disabled={saving}
+                >
+                  {tCommon('cancel')}
+                </Button>
+              </>
+            )}
+            <Button type="submit" disabled={saving}>
+              {saving ? tCommon('saving') : tCommon('save')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {terms && balance <= 0 && (
+        <p className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">{t('paidOff')}</p>
+      )}
+
+      {projection && schedule && (
+        <div className="mt-5 space-y-5">
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            {[
+              { label: t('stats.balance'), value: formatCurrency(balance, currency) },
+              { label: t('stats.payoff'), value: schedule.payoffMonth ? formatPayoffMonth(schedule.payoffMonth, locale) : '—' },
+              { label: t('stats.monthsLeft'), value: schedule.months !== null ? String(schedule.months) : '—' },
+              { label: t('stats.totalInterest'), value: schedule.months !== null ? formatCurrency(schedule.totalInterest, currency) : '—' },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-2xl border border-ink-100 bg-ink-50/60 p-3">
+                <p className="text-xs font-semibold uppercase tracking-wide text-ink-400">{stat.label}</p>
+                <p className="mt-1 font-[var(--font-dash-mono)] text-base font-semibold text-ink-900">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {schedule.months === null && (
+            <div className="flex items-start gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+              <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+              <p>{t('neverPaysOff', { interest: formatCurrency(projection.monthlyInterest, currency) })}</p>
+            </div>
+          )}
+
+          {terms?.maturityDate && (
+            <p className="text-sm text-ink-600">
+              {projection.requiredPayment !== null
+                ? t('requiredPayment', {
+                    date: formatDate(terms.maturityDate),
+                    amount: formatCurrency(projection.requiredPayment, currency),
+                  })
+                : t('pastMaturity', { date: formatDate(terms.maturityDate) })}
+            </p>
+          )}
+
+          <div className="rounded-2xl border border-ink-100 p-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="w-40">
+                <label className="block text-sm font-medium text-ink-700 mb-1">{t('extraPayment')}</label>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="1"
+                  value={extraPayment}
+                  onChange={(event) => setExtraPayment(event.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              {projection.withExtra && (
+                <p className="text-sm text-ink-600">
+                  {projection.withExtra.months === null
+                    ? t('extraStillNeverPaysOff')
+                    : schedule.months === null
+                      ? t('extraPaysOff', { date: formatPayoffMonth(projection.withExtra.payoffMonth!, locale) })
+                      : t('extraSavings', {
+                          date: formatPayoffMonth(projection.withExtra.payoffMonth!, locale),
+                          months: schedule.months - projection.withExtra.months,
+                          interest: formatCurrency(schedule.totalInterest - projection.withExtra.totalInterest, currency),
+                        })}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-semibold text-ink-900">{t('schedule.title')}</h3>
+              <table className="mt-2 w-full text-sm">
+                <thead>
+                  <tr className="border-b border-ink-100 text-left text-xs font-semibold uppercase tracking-wide text-ink-400">
+                    <th className="py-2 pr-3">{t('schedule.month')}</th>
+                    <th className="py-2 pr-3 text-right">{t('schedule.payment')}</th>
+                    <th className="py-2 pr-3 text-right">{t('schedule.interest')}</th>
+                    <th className="py-2 pr-3 text-right">{t('schedule.principal')}</th>
+                    <th className="py-2 text-right">{t('schedule.balance')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.month} className="border-b border-ink-50 last:border-0">
+                      <td className="py-1.5 pr-3 text-ink-700">{formatPayoffMonth(row.month, locale)}</td>
+                      <td className="py-1.5 pr-3 text-right font-[var(--font-dash-mono)]">{formatCurrency(row.payment, currency)}</td>
+                      <td className="py-1.5 pr-3 text-right font-[var(--font-dash-mono)] text-red-600">
+                        {formatCurrency(row.interest, currency)}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right font-[var(--font-dash-mono)]">{formatCurrency(row.principal, currency)}</td>
+                      <td className={cn('py-1.5 text-right font-[var(--font-dash-mono)]', row.balance === 0 && 'text-emerald-600')}>
+                        {formatCurrency(row.balance, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {schedule.rows.length > PREVIEW_ROWS && (
+                <button
+                  type="button"
+                  className="mt-2 text-sm font-medium text-primary-600 hover:underline"
+                  onClick={() => setShowAllRows((current) => !current)}
+                >
+                  {showAllRows ? t('schedule.showLess') : t('schedule.showAll', { count: schedule.rows.length })}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmationDialog
+        isOpen={confirmingDelete}
+        onClose={() => setConfirmingDelete(false)}
+        onConfirm={handleDelete}
+        title={t('removeTitle')}
+        description={t('removeDescription')}
+        confirmText={t('remove')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </section>
+  );
+}
@@ -14,15 +14,11 @@ import {
   convertBackendToFrontendAccountType
 } from '@/lib/utils';
 import { useTranslations } from 'next-intl';
+import type { CreateAccountRequest } from '@/types/accounts';
+import { withCurrencies } from '@/lib/currencies';
 
-export interface Account {
+export interface Account extends CreateAccountRequest {
   id?: number;
-  name: string;
-  type: number; // Backend enum value (1-based)
-  institution?: string;
-  currentBalance: number;
-  currency: string;
-  notes?: string;
 }
 
 interface AccountFormProps {
@@ -53,8 +49,6 @@ const accountTypeKeys: { value: number; key: string }[] = [
   { value: AccountType.Cash, key: 'cash' },
 ];
 
-const currencyKeys = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'BRL'];
-
 export default function AccountForm({
   initialData = {},
   variant = 'full',
@@ -246,9 +240,9 @@ export default function AccountForm({
           onChange={(e) => handleInputChange('currency', e.target.value)}
           className="select"
         >
-          {currencyKeys.map((code) => (
+          {withCurrencies(formData.currency).map((code) => (
             <option key={code} value={code}>
-              {tCurrencies(code)}
+              {tCurrencies.has(code) ? tCurrencies(code) : code}
             </option>
           ))}
         </select>
@@ -3,6 +3,7 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { useTranslations } from 'next-intl';
+import type { CategoryDto } from '@/types/categories';
 import { 
   MagnifyingGlassIcon,
   FolderIcon,
@@ -10,13 +11,7 @@ import {
   ChevronDownIcon
 } from '@heroicons/react/24/outline';
 
-interface Category {
-  id: number;
-  name: string;
-  type: number;
-  parentId: number | null;
-  fullPath?: string;
-}
+type Category = Pick<CategoryDto, 'id' | 'name' | 'fullPath'>;
 
 interface CategoryFilterProps {
   value?: string;
@@ -7,6 +7,7 @@ import { BaseModal } from '@/components/modals/base-modal';
 import { useDeviceDetect } from '@/hooks/use-device-detect';
 import { useAiSuggestionsForTransaction, useAiSuggestionInvalidation } from '@/hooks/use-ai-suggestions';
 import { AiSuggestion } from '@/contexts/ai-suggestions-context';
+import type { CategoryDto } from '@/types/categories';
 import { useTranslations } from 'next-intl';
 import { 
   MagnifyingGlassIcon,
@@ -39,16 +40,7 @@ const QUICK_PICKS = [
   { id: 'income', canonicalKey: 'income', name: 'Income', labelKey: 'income' as const, keywords: ['income', 'salary', 'wage', 'bonus', 'freelance', 'receita', 'salário'], icon: BanknotesIcon, color: 'bg-emerald-100 text-emerald-700' },
 ];
 
-interface Category {
-  id: number;
-  name: string;
-  canonicalKey?: string;
-  parentId: number | null;
-  color?: string;
-  icon?: string;
-  isSystem?: boolean;
-  children?: Category[];
-}
+type Category = Pick<CategoryDto, 'id' | 'name' | 'canonicalKey' | 'color' | 'icon'>;
 
 // Helper function to get suggestion source label key based on categorization method
 const getAiSuggestionSourceKey = (suggestion: AiSuggestion): string => {
@@ -0,0 +1,205 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import {
+  BookmarkIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useTranslations } from 'next-intl';
+import { useCsvMappingProfiles } from '@/hooks/use-csv-mapping-profiles';
+import {
+  CsvMappingProfile,
+  CsvMappingProfileImportError,
+  CsvProfileMappings,
+  findCsvMappingProfiles,
+} from '@/lib/import/csv-mapping-profiles';
+
+interface CsvMappingProfilePanelProps {
+  headers: string[];
+  mappings: CsvProfileMappings;
+  accountId?: number;
+  activeProfileId?: string;
+  suggestedName?: string;
+  onApplyProfile: (profile: CsvMappingProfile) => void;
+  onActiveProfileChange: (profileId: string | undefined) => void;
+}
+
+export function CsvMappingProfilePanel({
+  headers,
+  mappings,
+  accountId,
+  activeProfileId,
+  suggestedName,
+  onApplyProfile,
+  onActiveProfileChange,
+}: CsvMappingProfilePanelProps) {
+  const t = useTranslations('import.aiCsv.mappingReview.profiles');
+  const { profiles, saveProfile, deleteProfile, importProfiles, exportProfiles } = useCsvMappingProfiles();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const matchingProfiles = findCsvMappingProfiles(profiles, headers);
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+  const [profileName, setProfileName] = useState(activeProfile?.name ?? suggestedName ?? '');
+  const [nameFor, setNameFor] = useState(activeProfile?.id);
+
+  // Follow the active profile's name when another profile gets applied
+  if (nameFor !== activeProfile?.id) {
+    setNameFor(activeProfile?.id);
+    if (activeProfile) setProfileName(activeProfile.name);
+  }
+
+  const updatesActive = !!activeProfile && profileName.trim().toLowerCase() === activeProfile.name.toLowerCase();
+
+  const handleSelectProfile = (profileId: string) => {
+    const profile = matchingProfiles.find((candidate) => candidate.id === profileId);
+    if (profile) {
+      onApplyProfile(profile);
+      toast.success(t('applied', { name: profile.name }));
+    }
+  };
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) {
+      toast.error(t('nameRequired'));
+      return;
+    }
+    if (!mappings.dateColumn || !mappings.amountColumn || !mappings.descriptionColumn) {
+      toast.error(t('mappingIncomplete'));
+      return;
+    }
+
+    const saved = saveProfile({
+      id: updatesActive ? activeProfile?.id : undefined,
+      name,
+      headers,
+      mappings,
+      defaultAccountId: accountId,
+    });
+    onActiveProfileChange(saved.id);
+    toast.success(updatesActive ? t('updated', { name }) : t('saved', { name }));
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    deleteProfile(activeProfile.id);
+    onActiveProfileChange(undefined);
+    toast.success(t('deleted', { name: activeProfile.name }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `csv-mapping-profiles-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { imported, skipped } = importProfiles(await file.text());
+      toast.success(t('imported', { count: imported }));
+      if (skipped > 0) toast.warning(t('importSkipped', { count: skipped }));
+    } catch (error) {
+      console.error('CSV mapping profile import error:', error);
+      toast.error(
+        error instanceof CsvMappingProfileImportError
+          ? t('importFailedWithReason', { reason: error.message })
+          : t('importFailed')
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookmarkIcon className="w-5 h-5 text-primary-600" />
+          {t('title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {matchingProfiles.length > 0 ? (
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-2">{t('matchingProfiles')}</label>
+              <Select
+                value={activeProfile && matchingProfiles.includes(activeProfile) ? activeProfile.id : ''}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                placeholder={t('chooseProfile')}
+              >
+                {matchingProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </Select>
+              <p className="text-xs text-ink-500 mt-1.5">{t('matchedByHeaders')}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-ink-600">{t('noMatch')}</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-2">{t('nameLabel')}</label>
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder={t('namePlaceholder')}
+                className="flex-1"
+              />
+              <Button variant="secondary" onClick={handleSave}>
+                {updatesActive ? t('update') : t('save')}
+              </Button>
+            </div>
+            <p className="text-xs text-ink-500 mt-1.5">{t('saveHelp')}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-ink-200">
+            <span className="text-sm text-ink-500">{t('savedCount', { count: profiles.length })}</span>
+            <div className="flex flex-wrap gap-2">
+              {activeProfile && (
+                <Button variant="ghost" size="sm" onClick={handleDelete} className="text-red-600">
+                  <TrashIcon className="w-4 h-4 mr-1" />
+                  {t('delete')}
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()}>
+                <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+                {t('import')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleExport} disabled={profiles.length === 0}>
+                <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                {t('export')}
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,9 @@ import { apiClient } from '@/lib/api-client';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 import { formatCurrency } from '@/lib/utils';
+import type { AccountDto } from '@/types/accounts';
+import type { CsvMappingProfile } from '@/lib/import/csv-mapping-profiles';
+import { CsvMappingProfilePanel } from './csv-mapping-profile-panel';
 
 // Date parsing utility function
 const parseDateWithFormat = (dateStr: string, format: string): Date | null => {
@@ -86,6 +89,8 @@ interface CSVMappingReviewProps {
   onBack?: () => void;
   accountId?: number;
   accountName?: string;
+  /** Saved profile matched by header fingerprint; used instead of the analysis suggestions. */
+  profile?: CsvMappingProfile;
 }
 
 interface CSVAnalysisResult {
@@ -165,7 +170,8 @@ export function CSVMappingReview({
   onImportComplete,
   onBack,
   accountId: initialAccountId,
-  accountName: initialAccountName
+  accountName: initialAccountName,
+  profile: initialProfile
 }: CSVMappingReviewProps) {
   const tCommon = useTranslations('common');
   const tImport = useTranslations('import');
@@ -196,20 +202,26 @@ export function CSVMappingReview({
     return analysisResult.dateFormats[0] || 'MM/dd/yyyy';
   }, [analysisResult.dateFormats]);
 
-  const [mappings, setMappings] = useState<ColumnMappings>({
+  const [mappings, setMappings] = useState<ColumnMappings>(initialProfile ? { ...initialProfile.mappings } : {
     dateFormat: analysisResult.dateFormats[0] || 'MM/dd/yyyy',
     amountConvention: analysisResult.amountConvention
   });
+  const [activeProfileId, setActiveProfileId] = useState<string | undefined>(initialProfile?.id);
   const [isImporting, setIsImporting] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [previewData, setPreviewData] = useState<PreviewDataItem[]>([]);
-  const [accounts, setAccounts] = useState<Array<{id: number, name: string, type: string}>>([]);
-  const [selectedAccountId, setSelectedAccountId] = useState<number | undefined>(initialAccountId);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<number | undefined>(
+    initialAccountId ?? initialProfile?.defaultAccountId
+  );
   const [newAccountName, setNewAccountName] = useState<string>(initialAccountName || '');
   const [uniqueTypeValues, setUniqueTypeValues] = useState<string[]>([]);
 
   // Initialize mappings from AI analysis
   useEffect(() => {
+    // A matched profile already provided the mappings
+    if (initialProfile) return;
+
     // Extract sample dates for format detection
     const sampleDates = analysisResult.sampleRows
       .map(row => {
@@ -255,14 +267,18 @@ export function CSVMappingReview({
     });
 
     setMappings(initialMappings);
-  }, [analysisResult, detectDateFormat]);
+  }, [analysisResult, detectDateFormat, initialProfile]);
 
   // Load accounts
   useEffect(() => {
     const loadAccounts = async () => {
       try {
         const accountsData = await apiClient.getAccounts();
-        setAccounts(accountsData as Array<{id: number, name: string, type: string}>);
+        setAccounts(accountsData);
+        // A profile's default account may have been deleted since the profile was saved
+        setSelectedAccountId(prev =>
+          prev && !accountsData.some(account => account.id === prev) ? undefined : prev
+        );
       } catch (error) {
         console.error('Error loading accounts:', error);
       }
@@ -286,9 +302,13 @@ export function CSVMappingReview({
         console.log('Unique type values:', uniqueValues);
         setUniqueTypeValues(uniqueValues);
       } else if (analysisResult.sampleRows.length > 0) {
-        // Fallback to extracting from sample rows if not provided by backend
-        const typeValues = analysisResult.sampleRows
-          .map(row => row[mappings.typeColumn!])
+        // Fallback to extracting from sample rows if not provided by backend,
+        // keeping values a profile mapped even if these rows don't contain them
+        const typeValues = [
+          ...analysisResult.sampleRows.map(row => row[mappings.typeColumn!]),
+          ...(mappings.typeValueMappings?.incomeValues ?? []),
+          ...(mappings.typeValueMappings?.expenseValues ?? [])
+        ]
           .filter((value, index, arr) => value && arr.indexOf(value) === index)
           .sort();
         setUniqueTypeValues(typeValues);
@@ -319,6 +339,15 @@ export function CSVMappingReview({
     }));
   };
 
+  const handleApplyProfile = (profile: CsvMappingProfile) => {
+    setMappings({ ...profile.mappings });
+    setActiveProfileId(profile.id);
+    if (!initialAccountId && profile.defaultAccountId && accounts.some(account => account.id === profile.defaultAccountId)) {
+      setSelectedAccountId(profile.defaultAccountId);
+      setNewAccountName('');
+    }
+  };
+
   const handleTypeValueToggle = (value: string, type: 'income' | 'expense') => {
     setMappings(prev => {
       const currentMappings = prev.typeValueMappings || { incomeValues: [], expenseValues: [] };
@@ -697,6 +726,17 @@ export function CSVMappingReview({
         </CardContent>
       </Card>
 
+      {/* Mapping Profile */}
+      <CsvMappingProfilePanel
+        headers={analysisResult.availableColumns}
+        mappings={mappings}
+        accountId={selectedAccountId}
+        activeProfileId={activeProfileId}
+        suggestedName={analysisResult.detectedBankFormat !== 'Unknown' ? analysisResult.detectedBankFormat : undefined}
+        onApplyProfile={handleApplyProfile}
+        onActiveProfileChange={setActiveProfileId}
+      />
+
       {/* Account Selection */}
       <Card>
         <CardHeader>
@@ -725,7 +765,7 @@ export function CSVMappingReview({
               >
                 {accounts.map(account => (
                   <option key={account.id} value={account.id}>
-                    {account.name} ({account.type})
+                    {account.name} ({account.typeDisplayName})
                   </option>
                 ))}
               </Select>
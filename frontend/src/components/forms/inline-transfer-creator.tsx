@@ -31,6 +31,7 @@ interface Transaction {
 interface Account {
   id: number;
   name: string;
+  currency?: string;
 }
 
 interface InlineTransferCreatorProps {
@@ -46,15 +47,18 @@ export function InlineTransferCreator({ sourceTransaction, onCancel, onSuccess }
   const [showAllTransactions, setShowAllTransactions] = useState(false);
   const [suggestedTransactions, setSuggestedTransactions] = useState<Transaction[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [sourceCurrency, setSourceCurrency] = useState<string | undefined>();
   const [selectedDestinationTransaction, setSelectedDestinationTransaction] = useState<Transaction | null>(null);
   const [selectedDestinationAccount, setSelectedDestinationAccount] = useState<Account | null>(null);
   const [mode, setMode] = useState<'link' | 'create'>('link');
+  const [missingAmount, setMissingAmount] = useState('');
   const [loading, setLoading] = useState(false);
   const [searching, setSearching] = useState(false);
 
   const loadAccounts = useCallback(async () => {
     try {
       const accountsData = await apiClient.getAccounts() as Account[];
+      setSourceCurrency(accountsData.find(account => account.id === sourceTransaction.accountId)?.currency);
       // Filter out the source account
       const filteredAccounts = accountsData.filter(account => account.id !== sourceTransaction.accountId);
       setAccounts(filteredAccounts);
@@ -164,14 +168,22 @@ export function InlineTransferCreator({ sourceTransaction, onCancel, onSuccess }
       return;
     }
 
+    const convertedAmount = parseFloat(missingAmount);
     setLoading(true);
     try {
-      await apiClient.createMissingTransfer({
+      const result = await apiClient.createMissingTransfer({
         existingTransactionId: sourceTransaction.id,
         missingAccountId: selectedDestinationAccount.id,
         description: t('transferFromLabel', { name: sourceTransaction.accountName }),
-        transactionDate: sourceTransaction.transactionDate
-      });
+        transactionDate: sourceTransaction.transactionDate,
+        missingAmount: isCrossCurrency && convertedAmount > 0 ? convertedAmount : undefined
+      }) as { success?: boolean; message?: string };
+
+      // A transfer between currencies fails without an amount or a stored rate
+      if (result?.success === false) {
+        toast.error(result.message || tToasts('transferCreateFailed'));
+        return;
+      }
 
       toast.success(tToasts('transferCreated'));
       onSuccess();
@@ -183,6 +195,9 @@ export function InlineTransferCreator({ sourceTransaction, onCancel, onSuccess }
     }
   };
 
+  const destinationCurrency = selectedDestinationAccount?.currency;
+  const isCrossCurrency = !!sourceCurrency && !!destinationCurrency && sourceCurrency !== destinationCurrency;
+
   return (
     <div className="bg-white border border-ink-200 rounded-lg shadow-sm mt-2 p-6 space-y-6 animate-in slide-in-from-top-2 duration-200">
       {/* Header */}
@@ -210,7 +225,7 @@ export function InlineTransferCreator({ sourceTransaction, onCancel, onSuccess }
         <div className="text-sm text-ink-600">
           <div className="font-medium text-ink-900 mb-1">{sourceTransaction.description}</div>
           <div className="flex items-center gap-4">
-            <span className="font-medium">{formatCurrency(Math.abs(sourceTransaction.amount))}</span>
+            <span className="font-medium">{formatCurrency(Math.abs(sourceTransaction.amount), sourceCurrency)}</span>
             <span>{formatDate(sourceTransaction.transactionDate)}</span>
           </div>
         </div>
@@ -393,13 +408,39 @@ export function InlineTransferCreator({ sourceTransaction, onCancel, onSuccess }
               <div className="text-sm text-ink-600">
                 <div className="font-medium text-ink-900 mb-1">{t('newTransferTransactionHint')}</div>
                 <div className="flex items-center gap-4">
-                  <span className="font-medium">{formatCurrency(Math.abs(sourceTransaction.amount))}</span>
+                  {isCrossCurrency ? (
+                    <span className="font-medium">
+                      {parseFloat(missingAmount) > 0
+                        ? formatCurrency(parseFloat(missingAmount), destinationCurrency)
+                        : t('convertedAtStoredRate', { currency: destinationCurrency ?? '' })}
+                    </span>
+                  ) : (
+                    <span className="font-medium">{formatCurrency(Math.abs(sourceTransaction.amount), sourceCurrency)}</span>
+                  )}
                   <span>{formatDate(sourceTransaction.transactionDate)}</span>
                 </div>
               </div>
             </div>
           )}
 
+          {isCrossCurrency && (
+            <div className="space-y-2">
+              <Label htmlFor="missingAmount" className="text-sm font-medium text-ink-700">
+                {t('amountInCurrency', { currency: destinationCurrency ?? '' })}
+              </Label>
+              <Input
+                id="missingAmount"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                value={missingAmount}
+                onChange={(e) => setMissingAmount(e.target.value)}
+              />
+              <p className="text-xs text-ink-500">{t('amountInCurrencyHint')}</p>
+            </div>
+          )}
+
           <Button
             onClick={handleCreateNewTransaction}
             disabled={!selectedDestinationAccount || loading}
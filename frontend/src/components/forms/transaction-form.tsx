@@ -6,38 +6,24 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { apiClient } from '@/lib/api-client';
 import { CategoryPicker } from '@/components/forms/category-picker';
+import { TransactionSplitsEditor } from '@/components/forms/transaction-splits-editor';
+import { TagInput } from '@/components/tags/tag-input';
 import DescriptionAutocomplete from '@/components/forms/description-autocomplete';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { AiSuggestion } from '@/contexts/ai-suggestions-context';
+import { newSplitLine, SplitLineDraft, validateSplitLines } from '@/lib/transactions/splits';
 import { 
   TagIcon,
   BuildingOffice2Icon,
   ExclamationTriangleIcon,
   PlusIcon,
-  MinusIcon
+  MinusIcon,
+  ScissorsIcon
 } from '@heroicons/react/24/outline';
 import AccountCreationModal from '@/components/modals/account-creation-modal';
-
-interface Account {
-  id: number;
-  name: string;
-  currentBalance: number;
-  currency: string;
-}
-
-interface Category {
-  id: number;
-  name: string;
-  color?: string;
-  type: number;
-  isSystemCategory?: boolean;
-  fullPath?: string;
-  parentCategoryId?: number | null;
-  parentId: number | null;
-  icon?: string;
-  isSystem?: boolean;
-  children?: Category[];
-}
+import type { AccountDto } from '@/types/accounts';
+import type { CategoryDto } from '@/types/categories';
+import type { TagDto } from '@/types/tags';
 
 export type TransactionStatus = 'pending' | 'cleared' | 'reconciled' | 'cancelled';
 
@@ -52,6 +38,9 @@ export interface TransactionFormData {
   categoryId: string;
   notes: string;
   location: string;
+  tags: string[];
+  /** Empty unless the transaction is split across categories. */
+  splits: SplitLineDraft[];
 }
 
 interface TransactionFormProps {
@@ -61,6 +50,7 @@ interface TransactionFormProps {
   submitText?: string;
   isModal?: boolean;
   transactionId?: number; // For edit mode to fetch AI suggestions
+  allowSplits?: boolean; // Transfers can't be split across categories
 }
 
 export function TransactionForm({ 
@@ -69,13 +59,15 @@ export function TransactionForm({
   onCancel,
   submitText,
   isModal = false,
-  transactionId
+  transactionId,
+  allowSplits = true
 }: TransactionFormProps) {
   const t = useTranslations('transactions');
   const tCommon = useTranslations('common');
   const [loading, setLoading] = useState(false);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<AccountDto[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [availableTags, setAvailableTags] = useState<TagDto[]>([]);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [showAccountModal, setShowAccountModal] = useState(false);
   const [aiSuggestions, setAiSuggestions] = useState<AiSuggestion[]>([]);
@@ -94,6 +86,8 @@ export function TransactionForm({
     categoryId: '',
     notes: '',
     location: '',
+    tags: [],
+    splits: [],
     ...initialData
   });
 
@@ -101,6 +95,7 @@ export function TransactionForm({
   useEffect(() => {
     loadAccounts();
     loadCategories();
+    loadTags();
   }, []);
 
   // Auto-select first account if none selected
@@ -115,7 +110,7 @@ export function TransactionForm({
 
   const loadAccounts = async () => {
     try {
-      const accountsData = await apiClient.getAccounts() as Account[];
+      const accountsData = await apiClient.getAccounts();
       setAccounts(accountsData || []);
     } catch (error) {
       console.error('Failed to load accounts:', error);
@@ -125,18 +120,23 @@ export function TransactionForm({
 
   const loadCategories = async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Category[];
-      const categoriesWithPath = (categoriesData || []).map(cat => ({
-        ...cat,
-        fullPath: cat.fullPath || cat.name
-      }));
-      setCategories(categoriesWithPath);
+      const categoriesData = await apiClient.getCategories();
+      setCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
       setCategories([]);
     }
   };
 
+  const loadTags = async () => {
+    try {
+      setAvailableTags(await apiClient.getTags());
+    } catch (error) {
+      // Suggestions are optional; new tags can still be typed
+      console.error('Failed to load tags:', error);
+    }
+  };
+
   const validateForm = () => {
     const newErrors: { [key: string]: string } = {};
 
@@ -158,6 +158,13 @@ export function TransactionForm({
       newErrors.accountId = t('validation.accountRequired');
     }
 
+    if (formData.splits.length > 0) {
+      const splitError = validateSplitLines(parseFloat(formData.amount) || 0, formData.splits);
+      if (splitError) {
+        newErrors.splits = t(`splits.errors.${splitError}`);
+      }
+    }
+
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -204,6 +211,8 @@ export function TransactionForm({
           categoryId: '',
           notes: '',
           location: '',
+          tags: [],
+          splits: [],
         }));
         
         // Focus back on amount field
@@ -225,7 +234,7 @@ export function TransactionForm({
     }
   };
 
-  const handleInputChange = (field: keyof TransactionFormData, value: string) => {
+  const handleInputChange = (field: Exclude<keyof TransactionFormData, 'splits' | 'tags'>, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
     if (errors[field]) {
@@ -233,7 +242,25 @@ export function TransactionForm({
     }
   };
 
-  const handleAccountCreated = (account: Account & { id: number }) => {
+  const handleSplitsChange = (splits: SplitLineDraft[]) => {
+    setFormData(prev => ({ ...prev, splits }));
+    if (errors.splits) {
+      setErrors(prev => ({ ...prev, splits: '' }));
+    }
+  };
+
+  // Start from the current category and amount so nothing typed so far is lost
+  const startSplitting = () => {
+    const total = Math.abs(parseFloat(formData.amount) || 0);
+    handleSplitsChange([newSplitLine(total, formData.categoryId), newSplitLine()]);
+  };
+
+  const stopSplitting = () => {
+    setFormData(prev => ({ ...prev, categoryId: prev.splits[0]?.categoryId || prev.categoryId, splits: [] }));
+    setErrors(prev => ({ ...prev, splits: '' }));
+  };
+
+  const handleAccountCreated = (account: AccountDto) => {
     setAccounts(prev => [...prev, account]);
     setFormData(prev => ({ ...prev, accountId: account.id.toString() }));
     setErrors(prev => ({ ...prev, accountId: '', submit: '' }));
@@ -471,23 +498,49 @@ export function TransactionForm({
 
         {/* Category Selection */}
         <div>
-          <label htmlFor="categoryId" className="block text-sm font-medium text-ink-700 mb-2">
-            <TagIcon className="w-4 h-4 inline mr-1" />
-            {tCommon('category')}
-          </label>
-          
-          <CategoryPicker
-            categories={categories}
-            value={formData.categoryId}
-            onChange={(categoryId) => handleInputChange('categoryId', categoryId.toString())}
-            placeholder={t('selectCategory')}
-            disabled={loading}
-            error={!!errors.categoryId}
-            aiSuggestions={aiSuggestions}
-            isLoadingAiSuggestions={loadingSuggestions}
-          />
-          {errors.categoryId && (
-            <p className="mt-1 text-sm text-red-600">{errors.categoryId}</p>
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <label htmlFor="categoryId" className="block text-sm font-medium text-ink-700">
+              <TagIcon className="w-4 h-4 inline mr-1" />
+              {formData.splits.length > 0 ? t('splits.title') : tCommon('category')}
+            </label>
+            {allowSplits && (
+              <button
+                type="button"
+                onClick={formData.splits.length > 0 ? stopSplitting : startSplitting}
+                className="inline-flex items-center gap-1 text-xs font-medium text-primary-700 hover:text-primary-800 disabled:opacity-50"
+                disabled={loading}
+              >
+                <ScissorsIcon className="w-3.5 h-3.5" />
+                {formData.splits.length > 0 ? t('splits.useSingleCategory') : t('splits.splitAction')}
+              </button>
+            )}
+          </div>
+
+          {formData.splits.length > 0 ? (
+            <TransactionSplitsEditor
+              lines={formData.splits}
+              onChange={handleSplitsChange}
+              total={parseFloat(formData.amount) || 0}
+              categories={categories}
+              disabled={loading}
+              error={errors.splits}
+            />
+          ) : (
+            <>
+              <CategoryPicker
+                categories={categories}
+                value={formData.categoryId}
+                onChange={(categoryId) => handleInputChange('categoryId', categoryId.toString())}
+                placeholder={t('selectCategory')}
+                disabled={loading}
+                error={!!errors.categoryId}
+                aiSuggestions={aiSuggestions}
+                isLoadingAiSuggestions={loadingSuggestions}
+              />
+              {errors.categoryId && (
+                <p className="mt-1 text-sm text-red-600">{errors.categoryId}</p>
+              )}
+            </>
           )}
         </div>
 
@@ -505,6 +558,19 @@ export function TransactionForm({
           />
         </div>
 
+        {/* Tags Field */}
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-ink-700 mb-2">
+            {t('tagsLabel')}
+          </label>
+          <TagInput
+            id="tags"
+            value={formData.tags}
+            onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+            availableTags={availableTags}
+          />
+        </div>
+
         {/* Notes Field */}
         <div>
           <label htmlFor="notes" className="block text-sm font-medium text-ink-700 mb-2">
@@ -0,0 +1,109 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CategoryPicker } from '@/components/forms/category-picker';
+import { newSplitLine, splitRemaining, SplitLineDraft } from '@/lib/transactions/splits';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { CategoryDto } from '@/types/categories';
+
+interface TransactionSplitsEditorProps {
+  lines: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  /** The transaction amount the lines have to add up to. */
+  total: number;
+  categories: CategoryDto[];
+  disabled?: boolean;
+  error?: string;
+}
+
+export function TransactionSplitsEditor({
+  lines,
+  onChange,
+  total,
+  categories,
+  disabled = false,
+  error,
+}: TransactionSplitsEditorProps) {
+  const t = useTranslations('transactions.splits');
+  const remaining = splitRemaining(total, lines);
+
+  const updateLine = (key: string, changes: Partial<SplitLineDraft>) => {
+    onChange(lines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  // New lines start with whatever is left so the common two-way split is one click
+  const addLine = () => onChange([...lines, newSplitLine(Math.max(remaining, 0))]);
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line, index) => (
+        <div key={line.key} className="rounded-lg border border-ink-200 p-3">
+          <div className="grid gap-3 sm:grid-cols-[1fr_8rem_auto] sm:items-start">
+            <CategoryPicker
+              categories={categories}
+              value={line.categoryId}
+              onChange={(categoryId) => updateLine(line.key, { categoryId: categoryId.toString() })}
+              placeholder={t('categoryPlaceholder')}
+              disabled={disabled}
+              disableQuickPicks={true}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={line.amount}
+              placeholder="0.00"
+              aria-label={t('amountLabel', { number: index + 1 })}
+              onChange={(event) => updateLine(line.key, { amount: event.target.value })}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-ink-400 hover:text-red-600"
+              onClick={() => onChange(lines.filter((candidate) => candidate.key !== line.key))}
+              disabled={disabled}
+              aria-label={t('removeLine')}
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            className="mt-2"
+            value={line.description}
+            maxLength={500}
+            placeholder={t('descriptionPlaceholder')}
+            aria-label={t('descriptionLabel', { number: index + 1 })}
+            onChange={(event) => updateLine(line.key, { description: event.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Button type="button" variant="secondary" size="sm" onClick={addLine} disabled={disabled}>
+          <PlusIcon className="mr-1 h-4 w-4" />
+          {t('addLine')}
+        </Button>
+        <p
+          className={cn(
+            'text-sm font-medium',
+            remaining === 0 ? 'text-success-700' : remaining > 0 ? 'text-ink-600' : 'text-red-600'
+          )}
+        >
+          {remaining === 0
+            ? t('balanced')
+            : remaining > 0
+              ? t('remaining', { amount: formatCurrency(remaining) })
+              : t('over', { amount: formatCurrency(-remaining) })}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { apiClient, type GoalDetail } from '@/lib/api-client';
+import type { GoalContext } from '@/lib/goals/goal-type-config';
+import { DEFAULT_PAYOFF_PLAN_SETTINGS, formatPayoffMonth, monthsUntil, simulatePayoff, toPlanDebts } from '@/lib/debts/payoff';
+import { formatCurrency } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { DebtsResponse } from '@/types/debts';
+
+interface DebtPayoffPanelProps {
+  goal: GoalDetail;
+  ctx: GoalContext;
+}
+
+const panelClassName = 'rounded-[24px] border border-rose-100/60 bg-white/90 p-6 shadow-sm backdrop-blur-xs';
+
+export function DebtPayoffPanel({ goal }: DebtPayoffPanelProps) {
+  const [data, setData] = useState<DebtsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchDebts() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await apiClient.getDebts();
+        if (!cancelled) {
+          setData(response);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError('Unable to load your debts.');
+          console.error('Failed to fetch debts:', err);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchDebts();
+    return () => { cancelled = true; };
+  }, []);
+
+  // The goal follows the payoff plan chosen on the planner page
+  const settings = data?.plan ?? DEFAULT_PAYOFF_PLAN_SETTINGS;
+  const plan = useMemo(
+    () => (data ? simulatePayoff(toPlanDebts(data.debts), data.plan.strategy, data.plan.extraPayment, new Date()) : null),
+    [data]
+  );
+
+  if (isLoading) {
+    return (
+      <div className={panelClassName}>
+        <div className="space-y-4">
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-10 w-40" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data || !plan) {
+    return (
+      <div className={panelClassName}>
+        <p className="text-sm text-ink-500">{error ?? 'No debt data available.'}</p>
+      </div>
+    );
+  }
+
+  const linkedDebt = goal.linkedAccountId !== undefined
+    ? data.debts.find((debt) => debt.accountId === goal.linkedAccountId)
+    : undefined;
+  const linkedResult = linkedDebt ? plan.debts.find((debt) => debt.id === linkedDebt.accountId) : undefined;
+
+  if (goal.linkedAccountId !== undefined && !linkedDebt) {
+    return (
+      <div className={panelClassName}>
+        <h3 className="text-base font-semibold text-ink-900">Projected Payoff</h3>
+        <p className="mt-2 text-sm text-ink-500">
+          {goal.linkedAccountName ?? 'The linked account'} has nothing owing.
+        </p>
+      </div>
+    );
+  }
+
+  if (data.debts.length === 0) {
+    return (
+      <div className={panelClassName}>
+        <h3 className="text-base font-semibold text-ink-900">Projected Payoff</h3>
+        <p className="mt-2 text-sm text-ink-500">None of your loan or credit card accounts has a balance owing.</p>
+      </div>
+    );
+  }
+
+  const payoffMonth = linkedResult ? linkedResult.payoffMonth : plan.payoffMonth;
+  const interest = linkedResult ? linkedResult.interest : plan.totalInterest;
+  const currency = data.baseCurrency;
+  const today = new Date();
+  const deadlineMonth = goal.deadline ? goal.deadline.slice(0, 7) : null;
+  const monthsLate = payoffMonth && deadlineMonth ? monthsUntil(today, payoffMonth) - monthsUntil(today, deadlineMonth) : null;
+  const missingTerms = (linkedDebt ? [linkedDebt] : data.debts).some((debt) => !debt.terms);
+
+  return (
+    <div className={panelClassName}>
+      <div className="space-y-5">
+        <div className="space-y-1">
+          <h3 className="text-base font-semibold text-ink-900">
+            {linkedDebt ? 'Projected Payoff' : 'Projected Debt-Free Date'}
+          </h3>
+          <p className="font-[var(--font-dash-sans)] text-3xl font-bold tracking-tight text-rose-700">
+            {payoffMonth ? formatPayoffMonth(payoffMonth) : 'Not on current payments'}
+          </p>
+          <p className="text-sm text-ink-500">
+            {linkedDebt ? (
+              <>
+                <Link href={`/accounts/${linkedDebt.accountId}`} className="font-medium text-rose-700 hover:underline">
+                  {linkedDebt.name}
+                </Link>{' '}
+                in your {settings.strategy} plan
+              </>
+            ) : (
+              <>All {data.debts.length} debts in your {settings.strategy} plan</>
+            )}
+            {settings.extraPayment > 0 && <> with {formatCurrency(settings.extraPayment, currency)} extra a month</>}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">Interest To Pay</p>
+            <p className="mt-1 font-[var(--font-dash-sans)] text-xl font-bold text-ink-900">
+              {payoffMonth ? formatCurrency(interest, currency) : '—'}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">Against Deadline</p>
+            <p
+              className={`mt-1 font-[var(--font-dash-sans)] text-xl font-bold ${
+                monthsLate === null ? 'text-ink-900' : monthsLate > 0 ? 'text-rose-600' : 'text-emerald-600'
+              }`}
+            >
+              {monthsLate === null
+                ? '—'
+                : monthsLate > 0
+                  ? `${monthsLate} ${monthsLate === 1 ? 'month' : 'months'} late`
+                  : 'On track'}
+            </p>
+            {!goal.deadline && <p className="text-xs text-ink-500">No deadline set</p>}
+          </div>
+        </div>
+
+        {missingTerms && (
+          <p className="text-xs text-amber-700">
+            Some debts have no interest rate or minimum payment yet, so this projection is incomplete.
+          </p>
+        )}
+
+        <Link href="/debts" className="inline-block text-sm font-medium text-rose-700 hover:underline">
+          Open the payoff planner
+        </Link>
+      </div>
+    </div>
+  );
+}
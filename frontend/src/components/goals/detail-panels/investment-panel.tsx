@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiClient, type GoalDetail } from '@/lib/api-client';
+import type { GoalContext } from '@/lib/goals/goal-type-config';
+import { getAllocationSlices } from '@/lib/investments/investments';
+import { formatCurrency } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { PortfolioResponse } from '@/types/investments';
+
+interface InvestmentPanelProps {
+  goal: GoalDetail;
+  ctx: GoalContext;
+}
+
+const panelClassName = 'rounded-[24px] border border-blue-100/60 bg-white/90 p-6 shadow-sm backdrop-blur-xs';
+
+function gainClassName(value: number) {
+  return value > 0 ? 'text-emerald-600' : value < 0 ? 'text-rose-600' : 'text-ink-900';
+}
+
+export function InvestmentPanel({ goal }: InvestmentPanelProps) {
+  const [portfolio, setPortfolio] = useState<PortfolioResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(goal.linkedAccountId !== undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (goal.linkedAccountId === undefined) return;
+    const accountId = goal.linkedAccountId;
+    let cancelled = false;
+
+    async function fetchPortfolio() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await apiClient.getPortfolio(accountId);
+        if (!cancelled) {
+          setPortfolio(data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError('Unable to load the linked portfolio.');
+          console.error('Failed to fetch portfolio:', err);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchPortfolio();
+    return () => { cancelled = true; };
+  }, [goal.linkedAccountId]);
+
+  if (goal.linkedAccountId === undefined) {
+    return (
+      <div className={panelClassName}>
+        <h3 className="text-base font-semibold text-ink-900">Portfolio Tracking</h3>
+        <p className="mt-2 text-sm text-ink-500">
+          Link an investment account to this goal to track it against the value of your holdings.
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className={panelClassName}>
+        <div className="space-y-4">
+          <Skeleton className="h-6 w-48" />
+          <div className="grid grid-cols-2 gap-4">
+            <Skeleton className="h-20 rounded-2xl" />
+            <Skeleton className="h-20 rounded-2xl" />
+          </div>
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !portfolio) {
+    return (
+      <div className={panelClassName}>
+        <p className="text-sm text-ink-500">{error ?? 'No portfolio data available.'}</p>
+      </div>
+    );
+  }
+
+  const slices = getAllocationSlices(portfolio.holdings);
+  const currency = portfolio.currency;
+
+  return (
+    <div className={panelClassName}>
+      <div className="space-y-6">
+        <div className="space-y-1">
+          <h3 className="text-base font-semibold text-ink-900">Portfolio Value</h3>
+          <p className="font-[var(--font-dash-sans)] text-3xl font-bold tracking-tight text-blue-700">
+            {formatCurrency(portfolio.totalValue, currency)}
+          </p>
+          <p className="text-sm text-ink-500">
+            {formatCurrency(portfolio.marketValue, currency)} in holdings and{' '}
+            {formatCurrency(portfolio.cashBalance, currency)} in cash in{' '}
+            <Link href={`/accounts/${portfolio.accountId}`} className="font-medium text-blue-700 hover:underline">
+              {goal.linkedAccountName ?? 'the linked account'}
+            </Link>
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">Unrealised Gain</p>
+            <p className={`mt-1 font-[var(--font-dash-sans)] text-xl font-bold ${gainClassName(portfolio.unrealisedGain)}`}>
+              {formatCurrency(portfolio.unrealisedGain, currency)}
+            </p>
+            {portfolio.unrealisedGainPercent !== undefined && (
+              <p className="text-xs text-ink-500">{portfolio.unrealisedGainPercent.toFixed(2)}% on cost</p>
+            )}
+          </div>
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">Realised + Dividends</p>
+            <p className={`mt-1 font-[var(--font-dash-sans)] text-xl font-bold ${gainClassName(portfolio.realisedGain + portfolio.dividends)}`}>
+              {formatCurrency(portfolio.realisedGain + portfolio.dividends, currency)}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">Time-Weighted Return</p>
+            <p className={`mt-1 font-[var(--font-dash-sans)] text-xl font-bold ${gainClassName(portfolio.timeWeightedReturn ?? 0)}`}>
+              {portfolio.timeWeightedReturn !== undefined ? `${portfolio.timeWeightedReturn.toFixed(2)}%` : '—'}
+            </p>
+          </div>
+        </div>
+
+        {slices.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-base font-semibold text-ink-900">Allocation</h3>
+            <div className="flex h-3 overflow-hidden rounded-full bg-ink-100">
+              {slices.map((slice) => (
+                <div
+                  key={slice.symbol ?? 'other'}
+                  className="h-full"
+                  style={{ width: `${slice.percent}%`, backgroundColor: slice.color }}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-ink-600">
+              {slices.map((slice) => (
+                <span key={slice.symbol ?? 'other'} className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: slice.color }} />
+                  {slice.symbol ?? 'Other'} {slice.percent.toFixed(1)}%
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
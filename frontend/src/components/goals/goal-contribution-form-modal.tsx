@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/modals/base-modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { apiClient } from '@/lib/api-client';
+
+interface GoalContributionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  goalId: number;
+}
+
+type ContributionKind = 'contribution' | 'withdrawal';
+
+export function GoalContributionFormModal({ isOpen, onClose, onSaved, goalId }: GoalContributionFormModalProps) {
+  const t = useTranslations('goals.contributions.form');
+  const tCommon = useTranslations('common');
+  const today = new Date().toISOString().slice(0, 10);
+  const [kind, setKind] = useState<ContributionKind>('contribution');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error(t('errors.amountRequired'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await apiClient.addGoalContribution(goalId, {
+        amount: kind === 'withdrawal' ? -value : value,
+        contributionDate: date,
+        note: note.trim() || undefined,
+      });
+      toast.success(kind === 'withdrawal' ? t('withdrawalSaved') : t('saved'));
+      onSaved();
+    } catch (error) {
+      console.error('Failed to record contribution:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={t('title')}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('kind')}</label>
+            <Select value={kind} onChange={(event) => setKind(event.target.value as ContributionKind)}>
+              <option value="contribution">{t('kinds.contribution')}</option>
+              <option value="withdrawal">{t('kinds.withdrawal')}</option>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('date')}</label>
+            <Input type="date" value={date} max={today} onChange={(event) => setDate(event.target.value)} required />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('amount')}</label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            placeholder="0.00"
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('note')}</label>
+          <Textarea value={note} onChange={(event) => setNote(event.target.value)} maxLength={500} rows={2} />
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={saving}>
+            {tCommon('cancel')}
+          </Button>
+          <Button type="submit" disabled={saving}>
+            {saving ? tCommon('saving') : tCommon('save')}
+          </Button>
+        </div>
+      </form>
+    </BaseModal>
+  );
+}
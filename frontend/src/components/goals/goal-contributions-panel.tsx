@@ -0,0 +1,356 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Select } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { GoalContributionFormModal } from '@/components/goals/goal-contribution-form-modal';
+import {
+  apiClient,
+  type GoalContribution,
+  type GoalContributionsResponse,
+  type GoalDetail,
+  type WalletSummary,
+} from '@/lib/api-client';
+import { formatPayoffMonth } from '@/lib/debts/payoff';
+import { getContributionSeries, getGoalPace, PACE_WINDOW_MONTHS } from '@/lib/goals/goal-contributions';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { TagDto } from '@/types/tags';
+
+interface GoalContributionsPanelProps {
+  goal: GoalDetail;
+  /** Called after the ledger changes, so the goal's amounts can be reloaded. */
+  onChanged: () => void;
+}
+
+/** The ledger starts with the most recent entries; the rest are shown on request. */
+const LEDGER_PREVIEW_SIZE = 10;
+
+const panelClassName = 'rounded-[24px] border border-ink-100 bg-white/90 p-6 shadow-sm backdrop-blur-xs';
+
+export function GoalContributionsPanel({ goal, onChanged }: GoalContributionsPanelProps) {
+  const t = useTranslations('goals.contributions');
+  const tCommon = useTranslations('common');
+  const locale = useLocale();
+  const [ledger, setLedger] = useState<GoalContributionsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tags, setTags] = useState<TagDto[]>([]);
+  const [wallets, setWallets] = useState<WalletSummary[]>([]);
+  const [contributionTag, setContributionTag] = useState(goal.contributionTag ?? '');
+  const [walletId, setWalletId] = useState(goal.walletId?.toString() ?? '');
+  const [isSavingSources, setIsSavingSources] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<GoalContribution | null>(null);
+
+  const isLinked = goal.linkedAccountId !== undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchContributions() {
+      try {
+        const data = await apiClient.getGoalContributions(goal.id);
+        if (!cancelled) {
+          setLedger(data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          console.error('Failed to fetch goal contributions:', err);
+          toast.error(t('loadError'));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchContributions();
+    return () => { cancelled = true; };
+  // The goal's amount and timestamp change whenever its contributions do
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [goal.id, goal.currentAmount, goal.updatedAt]);
+
+  useEffect(() => {
+    if (isLinked) return;
+    let cancelled = false;
+
+    async function fetchSources() {
+      try {
+        const [tagList, walletList] = await Promise.all([apiClient.getTags(), apiClient.getWallets()]);
+        if (!cancelled) {
+          setTags(tagList);
+          setWallets(walletList);
+        }
+      } catch (err) {
+        console.error('Failed to fetch tags and wallets:', err);
+      }
+    }
+
+    fetchSources();
+    return () => { cancelled = true; };
+  }, [isLinked]);
+
+  const handleSaveSources = async () => {
+    try {
+      setIsSavingSources(true);
+      await apiClient.updateGoalContributionSources(goal.id, {
+        contributionTag: contributionTag || undefined,
+        walletId: walletId ? Number(walletId) : undefined,
+      });
+      toast.success(t('sources.saved'));
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : t('sources.saveError'));
+    } finally {
+      setIsSavingSources(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (pendingDelete?.id === undefined) return;
+    try {
+      await apiClient.deleteGoalContribution(goal.id, pendingDelete.id);
+      toast.success(t('deleted'));
+      onChanged();
+    } catch {
+      toast.error(t('deleteError'));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className={panelClassName}>
+        <div className="space-y-4">
+          <Skeleton className="h-6 w-48" />
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <Skeleton className="h-20 rounded-2xl" />
+            <Skeleton className="h-20 rounded-2xl" />
+            <Skeleton className="h-20 rounded-2xl" />
+          </div>
+          <Skeleton className="h-56 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const today = new Date();
+  const contributions = ledger?.contributions ?? [];
+  const series = getContributionSeries(contributions, today);
+  const pace = getGoalPace(contributions, goal.remainingAmount, goal.deadline, today);
+  const entries = [...contributions].reverse();
+  const visibleEntries = showAll ? entries : entries.slice(0, LEDGER_PREVIEW_SIZE);
+  const sourcesChanged = contributionTag !== (goal.contributionTag ?? '') || walletId !== (goal.walletId?.toString() ?? '');
+  const isCompleted = goal.remainingAmount <= 0;
+
+  const describe = (entry: GoalContribution) => {
+    if (entry.source === 'Adjustment') {
+      return isLinked ? t('openingBalance') : t('adjustment');
+    }
+    return entry.description || t(`sourceLabels.${entry.source}`);
+  };
+
+  return (
+    <div className={panelClassName}>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1">
+            <h3 className="text-base font-semibold text-ink-900">{t('title')}</h3>
+            <p className="text-sm text-ink-500">
+              {isLinked ? t('linkedDescription', { account: goal.linkedAccountName ?? '' }) : t('description')}
+            </p>
+          </div>
+          {!isLinked && (
+            <Button variant="outline" onClick={() => setShowForm(true)}>
+              <PlusIcon className="h-4 w-4 mr-2" />
+              {t('add')}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">{t('pace.required')}</p>
+            <p className="mt-1 font-[var(--font-dash-sans)] text-xl font-bold text-ink-900">
+              {pace.required !== null ? formatCurrency(pace.required) : '—'}
+            </p>
+            <p className="text-xs text-ink-500">
+              {!goal.deadline ? t('pace.noDeadline') : pace.required === null ? t('pace.deadlinePassed') : t('pace.perMonth')}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">{t('pace.actual')}</p>
+            <p
+              className={cn(
+                'mt-1 font-[var(--font-dash-sans)] text-xl font-bold',
+                pace.required !== null && pace.actual < pace.required ? 'text-rose-600' : 'text-ink-900',
+              )}
+            >
+              {formatCurrency(pace.actual)}
+            </p>
+            <p className="text-xs text-ink-500">{t('pace.actualHint', { months: PACE_WINDOW_MONTHS })}</p>
+          </div>
+          <div className="rounded-2xl border border-ink-100 bg-ink-50/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-ink-400">{t('pace.projected')}</p>
+            <p className="mt-1 font-[var(--font-dash-sans)] text-xl font-bold text-ink-900">
+              {isCompleted
+                ? t('pace.reached')
+                : pace.projectedMonth ? formatPayoffMonth(pace.projectedMonth, locale) : '—'}
+            </p>
+            {!isCompleted && (
+              <p className="text-xs text-ink-500">
+                {!pace.projectedMonth
+                  ? t('pace.notAtCurrentPace')
+                  : goal.deadline && pace.projectedMonth > goal.deadline.slice(0, 7)
+                    ? t('pace.afterDeadline')
+                    : t('pace.atCurrentPace')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {series.length > 0 && (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={series} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} tickFormatter={(month: string) => formatPayoffMonth(month, locale)} />
+                <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatCurrency(value)} width={90} />
+                <Tooltip
+                  formatter={(value, name) => [formatCurrency(Number(value)), name === 'total' ? t('chart.total') : t('chart.monthly')]}
+                  labelFormatter={(label) => formatPayoffMonth(String(label), locale)}
+                />
+                <ReferenceLine y={goal.targetAmount} stroke="#10b981" strokeDasharray="4 4" />
+                <Bar dataKey="amount" fill="#93c5fd" radius={[4, 4, 0, 0]} />
+                <Line type="monotone" dataKey="total" stroke="#2563eb" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {!isLinked && (
+          <div className="space-y-3 rounded-2xl border border-ink-100 p-4">
+            <div>
+              <h4 className="text-sm font-semibold text-ink-900">{t('sources.title')}</h4>
+              <p className="text-xs text-ink-500">{t('sources.description')}</p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+              <div>
+                <label className="block text-sm font-medium text-ink-700 mb-1">{t('sources.tag')}</label>
+                <Select value={contributionTag} onChange={(event) => setContributionTag(event.target.value)}>
+                  <option value="">{t('sources.none')}</option>
+                  {contributionTag && !tags.some((tag) => tag.name === contributionTag) && (
+                    <option value={contributionTag}>{contributionTag}</option>
+                  )}
+                  {tags.map((tag) => (
+                    <option key={tag.name} value={tag.name}>
+                      {tag.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-ink-700 mb-1">{t('sources.wallet')}</label>
+                <Select value={walletId} onChange={(event) => setWalletId(event.target.value)}>
+                  <option value="">{t('sources.none')}</option>
+                  {walletId && !wallets.some((wallet) => wallet.id.toString() === walletId) && (
+                    <option value={walletId}>{goal.walletName ?? walletId}</option>
+                  )}
+                  {wallets.map((wallet) => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <Button onClick={handleSaveSources} disabled={!sourcesChanged || isSavingSources}>
+                {isSavingSources ? tCommon('saving') : tCommon('save')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-ink-900">{t('ledger')}</h4>
+          {entries.length === 0 ? (
+            <p className="text-sm text-ink-500">{t('empty')}</p>
+          ) : (
+            <ul className="divide-y divide-ink-100">
+              {visibleEntries.map((entry, index) => (
+                <li key={`${entry.source}-${entry.id ?? entry.transactionId ?? index}`} className="flex items-center gap-3 py-2.5">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-ink-800">
+                      {entry.transactionId !== undefined ? (
+                        <Link href={`/transactions/${entry.transactionId}`} className="hover:underline">
+                          {describe(entry)}
+                        </Link>
+                      ) : (
+                        describe(entry)
+                      )}
+                    </p>
+                    <p className="text-xs text-ink-500">
+                      {formatDate(entry.date)} · {t(`sourceLabels.${entry.source}`)}
+                    </p>
+                  </div>
+                  <span className={cn('text-sm font-semibold', entry.amount < 0 ? 'text-rose-600' : 'text-emerald-600')}>
+                    {entry.amount > 0 ? '+' : ''}
+                    {formatCurrency(entry.amount)}
+                  </span>
+                  {entry.source === 'Manual' && entry.id !== undefined && !isLinked ? (
+                    <button
+                      onClick={() => setPendingDelete(entry)}
+                      aria-label={t('delete')}
+                      title={t('delete')}
+                      className="rounded-lg p-1.5 text-ink-400 transition-colors hover:bg-rose-50 hover:text-rose-600"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  ) : (
+                    !isLinked && <span className="w-7" />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {entries.length > LEDGER_PREVIEW_SIZE && (
+            <Button variant="ghost" size="sm" onClick={() => setShowAll((current) => !current)}>
+              {showAll ? t('showLess') : t('showAll', { count: entries.length })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <GoalContributionFormModal
+          isOpen={showForm}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            onChanged();
+          }}
+          goalId={goal.id}
+        />
+      )}
+
+      <ConfirmationDialog
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleDelete}
+        title={t('deleteTitle')}
+        description={t('deleteDescription')}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </div>
+  );
+}
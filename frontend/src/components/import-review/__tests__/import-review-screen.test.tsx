@@ -12,6 +12,10 @@ vi.mock('@/lib/api-client', () => ({
   }
 }));
 
+vi.mock('@/contexts/auth-context', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } })
+}));
+
 // Override Button to render actual button element (test-setup renders just children)
 vi.mock('@/components/ui/button', () => ({
   Button: ({ children, disabled, onClick, className, ...props }: any) => (
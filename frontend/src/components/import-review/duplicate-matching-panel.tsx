@@ -0,0 +1,238 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import {
+  AdjustmentsHorizontalIcon,
+  CheckIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { SIMILARITY_ALGORITHMS } from '@/lib/import/description-similarity';
+import {
+  countMatchesByThreshold,
+  DescriptionPair,
+  DuplicateMatchingSettings,
+  previewDescriptionMatches,
+} from '@/lib/import/duplicate-matching-settings';
+
+interface DuplicateMatchingPanelProps {
+  settings: DuplicateMatchingSettings;
+  onApply: (settings: DuplicateMatchingSettings) => void;
+  pairs: DescriptionPair[];
+  showConflictLevel?: boolean;
+  disabled?: boolean;
+}
+
+const PREVIEW_ROWS = 8;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Tunes how descriptions are compared when looking for duplicates. Changes
+ * are previewed live against `pairs` and only take effect on apply.
+ */
+export function DuplicateMatchingPanel({
+  settings,
+  onApply,
+  pairs,
+  showConflictLevel = true,
+  disabled = false,
+}: DuplicateMatchingPanelProps) {
+  const t = useTranslations('import.duplicateMatching');
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const [draftFor, setDraftFor] = useState(settings);
+
+  // Start over from the saved settings when they change, during render rather than in an effect
+  if (draftFor !== settings) {
+    setDraftFor(settings);
+    setDraft(settings);
+  }
+
+  const previews = useMemo(() => previewDescriptionMatches(pairs, draft), [pairs, draft]);
+  const thresholdCounts = useMemo(() => countMatchesByThreshold(previews), [previews]);
+  const matchCount = previews.filter((preview) => preview.matches).length;
+
+  const isDirty =
+    draft.algorithm !== settings.algorithm ||
+    draft.normalizeMerchants !== settings.normalizeMerchants ||
+    draft.threshold !== settings.threshold ||
+    draft.conflictDetectionLevel !== settings.conflictDetectionLevel;
+
+  const update = (changes: Partial<DuplicateMatchingSettings>) => setDraft((previous) => ({ ...previous, ...changes }));
+
+  return (
+    <Card className="border-ink-200 shadow-sm">
+      <CardContent className="p-4">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-between gap-3 text-left"
+        >
+          <div className="flex items-center gap-2">
+            <AdjustmentsHorizontalIcon className="w-5 h-5 text-primary-600" />
+            <div>
+              <h3 className="font-medium text-ink-900">{t('title')}</h3>
+              <p className="text-xs text-ink-500">
+                {t('summary', {
+                  algorithm: t(`algorithms.${settings.algorithm}`),
+                  threshold: formatPercent(settings.threshold),
+                })}
+                {settings.normalizeMerchants && ` · ${t('merchantNormalized')}`}
+              </p>
+            </div>
+          </div>
+          {isExpanded ? (
+            <ChevronUpIcon className="w-4 h-4 text-ink-500" />
+          ) : (
+            <ChevronDownIcon className="w-4 h-4 text-ink-500" />
+          )}
+        </button>
+
+        {isExpanded && (
+          <div className="mt-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="duplicate-matching-algorithm" className="text-sm font-medium text-ink-700">
+                  {t('algorithm')}
+                </Label>
+                <Select
+                  id="duplicate-matching-algorithm"
+                  value={draft.algorithm}
+                  onChange={(e) => update({ algorithm: e.target.value as DuplicateMatchingSettings['algorithm'] })}
+                  className="mt-1"
+                >
+                  {SIMILARITY_ALGORITHMS.map((algorithm) => (
+                    <option key={algorithm} value={algorithm}>
+                      {t(`algorithms.${algorithm}`)}
+                    </option>
+                  ))}
+                </Select>
+                <p className="text-xs text-ink-500 mt-1">{t(`algorithmHints.${draft.algorithm}`)}</p>
+              </div>
+
+              {showConflictLevel && (
+                <div>
+                  <Label htmlFor="duplicate-matching-level" className="text-sm font-medium text-ink-700">
+                    {t('level')}
+                  </Label>
+                  <Select
+                    id="duplicate-matching-level"
+                    value={draft.conflictDetectionLevel}
+                    onChange={(e) =>
+                      update({ conflictDetectionLevel: e.target.value as DuplicateMatchingSettings['conflictDetectionLevel'] })
+                    }
+                    className="mt-1"
+                  >
+                    <option value="strict">{t('levels.strict')}</option>
+                    <option value="moderate">{t('levels.moderate')}</option>
+                    <option value="relaxed">{t('levels.relaxed')}</option>
+                  </Select>
+                  <p className="text-xs text-ink-500 mt-1">{t('levelHint')}</p>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="duplicate-matching-threshold" className="text-sm font-medium text-ink-700">
+                  {t('threshold', { threshold: formatPercent(draft.threshold) })}
+                </Label>
+                <input
+                  id="duplicate-matching-threshold"
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={draft.threshold}
+                  onChange={(e) => update({ threshold: parseFloat(e.target.value) })}
+                  className="mt-3 w-full accent-primary-600"
+                />
+              </div>
+
+              <div className="flex items-start space-x-2 sm:pt-6">
+                <Checkbox
+                  id="duplicate-matching-normalize"
+                  checked={draft.normalizeMerchants}
+                  onCheckedChange={(checked) => update({ normalizeMerchants: checked })}
+                />
+                <div>
+                  <Label htmlFor="duplicate-matching-normalize" className="text-sm font-medium text-ink-700">
+                    {t('normalizeMerchants')}
+                  </Label>
+                  <p className="text-xs text-ink-500">{t('normalizeMerchantsHint')}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-ink-200">
+              <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-ink-50 border-b border-ink-200">
+                <span className="text-sm font-medium text-ink-900">
+                  {t('preview.title', { matches: matchCount, total: previews.length })}
+                </span>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {thresholdCounts.map(({ threshold, count }) => (
+                    <button
+                      key={threshold}
+                      type="button"
+                      onClick={() => update({ threshold })}
+                      className={`px-2 py-0.5 rounded-full border ${
+                        Math.abs(threshold - draft.threshold) < 0.001
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-ink-200 text-ink-600 hover:bg-white'
+                      }`}
+                    >
+                      {t('preview.atThreshold', { threshold: formatPercent(threshold), count })}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {previews.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-ink-500 text-center">{t('preview.empty')}</p>
+              ) : (
+                <ul className="divide-y divide-ink-100">
+                  {previews.slice(0, PREVIEW_ROWS).map((preview) => (
+                    <li key={preview.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      {preview.matches ? (
+                        <CheckIcon className="w-4 h-4 text-green-600 flex-shrink-0" aria-label={t('preview.match')} />
+                      ) : (
+                        <XMarkIcon className="w-4 h-4 text-ink-400 flex-shrink-0" aria-label={t('preview.noMatch')} />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-ink-900">{preview.left}</p>
+                        <p className="truncate text-ink-500">{preview.right}</p>
+                      </div>
+                      <span className={`font-mono text-xs ${preview.matches ? 'text-green-700' : 'text-ink-500'}`}>
+                        {formatPercent(preview.score)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {previews.length > PREVIEW_ROWS && (
+                <p className="px-3 py-2 text-xs text-ink-500 border-t border-ink-100">
+                  {t('preview.more', { count: previews.length - PREVIEW_ROWS })}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(settings)} disabled={!isDirty || disabled}>
+                {t('discard')}
+              </Button>
+              <Button size="sm" onClick={() => onApply(draft)} disabled={!isDirty || disabled}>
+                {t('apply')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
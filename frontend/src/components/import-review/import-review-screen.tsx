@@ -11,7 +11,8 @@ import {
   ArrowLeftIcon,
   DocumentCheckIcon,
   ChevronDownIcon,
-  ChevronUpIcon
+  ChevronUpIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
 import { ConflictResolutionCard } from './conflict-resolution-card';
 import { BulkActionsPanel } from './bulk-actions-panel';
@@ -26,6 +27,14 @@ import {
   ImportDecision
 } from '@/types/import-review';
 import { apiClient } from '@/lib/api-client';
+import { ImportAnalysisService } from '@/lib/import-analysis-service';
+import { useImportConflictCheck } from '@/hooks/use-import-conflict-check';
+import { useDuplicateMatchingSettings } from '@/hooks/use-duplicate-matching-settings';
+import {
+  collectImportDescriptionPairs,
+  toDescriptionMatchingOptions,
+} from '@/lib/import/duplicate-matching-settings';
+import { DuplicateMatchingPanel } from './duplicate-matching-panel';
 import { toast } from 'sonner';
 
 export function ImportReviewScreen({
@@ -33,7 +42,8 @@ export function ImportReviewScreen({
   onImportComplete,
   onCancel,
   accountName,
-  showBulkActions = true
+  showBulkActions = true,
+  conflictCheck
 }: ImportReviewScreenProps) {
   const tCommon = useTranslations('common');
   const tImport = useTranslations('import');
@@ -45,6 +55,39 @@ export function ImportReviewScreen({
     conflicts: true,
     clean: false
   });
+  const { settings: matchingSettings, updateSettings: updateMatchingSettings } = useDuplicateMatchingSettings();
+
+  // Re-run the browser-side check whenever the matching settings change
+  const checkRequest = useMemo(
+    () => conflictCheck && {
+      ...conflictCheck,
+      options: {
+        ...conflictCheck.options,
+        conflictDetectionLevel: matchingSettings.conflictDetectionLevel,
+        descriptionMatching: toDescriptionMatchingOptions(matchingSettings)
+      }
+    },
+    [conflictCheck, matchingSettings]
+  );
+  const matchingPairs = useMemo(
+    () => conflictCheck
+      ? collectImportDescriptionPairs(conflictCheck.candidates, conflictCheck.existingTransactions)
+      : [],
+    [conflictCheck]
+  );
+  const check = useImportConflictCheck(checkRequest);
+  const [checkedItems, setCheckedItems] = useState<ImportReviewItem[] | null>(null);
+
+  // Take over the worker's results once, during render rather than in an effect
+  if (check.reviewItems && check.reviewItems !== checkedItems) {
+    setCheckedItems(check.reviewItems);
+    setReviewItems(check.reviewItems);
+  }
+
+  const summary = useMemo(
+    () => (checkedItems ? ImportAnalysisService.createAnalysisSummary(checkedItems) : analysisResult.summary),
+    [checkedItems, analysisResult.summary]
+  );
 
   // Group items by conflict type for organized display
   const groupedItems = useMemo(() => {
@@ -376,28 +419,100 @@ export function ImportReviewScreen({
 
   const canProceed = progressStats.pending === 0 && !importCompleted;
 
+  const header = (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-4">
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          onClick={onCancel}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeftIcon className="w-4 h-4" />
+          {tCommon('back')}
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-ink-900">{tImport('review.title')}</h1>
+          <p className="text-ink-600">
+            {accountName ? tImport('review.subtitleImporting', { accountName }) : tImport('review.subtitleReview')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (conflictCheck && check.status !== 'done') {
+    const percent = check.progress.total > 0
+      ? Math.round((check.progress.processed / check.progress.total) * 100)
+      : 0;
+
+    return (
+      <div className="max-w-6xl mx-auto space-y-6">
+        {header}
+        <Card className="bg-white border-0 shadow-sm">
+          <CardContent className="p-8 text-center">
+            <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              {check.status === 'running' ? (
+                <ArrowPathIcon className="w-8 h-8 text-orange-600 animate-spin" />
+              ) : (
+                <ExclamationTriangleIcon className="w-8 h-8 text-orange-600" />
+              )}
+            </div>
+            <h3 className="text-lg font-semibold text-ink-900 mb-2">
+              {check.status === 'running'
+                ? tImport('review.conflictCheck.running')
+                : check.status === 'cancelled'
+                ? tImport('review.conflictCheck.cancelled')
+                : tImport('review.conflictCheck.failed')}
+            </h3>
+            <p className="text-sm text-ink-600 mb-4">
+              {check.status === 'failed' && check.error
+                ? check.error
+                : tImport('review.conflictCheck.progress', {
+                    processed: check.progress.processed,
+                    total: check.progress.total
+                  })}
+            </p>
+            <div className="w-full max-w-md mx-auto h-2 bg-ink-100 rounded-full overflow-hidden mb-6">
+              <div
+                className="h-full bg-orange-500 rounded-full transition-all duration-300"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            {check.status === 'running' ? (
+              <Button variant="secondary" onClick={check.cancel}>
+                {tCommon('cancel')}
+              </Button>
+            ) : (
+              <div className="flex justify-center gap-2">
+                <Button variant="secondary" onClick={onCancel}>
+                  {tCommon('back')}
+                </Button>
+                <Button onClick={check.retry}>
+                  {tImport('review.conflictCheck.restart')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-6xl mx-auto space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            onClick={onCancel}
-            className="flex items-center gap-2"
-          >
-            <ArrowLeftIcon className="w-4 h-4" />
-            {tCommon('back')}
-          </Button>
-          <div>
-            <h1 className="text-2xl font-bold text-ink-900">{tImport('review.title')}</h1>
-            <p className="text-ink-600">
-              {accountName ? tImport('review.subtitleImporting', { accountName }) : tImport('review.subtitleReview')}
-            </p>
-          </div>
-        </div>
-      </div>
+      {header}
+
+      {/* Description matching used by the browser-side conflict check */}
+      {conflictCheck && (
+        <DuplicateMatchingPanel
+          settings={matchingSettings}
+          onApply={updateMatchingSettings}
+          pairs={matchingPairs}
+          disabled={isImporting || importCompleted}
+        />
+      )}
 
       {/* Workflow Guidance */}
       {progressStats.total > 0 && progressStats.pending > 0 && (
@@ -424,7 +539,7 @@ export function ImportReviewScreen({
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
           <ImportSummaryStats 
-            summary={analysisResult?.summary}
+            summary={summary}
             progress={progressStats}
           />
         </div>
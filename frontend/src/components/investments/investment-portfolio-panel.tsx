@@ -0,0 +1,443 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { ArrowUpTrayIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { TradeFormModal } from '@/components/investments/trade-form-modal';
+import { apiClient } from '@/lib/api-client';
+import { getAllocationSlices } from '@/lib/investments/investments';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { InvestmentTradeDto, InvestmentTradeType, PortfolioResponse } from '@/types/investments';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+interface InvestmentPortfolioPanelProps {
+  accountId: number;
+  /** Called after trades change the account's cash balance. */
+  onChange?: () => void;
+}
+
+interface TradeModalState {
+  symbol?: string;
+  type?: InvestmentTradeType;
+}
+
+function gainClassName(value: number) {
+  return value > 0 ? 'text-emerald-600' : value < 0 ? 'text-red-600' : 'text-ink-900';
+}
+
+function formatUnits(units: number) {
+  return units.toLocaleString(undefined, { maximumFractionDigits: 8 });
+}
+
+export function InvestmentPortfolioPanel({ accountId, onChange }: InvestmentPortfolioPanelProps) {
+  const t = useTranslations('investments');
+  const tCommon = useTranslations('common');
+
+  const [portfolio, setPortfolio] = useState<PortfolioResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tradeModal, setTradeModal] = useState<TradeModalState | null>(null);
+  const [deleting, setDeleting] = useState<InvestmentTradeDto | null>(null);
+  const [priceForm, setPriceForm] = useState({ symbol: '', price: '', priceDate: new Date().toISOString().slice(0, 10) });
+  const [savingPrice, setSavingPrice] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadPortfolio = useCallback(async () => {
+    try {
+      setPortfolio(await apiClient.getPortfolio(accountId));
+    } catch (error) {
+      console.error('Failed to load portfolio:', error);
+      toast.error(t('errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId, t]);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const slices = useMemo(() => getAllocationSlices(portfolio?.holdings ?? []), [portfolio]);
+  const symbols = useMemo(() => (portfolio?.holdings ?? []).map((holding) => holding.symbol), [portfolio]);
+
+  const refresh = async () => {
+    await loadPortfolio();
+    onChange?.();
+  };
+
+  const handleSavePrice = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const price = parseFloat(priceForm.price);
+    if (!priceForm.symbol.trim() || !Number.isFinite(price) || price <= 0) {
+      toast.error(t('errors.priceRequired'));
+      return;
+    }
+
+    try {
+      setSavingPrice(true);
+      await apiClient.saveSecurityPrice({
+        symbol: priceForm.symbol.trim().toUpperCase(),
+        price,
+        priceDate: priceForm.priceDate,
+      });
+      toast.success(t('toasts.priceSaved'));
+      setPriceForm((current) => ({ ...current, price: '' }));
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save security price:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.priceSaveFailed'));
+    } finally {
+      setSavingPrice(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      toast.error(t('errors.fileTooLarge'));
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const result = await apiClient.importSecurityPrices(file);
+      setImportErrors(result.errors);
+      toast.success(t('toasts.pricesImported', { imported: result.imported, updated: result.updated }));
+      await refresh();
+    } catch (error) {
+      console.error('Failed to import security prices:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.importFailed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteTrade = async () => {
+    if (!deleting) return;
+
+    try {
+      await apiClient.deleteInvestmentTrade(deleting.id);
+      toast.success(t('toasts.tradeDeleted'));
+      setDeleting(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete trade:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.deleteFailed'));
+    }
+  };
+
+  if (loading || !portfolio) {
+    return (
+      <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
+        <p className="text-sm text-ink-500">{loading ? t('loading') : t('errors.loadFailed')}</p>
+      </section>
+    );
+  }
+
+  const currency = portfolio.currency;
+  const stats = [
+    { label: t('stats.marketValue'), value: formatCurrency(portfolio.marketValue, currency) },
+    { label: t('stats.cash'), value: formatCurrency(portfolio.cashBalance, currency) },
+    {
+      label: t('stats.unrealisedGain'),
+      value: formatCurrency(portfolio.unrealisedGain, currency),
+      detail: portfolio.unrealisedGainPercent !== undefined ? `${portfolio.unrealisedGainPercent.toFixed(2)}%` : undefined,
+      className: gainClassName(portfolio.unrealisedGain),
+    },
+    {
+      label: t('stats.realisedGain'),
+      value: formatCurrency(portfolio.realisedGain, currency),
+      className: gainClassName(portfolio.realisedGain),
+    },
+    { label: t('stats.dividends'), value: formatCurrency(portfolio.dividends, currency) },
+    {
+      label: t('stats.timeWeightedReturn'),
+      value: portfolio.timeWeightedReturn !== undefined ? `${portfolio.timeWeightedReturn.toFixed(2)}%` : '—',
+      className: gainClassName(portfolio.timeWeightedReturn ?? 0),
+    },
+  ];
+
+  return (
+    <section className="rounded-[26px] border border-ink-200 bg-white/90 p-5 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-[var(--font-dash-sans)] text-lg font-semibold text-ink-900">{t('title')}</h2>
+          <p className="mt-0.5 text-sm text-ink-500">{t('subtitle')}</p>
+        </div>
+        <Button size="sm" onClick={() => setTradeModal({})} className="flex items-center gap-1">
+          <PlusIcon className="h-4 w-4" />
+          {t('recordTrade')}
+        </Button>
+      </div>
+
+      <div className="mt-5 grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-2xl border border-ink-100 bg-ink-50/60 p-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-ink-400">{stat.label}</p>
+            <p className={cn('mt-1 font-[var(--font-dash-mono)] text-base font-semibold', stat.className ?? 'text-ink-900')}>
+              {stat.value}
+            </p>
+            {stat.detail && <p className={cn('text-xs', stat.className)}>{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+
+      {portfolio.holdings.length === 0 ? (
+        <p className="mt-6 rounded-2xl border border-dashed border-ink-200 p-6 text-center text-sm text-ink-500">
+          {t('empty')}
+        </p>
+      ) : (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[240px_1fr]">
+          <div>
+            <h3 className="text-sm font-semibold text-ink-900">{t('allocation')}</h3>
+            {slices.length > 0 && (
+              <>
+                <ResponsiveContainer width="100%" height={200}>
+                  <PieChart>
+                    <Pie data={slices} dataKey="marketValue" nameKey="symbol" innerRadius={50} outerRadius={85}>
+                      {slices.map((slice) => (
+                        <Cell key={slice.symbol ?? 'other'} fill={slice.color} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value) => formatCurrency(Number(value), currency)} />
+                  </PieChart>
+                </ResponsiveContainer>
+                <ul className="space-y-1 text-xs">
+                  {slices.map((slice) => (
+                    <li key={slice.symbol ?? 'other'} className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 text-ink-700">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: slice.color }} />
+                        {slice.symbol ?? t('otherHoldings')}
+                      </span>
+                      <span className="font-[var(--font-dash-mono)] text-ink-500">{slice.percent.toFixed(1)}%</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-ink-100 text-left text-xs font-semibold uppercase tracking-wide text-ink-400">
+                  <th className="py-2 pr-3">{t('holdings.symbol')}</th>
+                  <th className="py-2 pr-3 text-right">{t('holdings.units')}</th>
+                  <th className="py-2 pr-3 text-right">{t('holdings.averageCost')}</th>
+                  <th className="py-2 pr-3 text-right">{t('holdings.price')}</th>
+                  <th className="py-2 pr-3 text-right">{t('holdings.marketValue')}</th>
+                  <th className="py-2 pr-3 text-right">{t('holdings.gain')}</th>
+                  <th className="py-2 text-right">{t('holdings.allocation')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.holdings.map((holding) => (
+                  <tr key={holding.id} className="border-b border-ink-50 last:border-0">
+                    <td className="py-2 pr-3">
+                      <p className="font-semibold text-ink-900">{holding.symbol}</p>
+                      {holding.name && <p className="text-xs text-ink-500">{holding.name}</p>}
+                      <div className="mt-1 flex gap-2 text-xs">
+                        <button
+                          type="button"
+                          className="text-primary-600 hover:underline"
+                          onClick={() => setTradeModal({ symbol: holding.symbol, type: 'Sell' })}
+                          disabled={holding.units <= 0}
+                        >
+                          {t('trades.types.Sell')}
+                        </button>
+                        <button
+                          type="button"
+                          className="text-primary-600 hover:underline"
+                          onClick={() => setTradeModal({ symbol: holding.symbol, type: 'Dividend' })}
+                        >
+                          {t('trades.types.Dividend')}
+                        </button>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">{formatUnits(holding.units)}</td>
+                    <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                      {formatCurrency(holding.averageCost, currency)}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                      {holding.price !== undefined ? (
+                        <>
+                          {formatCurrency(holding.price, currency)}
+                          {holding.priceDate && <p className="text-xs text-ink-400">{formatDate(holding.priceDate)}</p>}
+                        </>
+                      ) : (
+                        <span className="text-xs text-ink-400">{t('holdings.noPrice')}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)] font-semibold text-ink-900">
+                      {formatCurrency(holding.marketValue, currency)}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-[var(--font-dash-mono)]">
+                      <p className={gainClassName(holding.unrealisedGain)}>{formatCurrency(holding.unrealisedGain, currency)}</p>
+                      {(holding.realisedGain !== 0 || holding.dividends !== 0) && (
+                        <p className="text-xs text-ink-500">
+                          {t('holdings.realised', { amount: formatCurrency(holding.realisedGain + holding.dividends, currency) })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-[var(--font-dash-mono)]">{holding.allocationPercent.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        <div>
+          <h3 className="text-sm font-semibold text-ink-900">{t('prices.title')}</h3>
+          <p className="mt-0.5 text-xs text-ink-500">{t('prices.description')}</p>
+          <form onSubmit={handleSavePrice} className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-[1fr_1fr_1fr_auto]">
+            <Input
+              value={priceForm.symbol}
+              onChange={(event) => setPriceForm((current) => ({ ...current, symbol: event.target.value.toUpperCase() }))}
+              placeholder={t('prices.symbol')}
+              maxLength={20}
+              list="portfolio-symbols"
+            />
+            <datalist id="portfolio-symbols">
+              {symbols.map((symbol) => (
+                <option key={symbol} value={symbol} />
+              ))}
+            </datalist>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              value={priceForm.price}
+              onChange={(event) => setPriceForm((current) => ({ ...current, price: event.target.value }))}
+              placeholder={t('prices.price')}
+            />
+            <Input
+              type="date"
+              value={priceForm.priceDate}
+              onChange={(event) => setPriceForm((current) => ({ ...current, priceDate: event.target.value }))}
+              required
+            />
+            <Button type="submit" size="sm" disabled={savingPrice}>
+              {savingPrice ? tCommon('saving') : tCommon('save')}
+            </Button>
+          </form>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json,text/plain"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            className="mt-3"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+          >
+            <ArrowUpTrayIcon className="mr-1 h-4 w-4" />
+            {importing ? t('prices.importing') : t('prices.import')}
+          </Button>
+          <p className="mt-2 text-xs text-ink-500">{t('prices.importHint')}</p>
+          {importErrors.length > 0 && (
+            <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3">
+              <p className="text-sm font-medium text-red-700">{t('prices.importErrors', { count: importErrors.length })}</p>
+              <ul className="mt-1 max-h-40 space-y-0.5 overflow-y-auto text-xs text-red-600">
+                {importErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-ink-900">{t('trades.title')}</h3>
+          {portfolio.trades.length === 0 ? (
+            <p className="mt-2 text-sm text-ink-500">{t('trades.empty')}</p>
+          ) : (
+            <ul className="mt-2 max-h-72 divide-y divide-ink-100 overflow-y-auto">
+              {portfolio.trades.map((trade) => (
+                <li key={trade.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-ink-900">
+                      {t(`trades.types.${trade.type}`)} {trade.symbol}
+                      {trade.type !== 'Dividend' && (
+                        <span className="font-normal text-ink-500">
+                          {' '}
+                          {t('trades.unitsAt', { units: formatUnits(trade.units), price: formatCurrency(trade.price, currency) })}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-ink-500">
+                      {formatDate(trade.tradeDate)}
+                      {trade.fees > 0 && ` · ${t('trades.fees', { amount: formatCurrency(trade.fees, currency) })}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={cn('font-[var(--font-dash-mono)]', gainClassName(trade.amount))}>
+                      {formatCurrency(trade.amount, currency)}
+                    </span>
+                    <button
+                      type="button"
+                      className="rounded-md p-1 text-ink-400 hover:bg-red-50 hover:text-red-600"
+                      onClick={() => setDeleting(trade)}
+                      aria-label={tCommon('delete')}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {tradeModal && (
+        <TradeFormModal
+          isOpen
+          onClose={() => setTradeModal(null)}
+          onSaved={async () => {
+            setTradeModal(null);
+            await refresh();
+          }}
+          accountId={accountId}
+          currency={currency}
+          symbols={symbols}
+          initialSymbol={tradeModal.symbol}
+          initialType={tradeModal.type}
+        />
+      )}
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDeleteTrade}
+        title={t('deleteDialog.title')}
+        description={t('deleteDialog.description', {
+          trade: deleting ? `${t(`trades.types.${deleting.type}`)} ${deleting.symbol}` : '',
+          date: deleting ? formatDate(deleting.tradeDate) : '',
+        })}
+        confirmText={tCommon('delete')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </section>
+  );
+}
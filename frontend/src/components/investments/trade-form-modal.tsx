@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/modals/base-modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { apiClient } from '@/lib/api-client';
+import { getTradeCashAmount } from '@/lib/investments/investments';
+import { formatCurrency } from '@/lib/utils';
+import type { InvestmentTradeType, SaveInvestmentTradeRequest } from '@/types/investments';
+
+interface TradeFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  accountId: number;
+  currency: string;
+  /** Symbols the account holds, offered as suggestions. */
+  symbols: string[];
+  /** Prefills the symbol, e.g. when selling or recording a dividend for a holding. */
+  initialSymbol?: string;
+  initialType?: InvestmentTradeType;
+}
+
+interface FormState {
+  type: InvestmentTradeType;
+  symbol: string;
+  name: string;
+  tradeDate: string;
+  units: string;
+  price: string;
+  fees: string;
+  dividendAmount: string;
+  notes: string;
+}
+
+const TRADE_TYPES: InvestmentTradeType[] = ['Buy', 'Sell', 'Dividend'];
+
+export function TradeFormModal({
+  isOpen,
+  onClose,
+  onSaved,
+  accountId,
+  currency,
+  symbols,
+  initialSymbol,
+  initialType = 'Buy',
+}: TradeFormModalProps) {
+  const t = useTranslations('investments.tradeForm');
+  const tTrades = useTranslations('investments.trades');
+  const tCommon = useTranslations('common');
+  const [form, setForm] = useState<FormState>({
+    type: initialType,
+    symbol: initialSymbol ?? '',
+    name: '',
+    tradeDate: new Date().toISOString().slice(0, 10),
+    units: '',
+    price: '',
+    fees: '0',
+    dividendAmount: '',
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((current) => ({ ...current, [key]: value }));
+
+  const isDividend = form.type === 'Dividend';
+  const units = parseFloat(form.units);
+  const price = parseFloat(form.price);
+  const fees = parseFloat(form.fees || '0');
+  const dividendAmount = parseFloat(form.dividendAmount);
+  const cashAmount = isDividend
+    ? Number.isFinite(dividendAmount) ? getTradeCashAmount('Dividend', 0, 0, 0, dividendAmount) : null
+    : Number.isFinite(units) && Number.isFinite(price)
+      ? getTradeCashAmount(form.type, units, price, Number.isFinite(fees) ? fees : 0)
+      : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!form.symbol.trim()) {
+      toast.error(t('errors.symbolRequired'));
+      return;
+    }
+    if (isDividend) {
+      if (!Number.isFinite(dividendAmount) || dividendAmount <= 0) {
+        toast.error(t('errors.dividendRequired'));
+        return;
+      }
+    } else {
+      if (!Number.isFinite(units) || units <= 0 || !Number.isFinite(price) || price <= 0) {
+        toast.error(t('errors.unitsAndPriceRequired'));
+        return;
+      }
+      if (!Number.isFinite(fees) || fees < 0) {
+        toast.error(t('errors.invalidFees'));
+        return;
+      }
+    }
+
+    const request: SaveInvestmentTradeRequest = {
+      accountId,
+      symbol: form.symbol.trim().toUpperCase(),
+      name: form.name.trim() || undefined,
+      type: form.type,
+      tradeDate: form.tradeDate,
+      units: isDividend ? 0 : units,
+      price: isDividend ? 0 : price,
+      fees: isDividend ? 0 : fees,
+      dividendAmount: isDividend ? dividendAmount : undefined,
+      notes: form.notes.trim() || undefined,
+    };
+
+    try {
+      setSaving(true);
+      await apiClient.addInvestmentTrade(request);
+      toast.success(t('saved'));
+      onSaved();
+    } catch (error) {
+      console.error('Failed to record trade:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={t('title')} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('type')}</label>
+            <Select value={form.type} onChange={(event) => update('type', event.target.value as InvestmentTradeType)}>
+              {TRADE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {tTrades(`types.${type}`)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('date')}</label>
+            <Input
+              type="date"
+              value={form.tradeDate}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(event) => update('tradeDate', event.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('symbol')}</label>
+            <Input
+              value={form.symbol}
+              onChange={(event) => update('symbol', event.target.value.toUpperCase())}
+              placeholder={t('symbolPlaceholder')}
+              maxLength={20}
+              list="investment-symbols"
+              autoFocus={!initialSymbol}
+            />
+            <datalist id="investment-symbols">
+              {symbols.map((symbol) => (
+                <option key={symbol} value={symbol} />
+              ))}
+            </datalist>
+          </div>
+          {form.type === 'Buy' && !symbols.includes(form.symbol.trim().toUpperCase()) && (
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('name')}</label>
+              <Input
+                value={form.name}
+                onChange={(event) => update('name', event.target.value)}
+                placeholder={t('namePlaceholder')}
+                maxLength={200}
+              />
+            </div>
+          )}
+        </div>
+
+        {isDividend ? (
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('dividendAmount')}</label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.01"
+              value={form.dividendAmount}
+              onChange={(event) => update('dividendAmount', event.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('units')}</label>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={form.units}
+                onChange={(event) => update('units', event.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('price')}</label>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={form.price}
+                onChange={(event) => update('price', event.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ink-700 mb-1">{t('fees')}</label>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                value={form.fees}
+                onChange={(event) => update('fees', event.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {cashAmount !== null && (
+          <p className="text-sm text-ink-600">
+            {t('cashImpact', { amount: formatCurrency(cashAmount, currency) })}
+          </p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('notes')}</label>
+          <Textarea value={form.notes} onChange={(event) => update('notes', event.target.value)} maxLength={500} rows={2} />
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={saving}>
+            {tCommon('cancel')}
+          </Button>
+          <Button type="submit" disabled={saving}>
+            {saving ? tCommon('saving') : tCommon('save')}
+          </Button>
+        </div>
+      </form>
+    </BaseModal>
+  );
+}
@@ -5,6 +5,7 @@ import { XMarkIcon } from '@heroicons/react/24/outline';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import AccountForm, { Account } from '@/components/forms/account-form';
 import { apiClient } from '@/lib/api-client';
+import type { AccountDto } from '@/types/accounts';
 
 interface AccountCreationModalProps {
   /** Whether the modal is open */
@@ -12,7 +13,7 @@ interface AccountCreationModalProps {
   /** Called when modal should be closed */
   onClose: () => void;
   /** Called when account is successfully created */
-  onAccountCreated: (account: Account & { id: number }) => void;
+  onAccountCreated: (account: AccountDto) => void;
 }
 
 export default function AccountCreationModal({
@@ -28,7 +29,7 @@ export default function AccountCreationModal({
       const response = await apiClient.createAccount(data);
       
       // Call the success callback with the created account
-      onAccountCreated(response as Account & { id: number });
+      onAccountCreated(response);
       
       // Close the modal
       onClose();
@@ -4,6 +4,9 @@ import { useTranslations } from 'next-intl';
 import { BaseModal } from './base-modal';
 import { TransactionForm, TransactionFormData } from '@/components/forms/transaction-form';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import { buildSplitRequests } from '@/lib/transactions/splits';
+import { joinTags } from '@/lib/tags/tags';
 import { toast } from 'sonner';
 
 interface AddTransactionModalProps {
@@ -20,6 +23,7 @@ export function AddTransactionModal({
   onSuccess 
 }: AddTransactionModalProps) {
   const t = useTranslations('transactions');
+  const tToasts = useTranslations('toasts');
   const handleSubmit = async (formData: TransactionFormData) => {
     // Handle regular transaction (income/expense) - transfer type no longer available
     const amount = parseFloat(formData.amount);
@@ -44,16 +48,23 @@ export function AddTransactionModal({
       userDescription: formData.userDescription.trim() || undefined,
       accountId: parseInt(formData.accountId), // Required field
       categoryId: formData.categoryId ? parseInt(formData.categoryId) : undefined,
+      splits: formData.splits.length > 0 ? buildSplitRequests(formData.splits, formData.type) : undefined,
       notes: formData.notes.trim() || undefined,
       location: formData.location.trim() || undefined,
+      tags: joinTags(formData.tags),
       status: statusMap[formData.status] || 2, // Default to Cleared (2)
     };
 
-    await apiClient.createTransaction(transactionData);
-    
-    toast.success(`${formData.type === 'income' ? 'Income' : 'Expense'} added: $${amount.toFixed(2)} - ${formData.description}`, {
-      duration: 4000,
-    });
+    try {
+      await apiClient.createTransaction(transactionData);
+
+      toast.success(`${formData.type === 'income' ? 'Income' : 'Expense'} added: $${amount.toFixed(2)} - ${formData.description}`, {
+        duration: 4000,
+      });
+    } catch (error) {
+      if (!isQueuedOffline(error)) throw error;
+      toast.info(tToasts('transactionQueuedOffline'), { duration: 4000 });
+    }
 
     if (onSuccess) {
       onSuccess();
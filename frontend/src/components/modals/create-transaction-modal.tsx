@@ -8,12 +8,15 @@ import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { CategoryPicker } from '@/components/forms/category-picker';
 import { Select } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { AttachmentFilePicker } from '@/components/attachments/attachment-file-picker';
 import { 
   XMarkIcon,
   CheckIcon,
   ArrowPathIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import type { CategoryDto } from '@/types/categories';
 import { toast } from 'sonner';
 
 interface BankTransaction {
@@ -26,17 +29,6 @@ interface BankTransaction {
 }
 
 
-interface Category {
-  id: number;
-  name: string;
-  type: number;
-  parentId: number | null;
-  color?: string;
-  icon?: string;
-  isSystem?: boolean;
-  children?: Category[];
-}
-
 interface CreateTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -56,8 +48,9 @@ export function CreateTransactionModal({
   const tCommon = useTranslations('common');
   const tToasts = useTranslations('toasts');
   const [isLoading, setIsLoading] = useState(false);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(false);
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
 
   const buildNotes = (transaction: BankTransaction) => {
     if (transaction.reference) {
@@ -89,6 +82,7 @@ export function CreateTransactionModal({
         categoryId: null,
         status: 2
       });
+      setAttachmentFiles([]);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, bankTransaction]);
@@ -96,7 +90,7 @@ export function CreateTransactionModal({
   const loadCategories = async () => {
     try {
       setLoadingCategories(true);
-      const response = await apiClient.getCategories() as Category[];
+      const response = await apiClient.getCategories();
       setCategories(response || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
@@ -117,24 +111,44 @@ export function CreateTransactionModal({
     try {
       setIsLoading(true);
       
-      const response = await apiClient.request('/api/transactions', {
-        method: 'POST',
-        body: JSON.stringify({
-          amount: formData.amount,
-          transactionDate: formData.transactionDate,
-          description: formData.description,
-          userDescription: formData.userDescription || null,
-          notes: formData.notes || null,
-          accountId: accountId,
-          categoryId: formData.categoryId,
-          status: formData.status
-        })
-      }) as { id: number };
+      const response = await apiClient.createTransaction({
+        amount: formData.amount,
+        transactionDate: formData.transactionDate,
+        description: formData.description,
+        userDescription: formData.userDescription || undefined,
+        notes: formData.notes || undefined,
+        accountId: accountId,
+        categoryId: formData.categoryId ?? undefined,
+        status: formData.status
+      });
+
+      // The transaction is saved either way; a failed upload can be retried from its page
+      let failedUploads = 0;
+      for (const file of attachmentFiles) {
+        try {
+          await apiClient.uploadTransactionAttachment(response.id, file);
+        } catch (uploadError) {
+          console.error('Failed to upload attachment:', uploadError);
+          failedUploads++;
+        }
+      }
 
       toast.success(tToasts('transactionCreated'));
+      if (failedUploads > 0) {
+        toast.error(tToasts('attachmentsUploadFailed', { count: failedUploads }));
+      }
       onTransactionCreated(response.id);
       onClose();
     } catch (error: unknown) {
+      if (isQueuedOffline(error)) {
+        // No server id yet, so the bank transaction stays unmatched until the write syncs
+        toast.info(tToasts('transactionQueuedOffline'));
+        if (attachmentFiles.length > 0) {
+          toast.error(tToasts('attachmentsNotQueued'));
+        }
+        onClose();
+        return;
+      }
       console.error('Failed to create transaction:', error);
       const errorMessage = error instanceof Error ? error.message : t('createFailed');
       toast.error(errorMessage);
@@ -276,6 +290,14 @@ export function CreateTransactionModal({
             />
           </div>
 
+          {/* Attachments */}
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">
+              {t('attachmentsLabel')}
+            </label>
+            <AttachmentFilePicker files={attachmentFiles} onChange={setAttachmentFiles} disabled={isLoading} />
+          </div>
+
           {/* Actions */}
           <div className="flex gap-3 pt-4">
             <Button
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { BaseModal } from './base-modal';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select } from '@/components/ui/select';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { toast } from 'sonner';
 import {
@@ -29,6 +30,9 @@ import {
 } from '@heroicons/react/24/outline';
 import type { DuplicateTransactionsResponse, DuplicateDetectionParams, DuplicateGroupDto } from '@/types/duplicates';
 import { useTranslations } from 'next-intl';
+import { DuplicateMatchingPanel } from '@/components/import-review/duplicate-matching-panel';
+import { useDuplicateMatchingSettings } from '@/hooks/use-duplicate-matching-settings';
+import { DescriptionPair, previewDescriptionMatches } from '@/lib/import/duplicate-matching-settings';
 
 interface DuplicatesModalProps {
   isOpen: boolean;
@@ -70,6 +74,8 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [selectedGroups, setSelectedGroups] = useState<Set<string>>(new Set());
   const [resolutionPending, setResolutionPending] = useState(false);
+  const { settings: matchingSettings, updateSettings: updateMatchingSettings } = useDuplicateMatchingSettings();
+  const [filterByDescription, setFilterByDescription] = useState(false);
   
   // Detection parameters
   const [params, setParams] = useState<DuplicateDetectionParams>({
@@ -104,6 +110,41 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
     }
   }, [isOpen, fetchDuplicates]);
 
+  // Each group's first transaction paired with the others, for the matching preview
+  const matchingPairs = useMemo<DescriptionPair[]>(
+    () => (duplicates?.duplicateGroups ?? []).flatMap(group => {
+      const [first, ...others] = group.transactions;
+      return others.map(other => ({
+        id: `${group.id}-${other.id}`,
+        left: first.description,
+        right: other.description
+      }));
+    }),
+    [duplicates]
+  );
+
+  // Best description similarity within each group under the saved matching settings
+  const descriptionScores = useMemo(() => {
+    const scores = new Map<string, number>();
+    duplicates?.duplicateGroups.forEach(group => {
+      const [first, ...others] = group.transactions;
+      const best = previewDescriptionMatches(
+        others.map(other => ({ id: String(other.id), left: first.description, right: other.description })),
+        matchingSettings
+      )[0];
+      scores.set(group.id, best?.score ?? 1);
+    });
+    return scores;
+  }, [duplicates, matchingSettings]);
+
+  const visibleGroups = useMemo(
+    () => (duplicates?.duplicateGroups ?? []).filter(group =>
+      !filterByDescription || (descriptionScores.get(group.id) ?? 1) >= matchingSettings.threshold
+    ),
+    [duplicates, filterByDescription, descriptionScores, matchingSettings.threshold]
+  );
+  const hiddenGroupCount = (duplicates?.duplicateGroups.length ?? 0) - visibleGroups.length;
+
   const handleParamChange = (key: keyof DuplicateDetectionParams, value: unknown) => {
     setParams(prev => ({ ...prev, [key]: value }));
   };
@@ -133,6 +174,10 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
       // Refresh the main transactions list
       onRefresh?.();
     } catch (err) {
+      if (isQueuedOffline(err)) {
+        toast.info(tToasts('transactionQueuedOffline'));
+        return;
+      }
       console.error('Failed to delete transaction:', err);
       toast.error(t('failedToDeleteTransaction'));
     }
@@ -183,8 +228,7 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
   };
 
   const selectAllGroups = () => {
-    if (!duplicates) return;
-    setSelectedGroups(new Set(duplicates.duplicateGroups.map(g => g.id)));
+    setSelectedGroups(new Set(visibleGroups.map(g => g.id)));
   };
 
   const clearGroupSelection = () => {
@@ -274,6 +318,7 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
     const isExpanded = expandedGroups.has(group.id);
     const isSelected = selectedGroups.has(group.id);
     const confidencePercent = Math.round(group.highestConfidence * 100);
+    const descriptionScore = descriptionScores.get(group.id) ?? 1;
     const confidenceLabel = group.highestConfidence >= 0.8
       ? t('duplicates.confidence.high')
       : group.highestConfidence >= 0.6
@@ -303,6 +348,14 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                   >
                     {confidenceLabel} ({confidencePercent}%)
                   </Badge>
+                  {group.transactions.length > 1 && (
+                    <Badge
+                      variant="outline"
+                      className={`border text-xs ${descriptionScore >= matchingSettings.threshold ? 'text-green-600 bg-green-50 border-green-200' : 'text-ink-500 bg-ink-50 border-ink-200'}`}
+                    >
+                      {t('duplicates.descriptionMatch', { percent: Math.round(descriptionScore * 100) })}
+                    </Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-4 text-sm text-ink-600">
                   <span className="flex items-center gap-1">
@@ -565,6 +618,29 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
           </CardContent>
         </Card>
 
+        {/* Description matching, applied to the groups client-side */}
+        <div className="space-y-2">
+          <DuplicateMatchingPanel
+            settings={matchingSettings}
+            onApply={updateMatchingSettings}
+            pairs={matchingPairs}
+            showConflictLevel={false}
+          />
+          <div className="flex items-center space-x-2 px-1">
+            <Checkbox
+              id="filterByDescription"
+              checked={filterByDescription}
+              onCheckedChange={(checked) => {
+                setFilterByDescription(checked);
+                setSelectedGroups(new Set());
+              }}
+            />
+            <Label htmlFor="filterByDescription" className="text-sm font-medium text-ink-700">
+              {t('duplicates.filterByDescription')}
+            </Label>
+          </div>
+        </div>
+
         {/* Results */}
         <div className="space-y-4">
           {loading && (
@@ -602,11 +678,16 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                       )}
                     </span>
                   </div>
+                  {hiddenGroupCount > 0 && (
+                    <p className="text-sm text-green-700 mt-1 ml-7">
+                      {t('duplicates.hiddenByDescription', { count: hiddenGroupCount })}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
               {/* Duplicate Groups */}
-              {duplicates.duplicateGroups.length > 0 && (
+              {visibleGroups.length > 0 && (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <h3 className="text-lg font-medium text-ink-900">
@@ -616,13 +697,13 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                       variant="secondary"
                       size="sm"
                       onClick={() => {
-                        const allGroupIds = new Set(duplicates.duplicateGroups.map(g => g.id));
+                        const allGroupIds = new Set(visibleGroups.map(g => g.id));
                         setExpandedGroups(
                           expandedGroups.size === allGroupIds.size ? new Set() : allGroupIds
                         );
                       }}
                     >
-                      {expandedGroups.size === duplicates.duplicateGroups.length ? tCommon('collapseAll') : tCommon('expandAll')}
+                      {expandedGroups.size === visibleGroups.length ? tCommon('collapseAll') : tCommon('expandAll')}
                     </Button>
                   </div>
 
@@ -633,7 +714,7 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                         <div className="flex items-center gap-3">
                           <h4 className="font-medium text-primary-900">{t('duplicates.bulkActions')}</h4>
                           <span className="text-sm text-primary-700">
-                            {t('duplicates.bulkSelected', { selected: selectedGroups.size, total: duplicates.duplicateGroups.length })}
+                            {t('duplicates.bulkSelected', { selected: selectedGroups.size, total: visibleGroups.length })}
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
@@ -641,7 +722,7 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                             variant="ghost"
                             size="sm"
                             onClick={selectAllGroups}
-                            disabled={selectedGroups.size === duplicates.duplicateGroups.length}
+                            disabled={selectedGroups.size === visibleGroups.length}
                           >
                             {tCommon('selectAll')}
                           </Button>
@@ -688,7 +769,7 @@ export function DuplicatesModal({ isOpen, onClose, onRefresh }: DuplicatesModalP
                   </Card>
                   
                   <div className="space-y-4">
-                    {duplicates.duplicateGroups.map(renderGroup)}
+                    {visibleGroups.map(renderGroup)}
                   </div>
                 </div>
               )}
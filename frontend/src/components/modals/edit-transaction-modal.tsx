@@ -4,6 +4,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { BaseModal } from './base-modal';
 import { TransactionForm, TransactionFormData, TransactionStatus } from '@/components/forms/transaction-form';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
+import { buildSplitRequests, splitLinesFromDto } from '@/lib/transactions/splits';
+import { joinTags, parseTags } from '@/lib/tags/tags';
+import type { TransactionSplitDto } from '@/types/transactions';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 import { formatCurrency } from '@/lib/utils';
@@ -23,8 +27,10 @@ interface Transaction {
   userDescription?: string;
   accountId: number;
   categoryId?: number;
+  splits?: TransactionSplitDto[];
   notes?: string;
   location?: string;
+  tags?: string;
   source: string | number;
   status: string | number;
   externalId?: string;
@@ -84,8 +90,10 @@ export function EditTransactionModal({
         description: formData.description.trim(),
         userDescription: formData.userDescription.trim() || undefined,
         categoryId: formData.categoryId ? parseInt(formData.categoryId) : undefined,
+        splits: buildSplitRequests(formData.splits, formData.type),
         notes: formData.notes.trim() || undefined,
         location: formData.location.trim() || undefined,
+        tags: joinTags(formData.tags),
         status: statusMap[formData.status] || 2, // Default to Cleared (2)
       };
 
@@ -102,6 +110,11 @@ export function EditTransactionModal({
         onSuccess();
       }
     } catch (error) {
+      if (isQueuedOffline(error)) {
+        toast.info(tToasts('transactionQueuedOffline'), { duration: 4000 });
+        onSuccess?.();
+        return;
+      }
       console.error('Error updating transaction:', error);
       toast.error(tToasts('transactionUpdateFailed'));
     }
@@ -120,8 +133,10 @@ export function EditTransactionModal({
       userDescription: transaction.userDescription || '',
       accountId: transaction.accountId.toString(),
       categoryId: transaction.categoryId?.toString() || '',
+      splits: splitLinesFromDto(transaction.splits),
       notes: transaction.notes || '',
       location: transaction.location || '',
+      tags: parseTags(transaction.tags),
       type: isIncome ? 'income' : 'expense',
       status: (typeof transaction.status === 'string' ? transaction.status : 'cleared') as TransactionStatus,
     };
@@ -17,6 +17,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { formatCurrency } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import { ReconciliationStatus } from '@/types/reconciliation';
 import { toast } from 'sonner';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { AkahuReconciliationForm } from '@/components/reconciliation/akahu-reconciliation-form';
@@ -40,7 +41,7 @@ interface ReconciliationData {
   statementEndBalance: number;
   calculatedBalance?: number;
   balanceDifference?: number;
-  status?: string;
+  status?: ReconciliationStatus;
   notes?: string;
 }
 
@@ -213,8 +214,7 @@ export function ReconciliationModal({
         notes: reconciliation.notes
       });
       
-      const createdReconciliation = result as ReconciliationData;
-      setReconciliation(prev => ({ ...prev, ...createdReconciliation }));
+      setReconciliation(prev => ({ ...prev, ...result }));
       setStep('import');
       toast.success(tToasts('reconciliationStarted'));
     } catch (error) {
@@ -265,7 +265,7 @@ export function ReconciliationModal({
     try {
       setLoading(true);
       await apiClient.updateReconciliation(reconciliation.id, {
-        status: 1 // ReconciliationStatus.Completed = 1
+        status: ReconciliationStatus.Completed
       });
       
       toast.success(tToasts('reconciliationCompleted'));
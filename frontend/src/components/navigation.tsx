@@ -19,6 +19,9 @@ import {
   CircleStackIcon,
   ChevronRightIcon,
   ArrowRightOnRectangleIcon,
+  CalendarDaysIcon,
+  ScaleIcon,
+  CalculatorIcon,
 } from '@heroicons/react/24/outline';
 import { AppIcon } from '@/components/app-icon';
 import { NotificationBell } from '@/components/notifications/notification-bell';
@@ -87,8 +90,11 @@ export default function Navigation() {
     { href: '/dashboard', labelKey: 'dashboard' as const, icon: ChartBarIcon },
     { href: '/transactions', labelKey: 'transactions' as const, icon: ArrowsRightLeftIcon },
     { href: '/budgets', labelKey: 'budgets' as const, icon: WalletIcon },
+    { href: '/bills', labelKey: 'bills' as const, icon: CalendarDaysIcon },
     { href: '/goals', labelKey: 'goals' as const, icon: FlagIcon },
     { href: '/wallets', labelKey: 'wallets' as const, icon: CircleStackIcon },
+    { href: '/net-worth', labelKey: 'netWorth' as const, icon: ScaleIcon },
+    { href: '/debts', labelKey: 'debts' as const, icon: CalculatorIcon },
     { href: '/analytics', labelKey: 'analytics' as const, icon: ChartBarIcon },
     { href: '/chat', labelKey: 'aiChat' as const, icon: ChatBubbleLeftRightIcon },
   ];
@@ -112,8 +118,11 @@ export default function Navigation() {
   // Mobile "More" menu items
   const mobileMoreItems = [
     { href: '/accounts', labelKey: 'accounts' as const, icon: BuildingOffice2Icon },
+    { href: '/bills', labelKey: 'bills' as const, icon: CalendarDaysIcon },
     { href: '/goals', labelKey: 'goals' as const, icon: FlagIcon },
     { href: '/wallets', labelKey: 'wallets' as const, icon: CircleStackIcon },
+    { href: '/net-worth', labelKey: 'netWorth' as const, icon: ScaleIcon },
+    { href: '/debts', labelKey: 'debts' as const, icon: CalculatorIcon },
     { href: '/analytics', labelKey: 'analytics' as const, icon: ChartBarIcon },
     { href: '/categories', labelKey: 'categories' as const, icon: TagIcon },
     { href: '/rules', labelKey: 'rules' as const, icon: AdjustmentsHorizontalIcon },
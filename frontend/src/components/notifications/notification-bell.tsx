@@ -8,16 +8,19 @@ import { BellAlertIcon } from '@heroicons/react/24/solid';
 import { apiClient } from '@/lib/api-client';
 import { useAuth } from '@/contexts/auth-context';
 import { useLocale } from '@/contexts/locale-context';
+import { useRealtime, useRealtimeEvent } from '@/contexts/realtime-context';
 import { cn } from '@/lib/utils';
 import type { NotificationDto } from '@/types/notifications';
 
-const POLL_INTERVAL = 30_000; // 30 seconds
+const POLL_INTERVAL = 30_000; // 30 seconds, only while the realtime stream is down
 
 export function NotificationBell() {
   const { isAuthenticated } = useAuth();
   const t = useTranslations('notifications');
   const router = useRouter();
   const { locale } = useLocale();
+  const { status: realtimeStatus } = useRealtime();
+  const isLive = realtimeStatus === 'live';
 
   const [unreadCount, setUnreadCount] = useState(0);
   const [notifications, setNotifications] = useState<NotificationDto[]>([]);
@@ -38,11 +41,32 @@ export function NotificationBell() {
     }
   }, [isAuthenticated]);
 
+  // Fetch once whenever the channel changes state (covers events missed while
+  // reconnecting), then poll only if the stream is unavailable
   useEffect(() => {
     fetchUnreadCount();
+    if (isLive) return;
     const interval = setInterval(fetchUnreadCount, POLL_INTERVAL);
     return () => clearInterval(interval);
-  }, [fetchUnreadCount]);
+  }, [fetchUnreadCount, isLive]);
+
+  useRealtimeEvent('notification.created', ({ notification, unreadCount: count }) => {
+    setUnreadCount(count);
+    setNotifications((prev) =>
+      prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev]
+    );
+  });
+
+  useRealtimeEvent('notification.unreadCount', ({ count }) => {
+    setUnreadCount(count);
+  });
+
+  // After a local change the server pushes the new count when live; otherwise ask for it
+  const resyncUnreadCount = useCallback(() => {
+    if (!isLive) {
+      void fetchUnreadCount();
+    }
+  }, [fetchUnreadCount, isLive]);
 
   // Fetch notifications when panel opens
   const fetchNotifications = useCallback(async () => {
@@ -104,8 +128,8 @@ export function NotificationBell() {
       );
       setUnreadCount((prev) => prev + 1);
     } finally {
-      // Re-sync badge count from server to resolve any races with the polling interval
-      void fetchUnreadCount();
+      // Re-sync badge count from server to resolve any races with concurrent updates
+      resyncUnreadCount();
     }
   };
 
@@ -129,8 +153,8 @@ export function NotificationBell() {
       );
       setUnreadCount((prev) => prev + flippedCount);
     } finally {
-      // Re-sync badge count from server to resolve any races with the polling interval
-      void fetchUnreadCount();
+      // Re-sync badge count from server to resolve any races with concurrent updates
+      resyncUnreadCount();
     }
   };
 
@@ -163,8 +187,8 @@ export function NotificationBell() {
         }
       }
     } finally {
-      // Re-sync badge count from server to resolve any races with the polling interval
-      void fetchUnreadCount();
+      // Re-sync badge count from server to resolve any races with concurrent updates
+      resyncUnreadCount();
     }
   };
 
@@ -190,8 +214,8 @@ export function NotificationBell() {
         );
         setUnreadCount((prev) => prev + 1);
       } finally {
-        // Re-sync badge count from server to resolve any races with the polling interval
-        void fetchUnreadCount();
+        // Re-sync badge count from server to resolve any races with concurrent updates
+        resyncUnreadCount();
       }
     }
 
@@ -248,17 +272,23 @@ export function NotificationBell() {
       if (typeof parsed.count === 'number') args.count = parsed.count;
       if (typeof parsed.merchantName === 'string') args.merchantName = parsed.merchantName;
       if (typeof parsed.dateIso === 'string') args.date = parsed.dateIso;
-      if (typeof parsed.amountMinorUnits === 'number') {
-        // Format amount using active locale; fall back to raw value
+      // Format amounts using active locale; fall back to raw value
+      const formatMinorUnits = (minorUnits: number): string => {
         try {
-          args.amount = new Intl.NumberFormat(locale, {
+          return new Intl.NumberFormat(locale, {
             style: 'currency',
             currency: 'USD', // TODO: include currency in data payload
             minimumFractionDigits: 2,
-          }).format(parsed.amountMinorUnits / 100);
+          }).format(minorUnits / 100);
         } catch {
-          args.amount = String(parsed.amountMinorUnits / 100);
+          return String(minorUnits / 100);
         }
+      };
+      if (typeof parsed.amountMinorUnits === 'number') {
+        args.amount = formatMinorUnits(parsed.amountMinorUnits);
+      }
+      if (typeof parsed.expectedAmountMinorUnits === 'number') {
+        args.expectedAmount = formatMinorUnits(parsed.expectedAmountMinorUnits);
       }
       return args;
     } catch {
@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { cn } from '@/lib/utils';
+import { isInQuietHours, minutesToTime, MINUTES_PER_DAY } from '@/lib/notifications/notification-preferences';
+
+const SLOT_MINUTES = 30;
+const SLOTS = Array.from({ length: MINUTES_PER_DAY / SLOT_MINUTES }, (_, index) => index * SLOT_MINUTES);
+const HOUR_LABELS = [0, 6, 12, 18];
+
+interface QuietHoursTimelineProps {
+  /** Window start and end in minutes after midnight, or null when quiet hours are off. */
+  start: number | null;
+  end: number | null;
+  /** Current time in the quiet-hours time zone, drawn as a marker. */
+  now?: number;
+  onChange: (start: number, end: number) => void;
+}
+
+/**
+ * A 24-hour strip of half-hour slots. Dragging across it selects the window;
+ * dragging backwards past the start wraps the window over midnight.
+ */
+export function QuietHoursTimeline({ start, end, now, onChange }: QuietHoursTimelineProps) {
+  const t = useTranslations('settings.notifications.quietHours');
+  const [dragStart, setDragStart] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (dragStart === null) return;
+    const stopDragging = () => setDragStart(null);
+    window.addEventListener('pointerup', stopDragging);
+    return () => window.removeEventListener('pointerup', stopDragging);
+  }, [dragStart]);
+
+  const selectUntil = (slot: number) => {
+    if (dragStart === null) return;
+    onChange(dragStart, (slot + SLOT_MINUTES) % MINUTES_PER_DAY);
+  };
+
+  const hasWindow = start !== null && end !== null && start !== end;
+
+  return (
+    <div>
+      <div
+        className="relative flex h-10 select-none overflow-hidden rounded-xl border border-ink-200 bg-ink-50 touch-none"
+        role="group"
+        aria-label={t('timelineLabel')}
+      >
+        {SLOTS.map((slot) => {
+          const quiet = hasWindow && isInQuietHours(slot, start, end);
+          return (
+            <button
+              key={slot}
+              type="button"
+              title={minutesToTime(slot)}
+              aria-label={minutesToTime(slot)}
+              aria-pressed={quiet}
+              onPointerDown={(event) => {
+                event.preventDefault();
+                setDragStart(slot);
+                onChange(slot, (slot + SLOT_MINUTES) % MINUTES_PER_DAY);
+              }}
+              onPointerEnter={() => selectUntil(slot)}
+              className={cn(
+                'h-full flex-1 transition-colors',
+                slot % 60 === 0 && slot > 0 && 'border-l border-white/60',
+                quiet ? 'bg-primary-500 hover:bg-primary-600' : 'hover:bg-ink-200'
+              )}
+            />
+          );
+        })}
+        {now !== undefined && (
+          <div
+            className="pointer-events-none absolute inset-y-0 w-0.5 bg-red-500"
+            style={{ left: `${(now / MINUTES_PER_DAY) * 100}%` }}
+            aria-hidden="true"
+          />
+        )}
+      </div>
+      <div className="relative mt-1 h-4 font-[var(--font-dash-mono)] text-[11px] text-ink-400">
+        {HOUR_LABELS.map((hour) => (
+          <span key={hour} className="absolute" style={{ left: `${(hour / 24) * 100}%` }}>
+            {minutesToTime(hour * 60)}
+          </span>
+        ))}
+        <span className="absolute right-0">{minutesToTime(0)}</span>
+      </div>
+    </div>
+  );
+}
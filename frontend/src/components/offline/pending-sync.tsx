@@ -0,0 +1,146 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import {
+  ArrowPathIcon,
+  CloudArrowUpIcon,
+  ExclamationTriangleIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { useTransactionOutbox } from '@/hooks/use-transaction-outbox';
+import type { OutboxEntry } from '@/lib/offline/transaction-outbox';
+import { cn, formatCurrency, formatDateTime } from '@/lib/utils';
+
+interface PendingSyncBadgeProps {
+  /** Renders nothing when the transaction has no queued change. */
+  entry?: OutboxEntry;
+  className?: string;
+}
+
+/** Marks a transaction row that has a queued, not yet synced change. */
+export function PendingSyncBadge({ entry, className }: PendingSyncBadgeProps) {
+  const t = useTranslations('transactions.offline');
+  if (!entry) return null;
+
+  const isConflict = entry.status === 'conflict';
+  const label = isConflict
+    ? t('conflict')
+    : entry.operation.kind === 'delete'
+      ? t('pendingDelete')
+      : t('pendingSync');
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0',
+        isConflict ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800',
+        className
+      )}
+      title={entry.error}
+    >
+      {isConflict ? <ExclamationTriangleIcon className="w-3 h-3" /> : <CloudArrowUpIcon className="w-3 h-3" />}
+      {label}
+    </span>
+  );
+}
+
+interface OfflineQueuePanelProps {
+  /** Only show queued creates for this account. Conflicts are always shown. */
+  accountId?: number;
+  /** Called after a retry synced at least one write, so the list can refetch. */
+  onSynced?: () => void;
+}
+
+/**
+ * Lists transactions created while offline (they have no server row to badge
+ * yet) and every write the server rejected on replay, with retry and discard.
+ */
+export function OfflineQueuePanel({ accountId, onSynced }: OfflineQueuePanelProps) {
+  const t = useTranslations('transactions.offline');
+  const tToasts = useTranslations('toasts');
+  const { entries, retry, discard } = useTransactionOutbox();
+
+  const visible = entries.filter(
+    (entry) =>
+      entry.status === 'conflict' ||
+      (entry.operation.kind === 'create' && (!accountId || entry.operation.request.accountId === accountId))
+  );
+
+  if (visible.length === 0) return null;
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    try {
+      const result = await retry(entry);
+      if (result.synced > 0) {
+        toast.success(tToasts('offlineTransactionsSynced', { count: result.synced }));
+        onSynced?.();
+      }
+      if (result.conflicts > 0) {
+        toast.error(tToasts('offlineTransactionsConflicted', { count: result.conflicts }));
+      }
+    } catch (error) {
+      console.error('Failed to retry queued transaction:', error);
+      toast.error(tToasts('error.generic'));
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    try {
+      await discard(entry);
+    } catch (error) {
+      console.error('Failed to discard queued transaction:', error);
+      toast.error(tToasts('error.generic'));
+    }
+  };
+
+  const describe = (entry: OutboxEntry) => {
+    const { operation } = entry;
+    if (operation.kind === 'delete') {
+      return t('deleteTransaction', { id: operation.transactionId });
+    }
+    return operation.request.userDescription || operation.request.description;
+  };
+
+  return (
+    <div className="rounded-[26px] border border-amber-200 bg-amber-50/80 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <CloudArrowUpIcon className="w-5 h-5 text-amber-700" />
+        <h3 className="text-sm font-semibold text-ink-900">{t('title')}</h3>
+      </div>
+      <ul className="divide-y divide-amber-100">
+        {visible.map((entry) => (
+          <li key={entry.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-ink-900 truncate">{describe(entry)}</p>
+                <PendingSyncBadge entry={entry} />
+              </div>
+              <p className="text-xs text-ink-500 mt-0.5">
+                {entry.status === 'conflict' && entry.error
+                  ? entry.error
+                  : t('queuedAt', { date: formatDateTime(entry.queuedAt) })}
+              </p>
+            </div>
+            {entry.operation.kind !== 'delete' && (
+              <p className="font-[var(--font-dash-mono)] text-sm font-bold text-ink-700">
+                {formatCurrency(entry.operation.request.amount)}
+              </p>
+            )}
+            {entry.status === 'conflict' && (
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => handleRetry(entry)} aria-label={t('retry')}>
+                  <ArrowPathIcon className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDiscard(entry)} aria-label={t('discard')}>
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { apiClient } from '@/lib/api-client';
+import {
+  buildMonthGrid,
+  getGridRange,
+  groupEntriesByDay,
+  sumDayEntries,
+  toDateKey,
+} from '@/lib/recurring-schedules/calendar';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { RecurringCalendarDto, RecurringCalendarEntryDto } from '@/types/recurring-schedules';
+
+const STATUS_STYLES: Record<string, string> = {
+  paid: 'bg-green-50 text-green-700 border-green-200',
+  late: 'bg-amber-50 text-amber-700 border-amber-200',
+  missed: 'bg-red-50 text-red-700 border-red-200',
+  expected: 'bg-primary-50 text-primary-700 border-primary-200',
+};
+
+const STATUS_DOTS: Record<string, string> = {
+  paid: 'bg-green-500',
+  late: 'bg-amber-500',
+  missed: 'bg-red-500',
+  expected: 'bg-primary-500',
+};
+
+function entryStyle(entry: RecurringCalendarEntryDto): string {
+  // Inferred bills are guesses, so they are drawn lighter than declared schedules
+  if (entry.source === 'inferred') return 'bg-white text-ink-600 border-dashed border-ink-300';
+  return STATUS_STYLES[entry.status] ?? STATUS_STYLES.expected;
+}
+
+interface BillCalendarProps {
+  /** Dots instead of named entries, for the dashboard widget. */
+  compact?: boolean;
+  /** Bump to reload after schedules change. */
+  refreshKey?: number;
+}
+
+export function BillCalendar({ compact = false, refreshKey = 0 }: BillCalendarProps) {
+  const t = useTranslations('bills.calendar');
+  const locale = useLocale();
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+  const [calendar, setCalendar] = useState<RecurringCalendarDto | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const weeks = useMemo(() => buildMonthGrid(month.year, month.month), [month]);
+  const range = useMemo(() => getGridRange(weeks), [weeks]);
+  const requestKey = `${range.startDate}:${range.endDate}:${refreshKey}`;
+  const loading = loadedKey !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient
+      .getRecurringCalendar(range.startDate, range.endDate)
+      .then((data) => {
+        if (!cancelled) setCalendar(data);
+      })
+      .catch((error) => {
+        console.error('Failed to load bill calendar:', error);
+        if (!cancelled) setCalendar(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedKey(requestKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range, requestKey]);
+
+  const byDay = useMemo(() => groupEntriesByDay(calendar?.entries ?? []), [calendar]);
+  const todayKey = toDateKey(new Date());
+
+  const monthTotals = useMemo(() => {
+    let expenses = 0;
+    let income = 0;
+    weeks.flat().forEach((day) => {
+      if (!day.inMonth) return;
+      byDay.get(day.key)?.forEach((entry) => {
+        if (entry.status !== 'expected') return;
+        if (entry.amount < 0) expenses -= entry.amount;
+        else income += entry.amount;
+      });
+    });
+    return { expenses, income };
+  }, [weeks, byDay]);
+
+  const monthLabel = new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }).format(
+    new Date(month.year, month.month, 1)
+  );
+  const weekdayLabels = weeks[0].map((day) => {
+    const [year, monthIndex, date] = day.key.split('-').map(Number);
+    return new Intl.DateTimeFormat(locale, { weekday: compact ? 'narrow' : 'short' }).format(
+      new Date(year, monthIndex - 1, date)
+    );
+  });
+
+  const shiftMonth = (delta: number) => {
+    setSelectedDay(null);
+    setMonth((current) => {
+      const next = new Date(current.year, current.month + delta, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  const selectedEntries = selectedDay ? byDay.get(selectedDay) ?? [] : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => shiftMonth(-1)} title={t('previousMonth')}>
+          <ChevronLeftIcon className="h-4 w-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-semibold capitalize text-ink-900">{monthLabel}</p>
+          {!compact && (
+            <p className="text-xs text-ink-500">
+              {t('monthTotals', {
+                expenses: formatCurrency(monthTotals.expenses),
+                income: formatCurrency(monthTotals.income),
+              })}
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => shiftMonth(1)} title={t('nextMonth')}>
+          <ChevronRightIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className={cn('grid grid-cols-7 gap-px overflow-hidden rounded-xl border border-ink-100 bg-ink-100', loading && 'opacity-60')}>
+        {weekdayLabels.map((label, index) => (
+          <div key={index} className="bg-ink-50 py-1 text-center text-[11px] font-semibold uppercase tracking-wide text-ink-500">
+            {label}
+          </div>
+        ))}
+        {weeks.flat().map((day) => {
+          const entries = byDay.get(day.key) ?? [];
+          const isSelected = selectedDay === day.key;
+          return (
+            <button
+              key={day.key}
+              type="button"
+              onClick={() => setSelectedDay(isSelected ? null : day.key)}
+              className={cn(
+                'flex flex-col items-stretch bg-white p-1 text-left transition-colors hover:bg-ink-50',
+                compact ? 'min-h-[44px]' : 'min-h-[88px]',
+                !day.inMonth && 'bg-ink-50/60 text-ink-400',
+                isSelected && 'ring-2 ring-inset ring-primary-400'
+              )}
+              aria-label={t('dayLabel', { date: day.key, count: entries.length })}
+            >
+              <span
+                className={cn(
+                  'inline-flex h-6 w-6 items-center justify-center self-start rounded-full text-xs font-medium',
+                  day.key === todayKey ? 'bg-primary-600 text-white' : day.inMonth ? 'text-ink-700' : 'text-ink-400'
+                )}
+              >
+                {day.day}
+              </span>
+              {compact ? (
+                <span className="mt-0.5 flex flex-wrap gap-0.5">
+                  {entries.slice(0, 4).map((entry, index) => (
+                    <span
+                      key={index}
+                      className={cn(
+                        'h-1.5 w-1.5 rounded-full',
+                        entry.source === 'inferred' ? 'bg-ink-300' : STATUS_DOTS[entry.status] ?? STATUS_DOTS.expected
+                      )}
+                    />
+                  ))}
+                </span>
+              ) : (
+                <span className="mt-1 space-y-0.5">
+                  {entries.slice(0, 2).map((entry, index) => (
+                    <span
+                      key={index}
+                      className={cn('block truncate rounded border px-1 text-[11px] leading-4', entryStyle(entry))}
+                    >
+                      {entry.name}
+                    </span>
+                  ))}
+                  {entries.length > 2 && (
+                    <span className="block text-[11px] text-ink-500">{t('more', { count: entries.length - 2 })}</span>
+                  )}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {!compact && (
+        <div className="flex flex-wrap gap-3 text-xs text-ink-500">
+          {(['expected', 'paid', 'late', 'missed'] as const).map((status) => (
+            <span key={status} className="inline-flex items-center gap-1">
+              <span className={cn('h-2 w-2 rounded-full', STATUS_DOTS[status])} />
+              {t(`status.${status}`)}
+            </span>
+          ))}
+          <span className="inline-flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full border border-dashed border-ink-400" />
+            {t('inferredLegend')}
+          </span>
+        </div>
+      )}
+
+      {selectedDay && (
+        <div className="rounded-xl border border-ink-100 bg-ink-50/50 p-3">
+          {selectedEntries.length === 0 ? (
+            <p className="text-sm text-ink-500">{t('nothingDue')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {selectedEntries.map((entry, index) => (
+                <li key={index} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-ink-900">{entry.name}</p>
+                    <p className="text-xs text-ink-500">
+                      {entry.source === 'inferred' ? t('inferred') : t(`status.${entry.status}`)}
+                      {entry.accountName && ` · ${entry.accountName}`}
+                      {entry.categoryName && ` · ${entry.categoryName}`}
+                    </p>
+                    {entry.amountChanged && entry.actualAmount !== undefined && (
+                      <p className="text-xs text-amber-700">
+                        {t('amountChanged', { amount: formatCurrency(Math.abs(entry.actualAmount)) })}
+                      </p>
+                    )}
+                    {entry.transactionId && (
+                      <Link href={`/transactions/${entry.transactionId}`} className="text-xs text-primary-600 hover:underline">
+                        {t('viewTransaction')}
+                      </Link>
+                    )}
+                  </div>
+                  <span className={cn('shrink-0 font-semibold', entry.amount < 0 ? 'text-red-600' : 'text-green-600')}>
+                    {formatCurrency(Math.abs(entry.actualAmount ?? entry.amount))}
+                  </span>
+                </li>
+              ))}
+              {selectedEntries.length > 1 && (
+                <li className="flex justify-between border-t border-ink-100 pt-2 text-xs text-ink-500">
+                  <span>{t('dayNet')}</span>
+                  <span>{formatCurrency(sumDayEntries(selectedEntries))}</span>
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
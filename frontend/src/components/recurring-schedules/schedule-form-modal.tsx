@@ -0,0 +1,271 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/modals/base-modal';
+import { CategoryPicker } from '@/components/forms/category-picker';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { apiClient } from '@/lib/api-client';
+import type { AccountDto } from '@/types/accounts';
+import type { CategoryDto } from '@/types/categories';
+import {
+  SCHEDULE_FREQUENCIES,
+  type RecurringScheduleDto,
+  type SaveRecurringScheduleRequest,
+  type ScheduleFrequency,
+} from '@/types/recurring-schedules';
+
+interface ScheduleFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  /** The schedule being edited; a new schedule is created when absent. */
+  schedule?: RecurringScheduleDto | null;
+  accounts: AccountDto[];
+  categories: CategoryDto[];
+}
+
+interface FormState {
+  name: string;
+  direction: 'expense' | 'income';
+  amount: string;
+  frequency: ScheduleFrequency;
+  accountId: string;
+  categoryId?: number;
+  startDate: string;
+  endDate: string;
+  matchText: string;
+  tolerance: string;
+  isActive: boolean;
+  notes: string;
+}
+
+function initialState(schedule: RecurringScheduleDto | null | undefined, accounts: AccountDto[]): FormState {
+  if (schedule) {
+    return {
+      name: schedule.name,
+      direction: schedule.amount < 0 ? 'expense' : 'income',
+      amount: String(Math.abs(schedule.amount)),
+      frequency: (SCHEDULE_FREQUENCIES as string[]).includes(schedule.frequency)
+        ? (schedule.frequency as ScheduleFrequency)
+        : 'Monthly',
+      accountId: String(schedule.accountId),
+      categoryId: schedule.categoryId,
+      startDate: schedule.startDate.slice(0, 10),
+      endDate: schedule.endDate?.slice(0, 10) ?? '',
+      matchText: schedule.matchText ?? '',
+      tolerance: String(schedule.amountTolerancePercent),
+      isActive: schedule.isActive,
+      notes: schedule.notes ?? '',
+    };
+  }
+
+  return {
+    name: '',
+    direction: 'expense',
+    amount: '',
+    frequency: 'Monthly',
+    accountId: accounts.length === 1 ? String(accounts[0].id) : '',
+    startDate: new Date().toISOString().slice(0, 10),
+    endDate: '',
+    matchText: '',
+    tolerance: '10',
+    isActive: true,
+    notes: '',
+  };
+}
+
+export function ScheduleFormModal({ isOpen, onClose, onSaved, schedule, accounts, categories }: ScheduleFormModalProps) {
+  const t = useTranslations('bills.form');
+  const tCommon = useTranslations('common');
+  const [form, setForm] = useState<FormState>(() => initialState(schedule, accounts));
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const amount = parseFloat(form.amount);
+    if (!form.name.trim()) {
+      toast.error(t('errors.nameRequired'));
+      return;
+    }
+    if (!form.accountId) {
+      toast.error(t('errors.accountRequired'));
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error(t('errors.amountRequired'));
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      toast.error(t('errors.endBeforeStart'));
+      return;
+    }
+
+    const request: SaveRecurringScheduleRequest = {
+      name: form.name.trim(),
+      accountId: Number(form.accountId),
+      categoryId: form.categoryId,
+      amount: form.direction === 'expense' ? -amount : amount,
+      frequency: form.frequency,
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+      matchText: form.matchText.trim() || undefined,
+      amountTolerancePercent: form.tolerance === '' ? undefined : Number(form.tolerance),
+      isActive: form.isActive,
+      notes: form.notes.trim() || undefined,
+    };
+
+    try {
+      setSaving(true);
+      if (schedule) {
+        await apiClient.updateRecurringSchedule(schedule.id, request);
+      } else {
+        await apiClient.createRecurringSchedule(request);
+      }
+      toast.success(schedule ? t('updated') : t('created'));
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save recurring schedule:', error);
+      toast.error(error instanceof Error && error.message ? error.message : t('errors.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={schedule ? t('editTitle') : t('createTitle')} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('name')}</label>
+          <Input
+            value={form.name}
+            onChange={(event) => update('name', event.target.value)}
+            placeholder={t('namePlaceholder')}
+            maxLength={200}
+            autoFocus
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('direction')}</label>
+            <Select value={form.direction} onChange={(event) => update('direction', event.target.value as FormState['direction'])}>
+              <option value="expense">{t('expense')}</option>
+              <option value="income">{t('income')}</option>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('amount')}</label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(event) => update('amount', event.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('frequency')}</label>
+            <Select value={form.frequency} onChange={(event) => update('frequency', event.target.value as ScheduleFrequency)}>
+              {SCHEDULE_FREQUENCIES.map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {t(`frequencies.${frequency}`)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('account')}</label>
+            <Select
+              value={form.accountId}
+              onChange={(event) => update('accountId', event.target.value)}
+              placeholder={t('accountPlaceholder')}
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('startDate')}</label>
+            <Input type="date" value={form.startDate} onChange={(event) => update('startDate', event.target.value)} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('endDate')}</label>
+            <Input type="date" value={form.endDate} min={form.startDate} onChange={(event) => update('endDate', event.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('category')}</label>
+          <CategoryPicker
+            value={form.categoryId}
+            onChange={(categoryId) => {
+              const id = typeof categoryId === 'number' ? categoryId : parseInt(String(categoryId), 10);
+              update('categoryId', Number.isNaN(id) ? undefined : id);
+            }}
+            categories={categories}
+            placeholder={t('categoryPlaceholder')}
+            disableQuickPicks={true}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('matchText')}</label>
+            <Input
+              value={form.matchText}
+              onChange={(event) => update('matchText', event.target.value)}
+              placeholder={form.name || t('matchTextPlaceholder')}
+              maxLength={200}
+            />
+            <p className="mt-1 text-xs text-ink-500">{t('matchTextHint')}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-ink-700 mb-1">{t('tolerance')}</label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={form.tolerance}
+              onChange={(event) => update('tolerance', event.target.value)}
+            />
+            <p className="mt-1 text-xs text-ink-500">{t('toleranceHint')}</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-ink-700 mb-1">{t('notes')}</label>
+          <Textarea value={form.notes} onChange={(event) => update('notes', event.target.value)} maxLength={500} rows={2} />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-ink-700">
+          <Checkbox checked={form.isActive} onCheckedChange={(checked) => update('isActive', checked)} />
+          {t('active')}
+        </label>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={saving}>
+            {tCommon('cancel')}
+          </Button>
+          <Button type="submit" disabled={saving}>
+            {saving ? tCommon('saving') : tCommon('save')}
+          </Button>
+        </div>
+      </form>
+    </BaseModal>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import {
+  ArrowPathIcon,
+  ArrowUpIcon,
+  CheckCircleIcon,
+  PauseIcon,
+  Squares2X2Icon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useRuleSimulationData } from '@/hooks/use-rule-simulation-data';
+import { apiClient } from '@/lib/api-client';
+import { analyzeRules, prioritiesWithRuleBefore, RuleFinding, RuleFindingKind } from '@/lib/rules/rule-analyzer';
+import { cn } from '@/lib/utils';
+import type { CategorizationRule } from '@/types/rules';
+
+interface RuleAnalyzerPanelProps {
+  /** Called after an action changed rules so the page can refresh its list. */
+  onRulesChanged: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<RuleFindingKind, string> = {
+  shadowed: 'bg-red-100 text-red-800',
+  conflicting: 'bg-amber-100 text-amber-800',
+  redundant: 'bg-blue-100 text-blue-800',
+  dead: 'bg-ink-100 text-ink-700'
+};
+
+export function RuleAnalyzerPanel({ onRulesChanged, onClose }: RuleAnalyzerPanelProps) {
+  const t = useTranslations('rules');
+  const tCommon = useTranslations('common');
+  const { data, loading, load } = useRuleSimulationData();
+  const [busyRuleId, setBusyRuleId] = useState<number | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<{ rule: CategorizationRule; into: CategorizationRule } | null>(null);
+
+  const runAnalysis = async () => {
+    try {
+      await load();
+    } catch (error) {
+      console.error('Failed to load data for the rule analysis:', error);
+      toast.error(t('analyzer.toasts.loadFailed'));
+    }
+  };
+
+  useEffect(() => {
+    runAnalysis();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const analysis = useMemo(
+    () => data && analyzeRules(data.rules, data.transactions, data.accountTypes),
+    [data]
+  );
+
+  const runAction = async (rule: CategorizationRule, action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setBusyRuleId(rule.id);
+      await action();
+      toast.success(successMessage);
+      await Promise.all([onRulesChanged(), runAnalysis()]);
+    } catch (error) {
+      console.error('Failed to apply rule analyzer action:', error);
+      toast.error(t('analyzer.toasts.actionFailed'));
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const disableRule = (rule: CategorizationRule) =>
+    runAction(
+      rule,
+      () => apiClient.put(`/api/rules/${rule.id}`, { ...rule, isActive: false }),
+      t('analyzer.toasts.disabled', { name: rule.name })
+    );
+
+  const moveRuleBefore = (rule: CategorizationRule, before: CategorizationRule) =>
+    runAction(
+      rule,
+      () => apiClient.put('/api/rules/priorities', {
+        rulePriorities: prioritiesWithRuleBefore(data?.rules ?? [], rule.id, before.id)
+      }),
+      t('analyzer.toasts.moved', { name: rule.name, before: before.name })
+    );
+
+  // Merging a redundant rule removes it; the earlier rule already assigns the same category
+  const mergeRule = async () => {
+    if (!mergeTarget) return;
+    const { rule, into } = mergeTarget;
+    setMergeTarget(null);
+    await runAction(
+      rule,
+      () => apiClient.delete(`/api/rules/${rule.id}`),
+      t('analyzer.toasts.merged', { name: rule.name, into: into.name })
+    );
+  };
+
+  const describeFinding = (finding: RuleFinding) => {
+    const [related] = finding.relatedRules;
+    switch (finding.kind) {
+      case 'shadowed':
+        return t('analyzer.descriptions.shadowed', {
+          count: finding.sharedCount,
+          names: finding.relatedRules.map((rule) => rule.name).join(', ')
+        });
+      case 'redundant':
+        return t('analyzer.descriptions.redundant', {
+          count: finding.sharedCount,
+          names: finding.relatedRules.map((rule) => rule.name).join(', '),
+          category: finding.rule.categoryName
+        });
+      case 'conflicting':
+        return t('analyzer.descriptions.conflicting', {
+          count: finding.sharedCount,
+          name: related.name,
+          category: related.categoryName,
+          ownCategory: finding.rule.categoryName
+        });
+      case 'dead':
+        return finding.invalidPattern
+          ? t('analyzer.descriptions.invalidPattern')
+          : t('analyzer.descriptions.dead', { count: analysis?.scanned ?? 0 });
+    }
+  };
+
+  return (
+    <section className="rounded-[20px] border border-ink-200 bg-white/90 p-4 shadow-sm shadow-primary-200/20 backdrop-blur-xs space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-ink-900">{t('analyzer.title')}</h2>
+          <p className="text-sm text-ink-500 mt-0.5">
+            {analysis ? t('analyzer.summary', { count: analysis.scanned }) : t('analyzer.subtitle')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="secondary" size="sm" onClick={runAnalysis} disabled={loading} className="flex items-center gap-2">
+            <ArrowPathIcon className={cn('w-4 h-4', loading && 'animate-spin')} />
+            {t('analyzer.rerun')}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label={tCommon('close')}>
+            <XMarkIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!analysis && loading && (
+        <p className="text-sm text-ink-400 py-6 text-center">{t('analyzer.analyzing')}</p>
+      )}
+
+      {analysis && analysis.findings.length === 0 && (
+        <div className="flex items-center gap-2 rounded-xl bg-emerald-50 p-3 text-sm text-emerald-800">
+          <CheckCircleIcon className="w-5 h-5 shrink-0" />
+          {t('analyzer.noFindings')}
+        </div>
+      )}
+
+      {analysis && analysis.findings.length > 0 && (
+        <ul className="space-y-2">
+          {analysis.findings.map((finding) => {
+            const [related] = finding.relatedRules;
+            const busy = busyRuleId === finding.rule.id;
+            return (
+              <li
+                key={`${finding.kind}-${finding.rule.id}-${related?.id ?? 'none'}`}
+                className="rounded-xl border border-ink-100 bg-ink-50/60 p-3"
+              >
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', KIND_STYLES[finding.kind])}>
+                        {t(`analyzer.kinds.${finding.kind}`)}
+                      </span>
+                      <span className="font-medium text-ink-900">{finding.rule.name}</span>
+                      <span className="font-[var(--font-dash-mono)] text-xs text-ink-400">
+                        {t('analyzer.priority', { priority: finding.rule.priority })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-ink-600 mt-1">{describeFinding(finding)}</p>
+                    {finding.sampleDescriptions.length > 0 && (
+                      <p className="text-xs text-ink-400 mt-1 truncate">
+                        {t('analyzer.examples', { examples: finding.sampleDescriptions.join(' · ') })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2 shrink-0">
+                    {finding.kind === 'redundant' && finding.relatedRules.length === 1 && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => setMergeTarget({ rule: finding.rule, into: related })}
+                        className="flex items-center gap-1.5"
+                      >
+                        <Squares2X2Icon className="w-4 h-4" />
+                        {t('analyzer.actions.merge')}
+                      </Button>
+                    )}
+                    {(finding.kind === 'shadowed' || finding.kind === 'conflicting') && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => moveRuleBefore(finding.rule, related)}
+                        className="flex items-center gap-1.5"
+                      >
+                        <ArrowUpIcon className="w-4 h-4" />
+                        {t('analyzer.actions.moveBefore', { name: related.name })}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => disableRule(finding.rule)}
+                      className="flex items-center gap-1.5"
+                    >
+                      <PauseIcon className="w-4 h-4" />
+                      {t('analyzer.actions.disable')}
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmationDialog
+        isOpen={mergeTarget !== null}
+        onClose={() => setMergeTarget(null)}
+        onConfirm={mergeRule}
+        title={t('analyzer.mergeTitle')}
+        description={mergeTarget ? t('analyzer.mergeConfirm', { name: mergeTarget.rule.name, into: mergeTarget.into.name }) : ''}
+        confirmText={t('analyzer.actions.merge')}
+        cancelText={tCommon('cancel')}
+        variant="danger"
+      />
+    </section>
+  );
+}
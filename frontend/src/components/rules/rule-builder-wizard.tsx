@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { CategoryPicker } from '@/components/forms/category-picker';
+import { TagInput } from '@/components/tags/tag-input';
+import { TagChip } from '@/components/tags/tag-chip';
 import {
   ChevronLeftIcon,
   ChevronRightIcon,
@@ -16,23 +18,21 @@ import {
   PlayIcon,
   SparklesIcon,
   PlusIcon,
-  XMarkIcon
+  XMarkIcon,
+  ExclamationTriangleIcon,
+  ArrowRightIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '@/lib/api-client';
+import { formatCurrency } from '@/lib/utils';
+import { RuleDraft, simulateRule } from '@/lib/rules/rule-simulator';
+import { useRuleSimulationData } from '@/hooks/use-rule-simulation-data';
+import type { CategoryDto } from '@/types/categories';
+import type { RuleLogic, RuleType } from '@/types/rules';
+import type { TagDto } from '@/types/tags';
+import { joinTags } from '@/lib/tags/tags';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 
-interface Category {
-  id: number;
-  name: string;
-  type: number;
-  parentId: number | null;
-  color?: string;
-  icon?: string;
-  isSystem?: boolean;
-  children?: Category[];
-}
-
 interface RuleCondition {
   field: string;
   operator: string;
@@ -41,14 +41,7 @@ interface RuleCondition {
   order: number;
 }
 
-interface TestTransaction {
-  id: number;
-  description: string;
-  amount: number;
-  transactionDate: string;
-  accountName: string;
-  categoryName?: string;
-}
+const SIMULATION_VISIBLE_MATCHES = 100;
 
 const RULE_TYPES = [
   { value: 'Contains', labelKey: 'contains', descKey: 'containsDesc', enumValue: 1 },
@@ -99,10 +92,10 @@ export function RuleBuilderWizard() {
   const t = useTranslations('rules');
 
   const [currentStep, setCurrentStep] = useState(1);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [testResults, setTestResults] = useState<TestTransaction[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [availableTags, setAvailableTags] = useState<TagDto[]>([]);
+  const { data: simulationData, loading: testLoading, load: loadSimulation } = useRuleSimulationData();
   const [loading, setLoading] = useState(false);
-  const [testLoading, setTestLoading] = useState(false);
 
   // Form data
   const [formData, setFormData] = useState({
@@ -117,6 +110,7 @@ export function RuleBuilderWizard() {
     minAmount: '',
     maxAmount: '',
     accountTypes: [] as string[],
+    applyTags: [] as string[],
     logic: 'All',
     conditions: [] as RuleCondition[]
   });
@@ -133,12 +127,15 @@ export function RuleBuilderWizard() {
 
   useEffect(() => {
     loadCategories();
+    apiClient.getTags()
+      .then(setAvailableTags)
+      .catch((error) => console.error('Failed to load tags:', error));
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const loadCategories = async () => {
     try {
-      const response = await apiClient.get<Category[]>('/api/categories');
+      const response = await apiClient.getCategories();
       setCategories(response);
     } catch (error) {
       console.error('Failed to load categories:', error);
@@ -178,58 +175,39 @@ export function RuleBuilderWizard() {
     updateFormData('conditions', updatedConditions);
   };
 
-  const testRule = async () => {
+  const loadSimulationData = async () => {
     try {
-      setTestLoading(true);
-
-      // Convert string values to enum values for backend (same as createRule)
-      const ruleType = RULE_TYPES.find(rt => rt.value === formData.type);
-      const logicValue = formData.logic === 'All' ? 1 : 2; // All = 1, Any = 2
-
-      // Create a temporary rule object for testing
-      const tempRule = {
-        name: formData.name,
-        description: formData.description,
-        type: ruleType?.enumValue || 1, // Default to Contains if not found
-        pattern: formData.pattern,
-        isCaseSensitive: formData.isCaseSensitive,
-        priority: formData.priority,
-        isActive: true,
-        categoryId: parseInt(formData.categoryId),
-        minAmount: formData.minAmount ? parseFloat(formData.minAmount) : null,
-        maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : null,
-        accountTypes: formData.accountTypes.length > 0 ? formData.accountTypes.join(',') : null,
-        logic: logicValue,
-        conditions: formData.conditions.map(condition => ({
-          field: condition.field, // TODO: Convert to enum if needed
-          operator: condition.operator, // TODO: Convert to enum if needed
-          value: condition.value,
-          isCaseSensitive: condition.isCaseSensitive,
-          order: condition.order
-        }))
-      };
-
-      // For now, we'll create a temporary rule and test it
-      // In production, you might want a dedicated test endpoint
-      const createResponse = await apiClient.post<{ id: number }>('/api/rules', tempRule);
-      const ruleId = createResponse.id; // Fixed: removed .data accessor
-
-      // Test the rule
-      const testResponse = await apiClient.post<{ matchingTransactions: TestTransaction[] }>(`/api/rules/${ruleId}/test?maxResults=20`, null);
-
-      setTestResults(testResponse.matchingTransactions || []);
-
-      // Delete the temporary rule
-      await apiClient.delete(`/api/rules/${ruleId}`);
-
+      await loadSimulation();
     } catch (error) {
-      console.error('Failed to test rule:', error);
+      console.error('Failed to load transactions for the rule simulation:', error);
       toast.error(t('toasts.testFailed'));
-    } finally {
-      setTestLoading(false);
     }
   };
 
+  const ruleDraft = useMemo<RuleDraft>(() => ({
+    type: formData.type as RuleType,
+    pattern: formData.pattern,
+    isCaseSensitive: formData.isCaseSensitive,
+    priority: formData.priority,
+    categoryId: parseInt(formData.categoryId),
+    minAmount: formData.minAmount ? parseFloat(formData.minAmount) : null,
+    maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : null,
+    accountTypes: formData.accountTypes.length > 0 ? formData.accountTypes.join(',') : null,
+    logic: formData.logic as RuleLogic,
+    conditions: formData.conditions
+  }), [formData]);
+
+  // Re-evaluated locally whenever the draft changes, without refetching
+  const simulation = useMemo(
+    () => simulationData && simulateRule(
+      ruleDraft,
+      simulationData.transactions,
+      simulationData.rules,
+      simulationData.accountTypes
+    ),
+    [ruleDraft, simulationData]
+  );
+
   const createRule = async () => {
     try {
       setLoading(true);
@@ -250,6 +228,7 @@ export function RuleBuilderWizard() {
         minAmount: formData.minAmount ? parseFloat(formData.minAmount) : null,
         maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : null,
         accountTypes: formData.accountTypes.length > 0 ? formData.accountTypes.join(',') : null,
+        applyTags: joinTags(formData.applyTags) ?? null,
         logic: logicValue,
         conditions: formData.conditions.map(condition => ({
           field: condition.field, // TODO: Convert to enum if needed
@@ -436,6 +415,18 @@ export function RuleBuilderWizard() {
                   <p className="text-primary-700">{selectedCategory.name}</p>
                 </div>
               )}
+              <div>
+                <Label htmlFor="applyTags">{t('builder.form.applyTags')}</Label>
+                <TagInput
+                  id="applyTags"
+                  value={formData.applyTags}
+                  onChange={(tags) => updateFormData('applyTags', tags)}
+                  availableTags={availableTags}
+                />
+                <p className="text-sm text-ink-500 mt-1">
+                  {t('builder.form.applyTagsHelp')}
+                </p>
+              </div>
             </div>
           )}
 
@@ -609,7 +600,7 @@ export function RuleBuilderWizard() {
           {currentStep === 5 && (
             <div className="space-y-4">
               <div className="text-center">
-                <Button onClick={testRule} disabled={testLoading} className="mb-4">
+                <Button onClick={loadSimulationData} disabled={testLoading} className="mb-4">
                   {testLoading ? (
                     <>
                       <div className="animate-spin w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full" />
@@ -618,7 +609,7 @@ export function RuleBuilderWizard() {
                   ) : (
                     <>
                       <PlayIcon className="w-4 h-4 mr-2" />
-                      {t('builder.test.testRule')}
+                      {simulation ? t('builder.test.rerun') : t('builder.test.testRule')}
                     </>
                   )}
                 </Button>
@@ -627,40 +618,109 @@ export function RuleBuilderWizard() {
                 </p>
               </div>
 
-              {testResults.length > 0 && (
-                <div>
-                  <h4 className="text-xs font-semibold uppercase tracking-wide text-ink-400 mb-3">
-                    {t('builder.test.results', { count: testResults.length })}
-                  </h4>
-                  <div className="space-y-2 max-h-96 overflow-y-auto">
-                    {testResults.map((transaction) => (
-                      <div key={transaction.id} className="p-3 bg-ink-50 rounded-xl">
-                        <div className="flex justify-between items-start gap-4">
-                          <div className="min-w-0 flex-1">
-                            <p className="font-medium text-ink-900 truncate">{transaction.description}</p>
-                            <p className="text-sm text-ink-500 mt-0.5">
-                              {transaction.accountName} &middot; {new Date(transaction.transactionDate).toLocaleDateString()}
-                            </p>
-                          </div>
-                          <div className="text-right shrink-0">
-                            <p className={cn(
-                              'font-[var(--font-dash-mono)] font-medium',
-                              transaction.amount >= 0 ? 'text-emerald-600' : 'text-red-600'
-                            )}>
-                              ${Math.abs(transaction.amount).toFixed(2)}
-                            </p>
-                            {transaction.categoryName && (
-                              <p className="text-xs text-ink-400">{transaction.categoryName}</p>
-                            )}
-                          </div>
-                        </div>
+              {simulation && (
+                <>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {[
+                      { label: t('builder.test.scanned'), value: simulation.scanned, className: 'text-ink-900' },
+                      { label: t('builder.test.matched'), value: simulation.matches.length, className: 'text-primary-700' },
+                      { label: t('builder.test.willChange'), value: simulation.changedCount, className: 'text-amber-700' },
+                      { label: t('builder.test.shadowed'), value: simulation.shadowedCount, className: 'text-red-600' }
+                    ].map((stat) => (
+                      <div key={stat.label} className="p-3 bg-ink-50 rounded-xl text-center">
+                        <p className={cn('font-[var(--font-dash-mono)] text-xl font-semibold', stat.className)}>{stat.value}</p>
+                        <p className="text-xs text-ink-500 mt-0.5">{stat.label}</p>
                       </div>
                     ))}
                   </div>
-                </div>
+
+                  {simulation.overlaps.length > 0 && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-2xl">
+                      <div className="flex items-center gap-2 mb-2">
+                        <ExclamationTriangleIcon className="w-5 h-5 text-red-600" />
+                        <h4 className="font-medium text-red-900">{t('builder.test.overlapsTitle')}</h4>
+                      </div>
+                      <p className="text-sm text-red-700 mb-2">{t('builder.test.overlapsHelp')}</p>
+                      <ul className="space-y-1 text-sm text-red-800">
+                        {simulation.overlaps.map(({ rule, count }) => (
+                          <li key={rule.id}>
+                            {t('builder.test.overlapItem', {
+                              name: rule.name,
+                              priority: rule.priority,
+                              category: rule.categoryName,
+                              count
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {simulation.matches.length > 0 ? (
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-ink-400 mb-3">
+                        {t('builder.test.results', { count: simulation.matches.length })}
+                      </h4>
+                      <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {simulation.matches.slice(0, SIMULATION_VISIBLE_MATCHES).map(({ transaction, wouldChangeCategory, shadowedBy }) => (
+                          <div
+                            key={transaction.id}
+                            className={cn(
+                              'p-3 rounded-xl border',
+                              shadowedBy
+                                ? 'bg-ink-50 border-ink-200 opacity-75'
+                                : wouldChangeCategory
+                                  ? 'bg-amber-50 border-amber-200'
+                                  : 'bg-ink-50 border-transparent'
+                            )}
+                          >
+                            <div className="flex justify-between items-start gap-4">
+                              <div className="min-w-0 flex-1">
+                                <p className="font-medium text-ink-900 truncate">{transaction.description}</p>
+                                <p className="text-sm text-ink-500 mt-0.5">
+                                  {transaction.accountName} &middot; {new Date(transaction.transactionDate).toLocaleDateString()}
+                                </p>
+                                <div className="flex items-center gap-1.5 mt-1 text-xs">
+                                  {shadowedBy ? (
+                                    <span className="text-red-600">
+                                      {t('builder.test.handledBy', { name: shadowedBy.name, category: shadowedBy.categoryName })}
+                                    </span>
+                                  ) : wouldChangeCategory ? (
+                                    <>
+                                      <span className="text-ink-500">{transaction.categoryName ?? t('builder.test.uncategorized')}</span>
+                                      <ArrowRightIcon className="w-3 h-3 text-amber-600" />
+                                      <span className="font-medium text-amber-700">{selectedCategory?.name}</span>
+                                    </>
+                                  ) : (
+                                    <span className="text-ink-400">{t('builder.test.alreadyInCategory')}</span>
+                                  )}
+                                </div>
+                              </div>
+                              <p className={cn(
+                                'font-[var(--font-dash-mono)] font-medium shrink-0',
+                                transaction.amount >= 0 ? 'text-emerald-600' : 'text-red-600'
+                              )}>
+                                {formatCurrency(Math.abs(transaction.amount))}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      {simulation.matches.length > SIMULATION_VISIBLE_MATCHES && (
+                        <p className="text-xs text-ink-400 mt-2">
+                          {t('builder.test.showingFirst', { count: SIMULATION_VISIBLE_MATCHES })}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-ink-400">
+                      <p>{t('builder.test.noMatches', { count: simulation.scanned })}</p>
+                    </div>
+                  )}
+                </>
               )}
 
-              {testResults.length === 0 && testLoading === false && (
+              {!simulation && !testLoading && (
                 <div className="text-center py-8 text-ink-400">
                   <p>{t('builder.test.noResults')}</p>
                 </div>
@@ -728,6 +788,17 @@ export function RuleBuilderWizard() {
                     </div>
                   )}
 
+                  {formData.applyTags.length > 0 && (
+                    <div>
+                      <span className="text-xs text-ink-500">{t('builder.review.applyTags')}</span>
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {formData.applyTags.map((tag) => (
+                          <TagChip key={tag} name={tag} tags={availableTags} />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {formData.conditions.length > 0 && (
                     <div>
                       <span className="text-xs text-ink-500">{t('builder.review.advancedConditions', { logic: formData.logic })}</span>
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { BaseModal } from '@/components/modals/base-modal';
+import { Button } from '@/components/ui/button';
+import { TagInput } from '@/components/tags/tag-input';
+import { apiClient } from '@/lib/api-client';
+import type { TagDto } from '@/types/tags';
+
+interface BulkTagDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactionIds: number[];
+  availableTags: TagDto[];
+  /** Called after the server applied the change, with the number of transactions touched. */
+  onApplied: (transactionsUpdated: number) => void;
+}
+
+export function BulkTagDialog({ isOpen, onClose, transactionIds, availableTags, onApplied }: BulkTagDialogProps) {
+  const t = useTranslations('tags.bulk');
+  const tCommon = useTranslations('common');
+  const [addTags, setAddTags] = useState<string[]>([]);
+  const [removeTags, setRemoveTags] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const close = () => {
+    setAddTags([]);
+    setRemoveTags([]);
+    onClose();
+  };
+
+  const apply = async () => {
+    try {
+      setSaving(true);
+      const result = await apiClient.bulkUpdateTransactionTags(transactionIds, addTags, removeTags);
+      if (result.errors.length > 0) {
+        toast.warning(t('partial', { count: result.transactionsUpdated, issues: result.errors.length }));
+      } else {
+        toast.success(t('success', { count: result.transactionsUpdated }));
+      }
+      setAddTags([]);
+      setRemoveTags([]);
+      onApplied(result.transactionsUpdated);
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      toast.error(t('failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={close} title={t('title', { count: transactionIds.length })} size="md">
+      <div className="space-y-5">
+        <div>
+          <label htmlFor="bulk-add-tags" className="mb-2 block text-sm font-medium text-ink-700">
+            {t('addLabel')}
+          </label>
+          <TagInput id="bulk-add-tags" value={addTags} onChange={setAddTags} availableTags={availableTags} disabled={saving} />
+        </div>
+
+        <div>
+          <label htmlFor="bulk-remove-tags" className="mb-2 block text-sm font-medium text-ink-700">
+            {t('removeLabel')}
+          </label>
+          <TagInput
+            id="bulk-remove-tags"
+            value={removeTags}
+            onChange={setRemoveTags}
+            availableTags={availableTags}
+            disabled={saving}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={close} disabled={saving}>
+            {tCommon('cancel')}
+          </Button>
+          <Button onClick={apply} disabled={saving || (addTags.length === 0 && removeTags.length === 0)}>
+            {saving ? t('applying') : t('apply')}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+}
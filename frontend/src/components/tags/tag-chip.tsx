@@ -0,0 +1,43 @@
+'use client';
+
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { tagColor } from '@/lib/tags/tags';
+import { cn } from '@/lib/utils';
+import type { TagDto } from '@/types/tags';
+
+interface TagChipProps {
+  name: string;
+  /** Known tags, used to look up the saved color. */
+  tags?: TagDto[];
+  /** Overrides the looked-up color. */
+  color?: string;
+  onRemove?: () => void;
+  removeLabel?: string;
+  className?: string;
+}
+
+export function TagChip({ name, tags, color: colorOverride, onRemove, removeLabel, className }: TagChipProps) {
+  const color = colorOverride ?? tagColor(name, tags);
+
+  return (
+    <span
+      className={cn(
+        'inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium',
+        className
+      )}
+      style={{ borderColor: `${color}55`, backgroundColor: `${color}14`, color }}
+    >
+      <span className="truncate">#{name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full p-0.5 hover:bg-black/5"
+          aria-label={removeLabel}
+        >
+          <XMarkIcon className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { KeyboardEvent, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { TagChip } from '@/components/tags/tag-chip';
+import { filterTagSuggestions, tagColor, validateTagName } from '@/lib/tags/tags';
+import type { TagDto } from '@/types/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Known tags offered as suggestions. */
+  availableTags: TagDto[];
+  placeholder?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+export function TagInput({ value, onChange, availableTags, placeholder, disabled = false, id }: TagInputProps) {
+  const t = useTranslations('tags');
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions = useMemo(
+    () => filterTagSuggestions(availableTags, query, value),
+    [availableTags, query, value]
+  );
+
+  const addTag = (raw: string) => {
+    const name = raw.trim();
+    const problem = validateTagName(name);
+    if (problem) {
+      setError(problem === 'required' ? null : t(`validation.${problem}`));
+      return;
+    }
+
+    // Reuse the spelling of a known tag so "trip" doesn't fork "Trip"
+    const known = availableTags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    const tag = known?.name ?? name;
+    if (!value.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+      onChange([...value, tag]);
+    }
+    setQuery('');
+    setError(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag(query);
+    } else if (event.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex min-h-[2.75rem] flex-wrap items-center gap-1.5 rounded-md border border-ink-300 bg-white px-3 py-2 focus-within:border-primary focus-within:ring-2 focus-within:ring-primary/20">
+        {value.map((tag) => (
+          <TagChip
+            key={tag}
+            name={tag}
+            tags={availableTags}
+            onRemove={disabled ? undefined : () => onChange(value.filter((existing) => existing !== tag))}
+            removeLabel={t('removeTag', { name: tag })}
+          />
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={query}
+          disabled={disabled}
+          placeholder={value.length === 0 ? placeholder ?? t('inputPlaceholder') : undefined}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setOpen(true);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          className="min-w-[8rem] flex-1 border-none bg-transparent p-0 text-sm placeholder-ink-400 focus:outline-none focus:ring-0"
+        />
+      </div>
+
+      {open && !disabled && (suggestions.length > 0 || query.trim()) && (
+        <ul className="absolute z-20 mt-1 max-h-56 w-full overflow-auto rounded-md border border-ink-200 bg-white py-1 shadow-lg">
+          {suggestions.map((tag) => (
+            <li key={tag.name}>
+              <button
+                type="button"
+                className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-ink-50"
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => addTag(tag.name)}
+              >
+                <span className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tagColor(tag.name, availableTags) }} />
+                  {tag.name}
+                </span>
+                <span className="text-xs text-ink-400">{t('transactionCount', { count: tag.transactionCount })}</span>
+              </button>
+            </li>
+          ))}
+          {query.trim() && !availableTags.some((tag) => tag.name.toLowerCase() === query.trim().toLowerCase()) && (
+            <li>
+              <button
+                type="button"
+                className="w-full px-3 py-2 text-left text-sm text-primary-700 hover:bg-ink-50"
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => addTag(query)}
+              >
+                {t('createTag', { name: query.trim() })}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { apiClient } from '@/lib/api-client';
+import { isQueuedOffline } from '@/lib/offline/transaction-outbox';
 import { createTransactionDetailUrl } from '@/lib/navigation-utils';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { useRouter } from 'next/navigation';
@@ -20,6 +21,7 @@ import {
   TrashIcon,
   CalendarIcon,
   TagIcon,
+  PaperClipIcon,
   BuildingOffice2Icon,
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon,
@@ -46,6 +48,9 @@ import { useDeviceDetect } from '@/hooks/use-device-detect';
 import { toast } from 'sonner';
 import { ContextualTransactionLink } from '@/components/ui/contextual-transaction-link';
 import { InlineTransferCreator } from '@/components/forms/inline-transfer-creator';
+import { OfflineQueuePanel, PendingSyncBadge } from '@/components/offline/pending-sync';
+import { useTransactionOutbox } from '@/hooks/use-transaction-outbox';
+import { AttachmentThumbnail } from '@/components/attachments/attachment-thumbnail';
 
 interface Transaction {
   id: number;
@@ -63,6 +68,8 @@ interface Transaction {
   relatedTransactionId?: number;
   isTransferSource?: boolean;
   type: number;
+  attachmentCount?: number;
+  thumbnailAttachmentId?: number;
 }
 
 interface TransactionListProps {
@@ -89,6 +96,7 @@ export function TransactionList({
   headerActions
 }: TransactionListProps) {
   const { isMobile } = useDeviceDetect();
+  const { entriesByTransactionId } = useTransactionOutbox();
   const router = useRouter();
   const t = useTranslations('transactions');
   const tFilters = useTranslations('transactions.filters');
@@ -108,6 +116,8 @@ export function TransactionList({
     setTypeFilter,
     reconciliationFilter,
     setReconciliationFilter,
+    attachmentFilter,
+    setAttachmentFilter,
     selectedCategoryId,
     setSelectedCategoryId,
     selectedAccountId,
@@ -282,7 +292,7 @@ export function TransactionList({
     return grouped;
   }, [transactions]);
 
-  const fetchTransactions = useCallback(async (page = 1, search = '', filter = transferFilter, categoryId_param = effectiveCategoryId, accountId_param = effectiveAccountId, reviewStatus = reviewFilter, currentDateFilter = dateFilter, currentTypeFilter = typeFilter, currentReconciliationFilter = reconciliationFilter) => {
+  const fetchTransactions = useCallback(async (page = 1, search = '', filter = transferFilter, categoryId_param = effectiveCategoryId, accountId_param = effectiveAccountId, reviewStatus = reviewFilter, currentDateFilter = dateFilter, currentTypeFilter = typeFilter, currentReconciliationFilter = reconciliationFilter, currentAttachmentFilter = attachmentFilter) => {
     const requestId = ++transactionsRequestIdRef.current;
     transactionsAbortControllerRef.current?.abort();
     const abortController = new AbortController();
@@ -303,6 +313,7 @@ export function TransactionList({
         startDate?: string;
         endDate?: string;
         transactionType?: string;
+        hasAttachments?: boolean;
       } = {
         page,
         pageSize: compact ? 10 : 20,
@@ -354,6 +365,13 @@ export function TransactionList({
         params.isReconciled = false;
       }
 
+      // Add attachment filter
+      if (currentAttachmentFilter === 'with') {
+        params.hasAttachments = true;
+      } else if (currentAttachmentFilter === 'without') {
+        params.hasAttachments = false;
+      }
+
       const response = await apiClient.getTransactions(params, {
         signal: abortController.signal
       }) as {
@@ -403,7 +421,7 @@ export function TransactionList({
         transactionsAbortControllerRef.current = null;
       }
     }
-  }, [transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, getDateRangeFromFilter, compact, accountId, onFilteredBalanceChange, setCurrentPage]);
+  }, [transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter, attachmentFilter, getDateRangeFromFilter, compact, accountId, onFilteredBalanceChange, setCurrentPage]);
 
   useEffect(() => {
     void fetchTransactions(currentPage, deferredSearchTerm, transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter);
@@ -411,7 +429,7 @@ export function TransactionList({
       transactionsAbortControllerRef.current?.abort();
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage, deferredSearchTerm, transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, startDate, endDate, typeFilter, reconciliationFilter]);
+  }, [currentPage, deferredSearchTerm, transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, startDate, endDate, typeFilter, reconciliationFilter, attachmentFilter]);
 
   const handleSearch = (value: string) => {
     setSearchTerm(value);
@@ -420,7 +438,7 @@ export function TransactionList({
 
   const loadCategories = useCallback(async () => {
     try {
-      const categoriesData = await apiClient.getCategories() as Array<{ id: number; name: string; fullPath?: string; type: number; parentId: number | null }>;
+      const categoriesData = await apiClient.getCategories();
       setAllCategories(categoriesData || []);
     } catch (error) {
       console.error('Failed to load categories:', error);
@@ -618,6 +636,10 @@ export function TransactionList({
           onTransactionUpdate();
         }
       } catch (error) {
+        if (isQueuedOffline(error)) {
+          toast.info(tToasts('transactionQueuedOffline'));
+          return;
+        }
         console.error('Failed to delete transaction:', error);
         toast.error(t('failedToDeleteTransaction'));
       } finally {
@@ -874,6 +896,21 @@ export function TransactionList({
                   <option value="not-reconciled">{tFilters('notReconciledOnly')}</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-ink-700 mb-2">
+                  {tFilters('attachments')}
+                </label>
+                <select
+                  className="select text-sm"
+                  value={attachmentFilter}
+                  onChange={(e) => setAttachmentFilter(e.target.value as 'all' | 'with' | 'without')}
+                >
+                  <option value="all">{tFilters('allAttachments')}</option>
+                  <option value="with">{tFilters('withAttachments')}</option>
+                  <option value="without">{tFilters('withoutAttachments')}</option>
+                </select>
+              </div>
             </div>
             
             <div className="flex justify-end mt-4 gap-2">
@@ -882,6 +919,7 @@ export function TransactionList({
                 setReviewFilter('all');
                 setTypeFilter('all');
                 setReconciliationFilter('all');
+                setAttachmentFilter('all');
                 setSelectedCategoryId('');
                 if (showAccountFilter) setSelectedAccountId('');
                 setDateFilter('all');
@@ -962,6 +1000,15 @@ export function TransactionList({
         </Card>
       )}
 
+      {/* Writes queued while offline */}
+      <OfflineQueuePanel
+        accountId={accountId}
+        onSynced={() => {
+          void fetchTransactions(currentPage, deferredSearchTerm, transferFilter, effectiveCategoryId, effectiveAccountId, reviewFilter, dateFilter, typeFilter, reconciliationFilter);
+          onTransactionUpdate?.();
+        }}
+      />
+
       {/* Transaction List */}
       <Card className="rounded-[26px] border border-ink-200 bg-white/90 shadow-[0_20px_44px_-32px_rgba(47,129,112,0.20)]">
         {loading ? (
@@ -1220,7 +1267,13 @@ export function TransactionList({
                           </div>
                         )}
                         
-                        {!isMobile && (
+                        {!isMobile && transaction.thumbnailAttachmentId ? (
+                          <AttachmentThumbnail
+                            attachmentId={transaction.thumbnailAttachmentId}
+                            alt={t('attachmentThumbnail')}
+                            className="w-12 h-12 rounded-xl shadow-sm"
+                          />
+                        ) : !isMobile && (
                           <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-sm ${
                             isTransfer(transaction)
                               ? 'bg-gradient-to-br from-blue-100 to-blue-200'
@@ -1251,6 +1304,7 @@ export function TransactionList({
                                     {tCommon('transfer')}
                                   </span>
                                 )}
+                                <PendingSyncBadge entry={entriesByTransactionId.get(transaction.id)} />
                               </div>
                               
                               <div className="flex items-center gap-2 sm:gap-3 mt-1 text-xs text-ink-500 flex-wrap">
@@ -1266,6 +1320,16 @@ export function TransactionList({
                                   </span>
                                 )}
 
+                                {!!transaction.attachmentCount && (
+                                  <span
+                                    className="flex items-center gap-0.5 whitespace-nowrap"
+                                    title={t('attachmentCount', { count: transaction.attachmentCount })}
+                                  >
+                                    <PaperClipIcon className="w-3 h-3 flex-shrink-0" />
+                                    {transaction.attachmentCount}
+                                  </span>
+                                )}
+
                                 {transaction.status === 3 && (
                                   <span
                                     className="inline-flex items-center justify-center w-4 h-4 rounded-full bg-primary-100 text-primary-700 text-[10px] font-bold flex-shrink-0"
@@ -21,7 +21,7 @@ const accountTypeKeyMap: Record<number, string> = {
 };
 
 // Map account type to translation key, handling both 0-based and 1-based values
-const getAccountTypeKey = (type: number): string => {
+export const getAccountTypeKey = (type: number): string => {
   return accountTypeKeyMap[type]
     ?? accountTypeKeyMap[FRONTEND_TO_BACKEND_TYPE[type]]
     ?? 'other';
@@ -3,6 +3,8 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { UserDto, LoginRequest, RegisterRequest, AuthenticationResponse } from '@/types/auth';
 import { apiClient } from '@/lib/api-client';
+import { transactionOutbox } from '@/lib/offline/transaction-outbox';
+import { setDefaultCurrency } from '@/lib/utils';
 
 interface AuthContextType {
   user: UserDto | null;
@@ -221,6 +223,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.error('Failed to revoke refresh token:', error);
       // Continue with logout even if revoke fails
     }
+
+    // Writes queued offline belong to this session and must not replay for the next user
+    await transactionOutbox.clear().catch((error) => {
+      console.error('Failed to clear offline transaction queue:', error);
+    });
     
     apiClient.removeToken();
     setUser(null);
@@ -316,6 +323,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Set before children render so their amounts are formatted in the user's base currency
+  setDefaultCurrency(user?.currency);
+
   const value: AuthContextType = {
     user,
     isLoading,
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { useAuth } from '@/contexts/auth-context';
+import type { ServerSentEvent } from '@/lib/realtime/sse-parser';
+import type { BankSyncJobStatus } from '@/types/bank-connections';
+import type { RealtimeEventMap, RealtimeEventType, RealtimeStatus } from '@/types/realtime';
+
+type RealtimeHandler<K extends RealtimeEventType> = (payload: RealtimeEventMap[K]) => void;
+
+interface RealtimeContextType {
+  status: RealtimeStatus;
+  subscribe: <K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>) => () => void;
+  /** Resolves with the job's terminal status, from the stream when live and by polling otherwise. */
+  waitForSyncJob: (jobId: string, options?: { timeoutMs?: number; signal?: AbortSignal }) => Promise<BankSyncJobStatus>;
+}
+
+// Backoff between reconnect attempts; the last delay repeats
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+// Consecutive failures before consumers are told to fall back to polling
+const FAILURES_BEFORE_POLLING = 2;
+// When the server has no stream endpoint at all, check back rarely
+const UNAVAILABLE_RETRY_DELAY = 5 * 60_000;
+// Slow poll kept running while waiting on a live sync job, in case the terminal event is missed
+const SYNC_JOB_SAFETY_POLL_INTERVAL = 15_000;
+
+const isTerminalSyncStatus = (status: BankSyncJobStatus['status']) =>
+  status === 'succeeded' || status === 'failed' || status === 'completed_with_errors';
+
+const RealtimeContext = createContext<RealtimeContextType>({
+  status: 'polling',
+  subscribe: () => () => {},
+  waitForSyncJob: (jobId, options) => apiClient.waitForSyncJob(jobId, options),
+});
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<RealtimeStatus>('polling');
+  const statusRef = useRef<RealtimeStatus>('polling');
+  const handlersRef = useRef(new Map<RealtimeEventType, Set<(payload: unknown) => void>>());
+
+  const updateStatus = useCallback((next: RealtimeStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const dispatch = useCallback((event: ServerSentEvent) => {
+    const handlers = handlersRef.current.get(event.event as RealtimeEventType);
+    if (!handlers || handlers.size === 0) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      console.warn(`Ignoring malformed realtime event: ${event.event}`);
+      return;
+    }
+    handlers.forEach((handler) => handler(payload));
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      updateStatus('polling');
+      return;
+    }
+
+    const controller = new AbortController();
+    let failures = 0;
+    let lastEventId: string | undefined;
+    let reconnectTimer: number | undefined;
+
+    const connect = async () => {
+      reconnectTimer = undefined;
+      if (failures < FAILURES_BEFORE_POLLING) {
+        updateStatus('connecting');
+      }
+
+      let delay: number;
+      try {
+        await apiClient.streamRealtimeEvents(
+          (event) => {
+            if (event.id) lastEventId = event.id;
+            dispatch(event);
+          },
+          {
+            signal: controller.signal,
+            lastEventId,
+            onOpen: () => {
+              failures = 0;
+              updateStatus('live');
+            },
+          }
+        );
+        // The server closed the stream (deploy, idle timeout) — reopen right away
+        delay = RECONNECT_DELAYS[0];
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        failures++;
+        const httpStatus = (error as Error & { status?: number }).status;
+        delay =
+          httpStatus === 404 || httpStatus === 501
+            ? UNAVAILABLE_RETRY_DELAY
+            : RECONNECT_DELAYS[Math.min(failures - 1, RECONNECT_DELAYS.length - 1)];
+        if (httpStatus === 404 || httpStatus === 501) {
+          failures = Math.max(failures, FAILURES_BEFORE_POLLING);
+        }
+      }
+
+      if (controller.signal.aborted) return;
+      updateStatus(failures >= FAILURES_BEFORE_POLLING ? 'polling' : 'connecting');
+      reconnectTimer = window.setTimeout(connect, delay);
+    };
+
+    // Coming back online should not wait out a long backoff
+    const handleOnline = () => {
+      if (reconnectTimer === undefined) return;
+      window.clearTimeout(reconnectTimer);
+      void connect();
+    };
+
+    void connect();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer !== undefined) window.clearTimeout(reconnectTimer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [isAuthenticated, dispatch, updateStatus]);
+
+  const subscribe = useCallback(<K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>) => {
+    const handlers = handlersRef.current.get(type) ?? new Set();
+    handlersRef.current.set(type, handlers);
+    const untyped = handler as (payload: unknown) => void;
+    handlers.add(untyped);
+    return () => {
+      handlers.delete(untyped);
+    };
+  }, []);
+
+  const waitForSyncJob = useCallback<RealtimeContextType['waitForSyncJob']>(
+    (jobId, options = {}) => {
+      if (statusRef.current !== 'live') {
+        return apiClient.waitForSyncJob(jobId, options);
+      }
+
+      const pollController = new AbortController();
+      const abortPoll = () => pollController.abort();
+      options.signal?.addEventListener('abort', abortPoll, { once: true });
+
+      let unsubscribe = () => {};
+      const streamed = new Promise<BankSyncJobStatus>((resolve) => {
+        unsubscribe = subscribe('bankSync.job', (job) => {
+          if (job.jobId === jobId && isTerminalSyncStatus(job.status)) {
+            resolve(job);
+          }
+        });
+      });
+      const polled = apiClient.waitForSyncJob(jobId, {
+        intervalMs: SYNC_JOB_SAFETY_POLL_INTERVAL,
+        timeoutMs: options.timeoutMs,
+        signal: pollController.signal,
+      });
+
+      return Promise.race([streamed, polled]).finally(() => {
+        unsubscribe();
+        pollController.abort();
+        options.signal?.removeEventListener('abort', abortPoll);
+        // The losing poll rejects with AbortError once aborted; nobody is waiting on it
+        polled.catch(() => {});
+      });
+    },
+    [subscribe]
+  );
+
+  const value = useMemo(() => ({ status, subscribe, waitForSyncJob }), [status, subscribe, waitForSyncJob]);
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+}
+
+export function useRealtime(): RealtimeContextType {
+  return useContext(RealtimeContext);
+}
+
+/**
+ * Calls `handler` for every streamed event of `type`. The latest handler is
+ * always used, so callers don't need to memoize it.
+ */
+export function useRealtimeEvent<K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>) {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => subscribe(type, (payload) => handlerRef.current(payload)), [subscribe, type]);
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import {
+  AdvancedCardId,
+  AdvancedLayout,
+  DEFAULT_ADVANCED_LAYOUT,
+  clearAdvancedLayout,
+  loadAdvancedLayout,
+  moveAdvancedCard,
+  saveAdvancedLayout,
+  setAdvancedCardHidden,
+  shiftAdvancedCard,
+} from '@/lib/dashboard/advanced-layout';
+
+/** Card order and visibility for the advanced dashboard, persisted per user. */
+export function useAdvancedDashboardLayout() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [layout, setLayout] = useState<AdvancedLayout>(DEFAULT_ADVANCED_LAYOUT);
+  const [loadedForUserId, setLoadedForUserId] = useState<string | undefined>();
+
+  // Reload when the signed-in user changes, during render rather than in an effect
+  if (loadedForUserId !== userId) {
+    setLoadedForUserId(userId);
+    setLayout(userId ? loadAdvancedLayout(userId) : DEFAULT_ADVANCED_LAYOUT);
+  }
+
+  const update = useCallback(
+    (change: (previous: AdvancedLayout) => AdvancedLayout) => {
+      setLayout((previous) => {
+        const next = change(previous);
+        if (next !== previous && userId) {
+          saveAdvancedLayout(userId, next);
+        }
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  const moveCard = useCallback(
+    (sourceId: AdvancedCardId, targetId: AdvancedCardId) =>
+      update((previous) => moveAdvancedCard(previous, sourceId, targetId)),
+    [update]
+  );
+
+  const shiftCard = useCallback(
+    (cardId: AdvancedCardId, offset: number) =>
+      update((previous) => shiftAdvancedCard(previous, cardId, offset)),
+    [update]
+  );
+
+  const setCardHidden = useCallback(
+    (cardId: AdvancedCardId, hidden: boolean) =>
+      update((previous) => setAdvancedCardHidden(previous, cardId, hidden)),
+    [update]
+  );
+
+  const resetLayout = useCallback(() => {
+    if (userId) clearAdvancedLayout(userId);
+    setLayout(DEFAULT_ADVANCED_LAYOUT);
+  }, [userId]);
+
+  const visibleCards = layout.order.filter((id) => !layout.hidden.includes(id));
+  const hiddenCards = layout.order.filter((id) => layout.hidden.includes(id));
+
+  return { layout, visibleCards, hiddenCards, moveCard, shiftCard, setCardHidden, resetLayout };
+}
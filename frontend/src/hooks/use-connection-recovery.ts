@@ -1,12 +1,17 @@
 import { useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
 import { useAuth } from '@/contexts/auth-context';
+import { apiClient } from '@/lib/api-client';
 
 /**
  * Hook that handles automatic token validation retry when the user comes back online
- * or when the window regains focus (e.g., switching browser tabs back)
+ * or when the window regains focus (e.g., switching browser tabs back), and replays
+ * transaction writes that were queued while offline.
  */
 export function useConnectionRecovery() {
   const { user, retryTokenValidation } = useAuth();
+  const tToasts = useTranslations('toasts');
 
   useEffect(() => {
     // Only add listeners if user should be authenticated but isn't loaded
@@ -35,4 +40,32 @@ export function useConnectionRecovery() {
       };
     }
   }, [user, retryTokenValidation]);
-}
\ No newline at end of file
+
+  useEffect(() => {
+    // Queued writes can only be replayed with a valid session
+    if (!user) return;
+
+    const replayOutbox = async () => {
+      try {
+        const result = await apiClient.replayTransactionOutbox();
+        if (result.synced > 0) {
+          toast.success(tToasts('offlineTransactionsSynced', { count: result.synced }));
+        }
+        if (result.conflicts > 0) {
+          toast.error(tToasts('offlineTransactionsConflicted', { count: result.conflicts }));
+        }
+      } catch (error) {
+        console.error('Failed to replay offline transactions:', error);
+      }
+    };
+
+    if (navigator.onLine) {
+      void replayOutbox();
+    }
+
+    window.addEventListener('online', replayOutbox);
+    return () => {
+      window.removeEventListener('online', replayOutbox);
+    };
+  }, [user, tToasts]);
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import {
+  CsvMappingProfile,
+  CsvMappingProfileDraft,
+  exportCsvMappingProfiles,
+  loadCsvMappingProfiles,
+  mergeCsvMappingProfiles,
+  parseCsvMappingProfilesFile,
+  saveCsvMappingProfiles,
+  upsertCsvMappingProfile,
+} from '@/lib/import/csv-mapping-profiles';
+
+/** Saved CSV mapping profiles for the signed-in user, persisted in localStorage. */
+export function useCsvMappingProfiles() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [profiles, setProfiles] = useState<CsvMappingProfile[]>([]);
+  const [loadedForUserId, setLoadedForUserId] = useState<string | undefined>();
+
+  // Reload when the signed-in user changes, during render rather than in an effect
+  if (loadedForUserId !== userId) {
+    setLoadedForUserId(userId);
+    setProfiles(userId ? loadCsvMappingProfiles(userId) : []);
+  }
+
+  const persist = useCallback(
+    (next: CsvMappingProfile[]) => {
+      setProfiles(next);
+      if (userId) saveCsvMappingProfiles(userId, next);
+    },
+    [userId]
+  );
+
+  const saveProfile = useCallback(
+    (draft: CsvMappingProfileDraft): CsvMappingProfile => {
+      const result = upsertCsvMappingProfile(profiles, draft);
+      persist(result.profiles);
+      return result.profile;
+    },
+    [persist, profiles]
+  );
+
+  const deleteProfile = useCallback(
+    (profileId: string) => persist(profiles.filter((profile) => profile.id !== profileId)),
+    [persist, profiles]
+  );
+
+  /** Imports an exported profiles file; throws CsvMappingProfileImportError for unreadable files. */
+  const importProfiles = useCallback(
+    (json: string) => {
+      const result = parseCsvMappingProfilesFile(json);
+      persist(mergeCsvMappingProfiles(profiles, result.profiles));
+      return { imported: result.profiles.length, skipped: result.skipped };
+    },
+    [persist, profiles]
+  );
+
+  const exportProfiles = useCallback(() => exportCsvMappingProfiles(profiles), [profiles]);
+
+  return { profiles, saveProfile, deleteProfile, importProfiles, exportProfiles };
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import {
+  DEFAULT_PAYOFF_PLAN_SETTINGS,
+  DebtPayoffPlanSettings,
+  normalizePayoffPlanSettings,
+} from '@/lib/debts/payoff';
+import type { DebtPayoffPlanDto } from '@/types/debts';
+
+const SAVE_DELAY_MS = 600;
+
+/**
+ * The payoff strategy and extra payment saved with the user's debts. Edits apply straight away
+ * and are saved to the server once they settle, so typing an amount sends a single request.
+ */
+export function useDebtPayoffPlan(saved: DebtPayoffPlanDto | undefined) {
+  const t = useTranslations('debts');
+  const [settings, setSettings] = useState<DebtPayoffPlanSettings>(DEFAULT_PAYOFF_PLAN_SETTINGS);
+  const [loadedFrom, setLoadedFrom] = useState<DebtPayoffPlanDto | undefined>();
+  const pending = useRef<DebtPayoffPlanSettings | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Take the saved plan whenever the debts are loaded, during render rather than in an effect
+  if (loadedFrom !== saved) {
+    setLoadedFrom(saved);
+    setSettings(normalizePayoffPlanSettings(saved));
+  }
+
+  const savePending = useCallback(() => {
+    clearTimeout(timer.current);
+    const next = pending.current;
+    pending.current = null;
+    if (!next) return;
+
+    apiClient.saveDebtPayoffPlan(next).catch((error) => {
+      console.error('Failed to save payoff plan:', error);
+      toast.error(t('errors.planSaveFailed'));
+    });
+  }, [t]);
+
+  // Don't lose an edit made just before leaving the page
+  useEffect(() => savePending, [savePending]);
+
+  const updateSettings = useCallback(
+    (next: DebtPayoffPlanSettings) => {
+      const normalized = normalizePayoffPlanSettings(next);
+      setSettings(normalized);
+      pending.current = normalized;
+      clearTimeout(timer.current);
+      timer.current = setTimeout(savePending, SAVE_DELAY_MS);
+    },
+    [savePending]
+  );
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import {
+  DEFAULT_DUPLICATE_MATCHING_SETTINGS,
+  DuplicateMatchingSettings,
+  loadDuplicateMatchingSettings,
+  normalizeDuplicateMatchingSettings,
+  saveDuplicateMatchingSettings,
+} from '@/lib/import/duplicate-matching-settings';
+
+/** Duplicate description matching settings for the signed-in user, persisted in localStorage. */
+export function useDuplicateMatchingSettings() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [settings, setSettings] = useState<DuplicateMatchingSettings>(DEFAULT_DUPLICATE_MATCHING_SETTINGS);
+  const [loadedForUserId, setLoadedForUserId] = useState<string | undefined>();
+
+  // Reload when the signed-in user changes, during render rather than in an effect
+  if (loadedForUserId !== userId) {
+    setLoadedForUserId(userId);
+    setSettings(userId ? loadDuplicateMatchingSettings(userId) : DEFAULT_DUPLICATE_MATCHING_SETTINGS);
+  }
+
+  const updateSettings = useCallback(
+    (next: DuplicateMatchingSettings) => {
+      const normalized = normalizeDuplicateMatchingSettings(next);
+      setSettings(normalized);
+      if (userId) saveDuplicateMatchingSettings(userId, normalized);
+    },
+    [userId]
+  );
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { runImportAnalysis } from '@/lib/import/import-analysis-runner';
+import type {
+  ConflictCheckRequest,
+  ImportAnalysisProgress,
+  ImportReviewItem,
+} from '@/types/import-review';
+
+type ConflictCheckStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'failed';
+
+/** Runs browser-side conflict detection for a request, with progress and cancellation. */
+export function useImportConflictCheck(request: ConflictCheckRequest | undefined) {
+  const [status, setStatus] = useState<ConflictCheckStatus>(request ? 'running' : 'idle');
+  const [progress, setProgress] = useState<ImportAnalysisProgress>({
+    processed: 0,
+    total: request?.candidates.length ?? 0,
+  });
+  const [reviewItems, setReviewItems] = useState<ImportReviewItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [startedFor, setStartedFor] = useState({ request, attempt });
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Reset when a new request or retry comes in, during render rather than in an effect
+  if (startedFor.request !== request || startedFor.attempt !== attempt) {
+    setStartedFor({ request, attempt });
+    setStatus(request ? 'running' : 'idle');
+    setProgress({ processed: 0, total: request?.candidates.length ?? 0 });
+    setReviewItems(null);
+    setError(null);
+  }
+
+  useEffect(() => {
+    if (!request) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    runImportAnalysis(request, { onProgress: setProgress, signal: controller.signal })
+      .then((items) => {
+        setReviewItems(items);
+        setStatus('done');
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Import conflict check failed:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus('failed');
+      });
+
+    return () => {
+      controller.abort();
+      if (abortRef.current === controller) abortRef.current = null;
+    };
+  }, [request, attempt]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    setStatus('cancelled');
+  }, []);
+
+  const retry = useCallback(() => setAttempt((previous) => previous + 1), []);
+
+  return { status, progress, reviewItems, error, cancel, retry };
+}
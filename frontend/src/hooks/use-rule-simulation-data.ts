@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { accountTypeNamesById, RuleSimulationData } from '@/lib/rules/rule-simulator';
+import type { CategorizationRule } from '@/types/rules';
+import type { TransactionDto } from '@/types/transactions';
+
+// Rules are evaluated against the most recent transactions, 100 per page (the API's cap)
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+/** Loads the transactions, active rules and account types that rule simulations run against. */
+export function useRuleSimulationData() {
+  const [data, setData] = useState<RuleSimulationData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  /** Fetches fresh data; rejects if any request fails, leaving earlier data in place. */
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [accounts, rules] = await Promise.all([
+        apiClient.getAccounts(),
+        apiClient.get<CategorizationRule[]>('/api/rules?includeInactive=false')
+      ]);
+
+      const transactions: TransactionDto[] = [];
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const response = await apiClient.getTransactions({ page, pageSize: PAGE_SIZE });
+        transactions.push(...response.transactions);
+        if (!response.hasNextPage) break;
+      }
+
+      const loaded = { transactions, rules, accountTypes: accountTypeNamesById(accounts) };
+      setData(loaded);
+      return loaded;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { data, loading, load };
+}
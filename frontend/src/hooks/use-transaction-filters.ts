@@ -2,12 +2,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import type { CategoryDto } from '@/types/categories';
 
 export type DateFilter = 'all' | 'last7' | 'thisWeek' | 'thisMonth' | 'last30' | 'last3Months' | 'custom';
 export type TransferFilter = 'all' | 'only' | 'exclude';
 export type ReviewFilter = 'all' | 'reviewed' | 'not-reviewed';
 export type TypeFilter = 'all' | 'income' | 'expense';
 export type ReconciliationFilter = 'all' | 'reconciled' | 'not-reconciled';
+export type AttachmentFilter = 'all' | 'with' | 'without';
 export type SortField = 'transactionDate' | 'amount' | 'description' | 'category';
 export type SortDirection = 'asc' | 'desc';
 
@@ -24,6 +26,8 @@ export const useTransactionFilters = () => {
   const [reconciliationFilter, setReconciliationFilter] = useState<ReconciliationFilter>((searchParams.get('reconciliation') as ReconciliationFilter) || 'all');
   const [selectedCategoryId, setSelectedCategoryId] = useState(searchParams.get('categoryId') || '');
   const [selectedAccountId, setSelectedAccountId] = useState(searchParams.get('accountId') || '');
+  const [selectedTag, setSelectedTag] = useState(searchParams.get('tag') || '');
+  const [attachmentFilter, setAttachmentFilter] = useState<AttachmentFilter>((searchParams.get('attachments') as AttachmentFilter) || 'all');
   const [dateFilter, setDateFilter] = useState<DateFilter>((searchParams.get('dateFilter') as DateFilter) || 'all');
   const [startDate, setStartDate] = useState(searchParams.get('startDate') || '');
   const [endDate, setEndDate] = useState(searchParams.get('endDate') || '');
@@ -31,7 +35,7 @@ export const useTransactionFilters = () => {
   const [selectedTransactionIds, setSelectedTransactionIds] = useState<Set<number>>(new Set());
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
-  const [allCategories, setAllCategories] = useState<Array<{ id: number; name: string; fullPath?: string; type: number; parentId: number | null }>>([]);
+  const [allCategories, setAllCategories] = useState<CategoryDto[]>([]);
   const [sortBy, setSortBy] = useState<SortField>((searchParams.get('sortBy') as SortField) || 'transactionDate');
   const [sortDirection, setSortDirection] = useState<SortDirection>((searchParams.get('sortDir') as SortDirection) || 'desc');
 
@@ -45,6 +49,8 @@ export const useTransactionFilters = () => {
     if (reconciliationFilter !== 'all') params.set('reconciliation', reconciliationFilter);
     if (selectedCategoryId) params.set('categoryId', selectedCategoryId);
     if (selectedAccountId) params.set('accountId', selectedAccountId);
+    if (selectedTag) params.set('tag', selectedTag);
+    if (attachmentFilter !== 'all') params.set('attachments', attachmentFilter);
     if (dateFilter !== 'all') params.set('dateFilter', dateFilter);
     if (dateFilter === 'custom' && startDate) params.set('startDate', startDate);
     if (dateFilter === 'custom' && endDate) params.set('endDate', endDate);
@@ -61,6 +67,8 @@ export const useTransactionFilters = () => {
     reconciliationFilter,
     selectedCategoryId,
     selectedAccountId,
+    selectedTag,
+    attachmentFilter,
     dateFilter,
     startDate,
     endDate,
@@ -106,6 +114,10 @@ export const useTransactionFilters = () => {
     setSelectedCategoryId,
     selectedAccountId,
     setSelectedAccountId,
+    selectedTag,
+    setSelectedTag,
+    attachmentFilter,
+    setAttachmentFilter,
     dateFilter,
     setDateFilter,
     startDate,
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { OutboxEntry, transactionOutbox } from '@/lib/offline/transaction-outbox';
+
+/**
+ * Live view of the offline transaction outbox, plus the actions the UI offers
+ * on queued writes.
+ */
+export function useTransactionOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = transactionOutbox.subscribe((next) => {
+      if (!cancelled) setEntries(next);
+    });
+
+    transactionOutbox
+      .list()
+      .then((initial) => {
+        if (!cancelled) setEntries(initial);
+      })
+      .catch(() => {
+        // IndexedDB unavailable (e.g. private browsing) — nothing can be queued either
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  /** Queued update/delete entries, keyed by the transaction they target. */
+  const entriesByTransactionId = useMemo(() => {
+    const map = new Map<number, OutboxEntry>();
+    entries.forEach((entry) => {
+      if (entry.operation.kind !== 'create') {
+        map.set(entry.operation.transactionId, entry);
+      }
+    });
+    return map;
+  }, [entries]);
+
+  const retry = useCallback(async (entry: OutboxEntry) => {
+    await transactionOutbox.retry(entry);
+    return apiClient.replayTransactionOutbox();
+  }, []);
+
+  const discard = useCallback((entry: OutboxEntry) => transactionOutbox.remove(entry.id), []);
+
+  return {
+    entries,
+    queuedCreates: entries.filter((entry) => entry.operation.kind === 'create'),
+    entriesByTransactionId,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  ADVANCED_CARD_IDS,
+  loadAdvancedLayout,
+  moveAdvancedCard,
+  normalizeAdvancedLayout,
+  saveAdvancedLayout,
+  setAdvancedCardHidden,
+  shiftAdvancedCard,
+} from '../dashboard/advanced-layout';
+import { buildBalanceSeries, buildNetWorthSeries } from '../dashboard/sparklines';
+
+describe('advanced dashboard layout', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('drops unknown cards and appends cards missing from a stored layout', () => {
+    const layout = normalizeAdvancedLayout({
+      order: ['wallets', 'retired-card', 'cashflow', 'wallets'],
+      hidden: ['runway', 'retired-card'],
+    });
+
+    expect(layout.order.slice(0, 2)).toEqual(['wallets', 'cashflow']);
+    expect([...layout.order].sort()).toEqual([...ADVANCED_CARD_IDS].sort());
+    expect(layout.hidden).toEqual(['runway']);
+  });
+
+  test('falls back to the default layout for garbage', () => {
+    expect(normalizeAdvancedLayout('nope').order).toEqual(ADVANCED_CARD_IDS);
+  });
+
+  test('moves a card into the target slot and shifts past hidden cards', () => {
+    let layout = normalizeAdvancedLayout({ order: ['cashflow', 'runway', 'netWorth'] });
+    layout = moveAdvancedCard(layout, 'netWorth', 'cashflow');
+    expect(layout.order.slice(0, 3)).toEqual(['netWorth', 'cashflow', 'runway']);
+
+    layout = setAdvancedCardHidden(layout, 'cashflow', true);
+    layout = shiftAdvancedCard(layout, 'runway', -1);
+    expect(layout.order.slice(0, 3)).toEqual(['runway', 'netWorth', 'cashflow']);
+  });
+
+  test('keeps a separate layout per user', () => {
+    const hidden = setAdvancedCardHidden(normalizeAdvancedLayout(null), 'wallets', true);
+    saveAdvancedLayout('user-a', hidden);
+
+    expect(loadAdvancedLayout('user-a').hidden).toEqual(['wallets']);
+    expect(loadAdvancedLayout('user-b').hidden).toEqual([]);
+  });
+});
+
+describe('dashboard sparklines', () => {
+  test('walks net worth back through monthly cashflow', () => {
+    const series = buildNetWorthSeries(1000, [
+      { year: 2024, month: 3, label: 'Mar', income: 500, expenses: 300, net: 200 },
+      { year: 2024, month: 1, label: 'Jan', income: 0, expenses: 0, net: 0 },
+      { year: 2024, month: 2, label: 'Feb', income: 100, expenses: 150, net: -50 },
+    ]);
+
+    expect(series).toEqual([
+      { label: 'Jan', value: 850 },
+      { label: 'Feb', value: 800 },
+      { label: 'Mar', value: 1000 },
+    ]);
+  });
+
+  test('builds daily closing balances from the current balance', () => {
+    const series = buildBalanceSeries(
+      100,
+      [
+        { amount: -20, transactionDate: '2024-03-02T00:00:00Z' },
+        { amount: 50, transactionDate: '2024-03-03T00:00:00Z' },
+        { amount: -5, transactionDate: '2024-03-03T12:00:00Z' },
+      ],
+      '2024-03-03',
+      3
+    );
+
+    expect(series).toEqual([
+      { label: '2024-03-01', value: 75 },
+      { label: '2024-03-02', value: 55 },
+      { label: '2024-03-03', value: 100 },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect } from 'vitest';
+import {
+  array,
+  categorySchema,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  transactionListSchema,
+  userSchema,
+} from '../api-schemas';
+
+describe('api-schemas', () => {
+  describe('combinators', () => {
+    const schema = object<{ id: number; name: string; note?: string; kind: 'a' | 'b'; tags: string[] }>({
+      id: number(),
+      name: string(),
+      note: optional(string()),
+      kind: oneOf(['a', 'b'] as const),
+      tags: array(string()),
+    });
+
+    test('accepts a conforming value and ignores unknown keys', () => {
+      const issues = schema.validate(
+        { id: 1, name: 'x', note: null, kind: 'a', tags: ['t'], extra: true },
+        'value'
+      );
+      expect(issues).toEqual([]);
+    });
+
+    test('reports each mismatch with its path', () => {
+      const issues = schema.validate({ id: '1', name: 'x', kind: 'c', tags: ['t', 2] }, 'value');
+      expect(issues).toEqual([
+        'value.id: expected number, got string',
+        'value.kind: expected one of a, b, got "c"',
+        'value.tags[1]: expected string, got number',
+      ]);
+    });
+
+    test('rejects non-objects', () => {
+      expect(schema.validate(null, 'value')).toEqual(['value: expected object, got null']);
+      expect(schema.validate([], 'value')).toEqual(['value: expected object, got array']);
+    });
+  });
+
+  describe('response schemas', () => {
+    const category = {
+      id: 1,
+      name: 'Food',
+      isSystemCategory: false,
+      isActive: true,
+      sortOrder: 0,
+      fullPath: 'Food',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      transactionCount: 0,
+      totalAmount: 0,
+      subCategories: [] as unknown[],
+    };
+
+    test('validates nested subcategories recursively', () => {
+      const parent = { ...category, subCategories: [{ ...category, id: 2, fullPath: 5 }] };
+      expect(categorySchema.validate(parent, 'category')).toEqual([
+        'category.subCategories[0].fullPath: expected string, got number',
+      ]);
+    });
+
+    test('flags a missing transaction list summary', () => {
+      const issues = transactionListSchema.validate(
+        {
+          transactions: [],
+          totalCount: 0,
+          page: 1,
+          pageSize: 50,
+          totalPages: 0,
+          hasNextPage: false,
+          hasPreviousPage: false,
+        },
+        'response'
+      );
+      expect(issues).toEqual(['response.summary: expected object, got undefined']);
+    });
+
+    test('accepts a user whose subscription tier is not known yet', () => {
+      const user = {
+        id: '2b1c6a52-8f0e-4c1e-9a57-0f3b1d2f7e10',
+        email: 'sam@example.com',
+        userName: 'sam',
+        firstName: 'Sam',
+        lastName: 'Taylor',
+        fullName: 'Sam Taylor',
+        currency: 'NZD',
+        timeZone: 'Pacific/Auckland',
+        locale: 'en',
+        profilePictureUrl: null,
+        subscriptionTier: null,
+      };
+      expect(userSchema.validate(user, 'user')).toEqual([]);
+      expect(userSchema.validate({ ...user, currency: undefined }, 'user')).toEqual([
+        'user.currency: expected string, got undefined',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'vitest';
+import { MAX_ATTACHMENT_BYTES, formatFileSize, validateAttachmentFile } from '../attachments/attachments';
+
+describe('validateAttachmentFile', () => {
+  test('accepts images and PDFs within the size limit', () => {
+    expect(validateAttachmentFile({ size: 2048, type: 'image/jpeg' })).toBeNull();
+    expect(validateAttachmentFile({ size: 2048, type: 'application/PDF' })).toBeNull();
+  });
+
+  test('rejects empty, oversized and unsupported files', () => {
+    expect(validateAttachmentFile({ size: 0, type: 'image/png' })).toBe('empty');
+    expect(validateAttachmentFile({ size: MAX_ATTACHMENT_BYTES + 1, type: 'image/png' })).toBe('tooLarge');
+    expect(validateAttachmentFile({ size: 2048, type: 'text/csv' })).toBe('unsupportedType');
+  });
+});
+
+describe('formatFileSize', () => {
+  test('picks a unit by magnitude', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(840 * 1024)).toBe('840 KB');
+    expect(formatFileSize(2.5 * 1024 * 1024)).toBe('2.5 MB');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import {
+  categoryTransactionsHref,
+  monthDateRange,
+  monthlyHistory,
+  peakMonths,
+  seasonality,
+} from '../categories/category-analytics';
+import type { CategoryStatisticsDto } from '@/types/categories';
+
+function statistics(amounts: number[], firstTransactionDate?: string): CategoryStatisticsDto {
+  // Months run from Jan 2025 onwards
+  const monthlyTotals = amounts.map((amount, index) => ({
+    periodStart: new Date(Date.UTC(2025, index, 1)).toISOString(),
+    amount,
+    transactionCount: amount === 0 ? 0 : 1,
+  }));
+  return {
+    categoryId: 7,
+    categoryName: 'Heating',
+    months: amounts.length,
+    transactionCount: monthlyTotals.filter((total) => total.transactionCount > 0).length,
+    totalAmount: amounts.reduce((sum, amount) => sum + amount, 0),
+    averageAmount: 0,
+    firstTransactionDate: firstTransactionDate ?? monthlyTotals.find((total) => total.amount !== 0)?.periodStart,
+    monthlyTotals,
+    topMerchants: [],
+    subcategories: [],
+  };
+}
+
+describe('monthlyHistory', () => {
+  test('shows spending as positive amounts', () => {
+    const history = monthlyHistory(statistics([-10, -20, 5]), 2);
+    expect(history.map((month) => month.amount)).toEqual([20, -5]);
+  });
+});
+
+describe('seasonality', () => {
+  test('compares each calendar month with the average month', () => {
+    // Two years: July doubles, everything else is flat
+    const year = [-100, -100, -100, -100, -100, -100, -200, -100, -100, -100, -100, -100];
+    const months = seasonality(statistics([...year, ...year]));
+
+    expect(months[6]).toMatchObject({ average: 200, samples: 2 });
+    expect(months[6].index).toBeCloseTo(200 / (1300 / 12));
+    expect(peakMonths(months).map((month) => month.month)).toEqual([6]);
+  });
+
+  test('ignores the empty months before the category was first used', () => {
+    const months = seasonality(statistics([0, 0, -50, -50], '2025-03-14T00:00:00Z'));
+
+    expect(months[0]).toMatchObject({ samples: 0, index: null });
+    expect(months[2]).toMatchObject({ samples: 1, index: 1 });
+  });
+});
+
+describe('links', () => {
+  test('filter the transactions list by category, merchant and month', () => {
+    expect(monthDateRange('2024-02-01T00:00:00Z')).toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+    expect(categoryTransactionsHref(7)).toBe('/transactions?categoryId=7');
+    expect(categoryTransactionsHref(7, { search: 'Genesis Energy', ...monthDateRange('2025-07-01T00:00:00Z') })).toBe(
+      '/transactions?categoryId=7&search=Genesis+Energy&dateFilter=custom&startDate=2025-07-01&endDate=2025-07-31'
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildSplitTargets,
+  canReparent,
+  flattenCategoryTree,
+  splitDestination,
+  SplitTargetDraft,
+} from '../categories/category-tree';
+
+const category = (id: number, name: string, parentCategoryId?: number, sortOrder = 0) => ({
+  id,
+  name,
+  parentCategoryId,
+  sortOrder,
+});
+
+// Bills > Utilities > Power, plus Food at the top level
+const categories = [
+  category(4, 'Power', 2),
+  category(1, 'Bills'),
+  category(3, 'Food', undefined, 1),
+  category(2, 'Utilities', 1),
+];
+
+describe('flattenCategoryTree', () => {
+  test('lists each parent before its children, any depth', () => {
+    expect(flattenCategoryTree(categories).map(({ category, depth }) => [category.name, depth])).toEqual([
+      ['Bills', 0],
+      ['Utilities', 1],
+      ['Power', 2],
+      ['Food', 0],
+    ]);
+  });
+});
+
+describe('canReparent', () => {
+  test('rejects moves into its own subtree or where it already is', () => {
+    expect(canReparent(categories, 1, 4)).toBe(false);
+    expect(canReparent(categories, 2, 2)).toBe(false);
+    expect(canReparent(categories, 2, 1)).toBe(false);
+    expect(canReparent(categories, 1, undefined)).toBe(false);
+  });
+
+  test('allows moving anywhere else, including the top level', () => {
+    expect(canReparent(categories, 4, 3)).toBe(true);
+    expect(canReparent(categories, 2, undefined)).toBe(true);
+  });
+});
+
+describe('split targets', () => {
+  const drafts: SplitTargetDraft[] = [
+    { key: 'a', mode: 'new', newCategoryName: ' Power ', pattern: 'genesis' },
+    { key: 'b', mode: 'existing', categoryId: 3, newCategoryName: '', pattern: '' },
+    { key: 'c', mode: 'new', newCategoryName: '', pattern: 'water' },
+  ];
+
+  test('selection wins over patterns, then the first matching pattern', () => {
+    const selection = { 11: 'b' };
+    expect(splitDestination({ id: 11, description: 'GENESIS ENERGY' }, drafts, selection)?.key).toBe('b');
+    expect(splitDestination({ id: 12, description: 'Genesis Energy' }, drafts, selection)?.key).toBe('a');
+    expect(splitDestination({ id: 13, description: 'Rent' }, drafts, selection)).toBeUndefined();
+  });
+
+  test('builds requests, skipping drafts without a category or anything to move', () => {
+    expect(buildSplitTargets(drafts, { 11: 'b', 12: 'b' })).toEqual([
+      { newCategoryName: 'Power', transactionIds: [], pattern: 'genesis' },
+      { categoryId: 3, transactionIds: [11, 12] },
+    ]);
+    expect(buildSplitTargets(drafts, {})).toHaveLength(1);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import {
+  CsvMappingProfileImportError,
+  exportCsvMappingProfiles,
+  findCsvMappingProfiles,
+  fingerprintCsvHeaders,
+  mergeCsvMappingProfiles,
+  parseCsvMappingProfilesFile,
+  upsertCsvMappingProfile,
+} from '../import/csv-mapping-profiles';
+
+const headers = ['Date', 'Amount', 'Payee', 'Tran Type'];
+const mappings = {
+  dateColumn: 'Date',
+  amountColumn: 'Amount',
+  descriptionColumn: 'Payee',
+  typeColumn: 'Tran Type',
+  dateFormat: 'dd/MM/yyyy',
+  amountConvention: 'type-column',
+  typeValueMappings: { incomeValues: ['CR'], expenseValues: ['DR'] },
+};
+
+describe('fingerprintCsvHeaders', () => {
+  test('ignores case, quotes, spacing, BOM and column order', () => {
+    expect(fingerprintCsvHeaders(['\uFEFF"Date"', ' amount ', 'Tran  Type', 'PAYEE'])).toBe(
+      fingerprintCsvHeaders(headers)
+    );
+    expect(fingerprintCsvHeaders(['Date', 'Amount', 'Payee'])).not.toBe(fingerprintCsvHeaders(headers));
+  });
+});
+
+describe('profiles', () => {
+  test('finds matching profiles, most recently used first', () => {
+    let { profiles } = upsertCsvMappingProfile([], { name: 'Everyday', headers, mappings }, '2024-01-01T00:00:00Z');
+    ({ profiles } = upsertCsvMappingProfile(
+      profiles,
+      { name: 'Savings', headers, mappings, defaultAccountId: 7 },
+      '2024-02-01T00:00:00Z'
+    ));
+    ({ profiles } = upsertCsvMappingProfile(
+      profiles,
+      { name: 'Card', headers: ['When', 'What', 'How much'], mappings },
+      '2024-03-01T00:00:00Z'
+    ));
+
+    expect(findCsvMappingProfiles(profiles, ['payee', 'date', 'amount', 'tran type']).map((p) => p.name)).toEqual([
+      'Savings',
+      'Everyday',
+    ]);
+    expect(findCsvMappingProfiles(profiles, ['Other'])).toEqual([]);
+  });
+
+  test('updates a profile in place when saved with its id', () => {
+    const first = upsertCsvMappingProfile([], { name: 'Everyday', headers, mappings }, '2024-01-01T00:00:00Z');
+    const second = upsertCsvMappingProfile(
+      first.profiles,
+      { id: first.profile.id, name: 'Everyday ', headers, mappings: { ...mappings, dateFormat: 'yyyy-MM-dd' } },
+      '2024-02-01T00:00:00Z'
+    );
+
+    expect(second.profiles).toHaveLength(1);
+    expect(second.profile).toMatchObject({
+      id: first.profile.id,
+      name: 'Everyday',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-02-01T00:00:00Z',
+    });
+    expect(second.profile.mappings.dateFormat).toBe('yyyy-MM-dd');
+  });
+});
+
+describe('export and import', () => {
+  test('round-trips profiles and merges by id or name', () => {
+    const { profiles } = upsertCsvMappingProfile([], { name: 'Everyday', headers, mappings, defaultAccountId: 3 });
+    const parsed = parseCsvMappingProfilesFile(exportCsvMappingProfiles(profiles));
+
+    expect(parsed.skipped).toBe(0);
+    expect(parsed.profiles).toEqual(profiles);
+
+    const renamedCopy = { ...parsed.profiles[0], id: 'other-device', mappings: { ...mappings, dateFormat: 'MM/dd/yyyy' } };
+    const merged = mergeCsvMappingProfiles(profiles, [renamedCopy]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ id: profiles[0].id, mappings: { dateFormat: 'MM/dd/yyyy' } });
+  });
+
+  test('skips malformed profiles and rejects other files', () => {
+    const file = JSON.stringify({
+      version: 1,
+      profiles: [
+        { id: 'a', name: 'Good', headers, mappings, fingerprint: 'stale' },
+        { id: 'b', name: 'No headers', headers: [], mappings },
+        { id: 'c', name: 'Bad mapping', headers, mappings: { ...mappings, amountColumn: 4 } },
+      ],
+    });
+
+    const result = parseCsvMappingProfilesFile(file);
+    expect(result.skipped).toBe(2);
+    expect(result.profiles[0].fingerprint).toBe(fingerprintCsvHeaders(headers));
+
+    expect(() => parseCsvMappingProfilesFile('not json')).toThrow(CsvMappingProfileImportError);
+    expect(() => parseCsvMappingProfilesFile('{"rules":[]}')).toThrow(/does not contain/);
+    expect(() => parseCsvMappingProfilesFile('{"version":2,"profiles":[]}')).toThrow(/version: 2/);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_PAYOFF_PLAN_SETTINGS,
+  getAmortizationSchedule,
+  getRequiredPayment,
+  normalizePayoffPlanSettings,
+  simulatePayoff,
+  type PlanDebt,
+} from '../debts/payoff';
+
+const start = new Date(Date.UTC(2026, 9, 18));
+
+describe('getAmortizationSchedule', () => {
+  test('charges monthly interest before each payment until the balance is cleared', () => {
+    const schedule = getAmortizationSchedule(1000, 12, 300, start);
+
+    expect(schedule.rows[0]).toEqual({ month: '2026-11', payment: 300, interest: 10, principal: 290, balance: 710 });
+    expect(schedule.months).toBe(4);
+    expect(schedule.payoffMonth).toBe('2027-02');
+    expect(schedule.rows[3].balance).toBe(0);
+    expect(schedule.totalPaid).toBe(Math.round((1000 + schedule.totalInterest) * 100) / 100);
+  });
+
+  test('never pays off when the payment does not cover the interest', () => {
+    const schedule = getAmortizationSchedule(10000, 24, 150, start);
+
+    expect(schedule.months).toBeNull();
+    expect(schedule.payoffMonth).toBeNull();
+    expect(schedule.rows).toEqual([]);
+  });
+});
+
+describe('getRequiredPayment', () => {
+  test('finds the level payment that clears an interest-bearing loan on time', () => {
+    const payment = getRequiredPayment(10000, 6, 36);
+
+    expect(payment).toBe(304.22);
+    expect(getAmortizationSchedule(10000, 6, payment, start).months).toBe(36);
+  });
+
+  test('splits the balance evenly without interest', () => {
+    expect(getRequiredPayment(1200, 0, 12)).toBe(100);
+  });
+});
+
+describe('simulatePayoff', () => {
+  const debts: PlanDebt[] = [
+    { id: 1, name: 'Card', balance: 3000, apr: 22, minimumPayment: 90 },
+    { id: 2, name: 'Store card', balance: 500, apr: 10, minimumPayment: 25 },
+    { id: 3, name: 'Car loan', balance: 8000, apr: 5, minimumPayment: 240 },
+  ];
+
+  test('avalanche targets the highest rate and snowball the smallest balance', () => {
+    expect(simulatePayoff(debts, 'avalanche', 100, start).debts.map((debt) => debt.id)).toEqual([1, 2, 3]);
+    expect(simulatePayoff(debts, 'snowball', 100, start).debts.map((debt) => debt.id)).toEqual([2, 1, 3]);
+  });
+
+  test('avalanche never pays more interest than snowball', () => {
+    const avalanche = simulatePayoff(debts, 'avalanche', 100, start);
+    const snowball = simulatePayoff(debts, 'snowball', 100, start);
+
+    expect(avalanche.months).not.toBeNull();
+    expect(avalanche.totalInterest).toBeLessThanOrEqual(snowball.totalInterest);
+    expect(snowball.debts[0].months).toBeLessThan(avalanche.debts.find((debt) => debt.id === 2)!.months!);
+  });
+
+  test('an extra payment shortens the plan and cuts interest', () => {
+    const minimumsOnly = simulatePayoff(debts, 'avalanche', 0, start);
+    const withExtra = simulatePayoff(debts, 'avalanche', 200, start);
+
+    expect(withExtra.monthlyBudget).toBe(minimumsOnly.monthlyBudget + 200);
+    expect(withExtra.months!).toBeLessThan(minimumsOnly.months!);
+    expect(withExtra.totalInterest).toBeLessThan(minimumsOnly.totalInterest);
+    expect(withExtra.balances[withExtra.balances.length - 1]).toBe(0);
+  });
+
+  test('rolls freed minimums into the next debt', () => {
+    const plan = simulatePayoff(
+      [
+        { id: 1, name: 'Small', balance: 100, apr: 0, minimumPayment: 50 },
+        { id: 2, name: 'Large', balance: 1000, apr: 0, minimumPayment: 50 },
+      ],
+      'snowball',
+      0,
+      start
+    );
+
+    // 2 months on the small debt, then 100 a month on the large one: 1000 - 2 * 50 = 900 left, 9 more months
+    expect(plan.debts.map((debt) => debt.months)).toEqual([2, 11]);
+    expect(plan.payoffMonth).toBe('2027-09');
+  });
+
+  test('stops when the budget cannot keep up with the interest', () => {
+    const plan = simulatePayoff([{ id: 1, name: 'Card', balance: 10000, apr: 30, minimumPayment: 100 }], 'avalanche', 0, start);
+
+    expect(plan.months).toBeNull();
+    expect(plan.payoffMonth).toBeNull();
+    expect(plan.debts[0].months).toBeNull();
+  });
+});
+
+describe('normalizePayoffPlanSettings', () => {
+  test('keeps valid settings and replaces invalid ones', () => {
+    expect(normalizePayoffPlanSettings({ strategy: 'snowball', extraPayment: 150 })).toEqual({ strategy: 'snowball', extraPayment: 150 });
+    expect(normalizePayoffPlanSettings({ strategy: 'random', extraPayment: -5 })).toEqual(DEFAULT_PAYOFF_PLAN_SETTINGS);
+    expect(normalizePayoffPlanSettings(null)).toEqual(DEFAULT_PAYOFF_PLAN_SETTINGS);
+  });
+});
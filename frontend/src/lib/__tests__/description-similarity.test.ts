@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createDescriptionComparer,
+  jaroWinklerSimilarity,
+  levenshteinSimilarity,
+  normalizeMerchantDescription,
+  tokenSetSimilarity,
+} from '../import/description-similarity';
+import {
+  countMatchesByThreshold,
+  normalizeDuplicateMatchingSettings,
+  previewDescriptionMatches,
+} from '../import/duplicate-matching-settings';
+import { ImportAnalysisService } from '../import-analysis-service';
+import { ConflictType, ImportCandidate, Transaction, TransactionSource } from '@/types/import-review';
+
+describe('normalizeMerchantDescription', () => {
+  test.each([
+    ['POS 4111 1111 1111 1111 COUNTDOWN PONSONBY 12/03/2024', 'pos countdown ponsonby'],
+    ['Card ending 1234 - Starbucks #0042 14:32', 'starbucks'],
+    ['EFTPOS TID 12345678 Z ENERGY 12MAR24', 'eftpos z energy'],
+    ['xxxx-9876 Uber *Trip 2024-03-12', 'uber trip'],
+  ])('reduces %s to the merchant', (description, expected) => {
+    expect(normalizeMerchantDescription(description)).toBe(expected);
+  });
+});
+
+describe('similarity algorithms', () => {
+  test('agree on identical and empty strings', () => {
+    for (const similarity of [levenshteinSimilarity, jaroWinklerSimilarity, tokenSetSimilarity]) {
+      expect(similarity('coffee shop', 'coffee shop')).toBe(1);
+      expect(similarity('coffee shop', '')).toBe(0);
+    }
+  });
+
+  test('token set ignores word order and extra words', () => {
+    expect(tokenSetSimilarity('shop coffee', 'coffee shop')).toBe(1);
+    expect(tokenSetSimilarity('countdown', 'countdown ponsonby auckland')).toBe(1);
+    expect(levenshteinSimilarity('countdown', 'countdown ponsonby auckland')).toBeLessThan(0.5);
+  });
+
+  test('jaro-winkler rewards a shared prefix', () => {
+    expect(jaroWinklerSimilarity('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinklerSimilarity('countdown ponso', 'countdown ponsonby')).toBeGreaterThan(
+      levenshteinSimilarity('countdown ponso', 'countdown ponsonby')
+    );
+  });
+
+  test('merchant normalisation makes repeat card payments compare equal', () => {
+    const left = 'VISA 4111 1111 1111 1111 Z ENERGY 01/03 TID 998877';
+    const right = 'VISA 4111 1111 1111 1111 Z ENERGY 15/03 TID 112233';
+    expect(createDescriptionComparer('levenshtein', false)(left, right)).toBeLessThan(1);
+    expect(createDescriptionComparer('levenshtein', true)(left, right)).toBe(1);
+  });
+});
+
+describe('duplicate matching settings', () => {
+  test('falls back to defaults and clamps stored values', () => {
+    expect(normalizeDuplicateMatchingSettings({ algorithm: 'soundex', threshold: 3 })).toEqual({
+      algorithm: 'levenshtein',
+      normalizeMerchants: false,
+      threshold: 1,
+      conflictDetectionLevel: 'moderate',
+    });
+  });
+
+  test('previews pairs and counts matches per threshold', () => {
+    const previews = previewDescriptionMatches(
+      [
+        { id: 'a', left: 'Coffee Shop', right: 'Coffee Shop Ltd' },
+        { id: 'b', left: 'Coffee Shop', right: 'Grocery Store' },
+        { id: 'c', left: 'Rent', right: 'rent' },
+      ],
+      { algorithm: 'levenshtein', normalizeMerchants: false, threshold: 0.7 }
+    );
+
+    expect(previews.map((preview) => [preview.id, preview.matches])).toEqual([
+      ['c', true],
+      ['a', true],
+      ['b', false],
+    ]);
+    expect(countMatchesByThreshold(previews, [0.5, 0.8, 1])).toEqual([
+      { threshold: 0.5, count: 2 },
+      { threshold: 0.8, count: 1 },
+      { threshold: 1, count: 1 },
+    ]);
+  });
+
+  test('the configured comparer decides similar-description conflicts', async () => {
+    const candidate: ImportCandidate = {
+      amount: -42.5,
+      date: '2024-03-15',
+      description: 'Z ENERGY 15/03 4111 1111 1111 1111 TID 112233',
+      source: TransactionSource.Import,
+      sourceRowIndex: 0,
+      confidence: 100,
+    };
+    const existing = {
+      id: 1,
+      amount: -42.5,
+      transactionDate: '2024-03-15',
+      description: 'Z Energy',
+      source: TransactionSource.CsvImport,
+      status: 2,
+      createdAt: '2024-03-16',
+    } as Transaction;
+
+    const analyze = (normalizeMerchants: boolean) =>
+      ImportAnalysisService.analyzeImportCandidates([candidate], [existing], {
+        descriptionMatching: { algorithm: 'levenshtein', normalizeMerchants, threshold: 0.9 },
+      });
+
+    const [plain] = await analyze(false);
+    const [normalized] = await analyze(true);
+    expect(plain.conflicts[0].type).toBe(ConflictType.PotentialDuplicate);
+    expect(normalized.conflicts[0].type).toBe(ConflictType.ExactDuplicate);
+  });
+});
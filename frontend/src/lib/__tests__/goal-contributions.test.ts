@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import type { GoalContribution } from '../api-client';
+import {
+  getAverageMonthlyContribution,
+  getContributionSeries,
+  getGoalPace,
+  getProjectedCompletionMonth,
+  getRequiredMonthlyPace,
+} from '../goals/goal-contributions';
+
+const today = new Date(Date.UTC(2026, 9, 18));
+
+const contribution = (date: string, amount: number, source: GoalContribution['source'] = 'Manual'): GoalContribution => ({
+  source,
+  date: `${date}T00:00:00Z`,
+  amount,
+});
+
+describe('getContributionSeries', () => {
+  test('totals each month up to the current one, including months without contributions', () => {
+    const series = getContributionSeries(
+      [contribution('2026-07-03', 100), contribution('2026-07-20', 50), contribution('2026-09-01', -30)],
+      today,
+    );
+
+    expect(series).toEqual([
+      { month: '2026-07', amount: 150, total: 150 },
+      { month: '2026-08', amount: 0, total: 150 },
+      { month: '2026-09', amount: -30, total: 120 },
+      { month: '2026-10', amount: 0, total: 120 },
+    ]);
+  });
+
+  test('is empty without contributions', () => {
+    expect(getContributionSeries([], today)).toEqual([]);
+  });
+});
+
+describe('getAverageMonthlyContribution', () => {
+  test('averages the months before the current one and leaves out opening balances', () => {
+    const average = getAverageMonthlyContribution(
+      [
+        contribution('2026-01-01', 5000, 'Adjustment'),
+        contribution('2026-06-10', 900),
+        contribution('2026-07-10', 300),
+        contribution('2026-08-10', 200, 'Tag'),
+        contribution('2026-09-10', 100, 'Wallet'),
+        contribution('2026-10-02', 1000),
+      ],
+      today,
+    );
+
+    expect(average).toBe(200);
+  });
+
+  test('averages a young goal over the months it has existed', () => {
+    expect(getAverageMonthlyContribution([contribution('2026-09-05', 300)], today)).toBe(300);
+  });
+
+  test('uses the current month for a goal started this month', () => {
+    expect(getAverageMonthlyContribution([contribution('2026-10-01', 250)], today)).toBe(250);
+  });
+});
+
+describe('getRequiredMonthlyPace', () => {
+  test('spreads the remaining amount over the months until the deadline', () => {
+    expect(getRequiredMonthlyPace(1200, '2027-04-30T00:00:00Z', today)).toBe(200);
+  });
+
+  test('needs the whole amount this month when the deadline is this month', () => {
+    expect(getRequiredMonthlyPace(500, '2026-10-31T00:00:00Z', today)).toBe(500);
+  });
+
+  test('is null without a deadline or once it has passed', () => {
+    expect(getRequiredMonthlyPace(500, undefined, today)).toBeNull();
+    expect(getRequiredMonthlyPace(500, '2026-09-30T00:00:00Z', today)).toBeNull();
+  });
+});
+
+describe('getProjectedCompletionMonth', () => {
+  test('projects the month the pace covers the remaining amount', () => {
+    expect(getProjectedCompletionMonth(1000, 300, today)).toBe('2027-02');
+  });
+
+  test('is the current month once the target is reached and null without progress', () => {
+    expect(getProjectedCompletionMonth(0, 0, today)).toBe('2026-10');
+    expect(getProjectedCompletionMonth(1000, 0, today)).toBeNull();
+    expect(getProjectedCompletionMonth(1000, -50, today)).toBeNull();
+  });
+});
+
+describe('getGoalPace', () => {
+  test('combines the required and actual pace with the projection', () => {
+    const pace = getGoalPace(
+      [contribution('2026-07-15', 400), contribution('2026-08-15', 400), contribution('2026-09-15', 400)],
+      2000,
+      '2027-02-28T00:00:00Z',
+      today,
+    );
+
+    expect(pace).toEqual({ required: 500, actual: 400, projectedMonth: '2027-03' });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { ALLOCATION_COLORS, getAllocationSlices, getTradeCashAmount } from '../investments/investments';
+import type { HoldingDto } from '@/types/investments';
+
+const holding = (symbol: string, marketValue: number): HoldingDto => ({
+  id: symbol.length,
+  symbol,
+  units: 1,
+  averageCost: marketValue,
+  costBasis: marketValue,
+  price: marketValue,
+  marketValue,
+  unrealisedGain: 0,
+  realisedGain: 0,
+  dividends: 0,
+  allocationPercent: 0,
+});
+
+describe('getAllocationSlices', () => {
+  test('orders holdings by market value and skips closed positions', () => {
+    const slices = getAllocationSlices([holding('BND', 250), holding('VTI', 750), holding('OLD', 0)]);
+
+    expect(slices.map((slice) => slice.symbol)).toEqual(['VTI', 'BND']);
+    expect(slices.map((slice) => slice.percent)).toEqual([75, 25]);
+    expect(slices[0].color).toBe(ALLOCATION_COLORS[0]);
+  });
+
+  test('groups the smallest holdings once there are more than the slice limit', () => {
+    const slices = getAllocationSlices([holding('A', 400), holding('B', 300), holding('C', 200), holding('D', 100)], 3);
+
+    expect(slices).toHaveLength(3);
+    expect(slices[2]).toMatchObject({ symbol: null, marketValue: 300, percent: 30 });
+  });
+
+  test('returns nothing when no holding has a value', () => {
+    expect(getAllocationSlices([holding('VTI', 0)])).toEqual([]);
+  });
+});
+
+describe('getTradeCashAmount', () => {
+  test('signs trades as the account sees them', () => {
+    expect(getTradeCashAmount('Buy', 10, 25.5, 1)).toBe(-256);
+    expect(getTradeCashAmount('Sell', 4, 30, 1.25)).toBe(118.75);
+    expect(getTradeCashAmount('Dividend', 0, 0, 0, 12.346)).toBe(12.35);
+  });
+});
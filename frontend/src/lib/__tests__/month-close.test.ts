@@ -0,0 +1,121 @@
+import { describe, test, expect } from 'vitest';
+import {
+  describeCategoryRollover,
+  rolloverOverride,
+  rolloverOverridesToApply,
+  totalCarried,
+} from '../budget/month-close';
+import type { BudgetRollover, BudgetRolloverResult, CategoryRollover } from '@/types/budget';
+
+function category(overrides: Partial<CategoryRollover>): CategoryRollover {
+  return {
+    categoryId: 1,
+    categoryName: 'Groceries',
+    budgetedAmount: 500,
+    actualSpent: 400,
+    remainingAmount: 100,
+    rolloverAmount: 100,
+    calculatedRolloverAmount: 100,
+    isOverridden: false,
+    carryOverspend: false,
+    status: 'Surplus',
+    ...overrides,
+  };
+}
+
+function budget(overrides: Partial<BudgetRollover>): BudgetRollover {
+  return {
+    sourceBudgetId: 10,
+    sourceBudgetName: 'Household',
+    periodStartDate: '2026-09-01',
+    periodEndDate: '2026-09-30',
+    isRecurring: true,
+    totalRollover: 0,
+    newBudgetCreated: true,
+    newBudgetId: 11,
+    categoryRollovers: [],
+    ...overrides,
+  };
+}
+
+describe('describeCategoryRollover', () => {
+  test('explains why each category carries what it does', () => {
+    const recurring = budget({});
+
+    expect(describeCategoryRollover(recurring, category({})).reason).toBe('surplus');
+    expect(
+      describeCategoryRollover(
+        recurring,
+        category({ remainingAmount: -50, rolloverAmount: -50, carryOverspend: true, status: 'Deficit' })
+      )
+    ).toMatchObject({ reason: 'overspendCarried', carriedAmount: -50, capped: false });
+    expect(
+      describeCategoryRollover(recurring, category({ remainingAmount: -50, rolloverAmount: 0, status: 'Deficit' }))
+    ).toMatchObject({ reason: 'overspendCapped', carriedAmount: 0, capped: true });
+    expect(
+      describeCategoryRollover(budget({ isRecurring: false, newBudgetId: undefined }), category({}))
+    ).toMatchObject({ reason: 'notRecurring', carriedAmount: 0 });
+  });
+});
+
+describe('rolloverOverride', () => {
+  test('ignores overrides equal to the calculated amount', () => {
+    const preview = describeCategoryRollover(budget({}), category({}));
+
+    expect(rolloverOverride({}, 10, preview)).toBeUndefined();
+    expect(rolloverOverride({ 10: { 1: 100 } }, 10, preview)).toBeUndefined();
+    expect(rolloverOverride({ 10: { 1: 0 } }, 10, preview)).toBe(0);
+  });
+});
+
+describe('month close commit', () => {
+  const result: BudgetRolloverResult = {
+    processedAt: '2026-10-01T08:00:00Z',
+    previewOnly: true,
+    totalBudgetsProcessed: 2,
+    newBudgetsCreated: 0,
+    totalRolloverAmount: 230,
+    message: '',
+    processedBudgets: [
+      budget({
+        categoryRollovers: [category({}), category({ categoryId: 2, categoryName: 'Dining', rolloverAmount: 30, remainingAmount: 30 })],
+      }),
+      budget({
+        sourceBudgetId: 20,
+        sourceBudgetName: 'Holiday',
+        isRecurring: false,
+        newBudgetCreated: false,
+        newBudgetId: undefined,
+        categoryRollovers: [category({ categoryId: 3, categoryName: 'Flights' })],
+      }),
+    ],
+  };
+
+  test('sends only overrides that differ from the calculated amounts', () => {
+    expect(rolloverOverridesToApply(result, { 10: { 1: 100, 2: 80 } })).toEqual([
+      { sourceBudgetId: 10, categoryId: 2, amount: 80 },
+    ]);
+  });
+
+  test('drops overrides for budgets without a next period', () => {
+    expect(rolloverOverridesToApply(result, { 20: { 3: 50 } })).toEqual([]);
+  });
+
+  test('totals what was carried into new periods', () => {
+    const committed: BudgetRolloverResult = {
+      ...result,
+      previewOnly: false,
+      processedBudgets: [
+        budget({
+          categoryRollovers: [
+            category({}),
+            category({ categoryId: 2, rolloverAmount: 80, calculatedRolloverAmount: 30, isOverridden: true }),
+          ],
+        }),
+        result.processedBudgets[1],
+      ],
+    };
+
+    expect(totalCarried(committed)).toBe(180);
+  });
+});
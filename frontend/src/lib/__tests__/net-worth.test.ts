@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest';
+import { findMilestones, getContributions, toChartRows } from '../net-worth/net-worth';
+import type { NetWorthAccountDto, NetWorthSnapshotDto } from '@/types/net-worth';
+
+const snapshot = (date: string, netWorth: number, byAccountType: NetWorthSnapshotDto['byAccountType'] = []): NetWorthSnapshotDto => ({
+  year: Number(date.slice(0, 4)),
+  month: Number(date.slice(5, 7)),
+  date,
+  totalAssets: Math.max(netWorth, 0),
+  totalLiabilities: Math.max(-netWorth, 0),
+  netWorth,
+  byAccountType,
+});
+
+const account = (accountId: number, change: number): NetWorthAccountDto => ({
+  accountId,
+  name: `Account ${accountId}`,
+  type: 1,
+  currency: 'USD',
+  isLiability: false,
+  hasValuations: false,
+  startBalance: 1000,
+  endBalance: 1000 + change,
+  change,
+});
+
+describe('findMilestones', () => {
+  test('reports each threshold crossed upward once, newest first, with the peak', () => {
+    const milestones = findMilestones([
+      snapshot('2026-01-31', -2000),
+      snapshot('2026-02-28', 500),
+      snapshot('2026-03-31', 12000),
+      snapshot('2026-04-30', 9000),
+      snapshot('2026-05-31', 11000),
+    ]);
+
+    expect(milestones).toEqual([
+      { kind: 'threshold', amount: 10_000, date: '2026-03-31' },
+      { kind: 'peak', amount: 12000, date: '2026-03-31' },
+      { kind: 'threshold', amount: 0, date: '2026-02-28' },
+    ]);
+  });
+
+  test('reports nothing when net worth only fell', () => {
+    expect(findMilestones([snapshot('2026-01-31', 5000), snapshot('2026-02-28', 4000)])).toEqual([]);
+  });
+});
+
+describe('getContributions', () => {
+  test('drops unchanged accounts and orders by the size of the change', () => {
+    const contributions = getContributions([account(1, 100), account(2, 0), account(3, -300)]);
+
+    expect(contributions.map((c) => c.accountId)).toEqual([3, 1]);
+    expect(contributions[0].share).toBe(75);
+  });
+});
+
+describe('toChartRows', () => {
+  test('fills months missing an account type with zero', () => {
+    const { rows, accountTypes } = toChartRows([
+      snapshot('2026-01-31', 100, [{ accountType: 1, balance: 100 }]),
+      snapshot('2026-02-28', 50, [
+        { accountType: 1, balance: 150 },
+        { accountType: 3, balance: -100 },
+      ]),
+    ]);
+
+    expect(accountTypes).toEqual([1, 3]);
+    expect(rows[0]).toEqual({ date: '2026-01-31', netWorth: 100, type1: 100, type3: 0 });
+  });
+});
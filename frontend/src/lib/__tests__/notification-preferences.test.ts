@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import {
+  isChannelEnabled,
+  isInQuietHours,
+  minutesInTimeZone,
+  parseChannelPreferences,
+  previewNotificationDelivery,
+  serializeChannelPreferences,
+  setChannelEnabled,
+  timeToMinutes,
+} from '../notifications/notification-preferences';
+
+describe('channel preferences', () => {
+  test('default to in-app only and store only overrides', () => {
+    let preferences = parseChannelPreferences('not json');
+    expect(isChannelEnabled(preferences, 'BudgetExceeded', 'inApp')).toBe(true);
+    expect(isChannelEnabled(preferences, 'BudgetExceeded', 'email')).toBe(false);
+
+    preferences = setChannelEnabled(preferences, 'BudgetExceeded', 'telegram', true);
+    preferences = setChannelEnabled(preferences, 'MonthlyReport', 'inApp', true);
+    preferences = setChannelEnabled(preferences, 'SpendingAnomaly', 'inApp', false);
+
+    expect(serializeChannelPreferences(preferences)).toBe(
+      '{"BudgetExceeded":{"telegram":true},"SpendingAnomaly":{"inApp":false}}'
+    );
+    expect(serializeChannelPreferences(setChannelEnabled({}, 'AiInsight', 'email', false))).toBeNull();
+  });
+});
+
+describe('quiet hours', () => {
+  test('include the start, exclude the end and wrap past midnight', () => {
+    const start = timeToMinutes('22:00')!;
+    const end = timeToMinutes('07:00:00')!;
+    expect(isInQuietHours(22 * 60, start, end)).toBe(true);
+    expect(isInQuietHours(3 * 60, start, end)).toBe(true);
+    expect(isInQuietHours(7 * 60, start, end)).toBe(false);
+    expect(isInQuietHours(12 * 60, 12 * 60, 13 * 60)).toBe(true);
+    expect(timeToMinutes('25:00')).toBeNull();
+  });
+
+  test('are checked on the wall clock of the chosen time zone', () => {
+    const noonUtc = new Date('2024-01-15T12:00:00Z');
+    expect(minutesInTimeZone(noonUtc, 'Pacific/Auckland')).toBe(60);
+    expect(minutesInTimeZone(noonUtc, 'Not/AZone')).toBe(12 * 60);
+
+    const preview = previewNotificationDelivery(
+      { quietHoursStart: '22:00', quietHoursEnd: '07:00', quietHoursTimezone: 'Pacific/Auckland' },
+      { LargeTransaction: { email: true } },
+      'LargeTransaction',
+      noonUtc
+    );
+    expect(preview).toEqual({ channels: ['inApp', 'email'], silencedByQuietHours: true, quietHoursEnd: '07:00' });
+  });
+});
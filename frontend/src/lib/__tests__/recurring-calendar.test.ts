@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { buildMonthGrid, getGridRange, groupEntriesByDay, sumDayEntries } from '../recurring-schedules/calendar';
+import type { RecurringCalendarEntryDto } from '@/types/recurring-schedules';
+
+const entry = (date: string, amount: number, overrides: Partial<RecurringCalendarEntryDto> = {}): RecurringCalendarEntryDto => ({
+  date,
+  name: 'Rent',
+  amount,
+  source: 'schedule',
+  status: 'expected',
+  amountChanged: false,
+  ...overrides,
+});
+
+describe('buildMonthGrid', () => {
+  test('pads October 2026 to whole Sunday-first weeks', () => {
+    const weeks = buildMonthGrid(2026, 9);
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toEqual({ key: '2026-09-27', day: 27, inMonth: false });
+    expect(weeks[0][4]).toEqual({ key: '2026-10-01', day: 1, inMonth: true });
+    expect(getGridRange(weeks)).toEqual({ startDate: '2026-09-27', endDate: '2026-10-31' });
+  });
+
+  test('starts weeks on Monday when asked', () => {
+    const weeks = buildMonthGrid(2026, 1, 1);
+
+    expect(weeks[0][0].key).toBe('2026-01-26');
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    expect(weeks.flat().filter((day) => day.inMonth)).toHaveLength(28);
+  });
+});
+
+describe('groupEntriesByDay', () => {
+  test('groups by the date part and nets paid and expected amounts', () => {
+    const byDay = groupEntriesByDay([
+      entry('2026-10-01T00:00:00Z', -1200, { status: 'paid', actualAmount: -1250 }),
+      entry('2026-10-01T00:00:00Z', 3000, { name: 'Salary' }),
+      entry('2026-10-05T00:00:00Z', -15, { status: 'missed' }),
+    ]);
+
+    expect([...byDay.keys()]).toEqual(['2026-10-01', '2026-10-05']);
+    expect(sumDayEntries(byDay.get('2026-10-01')!)).toBe(1750);
+    expect(sumDayEntries(byDay.get('2026-10-05')!)).toBe(0);
+  });
+});
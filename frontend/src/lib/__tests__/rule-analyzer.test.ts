@@ -0,0 +1,107 @@
+import { describe, test, expect, vi } from 'vitest';
+import { analyzeRules, prioritiesWithRuleBefore } from '../rules/rule-analyzer';
+import type { CategorizationRule } from '@/types/rules';
+import type { TransactionDto } from '@/types/transactions';
+
+// test-setup replaces utils with formatting stubs; rule matching needs the real account type enum
+vi.unmock('@/lib/utils');
+
+const transaction = (id: number, description: string): TransactionDto => ({
+  id,
+  amount: -25,
+  transactionDate: '2024-03-01',
+  description,
+  status: 2,
+  source: 2,
+  isReviewed: true,
+  isExcluded: false,
+  type: 2,
+  accountId: 1,
+  accountName: 'Everyday',
+  isTransferSource: false,
+  createdAt: '2024-03-01',
+  updatedAt: '2024-03-01',
+} as TransactionDto);
+
+const rule = (overrides: Partial<CategorizationRule>): CategorizationRule => ({
+  id: 1,
+  name: 'Rule',
+  type: 1,
+  pattern: 'countdown',
+  isCaseSensitive: false,
+  priority: 1,
+  isActive: true,
+  isAiGenerated: false,
+  matchCount: 3,
+  correctionCount: 0,
+  categoryId: 7,
+  categoryName: 'Groceries',
+  logic: 1,
+  accuracyRate: 1,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+  conditions: [],
+  applicationCount: 0,
+  ...overrides,
+});
+
+const transactions = [
+  transaction(1, 'COUNTDOWN PONSONBY'),
+  transaction(2, 'COUNTDOWN METRO'),
+  transaction(3, 'UBER TRIP'),
+  transaction(4, 'UBER EATS'),
+];
+
+describe('analyzeRules', () => {
+  test('classifies rules that lose every match, overlap partially or never match', () => {
+    const rules = [
+      rule({ id: 1, name: 'Supermarkets' }),
+      rule({ id: 2, name: 'Countdown', pattern: 'countdown metro', priority: 2 }),
+      rule({ id: 3, name: 'Metro treats', pattern: 'metro', priority: 3, categoryId: 9, categoryName: 'Dining' }),
+      rule({ id: 4, name: 'Uber', pattern: 'uber', priority: 4, categoryId: 8, categoryName: 'Transport' }),
+      rule({ id: 5, name: 'Uber Eats', pattern: 'eats', priority: 4, categoryId: 9, categoryName: 'Dining' }),
+      rule({ id: 6, name: 'Broken', type: 'Regex', pattern: '([', priority: 5 }),
+      rule({ id: 7, name: 'Old', pattern: 'video store', priority: 6, matchCount: 0 }),
+      rule({ id: 8, name: 'Seasonal', pattern: 'ski field', priority: 7, matchCount: 12 }),
+      rule({ id: 9, name: 'Inactive', pattern: 'uber', isActive: false }),
+    ];
+
+    const analysis = analyzeRules(rules, transactions, new Map());
+
+    expect(analysis.scanned).toBe(4);
+    expect(analysis.findings.map((finding) => [finding.kind, finding.rule.id, finding.relatedRules.map((related) => related.id)])).toEqual([
+      ['shadowed', 3, [1]],
+      ['shadowed', 5, [4]],
+      ['redundant', 2, [1]],
+      ['dead', 6, []],
+      ['dead', 7, []],
+    ]);
+    expect(analysis.findings[0].sampleDescriptions).toEqual(['COUNTDOWN METRO']);
+    expect(analysis.findings.find((finding) => finding.rule.id === 6)?.invalidPattern).toBe(true);
+  });
+
+  test('reports earlier rules that take part of a later rule\'s matches with another category', () => {
+    const rules = [
+      rule({ id: 1, name: 'Metro', pattern: 'metro', categoryId: 9, categoryName: 'Dining' }),
+      rule({ id: 2, name: 'Supermarkets', priority: 2 }),
+    ];
+
+    const [finding] = analyzeRules(rules, transactions, new Map()).findings;
+
+    expect(finding).toMatchObject({ kind: 'conflicting', sharedCount: 1, sampleDescriptions: ['COUNTDOWN METRO'] });
+    expect(finding.rule.id).toBe(2);
+    expect(finding.relatedRules.map((related) => related.id)).toEqual([1]);
+  });
+});
+
+describe('prioritiesWithRuleBefore', () => {
+  test('moves a rule in front of another and renumbers the list', () => {
+    const rules = [
+      rule({ id: 1, priority: 1 }),
+      rule({ id: 2, priority: 5 }),
+      rule({ id: 3, priority: 5 }),
+    ];
+
+    expect(prioritiesWithRuleBefore(rules, 3, 1)).toEqual({ 3: 0, 1: 1, 2: 2 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, test, expect, vi } from 'vitest';
+import { accountTypeNamesById, ruleMatchesTransaction, RuleDraft, simulateRule } from '../rules/rule-simulator';
+import type { CategorizationRule } from '@/types/rules';
+import type { TransactionDto } from '@/types/transactions';
+
+// test-setup replaces utils with formatting stubs; the simulator needs the real account type enum
+vi.unmock('@/lib/utils');
+
+const transaction = (overrides: Partial<TransactionDto>): TransactionDto => ({
+  id: 1,
+  amount: -25,
+  transactionDate: '2024-03-01',
+  description: 'COUNTDOWN PONSONBY',
+  status: 2,
+  source: 2,
+  isReviewed: true,
+  isExcluded: false,
+  type: 2,
+  accountId: 1,
+  accountName: 'Everyday',
+  isTransferSource: false,
+  createdAt: '2024-03-01',
+  updatedAt: '2024-03-01',
+  ...overrides,
+} as TransactionDto);
+
+const draft = (overrides: Partial<RuleDraft>): RuleDraft => ({
+  type: 'Contains',
+  pattern: 'countdown',
+  isCaseSensitive: false,
+  priority: 10,
+  categoryId: 5,
+  logic: 'All',
+  conditions: [],
+  ...overrides,
+});
+
+const existingRule = (overrides: Partial<CategorizationRule>): CategorizationRule => ({
+  id: 100,
+  name: 'Supermarkets',
+  type: 1,
+  pattern: 'countdown',
+  isCaseSensitive: false,
+  priority: 1,
+  isActive: true,
+  isAiGenerated: false,
+  matchCount: 0,
+  correctionCount: 0,
+  categoryId: 7,
+  categoryName: 'Groceries',
+  logic: 1,
+  accuracyRate: 1,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+  conditions: [],
+  applicationCount: 0,
+  ...overrides,
+});
+
+describe('ruleMatchesTransaction', () => {
+  test('applies the pattern, amount range and account types of simple rules', () => {
+    const groceries = transaction({});
+    expect(ruleMatchesTransaction(draft({}), groceries, 'Checking')).toBe(true);
+    expect(ruleMatchesTransaction(draft({ isCaseSensitive: true }), groceries, 'Checking')).toBe(false);
+    expect(ruleMatchesTransaction(draft({ maxAmount: 20 }), groceries, 'Checking')).toBe(false);
+    expect(ruleMatchesTransaction(draft({ accountTypes: 'CreditCard, Savings' }), groceries, 'Checking')).toBe(false);
+    expect(ruleMatchesTransaction(draft({ type: 5, pattern: '(?i)^count' }), groceries)).toBe(true);
+    expect(ruleMatchesTransaction(draft({ type: 'Regex', pattern: '([' }), groceries)).toBe(false);
+  });
+
+  test('evaluates advanced conditions with All and Any logic instead of the pattern', () => {
+    const conditions = [
+      { field: 'Description', operator: 'StartsWith', value: 'countdown', isCaseSensitive: false, order: 0 },
+      { field: 3, operator: 7, value: '100', isCaseSensitive: false, order: 1 },
+    ];
+    const groceries = transaction({});
+
+    expect(ruleMatchesTransaction(draft({ pattern: 'nothing', conditions }), groceries)).toBe(false);
+    expect(ruleMatchesTransaction(draft({ pattern: 'nothing', conditions, logic: 2 }), groceries)).toBe(true);
+    expect(ruleMatchesTransaction(draft({ conditions, logic: 'Any' }), transaction({ description: 'Rent', amount: -1200 }))).toBe(true);
+  });
+});
+
+describe('simulateRule', () => {
+  test('flags category changes and existing rules that run first', () => {
+    const transactions = [
+      transaction({ id: 1, categoryId: 5 }),
+      transaction({ id: 2, categoryId: 3, accountId: 2 }),
+      transaction({ id: 3, description: 'COUNTDOWN METRO', accountId: 2 }),
+      transaction({ id: 4, description: 'Rent' }),
+    ];
+    const rules = [
+      existingRule({ accountTypes: 'Checking' }),
+      existingRule({ id: 101, name: 'Later rule', priority: 50 }),
+      existingRule({ id: 102, name: 'Inactive', isActive: false }),
+    ];
+    const accountTypes = accountTypeNamesById([{ id: 1, type: 1 }, { id: 2, type: 3 }]);
+
+    const result = simulateRule(draft({}), transactions, rules, accountTypes);
+
+    expect(result.scanned).toBe(4);
+    expect(result.matches.map((match) => [match.transaction.id, match.wouldChangeCategory, match.shadowedBy?.id])).toEqual([
+      [1, false, 100],
+      [2, true, undefined],
+      [3, true, undefined],
+    ]);
+    expect(result.changedCount).toBe(2);
+    expect(result.shadowedCount).toBe(1);
+    expect(result.overlaps).toEqual([{ rule: expect.objectContaining({ id: 100 }), count: 1 }]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { SseParser } from '../realtime/sse-parser';
+
+describe('SseParser', () => {
+  test('parses named events with ids', () => {
+    const parser = new SseParser();
+    const events = parser.feed('id: 7\nevent: notification.unreadCount\ndata: {"count":3}\n\n');
+
+    expect(events).toEqual([{ event: 'notification.unreadCount', data: '{"count":3}', id: '7' }]);
+  });
+
+  test('reassembles events split across chunks, including CRLF pairs', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('event: chat.mes')).toEqual([]);
+    expect(parser.feed('sage\r')).toEqual([]);
+    expect(parser.feed('\ndata: {"message":')).toEqual([]);
+    expect(parser.feed('{}}\r\n\r\n')).toEqual([
+      { event: 'chat.message', data: '{"message":{}}', id: undefined },
+    ]);
+  });
+
+  test('joins multi-line data and defaults the event name', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('data: first\ndata: second\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond', id: undefined },
+    ]);
+  });
+
+  test('ignores keep-alive comments and events without data', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed(': ping\n\nevent: bankSync.job\n\n')).toEqual([]);
+    // The dangling event name must not leak into the next event
+    expect(parser.feed('data: x\n\n')).toEqual([{ event: 'message', data: 'x', id: undefined }]);
+  });
+
+  test('keeps the last event id for subsequent events', () => {
+    const parser = new SseParser();
+
+    const events = parser.feed('id: 1\ndata: a\n\ndata: b\n\n');
+    expect(events.map((event) => event.id)).toEqual(['1', '1']);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  StatementParseError,
+  detectStatementFormat,
+  parseStatement,
+  parseStatementAmount,
+} from '../import/statement-import';
+import { TransactionSource } from '@/types/import-review';
+
+const fixture = (name: string) => readFileSync(resolve(__dirname, 'fixtures', name), 'utf8');
+
+describe('detectStatementFormat', () => {
+  test('uses the extension, then sniffs generic files', () => {
+    expect(detectStatementFormat('export.QIF')).toBe('qif');
+    expect(detectStatementFormat('umsaetze.sta')).toBe('mt940');
+    expect(detectStatementFormat('statement.xml', fixture('statement-camt053.xml'))).toBe('camt053');
+    expect(detectStatementFormat('statement.txt', fixture('statement.sta'))).toBe('mt940');
+    expect(detectStatementFormat('statement.txt', 'Date,Amount\n')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  test('reads either decimal separator', () => {
+    expect(parseStatementAmount('-1,234.50')).toBe(-1234.5);
+    expect(parseStatementAmount('1.234,50')).toBe(1234.5);
+    expect(parseStatementAmount('12,5')).toBe(12.5);
+    expect(parseStatementAmount('1,234')).toBe(1234);
+    expect(parseStatementAmount('abc')).toBeNull();
+  });
+});
+
+describe('QIF', () => {
+  test('parses bank records, inferring day-first dates', () => {
+    const result = parseStatement('qif', fixture('statement.qif'));
+
+    expect(result.account).toEqual({ name: 'Everyday Account' });
+    expect(result.candidates.map((c) => [c.date, c.amount, c.description])).toEqual([
+      ['2024-01-31', -1234.5, 'Countdown Ponsonby'],
+      ['2024-02-01', 2500, 'ACME Payroll'],
+      ['2024-02-03', -80, 'Warehouse'],
+    ]);
+    expect(result.candidates[0]).toMatchObject({
+      notes: 'Weekly groceries',
+      referenceNumber: '1042',
+      source: TransactionSource.Import,
+      type: 2,
+    });
+    expect(result.candidates[1].type).toBe(1);
+  });
+
+  test('reports invalid records and combined splits by line', () => {
+    const result = parseStatement('qif', fixture('statement.qif'));
+
+    expect(result.errors).toEqual([{ line: 16, message: 'Unrecognised date "2024-02-30".' }]);
+    expect(result.warnings).toEqual([{ line: 20, message: 'Split lines were combined into a single transaction.' }]);
+  });
+
+  test('honours an explicit month-first order', () => {
+    const result = parseStatement('qif', '!Type:CCard\nD02/03\'24\nT-5\nPCafe\n^\n', { dateOrder: 'mdy' });
+    expect(result.candidates[0].date).toBe('2024-02-03');
+  });
+
+  test('rejects files without a type header', () => {
+    expect(() => parseStatement('qif', 'D01/01/2024\nT5\n^\n')).toThrow(StatementParseError);
+  });
+});
+
+describe('CAMT.053', () => {
+  test('maps booked entries with counterparty, remittance and references', () => {
+    const result = parseStatement('camt053', fixture('statement-camt053.xml'));
+
+    expect(result.account).toEqual({ identifier: 'DE89370400440532013000', name: undefined, currency: 'EUR' });
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidates[0]).toMatchObject({
+      amount: -45.9,
+      date: '2024-02-05',
+      description: 'Stadtwerke Berlin',
+      notes: 'Abschlag Februar Kunde 7781',
+      externalId: 'BANKREF-001',
+      referenceNumber: undefined,
+    });
+    expect(result.candidates[1]).toMatchObject({
+      amount: 1200,
+      date: '2024-02-15',
+      description: 'Beispiel GmbH',
+      referenceNumber: 'SAL-2024-02',
+    });
+  });
+
+  test('skips pending entries and rejects entries without a date', () => {
+    const result = parseStatement('camt053', fixture('statement-camt053.xml'));
+
+    expect(result.warnings).toEqual([
+      { message: 'Statement STMT-0042, entry 3: skipped because its status is PDNG, not booked.' },
+    ]);
+    expect(result.errors).toEqual([{ message: 'Statement STMT-0042, entry 4: missing booking and value date.' }]);
+  });
+
+  test('rejects other ISO 20022 messages and broken XML', () => {
+    const notification =
+      '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.02"><BkToCstmrDbtCdtNtfctn/></Document>';
+    expect(() => parseStatement('camt053', notification)).toThrow(/found BkToCstmrDbtCdtNtfctn/);
+    expect(() => parseStatement('camt053', '<Document><BkToCstmrStmt>')).toThrow(StatementParseError);
+  });
+});
+
+describe('MT940', () => {
+  test('parses statement lines with structured and free-text :86:', () => {
+    const result = parseStatement('mt940', fixture('statement.sta'));
+
+    expect(result.account).toEqual({ identifier: '37040044/0532013000', currency: 'EUR' });
+    expect(result.candidates.map((c) => [c.date, c.amount, c.description])).toEqual([
+      ['2024-02-01', -45.9, 'Stadtwerke Berlin'],
+      ['2024-02-15', 1200, 'Salary February Beispiel GmbH'],
+      ['2024-03-01', -12.5, 'Kontofuehrung'],
+    ]);
+    expect(result.candidates[0]).toMatchObject({
+      notes: 'Abschlag FebruarKunde 7781',
+      referenceNumber: undefined,
+      externalId: 'BANKREF-001',
+    });
+    expect(result.candidates[1].referenceNumber).toBe('SAL-2024-02');
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('warns when the balances do not add up and flags unreadable lines', () => {
+    const content = fixture('statement.sta')
+      .replace(':62F:C240229EUR2141,60', ':62F:C240229EUR2000,00')
+      .replace(':61:2402150215C1200,00NTRFSAL-2024-02//BANKREF-002', ':61:24021X');
+
+    const result = parseStatement('mt940', content);
+
+    expect(result.errors).toEqual([{ line: 8, message: 'Statement STARTUMS: unreadable :61: statement line.' }]);
+    expect(result.warnings[0].message).toMatch(/does not match the closing balance \(2000\.00\)/);
+  });
+
+  test('rejects files without statement headers', () => {
+    expect(() => parseStatement('mt940', ':61:2402010201D45,90NDDTNONREF\n')).toThrow(StatementParseError);
+  });
+});
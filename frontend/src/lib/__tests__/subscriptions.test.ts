@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { getLatestPriceChange, matchesSubscriptionFilter } from '../subscriptions/subscriptions';
+import type { SubscriptionDto } from '@/types/subscriptions';
+
+const subscription = (overrides: Partial<SubscriptionDto> = {}): SubscriptionDto => ({
+  patternId: 1,
+  merchantName: 'Netflix',
+  interval: 'Monthly',
+  intervalDays: 30,
+  averageAmount: 18,
+  currentAmount: 20,
+  monthlyCost: 18.26,
+  annualizedAmount: 219,
+  status: 'Active',
+  cancellationStatus: 'None',
+  confidenceLevel: 'High',
+  occurrenceCount: 6,
+  firstChargedAt: '2026-04-01T00:00:00Z',
+  lastChargedAt: '2026-10-01T00:00:00Z',
+  priceChanges: [],
+  ...overrides,
+});
+
+describe('matchesSubscriptionFilter', () => {
+  test('keeps subscriptions that stopped charging out of the active list', () => {
+    const running = subscription();
+    const stopped = subscription({ status: 'Cancelled' });
+    const intended = subscription({ cancellationStatus: 'CancelIntended' });
+    const cancelled = subscription({ status: 'Cancelled', cancellationStatus: 'Cancelled' });
+
+    expect([running, stopped, intended, cancelled].filter((s) => matchesSubscriptionFilter(s, 'active'))).toEqual([running]);
+    expect(matchesSubscriptionFilter(intended, 'cancelIntended')).toBe(true);
+    expect(matchesSubscriptionFilter(cancelled, 'cancelled')).toBe(true);
+    expect(matchesSubscriptionFilter(stopped, 'all')).toBe(true);
+  });
+});
+
+describe('getLatestPriceChange', () => {
+  test('returns the last change with its percentage', () => {
+    const change = getLatestPriceChange(
+      subscription({
+        priceChanges: [
+          { date: '2026-05-01T00:00:00Z', previousAmount: 15, newAmount: 16 },
+          { date: '2026-09-01T00:00:00Z', previousAmount: 16, newAmount: 20 },
+        ],
+      })
+    );
+
+    expect(change?.date).toBe('2026-09-01T00:00:00Z');
+    expect(change?.percent).toBeCloseTo(25);
+    expect(getLatestPriceChange(subscription())).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'vitest';
+import {
+  dailySyncReliability,
+  failedTransactionCount,
+  findCoverageGaps,
+  parseSyncLogRange,
+  summarizeSyncReliability,
+} from '../bank-connections/sync-diagnostics';
+import type { BankSyncLog } from '@/types/bank-connections';
+
+let nextId = 1;
+
+function syncLog(overrides: Partial<BankSyncLog> & { range?: [string, string] }): BankSyncLog {
+  const { range, ...rest } = overrides;
+  return {
+    id: nextId++,
+    syncType: 'Scheduled',
+    status: 'Completed',
+    startedAt: '2026-10-10T02:00:00Z',
+    completedAt: '2026-10-10T02:00:04Z',
+    transactionsProcessed: 0,
+    transactionsImported: 0,
+    transactionsSkipped: 0,
+    details: range ? JSON.stringify({ from: range[0], to: range[1], requestedRange: false }) : undefined,
+    ...rest,
+  };
+}
+
+const today = new Date('2026-10-12T09:00:00Z');
+
+describe('sync log details', () => {
+  test('reads the recorded range and derives failed counts', () => {
+    expect(parseSyncLogRange(syncLog({ range: ['2026-10-01', '2026-10-05'] }))).toEqual({
+      from: '2026-10-01',
+      to: '2026-10-05',
+    });
+    expect(parseSyncLogRange(syncLog({ details: 'not json' }))).toBeNull();
+    expect(parseSyncLogRange(syncLog({}))).toBeNull();
+    expect(
+      failedTransactionCount(syncLog({ transactionsProcessed: 10, transactionsImported: 6, transactionsSkipped: 3 }))
+    ).toBe(1);
+  });
+});
+
+describe('reliability', () => {
+  const logs = [
+    syncLog({ startedAt: '2026-10-12T02:00:00Z', completedAt: '2026-10-12T02:00:02Z' }),
+    syncLog({ startedAt: '2026-10-11T02:00:00Z', completedAt: '2026-10-11T02:00:06Z', status: 'Failed' }),
+    syncLog({ startedAt: '2026-10-11T08:00:00Z', completedAt: '2026-10-11T08:00:04Z', status: 'PartialSuccess' }),
+    syncLog({ startedAt: '2026-10-12T08:59:00Z', completedAt: undefined, status: 'InProgress' }),
+  ];
+
+  test('summarizes finished runs', () => {
+    expect(summarizeSyncReliability(logs)).toMatchObject({
+      total: 4,
+      succeeded: 1,
+      partial: 1,
+      failed: 1,
+      inProgress: 1,
+      successRate: 2 / 3,
+      averageDurationMs: 4000,
+      lastSuccessAt: '2026-10-12T02:00:00Z',
+      lastFailureAt: '2026-10-11T02:00:00Z',
+    });
+    expect(summarizeSyncReliability([]).successRate).toBeNull();
+  });
+
+  test('buckets runs by day, oldest first', () => {
+    expect(dailySyncReliability(logs, 3, today)).toEqual([
+      { date: '2026-10-10', succeeded: 0, partial: 0, failed: 0 },
+      { date: '2026-10-11', succeeded: 0, partial: 1, failed: 1 },
+      { date: '2026-10-12', succeeded: 1, partial: 0, failed: 0 },
+    ]);
+  });
+});
+
+describe('findCoverageGaps', () => {
+  test('is unknown until a run records its range', () => {
+    expect(findCoverageGaps([syncLog({})], today)).toBeNull();
+  });
+
+  test('finds days only failed runs fetched, through today', () => {
+    const gaps = findCoverageGaps(
+      [
+        syncLog({ range: ['2026-10-01', '2026-10-05'] }),
+        syncLog({ range: ['2026-10-04', '2026-10-07'], status: 'Failed' }),
+        syncLog({ range: ['2026-10-03', '2026-10-06'] }),
+        syncLog({ range: ['2026-10-09', '2026-10-12'] }),
+      ],
+      today
+    );
+
+    expect(gaps).toEqual([
+      { from: '2026-10-06', to: '2026-10-09' },
+      { from: '2026-10-12', to: '2026-10-13' },
+    ]);
+  });
+
+  test('reports nothing when successful runs cover every day', () => {
+    expect(findCoverageGaps([syncLog({ range: ['2026-10-01', '2026-10-13'] })], today)).toEqual([]);
+  });
+});
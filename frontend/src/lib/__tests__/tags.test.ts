@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { filterTagSuggestions, joinTags, parseTags, tagColor, validateTagName } from '../tags/tags';
+import type { TagDto } from '@/types/tags';
+
+const tag = (name: string, transactionCount = 0, color?: string): TagDto => ({
+  name,
+  color,
+  transactionCount,
+  ruleCount: 0,
+});
+
+describe('parseTags', () => {
+  test('trims, drops blanks and keeps the first spelling of duplicates', () => {
+    expect(parseTags(' Trip, ,work,TRIP ')).toEqual(['Trip', 'work']);
+    expect(parseTags(undefined)).toEqual([]);
+  });
+
+  test('joins back to the stored form', () => {
+    expect(joinTags(['Trip ', 'trip', 'Work'])).toBe('Trip,Work');
+    expect(joinTags([' '])).toBeUndefined();
+  });
+});
+
+describe('validateTagName', () => {
+  test('rejects blanks, commas and long names', () => {
+    expect(validateTagName('  ')).toBe('required');
+    expect(validateTagName('a,b')).toBe('comma');
+    expect(validateTagName('x'.repeat(51))).toBe('tooLong');
+    expect(validateTagName('Holiday 2026')).toBeNull();
+  });
+});
+
+describe('tagColor', () => {
+  test('prefers the saved color and is stable otherwise', () => {
+    expect(tagColor('trip', [tag('Trip', 0, '#123456')])).toBe('#123456');
+    expect(tagColor('Work')).toBe(tagColor('work'));
+  });
+});
+
+describe('filterTagSuggestions', () => {
+  test('puts prefix matches first, then the most used, skipping selected tags', () => {
+    const tags = [tag('Business trip', 9), tag('Trip', 2), tag('Trips', 5), tag('Work', 20)];
+    expect(filterTagSuggestions(tags, 'tri', ['trip']).map((t) => t.name)).toEqual(['Trips', 'Business trip']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { ImportAnalysisService } from '../import-analysis-service';
+import { TransactionMatchIndex } from '../import/transaction-match-index';
+import { ImportCandidate, Transaction, TransactionSource } from '@/types/import-review';
+
+// Small deterministic generator so failures are reproducible
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const descriptions = ['Coffee Shop', 'Coffee Shop Ltd', 'Grocery Store', 'Rent', 'Transfer to savings', 'Salary'];
+const amounts = [4.5, 4.6, 100, 104, 250.5, -250.5, -1200, 1200, 3000];
+
+function day(offset: number, hour = 0): string {
+  return new Date(Date.UTC(2024, 0, 1 + offset, hour)).toISOString();
+}
+
+function buildData(seed: number) {
+  const next = random(seed);
+  const pick = <T,>(values: T[]) => values[Math.floor(next() * values.length)];
+
+  const existing: Transaction[] = Array.from({ length: 300 }, (_, i) => ({
+    id: i + 1,
+    amount: pick(amounts),
+    transactionDate: next() < 0.5 ? day(Math.floor(next() * 60)).slice(0, 10) : day(Math.floor(next() * 60), 23),
+    description: pick(descriptions),
+    referenceNumber: next() < 0.1 ? `REF${Math.floor(next() * 20)}` : undefined,
+    externalId: next() < 0.1 ? `EXT${Math.floor(next() * 20)}` : undefined,
+    transferId: next() < 0.2 ? 1 : undefined,
+    source: pick([TransactionSource.Manual, TransactionSource.CsvImport, TransactionSource.OfxImport]),
+    status: 2,
+    createdAt: day(0),
+  } as Transaction));
+
+  const candidates: ImportCandidate[] = Array.from({ length: 120 }, (_, i) => ({
+    amount: pick(amounts) * (next() < 0.2 ? 1.03 : 1),
+    date: next() < 0.05 ? 'not a date' : day(Math.floor(next() * 60)).slice(0, 10),
+    description: pick(descriptions),
+    referenceNumber: next() < 0.1 ? `REF${Math.floor(next() * 20)}` : undefined,
+    externalId: next() < 0.1 ? `EXT${Math.floor(next() * 20)}` : undefined,
+    source: TransactionSource.Import,
+    sourceRowIndex: i,
+    confidence: 100,
+  }));
+
+  return { existing, candidates };
+}
+
+describe('TransactionMatchIndex', () => {
+  test.each([
+    ['moderate', 3],
+    ['relaxed', 0],
+    ['strict', 7],
+  ] as const)('never drops a conflicting pair (%s, %i day tolerance)', (conflictDetectionLevel, dateToleranceDays) => {
+    const { existing, candidates } = buildData(dateToleranceDays + 1);
+    const options = ImportAnalysisService['withDefaults']({ dateToleranceDays, amountTolerance: 0.01, conflictDetectionLevel });
+    const index = new TransactionMatchIndex(existing, {
+      maxDateToleranceDays: Math.max(dateToleranceDays, 3),
+      amountTolerance: 0.01,
+    });
+    const analyzePair = ImportAnalysisService['analyzeTransactionPair'].bind(ImportAnalysisService);
+
+    let conflicts = 0;
+    candidates.forEach((candidate) => {
+      const indexed = index.candidatesFor(candidate);
+      existing.forEach((transaction) => {
+        if (analyzePair(candidate, transaction, options)) {
+          conflicts++;
+          expect(indexed).toContain(transaction);
+        }
+      });
+      expect(indexed).toEqual(existing.filter((transaction) => indexed.includes(transaction)));
+    });
+
+    expect(conflicts).toBeGreaterThan(0);
+  });
+});
+
+describe('ImportAnalysisService.analyzeImportCandidates', () => {
+  test('reports progress per chunk and stops when aborted', async () => {
+    const { existing, candidates } = buildData(42);
+    const many = Array.from({ length: 3 }, () => candidates).flat();
+    const progress: number[] = [];
+
+    const items = await ImportAnalysisService.analyzeImportCandidates(many, existing, {}, {
+      onProgress: ({ processed, total }) => progress.push(processed / total),
+    });
+    expect(items).toHaveLength(360);
+    expect(items[359].id).toBe('import-item-359');
+    expect(progress).toEqual([250 / 360, 1]);
+
+    const controller = new AbortController();
+    const aborted = ImportAnalysisService.analyzeImportCandidates(many, existing, {}, {
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import {
+  OutboxRecord,
+  OutboxStorage,
+  QueuedOfflineError,
+  TransactionOutbox,
+  transactionOutbox,
+} from '../offline/transaction-outbox';
+import { apiClient } from '../api-client';
+
+// jsdom has no IndexedDB, so the shared outbox used by ApiClient runs on memory storage
+vi.mock('../offline/transaction-outbox', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../offline/transaction-outbox')>();
+  const records = new Map<string, OutboxRecord>();
+  let key: CryptoKey | undefined;
+  return {
+    ...actual,
+    transactionOutbox: new actual.TransactionOutbox({
+      getAll: async () => Array.from(records.values()),
+      put: async (record) => {
+        records.set(record.id, record);
+      },
+      delete: async (id) => {
+        records.delete(id);
+      },
+      clear: async () => {
+        records.clear();
+        key = undefined;
+      },
+      getKey: async () => key,
+      putKey: async (next) => {
+        key = next;
+      },
+    }),
+  };
+});
+
+global.fetch = vi.fn();
+
+function createMemoryStorage() {
+  const records = new Map<string, OutboxRecord>();
+  let key: CryptoKey | undefined;
+  const storage: OutboxStorage = {
+    getAll: async () => Array.from(records.values()),
+    put: async (record) => {
+      records.set(record.id, record);
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+    clear: async () => {
+      records.clear();
+      key = undefined;
+    },
+    getKey: async () => key,
+    putKey: async (next) => {
+      key = next;
+    },
+  };
+  return { storage, records };
+}
+
+const createRequest = {
+  amount: -42.5,
+  transactionDate: '2024-03-01T00:00:00.000Z',
+  description: 'Corner dairy',
+  accountId: 7,
+  status: 2,
+};
+
+describe('TransactionOutbox', () => {
+  let memory: ReturnType<typeof createMemoryStorage>;
+  let outbox: TransactionOutbox;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+    outbox = new TransactionOutbox(memory.storage);
+  });
+
+  test('round-trips queued operations without storing them in clear', async () => {
+    const entry = await outbox.enqueue({ kind: 'create', request: createRequest });
+
+    const stored = memory.records.get(entry.id)!;
+    expect(JSON.stringify(stored)).not.toContain('Corner dairy');
+    expect(new TextDecoder().decode(stored.ciphertext)).not.toContain('Corner dairy');
+
+    const [listed] = await outbox.list();
+    expect(listed).toEqual(entry);
+  });
+
+  test('lists entries oldest first', async () => {
+    const first = await outbox.enqueue({ kind: 'delete', transactionId: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await outbox.enqueue({ kind: 'delete', transactionId: 2 });
+
+    const entries = await outbox.list();
+    expect(entries.map((entry) => entry.id)).toEqual([first.id, second.id]);
+  });
+
+  test('marks conflicts and puts them back in line on retry', async () => {
+    const entry = await outbox.enqueue({ kind: 'delete', transactionId: 3 });
+
+    await outbox.markConflict(entry, 'Transaction is reconciled');
+    let [listed] = await outbox.list();
+    expect(listed.status).toBe('conflict');
+    expect(listed.error).toBe('Transaction is reconciled');
+
+    await outbox.retry(listed);
+    [listed] = await outbox.list();
+    expect(listed.status).toBe('pending');
+    expect(listed.error).toBeUndefined();
+  });
+
+  test('notifies subscribers and drops everything on clear', async () => {
+    const seen: number[] = [];
+    outbox.subscribe((entries) => seen.push(entries.length));
+
+    await outbox.enqueue({ kind: 'delete', transactionId: 4 });
+    await outbox.clear();
+
+    expect(seen).toEqual([1, 0]);
+    expect(memory.records.size).toBe(0);
+    expect(await memory.storage.getKey()).toBeUndefined();
+  });
+});
+
+describe('ApiClient offline queue', () => {
+  const jsonResponse = (status: number, body: unknown) => ({
+    ok: status < 400,
+    status,
+    json: vi.fn().mockResolvedValue(body),
+    text: vi.fn().mockResolvedValue(JSON.stringify(body)),
+  });
+
+  beforeEach(async () => {
+    vi.mocked(fetch).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await transactionOutbox.clear();
+  });
+
+  test('queues a write that fails at the network level', async () => {
+    vi.mocked(fetch).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(apiClient.createTransaction(createRequest)).rejects.toBeInstanceOf(QueuedOfflineError);
+
+    const [entry] = await transactionOutbox.list();
+    expect(entry.operation).toEqual({ kind: 'create', request: createRequest });
+    const [, init] = vi.mocked(fetch).mock.calls[0];
+    expect((init?.headers as Record<string, string>)['Idempotency-Key']).toBe(entry.id);
+  });
+
+  test('replays a queued create with its entry id as the idempotency key', async () => {
+    const entry = await transactionOutbox.enqueue({ kind: 'create', request: createRequest });
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(201, { id: 1 }) as unknown as Response);
+
+    await apiClient.replayTransactionOutbox();
+
+    const [, init] = vi.mocked(fetch).mock.calls[0];
+    expect(init?.headers).toMatchObject({ 'Content-Type': 'application/json', 'Idempotency-Key': entry.id });
+    expect(await transactionOutbox.list()).toEqual([]);
+  });
+
+  test('does not queue writes the server rejected', async () => {
+    vi.mocked(fetch).mockResolvedValue(jsonResponse(400, { message: 'Invalid amount' }) as unknown as Response);
+
+    await expect(apiClient.deleteTransaction(9)).rejects.toThrow('Invalid amount');
+    expect(await transactionOutbox.list()).toEqual([]);
+  });
+
+  test('replays in order, keeps rejected writes as conflicts and stops when the network drops', async () => {
+    await transactionOutbox.enqueue({ kind: 'delete', transactionId: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await transactionOutbox.enqueue({ kind: 'delete', transactionId: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await transactionOutbox.enqueue({ kind: 'delete', transactionId: 3 });
+
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(204, {}) as unknown as Response)
+      .mockResolvedValueOnce(jsonResponse(409, { message: 'Transaction is reconciled' }) as unknown as Response)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const result = await apiClient.replayTransactionOutbox();
+
+    expect(result).toEqual({ synced: 1, conflicts: 1, remaining: 1 });
+    const entries = await transactionOutbox.list();
+    expect(entries.map((entry) => [entry.operation, entry.status])).toEqual([
+      [{ kind: 'delete', transactionId: 2 }, 'conflict'],
+      [{ kind: 'delete', transactionId: 3 }, 'pending'],
+    ]);
+    expect(entries[0].error).toBe('Transaction is reconciled');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildSplitRequests,
+  newSplitLine,
+  splitLinesFromDto,
+  splitRemaining,
+  SplitLineDraft,
+  validateSplitLines,
+} from '../transactions/splits';
+
+const line = (amount: string, categoryId = '1', description = ''): SplitLineDraft => ({
+  ...newSplitLine(),
+  amount,
+  categoryId,
+  description,
+});
+
+describe('splitRemaining', () => {
+  test('works in cents so float sums do not leave a stray remainder', () => {
+    expect(splitRemaining(-0.3, [line('0.1'), line('0.2')])).toBe(0);
+    expect(splitRemaining(100, [line('60'), line('')])).toBe(40);
+    expect(splitRemaining(100, [line('60'), line('50')])).toBe(-10);
+  });
+});
+
+describe('validateSplitLines', () => {
+  test('reports the first problem in the order the form shows them', () => {
+    expect(validateSplitLines(100, [line('100')])).toBe('tooFewLines');
+    expect(validateSplitLines(100, [line('50'), line('50', '')])).toBe('missingCategory');
+    expect(validateSplitLines(100, [line('100'), line('0')])).toBe('invalidAmount');
+    expect(validateSplitLines(100, [line('50'), line('40')])).toBe('sumMismatch');
+    expect(validateSplitLines(100, [line('50'), line('50', '2')])).toBeNull();
+  });
+});
+
+describe('split requests', () => {
+  test('applies the transaction sign and drops blank descriptions', () => {
+    expect(buildSplitRequests([line('70', '3', ' Food '), line('30', '4')], 'expense')).toEqual([
+      { amount: -70, categoryId: 3, description: 'Food' },
+      { amount: -30, categoryId: 4, description: undefined },
+    ]);
+  });
+
+  test('loads saved lines back as unsigned drafts', () => {
+    const drafts = splitLinesFromDto([
+      { id: 1, amount: -12.5, categoryId: 3, categoryName: 'Food', description: 'Lunch' },
+    ]);
+    expect(drafts).toMatchObject([{ amount: '12.50', categoryId: '3', description: 'Lunch' }]);
+    expect(splitLinesFromDto(undefined)).toEqual([]);
+  });
+});
@@ -9,15 +9,18 @@ import {
 } from '@heroicons/react/24/outline';
 import { BackendAccountType, FRONTEND_TO_BACKEND_TYPE } from './utils';
 
-/** Gradient + icon config per account type (backend 1-based enum values). */
-export const ACCOUNT_TYPE_STYLES: Record<number, { gradient: string; icon: typeof BuildingOffice2Icon }> = {
-  [BackendAccountType.Checking]: { gradient: 'from-blue-500 to-blue-600', icon: BuildingLibraryIcon },
-  [BackendAccountType.Savings]: { gradient: 'from-emerald-500 to-emerald-600', icon: BanknotesIcon },
-  [BackendAccountType.CreditCard]: { gradient: 'from-rose-500 to-rose-600', icon: CreditCardIcon },
-  [BackendAccountType.Investment]: { gradient: 'from-primary-500 to-primary-400', icon: ChartBarIcon },
-  [BackendAccountType.Loan]: { gradient: 'from-amber-500 to-amber-600', icon: CurrencyDollarIcon },
-  [BackendAccountType.Cash]: { gradient: 'from-ink-500 to-ink-600', icon: WalletIcon },
-  [BackendAccountType.Other]: { gradient: 'from-ink-400 to-ink-500', icon: BuildingOffice2Icon },
+/**
+ * Gradient + icon config per account type (backend 1-based enum values). `chartColor` is the
+ * gradient's first stop as a hex color, for charts that can't use Tailwind classes.
+ */
+export const ACCOUNT_TYPE_STYLES: Record<number, { gradient: string; chartColor: string; icon: typeof BuildingOffice2Icon }> = {
+  [BackendAccountType.Checking]: { gradient: 'from-blue-500 to-blue-600', chartColor: '#3b82f6', icon: BuildingLibraryIcon },
+  [BackendAccountType.Savings]: { gradient: 'from-emerald-500 to-emerald-600', chartColor: '#10b981', icon: BanknotesIcon },
+  [BackendAccountType.CreditCard]: { gradient: 'from-rose-500 to-rose-600', chartColor: '#f43f5e', icon: CreditCardIcon },
+  [BackendAccountType.Investment]: { gradient: 'from-primary-500 to-primary-400', chartColor: '#2f8170', icon: ChartBarIcon },
+  [BackendAccountType.Loan]: { gradient: 'from-amber-500 to-amber-600', chartColor: '#f59e0b', icon: CurrencyDollarIcon },
+  [BackendAccountType.Cash]: { gradient: 'from-ink-500 to-ink-600', chartColor: '#78736d', icon: WalletIcon },
+  [BackendAccountType.Other]: { gradient: 'from-ink-400 to-ink-500', chartColor: '#a8a39d', icon: BuildingOffice2Icon },
 };
 
 export function getAccountTypeStyle(type: number) {
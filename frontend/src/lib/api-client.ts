@@ -13,12 +13,15 @@ import {
   HasAkahuCredentialsResponse,
   SaveAkahuCredentialsRequest,
   SaveAkahuCredentialsResult,
+  SyncRangeRequest,
 } from '@/types/bank-connections';
 import {
   BudgetSummary,
   BudgetDetail,
   BudgetSuggestion,
   BudgetRolloverResult,
+  BudgetRolloverOverride,
+  BudgetPeriodClose,
   CreateBudgetRequest,
   CreateBudgetCategoryRequest,
   UpdateBudgetRequest,
@@ -55,6 +58,112 @@ import type {
   NotificationPreferenceDto,
   UpdateNotificationPreferenceRequest,
 } from '@/types/notifications';
+import type {
+  AccountDetailsDto,
+  AccountDto,
+  AccountWithBalanceDto,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+} from '@/types/accounts';
+import type {
+  CategoryDto,
+  CategoryMigrationSummary,
+  CategoryStatisticsDto,
+  CategoryWithTransactionCountDto,
+  CreateCategoryRequest,
+  MergeCategoriesRequest,
+  SplitCategoryRequest,
+  UpdateCategoryRequest,
+} from '@/types/categories';
+import type {
+  CreateTransactionRequest,
+  TransactionDto,
+  TransactionListResponse,
+  TransactionQueryParams,
+  UpdateTransactionRequest,
+} from '@/types/transactions';
+import type { ReconciliationDto, ReconciliationListResponse } from '@/types/reconciliation';
+import type { MonthlySummaryResponse } from '@/types/api-responses';
+import type { UserDto } from '@/types/auth';
+import type { DuplicateTransactionsResponse } from '@/types/duplicates';
+import type { PotentialTransfersResponse } from '@/types/transfers';
+import type {
+  BulkUpdateTagsResponse,
+  RenameTagRequest,
+  SaveTagRequest,
+  TagChangeResult,
+  TagDto,
+  TagSpendingReport,
+} from '@/types/tags';
+import type { TransactionAttachmentDto } from '@/types/attachments';
+import type {
+  RecurringCalendarDto,
+  RecurringScheduleDto,
+  SaveRecurringScheduleRequest,
+} from '@/types/recurring-schedules';
+import type { SubscriptionDto, SubscriptionsResponse, UpdateSubscriptionRequest } from '@/types/subscriptions';
+import type {
+  ExchangeRateDto,
+  ExchangeRateImportResult,
+  ExchangeRatesResponse,
+  SaveExchangeRateRequest,
+} from '@/types/exchange-rates';
+import type { AccountValuationDto, NetWorthHistoryResponse, SaveAccountValuationRequest } from '@/types/net-worth';
+import type {
+  InvestmentTradeDto,
+  PortfolioResponse,
+  SaveInvestmentTradeRequest,
+  SaveSecurityPriceRequest,
+  SecurityPriceDto,
+  SecurityPriceImportResult,
+} from '@/types/investments';
+import type { DebtDto, DebtPayoffPlanDto, DebtTermsDto, DebtsResponse, SaveDebtTermsRequest } from '@/types/debts';
+import {
+  Schema,
+  accountDetailsSchema,
+  accountSchema,
+  accountValuationSchema,
+  accountWithBalanceSchema,
+  array,
+  categorySchema,
+  categoryMigrationSummarySchema,
+  categoryStatisticsSchema,
+  categoryWithTransactionCountSchema,
+  debtPayoffPlanSchema,
+  debtSchema,
+  debtTermsSchema,
+  debtsResponseSchema,
+  exchangeRateImportResultSchema,
+  exchangeRateSchema,
+  exchangeRatesResponseSchema,
+  investmentTradeSchema,
+  monthlySummarySchema,
+  netWorthHistorySchema,
+  portfolioSchema,
+  reconciliationListSchema,
+  reconciliationSchema,
+  recurringCalendarSchema,
+  recurringScheduleSchema,
+  securityPriceImportResultSchema,
+  securityPriceSchema,
+  subscriptionSchema,
+  subscriptionsResponseSchema,
+  tagChangeResultSchema,
+  tagSchema,
+  tagSpendingReportSchema,
+  transactionAttachmentSchema,
+  transactionListSchema,
+  transactionSchema,
+  userSchema,
+} from '@/lib/api-schemas';
+import {
+  OutboxEntry,
+  OutboxOperation,
+  OutboxReplayResult,
+  QueuedOfflineError,
+  transactionOutbox,
+} from '@/lib/offline/transaction-outbox';
+import { SseParser, ServerSentEvent } from '@/lib/realtime/sse-parser';
 
 class ApiClient {
   private baseURL: string;
@@ -64,6 +173,8 @@ class ApiClient {
   private refreshPromise: Promise<boolean> | null = null;
   // Called when refresh fails and user must re-authenticate
   private onLogout?: () => void;
+  // Offline outbox replay state — prevents overlapping replays
+  private outboxReplayPromise: Promise<OutboxReplayResult> | null = null;
 
   constructor() {
     this.baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5126';
@@ -230,6 +341,26 @@ class ApiClient {
     }
   }
 
+  /**
+   * Same as `request`, but checks the response against `schema` outside of
+   * production and logs any mismatch. The response is returned untouched
+   * either way, so a drifting DTO never breaks a page that still works.
+   */
+  private async requestWithSchema<T>(
+    endpoint: string,
+    schema: Schema<T>,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const data = await this.request<T>(endpoint, options);
+    if (process.env.NODE_ENV !== 'production') {
+      const issues = schema.validate(data, 'response');
+      if (issues.length > 0) {
+        console.warn(`API response for ${endpoint} does not match its schema:`, issues);
+      }
+    }
+    return data;
+  }
+
   // Auth methods
   async login(credentials: LoginRequest): Promise<AuthenticationResponse> {
     return this.request<AuthenticationResponse>('/api/auth/login', {
@@ -253,7 +384,7 @@ class ApiClient {
     return this.request<{ version: string }>('/api/version');
   }
 
-  async getCurrentUser(): Promise<unknown> {
+  async getCurrentUser(): Promise<UserDto> {
     return this.request('/api/auth/me');
   }
 
@@ -304,6 +435,14 @@ class ApiClient {
     });
   }
 
+  // The base currency shares the locale endpoint with the other regional preferences
+  async updateBaseCurrency(currency: string): Promise<UserDto> {
+    return this.requestWithSchema('/api/auth/locale', userSchema, {
+      method: 'PATCH',
+      body: JSON.stringify({ currency }),
+    });
+  }
+
   // Exchange a one-time OAuth code for an access token
   async exchangeCode(code: string): Promise<{ token: string; expiresAt: string }> {
     return this.post('/api/auth/exchange-code', { code });
@@ -334,24 +473,7 @@ class ApiClient {
   }
 
   // Transaction methods
-  async getTransactions(params?: {
-    page?: number;
-    pageSize?: number;
-    searchTerm?: string;
-    includeTransfers?: boolean;
-    onlyTransfers?: boolean;
-    transferId?: string;
-    categoryId?: number;
-    accountId?: number;
-    isReviewed?: boolean;
-    isReconciled?: boolean;
-    needsCategorization?: boolean;
-    startDate?: string;
-    endDate?: string;
-    transactionType?: string;
-    sortBy?: string;
-    sortDirection?: string;
-  }, requestOptions: RequestInit = {}): Promise<unknown> {
+  async getTransactions(params?: TransactionQueryParams, requestOptions: RequestInit = {}): Promise<TransactionListResponse> {
     const queryParams = new URLSearchParams();
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
@@ -367,59 +489,141 @@ class ApiClient {
     if (params?.startDate) queryParams.append('startDate', params.startDate);
     if (params?.endDate) queryParams.append('endDate', params.endDate);
     if (params?.transactionType) queryParams.append('transactionType', params.transactionType);
+    if (params?.tag) queryParams.append('tag', params.tag);
+    if (params?.hasAttachments !== undefined) queryParams.append('hasAttachments', params.hasAttachments.toString());
     if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
     if (params?.sortDirection) queryParams.append('sortDirection', params.sortDirection);
 
     const queryString = queryParams.toString();
     const endpoint = `/api/transactions${queryString ? `?${queryString}` : ''}`;
     
-    return this.request(endpoint, requestOptions);
+    return this.requestWithSchema(endpoint, transactionListSchema, requestOptions);
   }
 
-  async getTransaction(id: number): Promise<unknown> {
-    return this.request(`/api/transactions/${id}`);
+  async getTransaction(id: number): Promise<TransactionDto> {
+    return this.requestWithSchema(`/api/transactions/${id}`, transactionSchema);
   }
 
-  async createTransaction(transaction: {
-    amount: number;
-    transactionDate: string;
-    description: string;
-    userDescription?: string;
-    accountId: number; // Required field
-    categoryId?: number;
-    notes?: string;
-    location?: string;
-    tags?: string[];
-    status: number; // Enum value: 1=Pending, 2=Cleared, 3=Reconciled, 4=Cancelled
-  }): Promise<unknown> {
-    return this.request('/api/transactions', {
-      method: 'POST',
-      body: JSON.stringify(transaction),
-    });
+  async createTransaction(transaction: CreateTransactionRequest): Promise<TransactionDto> {
+    return this.queueWhenOffline({ kind: 'create', request: transaction }, (idempotencyKey) =>
+      this.requestWithSchema('/api/transactions', transactionSchema, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify(transaction),
+      })
+    );
   }
 
-  async updateTransaction(id: number, transaction: {
-    id: number;
-    amount: number;
-    transactionDate: string;
-    description: string;
-    userDescription?: string;
-    categoryId?: number;
-    notes?: string;
-    location?: string;
-    tags?: string[];
-    status: number; // Enum value: 1=Pending, 2=Cleared, 3=Reconciled, 4=Cancelled
-  }): Promise<unknown> {
-    return this.request(`/api/transactions/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(transaction),
-    });
+  async updateTransaction(id: number, transaction: UpdateTransactionRequest): Promise<TransactionDto> {
+    return this.queueWhenOffline({ kind: 'update', transactionId: id, request: transaction }, () =>
+      this.requestWithSchema(`/api/transactions/${id}`, transactionSchema, {
+        method: 'PUT',
+        body: JSON.stringify(transaction),
+      })
+    );
   }
 
   async deleteTransaction(id: number): Promise<void> {
-    return this.request(`/api/transactions/${id}`, {
-      method: 'DELETE',
-    });
+    return this.queueWhenOffline({ kind: 'delete', transactionId: id }, () =>
+      this.request(`/api/transactions/${id}`, {
+        method: 'DELETE',
+      })
+    );
+  }
+
+  /**
+   * Sends a transaction write, or stores it in the offline outbox when the
+   * device is offline or the request never reaches the server. A queued write
+   * surfaces as a `QueuedOfflineError` so callers can tell it apart from a
+   * rejected one. The write's outbox id doubles as its idempotency key, so a
+   * create that reached the server before the connection dropped is not added
+   * twice when the outbox replays it.
+   */
+  private async queueWhenOffline<T>(
+    operation: OutboxOperation,
+    send: (idempotencyKey: string) => Promise<T>
+  ): Promise<T> {
+    const id = crypto.randomUUID();
+    let networkError: unknown = new Error('You are offline.');
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      try {
+        return await send(id);
+      } catch (error) {
+        // fetch() rejects with a TypeError when the request fails at the network level
+        if (!(error instanceof TypeError)) {
+          throw error;
+        }
+        networkError = error;
+      }
+    }
+
+    let entry: OutboxEntry;
+    try {
+      entry = await transactionOutbox.enqueue(operation, id);
+    } catch (storageError) {
+      console.error('Failed to queue transaction write offline:', storageError);
+      throw networkError;
+    }
+    throw new QueuedOfflineError(entry);
+  }
+
+  /**
+   * Replays queued transaction writes in the order they were made. Writes the
+   * server rejects are kept as conflicts for the user to retry or discard; a
+   * network, server or session failure stops the replay so that later writes
+   * are not applied ahead of earlier ones.
+   */
+  async replayTransactionOutbox(): Promise<OutboxReplayResult> {
+    if (!this.outboxReplayPromise) {
+      this.outboxReplayPromise = this.drainTransactionOutbox().finally(() => {
+        this.outboxReplayPromise = null;
+      });
+    }
+    return this.outboxReplayPromise;
+  }
+
+  private async drainTransactionOutbox(): Promise<OutboxReplayResult> {
+    const result: OutboxReplayResult = { synced: 0, conflicts: 0, remaining: 0 };
+    const pending = (await transactionOutbox.list()).filter((entry) => entry.status === 'pending');
+
+    for (const [index, entry] of pending.entries()) {
+      const { operation } = entry;
+      try {
+        if (operation.kind === 'create') {
+          await this.request('/api/transactions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.id },
+            body: JSON.stringify(operation.request),
+          });
+        } else if (operation.kind === 'update') {
+          await this.request(`/api/transactions/${operation.transactionId}`, {
+            method: 'PUT',
+            body: JSON.stringify(operation.request),
+          });
+        } else {
+          await this.request(`/api/transactions/${operation.transactionId}`, { method: 'DELETE' });
+        }
+        await transactionOutbox.remove(entry.id);
+        result.synced++;
+      } catch (error) {
+        const status = (error as Error & { status?: number }).status;
+        // A transaction that is already gone is exactly what a queued delete wanted
+        if (status === 404 && operation.kind === 'delete') {
+          await transactionOutbox.remove(entry.id);
+          result.synced++;
+          continue;
+        }
+        if (status !== undefined && status >= 400 && status < 500 && ![401, 408, 429].includes(status)) {
+          await transactionOutbox.markConflict(entry, (error as Error).message);
+          result.conflicts++;
+          continue;
+        }
+        result.remaining = pending.length - index;
+        break;
+      }
+    }
+
+    return result;
   }
 
   async createAdjustmentTransaction(adjustment: {
@@ -427,15 +631,15 @@ class ApiClient {
     amount: number;
     description?: string;
     notes?: string;
-  }): Promise<unknown> {
+  }): Promise<TransactionDto> {
     return this.request('/api/transactions/adjustment', {
       method: 'POST',
       body: JSON.stringify(adjustment),
     });
   }
 
-  async getRecentTransactions(count = 10): Promise<unknown[]> {
-    return this.request(`/api/transactions/recent?count=${count}`);
+  async getRecentTransactions(count = 10): Promise<TransactionDto[]> {
+    return this.requestWithSchema(`/api/transactions/recent?count=${count}`, array(transactionSchema));
   }
 
   async exportTransactionsCsv(params?: {
@@ -523,6 +727,17 @@ class ApiClient {
     });
   }
 
+  async bulkUpdateTransactionTags(
+    transactionIds: number[],
+    addTags: string[],
+    removeTags: string[] = []
+  ): Promise<BulkUpdateTagsResponse> {
+    return this.request('/api/transactions/bulk-tags', {
+      method: 'POST',
+      body: JSON.stringify({ transactionIds, addTags, removeTags }),
+    });
+  }
+
   async bulkDeleteTransactions(transactionIds: number[], reason?: string): Promise<{
     success: boolean;
     message: string;
@@ -550,7 +765,7 @@ class ApiClient {
     sameAccountOnly?: boolean;
     minConfidence?: number;
     sinceDays?: number;
-  }): Promise<unknown> {
+  }): Promise<DuplicateTransactionsResponse> {
     const searchParams = new URLSearchParams();
 
     if (params?.amountTolerance !== undefined) {
@@ -597,7 +812,7 @@ class ApiClient {
     includeReviewed?: boolean;
     minConfidence?: number;
     includeExistingTransfers?: boolean;
-  }): Promise<unknown> {
+  }): Promise<PotentialTransfersResponse> {
     const searchParams = new URLSearchParams();
     
     if (params?.amountTolerance !== undefined) {
@@ -628,6 +843,8 @@ class ApiClient {
     description?: string;
     notes?: string;
     transactionDate?: string;
+    /** Amount in the missing account's currency, when it differs from the existing transaction's. */
+    missingAmount?: number;
   }): Promise<unknown> {
     return this.request('/api/transactions/transfers/create-missing', {
       method: 'POST',
@@ -653,18 +870,180 @@ class ApiClient {
   }
 
   // Reports methods
-  async getMonthlySummary(year: number, month: number): Promise<unknown> {
-    const url = `/api/reports/monthly-summary?year=${year}&month=${month}`;
-    console.log('Making request to:', url);
-    console.log('Parameters:', { year, month, yearType: typeof year, monthType: typeof month });
-
-    return this.request(url);
+  async getMonthlySummary(year: number, month: number): Promise<MonthlySummaryResponse> {
+    return this.requestWithSchema(`/api/reports/monthly-summary?year=${year}&month=${month}`, monthlySummarySchema);
   }
 
   async getUpcomingBills(daysAhead: number = 7): Promise<UpcomingBillsResponse> {
     return this.request(`/api/reports/upcoming-bills?daysAhead=${daysAhead}`);
   }
 
+  // Recurring schedule methods
+  async getRecurringSchedules(): Promise<RecurringScheduleDto[]> {
+    return this.requestWithSchema('/api/recurring-schedules', array(recurringScheduleSchema));
+  }
+
+  async createRecurringSchedule(request: SaveRecurringScheduleRequest): Promise<RecurringScheduleDto> {
+    return this.requestWithSchema('/api/recurring-schedules', recurringScheduleSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async updateRecurringSchedule(id: number, request: SaveRecurringScheduleRequest): Promise<RecurringScheduleDto> {
+    return this.requestWithSchema(`/api/recurring-schedules/${id}`, recurringScheduleSchema, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteRecurringSchedule(id: number): Promise<void> {
+    return this.request(`/api/recurring-schedules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getRecurringCalendar(startDate: string, endDate: string): Promise<RecurringCalendarDto> {
+    const params = new URLSearchParams({ startDate, endDate });
+    return this.requestWithSchema(`/api/recurring-schedules/calendar?${params.toString()}`, recurringCalendarSchema);
+  }
+
+  async getSubscriptions(): Promise<SubscriptionsResponse> {
+    return this.requestWithSchema('/api/subscriptions', subscriptionsResponseSchema);
+  }
+
+  async updateSubscription(patternId: number, request: UpdateSubscriptionRequest): Promise<SubscriptionDto> {
+    return this.requestWithSchema(`/api/subscriptions/${patternId}`, subscriptionSchema, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Exchange rate methods
+  async getExchangeRates(): Promise<ExchangeRatesResponse> {
+    return this.requestWithSchema('/api/exchange-rates', exchangeRatesResponseSchema);
+  }
+
+  async saveExchangeRate(request: SaveExchangeRateRequest): Promise<ExchangeRateDto> {
+    return this.requestWithSchema('/api/exchange-rates', exchangeRateSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteExchangeRate(id: number): Promise<void> {
+    return this.request(`/api/exchange-rates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async importExchangeRates(file: File): Promise<ExchangeRateImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return this.requestWithSchema('/api/exchange-rates/import', exchangeRateImportResultSchema, {
+      method: 'POST',
+      body: formData,
+      headers: {}, // Remove Content-Type to let browser set it for FormData
+    });
+  }
+
+  async getNetWorthHistory(months = 12): Promise<NetWorthHistoryResponse> {
+    return this.requestWithSchema(`/api/net-worth/history?months=${months}`, netWorthHistorySchema);
+  }
+
+  async getAccountValuations(accountId?: number): Promise<AccountValuationDto[]> {
+    const query = accountId ? `?accountId=${accountId}` : '';
+    return this.requestWithSchema(`/api/net-worth/valuations${query}`, array(accountValuationSchema));
+  }
+
+  async saveAccountValuation(request: SaveAccountValuationRequest): Promise<AccountValuationDto> {
+    return this.requestWithSchema('/api/net-worth/valuations', accountValuationSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteAccountValuation(id: number): Promise<void> {
+    return this.request(`/api/net-worth/valuations/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPortfolio(accountId: number): Promise<PortfolioResponse> {
+    return this.requestWithSchema(`/api/investments/accounts/${accountId}/portfolio`, portfolioSchema);
+  }
+
+  async addInvestmentTrade(request: SaveInvestmentTradeRequest): Promise<InvestmentTradeDto> {
+    return this.requestWithSchema('/api/investments/trades', investmentTradeSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteInvestmentTrade(id: number): Promise<void> {
+    return this.request(`/api/investments/trades/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSecurityPrices(symbol?: string): Promise<SecurityPriceDto[]> {
+    const query = symbol ? `?symbol=${encodeURIComponent(symbol)}` : '';
+    return this.requestWithSchema(`/api/investments/prices${query}`, array(securityPriceSchema));
+  }
+
+  async saveSecurityPrice(request: SaveSecurityPriceRequest): Promise<SecurityPriceDto> {
+    return this.requestWithSchema('/api/investments/prices', securityPriceSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteSecurityPrice(id: number): Promise<void> {
+    return this.request(`/api/investments/prices/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async importSecurityPrices(file: File): Promise<SecurityPriceImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return this.requestWithSchema('/api/investments/prices/import', securityPriceImportResultSchema, {
+      method: 'POST',
+      body: formData,
+      headers: {}, // Remove Content-Type to let browser set it for FormData
+    });
+  }
+
+  async getDebts(): Promise<DebtsResponse> {
+    return this.requestWithSchema('/api/debts', debtsResponseSchema);
+  }
+
+  async getDebt(accountId: number): Promise<DebtDto> {
+    return this.requestWithSchema(`/api/debts/accounts/${accountId}`, debtSchema);
+  }
+
+  async saveDebtTerms(accountId: number, request: SaveDebtTermsRequest): Promise<DebtTermsDto> {
+    return this.requestWithSchema(`/api/debts/accounts/${accountId}/terms`, debtTermsSchema, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteDebtTerms(accountId: number): Promise<void> {
+    return this.request(`/api/debts/accounts/${accountId}/terms`, {
+      method: 'DELETE',
+    });
+  }
+
+  async saveDebtPayoffPlan(plan: DebtPayoffPlanDto): Promise<DebtPayoffPlanDto> {
+    return this.requestWithSchema('/api/debts/plan', debtPayoffPlanSchema, {
+      method: 'PUT',
+      body: JSON.stringify(plan),
+    });
+  }
+
   async getCategoryTrends(params?: {
     startDate?: string;
     endDate?: string;
@@ -717,34 +1096,27 @@ class ApiClient {
   }
 
   // Account methods
-  async getAccounts(): Promise<unknown> {
-    return this.request('/api/accounts');
+  async getAccounts(): Promise<AccountDto[]> {
+    return this.requestWithSchema('/api/accounts', array(accountSchema));
   }
 
-  async getAccountsWithBalances(): Promise<unknown> {
-    return this.request('/api/accounts/with-balances');
+  async getAccountsWithBalances(): Promise<AccountWithBalanceDto[]> {
+    return this.requestWithSchema('/api/accounts/with-balances', array(accountWithBalanceSchema));
   }
 
-  async getAccount(id: number): Promise<unknown> {
-    return this.request(`/api/accounts/${id}`);
+  async getAccount(id: number): Promise<AccountDto> {
+    return this.requestWithSchema(`/api/accounts/${id}`, accountSchema);
   }
 
-  async getAccountWithBalance(id: number): Promise<unknown> {
-    return this.request(`/api/accounts/${id}/with-balance`);
+  async getAccountWithBalance(id: number): Promise<AccountWithBalanceDto> {
+    return this.requestWithSchema(`/api/accounts/${id}/with-balance`, accountWithBalanceSchema);
   }
 
-  async getAccountDetails(id: number): Promise<unknown> {
-    return this.request(`/api/accounts/${id}/details`);
+  async getAccountDetails(id: number): Promise<AccountDetailsDto> {
+    return this.requestWithSchema(`/api/accounts/${id}/details`, accountDetailsSchema);
   }
 
-  async createAccount(account: {
-    name: string;
-    type: number;
-    institution?: string;
-    currentBalance: number;
-    currency: string;
-    notes?: string;
-  }): Promise<unknown> {
+  async createAccount(account: CreateAccountRequest): Promise<AccountDto> {
     // Map currentBalance to initialBalance to match backend DTO
     const createAccountRequest = {
       name: account.name,
@@ -755,22 +1127,14 @@ class ApiClient {
       notes: account.notes,
     };
     
-    return this.request('/api/accounts', {
+    return this.requestWithSchema('/api/accounts', accountSchema, {
       method: 'POST',
       body: JSON.stringify(createAccountRequest),
     });
   }
 
-  async updateAccount(id: number, account: {
-    id: number;
-    name: string;
-    type: number;
-    institution?: string;
-    currentBalance: number;
-    currency: string;
-    notes?: string;
-  }): Promise<unknown> {
-    return this.request(`/api/accounts/${id}`, {
+  async updateAccount(id: number, account: UpdateAccountRequest): Promise<AccountDto> {
+    return this.requestWithSchema(`/api/accounts/${id}`, accountSchema, {
       method: 'PUT',
       body: JSON.stringify(account),
     });
@@ -788,7 +1152,7 @@ class ApiClient {
     });
   }
 
-  async getAccountTransactions(id: number): Promise<unknown> {
+  async getAccountTransactions(id: number): Promise<{ hasTransactions: boolean }> {
     return this.request(`/api/accounts/${id}/transactions`);
   }
 
@@ -797,7 +1161,7 @@ class ApiClient {
     includeSystemCategories?: boolean;
     includeInactive?: boolean;
     includeHierarchy?: boolean;
-  }): Promise<unknown> {
+  }): Promise<CategoryDto[]> {
     const queryParams = new URLSearchParams();
     if (params?.includeSystemCategories !== undefined) queryParams.append('includeSystemCategories', params.includeSystemCategories.toString());
     if (params?.includeInactive !== undefined) queryParams.append('includeInactive', params.includeInactive.toString());
@@ -806,7 +1170,7 @@ class ApiClient {
     const queryString = queryParams.toString();
     const endpoint = `/api/categories${queryString ? `?${queryString}` : ''}`;
     
-    return this.request(endpoint);
+    return this.requestWithSchema(endpoint, array(categorySchema));
   }
 
   async getFilteredCategories(params?: {
@@ -822,7 +1186,7 @@ class ApiClient {
     status?: number;
     isExcluded?: boolean;
     transferId?: string;
-  }): Promise<unknown> {
+  }): Promise<CategoryWithTransactionCountDto[]> {
     const queryParams = new URLSearchParams();
     if (params?.searchTerm) queryParams.append('searchTerm', params.searchTerm);
     if (params?.accountId) queryParams.append('accountId', params.accountId.toString());
@@ -840,38 +1204,22 @@ class ApiClient {
     const queryString = queryParams.toString();
     const endpoint = `/api/categories/filtered${queryString ? `?${queryString}` : ''}`;
     
-    return this.request(endpoint);
+    return this.requestWithSchema(endpoint, array(categoryWithTransactionCountSchema));
   }
 
-  async getCategory(id: number): Promise<unknown> {
-    return this.request(`/api/categories/${id}`);
+  async getCategory(id: number): Promise<CategoryDto> {
+    return this.requestWithSchema(`/api/categories/${id}`, categorySchema);
   }
 
-  async createCategory(category: {
-    name: string;
-    description?: string;
-    color?: string;
-    icon?: string;
-    parentCategoryId?: number;
-    sortOrder: number;
-  }): Promise<unknown> {
-    return this.request('/api/categories', {
+  async createCategory(category: CreateCategoryRequest): Promise<CategoryDto> {
+    return this.requestWithSchema('/api/categories', categorySchema, {
       method: 'POST',
       body: JSON.stringify(category),
     });
   }
 
-  async updateCategory(id: number, category: {
-    id: number;
-    name: string;
-    description?: string;
-    color?: string;
-    icon?: string;
-    parentCategoryId?: number;
-    sortOrder: number;
-    isActive: boolean;
-  }): Promise<unknown> {
-    return this.request(`/api/categories/${id}`, {
+  async updateCategory(id: number, category: UpdateCategoryRequest): Promise<CategoryDto> {
+    return this.requestWithSchema(`/api/categories/${id}`, categorySchema, {
       method: 'PUT',
       body: JSON.stringify(category),
     });
@@ -883,8 +1231,37 @@ class ApiClient {
     });
   }
 
-  async getCategoryStatistics(id: number): Promise<unknown> {
-    return this.request(`/api/categories/${id}/statistics`);
+  async getCategoryStatistics(id: number, months?: number): Promise<CategoryStatisticsDto> {
+    const query = months !== undefined ? `?months=${months}` : '';
+    return this.requestWithSchema(`/api/categories/${id}/statistics${query}`, categoryStatisticsSchema);
+  }
+
+  async previewMergeCategories(request: MergeCategoriesRequest): Promise<CategoryMigrationSummary> {
+    return this.requestWithSchema('/api/categories/merge/preview', categoryMigrationSummarySchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async mergeCategories(request: MergeCategoriesRequest): Promise<CategoryMigrationSummary> {
+    return this.requestWithSchema('/api/categories/merge', categoryMigrationSummarySchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async previewSplitCategory(id: number, request: SplitCategoryRequest): Promise<CategoryMigrationSummary> {
+    return this.requestWithSchema(`/api/categories/${id}/split/preview`, categoryMigrationSummarySchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async splitCategory(id: number, request: SplitCategoryRequest): Promise<CategoryMigrationSummary> {
+    return this.requestWithSchema(`/api/categories/${id}/split`, categoryMigrationSummarySchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
   }
 
   async initializeDefaultCategories(): Promise<{ message: string }> {
@@ -904,12 +1281,83 @@ class ApiClient {
     });
   }
 
+  // Tag methods
+  async getTags(): Promise<TagDto[]> {
+    return this.requestWithSchema('/api/tags', array(tagSchema));
+  }
+
+  async saveTag(request: SaveTagRequest): Promise<TagDto> {
+    return this.requestWithSchema('/api/tags', tagSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async renameTag(request: RenameTagRequest): Promise<TagChangeResult> {
+    return this.requestWithSchema('/api/tags/rename', tagChangeResultSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteTag(name: string): Promise<TagChangeResult> {
+    return this.requestWithSchema(`/api/tags?name=${encodeURIComponent(name)}`, tagChangeResultSchema, {
+      method: 'DELETE',
+    });
+  }
+
+  async getTagSpending(startDate: string, endDate: string, tags: string[] = []): Promise<TagSpendingReport> {
+    const params = new URLSearchParams({ startDate, endDate });
+    tags.forEach((tag) => params.append('tags', tag));
+    return this.requestWithSchema(`/api/tags/spending?${params.toString()}`, tagSpendingReportSchema);
+  }
+
+  // Attachment methods
+  async getTransactionAttachments(transactionId: number): Promise<TransactionAttachmentDto[]> {
+    return this.requestWithSchema(`/api/transactions/${transactionId}/attachments`, array(transactionAttachmentSchema));
+  }
+
+  async uploadTransactionAttachment(transactionId: number, file: File): Promise<TransactionAttachmentDto> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return this.requestWithSchema(`/api/transactions/${transactionId}/attachments`, transactionAttachmentSchema, {
+      method: 'POST',
+      body: formData,
+      headers: {}, // Remove Content-Type to let browser set it for FormData
+    });
+  }
+
+  async getAttachmentContent(attachmentId: number): Promise<Blob> {
+    const url = `${this.baseURL}${ApiClient.API_PREFIX}/attachments/${attachmentId}/content`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to download attachment');
+    }
+
+    return response.blob();
+  }
+
+  async deleteTransactionAttachment(attachmentId: number): Promise<void> {
+    return this.request(`/api/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Transfer methods
   async createTransfer(transfer: {
     sourceAccountId: number;
     destinationAccountId: number;
     amount: number;
     currency: string;
+    /** Amount received when the destination account uses another currency. */
+    destinationAmount?: number;
     description?: string;
     notes?: string;
     transferDate: string;
@@ -1277,7 +1725,7 @@ class ApiClient {
     accountId?: number;
     page?: number;
     pageSize?: number;
-  }): Promise<unknown> {
+  }): Promise<ReconciliationListResponse> {
     const queryParams = new URLSearchParams();
     if (params?.accountId) queryParams.append('accountId', params.accountId.toString());
     if (params?.page) queryParams.append('page', params.page.toString());
@@ -1286,11 +1734,11 @@ class ApiClient {
     const queryString = queryParams.toString();
     const endpoint = `/api/reconciliation${queryString ? `?${queryString}` : ''}`;
     
-    return this.request(endpoint);
+    return this.requestWithSchema(endpoint, reconciliationListSchema);
   }
 
-  async getReconciliation(id: number): Promise<unknown> {
-    return this.request(`/api/reconciliation/${id}`);
+  async getReconciliation(id: number): Promise<ReconciliationDto> {
+    return this.requestWithSchema(`/api/reconciliation/${id}`, reconciliationSchema);
   }
 
   async createReconciliation(data: {
@@ -1298,8 +1746,8 @@ class ApiClient {
     statementEndDate: string;
     statementEndBalance: number;
     notes?: string;
-  }): Promise<unknown> {
-    return this.request('/api/reconciliation', {
+  }): Promise<ReconciliationDto> {
+    return this.requestWithSchema('/api/reconciliation', reconciliationSchema, {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -1310,8 +1758,8 @@ class ApiClient {
     statementEndBalance?: number;
     status?: number;
     notes?: string;
-  }): Promise<unknown> {
-    return this.request(`/api/reconciliation/${id}`, {
+  }): Promise<ReconciliationDto> {
+    return this.requestWithSchema(`/api/reconciliation/${id}`, reconciliationSchema, {
       method: 'PUT',
       body: JSON.stringify({ request: data }),
     });
@@ -1320,8 +1768,8 @@ class ApiClient {
   async finalizeReconciliation(id: number, options?: {
     notes?: string;
     forceFinalize?: boolean;
-  }): Promise<unknown> {
-    return this.request(`/api/reconciliation/${id}/finalize`, {
+  }): Promise<ReconciliationDto> {
+    return this.requestWithSchema(`/api/reconciliation/${id}/finalize`, reconciliationSchema, {
       method: 'POST',
       body: JSON.stringify({
         notes: options?.notes,
@@ -1667,6 +2115,13 @@ class ApiClient {
     });
   }
 
+  async syncBankConnectionRange(id: number, request: SyncRangeRequest): Promise<BankSyncJobAccepted> {
+    return this.request(`/api/BankConnections/${id}/sync-range`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   async syncAllConnections(): Promise<BankSyncJobAccepted> {
     return this.request('/api/BankConnections/sync-all', {
       method: 'POST',
@@ -1855,12 +2310,20 @@ class ApiClient {
     });
   }
 
-  async processBudgetRollovers(previewOnly: boolean = false): Promise<BudgetRolloverResult> {
+  async processBudgetRollovers(
+    previewOnly: boolean = false,
+    overrides: BudgetRolloverOverride[] = []
+  ): Promise<BudgetRolloverResult> {
     return this.request(`/api/budgets/process-rollovers?previewOnly=${previewOnly}`, {
       method: 'POST',
+      body: JSON.stringify({ overrides }),
     });
   }
 
+  async getBudgetPeriodCloses(budgetId: number): Promise<BudgetPeriodClose[]> {
+    return this.request(`/api/budgets/${budgetId}/closes`);
+  }
+
   // Goal methods
   async getGoals(params?: { includeCompleted?: boolean }): Promise<GoalSummary[]> {
     const queryParams = new URLSearchParams();
@@ -1897,6 +2360,22 @@ class ApiClient {
     return this.request(`/api/goals/${goalId}/emergency-fund-analysis?includeLlmAnalysis=${includeLlmAnalysis}`);
   }
 
+  async getGoalContributions(goalId: number): Promise<GoalContributionsResponse> {
+    return this.request(`/api/goals/${goalId}/contributions`);
+  }
+
+  async addGoalContribution(goalId: number, contribution: SaveGoalContributionRequest): Promise<GoalContribution> {
+    return this.request(`/api/goals/${goalId}/contributions`, { method: 'POST', body: JSON.stringify(contribution) });
+  }
+
+  async deleteGoalContribution(goalId: number, contributionId: number): Promise<void> {
+    return this.request(`/api/goals/${goalId}/contributions/${contributionId}`, { method: 'DELETE' });
+  }
+
+  async updateGoalContributionSources(goalId: number, sources: UpdateGoalContributionSourcesRequest): Promise<void> {
+    return this.request(`/api/goals/${goalId}/contribution-sources`, { method: 'PUT', body: JSON.stringify(sources) });
+  }
+
   // Wallet (Virtual Pots) methods
   async getWallets(params?: { includeArchived?: boolean }): Promise<WalletSummary[]> {
     const queryParams = new URLSearchParams();
@@ -2193,6 +2672,51 @@ class ApiClient {
     });
   }
 
+  // Realtime methods
+
+  /**
+   * Opens the realtime event stream and hands every server-sent event to
+   * `onEvent` until the server closes the stream or `signal` aborts. Rejects
+   * with a `status` when the server refuses the stream so the caller can fall
+   * back to polling. Uses fetch rather than EventSource because the stream
+   * needs the bearer token.
+   */
+  async streamRealtimeEvents(
+    onEvent: (event: ServerSentEvent) => void,
+    options: { signal: AbortSignal; lastEventId?: string; onOpen?: () => void },
+    _isRetry = false
+  ): Promise<void> {
+    const response = await fetch(`${this.baseURL}${ApiClient.API_PREFIX}/realtime/events`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...this.getAuthHeaders(),
+        ...(options.lastEventId ? { 'Last-Event-ID': options.lastEventId } : {}),
+      },
+      credentials: 'include',
+      cache: 'no-store',
+      signal: options.signal,
+    });
+
+    if (response.status === 401 && !_isRetry && (await this.tryRefreshToken())) {
+      return this.streamRealtimeEvents(onEvent, options, true);
+    }
+
+    if (!response.ok || !response.body) {
+      const error = new Error(`Realtime stream unavailable: ${response.status}`) as Error & { status?: number };
+      error.status = response.status;
+      throw error;
+    }
+
+    options.onOpen?.();
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    const parser = new SseParser();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      parser.feed(value).forEach(onEvent);
+    }
+  }
+
   private getAuthHeaders(): Record<string, string> {
     const token = this.getToken();
     return token ? { 'Authorization': `Bearer ${token}` } : {};
@@ -2476,6 +3000,7 @@ export interface TrendPeriodSummary {
 export interface UserDataSummary {
   totalAccounts: number;
   totalTransactions: number;
+  totalAttachments: number;
   totalTransfers: number;
   totalCategories: number;
   totalRules: number;
@@ -2495,6 +3020,7 @@ export interface UserDeletionResult {
   errorMessage?: string;
   accountsDeleted: number;
   transactionsDeleted: number;
+  attachmentsDeleted: number;
   transfersDeleted: number;
   categoriesDeleted: number;
   rulesDeleted: number;
@@ -2521,6 +3047,9 @@ export interface GoalSummary {
 
 export interface GoalDetail extends GoalSummary {
   linkedAccountId?: number;
+  contributionTag?: string;
+  walletId?: number;
+  walletName?: string;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -2545,6 +3074,41 @@ export interface UpdateGoalRequest {
   linkedAccountId?: number;
 }
 
+// Goal Contribution Types
+export type GoalContributionSource = 'Manual' | 'Tag' | 'Wallet' | 'Account' | 'Adjustment';
+
+export interface GoalContribution {
+  /** Set for manual contributions only, which are the ones that can be deleted */
+  id?: number;
+  source: GoalContributionSource;
+  date: string;
+  /** Negative for a withdrawal */
+  amount: number;
+  description?: string;
+  transactionId?: number;
+}
+
+export interface GoalContributionsResponse {
+  goalId: number;
+  currentAmount: number;
+  targetAmount: number;
+  contributionTag?: string;
+  walletId?: number;
+  /** Oldest first; they add up to the current amount */
+  contributions: GoalContribution[];
+}
+
+export interface SaveGoalContributionRequest {
+  amount: number;
+  contributionDate: string;
+  note?: string;
+}
+
+export interface UpdateGoalContributionSourcesRequest {
+  contributionTag?: string;
+  walletId?: number;
+}
+
 // Emergency Fund Analysis Types
 export interface EmergencyFundAnalysisDto {
   averageMonthlyExpenses: number;
@@ -2652,6 +3216,10 @@ export interface WalletDashboardSummary {
   totalBalance: number;
   /** Per-currency breakdown of wallet balances (e.g. { "USD": 1500, "EUR": 300 }). */
   balanceByCurrency: Record<string, number>;
+  baseCurrency: string;
+  /** All balances converted at today's rates; unconvertedCurrencies are included at face value. */
+  totalBalanceInBaseCurrency: number;
+  unconvertedCurrencies: string[];
   wallets: WalletSummary[];
 }
 
@@ -0,0 +1,760 @@
+/**
+ * Runtime schemas for API responses.
+ *
+ * Each schema is typed against the matching interface in `@/types`, so the
+ * compiler keeps the two in sync: adding a field to a response type without
+ * describing it here is a type error. `ApiClient` validates responses against
+ * these schemas in development and logs any mismatch, which surfaces backend
+ * DTO drift long before a page renders `undefined`. Production builds skip the
+ * check entirely.
+ */
+
+import type {
+  AccountDetailsDto,
+  AccountDto,
+  AccountWithBalanceDto,
+  MonthlySpendingDto,
+} from '@/types/accounts';
+import type {
+  CategoryDto,
+  CategoryMerchantDto,
+  CategoryMigrationSummary,
+  CategoryMonthlyTotalDto,
+  CategorySplitTargetSummary,
+  CategoryStatisticsDto,
+  CategorySubcategoryTotalDto,
+  CategoryWithTransactionCountDto,
+} from '@/types/categories';
+import type {
+  TransactionDto,
+  TransactionListResponse,
+  TransactionSplitDto,
+  TransactionSummaryDto,
+} from '@/types/transactions';
+import type {
+  ReconciliationDto,
+  ReconciliationListResponse,
+  ReconciliationSummaryDto,
+} from '@/types/reconciliation';
+import type { CategorySpendingDto, MonthlySummaryResponse } from '@/types/api-responses';
+import type {
+  TagCategorySpending,
+  TagChangeResult,
+  TagDto,
+  TagMonthlySpending,
+  TagSpending,
+  TagSpendingReport,
+} from '@/types/tags';
+import type { TransactionAttachmentDto } from '@/types/attachments';
+import type {
+  RecurringCalendarDto,
+  RecurringCalendarEntryDto,
+  RecurringScheduleDto,
+} from '@/types/recurring-schedules';
+import type { SubscriptionDto, SubscriptionPriceChangeDto, SubscriptionsResponse } from '@/types/subscriptions';
+import type { ExchangeRateDto, ExchangeRateImportResult, ExchangeRatesResponse } from '@/types/exchange-rates';
+import type { AccountValuationDto, NetWorthHistoryResponse } from '@/types/net-worth';
+import type {
+  InvestmentTradeDto,
+  PortfolioResponse,
+  SecurityPriceDto,
+  SecurityPriceImportResult,
+} from '@/types/investments';
+import type { DebtDto, DebtPayoffPlanDto, DebtTermsDto, DebtsResponse } from '@/types/debts';
+import type { UserDto } from '@/types/auth';
+
+export interface Schema<T> {
+  /** Returns one message per mismatch; an empty list means the value conforms. */
+  validate(value: unknown, path: string): string[];
+  /** Phantom member carrying the described type. Never set at runtime. */
+  readonly _type?: T;
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function primitive<T>(expected: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    validate: (value, path) =>
+      typeof value === expected ? [] : [`${path}: expected ${expected}, got ${describe(value)}`],
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const string = (): Schema<string> => primitive('string');
+export const number = (): Schema<number> => primitive('number');
+export const boolean = (): Schema<boolean> => primitive('boolean');
+
+export function oneOf<const T extends readonly (string | number)[]>(values: T): Schema<T[number]> {
+  return {
+    validate: (value, path) =>
+      values.includes(value as T[number])
+        ? []
+        : [`${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`],
+  };
+}
+
+/**
+ * Accepts missing values. The backend serializes C# nullables as `null`, which
+ * the response types model as optional properties, so `null` is accepted too.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    validate: (value, path) => (value === null || value === undefined ? [] : schema.validate(value, path)),
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    validate: (value, path) => {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array, got ${describe(value)}`];
+      }
+      return value.flatMap((entry, index) => item.validate(entry, `${path}[${index}]`));
+    },
+  };
+}
+
+/** Unknown properties are ignored so that additive backend changes don't warn. */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    validate: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      return (Object.keys(shape) as (keyof T & string)[]).flatMap((key) =>
+        shape[key].validate(record[key], `${path}.${key}`)
+      );
+    },
+  };
+}
+
+/** Defers schema construction so recursive types can refer to themselves. */
+export function lazy<T>(factory: () => Schema<T>): Schema<T> {
+  let schema: Schema<T> | undefined;
+  return {
+    validate: (value, path) => (schema ??= factory()).validate(value, path),
+  };
+}
+
+// Users
+
+export const userSchema = object<UserDto>({
+  id: string(),
+  email: string(),
+  userName: string(),
+  firstName: string(),
+  lastName: string(),
+  fullName: string(),
+  currency: string(),
+  timeZone: string(),
+  locale: string(),
+  profilePictureUrl: optional(string()),
+  aiDescriptionCleaning: optional(boolean()),
+  hasAiConfigured: optional(boolean()),
+  isOnboardingComplete: optional(boolean()),
+  subscriptionTier: optional(oneOf(['Free', 'Pro', 'Family', 'SelfHosted'] as const)),
+  isSelfHosted: optional(boolean()),
+});
+
+// Accounts
+
+const accountSharingShape = {
+  isOwner: boolean(),
+  isSharedWithMe: boolean(),
+  shareRole: optional(oneOf([1, 2] as const)),
+  sharedByUserName: optional(string()),
+};
+
+export const accountSchema = object<AccountDto>({
+  id: number(),
+  name: string(),
+  type: number(),
+  typeDisplayName: string(),
+  institution: optional(string()),
+  lastFourDigits: optional(string()),
+  currentBalance: number(),
+  currency: string(),
+  isActive: boolean(),
+  notes: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+  ...accountSharingShape,
+});
+
+export const accountWithBalanceSchema = object<AccountWithBalanceDto>({
+  id: number(),
+  name: string(),
+  type: number(),
+  typeDisplayName: string(),
+  institution: optional(string()),
+  currentBalance: number(),
+  calculatedBalance: number(),
+  currency: string(),
+  isActive: boolean(),
+  notes: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+  ...accountSharingShape,
+});
+
+const monthlySpendingSchema = object<MonthlySpendingDto>({
+  currentMonthSpending: number(),
+  previousMonthSpending: number(),
+  changeAmount: number(),
+  changePercentage: number(),
+  trendDirection: oneOf(['up', 'down', 'neutral'] as const),
+  monthName: string(),
+  year: number(),
+});
+
+export const accountDetailsSchema = object<AccountDetailsDto>({
+  id: number(),
+  name: string(),
+  type: number(),
+  typeDisplayName: string(),
+  institution: optional(string()),
+  lastFourDigits: optional(string()),
+  currentBalance: number(),
+  calculatedBalance: number(),
+  currency: string(),
+  isActive: boolean(),
+  notes: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+  lastReconciledDate: optional(string()),
+  lastReconciledBalance: optional(number()),
+  monthlySpending: monthlySpendingSchema,
+});
+
+// Categories
+
+const categoryBaseShape = {
+  id: number(),
+  name: string(),
+  canonicalKey: optional(string()),
+  description: optional(string()),
+  color: optional(string()),
+  icon: optional(string()),
+  isSystemCategory: boolean(),
+  isActive: boolean(),
+  sortOrder: number(),
+  parentCategoryId: optional(number()),
+  parentCategoryName: optional(string()),
+  fullPath: string(),
+  createdAt: string(),
+  updatedAt: string(),
+  transactionCount: number(),
+  totalAmount: number(),
+};
+
+export const categorySchema: Schema<CategoryDto> = object<CategoryDto>({
+  ...categoryBaseShape,
+  subCategories: array(lazy(() => categorySchema)),
+});
+
+export const categoryWithTransactionCountSchema = object<CategoryWithTransactionCountDto>({
+  ...categoryBaseShape,
+  displayName: string(),
+});
+
+export const categoryStatisticsSchema = object<CategoryStatisticsDto>({
+  categoryId: number(),
+  categoryName: string(),
+  months: number(),
+  transactionCount: number(),
+  totalAmount: number(),
+  averageAmount: number(),
+  lastTransactionDate: optional(string()),
+  firstTransactionDate: optional(string()),
+  monthlyTotals: array(
+    object<CategoryMonthlyTotalDto>({
+      periodStart: string(),
+      amount: number(),
+      transactionCount: number(),
+    })
+  ),
+  topMerchants: array(
+    object<CategoryMerchantDto>({
+      name: string(),
+      amount: number(),
+      transactionCount: number(),
+      lastTransactionDate: string(),
+    })
+  ),
+  subcategories: array(
+    object<CategorySubcategoryTotalDto>({
+      categoryId: number(),
+      categoryName: string(),
+      color: optional(string()),
+      amount: number(),
+      transactionCount: number(),
+    })
+  ),
+});
+
+export const categoryMigrationSummarySchema = object<CategoryMigrationSummary>({
+  transactionCount: number(),
+  splitLineCount: number(),
+  budgetCount: number(),
+  combinedBudgetAllocationCount: number(),
+  ruleCount: number(),
+  bankCategoryMappingCount: number(),
+  recurringPatternCount: number(),
+  recurringScheduleCount: number(),
+  subcategoryCount: number(),
+  remainingTransactionCount: number(),
+  targets: array(
+    object<CategorySplitTargetSummary>({
+      categoryId: optional(number()),
+      categoryName: string(),
+      isNew: boolean(),
+      transactionCount: number(),
+    })
+  ),
+});
+
+// Transactions
+
+const transactionSplitSchema = object<TransactionSplitDto>({
+  id: number(),
+  amount: number(),
+  description: optional(string()),
+  categoryId: number(),
+  categoryName: string(),
+  categoryColor: optional(string()),
+});
+
+export const transactionSchema = object<TransactionDto>({
+  id: number(),
+  amount: number(),
+  transactionDate: string(),
+  description: string(),
+  userDescription: optional(string()),
+  status: number(),
+  source: number(),
+  externalId: optional(string()),
+  referenceNumber: optional(string()),
+  notes: optional(string()),
+  location: optional(string()),
+  isReviewed: boolean(),
+  isExcluded: boolean(),
+  tags: optional(string()),
+  type: number(),
+  accountId: number(),
+  accountName: string(),
+  categoryId: optional(number()),
+  categoryName: optional(string()),
+  categoryColor: optional(string()),
+  splits: optional(array(transactionSplitSchema)),
+  attachmentCount: optional(number()),
+  thumbnailAttachmentId: optional(number()),
+  transferId: optional(string()),
+  isTransferSource: boolean(),
+  relatedTransactionId: optional(number()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const transactionSummarySchema = object<TransactionSummaryDto>({
+  totalBalance: number(),
+  totalIncome: number(),
+  totalExpenses: number(),
+  incomeTransactionCount: number(),
+  expenseTransactionCount: number(),
+  transferTransactionCount: number(),
+  unreviewedTransactionCount: number(),
+});
+
+export const transactionListSchema = object<TransactionListResponse>({
+  transactions: array(transactionSchema),
+  summary: transactionSummarySchema,
+  totalCount: number(),
+  page: number(),
+  pageSize: number(),
+  totalPages: number(),
+  hasNextPage: boolean(),
+  hasPreviousPage: boolean(),
+});
+
+// Reports
+
+const categorySpendingSchema = object<CategorySpendingDto>({
+  categoryId: number(),
+  categoryName: string(),
+  categoryColor: optional(string()),
+  amount: number(),
+  transactionCount: number(),
+  percentage: number(),
+});
+
+export const monthlySummarySchema = object<MonthlySummaryResponse>({
+  year: number(),
+  month: number(),
+  monthName: string(),
+  totalIncome: number(),
+  totalExpenses: number(),
+  netAmount: number(),
+  transactionCount: number(),
+  topCategories: array(categorySpendingSchema),
+});
+
+// Reconciliation
+
+export const reconciliationSchema = object<ReconciliationDto>({
+  id: number(),
+  accountId: number(),
+  accountName: string(),
+  reconciliationDate: string(),
+  statementEndDate: string(),
+  statementEndBalance: number(),
+  calculatedBalance: optional(number()),
+  status: number(),
+  createdByUserId: string(),
+  completedAt: optional(string()),
+  notes: optional(string()),
+  balanceDifference: number(),
+  isBalanced: boolean(),
+  totalItemsCount: number(),
+  matchedItemsCount: number(),
+  matchedPercentage: number(),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const reconciliationSummarySchema = object<ReconciliationSummaryDto>({
+  id: number(),
+  accountId: number(),
+  accountName: string(),
+  reconciliationDate: string(),
+  statementEndDate: string(),
+  statementEndBalance: number(),
+  status: number(),
+  balanceDifference: number(),
+  isBalanced: boolean(),
+  matchedPercentage: number(),
+});
+
+export const reconciliationListSchema = object<ReconciliationListResponse>({
+  reconciliations: array(reconciliationSummarySchema),
+  totalCount: number(),
+  pageSize: number(),
+  page: number(),
+  totalPages: number(),
+  hasNextPage: boolean(),
+  hasPreviousPage: boolean(),
+});
+
+// Attachments
+
+export const transactionAttachmentSchema = object<TransactionAttachmentDto>({
+  id: number(),
+  transactionId: number(),
+  fileName: string(),
+  contentType: string(),
+  sizeBytes: number(),
+  isImage: boolean(),
+  createdAt: string(),
+});
+
+// Tags
+
+export const tagSchema = object<TagDto>({
+  name: string(),
+  color: optional(string()),
+  transactionCount: number(),
+  ruleCount: number(),
+  lastUsedAt: optional(string()),
+});
+
+export const tagChangeResultSchema = object<TagChangeResult>({
+  name: string(),
+  transactionsUpdated: number(),
+  rulesUpdated: number(),
+});
+
+export const tagSpendingReportSchema = object<TagSpendingReport>({
+  startDate: string(),
+  endDate: string(),
+  tags: array(
+    object<TagSpending>({
+      name: string(),
+      color: optional(string()),
+      totalSpent: number(),
+      totalIncome: number(),
+      transactionCount: number(),
+      categories: array(
+        object<TagCategorySpending>({
+          categoryId: optional(number()),
+          categoryName: string(),
+          categoryColor: optional(string()),
+          amount: number(),
+          transactionCount: number(),
+        })
+      ),
+      months: array(
+        object<TagMonthlySpending>({
+          year: number(),
+          month: number(),
+          amount: number(),
+        })
+      ),
+    })
+  ),
+});
+
+// Recurring schedules
+
+export const recurringScheduleSchema = object<RecurringScheduleDto>({
+  id: number(),
+  name: string(),
+  accountId: number(),
+  accountName: string(),
+  categoryId: optional(number()),
+  categoryName: optional(string()),
+  categoryColor: optional(string()),
+  amount: number(),
+  frequency: string(),
+  startDate: string(),
+  endDate: optional(string()),
+  nextDueDate: optional(string()),
+  matchText: optional(string()),
+  amountTolerancePercent: number(),
+  isActive: boolean(),
+  notes: optional(string()),
+  lastMatchedAt: optional(string()),
+  missedCount: number(),
+  lastStatus: optional(string()),
+  lastChangedAmount: optional(number()),
+});
+
+export const recurringCalendarSchema = object<RecurringCalendarDto>({
+  startDate: string(),
+  endDate: string(),
+  entries: array(
+    object<RecurringCalendarEntryDto>({
+      date: string(),
+      name: string(),
+      amount: number(),
+      source: string(),
+      scheduleId: optional(number()),
+      patternId: optional(number()),
+      status: string(),
+      transactionId: optional(number()),
+      actualAmount: optional(number()),
+      amountChanged: boolean(),
+      accountName: optional(string()),
+      categoryName: optional(string()),
+      categoryColor: optional(string()),
+    })
+  ),
+  totalExpectedExpenses: number(),
+  totalExpectedIncome: number(),
+});
+
+// Subscriptions
+
+export const subscriptionSchema = object<SubscriptionDto>({
+  patternId: number(),
+  merchantName: string(),
+  interval: string(),
+  intervalDays: number(),
+  averageAmount: number(),
+  currentAmount: number(),
+  monthlyCost: number(),
+  annualizedAmount: number(),
+  status: string(),
+  cancellationStatus: string(),
+  cancellationStatusChangedAt: optional(string()),
+  chargedAfterCancellationAt: optional(string()),
+  confidenceLevel: string(),
+  occurrenceCount: number(),
+  firstChargedAt: string(),
+  lastChargedAt: string(),
+  nextExpectedDate: optional(string()),
+  lastUsedAt: optional(string()),
+  notes: optional(string()),
+  categoryId: optional(number()),
+  categoryName: optional(string()),
+  categoryColor: optional(string()),
+  priceChanges: array(
+    object<SubscriptionPriceChangeDto>({
+      date: string(),
+      previousAmount: number(),
+      newAmount: number(),
+    })
+  ),
+});
+
+export const subscriptionsResponseSchema = object<SubscriptionsResponse>({
+  subscriptions: array(subscriptionSchema),
+  totalAnnualCost: number(),
+  cancelIntendedAnnualCost: number(),
+  cancelledAnnualSavings: number(),
+});
+
+// Exchange rates
+
+export const exchangeRateSchema = object<ExchangeRateDto>({
+  id: number(),
+  fromCurrency: string(),
+  toCurrency: string(),
+  rate: number(),
+  rateDate: string(),
+  source: string(),
+});
+
+export const exchangeRatesResponseSchema = object<ExchangeRatesResponse>({
+  baseCurrency: string(),
+  accountCurrencies: array(string()),
+  missingCurrencies: array(string()),
+  rates: array(exchangeRateSchema),
+});
+
+export const exchangeRateImportResultSchema = object<ExchangeRateImportResult>({
+  imported: number(),
+  updated: number(),
+  errors: array(string()),
+});
+
+// Net worth
+
+export const netWorthHistorySchema = object<NetWorthHistoryResponse>({
+  baseCurrency: string(),
+  unconvertedCurrencies: array(string()),
+  snapshots: array(
+    object({
+      year: number(),
+      month: number(),
+      date: string(),
+      totalAssets: number(),
+      totalLiabilities: number(),
+      netWorth: number(),
+      byAccountType: array(object({ accountType: number(), balance: number() })),
+    })
+  ),
+  accounts: array(
+    object({
+      accountId: number(),
+      name: string(),
+      type: number(),
+      currency: string(),
+      isLiability: boolean(),
+      hasValuations: boolean(),
+      startBalance: number(),
+      endBalance: number(),
+      change: number(),
+    })
+  ),
+});
+
+export const accountValuationSchema = object<AccountValuationDto>({
+  id: number(),
+  accountId: number(),
+  accountName: string(),
+  currency: string(),
+  value: number(),
+  valuationDate: string(),
+  notes: optional(string()),
+});
+
+// Investments
+
+export const investmentTradeSchema = object<InvestmentTradeDto>({
+  id: number(),
+  holdingId: number(),
+  symbol: string(),
+  type: oneOf(['Buy', 'Sell', 'Dividend'] as const),
+  tradeDate: string(),
+  units: number(),
+  price: number(),
+  fees: number(),
+  amount: number(),
+  transactionId: optional(number()),
+  notes: optional(string()),
+});
+
+export const portfolioSchema = object<PortfolioResponse>({
+  accountId: number(),
+  currency: string(),
+  cashBalance: number(),
+  marketValue: number(),
+  totalValue: number(),
+  costBasis: number(),
+  unrealisedGain: number(),
+  unrealisedGainPercent: optional(number()),
+  realisedGain: number(),
+  dividends: number(),
+  timeWeightedReturn: optional(number()),
+  holdings: array(
+    object({
+      id: number(),
+      symbol: string(),
+      name: optional(string()),
+      units: number(),
+      averageCost: number(),
+      costBasis: number(),
+      price: optional(number()),
+      priceDate: optional(string()),
+      marketValue: number(),
+      unrealisedGain: number(),
+      realisedGain: number(),
+      dividends: number(),
+      allocationPercent: number(),
+    })
+  ),
+  trades: array(investmentTradeSchema),
+});
+
+export const securityPriceSchema = object<SecurityPriceDto>({
+  id: number(),
+  symbol: string(),
+  priceDate: string(),
+  price: number(),
+  source: oneOf(['Manual', 'Imported', 'Trade'] as const),
+});
+
+export const securityPriceImportResultSchema = object<SecurityPriceImportResult>({
+  imported: number(),
+  updated: number(),
+  errors: array(string()),
+});
+
+// Debts
+
+export const debtTermsSchema = object<DebtTermsDto>({
+  accountId: number(),
+  annualInterestRate: number(),
+  minimumPayment: number(),
+  termMonths: optional(number()),
+  startDate: optional(string()),
+  maturityDate: optional(string()),
+});
+
+export const debtSchema = object<DebtDto>({
+  accountId: number(),
+  name: string(),
+  type: number(),
+  currency: string(),
+  balance: number(),
+  baseBalance: number(),
+  baseMinimumPayment: optional(number()),
+  terms: optional(debtTermsSchema),
+});
+
+export const debtPayoffPlanSchema = object<DebtPayoffPlanDto>({
+  strategy: oneOf(['avalanche', 'snowball'] as const),
+  extraPayment: number(),
+});
+
+export const debtsResponseSchema = object<DebtsResponse>({
+  baseCurrency: string(),
+  unconvertedCurrencies: array(string()),
+  debts: array(debtSchema),
+  plan: debtPayoffPlanSchema,
+});
@@ -0,0 +1,31 @@
+/** Mirrors the content types accepted by `TransactionAttachmentService` on the server. */
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'application/pdf',
+];
+
+/** Default `FileStorage:MaxFileSizeBytes`; the server has the final say. */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Value for the `accept` attribute of file inputs. */
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+export type AttachmentFileError = 'empty' | 'tooLarge' | 'unsupportedType';
+
+export function validateAttachmentFile(file: Pick<File, 'size' | 'type'>): AttachmentFileError | null {
+  if (file.size <= 0) return 'empty';
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type.toLowerCase())) return 'unsupportedType';
+  if (file.size > MAX_ATTACHMENT_BYTES) return 'tooLarge';
+  return null;
+}
+
+/** Human-readable size such as "820 KB" or "2.4 MB". */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
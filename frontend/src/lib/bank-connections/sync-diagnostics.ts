@@ -0,0 +1,184 @@
+import type { BankConnection, BankSyncLog } from '@/types/bank-connections';
+
+/** A run of days as yyyy-MM-dd strings, `from` inclusive and `to` exclusive, like the sync API. */
+export interface SyncDateRange {
+  from: string;
+  to: string;
+}
+
+export interface SyncReliabilitySummary {
+  total: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  inProgress: number;
+  /** Share of finished runs that completed without failing, 0–1; null when nothing has finished. */
+  successRate: number | null;
+  averageDurationMs: number | null;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export interface DailySyncReliability {
+  date: string;
+  succeeded: number;
+  partial: number;
+  failed: number;
+}
+
+/** Longest range a single range sync may fetch; the API enforces the same limit. */
+export const MAX_SYNC_RANGE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS));
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export function formatSyncDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+export function formatSyncRange(range: SyncDateRange): string {
+  const format = (dateKey: string) =>
+    new Date(`${dateKey}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  // Ranges end exclusively; show the last day actually fetched
+  const last = addDays(range.to, -1);
+  return last === range.from ? format(range.from) : `${format(range.from)} – ${format(last)}`;
+}
+
+export function isSucceededSync(log: BankSyncLog): boolean {
+  return log.status === 'Completed' || log.status === 'PartialSuccess';
+}
+
+/** The date range a run fetched, when the backend recorded one (older runs have none). */
+export function parseSyncLogRange(log: BankSyncLog): SyncDateRange | null {
+  if (!log.details) return null;
+  try {
+    const details = JSON.parse(log.details) as { from?: unknown; to?: unknown };
+    if (typeof details.from !== 'string' || typeof details.to !== 'string') return null;
+    return { from: details.from.slice(0, 10), to: details.to.slice(0, 10) };
+  } catch {
+    return null;
+  }
+}
+
+export function syncDurationMs(log: BankSyncLog): number | null {
+  if (!log.completedAt) return null;
+  return Math.max(0, Date.parse(log.completedAt) - Date.parse(log.startedAt));
+}
+
+/** Transactions the provider returned that were neither imported nor skipped as duplicates. */
+export function failedTransactionCount(log: BankSyncLog): number {
+  return Math.max(0, log.transactionsProcessed - log.transactionsImported - log.transactionsSkipped);
+}
+
+export function summarizeSyncReliability(logs: BankSyncLog[]): SyncReliabilitySummary {
+  const newestFirst = [...logs].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  const succeeded = logs.filter((log) => log.status === 'Completed').length;
+  const partial = logs.filter((log) => log.status === 'PartialSuccess').length;
+  const failed = logs.filter((log) => log.status === 'Failed').length;
+  const finished = succeeded + partial + failed;
+  const durations = logs.map(syncDurationMs).filter((duration): duration is number => duration !== null);
+
+  return {
+    total: logs.length,
+    succeeded,
+    partial,
+    failed,
+    inProgress: logs.length - finished,
+    successRate: finished > 0 ? (succeeded + partial) / finished : null,
+    averageDurationMs:
+      durations.length > 0 ? durations.reduce((total, duration) => total + duration, 0) / durations.length : null,
+    lastSuccessAt: newestFirst.find(isSucceededSync)?.startedAt,
+    lastFailureAt: newestFirst.find((log) => log.status === 'Failed')?.startedAt,
+  };
+}
+
+/** Finished runs per UTC day for the `days` days up to and including `today`, oldest first. */
+export function dailySyncReliability(logs: BankSyncLog[], days: number, today: Date): DailySyncReliability[] {
+  const lastDay = toDateKey(today);
+  const buckets = new Map<string, DailySyncReliability>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = addDays(lastDay, -offset);
+    buckets.set(date, { date, succeeded: 0, partial: 0, failed: 0 });
+  }
+
+  for (const log of logs) {
+    const bucket = buckets.get(log.startedAt.slice(0, 10));
+    if (!bucket) continue;
+    if (log.status === 'Completed') bucket.succeeded++;
+    else if (log.status === 'PartialSuccess') bucket.partial++;
+    else if (log.status === 'Failed') bucket.failed++;
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Days that no successful run fetched, between the earliest recorded range and `today`.
+ * Returns null when no run recorded its range, since coverage can't be told then.
+ */
+export function findCoverageGaps(logs: BankSyncLog[], today: Date): SyncDateRange[] | null {
+  const ranged = logs
+    .map((log) => ({ log, range: parseSyncLogRange(log) }))
+    .filter((item): item is { log: BankSyncLog; range: SyncDateRange } => item.range !== null);
+  if (ranged.length === 0) return null;
+
+  const windowStart = ranged.reduce((earliest, { range }) => (range.from < earliest ? range.from : earliest), ranged[0].range.from);
+  const windowEnd = addDays(toDateKey(today), 1);
+  const covered = ranged
+    .filter(({ log }) => isSucceededSync(log))
+    .map(({ range }) => range)
+    .sort((a, b) => a.from.localeCompare(b.from));
+
+  const gaps: SyncDateRange[] = [];
+  let cursor = windowStart;
+  for (const range of covered) {
+    if (range.from > cursor) gaps.push({ from: cursor, to: range.from < windowEnd ? range.from : windowEnd });
+    if (range.to > cursor) cursor = range.to;
+    if (cursor >= windowEnd) break;
+  }
+  if (cursor < windowEnd) gaps.push({ from: cursor, to: windowEnd });
+
+  return gaps.filter((gap) => gap.from < gap.to);
+}
+
+/** Everything support needs to see why a connection missed transactions, with no credentials. */
+export function buildSyncDiagnostics(connection: BankConnection, logs: BankSyncLog[], now: Date) {
+  return {
+    generatedAt: now.toISOString(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    connection: {
+      id: connection.id,
+      accountId: connection.accountId,
+      accountName: connection.accountName,
+      providerId: connection.providerId,
+      providerName: connection.providerName,
+      externalAccountName: connection.externalAccountName,
+      isActive: connection.isActive,
+      lastSyncAt: connection.lastSyncAt,
+      lastSyncError: connection.lastSyncError,
+      createdAt: connection.createdAt,
+    },
+    summary: summarizeSyncReliability(logs),
+    coverageGaps: findCoverageGaps(logs, now),
+    syncLogs: logs.map((log) => ({
+      ...log,
+      range: parseSyncLogRange(log),
+      durationMs: syncDurationMs(log),
+      transactionsFailed: failedTransactionCount(log),
+    })),
+  };
+}
@@ -0,0 +1,82 @@
+import type {
+  BudgetRollover,
+  BudgetRolloverOverride,
+  BudgetRolloverResult,
+  CategoryRollover,
+  RolloverReason,
+} from '@/types/budget';
+
+export type { RolloverReason };
+
+export interface CategoryRolloverPreview {
+  categoryId: number;
+  categoryName: string;
+  budgetedAmount: number;
+  actualSpent: number;
+  /** What is left of the period's effective budget, before any cap. */
+  remainingAmount: number;
+  /** What the backend will carry into the next period. */
+  carriedAmount: number;
+  capped: boolean;
+  reason: RolloverReason;
+}
+
+/** Rollover amounts the user chose instead of the calculated ones, by source budget then category. */
+export type RolloverOverrides = Record<number, Record<number, number>>;
+
+export function describeCategoryRollover(budget: BudgetRollover, category: CategoryRollover): CategoryRolloverPreview {
+  const capped = category.remainingAmount < 0 && category.rolloverAmount === 0;
+  const reason: RolloverReason = !budget.isRecurring
+    ? 'notRecurring'
+    : category.remainingAmount >= 0
+      ? 'surplus'
+      : capped
+        ? 'overspendCapped'
+        : 'overspendCarried';
+
+  return {
+    categoryId: category.categoryId,
+    categoryName: category.categoryName,
+    budgetedAmount: category.budgetedAmount,
+    actualSpent: category.actualSpent,
+    remainingAmount: category.remainingAmount,
+    carriedAmount: budget.isRecurring ? category.rolloverAmount : 0,
+    capped,
+    reason,
+  };
+}
+
+/** The override for a category, if the user set one that differs from the calculated amount. */
+export function rolloverOverride(
+  overrides: RolloverOverrides,
+  budgetId: number,
+  category: CategoryRolloverPreview
+): number | undefined {
+  const amount = overrides[budgetId]?.[category.categoryId];
+  return amount !== undefined && amount !== category.carriedAmount ? amount : undefined;
+}
+
+/** The overrides that differ from the calculated amounts, as sent with the rollover command. */
+export function rolloverOverridesToApply(
+  result: BudgetRolloverResult,
+  overrides: RolloverOverrides
+): BudgetRolloverOverride[] {
+  return result.processedBudgets
+    .filter((budget) => budget.isRecurring)
+    .flatMap((budget) =>
+      budget.categoryRollovers.flatMap((category) => {
+        const amount = rolloverOverride(overrides, budget.sourceBudgetId, describeCategoryRollover(budget, category));
+        return amount === undefined
+          ? []
+          : [{ sourceBudgetId: budget.sourceBudgetId, categoryId: category.categoryId, amount }];
+      })
+    );
+}
+
+/** What a committed rollover carried into new periods, overrides included. */
+export function totalCarried(result: BudgetRolloverResult): number {
+  return result.processedBudgets
+    .filter((budget) => budget.newBudgetCreated)
+    .flatMap((budget) => budget.categoryRollovers)
+    .reduce((total, category) => total + category.rolloverAmount, 0);
+}
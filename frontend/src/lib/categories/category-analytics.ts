@@ -0,0 +1,89 @@
+import type { CategoryMonthlyTotalDto, CategoryStatisticsDto } from '@/types/categories';
+
+/** -1 for a spending category, 1 for an income one, so amounts can be shown as positive magnitudes. */
+export type CategoryDirection = -1 | 1;
+
+export interface MonthlyAmount {
+  periodStart: string;
+  amount: number;
+  transactionCount: number;
+}
+
+export interface SeasonalityMonth {
+  /** Calendar month, 0 = January. */
+  month: number;
+  average: number;
+  /** Average for the month relative to the average month; 1 is typical. Null with no history. */
+  index: number | null;
+  /** How many years of this calendar month the average is based on. */
+  samples: number;
+}
+
+export function categoryDirection(stats: CategoryStatisticsDto): CategoryDirection {
+  return stats.totalAmount > 0 ? 1 : -1;
+}
+
+/** The most recent `months` months, as magnitudes in the category's direction. */
+export function monthlyHistory(stats: CategoryStatisticsDto, months: number): MonthlyAmount[] {
+  const direction = categoryDirection(stats);
+  return stats.monthlyTotals.slice(-months).map((total) => ({
+    periodStart: total.periodStart,
+    amount: total.amount * direction,
+    transactionCount: total.transactionCount,
+  }));
+}
+
+/** Months from the first one with a transaction onwards; earlier empty months would drag averages down. */
+function activeMonths(stats: CategoryStatisticsDto): CategoryMonthlyTotalDto[] {
+  if (!stats.firstTransactionDate) return [];
+  const firstMonth = stats.firstTransactionDate.slice(0, 7);
+  return stats.monthlyTotals.filter((total) => total.periodStart.slice(0, 7) >= firstMonth);
+}
+
+export function seasonality(stats: CategoryStatisticsDto): SeasonalityMonth[] {
+  const direction = categoryDirection(stats);
+  const months = activeMonths(stats);
+  const overall = months.length > 0 ? months.reduce((sum, total) => sum + total.amount * direction, 0) / months.length : 0;
+
+  return Array.from({ length: 12 }, (_, month) => {
+    const samples = months.filter((total) => new Date(total.periodStart).getUTCMonth() === month);
+    const average = samples.length > 0 ? samples.reduce((sum, total) => sum + total.amount * direction, 0) / samples.length : 0;
+    return {
+      month,
+      average,
+      index: samples.length > 0 && overall > 0 ? average / overall : null,
+      samples: samples.length,
+    };
+  });
+}
+
+/** Calendar months that run notably above the typical month, highest first. */
+export function peakMonths(months: SeasonalityMonth[], threshold = 1.25): SeasonalityMonth[] {
+  return months
+    .filter((month) => month.index !== null && month.index >= threshold)
+    .sort((a, b) => (b.index ?? 0) - (a.index ?? 0));
+}
+
+export function monthDateRange(periodStart: string): { startDate: string; endDate: string } {
+  const start = new Date(periodStart);
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+  return {
+    startDate: start.toISOString().slice(0, 10),
+    endDate: end.toISOString().slice(0, 10),
+  };
+}
+
+/** Link to the transactions list filtered to the category, optionally narrowed by search text or dates. */
+export function categoryTransactionsHref(
+  categoryId: number,
+  filters: { search?: string; startDate?: string; endDate?: string } = {}
+): string {
+  const params = new URLSearchParams({ categoryId: categoryId.toString() });
+  if (filters.search) params.set('search', filters.search);
+  if (filters.startDate || filters.endDate) {
+    params.set('dateFilter', 'custom');
+    if (filters.startDate) params.set('startDate', filters.startDate);
+    if (filters.endDate) params.set('endDate', filters.endDate);
+  }
+  return `/transactions?${params.toString()}`;
+}
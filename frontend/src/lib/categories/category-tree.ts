@@ -0,0 +1,158 @@
+import type {
+  CategoryDto,
+  CategoryMigrationSummary,
+  CategorySplitTargetRequest,
+  UpdateCategoryRequest,
+} from '@/types/categories';
+
+type TreeCategory = Pick<CategoryDto, 'id' | 'name' | 'parentCategoryId' | 'sortOrder'>;
+
+export interface CategoryTreeRow<T extends TreeCategory> {
+  category: T;
+  depth: number;
+}
+
+/** Split target as edited in the split dialog, before it becomes a request. */
+export interface SplitTargetDraft {
+  key: string;
+  mode: 'existing' | 'new';
+  categoryId?: number;
+  newCategoryName: string;
+  pattern: string;
+}
+
+const byOrderThenName = (a: TreeCategory, b: TreeCategory) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+/**
+ * Flattens categories into display order: each parent followed by its children, any depth.
+ * Categories whose parent isn't in the list are treated as roots.
+ */
+export function flattenCategoryTree<T extends TreeCategory>(categories: T[]): CategoryTreeRow<T>[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<number | undefined, T[]>();
+  for (const category of categories) {
+    const parentId = category.parentCategoryId && ids.has(category.parentCategoryId) ? category.parentCategoryId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const rows: CategoryTreeRow<T>[] = [];
+  const visit = (parentId: number | undefined, depth: number) => {
+    for (const category of [...(children.get(parentId) ?? [])].sort(byOrderThenName)) {
+      rows.push({ category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+}
+
+/** Ids of every category below `categoryId`. */
+export function descendantIds(categories: TreeCategory[], categoryId: number): Set<number> {
+  const descendants = new Set<number>();
+  const pending = [categoryId];
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    for (const category of categories) {
+      if (category.parentCategoryId === parentId && !descendants.has(category.id)) {
+        descendants.add(category.id);
+        pending.push(category.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Whether `categoryId` can be dropped under `parentId` (undefined = top level):
+ * not onto itself, not into its own subtree, and not where it already is.
+ */
+export function canReparent(categories: TreeCategory[], categoryId: number, parentId: number | undefined): boolean {
+  const category = categories.find((candidate) => candidate.id === categoryId);
+  if (!category || category.parentCategoryId === parentId) return false;
+  if (parentId === undefined) return true;
+  return parentId !== categoryId && !descendantIds(categories, categoryId).has(parentId);
+}
+
+/** Update request that keeps every field but the parent, which is what the PUT endpoint expects. */
+export function reparentRequest(category: CategoryDto, parentId: number | undefined): UpdateCategoryRequest {
+  return {
+    id: category.id,
+    name: category.name,
+    description: category.description,
+    color: category.color,
+    icon: category.icon,
+    parentCategoryId: parentId,
+    sortOrder: category.sortOrder,
+    isActive: category.isActive,
+  };
+}
+
+/** Case-insensitive substring match on the description, as the server does it. */
+export function matchesSplitPattern(
+  transaction: { description: string; userDescription?: string },
+  pattern: string
+): boolean {
+  const needle = pattern.trim().toLowerCase();
+  if (!needle) return false;
+  return (
+    transaction.description.toLowerCase().includes(needle) ||
+    (transaction.userDescription?.toLowerCase().includes(needle) ?? false)
+  );
+}
+
+/**
+ * Which draft a transaction will move to, mirroring the server: an explicit selection wins,
+ * otherwise the first draft whose pattern matches. Undefined means it stays in the source.
+ */
+export function splitDestination(
+  transaction: { id: number; description: string; userDescription?: string },
+  drafts: SplitTargetDraft[],
+  selection: Record<number, string>
+): SplitTargetDraft | undefined {
+  const selectedKey = selection[transaction.id];
+  if (selectedKey) return drafts.find((draft) => draft.key === selectedKey);
+  return drafts.find((draft) => matchesSplitPattern(transaction, draft.pattern));
+}
+
+/**
+ * Builds split targets from the drafts and the per-transaction selection.
+ * Drafts without a category, or with nothing to move, are left out.
+ */
+export function buildSplitTargets(
+  drafts: SplitTargetDraft[],
+  selection: Record<number, string>
+): CategorySplitTargetRequest[] {
+  return drafts.flatMap((draft) => {
+    const transactionIds = Object.entries(selection)
+      .filter(([, key]) => key === draft.key)
+      .map(([id]) => Number(id));
+    const pattern = draft.pattern.trim();
+    const newCategoryName = draft.newCategoryName.trim();
+
+    if (draft.mode === 'existing' ? !draft.categoryId : !newCategoryName) return [];
+    if (transactionIds.length === 0 && !pattern) return [];
+
+    return [
+      {
+        ...(draft.mode === 'existing' ? { categoryId: draft.categoryId } : { newCategoryName }),
+        transactionIds,
+        ...(pattern ? { pattern } : {}),
+      },
+    ];
+  });
+}
+
+/** Whether a merge would move anything, or just delete unused categories. */
+export function hasMigrationImpact(summary: CategoryMigrationSummary): boolean {
+  return (
+    summary.transactionCount +
+      summary.splitLineCount +
+      summary.budgetCount +
+      summary.ruleCount +
+      summary.bankCategoryMappingCount +
+      summary.recurringPatternCount +
+      summary.recurringScheduleCount +
+      summary.subcategoryCount >
+    0
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * ISO 4217 codes offered for accounts, wallets and exchange rates. Each has a label under
+ * `accounts.currencies` in the message files.
+ */
+export const CURRENCY_CODES = [
+  'NZD', 'USD', 'EUR', 'GBP', 'AUD', 'CAD', 'BRL', 'JPY',
+  'ARS', 'CLP', 'COP', 'MXN', 'CHF', 'CNY', 'INR', 'SGD',
+  'HKD', 'SEK', 'NOK', 'DKK', 'ZAR',
+] as const;
+
+/**
+ * The offered codes plus any others already in use, so an existing account or rate
+ * in an unlisted currency still shows up in a picker.
+ */
+export function withCurrencies(...inUse: (string | undefined)[]): string[] {
+  const codes: string[] = [...CURRENCY_CODES];
+  inUse.forEach((code) => {
+    if (code && !codes.includes(code)) codes.push(code);
+  });
+  return codes;
+}
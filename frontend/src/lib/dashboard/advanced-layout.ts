@@ -0,0 +1,125 @@
+export type AdvancedCardId =
+  | 'cashflow'
+  | 'runway'
+  | 'netWorth'
+  | 'accountBalances'
+  | 'budgetHealth'
+  | 'wallets'
+  | 'categorization'
+  | 'bills';
+
+/** Default order of the advanced dashboard; new cards are appended to stored layouts. */
+export const ADVANCED_CARD_IDS: AdvancedCardId[] = [
+  'cashflow',
+  'runway',
+  'netWorth',
+  'accountBalances',
+  'budgetHealth',
+  'wallets',
+  'categorization',
+  'bills',
+];
+
+export interface AdvancedLayout {
+  order: AdvancedCardId[];
+  hidden: AdvancedCardId[];
+}
+
+const LAYOUT_KEY_PREFIX = 'mymascada_dashboard_advanced_layout';
+
+export const DEFAULT_ADVANCED_LAYOUT: AdvancedLayout = {
+  order: ADVANCED_CARD_IDS,
+  hidden: [],
+};
+
+function isCardId(value: unknown): value is AdvancedCardId {
+  return typeof value === 'string' && (ADVANCED_CARD_IDS as string[]).includes(value);
+}
+
+/**
+ * Reconciles a stored layout with the current card set: unknown or duplicate
+ * ids are dropped and cards added since the layout was saved go at the end.
+ */
+export function normalizeAdvancedLayout(raw: unknown): AdvancedLayout {
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_ADVANCED_LAYOUT;
+  }
+
+  const { order, hidden } = raw as { order?: unknown; hidden?: unknown };
+  const storedOrder = Array.isArray(order) ? order.filter(isCardId) : [];
+  const nextOrder = Array.from(new Set(storedOrder));
+  ADVANCED_CARD_IDS.forEach((id) => {
+    if (!nextOrder.includes(id)) nextOrder.push(id);
+  });
+
+  const nextHidden = Array.isArray(hidden) ? Array.from(new Set(hidden.filter(isCardId))) : [];
+
+  return { order: nextOrder, hidden: nextHidden };
+}
+
+/** Moves `sourceId` into the slot currently held by `targetId`. */
+export function moveAdvancedCard(
+  layout: AdvancedLayout,
+  sourceId: AdvancedCardId,
+  targetId: AdvancedCardId
+): AdvancedLayout {
+  const sourceIndex = layout.order.indexOf(sourceId);
+  const targetIndex = layout.order.indexOf(targetId);
+  if (sourceIndex === -1 || targetIndex === -1 || sourceIndex === targetIndex) {
+    return layout;
+  }
+
+  const order = [...layout.order];
+  order.splice(sourceIndex, 1);
+  order.splice(targetIndex, 0, sourceId);
+  return { ...layout, order };
+}
+
+/** Moves a card by `offset` positions among the visible cards. */
+export function shiftAdvancedCard(
+  layout: AdvancedLayout,
+  cardId: AdvancedCardId,
+  offset: number
+): AdvancedLayout {
+  const visible = layout.order.filter((id) => !layout.hidden.includes(id));
+  const target = visible[visible.indexOf(cardId) + offset];
+  return target ? moveAdvancedCard(layout, cardId, target) : layout;
+}
+
+export function setAdvancedCardHidden(
+  layout: AdvancedLayout,
+  cardId: AdvancedCardId,
+  hidden: boolean
+): AdvancedLayout {
+  const withoutCard = layout.hidden.filter((id) => id !== cardId);
+  return { ...layout, hidden: hidden ? [...withoutCard, cardId] : withoutCard };
+}
+
+function layoutKey(userId: string): string {
+  return `${LAYOUT_KEY_PREFIX}_${userId}`;
+}
+
+export function loadAdvancedLayout(userId: string): AdvancedLayout {
+  try {
+    const stored = localStorage.getItem(layoutKey(userId));
+    return stored ? normalizeAdvancedLayout(JSON.parse(stored)) : DEFAULT_ADVANCED_LAYOUT;
+  } catch {
+    return DEFAULT_ADVANCED_LAYOUT;
+  }
+}
+
+export function saveAdvancedLayout(userId: string, layout: AdvancedLayout): void {
+  try {
+    localStorage.setItem(layoutKey(userId), JSON.stringify(layout));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+export function clearAdvancedLayout(userId: string): void {
+  try {
+    localStorage.removeItem(layoutKey(userId));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
@@ -0,0 +1,59 @@
+import type { CashflowMonthDto } from '@/types/api-responses';
+
+export interface SparklinePoint {
+  label: string;
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Net worth at the end of each month, walked back from today's net worth by
+ * subtracting each later month's net cashflow. Balance changes that are not
+ * cashflow (revaluations, opening balances) land in the current month.
+ */
+export function buildNetWorthSeries(netWorth: number, months: CashflowMonthDto[]): SparklinePoint[] {
+  const sorted = [...months].sort((a, b) => a.year - b.year || a.month - b.month);
+  const points: SparklinePoint[] = [];
+
+  let value = netWorth;
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    points.unshift({ label: sorted[i].label, value });
+    value -= sorted[i].net;
+  }
+
+  return points;
+}
+
+/**
+ * Daily closing balances for the `days` days ending on `endDate` (YYYY-MM-DD),
+ * walked back from the current balance through the account's transactions.
+ */
+export function buildBalanceSeries(
+  currentBalance: number,
+  transactions: { amount: number; transactionDate: string }[],
+  endDate: string,
+  days: number
+): SparklinePoint[] {
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  const amountsByDay = new Map<string, number>();
+  transactions.forEach((transaction) => {
+    const day = transaction.transactionDate.slice(0, 10);
+    amountsByDay.set(day, (amountsByDay.get(day) ?? 0) + transaction.amount);
+  });
+
+  // Anything dated after the window still has to be unwound first
+  let value = currentBalance;
+  amountsByDay.forEach((amount, day) => {
+    if (day > endDate) value -= amount;
+  });
+
+  const points: SparklinePoint[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(end - offset * DAY_MS).toISOString().slice(0, 10);
+    points.unshift({ label: day, value });
+    value -= amountsByDay.get(day) ?? 0;
+  }
+
+  return points;
+}
@@ -0,0 +1,233 @@
+/**
+ * Debt amortization and payoff projections. Interest compounds monthly at APR / 12 and is
+ * charged before each month's payment. Months are written as "YYYY-MM", counting from the month
+ * after `start`.
+ */
+
+import type { DebtDto } from '@/types/debts';
+
+export type PayoffStrategy = 'avalanche' | 'snowball';
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball'];
+
+/** Projections stop after 50 years; a debt still owed then is treated as never paid off. */
+export const MAX_PAYOFF_MONTHS = 600;
+
+export interface AmortizationRow {
+  month: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  /** Balance owed after the payment. */
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  totalInterest: number;
+  totalPaid: number;
+  /** Months until paid off, or null when the payment never clears the balance. */
+  months: number | null;
+  payoffMonth: string | null;
+}
+
+export interface PlanDebt {
+  id: number;
+  name: string;
+  balance: number;
+  /** Annual percentage rate, e.g. 19.99. */
+  apr: number;
+  minimumPayment: number;
+}
+
+export interface DebtPayoffResult {
+  id: number;
+  name: string;
+  /** Months until this debt is paid off, or null when the plan never clears it. */
+  months: number | null;
+  payoffMonth: string | null;
+  interest: number;
+  /** Position in the order the strategy targets debts with extra money, from 1. */
+  order: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+  /** Total paid each month: every minimum payment plus the extra. */
+  monthlyBudget: number;
+  months: number | null;
+  payoffMonth: string | null;
+  totalInterest: number;
+  debts: DebtPayoffResult[];
+  /** Total balance owed at the end of each month, for charting. */
+  balances: number[];
+}
+
+export interface DebtPayoffPlanSettings {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+}
+
+export const DEFAULT_PAYOFF_PLAN_SETTINGS: DebtPayoffPlanSettings = { strategy: 'avalanche', extraPayment: 0 };
+
+const round = (value: number) => Math.round(value * 100) / 100 || 0;
+
+/** "YYYY-MM" of the month `offset` months after the start date's month. */
+export function addMonths(start: Date, offset: number): string {
+  const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + offset, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/** A "YYYY-MM" month as e.g. "Mar 2028" in the given locale. */
+export function formatPayoffMonth(month: string, locale?: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString(locale, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/** Whole months from the start date's month to a "YYYY-MM" month. */
+export function monthsUntil(start: Date, month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return (year - start.getUTCFullYear()) * 12 + (monthNumber - 1 - start.getUTCMonth());
+}
+
+/** Month-by-month repayment of one debt at a fixed monthly payment. */
+export function getAmortizationSchedule(balance: number, apr: number, payment: number, start: Date): AmortizationSchedule {
+  const rate = apr / 100 / 12;
+  const rows: AmortizationRow[] = [];
+  let owed = round(balance);
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let month = 1; owed > 0 && month <= MAX_PAYOFF_MONTHS; month++) {
+    const interest = round(owed * rate);
+    const paid = round(Math.min(payment, owed + interest));
+    // A payment that doesn't cover the interest never reduces the balance
+    if (paid <= interest) break;
+
+    owed = round(owed + interest - paid);
+    totalInterest += interest;
+    totalPaid += paid;
+    rows.push({ month: addMonths(start, month), payment: paid, interest, principal: round(paid - interest), balance: owed });
+  }
+
+  const paidOff = owed <= 0;
+  return {
+    rows,
+    totalInterest: round(totalInterest),
+    totalPaid: round(totalPaid),
+    months: paidOff ? rows.length : null,
+    payoffMonth: paidOff ? (rows[rows.length - 1]?.month ?? null) : null,
+  };
+}
+
+/** The level monthly payment that clears the balance in the given number of months. */
+export function getRequiredPayment(balance: number, apr: number, months: number): number {
+  if (months <= 0 || balance <= 0) return 0;
+
+  const rate = apr / 100 / 12;
+  const payment = rate === 0 ? balance / months : (balance * rate) / (1 - Math.pow(1 + rate, -months));
+  return Math.ceil(payment * 100) / 100;
+}
+
+/**
+ * Plans debts in the base currency. A debt without terms is planned at 0% with no minimum, so it
+ * is only paid once extra money reaches it.
+ */
+export function toPlanDebts(debts: DebtDto[]): PlanDebt[] {
+  return debts.map((debt) => ({
+    id: debt.accountId,
+    name: debt.name,
+    balance: debt.baseBalance,
+    apr: debt.terms?.annualInterestRate ?? 0,
+    minimumPayment: debt.baseMinimumPayment ?? 0,
+  }));
+}
+
+/** Debts in the order a strategy sends extra money to them. */
+export function orderDebts(debts: PlanDebt[], strategy: PayoffStrategy): PlanDebt[] {
+  return [...debts].sort((a, b) =>
+    strategy === 'avalanche'
+      ? b.apr - a.apr || a.balance - b.balance
+      : a.balance - b.balance || b.apr - a.apr
+  );
+}
+
+/**
+ * Pays every debt's minimum each month and puts the extra payment, plus the minimums of debts
+ * already paid off, toward the first unpaid debt in the strategy's order.
+ */
+export function simulatePayoff(debts: PlanDebt[], strategy: PayoffStrategy, extraPayment: number, start: Date): PayoffPlan {
+  const ordered = orderDebts(debts.filter((debt) => debt.balance > 0), strategy);
+  const monthlyBudget = round(ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0) + Math.max(extraPayment, 0));
+  const owed = ordered.map((debt) => round(debt.balance));
+  const interest = ordered.map(() => 0);
+  const paidOffIn: (number | null)[] = ordered.map(() => null);
+  const balances: number[] = [];
+
+  for (let month = 1; owed.some((balance) => balance > 0) && month <= MAX_PAYOFF_MONTHS; month++) {
+    let available = monthlyBudget;
+
+    ordered.forEach((debt, i) => {
+      if (owed[i] <= 0) return;
+      const charged = round(owed[i] * (debt.apr / 100 / 12));
+      owed[i] = round(owed[i] + charged);
+      interest[i] += charged;
+    });
+
+    // Minimums first, then whatever is left goes down the strategy's order
+    ordered.forEach((debt, i) => {
+      const paid = Math.min(debt.minimumPayment, owed[i], available);
+      owed[i] = round(owed[i] - paid);
+      available = round(available - paid);
+    });
+    ordered.forEach((_, i) => {
+      const paid = Math.min(owed[i], available);
+      owed[i] = round(owed[i] - paid);
+      available = round(available - paid);
+    });
+
+    ordered.forEach((_, i) => {
+      if (owed[i] <= 0 && paidOffIn[i] === null) paidOffIn[i] = month;
+    });
+    balances.push(round(owed.reduce((sum, balance) => sum + balance, 0)));
+
+    // The whole budget is spent every month, so once interest outgrows it the debts only grow
+    if (month > 1 && balances[month - 1] >= balances[month - 2]) break;
+  }
+
+  const allPaid = paidOffIn.every((month) => month !== null);
+  const months = allPaid ? Math.max(0, ...(paidOffIn as number[])) : null;
+
+  return {
+    strategy,
+    extraPayment: Math.max(extraPayment, 0),
+    monthlyBudget,
+    months,
+    payoffMonth: months !== null && months > 0 ? addMonths(start, months) : null,
+    totalInterest: round(interest.reduce((sum, value) => sum + value, 0)),
+    debts: ordered.map((debt, i) => ({
+      id: debt.id,
+      name: debt.name,
+      months: paidOffIn[i],
+      payoffMonth: paidOffIn[i] !== null ? addMonths(start, paidOffIn[i]!) : null,
+      interest: round(interest[i]),
+      order: i + 1,
+    })),
+    balances,
+  };
+}
+
+/** Fills in defaults so a missing or malformed saved plan can't break the planner. */
+export function normalizePayoffPlanSettings(value: unknown): DebtPayoffPlanSettings {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof DebtPayoffPlanSettings, unknown>>;
+
+  return {
+    strategy: PAYOFF_STRATEGIES.includes(raw.strategy as PayoffStrategy)
+      ? (raw.strategy as PayoffStrategy)
+      : DEFAULT_PAYOFF_PLAN_SETTINGS.strategy,
+    extraPayment: typeof raw.extraPayment === 'number' && Number.isFinite(raw.extraPayment) && raw.extraPayment >= 0
+      ? raw.extraPayment
+      : DEFAULT_PAYOFF_PLAN_SETTINGS.extraPayment,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Monthly totals, pace and projected completion worked out from a goal's contributions ledger.
+ * Months are written as "YYYY-MM" in UTC, like the debt payoff projections.
+ */
+
+import type { GoalContribution } from '@/lib/api-client';
+import { addMonths, MAX_PAYOFF_MONTHS, monthsUntil } from '@/lib/debts/payoff';
+
+/** The actual pace is averaged over this many months before the current one. */
+export const PACE_WINDOW_MONTHS = 3;
+
+export interface ContributionMonth {
+  month: string;
+  /** Net contributions in the month. */
+  amount: number;
+  /** Running total at the end of the month. */
+  total: number;
+}
+
+export interface GoalPace {
+  /** Needed each month to reach the target by the deadline; null without a future deadline. */
+  required: number | null;
+  /** Average net contribution per month recently. */
+  actual: number;
+  /** Month the target is reached at the actual pace; null when the pace never gets there. */
+  projectedMonth: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100 || 0;
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+/**
+ * Net contributions per month with a running total, from the first contribution's month up to
+ * the current month. Months without contributions are included so the series can be charted.
+ */
+export function getContributionSeries(contributions: GoalContribution[], today: Date): ContributionMonth[] {
+  if (contributions.length === 0) return [];
+
+  const byMonth = new Map<string, number>();
+  for (const contribution of contributions) {
+    const month = monthOf(contribution.date);
+    byMonth.set(month, (byMonth.get(month) ?? 0) + contribution.amount);
+  }
+
+  const first = [...byMonth.keys()].sort()[0];
+  const start = new Date(`${first}-01T00:00:00Z`);
+  const last = Math.max(monthsUntil(start, addMonths(today, 0)), 0);
+
+  const series: ContributionMonth[] = [];
+  let total = 0;
+  for (let offset = 0; offset <= last; offset++) {
+    const month = addMonths(start, offset);
+    const amount = byMonth.get(month) ?? 0;
+    total += amount;
+    series.push({ month, amount: round(amount), total: round(total) });
+  }
+  return series;
+}
+
+/**
+ * Average net contribution per month over the months before the current one, leaving out the
+ * balances a goal started with. A goal younger than the window is averaged over the months it has
+ * existed, and one started this month over this month alone.
+ */
+export function getAverageMonthlyContribution(
+  contributions: GoalContribution[],
+  today: Date,
+  windowMonths = PACE_WINDOW_MONTHS,
+): number {
+  const counted = contributions.filter((c) => c.source !== 'Adjustment');
+  if (counted.length === 0) return 0;
+
+  const currentMonth = addMonths(today, 0);
+  const first = counted.map((c) => monthOf(c.date)).sort()[0];
+
+  if (first >= currentMonth) {
+    return round(counted.filter((c) => monthOf(c.date) === currentMonth).reduce((sum, c) => sum + c.amount, 0));
+  }
+
+  const earliest = addMonths(today, -windowMonths);
+  const windowStart = first > earliest ? first : earliest;
+  const months = monthsUntil(new Date(`${windowStart}-01T00:00:00Z`), currentMonth);
+  const total = counted
+    .filter((c) => {
+      const month = monthOf(c.date);
+      return month >= windowStart && month < currentMonth;
+    })
+    .reduce((sum, c) => sum + c.amount, 0);
+
+  return round(total / months);
+}
+
+/** Monthly amount that reaches the target by the deadline's month; null when the deadline has passed. */
+export function getRequiredMonthlyPace(remaining: number, deadline: string | undefined, today: Date): number | null {
+  if (!deadline) return null;
+  if (new Date(deadline).getTime() < today.getTime()) return null;
+  if (remaining <= 0) return 0;
+
+  const months = Math.max(monthsUntil(today, monthOf(deadline)), 1);
+  return round(remaining / months);
+}
+
+/** Month the remaining amount is covered at a monthly pace, counting from next month. */
+export function getProjectedCompletionMonth(remaining: number, monthlyPace: number, today: Date): string | null {
+  if (remaining <= 0) return addMonths(today, 0);
+  if (monthlyPace <= 0) return null;
+
+  const months = Math.ceil(remaining / monthlyPace);
+  return months > MAX_PAYOFF_MONTHS ? null : addMonths(today, months);
+}
+
+export function getGoalPace(
+  contributions: GoalContribution[],
+  remaining: number,
+  deadline: string | undefined,
+  today: Date,
+): GoalPace {
+  const actual = getAverageMonthlyContribution(contributions, today);
+  return {
+    required: getRequiredMonthlyPace(remaining, deadline, today),
+    actual,
+    projectedMonth: getProjectedCompletionMonth(remaining, actual, today),
+  };
+}
@@ -9,6 +9,8 @@ import {
 } from '@heroicons/react/24/outline';
 import { formatCurrency } from '@/lib/utils';
 import { EmergencyFundPanel } from '@/components/goals/detail-panels/emergency-fund-panel';
+import { InvestmentPanel } from '@/components/goals/detail-panels/investment-panel';
+import { DebtPayoffPanel } from '@/components/goals/detail-panels/debt-payoff-panel';
 
 // --- Journey stages (presentation order, not user gating) ---
 
@@ -166,6 +168,7 @@ export const GOAL_TYPE_CONFIGS: Record<string, GoalTypeConfig> = {
     },
     journeyStage: 'freedom',
     journeyPriority: 2,
+    DetailPanel: DebtPayoffPanel,
     heroMetric: (goal) => {
       const remaining = goal.targetAmount - goal.currentAmount;
       const deadlineStr =
@@ -193,7 +196,17 @@ export const GOAL_TYPE_CONFIGS: Record<string, GoalTypeConfig> = {
     },
     journeyStage: 'growth',
     journeyPriority: 3,
+    DetailPanel: InvestmentPanel,
     heroMetric: (goal) => {
+      // A linked account's balance includes its holdings, so the goal tracks portfolio value
+      if (goal.linkedAccountName) {
+        return {
+          label: `Portfolio value: ${formatCurrency(goal.currentAmount)}`,
+          value: formatCurrency(goal.currentAmount),
+          subtext: `${goal.progressPercentage.toFixed(0)}% of target in ${goal.linkedAccountName}`,
+        };
+      }
+
       const deadlineStr =
         goal.deadline
           ? new Date(goal.deadline).toLocaleDateString(undefined, {
@@ -7,8 +7,17 @@ import {
   ConflictReason, 
   ConflictResolution,
   ImportReviewItem,
-  TransactionSource
+  TransactionSource,
+  ImportAnalysisOptions,
+  ImportAnalysisProgress,
+  ConflictDetectionLevel
 } from '@/types/import-review';
+import { TransactionMatchIndex } from '@/lib/import/transaction-match-index';
+import { createDescriptionComparer, DescriptionComparer } from '@/lib/import/description-similarity';
+
+type ConflictDetectionOptions = Required<ImportAnalysisOptions> & {
+  compareDescriptions: DescriptionComparer;
+};
 
 /**
  * Enhanced duplicate detection and import analysis service
@@ -18,46 +27,85 @@ export class ImportAnalysisService {
   private static readonly DEFAULT_DATE_TOLERANCE_DAYS = 3;
   private static readonly DEFAULT_AMOUNT_TOLERANCE = 0.01;
   private static readonly DEFAULT_DESCRIPTION_SIMILARITY_THRESHOLD = 0.8;
+  private static readonly EXACT_DESCRIPTION_SIMILARITY_THRESHOLD = 0.95;
+  private static readonly ANALYSIS_CHUNK_SIZE = 250;
 
   /**
-   * Analyzes import candidates and detects conflicts with existing transactions
+   * Analyzes import candidates and detects conflicts with existing transactions.
+   * Works through the candidates in chunks, reporting progress and yielding
+   * between chunks so the analysis can be cancelled through `signal`.
    */
   static async analyzeImportCandidates(
     candidates: ImportCandidate[],
     existingTransactions: Transaction[],
-    options: {
-      dateToleranceDays?: number;
-      amountTolerance?: number;
-      enableTransferDetection?: boolean;
-      conflictDetectionLevel?: 'strict' | 'moderate' | 'relaxed';
+    options: ImportAnalysisOptions = {},
+    control: {
+      onProgress?: (progress: ImportAnalysisProgress) => void;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ImportReviewItem[]> {
-    const {
-      dateToleranceDays = this.DEFAULT_DATE_TOLERANCE_DAYS,
-      amountTolerance = this.DEFAULT_AMOUNT_TOLERANCE,
-      enableTransferDetection = true,
-      conflictDetectionLevel = 'moderate'
-    } = options;
-
-    return candidates.map((candidate, index) => {
-      const conflicts = this.detectConflictsForCandidate(
-        candidate,
-        existingTransactions,
-        {
-          dateToleranceDays,
-          amountTolerance,
-          enableTransferDetection,
-          conflictDetectionLevel
-        }
-      );
-
-      return {
-        id: `import-item-${index}`,
-        importCandidate: candidate,
-        conflicts,
-        reviewDecision: this.suggestInitialDecision(candidate, conflicts),
-        isProcessed: false
-      };
+    const detectionOptions = this.withDefaults(options);
+    const index = this.createMatchIndex(existingTransactions, detectionOptions);
+    const reviewItems: ImportReviewItem[] = [];
+
+    for (let start = 0; start < candidates.length; start += this.ANALYSIS_CHUNK_SIZE) {
+      if (start > 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      control.signal?.throwIfAborted();
+
+      candidates.slice(start, start + this.ANALYSIS_CHUNK_SIZE).forEach((candidate, offset) => {
+        const conflicts = this.detectConflictsForCandidate(candidate, index, detectionOptions);
+        reviewItems.push({
+          id: `import-item-${start + offset}`,
+          importCandidate: candidate,
+          conflicts,
+          reviewDecision: this.suggestInitialDecision(candidate, conflicts),
+          isProcessed: false
+        });
+      });
+
+      control.onProgress?.({ processed: reviewItems.length, total: candidates.length });
+    }
+
+    return reviewItems;
+  }
+
+  private static withDefaults(options: ImportAnalysisOptions): ConflictDetectionOptions {
+    const descriptionMatching = options.descriptionMatching ?? {
+      algorithm: 'levenshtein',
+      normalizeMerchants: false,
+      threshold: this.DEFAULT_DESCRIPTION_SIMILARITY_THRESHOLD
+    };
+
+    return {
+      dateToleranceDays: options.dateToleranceDays ?? this.DEFAULT_DATE_TOLERANCE_DAYS,
+      amountTolerance: options.amountTolerance ?? this.DEFAULT_AMOUNT_TOLERANCE,
+      enableTransferDetection: options.enableTransferDetection ?? true,
+      conflictDetectionLevel: options.conflictDetectionLevel ?? 'moderate',
+      descriptionMatching,
+      compareDescriptions: createDescriptionComparer(
+        descriptionMatching.algorithm,
+        descriptionMatching.normalizeMerchants
+      )
+    };
+  }
+
+  /**
+   * Indexes existing transactions by the widest date window any rule uses:
+   * the caller's tolerance, the manual entry window and the transfer window.
+   */
+  private static createMatchIndex(
+    existingTransactions: Transaction[],
+    options: ConflictDetectionOptions
+  ): TransactionMatchIndex {
+    return new TransactionMatchIndex(existingTransactions, {
+      maxDateToleranceDays: Math.max(
+        options.dateToleranceDays,
+        this.manualEntryToleranceDays(options.conflictDetectionLevel),
+        1
+      ),
+      amountTolerance: Math.max(options.amountTolerance, this.DEFAULT_AMOUNT_TOLERANCE)
     });
   }
 
@@ -66,17 +114,12 @@ export class ImportAnalysisService {
    */
   private static detectConflictsForCandidate(
     candidate: ImportCandidate,
-    existingTransactions: Transaction[],
-    options: {
-      dateToleranceDays: number;
-      amountTolerance: number;
-      enableTransferDetection: boolean;
-      conflictDetectionLevel: 'strict' | 'moderate' | 'relaxed';
-    }
+    index: TransactionMatchIndex,
+    options: ConflictDetectionOptions
   ): ConflictInfo[] {
     const conflicts: ConflictInfo[] = [];
 
-    for (const existing of existingTransactions) {
+    for (const existing of index.candidatesFor(candidate)) {
       const conflict = this.analyzeTransactionPair(candidate, existing, options);
       if (conflict) {
         conflicts.push(conflict);
@@ -93,12 +136,7 @@ export class ImportAnalysisService {
   private static analyzeTransactionPair(
     candidate: ImportCandidate,
     existing: Transaction,
-    options: {
-      dateToleranceDays: number;
-      amountTolerance: number;
-      enableTransferDetection: boolean;
-      conflictDetectionLevel: 'strict' | 'moderate' | 'relaxed';
-    }
+    options: ConflictDetectionOptions
   ): ConflictInfo | null {
     const reasons: ConflictReason[] = [];
     let confidence = 0;
@@ -106,7 +144,7 @@ export class ImportAnalysisService {
     let conflictType: ConflictType | null = null;
 
     // Check for exact duplicates first (highest priority)
-    if (this.isExactDuplicate(candidate, existing)) {
+    if (this.isExactDuplicate(candidate, existing, options)) {
       conflictType = ConflictType.ExactDuplicate;
       confidence = 95;
       matchScore = 1.0;
@@ -132,13 +170,13 @@ export class ImportAnalysisService {
     else if (this.isManualEntryConflict(candidate, existing, options)) {
       conflictType = ConflictType.ManualEntryConflict;
       confidence = 75;
-      matchScore = this.calculateSimilarityScore(candidate, existing);
+      matchScore = this.calculateSimilarityScore(candidate, existing, options.compareDescriptions);
       reasons.push(ConflictReason.ManualEntryMatch);
     }
     // Check for potential duplicates
     else if (this.isPotentialDuplicate(candidate, existing, options)) {
       conflictType = ConflictType.PotentialDuplicate;
-      matchScore = this.calculateSimilarityScore(candidate, existing);
+      matchScore = this.calculateSimilarityScore(candidate, existing, options.compareDescriptions);
       confidence = Math.round(matchScore * 70); // Scale to 0-70 for potential duplicates
 
       if (this.isSameAmountAndDate(candidate, existing, options.dateToleranceDays)) {
@@ -147,7 +185,7 @@ export class ImportAnalysisService {
         reasons.push(ConflictReason.SimilarAmountNearDate);
       }
 
-      if (this.isSimilarDescription(candidate.description, existing.description)) {
+      if (this.isSimilarDescription(candidate.description, existing.description, options)) {
         reasons.push(ConflictReason.SimilarDescription);
       }
     }
@@ -178,7 +216,11 @@ export class ImportAnalysisService {
   /**
    * Checks if two transactions are exact duplicates
    */
-  private static isExactDuplicate(candidate: ImportCandidate, existing: Transaction): boolean {
+  private static isExactDuplicate(
+    candidate: ImportCandidate,
+    existing: Transaction,
+    options: ConflictDetectionOptions
+  ): boolean {
     // Same external ID (most reliable)
     if (candidate.externalId && existing.externalId && 
         candidate.externalId === existing.externalId) {
@@ -191,9 +233,13 @@ export class ImportAnalysisService {
       return true;
     }
 
-    // Exact amount, date, and very similar description
+    // Exact amount, date, and very similar description (never looser than the configured threshold)
+    const exactThreshold = Math.max(
+      this.EXACT_DESCRIPTION_SIMILARITY_THRESHOLD,
+      options.descriptionMatching.threshold
+    );
     if (this.isSameAmountAndDate(candidate, existing, 0) && 
-        this.isSimilarDescription(candidate.description, existing.description, 0.95)) {
+        this.isSimilarDescription(candidate.description, existing.description, options, exactThreshold)) {
       return true;
     }
 
@@ -224,32 +270,31 @@ export class ImportAnalysisService {
   private static isManualEntryConflict(
     candidate: ImportCandidate, 
     existing: Transaction,
-    options: { conflictDetectionLevel: 'strict' | 'moderate' | 'relaxed' }
+    options: { conflictDetectionLevel: ConflictDetectionLevel }
   ): boolean {
     if (existing.source !== TransactionSource.Manual) {
       return false;
     }
 
-    const dateTolerance = options.conflictDetectionLevel === 'strict' ? 1 : 
-                         options.conflictDetectionLevel === 'moderate' ? 2 : 3;
+    const dateTolerance = this.manualEntryToleranceDays(options.conflictDetectionLevel);
 
     return this.isSameAmountAndDate(candidate, existing, dateTolerance);
   }
 
+  private static manualEntryToleranceDays(level: ConflictDetectionLevel): number {
+    return level === 'strict' ? 1 : level === 'moderate' ? 2 : 3;
+  }
+
   /**
    * Checks if transactions are potential duplicates
    */
   private static isPotentialDuplicate(
     candidate: ImportCandidate, 
     existing: Transaction,
-    options: {
-      dateToleranceDays: number;
-      amountTolerance: number;
-      conflictDetectionLevel: 'strict' | 'moderate' | 'relaxed';
-    }
+    options: ConflictDetectionOptions
   ): boolean {
     // Don't flag as potential duplicate if we already identified as exact or other conflict type
-    if (this.isExactDuplicate(candidate, existing) ||
+    if (this.isExactDuplicate(candidate, existing, options) ||
         this.isTransferConflict(candidate, existing) ||
         this.isManualEntryConflict(candidate, existing, options)) {
       return false;
@@ -257,7 +302,12 @@ export class ImportAnalysisService {
 
     return this.isSimilarAmountNearDate(candidate, existing, options) ||
            (this.isSameAmountAndDate(candidate, existing, options.dateToleranceDays) &&
-            this.isSimilarDescription(candidate.description, existing.description, 0.7));
+            this.isSimilarDescription(
+              candidate.description,
+              existing.description,
+              options,
+              options.descriptionMatching.threshold - 0.1
+            ));
   }
 
   /**
@@ -312,20 +362,26 @@ export class ImportAnalysisService {
   }
 
   /**
-   * Checks if two descriptions are similar
+   * Checks if two descriptions are similar, using the configured comparer and
+   * threshold unless a threshold is given
    */
-  private static isSimilarDescription(desc1: string, desc2: string, threshold = 0.8): boolean {
-    const similarity = this.calculateStringSimilarity(
-      desc1.toLowerCase().trim(),
-      desc2.toLowerCase().trim()
-    );
-    return similarity >= threshold;
+  private static isSimilarDescription(
+    desc1: string,
+    desc2: string,
+    options: ConflictDetectionOptions,
+    threshold = options.descriptionMatching.threshold
+  ): boolean {
+    return options.compareDescriptions(desc1, desc2) >= threshold;
   }
 
   /**
    * Calculates overall similarity score between candidate and existing transaction
    */
-  private static calculateSimilarityScore(candidate: ImportCandidate, existing: Transaction): number {
+  private static calculateSimilarityScore(
+    candidate: ImportCandidate,
+    existing: Transaction,
+    compareDescriptions: DescriptionComparer = createDescriptionComparer('levenshtein', false)
+  ): number {
     let score = 0;
     let factors = 0;
 
@@ -347,43 +403,13 @@ export class ImportAnalysisService {
     factors += 0.3;
 
     // Description similarity (30% weight)
-    const descSimilarity = this.calculateStringSimilarity(
-      candidate.description.toLowerCase(),
-      existing.description.toLowerCase()
-    );
+    const descSimilarity = compareDescriptions(candidate.description, existing.description);
     score += descSimilarity * 0.3;
     factors += 0.3;
 
     return factors > 0 ? score / factors : 0;
   }
 
-  /**
-   * Calculates string similarity using Levenshtein distance
-   */
-  private static calculateStringSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1;
-    if (str1.length === 0 || str2.length === 0) return 0;
-
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + substitutionCost // substitution
-        );
-      }
-    }
-
-    const maxLength = Math.max(str1.length, str2.length);
-    return 1 - (matrix[str2.length][str1.length] / maxLength);
-  }
-
   /**
    * Suggests initial decision for a review item
    */
@@ -467,17 +493,11 @@ export class ImportAnalysisService {
     candidates: ImportCandidate[],
     existingTransactions: Partial<Transaction>[]
   ): { importCandidate: ImportCandidate; conflicts: ConflictInfo[] }[] {
+    const options = ImportAnalysisService.withDefaults({});
+    const index = ImportAnalysisService.createMatchIndex(existingTransactions as Transaction[], options);
+
     return candidates.map(candidate => {
-      const conflicts = ImportAnalysisService.detectConflictsForCandidate(
-        candidate,
-        existingTransactions as Transaction[],
-        {
-          dateToleranceDays: ImportAnalysisService.DEFAULT_DATE_TOLERANCE_DAYS,
-          amountTolerance: ImportAnalysisService.DEFAULT_AMOUNT_TOLERANCE,
-          enableTransferDetection: true,
-          conflictDetectionLevel: 'moderate'
-        }
-      );
+      const conflicts = ImportAnalysisService.detectConflictsForCandidate(candidate, index, options);
       return { importCandidate: candidate, conflicts };
     });
   }
@@ -0,0 +1,152 @@
+import {
+  StatementIssue,
+  StatementParseError,
+  StatementParseResult,
+  createStatementCandidate,
+  parseStatementAmount,
+} from './statement-common';
+
+// Element lookups go by local name so every camt.053.001.xx namespace version reads the same
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.localName === name);
+}
+
+function findPath(parent: Element | undefined, ...names: string[]): Element | undefined {
+  let current = parent;
+  for (const name of names) {
+    if (!current) return undefined;
+    current = childElements(current, name)[0];
+  }
+  return current;
+}
+
+function textAt(parent: Element | undefined, ...names: string[]): string | undefined {
+  const value = findPath(parent, ...names)?.textContent?.trim();
+  return value || undefined;
+}
+
+/** First `Nm` anywhere below the element, which covers both the 001.02 and 001.08 party layouts. */
+function partyName(party: Element | undefined): string | undefined {
+  if (!party) return undefined;
+  const name = Array.from(party.getElementsByTagNameNS('*', 'Nm'))[0]?.textContent?.trim();
+  return name || undefined;
+}
+
+function bookingDate(entry: Element): string | undefined {
+  const raw =
+    textAt(entry, 'BookgDt', 'Dt') ??
+    textAt(entry, 'BookgDt', 'DtTm') ??
+    textAt(entry, 'ValDt', 'Dt') ??
+    textAt(entry, 'ValDt', 'DtTm');
+  const match = raw ? /^(\d{4}-\d{2}-\d{2})/.exec(raw) : null;
+  return match ? match[1] : undefined;
+}
+
+export function parseCamt053(content: string): StatementParseResult {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new StatementParseError('camt053', 'The file is not well-formed XML.');
+  }
+
+  const root = document.documentElement;
+  const report = root.localName === 'Document' ? childElements(root, 'BkToCstmrStmt')[0] : undefined;
+  if (!report) {
+    const found = root.localName === 'Document' ? root.firstElementChild?.localName : root.localName;
+    throw new StatementParseError(
+      'camt053',
+      `Expected a CAMT.053 bank-to-customer statement (BkToCstmrStmt), found ${found ?? 'an empty document'}.`
+    );
+  }
+
+  const statements = childElements(report, 'Stmt');
+  if (statements.length === 0) {
+    throw new StatementParseError('camt053', 'The CAMT.053 file contains no statements.');
+  }
+
+  const errors: StatementIssue[] = [];
+  const warnings: StatementIssue[] = [];
+  const result: StatementParseResult = { format: 'camt053', candidates: [], errors, warnings };
+
+  let entryIndex = 0;
+  statements.forEach((statement) => {
+    const statementId = textAt(statement, 'Id') ?? `#${statements.indexOf(statement) + 1}`;
+    const accountCurrency = textAt(statement, 'Acct', 'Ccy');
+    result.account ??= {
+      identifier: textAt(statement, 'Acct', 'Id', 'IBAN') ?? textAt(statement, 'Acct', 'Id', 'Othr', 'Id'),
+      name: textAt(statement, 'Acct', 'Nm'),
+      currency: accountCurrency,
+    };
+
+    childElements(statement, 'Ntry').forEach((entry) => {
+      const index = entryIndex++;
+      const label = `Statement ${statementId}, entry ${childElements(statement, 'Ntry').indexOf(entry) + 1}`;
+
+      const status = textAt(entry, 'Sts', 'Cd') ?? textAt(entry, 'Sts');
+      if (status && status !== 'BOOK') {
+        warnings.push({ message: `${label}: skipped because its status is ${status}, not booked.` });
+        return;
+      }
+
+      const amountElement = findPath(entry, 'Amt');
+      const amount = amountElement ? parseStatementAmount(amountElement.textContent ?? '') : null;
+      if (amount === null) {
+        errors.push({ message: `${label}: missing or unreadable amount.` });
+        return;
+      }
+
+      const direction = textAt(entry, 'CdtDbtInd');
+      if (direction !== 'CRDT' && direction !== 'DBIT') {
+        errors.push({ message: `${label}: credit/debit indicator must be CRDT or DBIT.` });
+        return;
+      }
+
+      const date = bookingDate(entry);
+      if (!date) {
+        errors.push({ message: `${label}: missing booking and value date.` });
+        return;
+      }
+
+      const currency = amountElement?.getAttribute('Ccy');
+      if (accountCurrency && currency && currency !== accountCurrency) {
+        warnings.push({ message: `${label}: amount is in ${currency} but the account is in ${accountCurrency}.` });
+      }
+
+      const details = findPath(entry, 'NtryDtls');
+      const transactions = details ? childElements(details, 'TxDtls') : [];
+      if (transactions.length > 1) {
+        warnings.push({ message: `${label}: batch of ${transactions.length} payments imported as one transaction.` });
+      }
+      const transaction = transactions[0];
+
+      // The counterparty is the creditor on money going out and the debtor on money coming in
+      const counterparty = partyName(
+        findPath(transaction, 'RltdPties', direction === 'DBIT' ? 'Cdtr' : 'Dbtr')
+      );
+      const remittance = transaction
+        ? childElements(findPath(transaction, 'RmtInf') ?? transaction, 'Ustrd')
+            .map((element) => element.textContent?.trim())
+            .filter(Boolean)
+            .join(' ')
+        : '';
+      const additionalInfo = textAt(entry, 'AddtlNtryInf') ?? textAt(transaction, 'AddtlTxInf');
+      const endToEndId = textAt(transaction, 'Refs', 'EndToEndId');
+
+      result.candidates.push(
+        createStatementCandidate(
+          {
+            amount: direction === 'DBIT' ? -Math.abs(amount) : Math.abs(amount),
+            date,
+            description: counterparty ?? (remittance || additionalInfo || ''),
+            notes: counterparty ? remittance || additionalInfo : undefined,
+            referenceNumber: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+            externalId: textAt(entry, 'AcctSvcrRef') ?? textAt(transaction, 'Refs', 'AcctSvcrRef'),
+          },
+          index
+        )
+      );
+    });
+  });
+
+  return result;
+}
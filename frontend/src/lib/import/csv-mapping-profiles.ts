@@ -0,0 +1,260 @@
+export interface CsvTypeValueMappings {
+  incomeValues: string[];
+  expenseValues: string[];
+}
+
+/** Everything the mapping review needs to import a CSV without asking again. */
+export interface CsvProfileMappings {
+  dateColumn?: string;
+  amountColumn?: string;
+  descriptionColumn?: string;
+  typeColumn?: string;
+  balanceColumn?: string;
+  referenceColumn?: string;
+  categoryColumn?: string;
+  dateFormat: string;
+  amountConvention: string;
+  typeValueMappings?: CsvTypeValueMappings;
+}
+
+export interface CsvMappingProfile {
+  id: string;
+  name: string;
+  /** Header row of the file the profile was saved from, in file order. */
+  headers: string[];
+  fingerprint: string;
+  mappings: CsvProfileMappings;
+  defaultAccountId?: number;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+}
+
+export type CsvMappingProfileDraft = Pick<CsvMappingProfile, 'name' | 'headers' | 'mappings' | 'defaultAccountId'> & {
+  id?: string;
+};
+
+interface CsvMappingProfilesFile {
+  version: number;
+  exportedAt: string;
+  profiles: CsvMappingProfile[];
+}
+
+export const CSV_MAPPING_PROFILES_FILE_VERSION = 1;
+
+const PROFILES_KEY_PREFIX = 'mymascada_csv_mapping_profiles';
+
+const COLUMN_FIELDS = [
+  'dateColumn',
+  'amountColumn',
+  'descriptionColumn',
+  'typeColumn',
+  'balanceColumn',
+  'referenceColumn',
+  'categoryColumn',
+] as const;
+
+export class CsvMappingProfileImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvMappingProfileImportError';
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').replace(/^"|"$/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Identifies a bank's export layout by its header row. Case, spacing, quotes
+ * and column order are ignored, since mappings refer to columns by name.
+ */
+export function fingerprintCsvHeaders(headers: string[]): string {
+  return Array.from(new Set(headers.map(normalizeHeader).filter(Boolean)))
+    .sort()
+    .join('|');
+}
+
+/**
+ * Profiles saved for this header layout, most recently used first. Several
+ * profiles can share a layout when one bank's export feeds different accounts.
+ */
+export function findCsvMappingProfiles(profiles: CsvMappingProfile[], headers: string[]): CsvMappingProfile[] {
+  const fingerprint = fingerprintCsvHeaders(headers);
+  if (!fingerprint) return [];
+
+  const usedAt = (profile: CsvMappingProfile) => profile.lastUsedAt ?? profile.updatedAt;
+  return profiles
+    .filter((profile) => profile.fingerprint === fingerprint)
+    .sort((a, b) => usedAt(b).localeCompare(usedAt(a)));
+}
+
+/** Adds a new profile, or replaces the one with the draft's id. */
+export function upsertCsvMappingProfile(
+  profiles: CsvMappingProfile[],
+  draft: CsvMappingProfileDraft,
+  now = new Date().toISOString()
+): { profiles: CsvMappingProfile[]; profile: CsvMappingProfile } {
+  const existing = draft.id ? profiles.find((profile) => profile.id === draft.id) : undefined;
+  const profile: CsvMappingProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: draft.name.trim(),
+    headers: draft.headers,
+    fingerprint: fingerprintCsvHeaders(draft.headers),
+    mappings: draft.mappings,
+    defaultAccountId: draft.defaultAccountId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastUsedAt: now,
+  };
+
+  return {
+    profiles: existing
+      ? profiles.map((candidate) => (candidate.id === existing.id ? profile : candidate))
+      : [...profiles, profile],
+    profile,
+  };
+}
+
+export function exportCsvMappingProfiles(profiles: CsvMappingProfile[]): string {
+  const file: CsvMappingProfilesFile = {
+    version: CSV_MAPPING_PROFILES_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function readMappings(raw: unknown): CsvProfileMappings | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  if (typeof source.dateFormat !== 'string' || typeof source.amountConvention !== 'string') return null;
+
+  const mappings: CsvProfileMappings = {
+    dateFormat: source.dateFormat,
+    amountConvention: source.amountConvention,
+  };
+  for (const field of COLUMN_FIELDS) {
+    const value = source[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') return null;
+    mappings[field] = value;
+  }
+
+  const typeValues = source.typeValueMappings as Record<string, unknown> | undefined;
+  if (typeValues) {
+    if (!isStringArray(typeValues.incomeValues) || !isStringArray(typeValues.expenseValues)) return null;
+    mappings.typeValueMappings = {
+      incomeValues: typeValues.incomeValues,
+      expenseValues: typeValues.expenseValues,
+    };
+  }
+  return mappings;
+}
+
+function readProfile(raw: unknown): CsvMappingProfile | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  const mappings = readMappings(source.mappings);
+  if (
+    typeof source.id !== 'string' ||
+    typeof source.name !== 'string' ||
+    !source.name.trim() ||
+    !isStringArray(source.headers) ||
+    source.headers.length === 0 ||
+    !mappings
+  ) {
+    return null;
+  }
+
+  const createdAt = typeof source.createdAt === 'string' ? source.createdAt : new Date(0).toISOString();
+  return {
+    id: source.id,
+    name: source.name.trim(),
+    headers: source.headers,
+    // Recomputed so profiles from older builds or other tools still match
+    fingerprint: fingerprintCsvHeaders(source.headers),
+    mappings,
+    defaultAccountId: typeof source.defaultAccountId === 'number' ? source.defaultAccountId : undefined,
+    createdAt,
+    updatedAt: typeof source.updatedAt === 'string' ? source.updatedAt : createdAt,
+    lastUsedAt: typeof source.lastUsedAt === 'string' ? source.lastUsedAt : undefined,
+  };
+}
+
+/**
+ * Reads an exported profiles file. Throws for files that are not a profiles
+ * export at all; individual malformed profiles are counted and skipped.
+ */
+export function parseCsvMappingProfilesFile(json: string): { profiles: CsvMappingProfile[]; skipped: number } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new CsvMappingProfileImportError('The file is not valid JSON.');
+  }
+
+  const file = raw as Partial<CsvMappingProfilesFile> | null;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.profiles)) {
+    throw new CsvMappingProfileImportError('The file does not contain CSV mapping profiles.');
+  }
+  if (typeof file.version !== 'number' || file.version > CSV_MAPPING_PROFILES_FILE_VERSION) {
+    throw new CsvMappingProfileImportError(`Unsupported profiles file version: ${String(file.version)}.`);
+  }
+
+  const profiles = file.profiles.map(readProfile).filter((profile): profile is CsvMappingProfile => !!profile);
+  return { profiles, skipped: file.profiles.length - profiles.length };
+}
+
+/**
+ * Merges imported profiles into the stored ones. A profile with the same id,
+ * or the same name for the same header layout, is replaced rather than duplicated.
+ */
+export function mergeCsvMappingProfiles(
+  existing: CsvMappingProfile[],
+  incoming: CsvMappingProfile[]
+): CsvMappingProfile[] {
+  const merged = [...existing];
+  incoming.forEach((profile) => {
+    const index = merged.findIndex(
+      (candidate) =>
+        candidate.id === profile.id ||
+        (candidate.fingerprint === profile.fingerprint &&
+          candidate.name.toLowerCase() === profile.name.toLowerCase())
+    );
+    if (index === -1) {
+      merged.push(profile);
+    } else {
+      merged[index] = { ...profile, id: merged[index].id };
+    }
+  });
+  return merged;
+}
+
+function profilesKey(userId: string): string {
+  return `${PROFILES_KEY_PREFIX}_${userId}`;
+}
+
+export function loadCsvMappingProfiles(userId: string): CsvMappingProfile[] {
+  try {
+    const stored = localStorage.getItem(profilesKey(userId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.map(readProfile).filter((profile): profile is CsvMappingProfile => !!profile)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCsvMappingProfiles(userId: string, profiles: CsvMappingProfile[]): void {
+  try {
+    localStorage.setItem(profilesKey(userId), JSON.stringify(profiles));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
@@ -0,0 +1,149 @@
+import type { SimilarityAlgorithm } from '@/types/import-review';
+
+export const SIMILARITY_ALGORITHMS: SimilarityAlgorithm[] = ['levenshtein', 'tokenSet', 'jaroWinkler'];
+
+export type DescriptionComparer = (left: string, right: string) => number;
+
+const MONTHS = 'jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec';
+
+// Order matters: full card numbers before dates, so 4-4-4-4 groups aren't read as dates
+const MERCHANT_NOISE: RegExp[] = [
+  // Full or masked card numbers: 4111 1111 1111 1111, xxxx-1234, ****1234, card ending 1234
+  /\b\d{4}(?:[\s-]?\d{4}){2,3}\b/g,
+  /[x*]{2,}[\s-]?\d{2,4}\b/g,
+  /\bcard\s*(?:no\.?|number|ending(?:\s+in)?|#)?\s*\d{4}\b/g,
+  // Dates and times: 12/03/2024, 2024-03-12, 12.03, 12mar24, 14:32:05
+  /\b\d{1,4}[/.-]\d{1,2}(?:[/.-]\d{2,4})?\b/g,
+  new RegExp(`\\b\\d{1,2}\\s?(?:${MONTHS})[a-z]*\\s?(?:\\d{2,4})?\\b`, 'g'),
+  /\b\d{1,2}:\d{2}(?::\d{2})?\b/g,
+  // Terminal and store identifiers: TID 12345678, terminal: A123, store #0042
+  /\b(?:tid|term(?:inal)?|store|shop|branch)\s*(?:id|no\.?)?\s*[:#]?\s*[a-z]*\d[a-z0-9]*\b/g,
+  /#\s*\d+/g,
+  // Any other long number (references, receipt numbers)
+  /\b\d{5,}\b/g,
+];
+
+/**
+ * Reduces a bank description to the merchant name by dropping the parts
+ * that change between otherwise identical transactions: card numbers,
+ * dates, times, terminal IDs and reference numbers.
+ */
+export function normalizeMerchantDescription(description: string): string {
+  let normalized = description.toLowerCase();
+  for (const pattern of MERCHANT_NOISE) {
+    normalized = normalized.replace(pattern, ' ');
+  }
+  return normalized
+    .replace(/[^a-z0-9&\u00c0-\u024f]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** 1 minus the edit distance relative to the longer string. */
+export function levenshteinSimilarity(left: string, right: string): number {
+  if (left === right) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+
+  // Two rolling rows instead of the full matrix
+  let previous = Array.from({ length: left.length + 1 }, (_, i) => i);
+  for (let j = 1; j <= right.length; j++) {
+    const current = [j];
+    for (let i = 1; i <= left.length; i++) {
+      const substitutionCost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[i] = Math.min(current[i - 1] + 1, previous[i] + 1, previous[i - 1] + substitutionCost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[left.length] / Math.max(left.length, right.length);
+}
+
+/** Jaro-Winkler similarity, which rewards a shared prefix of up to four characters. */
+export function jaroWinklerSimilarity(left: string, right: string): number {
+  if (left === right) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(left.length, right.length) / 2) - 1);
+  const leftMatched = new Array<boolean>(left.length).fill(false);
+  const rightMatched = new Array<boolean>(right.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < left.length; i++) {
+    const end = Math.min(i + window + 1, right.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (rightMatched[j] || left[i] !== right[j]) continue;
+      leftMatched[i] = true;
+      rightMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < left.length; i++) {
+    if (!leftMatched[i]) continue;
+    while (!rightMatched[j]) j++;
+    if (left[i] !== right[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / left.length + matches / right.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Token-set ratio: compares the shared words with each side's full word set,
+ * so word order and extra words on one side ("countdown" vs "countdown
+ * ponsonby auckland") count for little.
+ */
+export function tokenSetSimilarity(left: string, right: string): number {
+  if (left === right) return 1;
+
+  const leftTokens = new Set(left.split(/\s+/).filter(Boolean));
+  const rightTokens = new Set(right.split(/\s+/).filter(Boolean));
+  if (leftTokens.size === 0 || rightTokens.size === 0) return 0;
+
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).sort();
+  const leftOnly = [...leftTokens].filter((token) => !rightTokens.has(token)).sort();
+  const rightOnly = [...rightTokens].filter((token) => !leftTokens.has(token)).sort();
+
+  const base = shared.join(' ');
+  const leftCombined = [base, ...leftOnly].filter(Boolean).join(' ');
+  const rightCombined = [base, ...rightOnly].filter(Boolean).join(' ');
+
+  return Math.max(
+    base ? levenshteinSimilarity(base, leftCombined) : 0,
+    base ? levenshteinSimilarity(base, rightCombined) : 0,
+    levenshteinSimilarity(leftCombined, rightCombined)
+  );
+}
+
+const ALGORITHMS: Record<SimilarityAlgorithm, DescriptionComparer> = {
+  levenshtein: levenshteinSimilarity,
+  tokenSet: tokenSetSimilarity,
+  jaroWinkler: jaroWinklerSimilarity,
+};
+
+/**
+ * Builds the comparer duplicate detection uses for descriptions. Inputs are
+ * lower-cased and trimmed; with `normalizeMerchants` they are reduced to the
+ * merchant name first.
+ */
+export function createDescriptionComparer(
+  algorithm: SimilarityAlgorithm,
+  normalizeMerchants: boolean
+): DescriptionComparer {
+  const compare = ALGORITHMS[algorithm] ?? levenshteinSimilarity;
+  const prepare = normalizeMerchants
+    ? normalizeMerchantDescription
+    : (description: string) => description.toLowerCase().trim();
+
+  return (left, right) => compare(prepare(left), prepare(right));
+}
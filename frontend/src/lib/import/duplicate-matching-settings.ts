@@ -0,0 +1,147 @@
+import type {
+  ConflictDetectionLevel,
+  DescriptionMatchingOptions,
+  ImportCandidate,
+  SimilarityAlgorithm,
+  Transaction,
+} from '@/types/import-review';
+import { createDescriptionComparer, SIMILARITY_ALGORITHMS } from './description-similarity';
+import { TransactionMatchIndex } from './transaction-match-index';
+
+export interface DuplicateMatchingSettings extends DescriptionMatchingOptions {
+  conflictDetectionLevel: ConflictDetectionLevel;
+}
+
+/** A pair of descriptions the preview scores, e.g. an import row and the transaction it may duplicate. */
+export interface DescriptionPair {
+  id: string;
+  left: string;
+  right: string;
+}
+
+export interface DescriptionPairPreview extends DescriptionPair {
+  score: number;
+  matches: boolean;
+}
+
+// Matches the behaviour before matching became configurable
+export const DEFAULT_DUPLICATE_MATCHING_SETTINGS: DuplicateMatchingSettings = {
+  algorithm: 'levenshtein',
+  normalizeMerchants: false,
+  threshold: 0.8,
+  conflictDetectionLevel: 'moderate',
+};
+
+export const PREVIEW_THRESHOLDS = [0.6, 0.7, 0.8, 0.9];
+
+const LEVELS: ConflictDetectionLevel[] = ['strict', 'moderate', 'relaxed'];
+const MIN_THRESHOLD = 0.5;
+const MAX_THRESHOLD = 1;
+
+/** Fills in defaults and clamps values, so stale or hand-edited storage can't break detection. */
+export function normalizeDuplicateMatchingSettings(value: unknown): DuplicateMatchingSettings {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof DuplicateMatchingSettings, unknown>>;
+  const defaults = DEFAULT_DUPLICATE_MATCHING_SETTINGS;
+
+  return {
+    algorithm: SIMILARITY_ALGORITHMS.includes(raw.algorithm as SimilarityAlgorithm)
+      ? (raw.algorithm as SimilarityAlgorithm)
+      : defaults.algorithm,
+    normalizeMerchants: typeof raw.normalizeMerchants === 'boolean' ? raw.normalizeMerchants : defaults.normalizeMerchants,
+    threshold: typeof raw.threshold === 'number' && Number.isFinite(raw.threshold)
+      ? Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, raw.threshold))
+      : defaults.threshold,
+    conflictDetectionLevel: LEVELS.includes(raw.conflictDetectionLevel as ConflictDetectionLevel)
+      ? (raw.conflictDetectionLevel as ConflictDetectionLevel)
+      : defaults.conflictDetectionLevel,
+  };
+}
+
+export function toDescriptionMatchingOptions(settings: DuplicateMatchingSettings): DescriptionMatchingOptions {
+  return {
+    algorithm: settings.algorithm,
+    normalizeMerchants: settings.normalizeMerchants,
+    threshold: settings.threshold,
+  };
+}
+
+/** Scores each pair with the given settings, highest score first. */
+export function previewDescriptionMatches(
+  pairs: DescriptionPair[],
+  settings: DescriptionMatchingOptions
+): DescriptionPairPreview[] {
+  const compare = createDescriptionComparer(settings.algorithm, settings.normalizeMerchants);
+
+  return pairs
+    .map((pair) => {
+      const score = compare(pair.left, pair.right);
+      return { ...pair, score, matches: score >= settings.threshold };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/** How many of the scored pairs would match at each of the given thresholds. */
+export function countMatchesByThreshold(
+  previews: Pick<DescriptionPairPreview, 'score'>[],
+  thresholds: number[] = PREVIEW_THRESHOLDS
+): { threshold: number; count: number }[] {
+  return thresholds.map((threshold) => ({
+    threshold,
+    count: previews.filter((preview) => preview.score >= threshold).length,
+  }));
+}
+
+/**
+ * Pairs each import candidate with the existing transactions close enough in
+ * date and amount for the description to decide whether they're duplicates.
+ * Identical description pairs are listed once.
+ */
+export function collectImportDescriptionPairs(
+  candidates: ImportCandidate[],
+  existingTransactions: Transaction[],
+  limit = 50
+): DescriptionPair[] {
+  const index = new TransactionMatchIndex(existingTransactions, {
+    maxDateToleranceDays: 3,
+    amountTolerance: 0.01,
+  });
+  const seen = new Set<string>();
+  const pairs: DescriptionPair[] = [];
+
+  for (const candidate of candidates) {
+    for (const existing of index.candidatesFor(candidate)) {
+      const key = `${candidate.description}\u0000${existing.description}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      pairs.push({
+        id: `${candidate.sourceRowIndex}-${existing.id}`,
+        left: candidate.description,
+        right: existing.description,
+      });
+      if (pairs.length >= limit) return pairs;
+    }
+  }
+
+  return pairs;
+}
+
+function storageKey(userId: string): string {
+  return `mymascada_duplicate_matching_settings_${userId}`;
+}
+
+export function loadDuplicateMatchingSettings(userId: string): DuplicateMatchingSettings {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return normalizeDuplicateMatchingSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_DUPLICATE_MATCHING_SETTINGS;
+  }
+}
+
+export function saveDuplicateMatchingSettings(userId: string, settings: DuplicateMatchingSettings): void {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(settings));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
@@ -0,0 +1,86 @@
+import { ImportAnalysisService } from '@/lib/import-analysis-service';
+import type {
+  ConflictCheckRequest,
+  ImportAnalysisProgress,
+  ImportReviewItem,
+} from '@/types/import-review';
+
+export type ImportAnalysisWorkerMessage =
+  | { type: 'progress'; progress: ImportAnalysisProgress }
+  | { type: 'result'; reviewItems: ImportReviewItem[] }
+  | { type: 'error'; message: string };
+
+interface RunImportAnalysisOptions {
+  onProgress?: (progress: ImportAnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./import-analysis.worker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('Import analysis worker unavailable, analyzing on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Detects import conflicts in a Web Worker so large statements don't block
+ * the page. Aborting the signal terminates the worker and rejects with the
+ * abort reason. Falls back to chunked analysis on the main thread where
+ * workers are unavailable (tests, very old browsers).
+ */
+export function runImportAnalysis(
+  request: ConflictCheckRequest,
+  { onProgress, signal }: RunImportAnalysisOptions = {}
+): Promise<ImportReviewItem[]> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  const worker = createWorker();
+  if (!worker) {
+    return ImportAnalysisService.analyzeImportCandidates(
+      request.candidates,
+      request.existingTransactions,
+      request.options,
+      { onProgress, signal }
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent<ImportAnalysisWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          finish();
+          resolve(message.reviewItems);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Import analysis worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
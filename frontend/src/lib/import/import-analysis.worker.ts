@@ -0,0 +1,22 @@
+import { ImportAnalysisService } from '@/lib/import-analysis-service';
+import type { ConflictCheckRequest } from '@/types/import-review';
+import type { ImportAnalysisWorkerMessage } from './import-analysis-runner';
+
+// Started by runImportAnalysis; one request per worker, which is terminated to cancel
+
+const post = (message: ImportAnalysisWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ConflictCheckRequest>) => {
+  const { candidates, existingTransactions, options } = event.data;
+  try {
+    const reviewItems = await ImportAnalysisService.analyzeImportCandidates(
+      candidates,
+      existingTransactions,
+      options,
+      { onProgress: (progress) => post({ type: 'progress', progress }) }
+    );
+    post({ type: 'result', reviewItems });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
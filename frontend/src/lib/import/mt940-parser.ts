@@ -0,0 +1,207 @@
+import {
+  StatementIssue,
+  StatementParseError,
+  StatementParseResult,
+  createStatementCandidate,
+  parseStatementAmount,
+  toIsoDate,
+} from './statement-common';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+// :61: value date, optional entry date, mark, optional funds code, amount, type, references
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// :60F:/:62F: balances — mark, date, currency, amount
+const BALANCE = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)$/;
+
+function readFields(content: string): Mt940Field[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const fields: Mt940Field[] = [];
+
+  lines.forEach((rawLine, index) => {
+    // SWIFT envelopes wrap the text block in {1:…}{2:…}{4: … -}
+    const line = rawLine.replace(/^(\{\d:[^}]*\})*\{4:/, '').trimEnd();
+    if (!line || line === '-' || line === '-}' || /^\{\d:/.test(line)) return;
+
+    const tag = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2], line: index + 1 });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  return fields;
+}
+
+function swiftDate(raw: string): string | null {
+  const year = Number(raw.slice(0, 2));
+  return toIsoDate(year < 80 ? 2000 + year : 1900 + year, Number(raw.slice(2, 4)), Number(raw.slice(4, 6)));
+}
+
+/**
+ * Reads `:86:` information. German banks structure it as `?20`…`?29`
+ * remittance lines and `?32`/`?33` counterparty name; everything else is
+ * kept as free text.
+ */
+function readInformation(raw: string): { counterparty?: string; text: string } {
+  const joined = raw.replace(/\n/g, '');
+  if (!/^\d{3}\?/.test(joined) && !joined.startsWith('?')) {
+    return { text: raw.replace(/\n/g, ' ').trim() };
+  }
+
+  const subfields = new Map<string, string>();
+  joined
+    .split('?')
+    .slice(1)
+    .forEach((part) => {
+      const code = part.slice(0, 2);
+      subfields.set(code, (subfields.get(code) ?? '') + part.slice(2));
+    });
+
+  const remittance = Array.from({ length: 10 }, (_, i) => subfields.get(String(20 + i)) ?? '')
+    .join('')
+    .trim();
+  const counterparty = `${subfields.get('32') ?? ''}${subfields.get('33') ?? ''}`.trim();
+  return {
+    counterparty: counterparty || undefined,
+    text: remittance || subfields.get('00')?.trim() || '',
+  };
+}
+
+function balanceAmount(raw: string | undefined): { amount: number; currency: string } | null {
+  const match = raw ? BALANCE.exec(raw.trim()) : null;
+  const amount = match ? parseStatementAmount(match[4]) : null;
+  if (!match || amount === null) return null;
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+}
+
+export function parseMt940(content: string): StatementParseResult {
+  const fields = readFields(content);
+  if (!fields.some((field) => field.tag === '20') || !fields.some((field) => field.tag === '25')) {
+    throw new StatementParseError(
+      'mt940',
+      'The file has no :20: and :25: fields, so it is not an MT940 statement.'
+    );
+  }
+
+  const errors: StatementIssue[] = [];
+  const warnings: StatementIssue[] = [];
+  const result: StatementParseResult = { format: 'mt940', candidates: [], errors, warnings };
+
+  let statementRef = '';
+  let opening: { amount: number; currency: string } | null = null;
+  let movement = 0;
+  let lastCandidateIndex = -1;
+
+  fields.forEach((field, position) => {
+    switch (field.tag) {
+      case '20':
+        statementRef = field.value.trim();
+        opening = null;
+        movement = 0;
+        break;
+
+      case '25':
+        result.account ??= { identifier: field.value.trim() };
+        break;
+
+      case '60F':
+      case '60M':
+        opening = balanceAmount(field.value);
+        if (!opening) {
+          errors.push({ line: field.line, message: `Statement ${statementRef}: unreadable opening balance.` });
+        } else {
+          result.account = { ...result.account, currency: result.account?.currency ?? opening.currency };
+        }
+        break;
+
+      case '61': {
+        lastCandidateIndex = -1;
+        const match = STATEMENT_LINE.exec(field.value);
+        if (!match) {
+          errors.push({ line: field.line, message: `Statement ${statementRef}: unreadable :61: statement line.` });
+          break;
+        }
+
+        const [, yy, mm, dd, entryDate, mark, , rawAmount, , customerRef, bankRef, supplementary] = match;
+        const valueDate = swiftDate(`${yy}${mm}${dd}`);
+        const amount = parseStatementAmount(rawAmount);
+        if (!valueDate || amount === null) {
+          errors.push({ line: field.line, message: `Statement ${statementRef}: invalid date or amount in :61:.` });
+          break;
+        }
+
+        // Prefer the booking (entry) date; it can fall in the year after the value date
+        let date = valueDate;
+        if (entryDate) {
+          let year = Number(valueDate.slice(0, 4));
+          const entryMonth = Number(entryDate.slice(0, 2));
+          if (entryMonth < Number(mm) - 6) year++;
+          if (entryMonth > Number(mm) + 6) year--;
+          date = toIsoDate(year, entryMonth, Number(entryDate.slice(2, 4))) ?? valueDate;
+        }
+
+        // Reversals flip the sign of the original mark
+        const signed = mark === 'C' || mark === 'RD' ? amount : -amount;
+        movement += signed;
+
+        const reference = customerRef.trim();
+        result.candidates.push(
+          createStatementCandidate(
+            {
+              amount: signed,
+              date,
+              description: supplementary?.trim() ?? '',
+              referenceNumber: reference && reference !== 'NONREF' ? reference : undefined,
+              externalId: bankRef?.trim() || undefined,
+            },
+            position
+          )
+        );
+        lastCandidateIndex = result.candidates.length - 1;
+        break;
+      }
+
+      case '86': {
+        if (lastCandidateIndex === -1) break;
+        const candidate = result.candidates[lastCandidateIndex];
+        const information = readInformation(field.value);
+        const description = information.counterparty ?? information.text;
+        result.candidates[lastCandidateIndex] = {
+          ...candidate,
+          description: description.replace(/\s+/g, ' ').trim() || candidate.description,
+          notes: information.counterparty ? information.text || undefined : candidate.notes,
+        };
+        lastCandidateIndex = -1;
+        break;
+      }
+
+      case '62F':
+      case '62M': {
+        const closing = balanceAmount(field.value);
+        if (!closing) {
+          errors.push({ line: field.line, message: `Statement ${statementRef}: unreadable closing balance.` });
+        } else if (opening && Math.abs(opening.amount + movement - closing.amount) >= 0.005) {
+          warnings.push({
+            line: field.line,
+            message: `Statement ${statementRef}: opening balance plus transactions (${(opening.amount + movement).toFixed(2)}) does not match the closing balance (${closing.amount.toFixed(2)}). Some lines may be missing.`,
+          });
+        }
+        break;
+      }
+
+      default:
+        // :28C: sequence numbers and :64:/:65: available balances are not needed
+        break;
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,187 @@
+import {
+  StatementIssue,
+  StatementParseError,
+  StatementParseResult,
+  createStatementCandidate,
+  parseStatementAmount,
+  toIsoDate,
+} from './statement-common';
+
+// Account types that hold plain bank-style transactions
+const SUPPORTED_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+interface QifRecord {
+  line: number;
+  fields: Map<string, string>;
+  hasSplits: boolean;
+}
+
+export interface QifParseOptions {
+  /**
+   * QIF has no standard date order. Without this, day-first is assumed only
+   * when some date cannot be month-first (e.g. `31/01/2024`).
+   */
+  dateOrder?: 'mdy' | 'dmy';
+}
+
+/** Splits a QIF date (`01/31/2024`, `1/31'24`, `31.01.24`, `2024-01-31`) into its parts. */
+function splitQifDate(raw: string): { first: number; second: number; year: number } | { iso: string } | null {
+  const value = raw.trim().replace(/\s/g, '');
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (iso) {
+    const date = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date ? { iso: date } : null;
+  }
+
+  const match = /^(\d{1,2})[/.-](\d{1,2})(['/.-])(\d{2}|\d{4})$/.exec(value);
+  if (!match) return null;
+
+  let year = Number(match[4]);
+  if (match[4].length === 2) {
+    // Quicken writes 2000s years after an apostrophe
+    year += match[3] === "'" || year < 50 ? 2000 : 1900;
+  }
+  return { first: Number(match[1]), second: Number(match[2]), year };
+}
+
+function readRecords(content: string): { records: QifRecord[]; accountName?: string; skippedSections: string[] } {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const records: QifRecord[] = [];
+  const skippedSections: string[] = [];
+  let accountName: string | undefined;
+
+  let section: 'transactions' | 'account' | 'skip' | null = null;
+  let current: QifRecord | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trimEnd();
+    if (!line.trim()) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).trim().toLowerCase();
+      if (header.startsWith('type:')) {
+        const type = header.slice(5).trim();
+        section = SUPPORTED_TYPES.includes(type) ? 'transactions' : 'skip';
+        if (section === 'skip') skippedSections.push(line.slice(6).trim());
+      } else if (header === 'account') {
+        section = 'account';
+      } else if (header.startsWith('option') || header.startsWith('clear')) {
+        // Export options do not change how records read
+      } else {
+        section = 'skip';
+      }
+      current = null;
+      continue;
+    }
+
+    if (section === null) {
+      throw new StatementParseError('qif', 'The file does not start with a !Type header, so it is not a QIF file.');
+    }
+
+    if (line === '^') {
+      if (section === 'transactions' && current) records.push(current);
+      current = null;
+      continue;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (section === 'account') {
+      if (code === 'N') accountName = value;
+      continue;
+    }
+    if (section !== 'transactions') continue;
+
+    current ??= { line: index + 1, fields: new Map(), hasSplits: false };
+    if (code === 'S' || code === 'E' || code === '$') {
+      current.hasSplits = true;
+    } else if (!current.fields.has(code)) {
+      current.fields.set(code, value);
+    }
+  }
+
+  // Some exporters omit the final record terminator
+  if (current && section === 'transactions') records.push(current);
+
+  return { records, accountName, skippedSections };
+}
+
+export function parseQif(content: string, options: QifParseOptions = {}): StatementParseResult {
+  const { records, accountName, skippedSections } = readRecords(content);
+  const errors: StatementIssue[] = [];
+  const warnings: StatementIssue[] = skippedSections.map((type) => ({
+    message: `Skipped a "${type}" section; only bank, cash and credit card transactions are imported.`,
+  }));
+
+  const dates = records.map((record) => splitQifDate(record.fields.get('D') ?? ''));
+  const dayFirst =
+    options.dateOrder === 'dmy' ||
+    (options.dateOrder === undefined && dates.some((date) => date && 'first' in date && date.first > 12));
+
+  const result: StatementParseResult = {
+    format: 'qif',
+    candidates: [],
+    account: accountName ? { name: accountName } : undefined,
+    errors,
+    warnings,
+  };
+
+  records.forEach((record, index) => {
+    const rawDate = record.fields.get('D');
+    const parts = dates[index];
+    const date = !parts
+      ? null
+      : 'iso' in parts
+        ? parts.iso
+        : dayFirst
+          ? toIsoDate(parts.year, parts.second, parts.first)
+          : toIsoDate(parts.year, parts.first, parts.second);
+
+    if (!rawDate) {
+      errors.push({ line: record.line, message: 'Transaction has no date (D line).' });
+      return;
+    }
+    if (!date) {
+      errors.push({ line: record.line, message: `Unrecognised date "${rawDate}".` });
+      return;
+    }
+
+    const rawAmount = record.fields.get('T') ?? record.fields.get('U');
+    const amount = rawAmount === undefined ? null : parseStatementAmount(rawAmount);
+    if (amount === null) {
+      errors.push({
+        line: record.line,
+        message: rawAmount === undefined ? 'Transaction has no amount (T line).' : `Unrecognised amount "${rawAmount}".`,
+      });
+      return;
+    }
+
+    if (record.hasSplits) {
+      warnings.push({ line: record.line, message: 'Split lines were combined into a single transaction.' });
+    }
+
+    const payee = record.fields.get('P') ?? '';
+    const memo = record.fields.get('M') ?? '';
+    const number = record.fields.get('N');
+
+    result.candidates.push(
+      createStatementCandidate(
+        {
+          amount,
+          date,
+          description: payee || memo,
+          notes: payee && memo ? memo : undefined,
+          referenceNumber: number,
+        },
+        index
+      )
+    );
+  });
+
+  if (records.length === 0 && skippedSections.length === 0) {
+    throw new StatementParseError('qif', 'No transactions were found in the QIF file.');
+  }
+
+  return result;
+}
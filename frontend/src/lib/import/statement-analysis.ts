@@ -0,0 +1,84 @@
+import { apiClient } from '@/lib/api-client';
+import { ImportAnalysisService } from '@/lib/import-analysis-service';
+import {
+  ConflictCheckRequest,
+  ImportAnalysisResult,
+  Transaction,
+  TransactionSource,
+} from '@/types/import-review';
+import type { StatementIssue, StatementParseResult } from './statement-common';
+
+const DATE_TOLERANCE_DAYS = 3;
+const PAGE_SIZE = 1000;
+
+export function formatStatementIssue(issue: StatementIssue): string {
+  return issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message;
+}
+
+function shiftDate(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Loads the account's transactions around the statement period, page by page. */
+async function loadExistingTransactions(accountId: number, dates: string[]): Promise<Transaction[]> {
+  const sorted = [...dates].sort();
+  const startDate = shiftDate(sorted[0], -DATE_TOLERANCE_DAYS);
+  const endDate = shiftDate(sorted[sorted.length - 1], DATE_TOLERANCE_DAYS);
+
+  const transactions: Transaction[] = [];
+  for (let page = 1; ; page++) {
+    const response = await apiClient.getTransactions({
+      accountId,
+      startDate,
+      endDate,
+      page,
+      pageSize: PAGE_SIZE,
+      includeTransfers: true,
+    });
+    transactions.push(...response.transactions.map((transaction) => ({ ...transaction, isDeleted: false })));
+    if (!response.hasNextPage) return transactions;
+  }
+}
+
+/**
+ * Prepares a parsed statement for review. The result is shaped like the
+ * server's OFX/CSV analysis, so the review screen and import execution treat
+ * all formats the same way, but its review items are filled in by the review
+ * screen, which runs `conflictCheck` in a Web Worker.
+ */
+export async function prepareStatementImport(
+  statement: StatementParseResult,
+  accountId: number
+): Promise<{ analysisResult: ImportAnalysisResult; conflictCheck: ConflictCheckRequest }> {
+  const existing = statement.candidates.length
+    ? await loadExistingTransactions(accountId, statement.candidates.map((candidate) => candidate.date))
+    : [];
+
+  const analysisTimestamp = new Date().toISOString();
+  return {
+    analysisResult: {
+      success: true,
+      accountId,
+      importSource: TransactionSource.Import,
+      reviewItems: [],
+      summary: ImportAnalysisService.createAnalysisSummary([]),
+      // Never cached server-side; execution falls back to the candidate sent with each decision
+      analysisId: `${statement.format}-${analysisTimestamp}`,
+      analysisTimestamp,
+      warnings: statement.warnings.map(formatStatementIssue),
+      errors: statement.errors.map(formatStatementIssue),
+    },
+    conflictCheck: {
+      candidates: statement.candidates,
+      existingTransactions: existing,
+      options: {
+        dateToleranceDays: DATE_TOLERANCE_DAYS,
+        amountTolerance: 0.01,
+        enableTransferDetection: true,
+        conflictDetectionLevel: 'moderate',
+      },
+    },
+  };
+}
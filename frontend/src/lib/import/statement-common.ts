@@ -0,0 +1,97 @@
+import { ImportCandidate, TransactionSource } from '@/types/import-review';
+
+export type StatementFormat = 'qif' | 'camt053' | 'mt940';
+
+/** A problem with one record; `line` is 1-based where the format has lines. */
+export interface StatementIssue {
+  message: string;
+  line?: number;
+}
+
+export interface StatementParseResult {
+  format: StatementFormat;
+  candidates: ImportCandidate[];
+  /** Account details found in the file, used to suggest or create the target account. */
+  account?: {
+    identifier?: string;
+    name?: string;
+    currency?: string;
+  };
+  /** Records that could not be turned into candidates. */
+  errors: StatementIssue[];
+  /** Records that were imported, but not exactly as written. */
+  warnings: StatementIssue[];
+}
+
+/** Thrown when the file as a whole is not a valid statement of the expected format. */
+export class StatementParseError extends Error {
+  constructor(
+    public readonly format: StatementFormat,
+    message: string
+  ) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+/**
+ * Parses an amount written with either `.` or `,` as the decimal separator.
+ * When both appear the last one is the decimal separator; a lone `,` is
+ * decimal only when followed by one or two digits.
+ */
+export function parseStatementAmount(raw: string): number | null {
+  let value = raw.trim().replace(/[\s']/g, '');
+  if (!value) return null;
+
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    value = value.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    value = /,\d{1,2}$/.test(value) && value.indexOf(',') === lastComma
+      ? value.replace(',', '.')
+      : value.split(',').join('');
+  }
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value)) return null;
+  return Number(value);
+}
+
+/** Formats a calendar date as the `YYYY-MM-DD` strings candidates carry. */
+export function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export function createStatementCandidate(
+  fields: {
+    amount: number;
+    date: string;
+    description: string;
+    referenceNumber?: string;
+    externalId?: string;
+    notes?: string;
+  },
+  sourceRowIndex: number
+): ImportCandidate {
+  const description = fields.description.replace(/\s+/g, ' ').trim();
+  return {
+    amount: Math.round(fields.amount * 100) / 100,
+    date: fields.date,
+    description,
+    referenceNumber: fields.referenceNumber || undefined,
+    externalId: fields.externalId || undefined,
+    notes: fields.notes || undefined,
+    source: TransactionSource.Import,
+    // Backend TransactionType: 1 = income, 2 = expense
+    type: fields.amount >= 0 ? 1 : 2,
+    sourceRowIndex,
+    // Bank-issued ids make duplicate detection reliable; a missing description does not help
+    confidence: fields.externalId ? 100 : description ? 90 : 70,
+  };
+}
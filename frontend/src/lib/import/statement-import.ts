@@ -0,0 +1,45 @@
+import { parseCamt053 } from './camt053-parser';
+import { parseMt940 } from './mt940-parser';
+import { parseQif, QifParseOptions } from './qif-parser';
+import type { StatementFormat, StatementParseResult } from './statement-common';
+
+export * from './statement-common';
+
+export const STATEMENT_FILE_EXTENSIONS = ['.qif', '.xml', '.camt', '.053', '.sta', '.mt940', '.940'];
+
+/**
+ * Picks the statement format from the file name, falling back to the
+ * content for generic extensions (`.txt`, `.xml`). Returns null for
+ * anything that is not one of the statement formats.
+ */
+export function detectStatementFormat(fileName: string, content?: string): StatementFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.qif')) return 'qif';
+  if (name.endsWith('.sta') || name.endsWith('.mt940') || name.endsWith('.940')) return 'mt940';
+  if (name.endsWith('.camt') || name.endsWith('.053')) return 'camt053';
+
+  if (content === undefined) {
+    return name.endsWith('.xml') ? 'camt053' : null;
+  }
+
+  const head = content.slice(0, 2000).replace(/^\uFEFF/, '').trimStart();
+  if (/^!(Type|Account|Option)/i.test(head)) return 'qif';
+  if (head.startsWith('<') && /camt\.053|BkToCstmrStmt/.test(head)) return 'camt053';
+  if (/(^|\n|\{4:\s*\n?):20:/.test(head)) return 'mt940';
+  return null;
+}
+
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  options: QifParseOptions = {}
+): StatementParseResult {
+  switch (format) {
+    case 'qif':
+      return parseQif(content, options);
+    case 'camt053':
+      return parseCamt053(content);
+    case 'mt940':
+      return parseMt940(content);
+  }
+}
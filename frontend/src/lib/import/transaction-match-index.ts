@@ -0,0 +1,133 @@
+import type { ImportCandidate, Transaction } from '@/types/import-review';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Amounts may differ by up to 5% and still be flagged as a potential duplicate
+const RELATIVE_AMOUNT_TOLERANCE = 0.05;
+
+interface IndexedTransaction {
+  position: number;
+  absoluteAmount: number;
+}
+
+export interface TransactionMatchIndexOptions {
+  /** Widest date window any conflict rule uses, in days. */
+  maxDateToleranceDays: number;
+  amountTolerance: number;
+}
+
+/**
+ * Narrows the existing transactions a candidate has to be compared with.
+ * Every conflict rule needs either a shared external id / reference number,
+ * or a date inside the tolerance window and an amount whose size is within
+ * the amount tolerance (opposite signs included, for transfers). Transactions
+ * are bucketed by day and sorted by absolute amount inside each bucket, so a
+ * lookup only scans the handful of days around the candidate.
+ *
+ * Lookups return transactions in their original order, which keeps the
+ * resulting conflict lists identical to comparing against every transaction.
+ */
+export class TransactionMatchIndex {
+  private readonly byExternalId = new Map<string, number[]>();
+  private readonly byReference = new Map<string, number[]>();
+  private readonly byDay = new Map<number, IndexedTransaction[]>();
+  private readonly dayWindow: number;
+  private readonly amountTolerance: number;
+
+  constructor(
+    private readonly transactions: Transaction[],
+    options: TransactionMatchIndexOptions
+  ) {
+    // A window of N days can span N + 1 day boundaries
+    this.dayWindow = Math.ceil(options.maxDateToleranceDays) + 1;
+    this.amountTolerance = Math.max(options.amountTolerance, 0.01);
+
+    transactions.forEach((transaction, position) => {
+      if (transaction.externalId) {
+        this.addTo(this.byExternalId, transaction.externalId, position);
+      }
+      if (transaction.referenceNumber) {
+        this.addTo(this.byReference, transaction.referenceNumber, position);
+      }
+
+      const day = toDay(transaction.transactionDate);
+      const absoluteAmount = Math.abs(transaction.amount);
+      if (day === null || Number.isNaN(absoluteAmount)) return;
+
+      const bucket = this.byDay.get(day);
+      if (bucket) {
+        bucket.push({ position, absoluteAmount });
+      } else {
+        this.byDay.set(day, [{ position, absoluteAmount }]);
+      }
+    });
+
+    this.byDay.forEach((bucket) => bucket.sort((a, b) => a.absoluteAmount - b.absoluteAmount));
+  }
+
+  get size(): number {
+    return this.transactions.length;
+  }
+
+  /** Existing transactions that could conflict with the candidate, in original order. */
+  candidatesFor(candidate: ImportCandidate): Transaction[] {
+    const positions = new Set<number>();
+
+    if (candidate.externalId) {
+      this.byExternalId.get(candidate.externalId)?.forEach((position) => positions.add(position));
+    }
+    if (candidate.referenceNumber) {
+      this.byReference.get(candidate.referenceNumber)?.forEach((position) => positions.add(position));
+    }
+
+    const day = toDay(candidate.date);
+    const absoluteAmount = Math.abs(candidate.amount);
+    if (day !== null && !Number.isNaN(absoluteAmount)) {
+      // Slightly wider than the rules so floating point rounding never drops a match
+      const low = Math.min(absoluteAmount * (1 - RELATIVE_AMOUNT_TOLERANCE), absoluteAmount - this.amountTolerance) - 1e-6;
+      const high =
+        Math.max(absoluteAmount / (1 - RELATIVE_AMOUNT_TOLERANCE), absoluteAmount + this.amountTolerance) + 1e-6;
+
+      for (let offset = -this.dayWindow; offset <= this.dayWindow; offset++) {
+        const bucket = this.byDay.get(day + offset);
+        if (!bucket) continue;
+        for (let i = lowerBound(bucket, low); i < bucket.length && bucket[i].absoluteAmount <= high; i++) {
+          positions.add(bucket[i].position);
+        }
+      }
+    }
+
+    return Array.from(positions)
+      .sort((a, b) => a - b)
+      .map((position) => this.transactions[position]);
+  }
+
+  private addTo(map: Map<string, number[]>, key: string, position: number) {
+    const positions = map.get(key);
+    if (positions) {
+      positions.push(position);
+    } else {
+      map.set(key, [position]);
+    }
+  }
+}
+
+function toDay(date: string): number | null {
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+/** First index whose amount is at least `value`. */
+function lowerBound(bucket: IndexedTransaction[], value: number): number {
+  let low = 0;
+  let high = bucket.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (bucket[middle].absoluteAmount < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,56 @@
+import type { HoldingDto, InvestmentTradeType } from '@/types/investments';
+
+/** Colors for the allocation chart, in slice order; the grouped remainder uses the last. */
+export const ALLOCATION_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#db2777', '#7c3aed', '#0891b2', '#94a3b8'];
+
+export interface AllocationSlice {
+  /** Symbol, or null for the holdings grouped into "other". */
+  symbol: string | null;
+  marketValue: number;
+  /** Share of the total market value, 0–100. */
+  percent: number;
+  color: string;
+}
+
+/**
+ * Holdings with a market value as chart slices, largest first. Past `maxSlices - 1` holdings,
+ * the smallest are grouped into one slice so the chart stays readable.
+ */
+export function getAllocationSlices(holdings: HoldingDto[], maxSlices = ALLOCATION_COLORS.length): AllocationSlice[] {
+  const held = holdings.filter((holding) => holding.marketValue > 0).sort((a, b) => b.marketValue - a.marketValue);
+  const total = held.reduce((sum, holding) => sum + holding.marketValue, 0);
+  if (total === 0) return [];
+
+  const shown = held.length > maxSlices ? held.slice(0, maxSlices - 1) : held;
+  const slices: AllocationSlice[] = shown.map((holding, index) => ({
+    symbol: holding.symbol,
+    marketValue: holding.marketValue,
+    percent: (holding.marketValue / total) * 100,
+    color: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length],
+  }));
+
+  const rest = held.slice(shown.length).reduce((sum, holding) => sum + holding.marketValue, 0);
+  if (rest > 0) {
+    slices.push({ symbol: null, marketValue: rest, percent: (rest / total) * 100, color: ALLOCATION_COLORS[ALLOCATION_COLORS.length - 1] });
+  }
+
+  return slices;
+}
+
+/**
+ * The cash a trade moves on the account, as the backend records it: buys cost units × price
+ * plus fees, sales bring in units × price less fees, and dividends bring in their amount.
+ */
+export function getTradeCashAmount(
+  type: InvestmentTradeType,
+  units: number,
+  price: number,
+  fees: number,
+  dividendAmount = 0
+): number {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  if (type === 'Dividend') return round(dividendAmount);
+
+  const gross = units * price;
+  return type === 'Buy' ? round(-(gross + fees)) : round(gross - fees);
+}
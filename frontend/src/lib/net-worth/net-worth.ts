@@ -0,0 +1,78 @@
+import type { NetWorthAccountDto, NetWorthSnapshotDto } from '@/types/net-worth';
+
+/** Round net worth amounts worth calling out when first reached. */
+export const NET_WORTH_MILESTONES = [0, 10_000, 25_000, 50_000, 100_000, 250_000, 500_000, 1_000_000, 2_500_000, 5_000_000];
+
+export interface NetWorthMilestone {
+  kind: 'threshold' | 'peak';
+  amount: number;
+  /** Date of the snapshot the milestone was reached in. */
+  date: string;
+}
+
+/**
+ * Thresholds the net worth rose through during the range, and the range's peak when it is
+ * above where the range started. Newest first.
+ */
+export function findMilestones(snapshots: NetWorthSnapshotDto[]): NetWorthMilestone[] {
+  const milestones: NetWorthMilestone[] = [];
+  const reached = new Set<number>();
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1].netWorth;
+    const current = snapshots[i].netWorth;
+    for (const threshold of NET_WORTH_MILESTONES) {
+      if (previous < threshold && current >= threshold && !reached.has(threshold)) {
+        reached.add(threshold);
+        milestones.push({ kind: 'threshold', amount: threshold, date: snapshots[i].date });
+      }
+    }
+  }
+
+  if (snapshots.length > 1) {
+    const peak = snapshots.reduce((best, snapshot) => (snapshot.netWorth > best.netWorth ? snapshot : best));
+    if (peak !== snapshots[0] && peak.netWorth > snapshots[0].netWorth) {
+      milestones.push({ kind: 'peak', amount: peak.netWorth, date: peak.date });
+    }
+  }
+
+  return milestones.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export interface AccountContribution extends NetWorthAccountDto {
+  /** The account's change as a share of the total absolute change, 0–100. */
+  share: number;
+}
+
+/** Accounts whose balance moved over the range, largest move first. */
+export function getContributions(accounts: NetWorthAccountDto[]): AccountContribution[] {
+  const moved = accounts.filter((account) => account.change !== 0);
+  const totalMovement = moved.reduce((sum, account) => sum + Math.abs(account.change), 0);
+
+  return moved
+    .map((account) => ({ ...account, share: totalMovement > 0 ? (Math.abs(account.change) / totalMovement) * 100 : 0 }))
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
+
+export interface NetWorthChartRow {
+  /** Snapshot date, used for the axis label. */
+  date: string;
+  netWorth: number;
+  /** Signed balance per account type, keyed `type<AccountType>`. */
+  [typeKey: `type${number}`]: number;
+}
+
+/** Chart rows with one column per account type, plus the account types present in any month. */
+export function toChartRows(snapshots: NetWorthSnapshotDto[]): { rows: NetWorthChartRow[]; accountTypes: number[] } {
+  const accountTypes = [...new Set(snapshots.flatMap((s) => s.byAccountType.map((b) => b.accountType)))].sort((a, b) => a - b);
+
+  const rows = snapshots.map((snapshot) => {
+    const row: NetWorthChartRow = { date: snapshot.date, netWorth: snapshot.netWorth };
+    for (const type of accountTypes) {
+      row[`type${type}`] = snapshot.byAccountType.find((b) => b.accountType === type)?.balance ?? 0;
+    }
+    return row;
+  });
+
+  return { rows, accountTypes };
+}
@@ -0,0 +1,149 @@
+import type {
+  ChannelPreferences,
+  NotificationChannel,
+  NotificationPreferenceDto,
+} from '@/types/notifications';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['inApp', 'email', 'telegram'];
+
+/** Backend `NotificationType` names, grouped the way the enum is. */
+export const NOTIFICATION_TYPE_GROUPS: { key: string; types: string[] }[] = [
+  {
+    key: 'transactions',
+    types: [
+      'TransactionReminder',
+      'RecurringTransactionCreated',
+      'CategorizationReminder',
+      'LargeTransaction',
+      'ScheduledPaymentMissed',
+      'ScheduledPaymentAmountChanged',
+      'CancelledSubscriptionCharged',
+    ],
+  },
+  { key: 'budgets', types: ['BudgetThreshold', 'BudgetExceeded', 'SpendingAnomaly'] },
+  { key: 'goals', types: ['GoalMilestone', 'GoalCompleted', 'GoalDeadlineApproaching'] },
+  { key: 'health', types: ['RunwayWarning', 'RunwayCritical', 'NetWorthMilestone', 'MonthlyReport'] },
+  { key: 'accounts', types: ['AccountSyncCompleted', 'AccountSyncFailed', 'AccountConnectionExpiring'] },
+  { key: 'insights', types: ['AiInsight', 'ReceiptProcessed', 'ReceiptProcessingFailed', 'RuleSuggestionsAvailable'] },
+  { key: 'system', types: ['SystemMessage', 'FeatureAnnouncement', 'SecurityAlert'] },
+];
+
+// The backend delivers in-app unless a type explicitly turns it off; other channels are opt-in
+const CHANNEL_DEFAULTS: Record<NotificationChannel, boolean> = {
+  inApp: true,
+  email: false,
+  telegram: false,
+};
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/** Reads the stored JSON, treating anything unparseable as "no per-type overrides". */
+export function parseChannelPreferences(json: string | null): ChannelPreferences {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Serializes the matrix, or `null` when every toggle is at its default. */
+export function serializeChannelPreferences(preferences: ChannelPreferences): string | null {
+  const overrides: ChannelPreferences = {};
+  for (const [type, channels] of Object.entries(preferences)) {
+    const changed = Object.entries(channels).filter(
+      ([channel, enabled]) => enabled !== CHANNEL_DEFAULTS[channel as NotificationChannel]
+    );
+    if (changed.length > 0) overrides[type] = Object.fromEntries(changed);
+  }
+  return Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : null;
+}
+
+export function isChannelEnabled(
+  preferences: ChannelPreferences,
+  type: string,
+  channel: NotificationChannel
+): boolean {
+  return preferences[type]?.[channel] ?? CHANNEL_DEFAULTS[channel];
+}
+
+export function setChannelEnabled(
+  preferences: ChannelPreferences,
+  type: string,
+  channel: NotificationChannel,
+  enabled: boolean
+): ChannelPreferences {
+  return { ...preferences, [type]: { ...preferences[type], [channel]: enabled } };
+}
+
+/** "HH:mm" (the API also accepts "HH:mm:ss") to minutes after midnight, or null. */
+export function timeToMinutes(time: string | null): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < MINUTES_PER_DAY ? minutes : null;
+}
+
+export function minutesToTime(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Mirrors the backend check: the window includes its start and excludes its
+ * end, and wraps past midnight when the end is earlier than the start.
+ */
+export function isInQuietHours(minutes: number, start: number, end: number): boolean {
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/** Minutes after midnight for `date` on the wall clock of `timeZone` (UTC when blank or unknown). */
+export function minutesInTimeZone(date: Date, timeZone: string | null): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return date.getUTCHours() * 60 + date.getUTCMinutes();
+  }
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+export interface NotificationDeliveryPreview {
+  /** Channels the notification type is routed to. */
+  channels: NotificationChannel[];
+  /** Whether quiet hours would drop the notification right now (the backend skips, not delays, it). */
+  silencedByQuietHours: boolean;
+  /** When quiet hours end ("HH:mm" in the chosen time zone), if they are active. */
+  quietHoursEnd?: string;
+}
+
+/** Works out where a notification of `type` would go if it were raised at `now`. */
+export function previewNotificationDelivery(
+  preferences: Pick<NotificationPreferenceDto, 'quietHoursStart' | 'quietHoursEnd' | 'quietHoursTimezone'>,
+  channelPreferences: ChannelPreferences,
+  type: string,
+  now: Date
+): NotificationDeliveryPreview {
+  const channels = NOTIFICATION_CHANNELS.filter((channel) => isChannelEnabled(channelPreferences, type, channel));
+  const start = timeToMinutes(preferences.quietHoursStart);
+  const end = timeToMinutes(preferences.quietHoursEnd);
+
+  if (start === null || end === null) {
+    return { channels, silencedByQuietHours: false };
+  }
+
+  const silencedByQuietHours = isInQuietHours(minutesInTimeZone(now, preferences.quietHoursTimezone), start, end);
+  return silencedByQuietHours
+    ? { channels, silencedByQuietHours, quietHoursEnd: minutesToTime(end) }
+    : { channels, silencedByQuietHours };
+}
@@ -0,0 +1,245 @@
+import type { CreateTransactionRequest, UpdateTransactionRequest } from '@/types/transactions';
+
+/**
+ * Outbox for transaction writes made while the device has no connection.
+ *
+ * The service worker never caches `/api/` traffic, so a create, update or
+ * delete issued offline is captured here instead and replayed by `ApiClient`
+ * once the browser reports that it is back online. Operation payloads contain
+ * amounts and descriptions, so they are AES-GCM encrypted before they reach
+ * IndexedDB; the key is a non-extractable `CryptoKey` kept next to the queue.
+ */
+
+export type OutboxOperation =
+  | { kind: 'create'; request: CreateTransactionRequest }
+  | { kind: 'update'; transactionId: number; request: UpdateTransactionRequest }
+  | { kind: 'delete'; transactionId: number };
+
+export type OutboxEntryStatus = 'pending' | 'conflict';
+
+export interface OutboxEntry {
+  /** Also sent as the write's idempotency key, so a replayed create is applied once. */
+  id: string;
+  operation: OutboxOperation;
+  queuedAt: string;
+  status: OutboxEntryStatus;
+  /** Server message explaining why a replayed write was rejected. */
+  error?: string;
+}
+
+export interface OutboxReplayResult {
+  synced: number;
+  conflicts: number;
+  /** Pending writes left in the queue because the replay had to stop early. */
+  remaining: number;
+}
+
+/** Shape persisted in IndexedDB. Only bookkeeping fields are stored in clear. */
+export interface OutboxRecord {
+  id: string;
+  queuedAt: string;
+  status: OutboxEntryStatus;
+  error?: string;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+export interface OutboxStorage {
+  getAll(): Promise<OutboxRecord[]>;
+  put(record: OutboxRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+  getKey(): Promise<CryptoKey | undefined>;
+  putKey(key: CryptoKey): Promise<void>;
+}
+
+const DB_NAME = 'mymascada_outbox';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'transactions';
+const KEY_STORE = 'keys';
+const KEY_ID = 'outbox';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** IndexedDB-backed storage used in the browser. */
+export function createIndexedDbStorage(): OutboxStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+          request.result.createObjectStore(KEY_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const store = async (name: string, mode: IDBTransactionMode) =>
+    (await open()).transaction(name, mode).objectStore(name);
+
+  return {
+    getAll: async () => promisify((await store(ENTRY_STORE, 'readonly')).getAll() as IDBRequest<OutboxRecord[]>),
+    put: async (record) => {
+      await promisify((await store(ENTRY_STORE, 'readwrite')).put(record));
+    },
+    delete: async (id) => {
+      await promisify((await store(ENTRY_STORE, 'readwrite')).delete(id));
+    },
+    clear: async () => {
+      await promisify((await store(ENTRY_STORE, 'readwrite')).clear());
+      await promisify((await store(KEY_STORE, 'readwrite')).clear());
+    },
+    getKey: async () => promisify((await store(KEY_STORE, 'readonly')).get(KEY_ID) as IDBRequest<CryptoKey | undefined>),
+    putKey: async (key) => {
+      await promisify((await store(KEY_STORE, 'readwrite')).put(key, KEY_ID));
+    },
+  };
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+export class TransactionOutbox {
+  private keyPromise: Promise<CryptoKey> | null = null;
+  private listeners = new Set<OutboxListener>();
+
+  constructor(private storage: OutboxStorage) {}
+
+  /** Queues an operation; `id` lets the caller reuse the idempotency key it already sent. */
+  async enqueue(operation: OutboxOperation, id = crypto.randomUUID()): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      id,
+      operation,
+      queuedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    await this.storage.put(await this.seal(entry));
+    await this.notify();
+    return entry;
+  }
+
+  /** All queued entries, oldest first — the order they must be replayed in. */
+  async list(): Promise<OutboxEntry[]> {
+    const records = await this.storage.getAll();
+    const entries = await Promise.all(records.map((record) => this.open(record)));
+    return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.delete(id);
+    await this.notify();
+  }
+
+  async markConflict(entry: OutboxEntry, error: string): Promise<void> {
+    await this.storage.put(await this.seal({ ...entry, status: 'conflict', error }));
+    await this.notify();
+  }
+
+  /** Puts a conflicted entry back in line so the next replay retries it. */
+  async retry(entry: OutboxEntry): Promise<void> {
+    await this.storage.put(await this.seal({ ...entry, status: 'pending', error: undefined }));
+    await this.notify();
+  }
+
+  /** Drops every queued write along with the encryption key. Called on logout. */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.keyPromise = null;
+    await this.notify();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.list();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const existing = await this.storage.getKey();
+        if (existing) return existing;
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+          'encrypt',
+          'decrypt',
+        ]);
+        await this.storage.putKey(key);
+        return key;
+      })();
+      this.keyPromise.catch(() => {
+        this.keyPromise = null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async seal(entry: OutboxEntry): Promise<OutboxRecord> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(entry.operation));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getKey(), plaintext);
+    return {
+      id: entry.id,
+      queuedAt: entry.queuedAt,
+      status: entry.status,
+      error: entry.error,
+      iv,
+      ciphertext,
+    };
+  }
+
+  private async open(record: OutboxRecord): Promise<OutboxEntry> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.iv as Uint8Array<ArrayBuffer> },
+      await this.getKey(),
+      record.ciphertext
+    );
+    return {
+      id: record.id,
+      queuedAt: record.queuedAt,
+      status: record.status,
+      error: record.error,
+      operation: JSON.parse(new TextDecoder().decode(plaintext)) as OutboxOperation,
+    };
+  }
+}
+
+export const transactionOutbox = new TransactionOutbox(createIndexedDbStorage());
+
+/**
+ * Thrown by `ApiClient` when a transaction write could not reach the server and
+ * was queued instead. Callers treat it as an accepted-but-unsynced write.
+ */
+export class QueuedOfflineError extends Error {
+  constructor(public readonly entry: OutboxEntry) {
+    super('Saved offline. The change will sync when the connection is back.');
+    this.name = 'QueuedOfflineError';
+  }
+}
+
+export function isQueuedOffline(error: unknown): error is QueuedOfflineError {
+  return error instanceof QueuedOfflineError;
+}
@@ -0,0 +1,86 @@
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ *
+ * `EventSource` cannot send the bearer token the API expects, so the realtime
+ * channel reads the stream with `fetch` and feeds decoded chunks through this
+ * parser. Chunks may split lines and events anywhere.
+ */
+
+export interface ServerSentEvent {
+  /** Defaults to `message`, as in the SSE spec. */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+  private id?: string;
+
+  /** Feeds one decoded chunk and returns the events it completed. */
+  feed(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const events: ServerSentEvent[] = [];
+
+    let newline = this.buffer.search(/\r\n|\r|\n/);
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      const separatorLength = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+      // A trailing \r may be the first half of a \r\n still in flight
+      if (separatorLength === 1 && this.buffer[newline] === '\r' && newline === this.buffer.length - 1) {
+        break;
+      }
+      this.buffer = this.buffer.slice(newline + separatorLength);
+
+      const completed = this.processLine(line);
+      if (completed) events.push(completed);
+
+      newline = this.buffer.search(/\r\n|\r|\n/);
+    }
+
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') {
+      if (this.data.length === 0) {
+        this.event = '';
+        return null;
+      }
+      const completed: ServerSentEvent = {
+        event: this.event || 'message',
+        data: this.data.join('\n'),
+        id: this.id,
+      };
+      this.event = '';
+      this.data = [];
+      return completed;
+    }
+
+    // Lines starting with a colon are comments, used by servers as keep-alives
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.event = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        this.id = value;
+        break;
+      default:
+        // `retry` and unknown fields are ignored; reconnect timing is ours to pick
+        break;
+    }
+    return null;
+  }
+}
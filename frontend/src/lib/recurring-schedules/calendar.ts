@@ -0,0 +1,67 @@
+import type { RecurringCalendarEntryDto } from '@/types/recurring-schedules';
+
+export interface CalendarDay {
+  /** Local date as `YYYY-MM-DD`, the same shape as the date part of entry dates. */
+  key: string;
+  day: number;
+  inMonth: boolean;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Weeks covering the month (`month` is 0-based), padded with days of the neighbouring
+ * months so every week is complete. Weeks start on Sunday unless `weekStartsOn` says otherwise.
+ */
+export function buildMonthGrid(year: number, month: number, weekStartsOn = 0): CalendarDay[][] {
+  const first = new Date(year, month, 1);
+  const leading = (first.getDay() - weekStartsOn + 7) % 7;
+  const cursor = new Date(year, month, 1 - leading);
+
+  const weeks: CalendarDay[][] = [];
+  do {
+    const week: CalendarDay[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push({ key: toDateKey(cursor), day: cursor.getDate(), inMonth: cursor.getMonth() === month });
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  } while (cursor.getMonth() === month);
+
+  return weeks;
+}
+
+/** First and last day shown by the month grid, so one request fills every visible cell. */
+export function getGridRange(weeks: CalendarDay[][]): { startDate: string; endDate: string } {
+  const lastWeek = weeks[weeks.length - 1];
+  return { startDate: weeks[0][0].key, endDate: lastWeek[lastWeek.length - 1].key };
+}
+
+/** Calendar entries by day key. The backend sends midnight UTC, so the date part is the day. */
+export function groupEntriesByDay(entries: RecurringCalendarEntryDto[]): Map<string, RecurringCalendarEntryDto[]> {
+  const byDay = new Map<string, RecurringCalendarEntryDto[]>();
+  for (const entry of entries) {
+    const key = entry.date.slice(0, 10);
+    const list = byDay.get(key);
+    if (list) {
+      list.push(entry);
+    } else {
+      byDay.set(key, [entry]);
+    }
+  }
+  return byDay;
+}
+
+/** Net of the day's entries, using what was actually paid where a transaction was matched. */
+export function sumDayEntries(entries: RecurringCalendarEntryDto[]): number {
+  return entries.reduce((total, entry) => {
+    if (entry.status === 'missed') return total;
+    return total + (entry.actualAmount ?? entry.amount);
+  }, 0);
+}
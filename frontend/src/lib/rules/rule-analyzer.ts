@@ -0,0 +1,149 @@
+import type { CategorizationRule } from '@/types/rules';
+import type { TransactionDto } from '@/types/transactions';
+import { ruleMatchesTransaction } from './rule-simulator';
+
+export type RuleFindingKind = 'shadowed' | 'redundant' | 'conflicting' | 'dead';
+
+export interface RuleFinding {
+  kind: RuleFindingKind;
+  /** The rule the finding is about: the one that loses, overlaps later or never fires. */
+  rule: CategorizationRule;
+  /** Earlier rules that take its transactions (shadowed, redundant) or disagree with it (conflicting). */
+  relatedRules: CategorizationRule[];
+  /** Recent transactions the rule shares with the related rules. */
+  sharedCount: number;
+  sampleDescriptions: string[];
+  /** Set for dead rules whose pattern or a condition is an invalid regular expression. */
+  invalidPattern?: boolean;
+}
+
+export interface RuleAnalysis {
+  scanned: number;
+  findings: RuleFinding[];
+}
+
+const SAMPLE_SIZE = 3;
+const KIND_ORDER: RuleFindingKind[] = ['shadowed', 'conflicting', 'redundant', 'dead'];
+
+/** Rules in the order the backend runs them: priority ascending, ties by id. */
+export function orderRulesForEvaluation(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern.startsWith('(?i)') ? pattern.slice(4) : pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasInvalidPattern(rule: CategorizationRule): boolean {
+  if (rule.conditions.length > 0) {
+    return rule.conditions.some(
+      (condition) => (condition.operator === 'Regex' || condition.operator === 11) && !isValidRegex(condition.value)
+    );
+  }
+  return (rule.type === 'Regex' || rule.type === 5) && !isValidRegex(rule.pattern);
+}
+
+function samples(transactions: TransactionDto[]): string[] {
+  return [...new Set(transactions.map((transaction) => transaction.description))].slice(0, SAMPLE_SIZE);
+}
+
+/**
+ * Finds active rules that never get to categorize anything, or that disagree
+ * with each other, by replaying them against recent transactions:
+ * - shadowed: every match is taken first by earlier rules with other categories
+ * - redundant: every match is taken first by earlier rules with the same category
+ * - conflicting: shares some matches with an earlier rule that assigns another category
+ * - dead: matches nothing recently and has never been applied (or can't match at all)
+ */
+export function analyzeRules(
+  rules: CategorizationRule[],
+  transactions: TransactionDto[],
+  accountTypes: Map<number, string>
+): RuleAnalysis {
+  const ordered = orderRulesForEvaluation(rules.filter((rule) => rule.isActive));
+  const matchesByRule = new Map<number, TransactionDto[]>(ordered.map((rule) => [rule.id, []]));
+  const winners = new Map<number, CategorizationRule>();
+
+  for (const transaction of transactions) {
+    const accountType = accountTypes.get(transaction.accountId) ?? '';
+    for (const rule of ordered) {
+      if (!ruleMatchesTransaction(rule, transaction, accountType)) continue;
+      matchesByRule.get(rule.id)?.push(transaction);
+      if (!winners.has(transaction.id)) winners.set(transaction.id, rule);
+    }
+  }
+
+  const findings: RuleFinding[] = [];
+
+  ordered.forEach((rule, position) => {
+    const matches = matchesByRule.get(rule.id) ?? [];
+    const invalidPattern = hasInvalidPattern(rule);
+
+    if (matches.length === 0) {
+      if (invalidPattern || rule.matchCount === 0) {
+        findings.push({ kind: 'dead', rule, relatedRules: [], sharedCount: 0, sampleDescriptions: [], invalidPattern });
+      }
+      return;
+    }
+
+    const lost = matches.filter((transaction) => winners.get(transaction.id)?.id !== rule.id);
+    if (lost.length === matches.length) {
+      const takenBy = [...new Map(lost.map((transaction) => {
+        const winner = winners.get(transaction.id)!;
+        return [winner.id, winner] as const;
+      })).values()];
+      findings.push({
+        kind: takenBy.every((winner) => winner.categoryId === rule.categoryId) ? 'redundant' : 'shadowed',
+        rule,
+        relatedRules: takenBy,
+        sharedCount: lost.length,
+        sampleDescriptions: samples(lost),
+      });
+      return;
+    }
+
+    // Partially overlapping earlier rules that categorize the same transactions differently
+    ordered.slice(0, position).forEach((earlier) => {
+      if (earlier.categoryId === rule.categoryId) return;
+      const earlierMatches = new Set((matchesByRule.get(earlier.id) ?? []).map((transaction) => transaction.id));
+      const shared = matches.filter((transaction) => earlierMatches.has(transaction.id));
+      if (shared.length === 0) return;
+      findings.push({
+        kind: 'conflicting',
+        rule,
+        relatedRules: [earlier],
+        sharedCount: shared.length,
+        sampleDescriptions: samples(shared),
+      });
+    });
+  });
+
+  return {
+    scanned: transactions.length,
+    findings: findings.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || b.sharedCount - a.sharedCount),
+  };
+}
+
+/**
+ * Priorities (as list positions, like manual reordering saves) that move a
+ * rule directly in front of another one.
+ */
+export function prioritiesWithRuleBefore(
+  rules: CategorizationRule[],
+  ruleId: number,
+  beforeRuleId: number
+): Record<number, number> {
+  const ids = orderRulesForEvaluation(rules).map((rule) => rule.id).filter((id) => id !== ruleId);
+  const targetIndex = ids.indexOf(beforeRuleId);
+  ids.splice(targetIndex === -1 ? 0 : targetIndex, 0, ruleId);
+
+  return ids.reduce<Record<number, number>>((priorities, id, index) => {
+    priorities[id] = index;
+    return priorities;
+  }, {});
+}
@@ -0,0 +1,264 @@
+import type { TransactionDto } from '@/types/transactions';
+import type {
+  CategorizationRule,
+  RuleConditionDto,
+  RuleLogicValue,
+  RuleType,
+  RuleTypeValue,
+} from '@/types/rules';
+import type { AccountDto } from '@/types/accounts';
+import { BackendAccountType } from '@/lib/utils';
+
+/** The parts of a rule that decide what it matches and which category it assigns. */
+export interface RuleDraft {
+  type: RuleTypeValue;
+  pattern: string;
+  isCaseSensitive: boolean;
+  priority: number;
+  isActive?: boolean;
+  categoryId: number;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  accountTypes?: string | null;
+  logic: RuleLogicValue;
+  conditions: RuleConditionDto[];
+}
+
+export type ShadowingRule = Pick<CategorizationRule, 'id' | 'name' | 'priority' | 'categoryId' | 'categoryName'>;
+
+export interface RuleSimulationMatch {
+  transaction: TransactionDto;
+  wouldChangeCategory: boolean;
+  /** Existing rule that runs first and matches too, so it would win. */
+  shadowedBy?: ShadowingRule;
+}
+
+export interface RuleOverlap {
+  rule: ShadowingRule;
+  count: number;
+}
+
+/** What a simulation runs against: recent transactions, the existing rules and each account's type. */
+export interface RuleSimulationData {
+  transactions: TransactionDto[];
+  rules: CategorizationRule[];
+  accountTypes: Map<number, string>;
+}
+
+export interface RuleSimulationResult {
+  scanned: number;
+  matches: RuleSimulationMatch[];
+  changedCount: number;
+  shadowedCount: number;
+  overlaps: RuleOverlap[];
+}
+
+const RULE_TYPES: Record<number, RuleType> = {
+  1: 'Contains',
+  2: 'StartsWith',
+  3: 'EndsWith',
+  4: 'Equals',
+  5: 'Regex',
+};
+
+const CONDITION_FIELDS = [
+  'Description',
+  'UserDescription',
+  'Amount',
+  'AccountType',
+  'AccountName',
+  'TransactionType',
+  'ReferenceNumber',
+  'Notes',
+];
+
+const CONDITION_OPERATORS = [
+  'Equals',
+  'NotEquals',
+  'Contains',
+  'NotContains',
+  'StartsWith',
+  'EndsWith',
+  'GreaterThan',
+  'LessThan',
+  'GreaterThanOrEqual',
+  'LessThanOrEqual',
+  'Regex',
+];
+
+// Backend TransactionType enum names, which conditions compare against
+const TRANSACTION_TYPE_NAMES: Record<number, string> = {
+  1: 'Income',
+  2: 'Expense',
+  3: 'TransferComponent',
+};
+
+// Enum values are 1-based on the backend
+const enumName = (value: string | number, names: string[]) =>
+  typeof value === 'number' ? names[value - 1] : value;
+
+/** Maps account ids to the backend `AccountType` names rules filter on. */
+export function accountTypeNamesById(accounts: Pick<AccountDto, 'id' | 'type'>[]): Map<number, string> {
+  const names = new Map<number, string>(
+    Object.entries(BackendAccountType).map(([name, value]) => [value, name])
+  );
+  return new Map(accounts.map((account) => [account.id, names.get(account.type) ?? 'Other']));
+}
+
+/**
+ * Mirrors .NET `Regex.IsMatch`: case-sensitive unless the pattern starts with
+ * `(?i)`, and an invalid pattern never matches.
+ */
+function regexMatches(value: string, pattern: string): boolean {
+  const caseInsensitive = pattern.startsWith('(?i)');
+  try {
+    return new RegExp(caseInsensitive ? pattern.slice(4) : pattern, caseInsensitive ? 'i' : '').test(value);
+  } catch {
+    return false;
+  }
+}
+
+function compareText(
+  actual: string,
+  expected: string,
+  operator: string,
+  caseSensitive: boolean
+): boolean {
+  const left = caseSensitive ? actual : actual.toLowerCase();
+  const right = caseSensitive ? expected : expected.toLowerCase();
+
+  switch (operator) {
+    case 'Equals': return left === right;
+    case 'NotEquals': return left !== right;
+    case 'Contains': return left.includes(right);
+    case 'NotContains': return !left.includes(right);
+    case 'StartsWith': return left.startsWith(right);
+    case 'EndsWith': return left.endsWith(right);
+    case 'Regex': return regexMatches(actual, expected);
+  }
+
+  const actualNumber = actual.trim() === '' ? NaN : Number(actual);
+  const expectedNumber = expected.trim() === '' ? NaN : Number(expected);
+  if (Number.isNaN(actualNumber) || Number.isNaN(expectedNumber)) return false;
+
+  switch (operator) {
+    case 'GreaterThan': return actualNumber > expectedNumber;
+    case 'LessThan': return actualNumber < expectedNumber;
+    case 'GreaterThanOrEqual': return actualNumber >= expectedNumber;
+    case 'LessThanOrEqual': return actualNumber <= expectedNumber;
+    default: return false;
+  }
+}
+
+function conditionFieldValue(field: string, transaction: TransactionDto, accountType: string): string {
+  switch (field) {
+    case 'Description': return transaction.description ?? '';
+    case 'UserDescription': return transaction.userDescription ?? '';
+    case 'Amount': return Math.abs(transaction.amount).toFixed(2);
+    case 'AccountType': return accountType;
+    case 'AccountName': return transaction.accountName ?? '';
+    case 'TransactionType': return TRANSACTION_TYPE_NAMES[transaction.type] ?? '';
+    case 'ReferenceNumber': return transaction.referenceNumber ?? '';
+    case 'Notes': return transaction.notes ?? '';
+    default: return '';
+  }
+}
+
+function matchesPattern(rule: RuleDraft, description: string): boolean {
+  if (!description.trim()) return false;
+
+  const type = typeof rule.type === 'number' ? RULE_TYPES[rule.type] : rule.type;
+  if (type === 'Regex') return regexMatches(description, rule.pattern);
+
+  // Legacy rule types share their names with the condition operators
+  return !!type && compareText(description, rule.pattern, type, rule.isCaseSensitive);
+}
+
+/**
+ * Evaluates a rule the way the backend's `CategorizationRule.Matches` does:
+ * advanced conditions (combined with All/Any) replace the pattern, amount
+ * range and account type checks when present.
+ */
+export function ruleMatchesTransaction(
+  rule: RuleDraft,
+  transaction: TransactionDto,
+  accountType = ''
+): boolean {
+  if (rule.isActive === false) return false;
+
+  if (rule.conditions.length > 0) {
+    const results = rule.conditions.map((condition) =>
+      compareText(
+        conditionFieldValue(enumName(condition.field, CONDITION_FIELDS), transaction, accountType),
+        condition.value,
+        enumName(condition.operator, CONDITION_OPERATORS),
+        condition.isCaseSensitive
+      )
+    );
+    const matchAny = rule.logic === 'Any' || rule.logic === 2;
+    return matchAny ? results.some(Boolean) : results.every(Boolean);
+  }
+
+  const amount = Math.abs(transaction.amount);
+  if (rule.minAmount != null && amount < rule.minAmount) return false;
+  if (rule.maxAmount != null && amount > rule.maxAmount) return false;
+
+  if (rule.accountTypes?.trim()) {
+    const allowed = rule.accountTypes.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean);
+    if (!allowed.includes(accountType.toLowerCase())) return false;
+  }
+
+  return matchesPattern(rule, transaction.description ?? '');
+}
+
+/**
+ * Dry-runs a draft rule against past transactions. Existing active rules that
+ * run before it (lower priority number; ties go to the existing rule, as a new
+ * rule is ordered last) and also match are reported as shadowing it.
+ */
+export function simulateRule(
+  draft: RuleDraft,
+  transactions: TransactionDto[],
+  existingRules: CategorizationRule[],
+  accountTypes: Map<number, string>
+): RuleSimulationResult {
+  const earlierRules = existingRules
+    .filter((rule) => rule.isActive && rule.priority <= draft.priority)
+    .sort((a, b) => a.priority - b.priority);
+
+  const overlapCounts = new Map<number, RuleOverlap>();
+  const matches: RuleSimulationMatch[] = [];
+
+  for (const transaction of transactions) {
+    const accountType = accountTypes.get(transaction.accountId) ?? '';
+    if (!ruleMatchesTransaction(draft, transaction, accountType)) continue;
+
+    const shadowing = earlierRules.find((rule) => ruleMatchesTransaction(rule, transaction, accountType));
+    const shadowedBy: ShadowingRule | undefined = shadowing && {
+      id: shadowing.id,
+      name: shadowing.name,
+      priority: shadowing.priority,
+      categoryId: shadowing.categoryId,
+      categoryName: shadowing.categoryName,
+    };
+    if (shadowedBy) {
+      const overlap = overlapCounts.get(shadowedBy.id) ?? { rule: shadowedBy, count: 0 };
+      overlap.count++;
+      overlapCounts.set(shadowedBy.id, overlap);
+    }
+
+    matches.push({
+      transaction,
+      wouldChangeCategory: transaction.categoryId !== draft.categoryId,
+      shadowedBy,
+    });
+  }
+
+  return {
+    scanned: transactions.length,
+    matches,
+    changedCount: matches.filter((match) => match.wouldChangeCategory && !match.shadowedBy).length,
+    shadowedCount: matches.filter((match) => match.shadowedBy).length,
+    overlaps: [...overlapCounts.values()].sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,32 @@
+import type { SubscriptionDto, SubscriptionPriceChangeDto } from '@/types/subscriptions';
+
+export type SubscriptionFilter = 'all' | 'active' | 'cancelIntended' | 'cancelled';
+
+export const SUBSCRIPTION_FILTERS: SubscriptionFilter[] = ['all', 'active', 'cancelIntended', 'cancelled'];
+
+/** Detection gave up on the pattern (missed charges) without the user cancelling it. */
+export function hasStoppedCharging(subscription: SubscriptionDto): boolean {
+  return subscription.status === 'Cancelled' && subscription.cancellationStatus === 'None';
+}
+
+export function matchesSubscriptionFilter(subscription: SubscriptionDto, filter: SubscriptionFilter): boolean {
+  switch (filter) {
+    case 'active':
+      return subscription.cancellationStatus === 'None' && !hasStoppedCharging(subscription);
+    case 'cancelIntended':
+      return subscription.cancellationStatus === 'CancelIntended';
+    case 'cancelled':
+      return subscription.cancellationStatus === 'Cancelled';
+    default:
+      return true;
+  }
+}
+
+/** The most recent price change with its size in percent, or null when the price never changed. */
+export function getLatestPriceChange(
+  subscription: SubscriptionDto
+): (SubscriptionPriceChangeDto & { percent: number }) | null {
+  const latest = subscription.priceChanges[subscription.priceChanges.length - 1];
+  if (!latest || latest.previousAmount === 0) return null;
+  return { ...latest, percent: ((latest.newAmount - latest.previousAmount) / latest.previousAmount) * 100 };
+}
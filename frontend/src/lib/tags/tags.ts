@@ -0,0 +1,70 @@
+import type { TagDto } from '@/types/tags';
+
+/** Mirrors `Tag.MaxNameLength` on the server. */
+export const MAX_TAG_NAME_LENGTH = 50;
+
+export type TagNameError = 'required' | 'comma' | 'tooLong';
+
+/** Fallback palette for tags that were never given a color. */
+const TAG_PALETTE = ['#2563EB', '#7C3AED', '#DB2777', '#DC2626', '#EA580C', '#CA8A04', '#16A34A', '#0891B2'];
+
+/**
+ * Splits a stored comma-separated tag list the same way the server does: trimmed,
+ * blanks dropped, case-insensitive duplicates removed with the first spelling kept.
+ */
+export function parseTags(tags: string | null | undefined): string[] {
+  if (!tags) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags.split(',')) {
+    const tag = raw.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result;
+}
+
+/** The request form of a tag list; undefined when there are none. */
+export function joinTags(tags: string[]): string | undefined {
+  const parsed = parseTags(tags.join(','));
+  return parsed.length > 0 ? parsed.join(',') : undefined;
+}
+
+export function validateTagName(name: string): TagNameError | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'required';
+  if (trimmed.includes(',')) return 'comma';
+  if (trimmed.length > MAX_TAG_NAME_LENGTH) return 'tooLong';
+  return null;
+}
+
+/** Saved color, or a stable pick from the palette so a tag looks the same everywhere. */
+export function tagColor(name: string, tags: TagDto[] = []): string {
+  const saved = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color;
+  if (saved) return saved;
+
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAG_PALETTE[Math.abs(hash) % TAG_PALETTE.length];
+}
+
+/**
+ * Autocomplete candidates: known tags not already selected, prefix matches first,
+ * then the most used.
+ */
+export function filterTagSuggestions(tags: TagDto[], query: string, selected: string[], limit = 8): TagDto[] {
+  const needle = query.trim().toLowerCase();
+  const taken = new Set(selected.map((tag) => tag.toLowerCase()));
+
+  return tags
+    .filter((tag) => !taken.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(needle))
+    .sort((a, b) => {
+      const aPrefix = a.name.toLowerCase().startsWith(needle) ? 0 : 1;
+      const bPrefix = b.name.toLowerCase().startsWith(needle) ? 0 : 1;
+      return aPrefix - bPrefix || b.transactionCount - a.transactionCount || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
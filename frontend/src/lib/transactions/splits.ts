@@ -0,0 +1,63 @@
+import type { TransactionSplitDto, TransactionSplitRequest } from '@/types/transactions';
+
+/**
+ * A split line as edited in the transaction form. Amounts are entered unsigned,
+ * like the form's own amount; the income/expense toggle decides the sign on submit.
+ */
+export interface SplitLineDraft {
+  key: string;
+  categoryId: string;
+  amount: string;
+  description: string;
+}
+
+export type SplitValidationError = 'tooFewLines' | 'missingCategory' | 'invalidAmount' | 'sumMismatch';
+
+let nextLineKey = 1;
+
+export function newSplitLine(amount = 0, categoryId = ''): SplitLineDraft {
+  return {
+    key: `split-${nextLineKey++}`,
+    categoryId,
+    amount: amount > 0 ? amount.toFixed(2) : '',
+    description: '',
+  };
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+const lineAmount = (line: SplitLineDraft) => {
+  const amount = parseFloat(line.amount);
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/** What is still left to assign; negative when the lines overshoot the total. */
+export function splitRemaining(total: number, lines: SplitLineDraft[]): number {
+  const assigned = lines.reduce((sum, line) => sum + toCents(lineAmount(line)), 0);
+  return (toCents(Math.abs(total)) - assigned) / 100;
+}
+
+/** Mirrors the server rules so the form can explain a rejection before submitting. */
+export function validateSplitLines(total: number, lines: SplitLineDraft[]): SplitValidationError | null {
+  if (lines.length < 2) return 'tooFewLines';
+  if (lines.some((line) => !line.categoryId)) return 'missingCategory';
+  if (lines.some((line) => !(parseFloat(line.amount) > 0))) return 'invalidAmount';
+  if (splitRemaining(total, lines) !== 0) return 'sumMismatch';
+  return null;
+}
+
+export function buildSplitRequests(lines: SplitLineDraft[], type: 'income' | 'expense'): TransactionSplitRequest[] {
+  const sign = type === 'expense' ? -1 : 1;
+  return lines.map((line) => ({
+    amount: sign * Math.abs(lineAmount(line)),
+    categoryId: parseInt(line.categoryId, 10),
+    description: line.description.trim() || undefined,
+  }));
+}
+
+export function splitLinesFromDto(splits: TransactionSplitDto[] | undefined): SplitLineDraft[] {
+  return (splits ?? []).map((split) => ({
+    ...newSplitLine(Math.abs(split.amount), split.categoryId.toString()),
+    description: split.description ?? '',
+  }));
+}
@@ -5,10 +5,25 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number, currency: string = 'NZD', locale?: string): string {
+const FALLBACK_CURRENCY = 'NZD';
+
+let defaultCurrency = FALLBACK_CURRENCY;
+
+/**
+ * Sets the currency formatCurrency uses when none is given: the signed-in user's base currency.
+ */
+export function setDefaultCurrency(currency?: string | null): void {
+  defaultCurrency = currency || FALLBACK_CURRENCY;
+}
+
+export function getDefaultCurrency(): string {
+  return defaultCurrency;
+}
+
+export function formatCurrency(amount: number, currency?: string, locale?: string): string {
   return new Intl.NumberFormat(locale || 'en-NZ', {
     style: 'currency',
-    currency,
+    currency: currency || defaultCurrency,
   }).format(amount);
 }
 
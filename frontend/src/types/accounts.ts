@@ -0,0 +1,86 @@
+// Account Types (matching backend Accounts DTOs)
+
+/** Backend `AccountShareRole` enum values. */
+export type AccountShareRole = 1 | 2;
+
+interface AccountSharingMetadata {
+  isOwner: boolean;
+  isSharedWithMe: boolean;
+  shareRole?: AccountShareRole;
+  sharedByUserName?: string;
+}
+
+export interface AccountDto extends AccountSharingMetadata {
+  id: number;
+  name: string;
+  /** Backend `AccountType` enum value (see `BackendAccountType`). */
+  type: number;
+  typeDisplayName: string;
+  institution?: string;
+  lastFourDigits?: string;
+  currentBalance: number;
+  currency: string;
+  isActive: boolean;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountWithBalanceDto extends AccountSharingMetadata {
+  id: number;
+  name: string;
+  type: number;
+  typeDisplayName: string;
+  institution?: string;
+  /** Static balance stored on the account. */
+  currentBalance: number;
+  /** Real-time balance calculated from transactions. */
+  calculatedBalance: number;
+  currency: string;
+  isActive: boolean;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MonthlySpendingDto {
+  currentMonthSpending: number;
+  previousMonthSpending: number;
+  changeAmount: number;
+  changePercentage: number;
+  trendDirection: 'up' | 'down' | 'neutral';
+  monthName: string;
+  year: number;
+}
+
+export interface AccountDetailsDto {
+  id: number;
+  name: string;
+  type: number;
+  typeDisplayName: string;
+  institution?: string;
+  lastFourDigits?: string;
+  currentBalance: number;
+  calculatedBalance: number;
+  currency: string;
+  isActive: boolean;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastReconciledDate?: string;
+  lastReconciledBalance?: number;
+  monthlySpending: MonthlySpendingDto;
+}
+
+export interface CreateAccountRequest {
+  name: string;
+  type: number;
+  institution?: string;
+  currentBalance: number;
+  currency: string;
+  notes?: string;
+}
+
+export interface UpdateAccountRequest extends CreateAccountRequest {
+  id: number;
+}
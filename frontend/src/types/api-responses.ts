@@ -15,6 +15,10 @@ export interface DashboardSummaryResponse {
   isUsingFallbackMonth: boolean;
   displayMonth: number;
   displayYear: number;
+  /** Currency every total is converted into. */
+  baseCurrency: string;
+  /** Account currencies without an exchange rate, added at face value. */
+  unconvertedCurrencies: string[];
 }
 
 export interface RecentTransactionDto {
@@ -24,6 +28,8 @@ export interface RecentTransactionDto {
   description: string;
   userDescription?: string;
   accountName: string;
+  /** The account's currency; the amount is not converted. */
+  currency?: string;
   categoryName?: string;
   categoryColor?: string;
 }
@@ -41,6 +47,26 @@ export interface CashflowMonthDto {
   net: number;
 }
 
+export interface MonthlySummaryResponse {
+  year: number;
+  month: number;
+  monthName: string;
+  totalIncome: number;
+  totalExpenses: number;
+  netAmount: number;
+  transactionCount: number;
+  topCategories: CategorySpendingDto[];
+}
+
+export interface CategorySpendingDto {
+  categoryId: number;
+  categoryName: string;
+  categoryColor?: string;
+  amount: number;
+  transactionCount: number;
+  percentage: number;
+}
+
 export interface AnalyticsSummaryResponse {
   totalIncome: number;
   totalExpenses: number;
@@ -53,6 +79,8 @@ export interface AnalyticsSummaryResponse {
   worstMonth?: MonthHighlightDto;
   monthlyTrends: MonthlyTrendDto[];
   yearlyComparisons: YearlyComparisonDto[];
+  baseCurrency: string;
+  unconvertedCurrencies: string[];
 }
 
 export interface MonthHighlightDto {
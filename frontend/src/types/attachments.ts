@@ -0,0 +1,11 @@
+// Attachment Types (matching backend Attachments DTOs)
+
+export interface TransactionAttachmentDto {
+  id: number;
+  transactionId: number;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  isImage: boolean;
+  createdAt: string;
+}
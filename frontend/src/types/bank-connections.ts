@@ -28,6 +28,8 @@ export interface BankSyncLog {
   transactionsImported: number;
   transactionsSkipped: number;
   errorMessage?: string;
+  /** JSON metadata recorded by the sync, e.g. the date range it fetched. */
+  details?: string;
 }
 
 export interface BankSyncResult {
@@ -101,6 +103,13 @@ export interface InitiateConnectionResult {
 }
 
 // Request types
+export interface SyncRangeRequest {
+  /** First day to fetch (yyyy-MM-dd, inclusive). */
+  from: string;
+  /** Day after the last day to fetch (yyyy-MM-dd, exclusive). */
+  to: string;
+}
+
 export interface InitiateAkahuRequest {
   email?: string;
 }
@@ -1,5 +1,7 @@
 // Budget Types
 
+import { getDefaultCurrency } from '@/lib/utils';
+
 export type BudgetLifecycleStatus = 'Active' | 'Completed' | 'Cancelled';
 
 export interface BudgetSummary {
@@ -144,6 +146,8 @@ export interface UpdateBudgetRequest {
 
 export interface UpdateBudgetCategoryRequest {
   budgetedAmount?: number;
+  /** Replaces the amount carried in from the previous period. */
+  rolloverAmount?: number;
   allowRollover?: boolean;
   carryOverspend?: boolean;
   includeSubcategories?: boolean;
@@ -173,10 +177,10 @@ export function getProgressBarColor(usedPercentage: number): string {
   return 'bg-green-500';
 }
 
-export function formatCurrency(amount: number, currency = 'NZD'): string {
+export function formatCurrency(amount: number, currency?: string): string {
   return new Intl.NumberFormat('en-NZ', {
     style: 'currency',
-    currency,
+    currency: currency || getDefaultCurrency(),
   }).format(amount);
 }
 
@@ -213,6 +217,47 @@ export interface CategoryRollover {
   actualSpent: number;
   remainingAmount: number;
   rolloverAmount: number;
+  /** The calculated rollover; differs from rolloverAmount when the user overrode it. */
+  calculatedRolloverAmount: number;
+  isOverridden: boolean;
   carryOverspend: boolean;
   status: 'Surplus' | 'Deficit';
 }
+
+/** Amount to carry into the next period for a category instead of the calculated rollover. */
+export interface BudgetRolloverOverride {
+  sourceBudgetId: number;
+  categoryId: number;
+  amount: number;
+}
+
+/**
+ * Why a category carries what it does into the next period:
+ * - surplus: the unspent remainder carries over
+ * - overspendCarried: the overspend carries over as debt (CarryOverspend)
+ * - overspendCapped: the overspend is dropped and nothing carries over
+ * - notRecurring: the budget ends, so there is no next period to carry into
+ */
+export type RolloverReason = 'surplus' | 'overspendCarried' | 'overspendCapped' | 'notRecurring';
+
+export interface BudgetPeriodCloseCategory {
+  categoryId: number;
+  categoryName: string;
+  calculatedAmount: number;
+  carriedAmount: number;
+  overridden: boolean;
+  reason: RolloverReason;
+}
+
+/** A closed budget period and what its rollover categories carried into the next period. */
+export interface BudgetPeriodClose {
+  id: number;
+  sourceBudgetId: number;
+  sourceBudgetName: string;
+  periodStartDate: string;
+  periodEndDate: string;
+  newBudgetId?: number;
+  closedAt: string;
+  totalCarried: number;
+  categories: BudgetPeriodCloseCategory[];
+}
@@ -0,0 +1,130 @@
+// Category Types (matching backend Categories DTOs)
+
+export interface CategoryDto {
+  id: number;
+  name: string;
+  canonicalKey?: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  isSystemCategory: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  parentCategoryId?: number;
+  parentCategoryName?: string;
+  fullPath: string;
+  createdAt: string;
+  updatedAt: string;
+  transactionCount: number;
+  totalAmount: number;
+  subCategories: CategoryDto[];
+}
+
+/** Category returned by `/categories/filtered`, with counts scoped to the active filters. */
+export interface CategoryWithTransactionCountDto extends Omit<CategoryDto, 'subCategories'> {
+  /** e.g. "Food & Dining (12)" */
+  displayName: string;
+}
+
+/**
+ * Statistics for a category and its subcategories over the last `months` months.
+ * Amounts are signed net totals, so spending is negative.
+ */
+export interface CategoryStatisticsDto {
+  categoryId: number;
+  categoryName: string;
+  months: number;
+  transactionCount: number;
+  totalAmount: number;
+  averageAmount: number;
+  lastTransactionDate?: string;
+  firstTransactionDate?: string;
+  monthlyTotals: CategoryMonthlyTotalDto[];
+  topMerchants: CategoryMerchantDto[];
+  subcategories: CategorySubcategoryTotalDto[];
+}
+
+export interface CategoryMonthlyTotalDto {
+  periodStart: string;
+  amount: number;
+  transactionCount: number;
+}
+
+export interface CategoryMerchantDto {
+  name: string;
+  amount: number;
+  transactionCount: number;
+  lastTransactionDate: string;
+}
+
+export interface CategorySubcategoryTotalDto {
+  categoryId: number;
+  categoryName: string;
+  color?: string;
+  amount: number;
+  transactionCount: number;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  parentCategoryId?: number;
+  sortOrder: number;
+}
+
+export interface UpdateCategoryRequest extends CreateCategoryRequest {
+  id: number;
+  isActive: boolean;
+}
+
+/**
+ * What a merge or split touches, returned both as a preview and as the result.
+ * For a split, budgets, rules, bank mappings and recurring patterns stay with the source category.
+ */
+export interface CategoryMigrationSummary {
+  transactionCount: number;
+  splitLineCount: number;
+  budgetCount: number;
+  /** Budget allocations folded into the target's existing allocation in the same budget. */
+  combinedBudgetAllocationCount: number;
+  ruleCount: number;
+  bankCategoryMappingCount: number;
+  recurringPatternCount: number;
+  /** Recurring schedules moved to another category; for a split, those matching a target's pattern. */
+  recurringScheduleCount: number;
+  /** Subcategories moved under the merge target. */
+  subcategoryCount: number;
+  /** Split only: transactions that match no target and stay put. */
+  remainingTransactionCount: number;
+  targets: CategorySplitTargetSummary[];
+}
+
+export interface CategorySplitTargetSummary {
+  /** Missing in a preview for a category the split will create. */
+  categoryId?: number;
+  categoryName: string;
+  isNew: boolean;
+  transactionCount: number;
+}
+
+export interface MergeCategoriesRequest {
+  sourceCategoryIds: number[];
+  targetCategoryId: number;
+}
+
+/**
+ * One destination of a split: an existing category or a new subcategory of the source,
+ * receiving the selected transactions plus those whose description contains `pattern`.
+ */
+export interface CategorySplitTargetRequest {
+  categoryId?: number;
+  newCategoryName?: string;
+  transactionIds: number[];
+  pattern?: string;
+}
+
+export interface SplitCategoryRequest {
+  targets: CategorySplitTargetRequest[];
+}
@@ -0,0 +1,48 @@
+// Debt Types (matching backend Debts DTOs)
+
+export interface DebtTermsDto {
+  accountId: number;
+  /** Annual percentage rate, e.g. 19.99. */
+  annualInterestRate: number;
+  minimumPayment: number;
+  termMonths?: number;
+  startDate?: string;
+  /** Start date plus the term, when both are set. */
+  maturityDate?: string;
+}
+
+export interface DebtDto {
+  accountId: number;
+  name: string;
+  /** Backend AccountType: 3 = CreditCard, 5 = Loan. */
+  type: number;
+  currency: string;
+  /** Amount owed in the account's currency; zero or negative once paid off or in credit. */
+  balance: number;
+  baseBalance: number;
+  /** Minimum payment in the base currency; absent when the account has no terms. */
+  baseMinimumPayment?: number;
+  terms?: DebtTermsDto;
+}
+
+export interface DebtsResponse {
+  baseCurrency: string;
+  /** Account currencies without an exchange rate, whose amounts were used unconverted. */
+  unconvertedCurrencies: string[];
+  debts: DebtDto[];
+  /** The saved payoff plan, or the default avalanche plan with no extra payment. */
+  plan: DebtPayoffPlanDto;
+}
+
+export interface DebtPayoffPlanDto {
+  strategy: 'avalanche' | 'snowball';
+  /** Paid each month on top of the minimum payments, in the base currency. */
+  extraPayment: number;
+}
+
+export interface SaveDebtTermsRequest {
+  annualInterestRate: number;
+  minimumPayment: number;
+  termMonths?: number;
+  startDate?: string;
+}
@@ -0,0 +1,33 @@
+// Exchange Rate Types (matching backend ExchangeRates DTOs)
+
+export interface ExchangeRateDto {
+  id: number;
+  fromCurrency: string;
+  toCurrency: string;
+  /** Units of toCurrency per unit of fromCurrency. */
+  rate: number;
+  rateDate: string;
+  source: 'Manual' | 'Imported' | 'Transfer' | string;
+}
+
+export interface ExchangeRatesResponse {
+  baseCurrency: string;
+  /** Currencies of active accounts other than the base currency. */
+  accountCurrencies: string[];
+  /** Account currencies with no rate to the base currency; their amounts are left unconverted. */
+  missingCurrencies: string[];
+  rates: ExchangeRateDto[];
+}
+
+export interface SaveExchangeRateRequest {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: string;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  updated: number;
+  errors: string[];
+}
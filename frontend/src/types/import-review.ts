@@ -18,6 +18,8 @@ export interface Transaction {
   tags?: string;
   accountId: number;
   categoryId?: number;
+  /** Present when the amount is divided across categories; categoryId then follows the largest line. */
+  splits?: TransactionSplit[];
   relatedTransactionId?: number;
   type: TransactionType;
   transferId?: string;
@@ -27,6 +29,14 @@ export interface Transaction {
   isDeleted: boolean;
 }
 
+// One category's share of a split transaction (matching backend TransactionSplit entity)
+export interface TransactionSplit {
+  id?: number;
+  amount: number;
+  description?: string;
+  categoryId: number;
+}
+
 // Enums (matching backend enums)
 export enum TransactionStatus {
   Pending = 1,
@@ -39,7 +49,8 @@ export enum TransactionSource {
   Manual = 1,
   CsvImport = 2,
   OfxImport = 3,
-  ApiImport = 4
+  ApiImport = 4,
+  Import = 5 // QIF, CAMT.053 and MT940 statements parsed in the browser
 }
 
 export enum TransactionType {
@@ -159,6 +170,36 @@ export interface ImportAnalysisResult {
   errors: string[];
 }
 
+// Conflict detection run in the browser (statement formats parsed client-side)
+export type ConflictDetectionLevel = 'strict' | 'moderate' | 'relaxed';
+
+export type SimilarityAlgorithm = 'levenshtein' | 'tokenSet' | 'jaroWinkler';
+
+export interface DescriptionMatchingOptions {
+  algorithm: SimilarityAlgorithm;
+  normalizeMerchants: boolean;
+  threshold: number; // 0-1, minimum similarity for descriptions to count as the same
+}
+
+export interface ImportAnalysisOptions {
+  dateToleranceDays?: number;
+  amountTolerance?: number;
+  enableTransferDetection?: boolean;
+  conflictDetectionLevel?: ConflictDetectionLevel;
+  descriptionMatching?: DescriptionMatchingOptions;
+}
+
+export interface ConflictCheckRequest {
+  candidates: ImportCandidate[];
+  existingTransactions: Transaction[];
+  options: ImportAnalysisOptions;
+}
+
+export interface ImportAnalysisProgress {
+  processed: number;
+  total: number;
+}
+
 // Import Execution Request
 export interface ImportExecutionRequest {
   analysisId: string; // Reference to the analysis result
@@ -233,6 +274,8 @@ export interface ImportReviewScreenProps {
   onCancel: () => void;
   accountName?: string;
   showBulkActions?: boolean;
+  /** When set, conflicts are detected in a worker before review; analysisResult.reviewItems is replaced. */
+  conflictCheck?: ConflictCheckRequest;
 }
 
 export interface ConflictResolutionCardProps {
@@ -262,12 +305,7 @@ export interface AnalyzeImportRequest {
   };
   
   // Analysis options
-  options?: {
-    dateToleranceDays?: number;
-    amountTolerance?: number;
-    enableTransferDetection?: boolean;
-    conflictDetectionLevel?: 'strict' | 'moderate' | 'relaxed';
-  };
+  options?: ImportAnalysisOptions;
 }
 
 // Export default collection for easy importing
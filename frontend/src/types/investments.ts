@@ -0,0 +1,90 @@
+// Investment Types (matching backend Investments DTOs)
+
+export type InvestmentTradeType = 'Buy' | 'Sell' | 'Dividend';
+
+export interface HoldingDto {
+  id: number;
+  symbol: string;
+  name?: string;
+  units: number;
+  averageCost: number;
+  /** What the units still held cost, fees included. */
+  costBasis: number;
+  /** Latest stored price; absent when the symbol has none and the holding is valued at cost. */
+  price?: number;
+  priceDate?: string;
+  marketValue: number;
+  unrealisedGain: number;
+  realisedGain: number;
+  dividends: number;
+  /** Share of the portfolio's market value, in percent. */
+  allocationPercent: number;
+}
+
+export interface InvestmentTradeDto {
+  id: number;
+  holdingId: number;
+  symbol: string;
+  type: InvestmentTradeType;
+  tradeDate: string;
+  units: number;
+  price: number;
+  fees: number;
+  /** Cash moved on the account: negative for buys, positive for sales and dividends. */
+  amount: number;
+  transactionId?: number;
+  notes?: string;
+}
+
+export interface PortfolioResponse {
+  accountId: number;
+  currency: string;
+  cashBalance: number;
+  marketValue: number;
+  /** Cash plus market value; the account balance. */
+  totalValue: number;
+  costBasis: number;
+  unrealisedGain: number;
+  unrealisedGainPercent?: number;
+  realisedGain: number;
+  dividends: number;
+  /** Time-weighted return since the first trade, in percent. */
+  timeWeightedReturn?: number;
+  holdings: HoldingDto[];
+  /** Newest first. */
+  trades: InvestmentTradeDto[];
+}
+
+export interface SaveInvestmentTradeRequest {
+  accountId: number;
+  symbol: string;
+  name?: string;
+  type: InvestmentTradeType;
+  tradeDate: string;
+  units: number;
+  price: number;
+  fees: number;
+  /** Required for dividends, which have no units or price. */
+  dividendAmount?: number;
+  notes?: string;
+}
+
+export interface SecurityPriceDto {
+  id: number;
+  symbol: string;
+  priceDate: string;
+  price: number;
+  source: 'Manual' | 'Imported' | 'Trade';
+}
+
+export interface SaveSecurityPriceRequest {
+  symbol: string;
+  price: number;
+  priceDate: string;
+}
+
+export interface SecurityPriceImportResult {
+  imported: number;
+  updated: number;
+  errors: string[];
+}
@@ -0,0 +1,61 @@
+// Net Worth Types (matching backend NetWorth DTOs)
+
+export interface AccountTypeBalanceDto {
+  /** Backend AccountType number (see BackendAccountType). */
+  accountType: number;
+  /** Signed balance in the base currency; liabilities are negative. */
+  balance: number;
+}
+
+export interface NetWorthSnapshotDto {
+  year: number;
+  month: number;
+  /** Month end, or today for the current month. */
+  date: string;
+  totalAssets: number;
+  /** Debt owed, as a positive amount. */
+  totalLiabilities: number;
+  netWorth: number;
+  byAccountType: AccountTypeBalanceDto[];
+}
+
+export interface NetWorthAccountDto {
+  accountId: number;
+  name: string;
+  type: number;
+  currency: string;
+  isLiability: boolean;
+  hasValuations: boolean;
+  /** Balance at the first snapshot, in the base currency. */
+  startBalance: number;
+  /** Balance at the last snapshot, in the base currency. */
+  endBalance: number;
+  change: number;
+}
+
+export interface NetWorthHistoryResponse {
+  baseCurrency: string;
+  /** Account currencies without a rate, whose balances were added unconverted. */
+  unconvertedCurrencies: string[];
+  /** One per month, oldest first; the last is the current month as of today. */
+  snapshots: NetWorthSnapshotDto[];
+  accounts: NetWorthAccountDto[];
+}
+
+export interface AccountValuationDto {
+  id: number;
+  accountId: number;
+  accountName: string;
+  currency: string;
+  /** Value in the account's currency. */
+  value: number;
+  valuationDate: string;
+  notes?: string;
+}
+
+export interface SaveAccountValuationRequest {
+  accountId: number;
+  value: number;
+  valuationDate: string;
+  notes?: string;
+}
@@ -40,3 +40,8 @@ export interface UpdateNotificationPreferenceRequest {
   budgetAlertPercentage?: number | null;
   runwayWarningMonths?: number | null;
 }
+
+export type NotificationChannel = 'inApp' | 'email' | 'telegram';
+
+/** Per-type channel toggles, keyed by backend `NotificationType` name, as stored in `channelPreferences`. */
+export type ChannelPreferences = Record<string, Partial<Record<NotificationChannel, boolean>>>;
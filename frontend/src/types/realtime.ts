@@ -0,0 +1,20 @@
+import type { BankSyncJobStatus } from './bank-connections';
+import type { ChatMessageDto } from './chat';
+import type { NotificationDto } from './notifications';
+
+/** Payloads streamed by `GET /api/realtime/events`, keyed by SSE event name. */
+export interface RealtimeEventMap {
+  'notification.created': { notification: NotificationDto; unreadCount: number };
+  'notification.unreadCount': { count: number };
+  'bankSync.job': BankSyncJobStatus;
+  'chat.message': { message: ChatMessageDto };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
+/**
+ * `live` — the event stream is open.
+ * `connecting` — opening or reopening the stream.
+ * `polling` — the stream is unavailable; consumers fall back to polling.
+ */
+export type RealtimeStatus = 'live' | 'connecting' | 'polling';
@@ -0,0 +1,52 @@
+// Reconciliation Types (matching backend Reconciliation DTOs)
+
+export enum ReconciliationStatus {
+  InProgress = 0,
+  Completed = 1,
+  Reviewed = 2,
+  Cancelled = 3
+}
+
+export interface ReconciliationDto {
+  id: number;
+  accountId: number;
+  accountName: string;
+  reconciliationDate: string;
+  statementEndDate: string;
+  statementEndBalance: number;
+  calculatedBalance?: number;
+  status: ReconciliationStatus;
+  createdByUserId: string;
+  completedAt?: string;
+  notes?: string;
+  balanceDifference: number;
+  isBalanced: boolean;
+  totalItemsCount: number;
+  matchedItemsCount: number;
+  matchedPercentage: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReconciliationSummaryDto {
+  id: number;
+  accountId: number;
+  accountName: string;
+  reconciliationDate: string;
+  statementEndDate: string;
+  statementEndBalance: number;
+  status: ReconciliationStatus;
+  balanceDifference: number;
+  isBalanced: boolean;
+  matchedPercentage: number;
+}
+
+export interface ReconciliationListResponse {
+  reconciliations: ReconciliationSummaryDto[];
+  totalCount: number;
+  pageSize: number;
+  page: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
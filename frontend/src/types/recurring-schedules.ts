@@ -0,0 +1,72 @@
+// Recurring Schedule Types (matching backend RecurringSchedules DTOs)
+
+export type ScheduleFrequency = 'Weekly' | 'Biweekly' | 'Monthly' | 'Quarterly' | 'Yearly';
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ['Weekly', 'Biweekly', 'Monthly', 'Quarterly', 'Yearly'];
+
+export type CalendarEntryStatus = 'expected' | 'paid' | 'late' | 'missed';
+
+export interface RecurringScheduleDto {
+  id: number;
+  name: string;
+  accountId: number;
+  accountName: string;
+  categoryId?: number;
+  categoryName?: string;
+  categoryColor?: string;
+  /** Signed like a transaction: negative for payments, positive for income. */
+  amount: number;
+  frequency: string;
+  startDate: string;
+  endDate?: string;
+  /** Absent once the schedule is inactive or past its end date. */
+  nextDueDate?: string;
+  matchText?: string;
+  amountTolerancePercent: number;
+  isActive: boolean;
+  notes?: string;
+  lastMatchedAt?: string;
+  missedCount: number;
+  lastStatus?: string;
+  /** Amount of the latest matched transaction when it was outside the tolerance. */
+  lastChangedAmount?: number;
+}
+
+export interface SaveRecurringScheduleRequest {
+  name: string;
+  accountId: number;
+  categoryId?: number;
+  amount: number;
+  frequency: ScheduleFrequency;
+  startDate: string;
+  endDate?: string;
+  matchText?: string;
+  amountTolerancePercent?: number;
+  isActive: boolean;
+  notes?: string;
+}
+
+export interface RecurringCalendarEntryDto {
+  date: string;
+  name: string;
+  amount: number;
+  /** 'schedule' for user-defined schedules, 'inferred' for bills detected from history. */
+  source: string;
+  scheduleId?: number;
+  patternId?: number;
+  status: string;
+  transactionId?: number;
+  actualAmount?: number;
+  amountChanged: boolean;
+  accountName?: string;
+  categoryName?: string;
+  categoryColor?: string;
+}
+
+export interface RecurringCalendarDto {
+  startDate: string;
+  endDate: string;
+  entries: RecurringCalendarEntryDto[];
+  totalExpectedExpenses: number;
+  totalExpectedIncome: number;
+}
@@ -0,0 +1,70 @@
+// Categorization Rule Types (matching backend Rules DTOs)
+
+export type RuleType = 'Contains' | 'StartsWith' | 'EndsWith' | 'Equals' | 'Regex';
+/** Rule types arrive as backend enum values; the builder works with names. */
+export type RuleTypeValue = RuleType | 1 | 2 | 3 | 4 | 5;
+
+export type RuleLogic = 'All' | 'Any';
+/** Backend `RuleLogic` enum values: All = 1, Any = 2. */
+export type RuleLogicValue = RuleLogic | 1 | 2;
+
+export type RuleConditionField =
+  | 'Description'
+  | 'UserDescription'
+  | 'Amount'
+  | 'AccountType'
+  | 'AccountName'
+  | 'TransactionType'
+  | 'ReferenceNumber'
+  | 'Notes';
+
+export type RuleConditionOperator =
+  | 'Equals'
+  | 'NotEquals'
+  | 'Contains'
+  | 'NotContains'
+  | 'StartsWith'
+  | 'EndsWith'
+  | 'GreaterThan'
+  | 'LessThan'
+  | 'GreaterThanOrEqual'
+  | 'LessThanOrEqual'
+  | 'Regex';
+
+export interface RuleConditionDto {
+  /** Field name, or the backend `RuleConditionField` enum value. */
+  field: RuleConditionField | string | number;
+  /** Operator name, or the backend `RuleConditionOperator` enum value. */
+  operator: RuleConditionOperator | string | number;
+  value: string;
+  isCaseSensitive: boolean;
+  order: number;
+}
+
+export interface CategorizationRule {
+  id: number;
+  name: string;
+  description?: string;
+  type: RuleTypeValue;
+  pattern: string;
+  isCaseSensitive: boolean;
+  priority: number;
+  isActive: boolean;
+  isAiGenerated: boolean;
+  confidenceScore?: number;
+  matchCount: number;
+  correctionCount: number;
+  minAmount?: number;
+  maxAmount?: number;
+  accountTypes?: string;
+  /** Comma-separated tags added to transactions the rule matches. */
+  applyTags?: string;
+  categoryId: number;
+  categoryName: string;
+  logic: RuleLogicValue;
+  accuracyRate: number;
+  createdAt: string;
+  updatedAt: string;
+  conditions: RuleConditionDto[];
+  applicationCount: number;
+}
@@ -0,0 +1,51 @@
+// Subscription Tracker Types (matching backend Subscriptions DTOs)
+
+export type SubscriptionCancellationStatus = 'None' | 'CancelIntended' | 'Cancelled';
+
+export interface SubscriptionPriceChangeDto {
+  date: string;
+  previousAmount: number;
+  newAmount: number;
+}
+
+export interface SubscriptionDto {
+  patternId: number;
+  merchantName: string;
+  interval: string;
+  intervalDays: number;
+  averageAmount: number;
+  /** Latest charge (positive), or the average when no charge was found in the last year. */
+  currentAmount: number;
+  monthlyCost: number;
+  annualizedAmount: number;
+  /** Detection status: Active, AtRisk, Paused or Cancelled. */
+  status: string;
+  cancellationStatus: string;
+  cancellationStatusChangedAt?: string;
+  /** Latest charge seen after the user marked the subscription as cancelled. */
+  chargedAfterCancellationAt?: string;
+  confidenceLevel: string;
+  occurrenceCount: number;
+  firstChargedAt: string;
+  lastChargedAt: string;
+  nextExpectedDate?: string;
+  lastUsedAt?: string;
+  notes?: string;
+  categoryId?: number;
+  categoryName?: string;
+  categoryColor?: string;
+  priceChanges: SubscriptionPriceChangeDto[];
+}
+
+export interface SubscriptionsResponse {
+  subscriptions: SubscriptionDto[];
+  totalAnnualCost: number;
+  cancelIntendedAnnualCost: number;
+  cancelledAnnualSavings: number;
+}
+
+export interface UpdateSubscriptionRequest {
+  cancellationStatus: SubscriptionCancellationStatus;
+  lastUsedAt?: string;
+  notes?: string;
+}
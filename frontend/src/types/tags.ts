@@ -0,0 +1,69 @@
+// Tag Types (matching backend Tags DTOs)
+
+export interface TagDto {
+  name: string;
+  /** Hex color; tags only ever typed on transactions have none. */
+  color?: string;
+  transactionCount: number;
+  ruleCount: number;
+  lastUsedAt?: string;
+}
+
+export interface SaveTagRequest {
+  name: string;
+  color?: string;
+}
+
+export interface RenameTagRequest {
+  name: string;
+  /** Renaming onto an existing tag merges the two. */
+  newName: string;
+}
+
+export interface TagChangeResult {
+  name: string;
+  transactionsUpdated: number;
+  rulesUpdated: number;
+}
+
+export interface TagCategorySpending {
+  /** Absent for uncategorized spending. */
+  categoryId?: number;
+  categoryName: string;
+  categoryColor?: string;
+  amount: number;
+  transactionCount: number;
+}
+
+export interface TagMonthlySpending {
+  year: number;
+  month: number;
+  amount: number;
+}
+
+export interface TagSpending {
+  name: string;
+  color?: string;
+  totalSpent: number;
+  totalIncome: number;
+  transactionCount: number;
+  categories: TagCategorySpending[];
+  months: TagMonthlySpending[];
+}
+
+/**
+ * Spending per tag. A transaction with several tags counts fully under each of them,
+ * so the tag totals do not add up to overall spending.
+ */
+export interface TagSpendingReport {
+  startDate: string;
+  endDate: string;
+  tags: TagSpending[];
+}
+
+export interface BulkUpdateTagsResponse {
+  success: boolean;
+  message: string;
+  transactionsUpdated: number;
+  errors: string[];
+}
@@ -0,0 +1,121 @@
+// Transaction Types (matching backend Transactions DTOs)
+
+import type { TransactionSource, TransactionStatus, TransactionType } from './import-review';
+
+export interface TransactionDto {
+  id: number;
+  amount: number;
+  transactionDate: string;
+  description: string;
+  userDescription?: string;
+  status: TransactionStatus;
+  source: TransactionSource;
+  externalId?: string;
+  referenceNumber?: string;
+  notes?: string;
+  location?: string;
+  isReviewed: boolean;
+  isExcluded: boolean;
+  /** Comma-separated tag list as stored by the backend. */
+  tags?: string;
+  type: TransactionType;
+  accountId: number;
+  accountName: string;
+  categoryId?: number;
+  categoryName?: string;
+  categoryColor?: string;
+  /** Split lines; each counts under its own category in budgets and reports. */
+  splits?: TransactionSplitDto[];
+  /** Receipts and documents attached; only filled in on list responses. */
+  attachmentCount?: number;
+  /** First image attachment, shown as a thumbnail in lists. */
+  thumbnailAttachmentId?: number;
+  transferId?: string;
+  isTransferSource: boolean;
+  relatedTransactionId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransactionSplitDto {
+  id: number;
+  amount: number;
+  description?: string;
+  categoryId: number;
+  categoryName: string;
+  categoryColor?: string;
+}
+
+export interface TransactionSummaryDto {
+  totalBalance: number;
+  totalIncome: number;
+  totalExpenses: number;
+  incomeTransactionCount: number;
+  expenseTransactionCount: number;
+  transferTransactionCount: number;
+  unreviewedTransactionCount: number;
+}
+
+export interface TransactionListResponse {
+  transactions: TransactionDto[];
+  summary: TransactionSummaryDto;
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface TransactionQueryParams {
+  page?: number;
+  pageSize?: number;
+  searchTerm?: string;
+  includeTransfers?: boolean;
+  onlyTransfers?: boolean;
+  transferId?: string;
+  categoryId?: number;
+  accountId?: number;
+  isReviewed?: boolean;
+  isReconciled?: boolean;
+  needsCategorization?: boolean;
+  startDate?: string;
+  endDate?: string;
+  transactionType?: string;
+  /** Only transactions carrying this tag (case-insensitive). */
+  tag?: string;
+  /** Only transactions with (true) or without (false) attachments. */
+  hasAttachments?: boolean;
+  sortBy?: string;
+  sortDirection?: string;
+}
+
+export interface CreateTransactionRequest {
+  amount: number;
+  transactionDate: string;
+  description: string;
+  userDescription?: string;
+  accountId: number;
+  categoryId?: number;
+  notes?: string;
+  location?: string;
+  /** Comma-separated tag list. */
+  tags?: string;
+  /** Enum value: 1=Pending, 2=Cleared, 3=Reconciled, 4=Cancelled */
+  status: number;
+  /**
+   * Lines with the transaction's sign that sum to its amount. On update, omit to keep
+   * the current split and send an empty list to remove it.
+   */
+  splits?: TransactionSplitRequest[];
+}
+
+export interface TransactionSplitRequest {
+  amount: number;
+  categoryId: number;
+  description?: string;
+}
+
+export interface UpdateTransactionRequest extends Omit<CreateTransactionRequest, 'accountId'> {
+  id: number;
+}
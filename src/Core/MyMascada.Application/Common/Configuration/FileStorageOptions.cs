@@ -0,0 +1,26 @@
+namespace MyMascada.Application.Common.Configuration;
+
+/// <summary>
+/// Configuration for where uploaded files (transaction attachments) are stored.
+/// </summary>
+public class FileStorageOptions
+{
+    public const string SectionName = "FileStorage";
+
+    /// <summary>
+    /// Active storage provider ID. Only "local" ships today; other backends plug in
+    /// by implementing IFileStorageService and registering under a new ID.
+    /// </summary>
+    public string Provider { get; set; } = "local";
+
+    /// <summary>
+    /// Root directory for the local provider. Relative paths resolve against the working
+    /// directory (/app in the Docker image, where a volume is mounted at /app/data).
+    /// </summary>
+    public string LocalPath { get; set; } = "data/attachments";
+
+    /// <summary>
+    /// Largest accepted upload, in bytes
+    /// </summary>
+    public long MaxFileSizeBytes { get; set; } = 10 * 1024 * 1024;
+}
@@ -0,0 +1,103 @@
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Common;
+
+/// <summary>
+/// Converts amounts into the user's base currency from their stored exchange rates. A conversion
+/// uses the latest rate on or before the amount's date, or the earliest later rate when the
+/// history doesn't go back that far. Pairs without a direct rate use the inverse rate or a
+/// cross rate through the base currency.
+/// </summary>
+public class CurrencyConverter
+{
+    private readonly Dictionary<(string From, string To), List<(DateTime Date, decimal Rate)>> _rates;
+    private readonly HashSet<string> _missingCurrencies = new(StringComparer.OrdinalIgnoreCase);
+
+    public CurrencyConverter(string baseCurrency, IEnumerable<ExchangeRate> rates)
+    {
+        BaseCurrency = baseCurrency.ToUpperInvariant();
+        _rates = rates
+            .Where(r => r.Rate > 0)
+            .GroupBy(r => (r.FromCurrency.ToUpperInvariant(), r.ToCurrency.ToUpperInvariant()))
+            .ToDictionary(
+                g => g.Key,
+                g => g.OrderBy(r => r.RateDate).Select(r => (r.RateDate.Date, r.Rate)).ToList());
+    }
+
+    /// <summary>
+    /// A converter without rates, for when amounts are already in one currency
+    /// </summary>
+    public static CurrencyConverter Identity(string baseCurrency) => new(baseCurrency, Array.Empty<ExchangeRate>());
+
+    public string BaseCurrency { get; }
+
+    /// <summary>
+    /// Currencies left unconverted so far because no rate to the base currency is known
+    /// </summary>
+    public IReadOnlyCollection<string> MissingCurrencies => _missingCurrencies;
+
+    /// <summary>
+    /// Converts an amount in the given currency to the base currency. Amounts without a known
+    /// rate are returned unchanged and their currency is added to <see cref="MissingCurrencies"/>.
+    /// </summary>
+    public decimal ToBase(decimal amount, string? currency, DateTime date)
+    {
+        if (string.IsNullOrWhiteSpace(currency) || string.Equals(currency, BaseCurrency, StringComparison.OrdinalIgnoreCase))
+            return amount;
+
+        var rate = GetRate(currency, BaseCurrency, date);
+        if (!rate.HasValue)
+        {
+            _missingCurrencies.Add(currency.ToUpperInvariant());
+            return amount;
+        }
+
+        return Math.Round(amount * rate.Value, 2);
+    }
+
+    /// <summary>
+    /// The transaction's amount in the base currency, at the rate of its date
+    /// </summary>
+    public decimal ToBase(Transaction transaction) =>
+        ToBase(transaction.Amount, transaction.Account?.Currency, transaction.TransactionDate);
+
+    /// <summary>
+    /// Units of <paramref name="toCurrency"/> per unit of <paramref name="fromCurrency"/> on the date,
+    /// or null when no rate connects the two
+    /// </summary>
+    public decimal? GetRate(string fromCurrency, string toCurrency, DateTime date)
+    {
+        var from = fromCurrency.ToUpperInvariant();
+        var to = toCurrency.ToUpperInvariant();
+        if (from == to)
+            return 1m;
+
+        var direct = FindRate(from, to, date);
+        if (direct.HasValue)
+            return direct;
+
+        var inverse = FindRate(to, from, date);
+        if (inverse.HasValue)
+            return 1m / inverse.Value;
+
+        if (from != BaseCurrency && to != BaseCurrency)
+        {
+            var fromInBase = GetRate(from, BaseCurrency, date);
+            var toInBase = GetRate(to, BaseCurrency, date);
+            if (fromInBase.HasValue && toInBase.HasValue)
+                return fromInBase.Value / toInBase.Value;
+        }
+
+        return null;
+    }
+
+    private decimal? FindRate(string from, string to, DateTime date)
+    {
+        if (!_rates.TryGetValue((from, to), out var history))
+            return null;
+
+        var day = date.Date;
+        var onOrBefore = history.LastOrDefault(r => r.Date <= day);
+        return onOrBefore.Rate > 0 ? onOrBefore.Rate : history[0].Rate;
+    }
+}
@@ -9,8 +9,10 @@ public interface IBankSyncJobService
 {
     /// <summary>
     /// Enqueues a sync job for a single bank connection.
+    /// When <paramref name="from"/> and <paramref name="to"/> are set, that range is fetched
+    /// instead of the window since the last sync.
     /// </summary>
-    BankSyncJobAcceptedDto EnqueueConnectionSync(Guid userId, int connectionId);
+    BankSyncJobAcceptedDto EnqueueConnectionSync(Guid userId, int connectionId, DateTime? from = null, DateTime? to = null);
 
     /// <summary>
     /// Enqueues a sync job for multiple bank connections.
@@ -18,6 +18,18 @@ public interface IBankSyncService
     /// <returns>Result of the synchronization operation</returns>
     Task<BankSyncResult> SyncAccountAsync(int bankConnectionId, BankSyncType syncType, CancellationToken ct = default);
 
+    /// <summary>
+    /// Synchronizes a single bank connection over an explicit date range instead of the window
+    /// derived from the last sync. Used to re-fetch days that an earlier sync missed.
+    /// </summary>
+    /// <param name="bankConnectionId">The ID of the bank connection to sync</param>
+    /// <param name="syncType">The type of sync being performed</param>
+    /// <param name="from">Start of the range (inclusive, UTC date)</param>
+    /// <param name="to">End of the range (exclusive, UTC date)</param>
+    /// <param name="ct">Cancellation token</param>
+    /// <returns>Result of the synchronization operation</returns>
+    Task<BankSyncResult> SyncAccountRangeAsync(int bankConnectionId, BankSyncType syncType, DateTime from, DateTime to, CancellationToken ct = default);
+
     /// <summary>
     /// Synchronizes all active bank connections for a user.
     /// </summary>
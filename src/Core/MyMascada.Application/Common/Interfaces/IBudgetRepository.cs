@@ -94,6 +94,18 @@ public interface IBudgetRepository
     /// </summary>
     Task<IEnumerable<Guid>> GetUserIdsWithExpiredActiveBudgetsAsync(CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Closes an expired budget period in one transaction: creates the next period's budget (if any),
+    /// saves the expired budget's completed status and records the close with what each category carried.
+    /// Returns the created next-period budget, or null when none was given.
+    /// </summary>
+    Task<Budget?> ClosePeriodAsync(Budget expiredBudget, Budget? nextPeriodBudget, BudgetPeriodClose periodClose, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets the period closes that closed a budget or opened it as the next period, newest first
+    /// </summary>
+    Task<IEnumerable<BudgetPeriodClose>> GetPeriodClosesForBudgetAsync(int budgetId, Guid userId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Checks if a budget name already exists for the user
     /// </summary>
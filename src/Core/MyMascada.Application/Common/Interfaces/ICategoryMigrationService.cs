@@ -0,0 +1,33 @@
+using MyMascada.Application.Features.Categories.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Moves transactions and everything else that references a category when categories are merged or split.
+/// Each migration runs in a single database transaction.
+/// </summary>
+public interface ICategoryMigrationService
+{
+    /// <summary>
+    /// Moves everything from the source categories to the target and deletes the sources.
+    /// With <paramref name="dryRun"/> nothing is written and the summary is a preview.
+    /// </summary>
+    Task<CategoryMigrationSummaryDto> MergeAsync(
+        Guid userId,
+        IReadOnlyCollection<int> sourceCategoryIds,
+        int targetCategoryId,
+        bool dryRun,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Moves the source category's matching transactions to the targets, creating new subcategories as needed.
+    /// Budgets, rules and bank mappings stay with the source.
+    /// With <paramref name="dryRun"/> nothing is written and the summary is a preview.
+    /// </summary>
+    Task<CategoryMigrationSummaryDto> SplitAsync(
+        Guid userId,
+        int sourceCategoryId,
+        IReadOnlyList<CategorySplitTargetRequest> targets,
+        bool dryRun,
+        CancellationToken cancellationToken = default);
+}
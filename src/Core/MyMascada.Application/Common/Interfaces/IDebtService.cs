@@ -0,0 +1,32 @@
+using MyMascada.Application.Features.Debts.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Stores interest and repayment terms for loan and credit card accounts and the user's payoff
+/// plan, and lists the debts that plan works through.
+/// </summary>
+public interface IDebtService
+{
+    /// <summary>
+    /// Loan and credit card accounts with a balance owed, largest debt first, with the payoff plan
+    /// </summary>
+    Task<DebtsResponse> GetDebtsAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// A loan or credit card account's balance owed and terms (null when none have been entered)
+    /// </summary>
+    Task<DebtDto> GetDebtAsync(Guid userId, int accountId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Adds or replaces the account's terms
+    /// </summary>
+    Task<DebtTermsDto> SaveTermsAsync(Guid userId, int accountId, SaveDebtTermsRequest request, CancellationToken cancellationToken = default);
+
+    Task DeleteTermsAsync(Guid userId, int accountId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Adds or replaces the user's payoff strategy and extra monthly payment
+    /// </summary>
+    Task<DebtPayoffPlanDto> SavePlanAsync(Guid userId, SaveDebtPayoffPlanRequest request, CancellationToken cancellationToken = default);
+}
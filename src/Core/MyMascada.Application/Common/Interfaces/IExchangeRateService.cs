@@ -0,0 +1,35 @@
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Stores the user's historical exchange rates and converts amounts into their base currency
+/// (<see cref="Domain.Entities.User.Currency"/>) for dashboard, analytics and budget totals.
+/// </summary>
+public interface IExchangeRateService
+{
+    Task<ExchangeRatesResponse> GetRatesAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Adds the rate, replacing any rate already stored for the same pair and day
+    /// </summary>
+    Task<ExchangeRateDto> SaveRateAsync(Guid userId, SaveExchangeRateRequest request, CancellationToken cancellationToken = default);
+
+    Task DeleteRateAsync(Guid userId, int rateId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Loads rates from a CSV file with the columns date, from, to, rate (header optional).
+    /// Rates for a pair and day that already exist are replaced.
+    /// </summary>
+    Task<ExchangeRateImportResult> ImportRatesAsync(Guid userId, Stream content, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// A converter into the user's base currency loaded with all their rates
+    /// </summary>
+    Task<CurrencyConverter> GetConverterAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Stores the rate realised by a transfer between accounts in different currencies
+    /// </summary>
+    Task RecordTransferRateAsync(Guid userId, string fromCurrency, string toCurrency, decimal rate, DateTime date, CancellationToken cancellationToken = default);
+}
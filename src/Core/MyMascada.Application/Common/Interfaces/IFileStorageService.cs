@@ -0,0 +1,28 @@
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Storage backend for uploaded files. Keys are generated by the caller and are
+/// opaque to the backend; they never contain user-supplied file names.
+/// </summary>
+public interface IFileStorageService
+{
+    /// <summary>
+    /// Provider identifier, e.g. "local"
+    /// </summary>
+    string ProviderId { get; }
+
+    /// <summary>
+    /// Stores the content under the key, replacing any existing file.
+    /// </summary>
+    Task SaveAsync(string key, Stream content, string contentType, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Opens the file for reading, or returns null if it does not exist.
+    /// </summary>
+    Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Deletes the file. Deleting a missing file is not an error.
+    /// </summary>
+    Task DeleteAsync(string key, CancellationToken cancellationToken = default);
+}
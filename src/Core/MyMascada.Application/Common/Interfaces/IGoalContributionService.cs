@@ -0,0 +1,34 @@
+using MyMascada.Application.Features.Goals.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Keeps the contributions ledger of a goal. Goals without a linked account progress through
+/// manual contributions, transactions carrying the goal's tag and allocations to the goal's
+/// wallet; goals with a linked account follow its balance.
+/// </summary>
+public interface IGoalContributionService
+{
+    /// <summary>
+    /// The current amount of each goal, keyed by goal id
+    /// </summary>
+    Task<Dictionary<int, decimal>> GetCurrentAmountsAsync(Guid userId, IReadOnlyCollection<Goal> goals, CancellationToken cancellationToken = default);
+
+    Task<GoalContributionsResponse> GetContributionsAsync(Guid userId, int goalId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Records a manual contribution or withdrawal on a goal without a linked account
+    /// </summary>
+    Task<GoalContributionDto> AddContributionAsync(Guid userId, int goalId, SaveGoalContributionRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Removes a manual contribution and takes it back off the goal's amount
+    /// </summary>
+    Task DeleteContributionAsync(Guid userId, int goalId, int contributionId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Sets the tag and wallet whose transactions and allocations count towards the goal
+    /// </summary>
+    Task UpdateContributionSourcesAsync(Guid userId, int goalId, UpdateGoalContributionSourcesRequest request, CancellationToken cancellationToken = default);
+}
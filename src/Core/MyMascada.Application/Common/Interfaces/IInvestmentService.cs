@@ -0,0 +1,39 @@
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Holdings, trades and security prices of investment accounts
+/// </summary>
+public interface IInvestmentService
+{
+    Task<PortfolioResponse> GetPortfolioAsync(Guid userId, int accountId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Records the trade and the transaction for its cash side, creating the holding on its first trade
+    /// </summary>
+    Task<InvestmentTradeDto> AddTradeAsync(Guid userId, SaveInvestmentTradeRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Deletes the trade with its transaction, and the holding when no trades are left
+    /// </summary>
+    Task DeleteTradeAsync(Guid userId, int tradeId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// The user's stored prices, newest first, optionally for one symbol
+    /// </summary>
+    Task<List<SecurityPriceDto>> GetPricesAsync(Guid userId, string? symbol, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Adds the price, replacing any price of the same symbol on the same day
+    /// </summary>
+    Task<SecurityPriceDto> SavePriceAsync(Guid userId, SaveSecurityPriceRequest request, CancellationToken cancellationToken = default);
+
+    Task DeletePriceAsync(Guid userId, int priceId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Loads prices from a CSV file (date, symbol, price — or symbol, price for today) or a JSON
+    /// quotes file mapping symbols to prices
+    /// </summary>
+    Task<SecurityPriceImportResult> ImportPricesAsync(Guid userId, Stream content, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,27 @@
+using MyMascada.Application.Features.NetWorth.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Builds net worth history from account balances at each month end, and stores manual
+/// valuations for assets whose value changes without transactions.
+/// </summary>
+public interface INetWorthService
+{
+    /// <summary>
+    /// Snapshots for the current month and the months before it
+    /// </summary>
+    Task<NetWorthHistoryResponse> GetHistoryAsync(Guid userId, int months, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Valuations of the user's accounts, newest first, optionally for one account
+    /// </summary>
+    Task<List<AccountValuationDto>> GetValuationsAsync(Guid userId, int? accountId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Adds the valuation, replacing any valuation of the same account on the same day
+    /// </summary>
+    Task<AccountValuationDto> SaveValuationAsync(Guid userId, SaveAccountValuationRequest request, CancellationToken cancellationToken = default);
+
+    Task DeleteValuationAsync(Guid userId, int valuationId, CancellationToken cancellationToken = default);
+}
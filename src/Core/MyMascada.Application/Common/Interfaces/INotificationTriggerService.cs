@@ -25,4 +25,19 @@ public interface INotificationTriggerService
     /// Notify that new rule suggestions are available for the user.
     /// </summary>
     Task NotifyRuleSuggestionsAvailableAsync(Guid userId, int suggestionCount, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notify that a scheduled recurring payment did not arrive within its grace window.
+    /// </summary>
+    Task NotifyScheduledPaymentMissedAsync(Guid userId, int scheduleId, string scheduleName, decimal expectedAmount, DateTime dueDate, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notify that a scheduled recurring payment arrived with an amount outside its tolerance.
+    /// </summary>
+    Task NotifyScheduledPaymentAmountChangedAsync(Guid userId, int scheduleId, string scheduleName, decimal expectedAmount, decimal actualAmount, DateTime dueDate, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notify that a subscription the user marked as cancelled has charged again.
+    /// </summary>
+    Task NotifyCancelledSubscriptionChargedAsync(Guid userId, int patternId, string merchantName, decimal amount, DateTime chargeDate, CancellationToken cancellationToken = default);
 }
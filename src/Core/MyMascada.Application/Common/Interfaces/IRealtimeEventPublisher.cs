@@ -0,0 +1,13 @@
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Pushes events to the realtime streams a user has open.
+/// </summary>
+public interface IRealtimeEventPublisher
+{
+    /// <summary>
+    /// Serializes <paramref name="payload"/> and sends it to every open stream of the user.
+    /// Users without an open stream only get it if they reconnect shortly after.
+    /// </summary>
+    void Publish(Guid userId, string eventType, object payload);
+}
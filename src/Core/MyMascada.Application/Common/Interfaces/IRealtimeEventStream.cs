@@ -0,0 +1,24 @@
+using System.Threading.Channels;
+using MyMascada.Application.Common.Models;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Opens per-user feeds of the events sent through <see cref="IRealtimeEventPublisher"/>.
+/// </summary>
+public interface IRealtimeEventStream
+{
+    /// <summary>
+    /// Subscribes to the user's events. When <paramref name="lastEventId"/> is set, recent events
+    /// published after it are delivered first so a reconnecting client catches up.
+    /// </summary>
+    IRealtimeSubscription Subscribe(Guid userId, long? lastEventId = null);
+}
+
+/// <summary>
+/// An open feed of a user's events; disposing it stops delivery.
+/// </summary>
+public interface IRealtimeSubscription : IDisposable
+{
+    ChannelReader<RealtimeEvent> Events { get; }
+}
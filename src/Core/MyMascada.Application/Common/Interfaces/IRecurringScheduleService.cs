@@ -0,0 +1,39 @@
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Manages user-defined recurring schedules (rent, salary, subscriptions), matches incoming
+/// transactions against their due dates and alerts when a payment is missed or changes amount.
+/// </summary>
+public interface IRecurringScheduleService
+{
+    Task<IReadOnlyList<RecurringScheduleDto>> GetSchedulesAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    Task<RecurringScheduleDto> CreateScheduleAsync(Guid userId, SaveRecurringScheduleRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Updates the schedule. Due dates already matched or missed keep their recorded outcome.
+    /// </summary>
+    Task<RecurringScheduleDto> UpdateScheduleAsync(Guid userId, int scheduleId, SaveRecurringScheduleRequest request, CancellationToken cancellationToken = default);
+
+    Task DeleteScheduleAsync(Guid userId, int scheduleId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Due dates between the two dates from the user's schedules, plus bills inferred from
+    /// recurring patterns that no schedule already covers.
+    /// </summary>
+    Task<RecurringCalendarDto> GetCalendarAsync(Guid userId, DateTime startDate, DateTime endDate, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Links the transaction to the next due date of a matching schedule, if any
+    /// </summary>
+    Task<bool> TryMatchTransactionAsync(Transaction transaction, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Records due dates whose grace window has passed without a payment as missed.
+    /// Returns the number of missed payments recorded.
+    /// </summary>
+    Task<int> ProcessMissedSchedulesAsync(Guid userId, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,27 @@
+using MyMascada.Application.Features.Subscriptions.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Presents detected recurring patterns as subscriptions, tracks the user's intent to cancel
+/// them and alerts when a subscription the user cancelled charges again.
+/// </summary>
+public interface ISubscriptionTrackerService
+{
+    /// <summary>
+    /// Detected recurring charges with annualized cost and price-change history
+    /// </summary>
+    Task<SubscriptionsResponse> GetSubscriptionsAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Updates the cancellation status and the user's last-used notes for a subscription
+    /// </summary>
+    Task<SubscriptionDto> UpdateSubscriptionAsync(Guid userId, int patternId, UpdateSubscriptionRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notifies the user about charges from subscriptions they marked as cancelled.
+    /// Each charge is reported once. Only the given transactions are checked when ids are passed,
+    /// otherwise every charge since the last one reported. Returns the number of subscriptions that charged again.
+    /// </summary>
+    Task<int> DetectChargesAfterCancellationAsync(Guid userId, IReadOnlyCollection<int>? transactionIds = null, CancellationToken cancellationToken = default);
+}
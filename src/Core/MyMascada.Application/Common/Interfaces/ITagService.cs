@@ -0,0 +1,50 @@
+using MyMascada.Application.Features.Tags.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Manages a user's tags. Transactions are linked to their tags through TransactionTag rows,
+/// which tag lists and reports read; the comma-separated names on transactions and rules are
+/// kept alongside for display, so renaming or deleting a tag rewrites both.
+/// </summary>
+public interface ITagService
+{
+    /// <summary>
+    /// Lists every tag the user has, whether saved with settings or only used on transactions.
+    /// </summary>
+    Task<IReadOnlyList<TagDto>> GetTagsAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Creates the tag or updates its color if a tag with that name (case-insensitive) exists.
+    /// </summary>
+    Task<TagDto> SaveTagAsync(Guid userId, string name, string? color, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Renames the tag on its settings, transactions and rules. Renaming onto an existing tag merges the two.
+    /// </summary>
+    Task<TagChangeResultDto> RenameTagAsync(Guid userId, string name, string newName, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Deletes the tag and removes it from transactions and rules.
+    /// </summary>
+    Task<TagChangeResultDto> DeleteTagAsync(Guid userId, string name, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Links each transaction to the tags named in its Tags list, creating any tag the account's
+    /// owner doesn't have yet, and unlinks tags no longer listed. Call it whenever a transaction's
+    /// tags change; the changes are saved with the caller's next save.
+    /// </summary>
+    Task SyncTransactionTagsAsync(IReadOnlyCollection<Transaction> transactions, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Spending per tag between the dates, broken down by category and month.
+    /// With no <paramref name="tags"/> every tag used in the period is included.
+    /// </summary>
+    Task<TagSpendingReportDto> GetSpendingReportAsync(
+        Guid userId,
+        DateTime startDate,
+        DateTime endDate,
+        IReadOnlyCollection<string>? tags,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,37 @@
+using MyMascada.Application.Features.Attachments.DTOs;
+
+namespace MyMascada.Application.Common.Interfaces;
+
+/// <summary>
+/// Manages receipts and documents attached to transactions. Metadata is stored in the database
+/// and the files themselves in the configured <see cref="IFileStorageService"/>.
+/// </summary>
+public interface ITransactionAttachmentService
+{
+    /// <summary>
+    /// Lists the attachments of a transaction on an account the user can access.
+    /// </summary>
+    Task<IReadOnlyList<TransactionAttachmentDto>> GetAttachmentsAsync(Guid userId, int transactionId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Stores the file and attaches it to the transaction. Only images and PDFs up to the configured size are accepted.
+    /// </summary>
+    Task<TransactionAttachmentDto> UploadAsync(
+        Guid userId,
+        int transactionId,
+        string fileName,
+        string contentType,
+        long sizeBytes,
+        Stream content,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Opens an attachment's file for download, or returns null when it does not exist or is not accessible.
+    /// </summary>
+    Task<AttachmentContentDto?> OpenAsync(Guid userId, int attachmentId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Removes the attachment and deletes its file from storage.
+    /// </summary>
+    Task DeleteAsync(Guid userId, int attachmentId, CancellationToken cancellationToken = default);
+}
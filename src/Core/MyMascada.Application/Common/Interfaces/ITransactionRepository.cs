@@ -26,6 +26,7 @@ public interface ITransactionRepository
     Task<Transaction?> GetTransactionByExternalIdAsync(string userId, string externalId);
     Task<Transaction?> GetPotentialDuplicateAsync(int accountId, decimal amount, string description, DateTime startWindow, DateTime endWindow);
     Task<Transaction?> GetRecentDuplicateAsync(int accountId, decimal amount, string description, TimeSpan timeWindow);
+    Task<Transaction?> GetByIdempotencyKeyAsync(int accountId, string idempotencyKey);
     Task<IEnumerable<Transaction>> GetRecentAsync(Guid userId, int count = 5);
     Task<IEnumerable<Transaction>> GetByDateRangeAsync(Guid userId, int accountId, DateTime startDate, DateTime endDate, bool excludeReconciled = false);
     Task<IEnumerable<Transaction>> GetByDateRangeAsync(Guid userId, DateTime startDate, DateTime endDate);
@@ -24,6 +24,7 @@ public class UserDeletionResultDto
     public DateTime DeletedAt { get; set; }
     public int AccountsDeleted { get; set; }
     public int TransactionsDeleted { get; set; }
+    public int AttachmentsDeleted { get; set; }
     public int CategoriesDeleted { get; set; }
     public int RulesDeleted { get; set; }
     public int TransfersDeleted { get; set; }
@@ -32,6 +33,12 @@ public class UserDeletionResultDto
     public int BudgetsDeleted { get; set; }
     public int WalletsDeleted { get; set; }
     public int RecurringPatternsDeleted { get; set; }
+    public int RecurringSchedulesDeleted { get; set; }
+    public int ExchangeRatesDeleted { get; set; }
+    public int AccountValuationsDeleted { get; set; }
+    public int InvestmentHoldingsDeleted { get; set; }
+    public int DebtTermsDeleted { get; set; }
+    public int GoalContributionsDeleted { get; set; }
     public int GoalsDeleted { get; set; }
     public int AccountSharesDeleted { get; set; }
     public int ChatMessagesDeleted { get; set; }
@@ -14,4 +14,12 @@ public interface IUserDataExportService
     /// <param name="cancellationToken">Cancellation token.</param>
     /// <returns>Complete user data export DTO.</returns>
     Task<UserDataExportDto> ExportUserDataAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Builds the downloadable export: a zip archive holding data.json and every attached file.
+    /// </summary>
+    /// <param name="userId">The user ID to export data for.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>Readable archive stream positioned at the start; the caller disposes it.</returns>
+    Task<Stream> CreateExportArchiveAsync(Guid userId, CancellationToken cancellationToken = default);
 }
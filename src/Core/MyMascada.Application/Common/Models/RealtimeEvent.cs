@@ -0,0 +1,17 @@
+namespace MyMascada.Application.Common.Models;
+
+/// <summary>
+/// An event pushed to a user's open realtime streams. <see cref="Data"/> is the JSON payload.
+/// </summary>
+public sealed record RealtimeEvent(long Id, string Type, string Data);
+
+/// <summary>
+/// Event names streamed by <c>GET /api/realtime/events</c>; the web app subscribes by these names.
+/// </summary>
+public static class RealtimeEventTypes
+{
+    public const string NotificationCreated = "notification.created";
+    public const string NotificationUnreadCount = "notification.unreadCount";
+    public const string BankSyncJob = "bankSync.job";
+    public const string ChatMessage = "chat.message";
+}
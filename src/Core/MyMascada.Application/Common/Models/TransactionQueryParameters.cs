@@ -18,6 +18,8 @@ public class TransactionQueryParameters
     public decimal? MaxAmount { get; set; }
     public TransactionStatus? Status { get; set; }
     public string? SearchTerm { get; set; }
+    public string? Tag { get; set; }
+    public bool? HasAttachments { get; set; }
     public bool? IsReviewed { get; set; }
     public bool? IsReconciled { get; set; }
     public bool? IsExcluded { get; set; }
@@ -47,6 +49,8 @@ public class TransactionQueryParameters
             MaxAmount = query.MaxAmount,
             Status = query.Status,
             SearchTerm = query.SearchTerm,
+            Tag = query.Tag,
+            HasAttachments = query.HasAttachments,
             IsReviewed = query.IsReviewed,
             IsReconciled = query.IsReconciled,
             IsExcluded = query.IsExcluded,
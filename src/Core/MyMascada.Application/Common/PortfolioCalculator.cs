@@ -0,0 +1,200 @@
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Application.Common;
+
+/// <summary>
+/// Values investment holdings from their trades and the user's stored security prices. Positions
+/// use the average cost method. A valuation uses the latest price on or before the date, or the
+/// earliest later price when the history doesn't go back that far; holdings without any price
+/// are valued at cost.
+/// </summary>
+public class PortfolioCalculator
+{
+    // Remaining units below this are treated as a closed position
+    private const decimal UnitTolerance = 0.00000001m;
+
+    private readonly Dictionary<string, List<(DateTime Date, decimal Price)>> _prices;
+
+    public PortfolioCalculator(IEnumerable<SecurityPrice> prices)
+    {
+        _prices = prices
+            .Where(p => p.Price > 0)
+            .GroupBy(p => p.Symbol.ToUpperInvariant())
+            .ToDictionary(
+                g => g.Key,
+                g => g.OrderBy(p => p.PriceDate).Select(p => (p.PriceDate.Date, p.Price)).ToList());
+    }
+
+    /// <summary>
+    /// The price used for the symbol on the date and the day it was quoted, or null when the
+    /// symbol has no prices
+    /// </summary>
+    public (DateTime Date, decimal Price)? FindPrice(string symbol, DateTime date)
+    {
+        if (!_prices.TryGetValue(symbol.ToUpperInvariant(), out var history))
+            return null;
+
+        var day = date.Date;
+        var onOrBefore = history.LastOrDefault(p => p.Date <= day);
+        return onOrBefore.Price > 0 ? onOrBefore : history[0];
+    }
+
+    /// <summary>
+    /// Units, cost and income of a holding after replaying its trades up to and including the date
+    /// (all trades when no date is given)
+    /// </summary>
+    public static HoldingPosition GetPosition(IEnumerable<InvestmentTrade> trades, DateTime? asOf = null)
+    {
+        var position = new HoldingPosition();
+
+        foreach (var trade in trades
+                     .Where(t => !t.IsDeleted && (!asOf.HasValue || t.TradeDate.Date <= asOf.Value.Date))
+                     .OrderBy(t => t.TradeDate)
+                     .ThenBy(t => t.Id))
+        {
+            switch (trade.Type)
+            {
+                case InvestmentTradeType.Buy:
+                    position.Units += trade.Units;
+                    position.CostBasis += -trade.Amount;
+                    break;
+
+                case InvestmentTradeType.Sell:
+                    var costSold = position.Units > 0
+                        ? position.CostBasis * Math.Min(trade.Units / position.Units, 1m)
+                        : 0m;
+                    position.Units -= trade.Units;
+                    position.CostBasis -= costSold;
+                    position.RealisedGain += trade.Amount - costSold;
+                    if (Math.Abs(position.Units) < UnitTolerance)
+                    {
+                        position.Units = 0;
+                        position.CostBasis = 0;
+                    }
+                    break;
+
+                case InvestmentTradeType.Dividend:
+                    position.Dividends += trade.Amount;
+                    break;
+            }
+
+            if (position.Units < -UnitTolerance)
+            {
+                position.IsOversold = true;
+            }
+        }
+
+        return position;
+    }
+
+    /// <summary>
+    /// Market value of the holding's units on the date, at cost when the symbol has no price
+    /// </summary>
+    public decimal GetMarketValue(InvestmentHolding holding, DateTime date)
+    {
+        var position = GetPosition(holding.Trades, date);
+        if (position.Units <= 0)
+            return 0m;
+
+        var price = FindPrice(holding.Symbol, date);
+        return Math.Round(price.HasValue ? position.Units * price.Value.Price : position.CostBasis, 2);
+    }
+
+    /// <summary>
+    /// Time-weighted return of the holdings, in percent, from their first trade to the date.
+    /// The period is split at every buy and sell so that money added or withdrawn doesn't count
+    /// as performance; dividends count as return. Null when nothing was bought before the date.
+    /// </summary>
+    public decimal? GetTimeWeightedReturn(IReadOnlyCollection<InvestmentHolding> holdings, DateTime asOf)
+    {
+        var flowDates = holdings
+            .SelectMany(h => h.Trades)
+            .Where(t => !t.IsDeleted && t.Type != InvestmentTradeType.Dividend && t.TradeDate.Date <= asOf.Date)
+            .Select(t => t.TradeDate.Date)
+            .Distinct()
+            .OrderBy(d => d)
+            .ToList();
+
+        if (flowDates.Count == 0)
+            return null;
+
+        if (flowDates[^1] < asOf.Date)
+        {
+            flowDates.Add(asOf.Date);
+        }
+
+        var growth = 1m;
+        var periodStartValue = 0m;
+        DateTime? periodStart = null;
+
+        foreach (var date in flowDates)
+        {
+            if (periodStart.HasValue && periodStartValue > 0)
+            {
+                var endValue = GetValue(holdings, date.AddDays(-1), date);
+                var income = GetDividends(holdings, periodStart.Value, date);
+                growth *= (endValue + income) / periodStartValue;
+            }
+
+            periodStart = date;
+            periodStartValue = GetValue(holdings, date, date);
+        }
+
+        return Math.Round((growth - 1m) * 100, 2);
+    }
+
+    /// <summary>
+    /// Value of the units held at the end of <paramref name="unitsAsOf"/>, priced on <paramref name="priceDate"/>
+    /// </summary>
+    private decimal GetValue(IEnumerable<InvestmentHolding> holdings, DateTime unitsAsOf, DateTime priceDate)
+    {
+        return holdings.Sum(h =>
+        {
+            var position = GetPosition(h.Trades, unitsAsOf);
+            if (position.Units <= 0)
+                return 0m;
+
+            var price = FindPrice(h.Symbol, priceDate);
+            return price.HasValue ? position.Units * price.Value.Price : position.CostBasis;
+        });
+    }
+
+    private static decimal GetDividends(IEnumerable<InvestmentHolding> holdings, DateTime after, DateTime through)
+    {
+        return holdings
+            .SelectMany(h => h.Trades)
+            .Where(t => !t.IsDeleted
+                        && t.Type == InvestmentTradeType.Dividend
+                        && t.TradeDate.Date > after
+                        && t.TradeDate.Date <= through)
+            .Sum(t => t.Amount);
+    }
+}
+
+/// <summary>
+/// A holding's position after replaying its trades
+/// </summary>
+public class HoldingPosition
+{
+    public decimal Units { get; set; }
+
+    /// <summary>
+    /// What the units still held cost, fees included
+    /// </summary>
+    public decimal CostBasis { get; set; }
+
+    /// <summary>
+    /// Sale proceeds after fees minus the average cost of the units sold
+    /// </summary>
+    public decimal RealisedGain { get; set; }
+
+    public decimal Dividends { get; set; }
+
+    /// <summary>
+    /// More units were sold than held at some point
+    /// </summary>
+    public bool IsOversold { get; set; }
+
+    public decimal AverageCost => Units > 0 ? Math.Round(CostBasis / Units, 6) : 0m;
+}
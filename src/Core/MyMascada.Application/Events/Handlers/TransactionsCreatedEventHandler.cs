@@ -8,7 +8,8 @@ namespace MyMascada.Application.Events.Handlers;
 
 /// <summary>
 /// Handles TransactionsCreatedEvent by enqueuing Hangfire background jobs for description cleaning
-/// (if enabled) and categorization, and matching transactions to recurring patterns.
+/// (if enabled) and categorization, matching transactions to recurring patterns and schedules, and
+/// checking for charges from subscriptions the user cancelled.
 /// Uses proper queuing with retry logic, monitoring, and persistence.
 /// </summary>
 public class TransactionsCreatedEventHandler : INotificationHandler<TransactionsCreatedEvent>
@@ -16,6 +17,8 @@ public class TransactionsCreatedEventHandler : INotificationHandler<Transactions
     private readonly ITransactionCategorizationJobService _jobService;
     private readonly ITransactionRepository _transactionRepository;
     private readonly IRecurringPatternPersistenceService? _patternPersistenceService;
+    private readonly IRecurringScheduleService? _scheduleService;
+    private readonly ISubscriptionTrackerService? _subscriptionTracker;
     private readonly IDescriptionCleaningJobService? _descriptionCleaningJobService;
     private readonly IUserRepository _userRepository;
     private readonly ILogger<TransactionsCreatedEventHandler> _logger;
@@ -26,12 +29,16 @@ public class TransactionsCreatedEventHandler : INotificationHandler<Transactions
         ILogger<TransactionsCreatedEventHandler> logger,
         IUserRepository userRepository,
         IRecurringPatternPersistenceService? patternPersistenceService = null,
-        IDescriptionCleaningJobService? descriptionCleaningJobService = null)
+        IDescriptionCleaningJobService? descriptionCleaningJobService = null,
+        IRecurringScheduleService? scheduleService = null,
+        ISubscriptionTrackerService? subscriptionTracker = null)
     {
         _jobService = jobService;
         _transactionRepository = transactionRepository;
         _patternPersistenceService = patternPersistenceService;
         _descriptionCleaningJobService = descriptionCleaningJobService;
+        _scheduleService = scheduleService;
+        _subscriptionTracker = subscriptionTracker;
         _userRepository = userRepository;
         _logger = logger;
     }
@@ -94,6 +101,26 @@ public class TransactionsCreatedEventHandler : INotificationHandler<Transactions
         {
             await TryMatchTransactionsToPatterns(notification.TransactionIds, notification.UserId, cancellationToken);
         }
+
+        // Link transactions that pay a user-defined recurring schedule
+        if (_scheduleService != null)
+        {
+            await TryMatchTransactionsToSchedules(notification.TransactionIds, notification.UserId, cancellationToken);
+        }
+
+        // Alert when a subscription the user cancelled charges again
+        if (_subscriptionTracker != null)
+        {
+            try
+            {
+                await _subscriptionTracker.DetectChargesAfterCancellationAsync(notification.UserId, notification.TransactionIds, cancellationToken);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to check cancelled subscriptions for user {UserId}", notification.UserId);
+                // Don't rethrow - this is a non-critical enhancement
+            }
+        }
     }
 
     /// <summary>
@@ -143,4 +170,47 @@ public class TransactionsCreatedEventHandler : INotificationHandler<Transactions
             // Don't rethrow - this is a non-critical enhancement
         }
     }
+
+    /// <summary>
+    /// Attempts to match new transactions to the due dates of user-defined recurring schedules
+    /// </summary>
+    private async Task TryMatchTransactionsToSchedules(
+        List<int> transactionIds,
+        Guid userId,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var transactions = await _transactionRepository.GetTransactionsByIdsAsync(transactionIds, userId, cancellationToken);
+            var matchedCount = 0;
+
+            // Oldest first so each due date is paid by the earliest matching transaction
+            foreach (var transaction in transactions.OrderBy(t => t.TransactionDate))
+            {
+                try
+                {
+                    if (await _scheduleService!.TryMatchTransactionAsync(transaction, cancellationToken))
+                    {
+                        matchedCount++;
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to check schedule match for transaction {TransactionId}",
+                        transaction.Id);
+                }
+            }
+
+            if (matchedCount > 0)
+            {
+                _logger.LogInformation("Matched {MatchedCount} of {TotalCount} transactions to recurring schedules for user {UserId}",
+                    matchedCount, transactionIds.Count, userId);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to match transactions to recurring schedules for user {UserId}", userId);
+            // Don't rethrow - this is a non-critical enhancement
+        }
+    }
 }
\ No newline at end of file
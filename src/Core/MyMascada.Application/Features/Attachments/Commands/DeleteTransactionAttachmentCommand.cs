@@ -0,0 +1,28 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.Attachments.Commands;
+
+/// <summary>
+/// Removes an attachment from its transaction and deletes the stored file.
+/// </summary>
+public class DeleteTransactionAttachmentCommand : IRequest
+{
+    public int AttachmentId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteTransactionAttachmentCommandHandler : IRequestHandler<DeleteTransactionAttachmentCommand>
+{
+    private readonly ITransactionAttachmentService _attachmentService;
+
+    public DeleteTransactionAttachmentCommandHandler(ITransactionAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    public async Task Handle(DeleteTransactionAttachmentCommand request, CancellationToken cancellationToken)
+    {
+        await _attachmentService.DeleteAsync(request.UserId, request.AttachmentId, cancellationToken);
+    }
+}
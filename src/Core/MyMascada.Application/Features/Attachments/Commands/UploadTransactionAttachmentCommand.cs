@@ -0,0 +1,40 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.DTOs;
+
+namespace MyMascada.Application.Features.Attachments.Commands;
+
+/// <summary>
+/// Attaches an uploaded receipt or document to a transaction.
+/// </summary>
+public class UploadTransactionAttachmentCommand : IRequest<TransactionAttachmentDto>
+{
+    public int TransactionId { get; set; }
+    public Guid UserId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long SizeBytes { get; set; }
+    public Stream Content { get; set; } = Stream.Null;
+}
+
+public class UploadTransactionAttachmentCommandHandler : IRequestHandler<UploadTransactionAttachmentCommand, TransactionAttachmentDto>
+{
+    private readonly ITransactionAttachmentService _attachmentService;
+
+    public UploadTransactionAttachmentCommandHandler(ITransactionAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    public async Task<TransactionAttachmentDto> Handle(UploadTransactionAttachmentCommand request, CancellationToken cancellationToken)
+    {
+        return await _attachmentService.UploadAsync(
+            request.UserId,
+            request.TransactionId,
+            request.FileName,
+            request.ContentType,
+            request.SizeBytes,
+            request.Content,
+            cancellationToken);
+    }
+}
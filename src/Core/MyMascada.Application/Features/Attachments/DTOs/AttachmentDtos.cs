@@ -0,0 +1,25 @@
+namespace MyMascada.Application.Features.Attachments.DTOs;
+
+/// <summary>
+/// Metadata of a receipt or document attached to a transaction. The file is downloaded separately.
+/// </summary>
+public class TransactionAttachmentDto
+{
+    public int Id { get; set; }
+    public int TransactionId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long SizeBytes { get; set; }
+    public bool IsImage { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+/// <summary>
+/// An attachment's file opened for download. The caller disposes <see cref="Content"/>.
+/// </summary>
+public class AttachmentContentDto
+{
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public Stream Content { get; set; } = Stream.Null;
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.DTOs;
+
+namespace MyMascada.Application.Features.Attachments.Queries;
+
+public class GetAttachmentContentQuery : IRequest<AttachmentContentDto?>
+{
+    public int AttachmentId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetAttachmentContentQueryHandler : IRequestHandler<GetAttachmentContentQuery, AttachmentContentDto?>
+{
+    private readonly ITransactionAttachmentService _attachmentService;
+
+    public GetAttachmentContentQueryHandler(ITransactionAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    public async Task<AttachmentContentDto?> Handle(GetAttachmentContentQuery request, CancellationToken cancellationToken)
+    {
+        return await _attachmentService.OpenAsync(request.UserId, request.AttachmentId, cancellationToken);
+    }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.DTOs;
+
+namespace MyMascada.Application.Features.Attachments.Queries;
+
+public class GetTransactionAttachmentsQuery : IRequest<IReadOnlyList<TransactionAttachmentDto>>
+{
+    public int TransactionId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetTransactionAttachmentsQueryHandler : IRequestHandler<GetTransactionAttachmentsQuery, IReadOnlyList<TransactionAttachmentDto>>
+{
+    private readonly ITransactionAttachmentService _attachmentService;
+
+    public GetTransactionAttachmentsQueryHandler(ITransactionAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    public async Task<IReadOnlyList<TransactionAttachmentDto>> Handle(GetTransactionAttachmentsQuery request, CancellationToken cancellationToken)
+    {
+        return await _attachmentService.GetAttachmentsAsync(request.UserId, request.TransactionId, cancellationToken);
+    }
+}
@@ -6,10 +6,13 @@ namespace MyMascada.Application.Features.BankConnections.Commands;
 
 /// <summary>
 /// Command to trigger a manual sync for a bank connection.
+/// From/To re-fetch an explicit date range instead of the window since the last sync.
 /// </summary>
 public record SyncBankConnectionCommand(
     Guid UserId,
-    int BankConnectionId
+    int BankConnectionId,
+    DateTime? From = null,
+    DateTime? To = null
 ) : IRequest<BankSyncJobAcceptedDto>;
 
 /// <summary>
@@ -66,7 +69,9 @@ public class SyncBankConnectionCommandHandler : IRequestHandler<SyncBankConnecti
 
         var accepted = _bankSyncJobService.EnqueueConnectionSync(
             request.UserId,
-            request.BankConnectionId);
+            request.BankConnectionId,
+            request.From,
+            request.To);
 
         _logger.LogInformation(
             "Queued sync job {JobId} for bank connection {ConnectionId}",
@@ -121,6 +121,11 @@ public record BankSyncLogDto
     /// Error message if the sync failed
     /// </summary>
     public string? ErrorMessage { get; init; }
+
+    /// <summary>
+    /// JSON metadata recorded by the sync, such as the date range it fetched
+    /// </summary>
+    public string? Details { get; init; }
 }
 
 /// <summary>
@@ -75,7 +75,8 @@ public class GetBankConnectionQueryHandler : IRequestHandler<GetBankConnectionQu
             TransactionsProcessed = log.TransactionsProcessed,
             TransactionsImported = log.TransactionsImported,
             TransactionsSkipped = log.TransactionsSkipped,
-            ErrorMessage = log.ErrorMessage
+            ErrorMessage = log.ErrorMessage,
+            Details = log.Details
         }).ToList();
 
         // 4. Get provider display name
@@ -76,7 +76,8 @@ public class GetSyncHistoryQueryHandler : IRequestHandler<GetSyncHistoryQuery, I
             TransactionsProcessed = log.TransactionsProcessed,
             TransactionsImported = log.TransactionsImported,
             TransactionsSkipped = log.TransactionsSkipped,
-            ErrorMessage = log.ErrorMessage
+            ErrorMessage = log.ErrorMessage,
+            Details = log.Details
         }).ToList();
 
         _logger.LogDebug(
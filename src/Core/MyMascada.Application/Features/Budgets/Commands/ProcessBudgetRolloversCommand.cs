@@ -17,6 +17,11 @@ public class ProcessBudgetRolloversCommand : IRequest<BudgetRolloverResultDto>
     /// If true, only preview what would be rolled over without making changes
     /// </summary>
     public bool PreviewOnly { get; set; } = false;
+
+    /// <summary>
+    /// Amounts to carry into the next period instead of the calculated rollovers
+    /// </summary>
+    public List<BudgetRolloverOverrideDto> Overrides { get; set; } = new();
 }
 
 public class ProcessBudgetRolloversCommandHandler : IRequestHandler<ProcessBudgetRolloversCommand, BudgetRolloverResultDto>
@@ -34,7 +39,8 @@ public class ProcessBudgetRolloversCommandHandler : IRequestHandler<ProcessBudge
         return await _mediator.Send(new ProcessExpiredBudgetsCommand
         {
             UserId = request.UserId,
-            PreviewOnly = request.PreviewOnly
+            PreviewOnly = request.PreviewOnly,
+            Overrides = request.Overrides
         }, cancellationToken);
     }
 }
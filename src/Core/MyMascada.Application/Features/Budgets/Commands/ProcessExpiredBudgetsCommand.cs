@@ -21,6 +21,11 @@ public class ProcessExpiredBudgetsCommand : IRequest<BudgetRolloverResultDto>
     /// If true, only preview what would happen without making changes
     /// </summary>
     public bool PreviewOnly { get; set; } = false;
+
+    /// <summary>
+    /// Amounts to carry into the next period instead of the calculated rollovers
+    /// </summary>
+    public List<BudgetRolloverOverrideDto> Overrides { get; set; } = new();
 }
 
 public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpiredBudgetsCommand, BudgetRolloverResultDto>
@@ -50,6 +55,8 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
 
         var budgetList = expiredBudgets.ToList();
 
+        ValidateOverrides(request.Overrides, budgetList);
+
         if (!budgetList.Any())
         {
             result.Message = "No expired budgets to process.";
@@ -58,8 +65,13 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
 
         foreach (var budget in budgetList)
         {
+            var overrides = request.Overrides
+                .Where(o => o.SourceBudgetId == budget.Id)
+                .GroupBy(o => o.CategoryId)
+                .ToDictionary(g => g.Key, g => g.Last().Amount);
+
             var budgetRollover = await ProcessExpiredBudgetAsync(
-                budget, request.UserId, request.PreviewOnly, cancellationToken);
+                budget, request.UserId, request.PreviewOnly, overrides, result.ProcessedAt, cancellationToken);
 
             result.ProcessedBudgets.Add(budgetRollover);
         }
@@ -76,10 +88,46 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
         return result;
     }
 
+    /// <summary>
+    /// Overrides must name a rollover category of an expired budget and carry between zero and
+    /// what the category had to spend in the period. Checked up front so no period is closed
+    /// before a bad override is found.
+    /// </summary>
+    private static void ValidateOverrides(IEnumerable<BudgetRolloverOverrideDto> overrides, IReadOnlyCollection<Budget> budgets)
+    {
+        foreach (var rolloverOverride in overrides)
+        {
+            var budgetCategory = budgets
+                .FirstOrDefault(b => b.Id == rolloverOverride.SourceBudgetId)?
+                .BudgetCategories
+                .FirstOrDefault(bc => !bc.IsDeleted && bc.AllowRollover && bc.CategoryId == rolloverOverride.CategoryId);
+
+            if (budgetCategory == null)
+            {
+                throw new ArgumentException(
+                    $"Budget {rolloverOverride.SourceBudgetId} has no expired rollover category {rolloverOverride.CategoryId}.");
+            }
+
+            if (rolloverOverride.Amount < 0)
+            {
+                throw new ArgumentException("A rollover override cannot be negative.");
+            }
+
+            var cap = Math.Max(budgetCategory.GetEffectiveBudget(), 0);
+            if (rolloverOverride.Amount > cap)
+            {
+                throw new ArgumentException(
+                    $"A rollover override for category {rolloverOverride.CategoryId} cannot be more than its budget for the period ({cap:0.00}).");
+            }
+        }
+    }
+
     private async Task<BudgetRolloverDto> ProcessExpiredBudgetAsync(
         Budget budget,
         Guid userId,
         bool previewOnly,
+        IReadOnlyDictionary<int, decimal> overrides,
+        DateTime processedAt,
         CancellationToken cancellationToken)
     {
         var rolloverDto = new BudgetRolloverDto
@@ -107,6 +155,11 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
 
             if (rolloverAmount.HasValue)
             {
+                // Overrides only apply when there is a next period to carry them into
+                var isOverridden = budget.IsRecurring
+                    && overrides.TryGetValue(budgetCategory.CategoryId, out var overrideAmount)
+                    && overrideAmount != rolloverAmount.Value;
+
                 rolloverDto.CategoryRollovers.Add(new CategoryRolloverDto
                 {
                     CategoryId = budgetCategory.CategoryId,
@@ -114,7 +167,9 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
                     BudgetedAmount = budgetCategory.BudgetedAmount,
                     ActualSpent = categoryProgress.ActualSpent,
                     RemainingAmount = categoryProgress.RemainingAmount,
-                    RolloverAmount = rolloverAmount.Value,
+                    RolloverAmount = isOverridden ? overrides[budgetCategory.CategoryId] : rolloverAmount.Value,
+                    CalculatedRolloverAmount = rolloverAmount.Value,
+                    IsOverridden = isOverridden,
                     CarryOverspend = budgetCategory.CarryOverspend
                 });
             }
@@ -124,30 +179,68 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
 
         if (!previewOnly)
         {
-            if (budget.IsRecurring)
+            // Recurring: ALWAYS create a new period (regardless of rollover categories)
+            var nextPeriodBudget = budget.IsRecurring ? BuildNextPeriodBudget(budget, rolloverDto) : null;
+
+            // Mark old budget as Completed
+            budget.Status = BudgetStatus.Completed;
+            budget.RolloverProcessedAt = DateTimeProvider.UtcNow;
+            budget.UpdatedAt = DateTimeProvider.UtcNow;
+
+            var newBudget = await _budgetRepository.ClosePeriodAsync(
+                budget, nextPeriodBudget, BuildPeriodClose(budget, rolloverDto, processedAt), cancellationToken);
+
+            if (newBudget != null)
             {
-                // Recurring: ALWAYS create a new period (regardless of rollover categories)
-                var newBudget = await CreateNextPeriodBudgetAsync(budget, rolloverDto, cancellationToken);
                 rolloverDto.NewBudgetId = newBudget.Id;
                 rolloverDto.NewBudgetCreated = true;
                 rolloverDto.NewPeriodStartDate = newBudget.StartDate;
                 rolloverDto.NewPeriodEndDate = newBudget.GetPeriodEndDate();
             }
-
-            // Mark old budget as Completed
-            budget.Status = BudgetStatus.Completed;
-            budget.RolloverProcessedAt = DateTimeProvider.UtcNow;
-            budget.UpdatedAt = DateTimeProvider.UtcNow;
-            await _budgetRepository.UpdateBudgetAsync(budget, cancellationToken);
         }
 
         return rolloverDto;
     }
 
-    private async Task<Budget> CreateNextPeriodBudgetAsync(
-        Budget sourceBudget,
-        BudgetRolloverDto rolloverDto,
-        CancellationToken cancellationToken)
+    private static BudgetPeriodClose BuildPeriodClose(Budget budget, BudgetRolloverDto rolloverDto, DateTime closedAt)
+    {
+        var periodClose = new BudgetPeriodClose
+        {
+            UserId = budget.UserId,
+            SourceBudgetId = budget.Id,
+            SourceBudgetName = budget.Name,
+            PeriodStartDate = rolloverDto.PeriodStartDate,
+            PeriodEndDate = rolloverDto.PeriodEndDate,
+            ClosedAt = closedAt
+        };
+
+        foreach (var category in rolloverDto.CategoryRollovers)
+        {
+            periodClose.Categories.Add(new BudgetPeriodCloseCategory
+            {
+                CategoryId = category.CategoryId,
+                CategoryName = category.CategoryName,
+                // A budget that doesn't recur has no next period, so nothing is carried
+                CalculatedAmount = budget.IsRecurring ? category.CalculatedRolloverAmount : 0,
+                CarriedAmount = budget.IsRecurring ? category.RolloverAmount : 0,
+                Overridden = category.IsOverridden,
+                Reason = GetRolloverReason(budget, category)
+            });
+        }
+
+        return periodClose;
+    }
+
+    private static BudgetRolloverReason GetRolloverReason(Budget budget, CategoryRolloverDto category)
+    {
+        if (!budget.IsRecurring) return BudgetRolloverReason.NotRecurring;
+        if (category.RemainingAmount >= 0) return BudgetRolloverReason.Surplus;
+        return category.CalculatedRolloverAmount == 0
+            ? BudgetRolloverReason.OverspendCapped
+            : BudgetRolloverReason.OverspendCarried;
+    }
+
+    private static Budget BuildNextPeriodBudget(Budget sourceBudget, BudgetRolloverDto rolloverDto)
     {
         // Calculate next period start date
         var periodEnd = sourceBudget.GetPeriodEndDate();
@@ -188,7 +281,7 @@ public class ProcessExpiredBudgetsCommandHandler : IRequestHandler<ProcessExpire
             });
         }
 
-        return await _budgetRepository.CreateBudgetAsync(newBudget, cancellationToken);
+        return newBudget;
     }
 
     private static string GenerateNextPeriodName(string currentName, DateTime nextStartDate)
@@ -10,6 +10,7 @@ public class UpdateBudgetCategoryCommand : IRequest<BudgetDetailDto>
     public int BudgetId { get; set; }
     public int CategoryId { get; set; }
     public decimal? BudgetedAmount { get; set; }
+    public decimal? RolloverAmount { get; set; }
     public bool? AllowRollover { get; set; }
     public bool? CarryOverspend { get; set; }
     public bool? IncludeSubcategories { get; set; }
@@ -52,6 +53,11 @@ public class UpdateBudgetCategoryCommandHandler : IRequestHandler<UpdateBudgetCa
             budgetCategory.BudgetedAmount = request.BudgetedAmount.Value;
         }
 
+        if (request.RolloverAmount.HasValue)
+        {
+            budgetCategory.RolloverAmount = request.RolloverAmount.Value;
+        }
+
         if (request.AllowRollover.HasValue)
         {
             budgetCategory.AllowRollover = request.AllowRollover.Value;
@@ -184,6 +184,11 @@ public class UpdateBudgetRequest
 public class UpdateBudgetCategoryRequest
 {
     public decimal? BudgetedAmount { get; set; }
+
+    /// <summary>
+    /// Overrides the amount carried in from the previous period
+    /// </summary>
+    public decimal? RolloverAmount { get; set; }
     public bool? AllowRollover { get; set; }
     public bool? CarryOverspend { get; set; }
     public bool? IncludeSubcategories { get; set; }
@@ -246,6 +251,16 @@ public class CategoryRolloverDto
     public decimal ActualSpent { get; set; }
     public decimal RemainingAmount { get; set; }
     public decimal RolloverAmount { get; set; }
+
+    /// <summary>
+    /// Amount the rollover calculated, before any override the user chose
+    /// </summary>
+    public decimal CalculatedRolloverAmount { get; set; }
+
+    /// <summary>
+    /// Whether RolloverAmount is an override rather than the calculated amount
+    /// </summary>
+    public bool IsOverridden { get; set; }
     public bool CarryOverspend { get; set; }
 
     /// <summary>
@@ -254,6 +269,57 @@ public class CategoryRolloverDto
     public string Status => RolloverAmount >= 0 ? "Surplus" : "Deficit";
 }
 
+/// <summary>
+/// Request to process budget rollovers, optionally overriding calculated amounts
+/// </summary>
+public class ProcessBudgetRolloversRequest
+{
+    public List<BudgetRolloverOverrideDto> Overrides { get; set; } = new();
+}
+
+/// <summary>
+/// Amount to carry into the next period for a category instead of the calculated one
+/// </summary>
+public class BudgetRolloverOverrideDto
+{
+    public int SourceBudgetId { get; set; }
+    public int CategoryId { get; set; }
+    public decimal Amount { get; set; }
+}
+
+/// <summary>
+/// A closed budget period and what its rollover categories carried into the next period
+/// </summary>
+public class BudgetPeriodCloseDto
+{
+    public int Id { get; set; }
+    public int SourceBudgetId { get; set; }
+    public string SourceBudgetName { get; set; } = string.Empty;
+    public DateTime PeriodStartDate { get; set; }
+    public DateTime PeriodEndDate { get; set; }
+    public int? NewBudgetId { get; set; }
+    public DateTime ClosedAt { get; set; }
+    public decimal TotalCarried { get; set; }
+    public List<BudgetPeriodCloseCategoryDto> Categories { get; set; } = new();
+}
+
+/// <summary>
+/// What one category carried into the next period when its budget period was closed
+/// </summary>
+public class BudgetPeriodCloseCategoryDto
+{
+    public int CategoryId { get; set; }
+    public string CategoryName { get; set; } = string.Empty;
+    public decimal CalculatedAmount { get; set; }
+    public decimal CarriedAmount { get; set; }
+    public bool Overridden { get; set; }
+
+    /// <summary>
+    /// surplus, overspendCarried, overspendCapped or notRecurring
+    /// </summary>
+    public string Reason { get; set; } = string.Empty;
+}
+
 /// <summary>
 /// Budget alert for notifications
 /// </summary>
@@ -0,0 +1,60 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Budgets.DTOs;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Application.Features.Budgets.Queries;
+
+public class GetBudgetPeriodClosesQuery : IRequest<IEnumerable<BudgetPeriodCloseDto>>
+{
+    public int BudgetId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetBudgetPeriodClosesQueryHandler : IRequestHandler<GetBudgetPeriodClosesQuery, IEnumerable<BudgetPeriodCloseDto>>
+{
+    private readonly IBudgetRepository _budgetRepository;
+
+    public GetBudgetPeriodClosesQueryHandler(IBudgetRepository budgetRepository)
+    {
+        _budgetRepository = budgetRepository;
+    }
+
+    public async Task<IEnumerable<BudgetPeriodCloseDto>> Handle(GetBudgetPeriodClosesQuery request, CancellationToken cancellationToken)
+    {
+        var closes = await _budgetRepository.GetPeriodClosesForBudgetAsync(
+            request.BudgetId, request.UserId, cancellationToken);
+
+        return closes.Select(close => new BudgetPeriodCloseDto
+        {
+            Id = close.Id,
+            SourceBudgetId = close.SourceBudgetId,
+            SourceBudgetName = close.SourceBudgetName,
+            PeriodStartDate = close.PeriodStartDate,
+            PeriodEndDate = close.PeriodEndDate,
+            NewBudgetId = close.NewBudgetId,
+            ClosedAt = close.ClosedAt,
+            TotalCarried = close.Categories.Sum(c => c.CarriedAmount),
+            Categories = close.Categories
+                .OrderBy(c => c.CategoryName)
+                .Select(c => new BudgetPeriodCloseCategoryDto
+                {
+                    CategoryId = c.CategoryId,
+                    CategoryName = c.CategoryName,
+                    CalculatedAmount = c.CalculatedAmount,
+                    CarriedAmount = c.CarriedAmount,
+                    Overridden = c.Overridden,
+                    Reason = ToReasonName(c.Reason)
+                })
+                .ToList()
+        }).ToList();
+    }
+
+    private static string ToReasonName(BudgetRolloverReason reason) => reason switch
+    {
+        BudgetRolloverReason.Surplus => "surplus",
+        BudgetRolloverReason.OverspendCarried => "overspendCarried",
+        BudgetRolloverReason.OverspendCapped => "overspendCapped",
+        _ => "notRecurring"
+    };
+}
@@ -1,3 +1,4 @@
+using MyMascada.Application.Common;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.Budgets.DTOs;
 using MyMascada.Domain.Common;
@@ -12,13 +13,16 @@ public class BudgetCalculationService : IBudgetCalculationService
 {
     private readonly ITransactionRepository _transactionRepository;
     private readonly ICategoryRepository _categoryRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
     public BudgetCalculationService(
         ITransactionRepository transactionRepository,
-        ICategoryRepository categoryRepository)
+        ICategoryRepository categoryRepository,
+        IExchangeRateService exchangeRateService)
     {
         _transactionRepository = transactionRepository;
         _categoryRepository = categoryRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<BudgetDetailDto> CalculateBudgetProgressAsync(
@@ -176,15 +180,12 @@ public class BudgetCalculationService : IBudgetCalculationService
             userId, startDate, endDate);
 
         // Filter and sum expenses for these categories
-        // Expenses are negative amounts, transfers excluded
-        var relevantTransactions = transactions
-            .Where(t => t.Amount < 0
-                        && t.CategoryId.HasValue
-                        && categoryIds.Contains(t.CategoryId.Value)
-                        && !t.TransferId.HasValue)
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+        var relevantLines = GetExpenseLines(transactions, converter)
+            .Where(l => categoryIds.Contains(l.CategoryId))
             .ToList();
 
-        var totalSpent = relevantTransactions.Sum(t => Math.Abs(t.Amount));
+        var totalSpent = relevantLines.Sum(l => l.Amount);
 
         return new CategorySpendingSummaryDto
         {
@@ -192,7 +193,7 @@ public class BudgetCalculationService : IBudgetCalculationService
             CategoryName = category.Name,
             CategoryColor = category.Color,
             TotalSpent = totalSpent,
-            TransactionCount = relevantTransactions.Count,
+            TransactionCount = CountTransactions(relevantLines),
             IncludedCategoryIds = categoryIds.ToList()
         };
     }
@@ -238,32 +239,28 @@ public class BudgetCalculationService : IBudgetCalculationService
         var transactions = await _transactionRepository.GetByDateRangeAsync(
             userId, startDate, endDate);
 
-        // Filter to expenses only (negative amounts, no transfers)
-        var expenses = transactions
-            .Where(t => t.Amount < 0 && t.CategoryId.HasValue && !t.TransferId.HasValue)
-            .ToList();
-
-        // Group by category ID for efficient lookup
-        var transactionsByCategory = expenses
-            .GroupBy(t => t.CategoryId!.Value)
+        // Group expense lines by category ID for efficient lookup
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+        var linesByCategory = GetExpenseLines(transactions, converter)
+            .GroupBy(l => l.CategoryId)
             .ToDictionary(g => g.Key, g => g.ToList());
 
         // Calculate spending for each budget category
         foreach (var catId in categoryIdList)
         {
             var includedIds = categoryToIncludedIds[catId];
-            var relevantTransactions = new List<Transaction>();
+            var relevantLines = new List<ExpenseLine>();
 
             foreach (var includedId in includedIds)
             {
-                if (transactionsByCategory.TryGetValue(includedId, out var catTransactions))
+                if (linesByCategory.TryGetValue(includedId, out var catLines))
                 {
-                    relevantTransactions.AddRange(catTransactions);
+                    relevantLines.AddRange(catLines);
                 }
             }
 
             var category = categoryLookup.GetValueOrDefault(catId);
-            var totalSpent = relevantTransactions.Sum(t => Math.Abs(t.Amount));
+            var totalSpent = relevantLines.Sum(l => l.Amount);
 
             result[catId] = new CategorySpendingSummaryDto
             {
@@ -271,7 +268,7 @@ public class BudgetCalculationService : IBudgetCalculationService
                 CategoryName = category?.Name ?? "Unknown",
                 CategoryColor = category?.Color,
                 TotalSpent = totalSpent,
-                TransactionCount = relevantTransactions.Count,
+                TransactionCount = CountTransactions(relevantLines),
                 IncludedCategoryIds = includedIds.ToList()
             };
         }
@@ -303,27 +300,26 @@ public class BudgetCalculationService : IBudgetCalculationService
             userId, startDate, endDate);
 
         // Filter to categorized expenses
-        var expenses = transactions
-            .Where(t => t.Amount < 0 && t.CategoryId.HasValue && !t.TransferId.HasValue)
-            .ToList();
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+        var expenses = GetExpenseLines(transactions, converter);
 
         // Calculate total expenses for percentage calculation
-        var totalExpenses = expenses.Sum(t => Math.Abs(t.Amount));
+        var totalExpenses = expenses.Sum(l => l.Amount);
 
         // Group spending by category and month (ordered by date)
         var spendingByCategory = expenses
-            .GroupBy(t => t.CategoryId!.Value)
+            .GroupBy(l => l.CategoryId)
             .ToDictionary(
                 g => g.Key,
-                g => g.GroupBy(t => new { t.TransactionDate.Year, t.TransactionDate.Month })
+                g => g.GroupBy(l => new { l.Transaction.TransactionDate.Year, l.Transaction.TransactionDate.Month })
                       .OrderBy(mg => mg.Key.Year)
                       .ThenBy(mg => mg.Key.Month)
                       .Select(mg => new MonthlySpendingData
                       {
                           Year = mg.Key.Year,
                           Month = mg.Key.Month,
-                          Total = mg.Sum(t => Math.Abs(t.Amount)),
-                          Count = mg.Count()
+                          Total = mg.Sum(l => l.Amount),
+                          Count = CountTransactions(mg)
                       })
                       .ToList());
 
@@ -421,6 +417,33 @@ public class BudgetCalculationService : IBudgetCalculationService
         public int Count { get; set; }
     }
 
+    /// <summary>
+    /// Spending attributed to one category; split transactions contribute one line per split
+    /// </summary>
+    private sealed record ExpenseLine(Transaction Transaction, int CategoryId, decimal Amount);
+
+    /// <summary>
+    /// Expands expenses (negative amounts, transfers excluded) into per-category lines,
+    /// converted into the user's base currency
+    /// </summary>
+    private static List<ExpenseLine> GetExpenseLines(IEnumerable<Transaction> transactions, CurrencyConverter converter)
+    {
+        return transactions
+            .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
+            .SelectMany(t => t.GetCategoryAmounts()
+                .Select(line => new ExpenseLine(t, line.CategoryId,
+                    Math.Abs(converter.ToBase(line.Amount, t.Account?.Currency, t.TransactionDate)))))
+            .ToList();
+    }
+
+    /// <summary>
+    /// A split transaction with several lines in the same category still counts once
+    /// </summary>
+    private static int CountTransactions(IEnumerable<ExpenseLine> lines)
+    {
+        return lines.Select(l => l.Transaction.Id).Distinct().Count();
+    }
+
     /// <summary>
     /// Calculates the spending trend using linear regression
     /// </summary>
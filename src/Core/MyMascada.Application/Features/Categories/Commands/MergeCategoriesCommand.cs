@@ -0,0 +1,32 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+
+namespace MyMascada.Application.Features.Categories.Commands;
+
+/// <summary>
+/// Merges the source categories into the target: transactions, budgets, rules, bank mappings,
+/// recurring patterns and subcategories move to the target and the sources are deleted.
+/// </summary>
+public class MergeCategoriesCommand : IRequest<CategoryMigrationSummaryDto>
+{
+    public List<int> SourceCategoryIds { get; set; } = new();
+    public int TargetCategoryId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class MergeCategoriesCommandHandler : IRequestHandler<MergeCategoriesCommand, CategoryMigrationSummaryDto>
+{
+    private readonly ICategoryMigrationService _categoryMigrationService;
+
+    public MergeCategoriesCommandHandler(ICategoryMigrationService categoryMigrationService)
+    {
+        _categoryMigrationService = categoryMigrationService;
+    }
+
+    public async Task<CategoryMigrationSummaryDto> Handle(MergeCategoriesCommand request, CancellationToken cancellationToken)
+    {
+        return await _categoryMigrationService.MergeAsync(
+            request.UserId, request.SourceCategoryIds, request.TargetCategoryId, dryRun: false, cancellationToken);
+    }
+}
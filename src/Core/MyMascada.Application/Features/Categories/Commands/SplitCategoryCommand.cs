@@ -0,0 +1,31 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+
+namespace MyMascada.Application.Features.Categories.Commands;
+
+/// <summary>
+/// Splits a category by moving selected or pattern-matched transactions to other categories.
+/// </summary>
+public class SplitCategoryCommand : IRequest<CategoryMigrationSummaryDto>
+{
+    public int CategoryId { get; set; }
+    public List<CategorySplitTargetRequest> Targets { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SplitCategoryCommandHandler : IRequestHandler<SplitCategoryCommand, CategoryMigrationSummaryDto>
+{
+    private readonly ICategoryMigrationService _categoryMigrationService;
+
+    public SplitCategoryCommandHandler(ICategoryMigrationService categoryMigrationService)
+    {
+        _categoryMigrationService = categoryMigrationService;
+    }
+
+    public async Task<CategoryMigrationSummaryDto> Handle(SplitCategoryCommand request, CancellationToken cancellationToken)
+    {
+        return await _categoryMigrationService.SplitAsync(
+            request.UserId, request.CategoryId, request.Targets, dryRun: false, cancellationToken);
+    }
+}
@@ -70,13 +70,45 @@ public class CategoryWithTransactionCountDto
     public string DisplayName { get; set; } = string.Empty; // e.g., "Food & Dining (12)"
 }
 
+/// <summary>
+/// Statistics for a category and its subcategories over the last <see cref="Months"/> months.
+/// Amounts are signed net totals, so spending is negative.
+/// </summary>
 public class CategoryStatisticsDto
 {
     public int CategoryId { get; set; }
     public string CategoryName { get; set; } = string.Empty;
+    public int Months { get; set; }
     public int TransactionCount { get; set; }
     public decimal TotalAmount { get; set; }
     public decimal AverageAmount { get; set; }
     public DateTime? LastTransactionDate { get; set; }
     public DateTime? FirstTransactionDate { get; set; }
+    public List<CategoryMonthlyTotalDto> MonthlyTotals { get; set; } = new();
+    public List<CategoryMerchantDto> TopMerchants { get; set; } = new();
+    public List<CategorySubcategoryTotalDto> Subcategories { get; set; } = new();
+}
+
+public class CategoryMonthlyTotalDto
+{
+    public DateTime PeriodStart { get; set; }
+    public decimal Amount { get; set; }
+    public int TransactionCount { get; set; }
+}
+
+public class CategoryMerchantDto
+{
+    public string Name { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+    public int TransactionCount { get; set; }
+    public DateTime LastTransactionDate { get; set; }
+}
+
+public class CategorySubcategoryTotalDto
+{
+    public int CategoryId { get; set; }
+    public string CategoryName { get; set; } = string.Empty;
+    public string? Color { get; set; }
+    public decimal Amount { get; set; }
+    public int TransactionCount { get; set; }
 }
\ No newline at end of file
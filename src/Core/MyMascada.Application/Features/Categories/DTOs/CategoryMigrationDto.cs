@@ -0,0 +1,95 @@
+namespace MyMascada.Application.Features.Categories.DTOs;
+
+/// <summary>
+/// What a merge or split touches. Returned as a preview before the migration runs
+/// and again as the result once it has been applied.
+/// </summary>
+public class CategoryMigrationSummaryDto
+{
+    /// <summary>
+    /// Transactions that move to another category.
+    /// </summary>
+    public int TransactionCount { get; set; }
+
+    /// <summary>
+    /// Split lines (TransactionSplit rows) that move to another category.
+    /// </summary>
+    public int SplitLineCount { get; set; }
+
+    /// <summary>
+    /// Budgets with an allocation for an affected category. For a split these stay with the source.
+    /// </summary>
+    public int BudgetCount { get; set; }
+
+    /// <summary>
+    /// Budget allocations folded into an existing allocation for the target because the budget already had one.
+    /// </summary>
+    public int CombinedBudgetAllocationCount { get; set; }
+
+    /// <summary>
+    /// Categorization rules pointing at an affected category. For a split these stay with the source.
+    /// </summary>
+    public int RuleCount { get; set; }
+
+    /// <summary>
+    /// Bank category mappings pointing at an affected category. For a split these stay with the source.
+    /// </summary>
+    public int BankCategoryMappingCount { get; set; }
+
+    public int RecurringPatternCount { get; set; }
+
+    /// <summary>
+    /// Recurring schedules that move to another category. For a split, those whose name or match text contains a target's pattern.
+    /// </summary>
+    public int RecurringScheduleCount { get; set; }
+
+    /// <summary>
+    /// Subcategories re-parented under the merge target.
+    /// </summary>
+    public int SubcategoryCount { get; set; }
+
+    /// <summary>
+    /// Split only: transactions that match no target and stay in the source category.
+    /// </summary>
+    public int RemainingTransactionCount { get; set; }
+
+    /// <summary>
+    /// Split only: transactions moved to each target, in request order.
+    /// </summary>
+    public List<CategorySplitTargetSummaryDto> Targets { get; set; } = new();
+}
+
+public class CategorySplitTargetSummaryDto
+{
+    /// <summary>
+    /// Null in a preview for a category that will be created by the split.
+    /// </summary>
+    public int? CategoryId { get; set; }
+    public string CategoryName { get; set; } = string.Empty;
+    public bool IsNew { get; set; }
+    public int TransactionCount { get; set; }
+}
+
+public class MergeCategoriesRequest
+{
+    public List<int> SourceCategoryIds { get; set; } = new();
+    public int TargetCategoryId { get; set; }
+}
+
+public class SplitCategoryRequest
+{
+    public List<CategorySplitTargetRequest> Targets { get; set; } = new();
+}
+
+/// <summary>
+/// One destination of a split. Either an existing category or the name of a new subcategory of the source,
+/// receiving the selected transactions plus any whose description contains the pattern.
+/// Selections win over patterns; among patterns, the earliest target wins.
+/// </summary>
+public class CategorySplitTargetRequest
+{
+    public int? CategoryId { get; set; }
+    public string? NewCategoryName { get; set; }
+    public List<int> TransactionIds { get; set; } = new();
+    public string? Pattern { get; set; }
+}
@@ -0,0 +1,174 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Features.Categories.Queries;
+
+public class GetCategoryStatisticsQuery : IRequest<CategoryStatisticsDto?>
+{
+    public int CategoryId { get; set; }
+    public Guid UserId { get; set; }
+    public int Months { get; set; } = 24;
+}
+
+public class GetCategoryStatisticsQueryHandler : IRequestHandler<GetCategoryStatisticsQuery, CategoryStatisticsDto?>
+{
+    private const int MaxMonths = 60;
+    private const int TopMerchantCount = 8;
+
+    private readonly ICategoryRepository _categoryRepository;
+    private readonly ITransactionRepository _transactionRepository;
+
+    public GetCategoryStatisticsQueryHandler(
+        ICategoryRepository categoryRepository,
+        ITransactionRepository transactionRepository)
+    {
+        _categoryRepository = categoryRepository;
+        _transactionRepository = transactionRepository;
+    }
+
+    public async Task<CategoryStatisticsDto?> Handle(GetCategoryStatisticsQuery request, CancellationToken cancellationToken)
+    {
+        var category = await _categoryRepository.GetByIdAsync(request.CategoryId);
+        if (category == null)
+            return null;
+
+        // Check if user has access to this category (own category or system category)
+        if (!category.IsSystemCategory && category.UserId != request.UserId)
+            return null;
+
+        var months = Math.Clamp(request.Months, 1, MaxMonths);
+
+        // Whole months, ending with the current one
+        var now = DateTime.UtcNow;
+        var endDate = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc).AddMonths(1).AddTicks(-1);
+        var startDate = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc).AddMonths(-(months - 1));
+
+        // Map every category in the subtree to the direct child it rolls up into
+        var userCategories = await _categoryRepository.GetByUserIdAsync(request.UserId);
+        var systemCategories = await _categoryRepository.GetSystemCategoriesAsync();
+        var allCategories = userCategories
+            .Concat(systemCategories)
+            .GroupBy(c => c.Id)
+            .Select(g => g.First())
+            .ToList();
+        var rollUp = BuildRollUp(category.Id, allCategories);
+
+        // Split transactions contribute only their lines that fall inside the subtree
+        var lines = (await _transactionRepository.GetByDateRangeAsync(request.UserId, startDate, endDate))
+            .Where(t => !t.TransferId.HasValue && !t.IsExcluded)
+            .SelectMany(t => t.GetCategoryAmounts()
+                .Where(line => rollUp.ContainsKey(line.CategoryId))
+                .Select(line => new CategoryLine(t, rollUp[line.CategoryId], line.Amount)))
+            .ToList();
+        var transactions = lines.Select(l => l.Transaction).DistinctBy(t => t.Id).ToList();
+
+        var monthlyTotals = new List<CategoryMonthlyTotalDto>();
+        for (var period = startDate; period <= endDate; period = period.AddMonths(1))
+        {
+            var inMonth = lines
+                .Where(l => l.Transaction.TransactionDate.Year == period.Year && l.Transaction.TransactionDate.Month == period.Month)
+                .ToList();
+            monthlyTotals.Add(new CategoryMonthlyTotalDto
+            {
+                PeriodStart = period,
+                Amount = inMonth.Sum(l => l.Amount),
+                TransactionCount = CountTransactions(inMonth)
+            });
+        }
+
+        var topMerchants = lines
+            .GroupBy(l => MerchantName(l.Transaction), StringComparer.OrdinalIgnoreCase)
+            .Select(g => new CategoryMerchantDto
+            {
+                Name = g.Key,
+                Amount = g.Sum(l => l.Amount),
+                TransactionCount = CountTransactions(g),
+                LastTransactionDate = g.Max(l => l.Transaction.TransactionDate)
+            })
+            .OrderByDescending(m => Math.Abs(m.Amount))
+            .ThenByDescending(m => m.TransactionCount)
+            .Take(TopMerchantCount)
+            .ToList();
+
+        var categoriesById = allCategories.ToDictionary(c => c.Id);
+        var subcategories = lines
+            .Where(l => l.ReportedCategoryId != category.Id)
+            .GroupBy(l => l.ReportedCategoryId)
+            .Select(g => new CategorySubcategoryTotalDto
+            {
+                CategoryId = g.Key,
+                CategoryName = categoriesById[g.Key].Name,
+                Color = categoriesById[g.Key].Color,
+                Amount = g.Sum(l => l.Amount),
+                TransactionCount = CountTransactions(g)
+            })
+            .OrderByDescending(s => Math.Abs(s.Amount))
+            .ToList();
+
+        var totalAmount = lines.Sum(l => l.Amount);
+
+        return new CategoryStatisticsDto
+        {
+            CategoryId = category.Id,
+            CategoryName = category.Name,
+            Months = months,
+            TransactionCount = transactions.Count,
+            TotalAmount = totalAmount,
+            AverageAmount = transactions.Count > 0 ? Math.Round(totalAmount / transactions.Count, 2) : 0,
+            LastTransactionDate = transactions.Count > 0 ? transactions.Max(t => t.TransactionDate) : null,
+            FirstTransactionDate = transactions.Count > 0 ? transactions.Min(t => t.TransactionDate) : null,
+            MonthlyTotals = monthlyTotals,
+            TopMerchants = topMerchants,
+            Subcategories = subcategories
+        };
+    }
+
+    /// <summary>
+    /// Maps the category and all its descendants to the category they are reported under:
+    /// the category itself, or the direct subcategory whose subtree they belong to.
+    /// </summary>
+    private static Dictionary<int, int> BuildRollUp(int categoryId, IReadOnlyCollection<Category> categories)
+    {
+        var childrenByParent = categories
+            .Where(c => c.ParentCategoryId.HasValue)
+            .ToLookup(c => c.ParentCategoryId!.Value);
+
+        var rollUp = new Dictionary<int, int> { [categoryId] = categoryId };
+        foreach (var child in childrenByParent[categoryId])
+        {
+            var pending = new Stack<int>();
+            pending.Push(child.Id);
+            while (pending.Count > 0)
+            {
+                var current = pending.Pop();
+                // Guard against cycles in malformed hierarchies
+                if (!rollUp.TryAdd(current, child.Id))
+                    continue;
+                foreach (var grandchild in childrenByParent[current])
+                    pending.Push(grandchild.Id);
+            }
+        }
+
+        return rollUp;
+    }
+
+    private static string MerchantName(Transaction transaction)
+    {
+        var name = string.IsNullOrWhiteSpace(transaction.UserDescription)
+            ? transaction.Description
+            : transaction.UserDescription;
+        return name.Trim();
+    }
+
+    private static int CountTransactions(IEnumerable<CategoryLine> lines)
+    {
+        return lines.Select(l => l.Transaction.Id).Distinct().Count();
+    }
+
+    /// <summary>
+    /// An amount counted towards the category, already rolled up to the category it is reported under
+    /// </summary>
+    private sealed record CategoryLine(Transaction Transaction, int ReportedCategoryId, decimal Amount);
+}
@@ -0,0 +1,31 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+
+namespace MyMascada.Application.Features.Categories.Queries;
+
+/// <summary>
+/// Counts what a merge would move without changing anything.
+/// </summary>
+public class PreviewCategoryMergeQuery : IRequest<CategoryMigrationSummaryDto>
+{
+    public List<int> SourceCategoryIds { get; set; } = new();
+    public int TargetCategoryId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class PreviewCategoryMergeQueryHandler : IRequestHandler<PreviewCategoryMergeQuery, CategoryMigrationSummaryDto>
+{
+    private readonly ICategoryMigrationService _categoryMigrationService;
+
+    public PreviewCategoryMergeQueryHandler(ICategoryMigrationService categoryMigrationService)
+    {
+        _categoryMigrationService = categoryMigrationService;
+    }
+
+    public async Task<CategoryMigrationSummaryDto> Handle(PreviewCategoryMergeQuery request, CancellationToken cancellationToken)
+    {
+        return await _categoryMigrationService.MergeAsync(
+            request.UserId, request.SourceCategoryIds, request.TargetCategoryId, dryRun: true, cancellationToken);
+    }
+}
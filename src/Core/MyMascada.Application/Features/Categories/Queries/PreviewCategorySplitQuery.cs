@@ -0,0 +1,31 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+
+namespace MyMascada.Application.Features.Categories.Queries;
+
+/// <summary>
+/// Counts which transactions a split would move to each target without changing anything.
+/// </summary>
+public class PreviewCategorySplitQuery : IRequest<CategoryMigrationSummaryDto>
+{
+    public int CategoryId { get; set; }
+    public List<CategorySplitTargetRequest> Targets { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class PreviewCategorySplitQueryHandler : IRequestHandler<PreviewCategorySplitQuery, CategoryMigrationSummaryDto>
+{
+    private readonly ICategoryMigrationService _categoryMigrationService;
+
+    public PreviewCategorySplitQueryHandler(ICategoryMigrationService categoryMigrationService)
+    {
+        _categoryMigrationService = categoryMigrationService;
+    }
+
+    public async Task<CategoryMigrationSummaryDto> Handle(PreviewCategorySplitQuery request, CancellationToken cancellationToken)
+    {
+        return await _categoryMigrationService.SplitAsync(
+            request.UserId, request.CategoryId, request.Targets, dryRun: true, cancellationToken);
+    }
+}
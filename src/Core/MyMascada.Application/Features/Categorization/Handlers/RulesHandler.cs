@@ -78,7 +78,13 @@ public class RulesHandler : CategorizationHandler
         {
             _logger.LogInformation("RulesHandler: Testing transaction {TransactionId} '{Description}' against {RuleCount} rules", 
                 transaction.Id, transaction.Description, orderedRules.Count);
-            
+
+            // Split lines carry their own categories; a rule would collapse them into one
+            if (transaction.IsSplit())
+            {
+                continue;
+            }
+
             var matchResult = await FindBestRuleMatchForTransaction(transaction, orderedRules, cancellationToken);
             if (matchResult != null)
             {
@@ -201,6 +207,7 @@ public class RulesHandler : CategorizationHandler
                             confidenceScore,
                             reason,
                             metadata);
+                        categorizedTransaction.Tags = rule.GetApplyTags();
 
                         return new RuleMatchResult
                         {
@@ -52,6 +52,11 @@ public class CategorizedTransaction
     public DateTime CategorizedAt { get; set; } = DateTime.UtcNow;
     public Dictionary<string, object> Metadata { get; set; } = new();
 
+    /// <summary>
+    /// Tags added to the transaction when the categorization is applied (from the matching rule)
+    /// </summary>
+    public IReadOnlyList<string> Tags { get; set; } = Array.Empty<string>();
+
     public CategorizedTransaction() { }
 
     public CategorizedTransaction(Transaction transaction, int categoryId, string categoryName, decimal confidence, string processedBy, string reason = "")
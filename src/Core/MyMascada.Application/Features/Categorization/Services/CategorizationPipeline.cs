@@ -30,6 +30,7 @@ public class CategorizationPipeline : ICategorizationPipeline
     private readonly ICategorizationCandidatesService _candidatesService;
     private readonly ICategorizationHistoryService _historyService;
     private readonly ITransactionRepository _transactionRepository;
+    private readonly ITagService _tagService;
     private readonly ILogger<CategorizationPipeline> _logger;
 
     public CategorizationPipeline(
@@ -40,6 +41,7 @@ public class CategorizationPipeline : ICategorizationPipeline
         ICategorizationCandidatesService candidatesService,
         ICategorizationHistoryService historyService,
         ITransactionRepository transactionRepository,
+        ITagService tagService,
         ILogger<CategorizationPipeline> logger)
     {
         _rulesHandler = rulesHandler;
@@ -49,6 +51,7 @@ public class CategorizationPipeline : ICategorizationPipeline
         _candidatesService = candidatesService;
         _historyService = historyService;
         _transactionRepository = transactionRepository;
+        _tagService = tagService;
         _logger = logger;
     }
 
@@ -262,10 +265,15 @@ public class CategorizationPipeline : ICategorizationPipeline
             // Auto-apply high-confidence transactions
             if (result.AutoAppliedTransactions.Any())
             {
+                var tagged = new List<Transaction>();
                 foreach (var categorized in result.AutoAppliedTransactions)
                 {
                     var transaction = categorized.Transaction;
                     transaction.CategoryId = categorized.CategoryId;
+                    if (transaction.AddTags(categorized.Tags))
+                    {
+                        tagged.Add(transaction);
+                    }
                     transaction.MarkAsAutoCategorized(
                         categorized.ProcessedBy switch
                         {
@@ -279,6 +287,7 @@ public class CategorizationPipeline : ICategorizationPipeline
                     await _transactionRepository.UpdateAsync(transaction);
                 }
 
+                await _tagService.SyncTransactionTagsAsync(tagged, cancellationToken);
                 await _transactionRepository.SaveChangesAsync();
                 _logger.LogInformation("Auto-applied {Count} high-confidence categorizations", result.AutoAppliedTransactions.Count);
 
@@ -21,6 +21,8 @@ public class RuleAutoCategorizationService : IRuleAutoCategorizationService
     private readonly ICategorizationCandidatesRepository _candidatesRepository;
     private readonly ITransactionRepository _transactionRepository;
     private readonly ICategoryRepository _categoryRepository;
+    private readonly ICategorizationRuleRepository _ruleRepository;
+    private readonly ITagService _tagService;
     private readonly ILogger<RuleAutoCategorizationService> _logger;
 
     public RuleAutoCategorizationService(
@@ -29,6 +31,8 @@ public class RuleAutoCategorizationService : IRuleAutoCategorizationService
         ICategorizationCandidatesRepository candidatesRepository,
         ITransactionRepository transactionRepository,
         ICategoryRepository categoryRepository,
+        ICategorizationRuleRepository ruleRepository,
+        ITagService tagService,
         ILogger<RuleAutoCategorizationService> logger)
     {
         _rulesHandler = rulesHandler;
@@ -36,6 +40,8 @@ public class RuleAutoCategorizationService : IRuleAutoCategorizationService
         _candidatesRepository = candidatesRepository;
         _transactionRepository = transactionRepository;
         _categoryRepository = categoryRepository;
+        _ruleRepository = ruleRepository;
+        _tagService = tagService;
         _logger = logger;
     }
 
@@ -168,10 +174,15 @@ public class RuleAutoCategorizationService : IRuleAutoCategorizationService
                         var transaction = await _transactionRepository.GetByIdAsync(
                             categorizedTransaction.Transaction.Id, userId);
                         
-                        if (transaction != null)
+                        // Rules never overwrite a split; its lines already carry their own categories
+                        if (transaction != null && !transaction.IsSplit())
                         {
                             // Apply the categorization directly to the transaction
                             transaction.CategoryId = categorizedTransaction.CategoryId;
+                            if (transaction.AddTags(categorizedTransaction.Tags))
+                            {
+                                await _tagService.SyncTransactionTagsAsync(new[] { transaction }, cancellationToken);
+                            }
                             transaction.MarkAsAutoCategorized(
                                 CandidateMethod.Rule,
                                 categorizedTransaction.ConfidenceScore,
@@ -750,15 +761,24 @@ public class RuleAutoCategorizationService : IRuleAutoCategorizationService
                 _logger.LogInformation("Applied {Count} existing rule candidates", batchResult.SuccessfulCount);
             }
 
+            // Rules can tag the transactions they categorize
+            var rulesById = newMatches.Any()
+                ? (await _ruleRepository.GetAllRulesForUserAsync(userId, cancellationToken)).ToDictionary(r => r.Id)
+                : new Dictionary<int, CategorizationRule>();
+
             // Apply new matches directly to transactions
             foreach (var match in newMatches)
             {
                 try
                 {
                     var transaction = await _transactionRepository.GetByIdAsync(match.TransactionId, userId);
-                    if (transaction != null)
+                    if (transaction != null && !transaction.IsSplit())
                     {
                         transaction.CategoryId = match.CategoryId;
+                        if (rulesById.TryGetValue(match.RuleId, out var rule) && transaction.AddTags(rule.GetApplyTags()))
+                        {
+                            await _tagService.SyncTransactionTagsAsync(new[] { transaction }, cancellationToken);
+                        }
                         transaction.MarkAsAutoCategorized(
                             CandidateMethod.Rule,
                             match.ConfidenceScore,
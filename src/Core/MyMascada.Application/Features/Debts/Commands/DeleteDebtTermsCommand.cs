@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.Debts.Commands;
+
+public class DeleteDebtTermsCommand : IRequest
+{
+    public int AccountId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteDebtTermsCommandHandler : IRequestHandler<DeleteDebtTermsCommand>
+{
+    private readonly IDebtService _debtService;
+
+    public DeleteDebtTermsCommandHandler(IDebtService debtService)
+    {
+        _debtService = debtService;
+    }
+
+    public async Task Handle(DeleteDebtTermsCommand request, CancellationToken cancellationToken)
+    {
+        await _debtService.DeleteTermsAsync(request.UserId, request.AccountId, cancellationToken);
+    }
+}
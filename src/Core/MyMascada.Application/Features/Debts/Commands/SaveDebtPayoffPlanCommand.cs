@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+
+namespace MyMascada.Application.Features.Debts.Commands;
+
+public class SaveDebtPayoffPlanCommand : IRequest<DebtPayoffPlanDto>
+{
+    public SaveDebtPayoffPlanRequest Plan { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SaveDebtPayoffPlanCommandHandler : IRequestHandler<SaveDebtPayoffPlanCommand, DebtPayoffPlanDto>
+{
+    private readonly IDebtService _debtService;
+
+    public SaveDebtPayoffPlanCommandHandler(IDebtService debtService)
+    {
+        _debtService = debtService;
+    }
+
+    public async Task<DebtPayoffPlanDto> Handle(SaveDebtPayoffPlanCommand request, CancellationToken cancellationToken)
+    {
+        return await _debtService.SavePlanAsync(request.UserId, request.Plan, cancellationToken);
+    }
+}
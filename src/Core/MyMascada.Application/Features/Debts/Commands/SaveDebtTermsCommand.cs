@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+
+namespace MyMascada.Application.Features.Debts.Commands;
+
+public class SaveDebtTermsCommand : IRequest<DebtTermsDto>
+{
+    public int AccountId { get; set; }
+    public SaveDebtTermsRequest Terms { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SaveDebtTermsCommandHandler : IRequestHandler<SaveDebtTermsCommand, DebtTermsDto>
+{
+    private readonly IDebtService _debtService;
+
+    public SaveDebtTermsCommandHandler(IDebtService debtService)
+    {
+        _debtService = debtService;
+    }
+
+    public async Task<DebtTermsDto> Handle(SaveDebtTermsCommand request, CancellationToken cancellationToken)
+    {
+        return await _debtService.SaveTermsAsync(request.UserId, request.AccountId, request.Terms, cancellationToken);
+    }
+}
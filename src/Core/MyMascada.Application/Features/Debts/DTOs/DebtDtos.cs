@@ -0,0 +1,92 @@
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Application.Features.Debts.DTOs;
+
+/// <summary>
+/// The user's loan and credit card accounts that are in debt, with their terms. Base amounts are
+/// converted into the user's base currency at today's rate so debts can be planned together.
+/// </summary>
+public class DebtsResponse
+{
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account currencies without an exchange rate, whose amounts were used unconverted
+    /// </summary>
+    public List<string> UnconvertedCurrencies { get; set; } = new();
+
+    public List<DebtDto> Debts { get; set; } = new();
+
+    /// <summary>
+    /// The user's saved payoff plan, or the default avalanche plan with no extra payment
+    /// </summary>
+    public DebtPayoffPlanDto Plan { get; set; } = new();
+}
+
+public class DebtDto
+{
+    public int AccountId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public AccountType Type { get; set; }
+    public string Currency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Amount owed in the account's currency; zero or negative once paid off or in credit
+    /// </summary>
+    public decimal Balance { get; set; }
+
+    public decimal BaseBalance { get; set; }
+
+    /// <summary>
+    /// Minimum payment in the base currency; null when the account has no terms
+    /// </summary>
+    public decimal? BaseMinimumPayment { get; set; }
+
+    public DebtTermsDto? Terms { get; set; }
+}
+
+public class DebtTermsDto
+{
+    public int AccountId { get; set; }
+
+    /// <summary>
+    /// Annual percentage rate, e.g. 19.99
+    /// </summary>
+    public decimal AnnualInterestRate { get; set; }
+
+    public decimal MinimumPayment { get; set; }
+    public int? TermMonths { get; set; }
+    public DateTime? StartDate { get; set; }
+
+    /// <summary>
+    /// Start date plus the term, when both are set
+    /// </summary>
+    public DateTime? MaturityDate { get; set; }
+}
+
+public class SaveDebtTermsRequest
+{
+    public decimal AnnualInterestRate { get; set; }
+    public decimal MinimumPayment { get; set; }
+    public int? TermMonths { get; set; }
+    public DateTime? StartDate { get; set; }
+}
+
+public class DebtPayoffPlanDto
+{
+    /// <summary>
+    /// "avalanche" or "snowball"
+    /// </summary>
+    public string Strategy { get; set; } = "avalanche";
+
+    /// <summary>
+    /// Paid each month on top of the minimum payments, in the base currency
+    /// </summary>
+    public decimal ExtraPayment { get; set; }
+}
+
+public class SaveDebtPayoffPlanRequest
+{
+    public string Strategy { get; set; } = string.Empty;
+    public decimal ExtraPayment { get; set; }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+
+namespace MyMascada.Application.Features.Debts.Queries;
+
+public class GetDebtQuery : IRequest<DebtDto>
+{
+    public int AccountId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetDebtQueryHandler : IRequestHandler<GetDebtQuery, DebtDto>
+{
+    private readonly IDebtService _debtService;
+
+    public GetDebtQueryHandler(IDebtService debtService)
+    {
+        _debtService = debtService;
+    }
+
+    public async Task<DebtDto> Handle(GetDebtQuery request, CancellationToken cancellationToken)
+    {
+        return await _debtService.GetDebtAsync(request.UserId, request.AccountId, cancellationToken);
+    }
+}
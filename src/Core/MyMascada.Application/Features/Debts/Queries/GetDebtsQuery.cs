@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+
+namespace MyMascada.Application.Features.Debts.Queries;
+
+public class GetDebtsQuery : IRequest<DebtsResponse>
+{
+    public Guid UserId { get; set; }
+}
+
+public class GetDebtsQueryHandler : IRequestHandler<GetDebtsQuery, DebtsResponse>
+{
+    private readonly IDebtService _debtService;
+
+    public GetDebtsQueryHandler(IDebtService debtService)
+    {
+        _debtService = debtService;
+    }
+
+    public async Task<DebtsResponse> Handle(GetDebtsQuery request, CancellationToken cancellationToken)
+    {
+        return await _debtService.GetDebtsAsync(request.UserId, cancellationToken);
+    }
+}
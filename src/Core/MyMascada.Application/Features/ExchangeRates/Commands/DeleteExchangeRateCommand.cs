@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.ExchangeRates.Commands;
+
+public class DeleteExchangeRateCommand : IRequest
+{
+    public int RateId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteExchangeRateCommandHandler : IRequestHandler<DeleteExchangeRateCommand>
+{
+    private readonly IExchangeRateService _exchangeRateService;
+
+    public DeleteExchangeRateCommandHandler(IExchangeRateService exchangeRateService)
+    {
+        _exchangeRateService = exchangeRateService;
+    }
+
+    public async Task Handle(DeleteExchangeRateCommand request, CancellationToken cancellationToken)
+    {
+        await _exchangeRateService.DeleteRateAsync(request.UserId, request.RateId, cancellationToken);
+    }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+
+namespace MyMascada.Application.Features.ExchangeRates.Commands;
+
+public class ImportExchangeRatesCommand : IRequest<ExchangeRateImportResult>
+{
+    public Stream Content { get; set; } = Stream.Null;
+    public Guid UserId { get; set; }
+}
+
+public class ImportExchangeRatesCommandHandler : IRequestHandler<ImportExchangeRatesCommand, ExchangeRateImportResult>
+{
+    private readonly IExchangeRateService _exchangeRateService;
+
+    public ImportExchangeRatesCommandHandler(IExchangeRateService exchangeRateService)
+    {
+        _exchangeRateService = exchangeRateService;
+    }
+
+    public async Task<ExchangeRateImportResult> Handle(ImportExchangeRatesCommand request, CancellationToken cancellationToken)
+    {
+        return await _exchangeRateService.ImportRatesAsync(request.UserId, request.Content, cancellationToken);
+    }
+}
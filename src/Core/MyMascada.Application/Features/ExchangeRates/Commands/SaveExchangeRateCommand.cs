@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+
+namespace MyMascada.Application.Features.ExchangeRates.Commands;
+
+public class SaveExchangeRateCommand : IRequest<ExchangeRateDto>
+{
+    public SaveExchangeRateRequest Rate { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SaveExchangeRateCommandHandler : IRequestHandler<SaveExchangeRateCommand, ExchangeRateDto>
+{
+    private readonly IExchangeRateService _exchangeRateService;
+
+    public SaveExchangeRateCommandHandler(IExchangeRateService exchangeRateService)
+    {
+        _exchangeRateService = exchangeRateService;
+    }
+
+    public async Task<ExchangeRateDto> Handle(SaveExchangeRateCommand request, CancellationToken cancellationToken)
+    {
+        return await _exchangeRateService.SaveRateAsync(request.UserId, request.Rate, cancellationToken);
+    }
+}
@@ -0,0 +1,54 @@
+namespace MyMascada.Application.Features.ExchangeRates.DTOs;
+
+/// <summary>
+/// The user's base currency with their stored exchange rates, newest first
+/// </summary>
+public class ExchangeRatesResponse
+{
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Currencies of the user's active accounts other than the base currency
+    /// </summary>
+    public List<string> AccountCurrencies { get; set; } = new();
+
+    /// <summary>
+    /// Account currencies with no rate to the base currency, whose amounts are left unconverted
+    /// </summary>
+    public List<string> MissingCurrencies { get; set; } = new();
+
+    public List<ExchangeRateDto> Rates { get; set; } = new();
+}
+
+public class ExchangeRateDto
+{
+    public int Id { get; set; }
+    public string FromCurrency { get; set; } = string.Empty;
+    public string ToCurrency { get; set; } = string.Empty;
+    public decimal Rate { get; set; }
+    public DateTime RateDate { get; set; }
+
+    /// <summary>
+    /// "Manual", "Imported" or "Transfer"
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+}
+
+public class SaveExchangeRateRequest
+{
+    public string FromCurrency { get; set; } = string.Empty;
+    public string ToCurrency { get; set; } = string.Empty;
+    public decimal Rate { get; set; }
+    public DateTime RateDate { get; set; }
+}
+
+public class ExchangeRateImportResult
+{
+    public int Imported { get; set; }
+    public int Updated { get; set; }
+
+    /// <summary>
+    /// Lines that could not be read, with their line number
+    /// </summary>
+    public List<string> Errors { get; set; } = new();
+}
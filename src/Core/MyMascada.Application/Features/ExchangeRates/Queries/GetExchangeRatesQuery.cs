@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+
+namespace MyMascada.Application.Features.ExchangeRates.Queries;
+
+public class GetExchangeRatesQuery : IRequest<ExchangeRatesResponse>
+{
+    public Guid UserId { get; set; }
+}
+
+public class GetExchangeRatesQueryHandler : IRequestHandler<GetExchangeRatesQuery, ExchangeRatesResponse>
+{
+    private readonly IExchangeRateService _exchangeRateService;
+
+    public GetExchangeRatesQueryHandler(IExchangeRateService exchangeRateService)
+    {
+        _exchangeRateService = exchangeRateService;
+    }
+
+    public async Task<ExchangeRatesResponse> Handle(GetExchangeRatesQuery request, CancellationToken cancellationToken)
+    {
+        return await _exchangeRateService.GetRatesAsync(request.UserId, cancellationToken);
+    }
+}
@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.DTOs;
+
+namespace MyMascada.Application.Features.Goals.Commands;
+
+public class AddGoalContributionCommand : IRequest<GoalContributionDto>
+{
+    public int GoalId { get; set; }
+    public SaveGoalContributionRequest Contribution { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class AddGoalContributionCommandHandler : IRequestHandler<AddGoalContributionCommand, GoalContributionDto>
+{
+    private readonly IGoalContributionService _goalContributionService;
+
+    public AddGoalContributionCommandHandler(IGoalContributionService goalContributionService)
+    {
+        _goalContributionService = goalContributionService;
+    }
+
+    public async Task<GoalContributionDto> Handle(AddGoalContributionCommand request, CancellationToken cancellationToken)
+    {
+        return await _goalContributionService.AddContributionAsync(request.UserId, request.GoalId, request.Contribution, cancellationToken);
+    }
+}
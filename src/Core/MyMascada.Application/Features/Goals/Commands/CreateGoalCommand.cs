@@ -22,16 +22,16 @@ public class CreateGoalCommandHandler : IRequestHandler<CreateGoalCommand, GoalD
 {
     private readonly IGoalRepository _goalRepository;
     private readonly IAccountRepository _accountRepository;
-    private readonly ITransactionRepository _transactionRepository;
+    private readonly IGoalContributionService _goalContributionService;
 
     public CreateGoalCommandHandler(
         IGoalRepository goalRepository,
         IAccountRepository accountRepository,
-        ITransactionRepository transactionRepository)
+        IGoalContributionService goalContributionService)
     {
         _goalRepository = goalRepository;
         _accountRepository = accountRepository;
-        _transactionRepository = transactionRepository;
+        _goalContributionService = goalContributionService;
     }
 
     public async Task<GoalDetailDto> Handle(CreateGoalCommand request, CancellationToken cancellationToken)
@@ -86,14 +86,9 @@ public class CreateGoalCommandHandler : IRequestHandler<CreateGoalCommand, GoalD
         var createdGoal = await _goalRepository.CreateGoalAsync(goal, cancellationToken);
 
         // Look up live account balance for linked goals
-        decimal? linkedAccountBalance = null;
-        if (createdGoal.LinkedAccountId.HasValue)
-        {
-            var accountBalances = await _transactionRepository.GetAccountBalancesAsync(request.UserId);
-            linkedAccountBalance = accountBalances.GetValueOrDefault(createdGoal.LinkedAccountId.Value);
-        }
+        var currentAmounts = await _goalContributionService.GetCurrentAmountsAsync(request.UserId, new[] { createdGoal }, cancellationToken);
 
-        return MapToDetailDto(createdGoal, linkedAccountBalance);
+        return MapToDetailDto(createdGoal, currentAmounts[createdGoal.Id]);
     }
 
     private static DateTime EnsureUtc(DateTime dateTime) => dateTime.Kind switch
@@ -104,7 +99,7 @@ public class CreateGoalCommandHandler : IRequestHandler<CreateGoalCommand, GoalD
         _ => DateTime.SpecifyKind(dateTime, DateTimeKind.Utc)
     };
 
-    private static GoalDetailDto MapToDetailDto(Goal goal, decimal? linkedAccountBalance)
+    private static GoalDetailDto MapToDetailDto(Goal goal, decimal currentAmount)
     {
         var now = DateTimeProvider.UtcNow;
         int? daysRemaining = null;
@@ -113,7 +108,6 @@ public class CreateGoalCommandHandler : IRequestHandler<CreateGoalCommand, GoalD
             daysRemaining = (int)(goal.Deadline.Value.Date - now.Date).TotalDays;
         }
 
-        var currentAmount = linkedAccountBalance ?? goal.CurrentAmount;
         var progressPercentage = goal.TargetAmount > 0
             ? Math.Round((currentAmount / goal.TargetAmount) * 100, 2)
             : 0;
@@ -134,6 +128,9 @@ public class CreateGoalCommandHandler : IRequestHandler<CreateGoalCommand, GoalD
             DaysRemaining = daysRemaining,
             LinkedAccountName = goal.Account?.Name,
             LinkedAccountId = goal.LinkedAccountId,
+            ContributionTag = goal.ContributionTag,
+            WalletId = goal.WalletId,
+            WalletName = goal.Wallet?.Name,
             DisplayOrder = goal.DisplayOrder,
             IsPinned = goal.IsPinned,
             CreatedAt = goal.CreatedAt,
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.Goals.Commands;
+
+public class DeleteGoalContributionCommand : IRequest
+{
+    public int GoalId { get; set; }
+    public int ContributionId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteGoalContributionCommandHandler : IRequestHandler<DeleteGoalContributionCommand>
+{
+    private readonly IGoalContributionService _goalContributionService;
+
+    public DeleteGoalContributionCommandHandler(IGoalContributionService goalContributionService)
+    {
+        _goalContributionService = goalContributionService;
+    }
+
+    public async Task Handle(DeleteGoalContributionCommand request, CancellationToken cancellationToken)
+    {
+        await _goalContributionService.DeleteContributionAsync(request.UserId, request.GoalId, request.ContributionId, cancellationToken);
+    }
+}
@@ -26,16 +26,16 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
 {
     private readonly IGoalRepository _goalRepository;
     private readonly IAccountRepository _accountRepository;
-    private readonly ITransactionRepository _transactionRepository;
+    private readonly IGoalContributionService _goalContributionService;
 
     public UpdateGoalCommandHandler(
         IGoalRepository goalRepository,
         IAccountRepository accountRepository,
-        ITransactionRepository transactionRepository)
+        IGoalContributionService goalContributionService)
     {
         _goalRepository = goalRepository;
         _accountRepository = accountRepository;
-        _transactionRepository = transactionRepository;
+        _goalContributionService = goalContributionService;
     }
 
     public async Task<GoalDetailDto> Handle(UpdateGoalCommand request, CancellationToken cancellationToken)
@@ -75,15 +75,26 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
             goal.TargetAmount = request.TargetAmount.Value;
         }
 
+        var currentAmounts = await _goalContributionService.GetCurrentAmountsAsync(request.UserId, new[] { goal }, cancellationToken);
+        var effectiveAmount = currentAmounts[goal.Id];
+        var today = DateTimeProvider.StartOfDayUtc(DateTimeProvider.UtcNow);
+
         // Only allow manual CurrentAmount updates for goals without a linked account.
         // Linked goals derive their current amount from the account balance.
+        // The change is recorded as a contribution so the ledger keeps adding up.
         if (request.CurrentAmount.HasValue && !goal.LinkedAccountId.HasValue)
         {
             if (request.CurrentAmount.Value < 0)
             {
                 throw new ArgumentException("Current amount cannot be negative.");
             }
-            goal.CurrentAmount = request.CurrentAmount.Value;
+
+            var difference = request.CurrentAmount.Value - effectiveAmount;
+            if (difference != 0)
+            {
+                goal.RecordContribution(difference, today, "Progress updated");
+                effectiveAmount = request.CurrentAmount.Value;
+            }
         }
 
         if (request.Status != null)
@@ -96,6 +107,10 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
             switch (status)
             {
                 case GoalStatus.Completed:
+                    if (!goal.LinkedAccountId.HasValue && effectiveAmount < goal.TargetAmount)
+                    {
+                        goal.RecordContribution(goal.TargetAmount - effectiveAmount, today, "Marked as completed");
+                    }
                     goal.MarkCompleted();
                     break;
                 case GoalStatus.Paused:
@@ -123,6 +138,10 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
                 throw new ArgumentException("Linked account not found or you don't have permission to access it.");
             }
             goal.LinkedAccountId = request.LinkedAccountId.Value;
+
+            // Linked goals follow the account balance, so tags and wallets no longer count
+            goal.ContributionTag = null;
+            goal.WalletId = null;
         }
         else if (request.ClearLinkedAccount)
         {
@@ -134,15 +153,9 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
             goal.IsPinned = request.IsPinned.Value;
         }
 
-        // Look up live balance for linked account to check auto-complete
-        decimal? linkedAccountBalance = null;
-        if (goal.LinkedAccountId.HasValue)
-        {
-            var accountBalances = await _transactionRepository.GetAccountBalancesAsync(request.UserId);
-            linkedAccountBalance = accountBalances.GetValueOrDefault(goal.LinkedAccountId.Value);
-        }
-
-        var effectiveAmount = linkedAccountBalance ?? goal.CurrentAmount;
+        // Look up the amount again to check auto-complete, as the linked account may have changed
+        currentAmounts = await _goalContributionService.GetCurrentAmountsAsync(request.UserId, new[] { goal }, cancellationToken);
+        effectiveAmount = currentAmounts[goal.Id];
 
         // Auto-complete: if effective amount >= TargetAmount after update
         if (goal.Status == GoalStatus.Active && effectiveAmount >= goal.TargetAmount)
@@ -151,7 +164,7 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
         }
 
         var updatedGoal = await _goalRepository.UpdateGoalAsync(goal, cancellationToken);
-        return MapToDetailDto(updatedGoal, linkedAccountBalance);
+        return MapToDetailDto(updatedGoal, effectiveAmount);
     }
 
     private static DateTime EnsureUtc(DateTime dateTime) => dateTime.Kind switch
@@ -162,7 +175,7 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
         _ => DateTime.SpecifyKind(dateTime, DateTimeKind.Utc)
     };
 
-    private static GoalDetailDto MapToDetailDto(Goal goal, decimal? linkedAccountBalance)
+    private static GoalDetailDto MapToDetailDto(Goal goal, decimal currentAmount)
     {
         var now = DateTimeProvider.UtcNow;
         int? daysRemaining = null;
@@ -171,7 +184,6 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
             daysRemaining = (int)(goal.Deadline.Value.Date - now.Date).TotalDays;
         }
 
-        var currentAmount = linkedAccountBalance ?? goal.CurrentAmount;
         var progressPercentage = goal.TargetAmount > 0
             ? Math.Round((currentAmount / goal.TargetAmount) * 100, 2)
             : 0;
@@ -192,6 +204,9 @@ public class UpdateGoalCommandHandler : IRequestHandler<UpdateGoalCommand, GoalD
             DaysRemaining = daysRemaining,
             LinkedAccountName = goal.Account?.Name,
             LinkedAccountId = goal.LinkedAccountId,
+            ContributionTag = goal.ContributionTag,
+            WalletId = goal.WalletId,
+            WalletName = goal.Wallet?.Name,
             DisplayOrder = goal.DisplayOrder,
             IsPinned = goal.IsPinned,
             CreatedAt = goal.CreatedAt,
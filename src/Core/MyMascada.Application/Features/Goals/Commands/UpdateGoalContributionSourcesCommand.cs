@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.DTOs;
+
+namespace MyMascada.Application.Features.Goals.Commands;
+
+public class UpdateGoalContributionSourcesCommand : IRequest
+{
+    public int GoalId { get; set; }
+    public UpdateGoalContributionSourcesRequest Sources { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class UpdateGoalContributionSourcesCommandHandler : IRequestHandler<UpdateGoalContributionSourcesCommand>
+{
+    private readonly IGoalContributionService _goalContributionService;
+
+    public UpdateGoalContributionSourcesCommandHandler(IGoalContributionService goalContributionService)
+    {
+        _goalContributionService = goalContributionService;
+    }
+
+    public async Task Handle(UpdateGoalContributionSourcesCommand request, CancellationToken cancellationToken)
+    {
+        await _goalContributionService.UpdateContributionSourcesAsync(request.UserId, request.GoalId, request.Sources, cancellationToken);
+    }
+}
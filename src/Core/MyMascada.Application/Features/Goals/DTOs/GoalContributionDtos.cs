@@ -0,0 +1,50 @@
+namespace MyMascada.Application.Features.Goals.DTOs;
+
+public class GoalContributionsResponse
+{
+    public int GoalId { get; set; }
+    public decimal CurrentAmount { get; set; }
+    public decimal TargetAmount { get; set; }
+    public string? ContributionTag { get; set; }
+    public int? WalletId { get; set; }
+
+    /// <summary>
+    /// Every contribution to the goal, oldest first; they add up to the current amount
+    /// </summary>
+    public List<GoalContributionDto> Contributions { get; set; } = new();
+}
+
+public class GoalContributionDto
+{
+    /// <summary>
+    /// Set for manual contributions only, which are the ones that can be deleted
+    /// </summary>
+    public int? Id { get; set; }
+
+    /// <summary>
+    /// Manual, Tag, Wallet, Account or Adjustment
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+
+    public DateTime Date { get; set; }
+    public decimal Amount { get; set; }
+    public string? Description { get; set; }
+    public int? TransactionId { get; set; }
+}
+
+public class SaveGoalContributionRequest
+{
+    /// <summary>
+    /// Amount added to the goal; negative for a withdrawal
+    /// </summary>
+    public decimal Amount { get; set; }
+
+    public DateTime ContributionDate { get; set; }
+    public string? Note { get; set; }
+}
+
+public class UpdateGoalContributionSourcesRequest
+{
+    public string? ContributionTag { get; set; }
+    public int? WalletId { get; set; }
+}
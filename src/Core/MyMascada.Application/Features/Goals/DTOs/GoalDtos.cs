@@ -38,6 +38,9 @@ public class GoalDetailDto
     public int? DaysRemaining { get; set; }
     public string? LinkedAccountName { get; set; }
     public int? LinkedAccountId { get; set; }
+    public string? ContributionTag { get; set; }
+    public int? WalletId { get; set; }
+    public string? WalletName { get; set; }
     public int DisplayOrder { get; set; }
     public bool IsPinned { get; set; }
     public DateTime CreatedAt { get; set; }
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.DTOs;
+
+namespace MyMascada.Application.Features.Goals.Queries;
+
+public class GetGoalContributionsQuery : IRequest<GoalContributionsResponse>
+{
+    public int GoalId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetGoalContributionsQueryHandler : IRequestHandler<GetGoalContributionsQuery, GoalContributionsResponse>
+{
+    private readonly IGoalContributionService _goalContributionService;
+
+    public GetGoalContributionsQueryHandler(IGoalContributionService goalContributionService)
+    {
+        _goalContributionService = goalContributionService;
+    }
+
+    public async Task<GoalContributionsResponse> Handle(GetGoalContributionsQuery request, CancellationToken cancellationToken)
+    {
+        return await _goalContributionService.GetContributionsAsync(request.UserId, request.GoalId, cancellationToken);
+    }
+}
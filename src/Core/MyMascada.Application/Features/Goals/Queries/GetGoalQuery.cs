@@ -15,12 +15,12 @@ public class GetGoalQuery : IRequest<GoalDetailDto?>
 public class GetGoalQueryHandler : IRequestHandler<GetGoalQuery, GoalDetailDto?>
 {
     private readonly IGoalRepository _goalRepository;
-    private readonly ITransactionRepository _transactionRepository;
+    private readonly IGoalContributionService _goalContributionService;
 
-    public GetGoalQueryHandler(IGoalRepository goalRepository, ITransactionRepository transactionRepository)
+    public GetGoalQueryHandler(IGoalRepository goalRepository, IGoalContributionService goalContributionService)
     {
         _goalRepository = goalRepository;
-        _transactionRepository = transactionRepository;
+        _goalContributionService = goalContributionService;
     }
 
     public async Task<GoalDetailDto?> Handle(GetGoalQuery request, CancellationToken cancellationToken)
@@ -31,18 +31,13 @@ public class GetGoalQueryHandler : IRequestHandler<GetGoalQuery, GoalDetailDto?>
             return null;
         }
 
-        // Look up live account balance for goals with linked accounts
-        decimal? linkedAccountBalance = null;
-        if (goal.LinkedAccountId.HasValue)
-        {
-            var accountBalances = await _transactionRepository.GetAccountBalancesAsync(request.UserId);
-            linkedAccountBalance = accountBalances.GetValueOrDefault(goal.LinkedAccountId.Value);
-        }
+        // Linked goals follow the account balance, the others add up their contributions
+        var currentAmounts = await _goalContributionService.GetCurrentAmountsAsync(request.UserId, new[] { goal }, cancellationToken);
 
-        return MapToDetailDto(goal, linkedAccountBalance);
+        return MapToDetailDto(goal, currentAmounts[goal.Id]);
     }
 
-    private static GoalDetailDto MapToDetailDto(Goal goal, decimal? linkedAccountBalance)
+    private static GoalDetailDto MapToDetailDto(Goal goal, decimal currentAmount)
     {
         var now = DateTimeProvider.UtcNow;
         int? daysRemaining = null;
@@ -51,7 +46,6 @@ public class GetGoalQueryHandler : IRequestHandler<GetGoalQuery, GoalDetailDto?>
             daysRemaining = (int)(goal.Deadline.Value.Date - now.Date).TotalDays;
         }
 
-        var currentAmount = linkedAccountBalance ?? goal.CurrentAmount;
         var progressPercentage = goal.TargetAmount > 0
             ? Math.Round((currentAmount / goal.TargetAmount) * 100, 2)
             : 0;
@@ -72,6 +66,9 @@ public class GetGoalQueryHandler : IRequestHandler<GetGoalQuery, GoalDetailDto?>
             DaysRemaining = daysRemaining,
             LinkedAccountName = goal.Account?.Name,
             LinkedAccountId = goal.LinkedAccountId,
+            ContributionTag = goal.ContributionTag,
+            WalletId = goal.WalletId,
+            WalletName = goal.Wallet?.Name,
             DisplayOrder = goal.DisplayOrder,
             IsPinned = goal.IsPinned,
             CreatedAt = goal.CreatedAt,
@@ -16,12 +16,12 @@ public class GetGoalsQuery : IRequest<IEnumerable<GoalSummaryDto>>
 public class GetGoalsQueryHandler : IRequestHandler<GetGoalsQuery, IEnumerable<GoalSummaryDto>>
 {
     private readonly IGoalRepository _goalRepository;
-    private readonly ITransactionRepository _transactionRepository;
+    private readonly IGoalContributionService _goalContributionService;
 
-    public GetGoalsQueryHandler(IGoalRepository goalRepository, ITransactionRepository transactionRepository)
+    public GetGoalsQueryHandler(IGoalRepository goalRepository, IGoalContributionService goalContributionService)
     {
         _goalRepository = goalRepository;
-        _transactionRepository = transactionRepository;
+        _goalContributionService = goalContributionService;
     }
 
     public async Task<IEnumerable<GoalSummaryDto>> Handle(GetGoalsQuery request, CancellationToken cancellationToken)
@@ -32,20 +32,10 @@ public class GetGoalsQueryHandler : IRequestHandler<GetGoalsQuery, IEnumerable<G
 
         var goalsList = goals.ToList();
 
-        // Batch-load account balances for goals with linked accounts
-        var linkedAccountIds = goalsList
-            .Where(g => g.LinkedAccountId.HasValue)
-            .Select(g => g.LinkedAccountId!.Value)
-            .Distinct()
-            .ToList();
+        // Batch-load account balances and contributions
+        var currentAmounts = await _goalContributionService.GetCurrentAmountsAsync(request.UserId, goalsList, cancellationToken);
 
-        Dictionary<int, decimal> accountBalances = new();
-        if (linkedAccountIds.Count > 0)
-        {
-            accountBalances = await _transactionRepository.GetAccountBalancesAsync(request.UserId);
-        }
-
-        var dtos = goalsList.Select(g => MapToSummaryDto(g, accountBalances)).ToList();
+        var dtos = goalsList.Select(g => MapToSummaryDto(g, currentAmounts[g.Id])).ToList();
 
         // Server-side sort: inactive last, pinned first, journeyPriority, state urgency, daysRemaining
         var sorted = dtos
@@ -65,7 +55,7 @@ public class GetGoalsQueryHandler : IRequestHandler<GetGoalsQuery, IEnumerable<G
         return sorted;
     }
 
-    private static GoalSummaryDto MapToSummaryDto(Goal goal, Dictionary<int, decimal> accountBalances)
+    private static GoalSummaryDto MapToSummaryDto(Goal goal, decimal currentAmount)
     {
         var now = DateTimeProvider.UtcNow;
         int? daysRemaining = null;
@@ -74,10 +64,6 @@ public class GetGoalsQueryHandler : IRequestHandler<GetGoalsQuery, IEnumerable<G
             daysRemaining = (int)(goal.Deadline.Value.Date - now.Date).TotalDays;
         }
 
-        var currentAmount = goal.LinkedAccountId.HasValue
-            ? accountBalances.GetValueOrDefault(goal.LinkedAccountId.Value, 0m)
-            : goal.CurrentAmount;
-
         var progressPercentage = goal.TargetAmount > 0
             ? Math.Round((currentAmount / goal.TargetAmount) * 100, 2)
             : 0;
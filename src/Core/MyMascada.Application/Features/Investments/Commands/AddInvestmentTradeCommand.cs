@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Features.Investments.Commands;
+
+public class AddInvestmentTradeCommand : IRequest<InvestmentTradeDto>
+{
+    public SaveInvestmentTradeRequest Trade { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class AddInvestmentTradeCommandHandler : IRequestHandler<AddInvestmentTradeCommand, InvestmentTradeDto>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public AddInvestmentTradeCommandHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task<InvestmentTradeDto> Handle(AddInvestmentTradeCommand request, CancellationToken cancellationToken)
+    {
+        return await _investmentService.AddTradeAsync(request.UserId, request.Trade, cancellationToken);
+    }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.Investments.Commands;
+
+public class DeleteInvestmentTradeCommand : IRequest
+{
+    public int TradeId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteInvestmentTradeCommandHandler : IRequestHandler<DeleteInvestmentTradeCommand>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public DeleteInvestmentTradeCommandHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task Handle(DeleteInvestmentTradeCommand request, CancellationToken cancellationToken)
+    {
+        await _investmentService.DeleteTradeAsync(request.UserId, request.TradeId, cancellationToken);
+    }
+}
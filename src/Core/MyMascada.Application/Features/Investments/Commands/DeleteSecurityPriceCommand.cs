@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.Investments.Commands;
+
+public class DeleteSecurityPriceCommand : IRequest
+{
+    public int PriceId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteSecurityPriceCommandHandler : IRequestHandler<DeleteSecurityPriceCommand>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public DeleteSecurityPriceCommandHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task Handle(DeleteSecurityPriceCommand request, CancellationToken cancellationToken)
+    {
+        await _investmentService.DeletePriceAsync(request.UserId, request.PriceId, cancellationToken);
+    }
+}
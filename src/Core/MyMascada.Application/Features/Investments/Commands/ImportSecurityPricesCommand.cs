@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Features.Investments.Commands;
+
+public class ImportSecurityPricesCommand : IRequest<SecurityPriceImportResult>
+{
+    public Stream Content { get; set; } = Stream.Null;
+    public Guid UserId { get; set; }
+}
+
+public class ImportSecurityPricesCommandHandler : IRequestHandler<ImportSecurityPricesCommand, SecurityPriceImportResult>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public ImportSecurityPricesCommandHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task<SecurityPriceImportResult> Handle(ImportSecurityPricesCommand request, CancellationToken cancellationToken)
+    {
+        return await _investmentService.ImportPricesAsync(request.UserId, request.Content, cancellationToken);
+    }
+}
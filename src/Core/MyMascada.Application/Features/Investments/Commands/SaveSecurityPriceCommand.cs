@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Features.Investments.Commands;
+
+public class SaveSecurityPriceCommand : IRequest<SecurityPriceDto>
+{
+    public SaveSecurityPriceRequest Price { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SaveSecurityPriceCommandHandler : IRequestHandler<SaveSecurityPriceCommand, SecurityPriceDto>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public SaveSecurityPriceCommandHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task<SecurityPriceDto> Handle(SaveSecurityPriceCommand request, CancellationToken cancellationToken)
+    {
+        return await _investmentService.SavePriceAsync(request.UserId, request.Price, cancellationToken);
+    }
+}
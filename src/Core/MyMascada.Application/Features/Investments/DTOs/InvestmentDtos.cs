@@ -0,0 +1,150 @@
+namespace MyMascada.Application.Features.Investments.DTOs;
+
+/// <summary>
+/// An investment account's holdings valued at today's prices, in the account's currency
+/// </summary>
+public class PortfolioResponse
+{
+    public int AccountId { get; set; }
+    public string Currency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account balance from its transactions, including the cash side of trades
+    /// </summary>
+    public decimal CashBalance { get; set; }
+
+    public decimal MarketValue { get; set; }
+
+    /// <summary>
+    /// Cash plus market value; what the account counts for in net worth and goals
+    /// </summary>
+    public decimal TotalValue { get; set; }
+
+    public decimal CostBasis { get; set; }
+    public decimal UnrealisedGain { get; set; }
+    public decimal? UnrealisedGainPercent { get; set; }
+    public decimal RealisedGain { get; set; }
+    public decimal Dividends { get; set; }
+
+    /// <summary>
+    /// Time-weighted return since the first trade, in percent
+    /// </summary>
+    public decimal? TimeWeightedReturn { get; set; }
+
+    public List<HoldingDto> Holdings { get; set; } = new();
+
+    /// <summary>
+    /// All trades, newest first
+    /// </summary>
+    public List<InvestmentTradeDto> Trades { get; set; } = new();
+}
+
+public class HoldingDto
+{
+    public int Id { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+    public string? Name { get; set; }
+    public decimal Units { get; set; }
+    public decimal AverageCost { get; set; }
+    public decimal CostBasis { get; set; }
+
+    /// <summary>
+    /// Latest known price; null when the symbol has never been priced
+    /// </summary>
+    public decimal? Price { get; set; }
+
+    public DateTime? PriceDate { get; set; }
+    public decimal MarketValue { get; set; }
+    public decimal UnrealisedGain { get; set; }
+    public decimal RealisedGain { get; set; }
+    public decimal Dividends { get; set; }
+
+    /// <summary>
+    /// Share of the portfolio's market value, 0–100
+    /// </summary>
+    public decimal AllocationPercent { get; set; }
+}
+
+public class InvestmentTradeDto
+{
+    public int Id { get; set; }
+    public int HoldingId { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+
+    /// <summary>
+    /// "Buy", "Sell" or "Dividend"
+    /// </summary>
+    public string Type { get; set; } = string.Empty;
+
+    public DateTime TradeDate { get; set; }
+    public decimal Units { get; set; }
+    public decimal Price { get; set; }
+    public decimal Fees { get; set; }
+
+    /// <summary>
+    /// Cash moved, signed as on the account
+    /// </summary>
+    public decimal Amount { get; set; }
+
+    public int? TransactionId { get; set; }
+    public string? Notes { get; set; }
+}
+
+public class SaveInvestmentTradeRequest
+{
+    public int AccountId { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Name for a new holding; ignored when the account already holds the symbol
+    /// </summary>
+    public string? Name { get; set; }
+
+    /// <summary>
+    /// "Buy", "Sell" or "Dividend"
+    /// </summary>
+    public string Type { get; set; } = string.Empty;
+
+    public DateTime TradeDate { get; set; }
+    public decimal Units { get; set; }
+    public decimal Price { get; set; }
+    public decimal Fees { get; set; }
+
+    /// <summary>
+    /// Dividend paid; buys and sells derive their amount from units, price and fees
+    /// </summary>
+    public decimal? DividendAmount { get; set; }
+
+    public string? Notes { get; set; }
+}
+
+public class SecurityPriceDto
+{
+    public int Id { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+    public DateTime PriceDate { get; set; }
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// "Manual", "Imported" or "Trade"
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+}
+
+public class SaveSecurityPriceRequest
+{
+    public string Symbol { get; set; } = string.Empty;
+    public decimal Price { get; set; }
+    public DateTime PriceDate { get; set; }
+}
+
+public class SecurityPriceImportResult
+{
+    public int Imported { get; set; }
+    public int Updated { get; set; }
+
+    /// <summary>
+    /// Lines or entries that could not be read
+    /// </summary>
+    public List<string> Errors { get; set; } = new();
+}
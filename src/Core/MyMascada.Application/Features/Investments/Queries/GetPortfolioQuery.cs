@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Features.Investments.Queries;
+
+public class GetPortfolioQuery : IRequest<PortfolioResponse>
+{
+    public int AccountId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetPortfolioQueryHandler : IRequestHandler<GetPortfolioQuery, PortfolioResponse>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public GetPortfolioQueryHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task<PortfolioResponse> Handle(GetPortfolioQuery request, CancellationToken cancellationToken)
+    {
+        return await _investmentService.GetPortfolioAsync(request.UserId, request.AccountId, cancellationToken);
+    }
+}
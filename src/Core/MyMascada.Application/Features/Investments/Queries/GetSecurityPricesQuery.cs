@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+
+namespace MyMascada.Application.Features.Investments.Queries;
+
+public class GetSecurityPricesQuery : IRequest<List<SecurityPriceDto>>
+{
+    public string? Symbol { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class GetSecurityPricesQueryHandler : IRequestHandler<GetSecurityPricesQuery, List<SecurityPriceDto>>
+{
+    private readonly IInvestmentService _investmentService;
+
+    public GetSecurityPricesQueryHandler(IInvestmentService investmentService)
+    {
+        _investmentService = investmentService;
+    }
+
+    public async Task<List<SecurityPriceDto>> Handle(GetSecurityPricesQuery request, CancellationToken cancellationToken)
+    {
+        return await _investmentService.GetPricesAsync(request.UserId, request.Symbol, cancellationToken);
+    }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.NetWorth.Commands;
+
+public class DeleteAccountValuationCommand : IRequest
+{
+    public int ValuationId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteAccountValuationCommandHandler : IRequestHandler<DeleteAccountValuationCommand>
+{
+    private readonly INetWorthService _netWorthService;
+
+    public DeleteAccountValuationCommandHandler(INetWorthService netWorthService)
+    {
+        _netWorthService = netWorthService;
+    }
+
+    public async Task Handle(DeleteAccountValuationCommand request, CancellationToken cancellationToken)
+    {
+        await _netWorthService.DeleteValuationAsync(request.UserId, request.ValuationId, cancellationToken);
+    }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.DTOs;
+
+namespace MyMascada.Application.Features.NetWorth.Commands;
+
+public class SaveAccountValuationCommand : IRequest<AccountValuationDto>
+{
+    public SaveAccountValuationRequest Valuation { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class SaveAccountValuationCommandHandler : IRequestHandler<SaveAccountValuationCommand, AccountValuationDto>
+{
+    private readonly INetWorthService _netWorthService;
+
+    public SaveAccountValuationCommandHandler(INetWorthService netWorthService)
+    {
+        _netWorthService = netWorthService;
+    }
+
+    public async Task<AccountValuationDto> Handle(SaveAccountValuationCommand request, CancellationToken cancellationToken)
+    {
+        return await _netWorthService.SaveValuationAsync(request.UserId, request.Valuation, cancellationToken);
+    }
+}
@@ -0,0 +1,95 @@
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Application.Features.NetWorth.DTOs;
+
+/// <summary>
+/// Month-end net worth snapshots, oldest first, with each account's change over the range.
+/// Amounts are converted into the user's base currency at each month end's rate.
+/// </summary>
+public class NetWorthHistoryResponse
+{
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account currencies without an exchange rate, whose balances were added unconverted
+    /// </summary>
+    public List<string> UnconvertedCurrencies { get; set; } = new();
+
+    /// <summary>
+    /// One per month; the last is the current month as of today
+    /// </summary>
+    public List<NetWorthSnapshotDto> Snapshots { get; set; } = new();
+
+    public List<NetWorthAccountDto> Accounts { get; set; } = new();
+}
+
+public class NetWorthSnapshotDto
+{
+    public int Year { get; set; }
+    public int Month { get; set; }
+
+    /// <summary>
+    /// Month end, or today for the current month
+    /// </summary>
+    public DateTime Date { get; set; }
+
+    public decimal TotalAssets { get; set; }
+
+    /// <summary>
+    /// Debt owed, as a positive amount
+    /// </summary>
+    public decimal TotalLiabilities { get; set; }
+
+    public decimal NetWorth { get; set; }
+
+    /// <summary>
+    /// Signed balance per account type (liabilities negative)
+    /// </summary>
+    public List<AccountTypeBalanceDto> ByAccountType { get; set; } = new();
+}
+
+public class AccountTypeBalanceDto
+{
+    public AccountType AccountType { get; set; }
+    public decimal Balance { get; set; }
+}
+
+/// <summary>
+/// An account's balance at the first and last snapshot
+/// </summary>
+public class NetWorthAccountDto
+{
+    public int AccountId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public AccountType Type { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    public bool IsLiability { get; set; }
+    public bool HasValuations { get; set; }
+    public decimal StartBalance { get; set; }
+    public decimal EndBalance { get; set; }
+    public decimal Change { get; set; }
+}
+
+public class AccountValuationDto
+{
+    public int Id { get; set; }
+    public int AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Value in the account's currency
+    /// </summary>
+    public decimal Value { get; set; }
+
+    public DateTime ValuationDate { get; set; }
+    public string? Notes { get; set; }
+}
+
+public class SaveAccountValuationRequest
+{
+    public int AccountId { get; set; }
+    public decimal Value { get; set; }
+    public DateTime ValuationDate { get; set; }
+    public string? Notes { get; set; }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.DTOs;
+
+namespace MyMascada.Application.Features.NetWorth.Queries;
+
+public class GetAccountValuationsQuery : IRequest<List<AccountValuationDto>>
+{
+    public Guid UserId { get; set; }
+    public int? AccountId { get; set; }
+}
+
+public class GetAccountValuationsQueryHandler : IRequestHandler<GetAccountValuationsQuery, List<AccountValuationDto>>
+{
+    private readonly INetWorthService _netWorthService;
+
+    public GetAccountValuationsQueryHandler(INetWorthService netWorthService)
+    {
+        _netWorthService = netWorthService;
+    }
+
+    public async Task<List<AccountValuationDto>> Handle(GetAccountValuationsQuery request, CancellationToken cancellationToken)
+    {
+        return await _netWorthService.GetValuationsAsync(request.UserId, request.AccountId, cancellationToken);
+    }
+}
@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.DTOs;
+
+namespace MyMascada.Application.Features.NetWorth.Queries;
+
+public class GetNetWorthHistoryQuery : IRequest<NetWorthHistoryResponse>
+{
+    public Guid UserId { get; set; }
+    public int Months { get; set; } = 12;
+}
+
+public class GetNetWorthHistoryQueryHandler : IRequestHandler<GetNetWorthHistoryQuery, NetWorthHistoryResponse>
+{
+    private readonly INetWorthService _netWorthService;
+
+    public GetNetWorthHistoryQueryHandler(INetWorthService netWorthService)
+    {
+        _netWorthService = netWorthService;
+    }
+
+    public async Task<NetWorthHistoryResponse> Handle(GetNetWorthHistoryQuery request, CancellationToken cancellationToken)
+    {
+        return await _netWorthService.GetHistoryAsync(request.UserId, request.Months, cancellationToken);
+    }
+}
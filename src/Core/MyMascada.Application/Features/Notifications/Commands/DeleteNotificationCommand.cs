@@ -1,5 +1,6 @@
 using MediatR;
 using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
 
 namespace MyMascada.Application.Features.Notifications.Commands;
 
@@ -12,14 +13,20 @@ public class DeleteNotificationCommand : IRequest
 public class DeleteNotificationCommandHandler : IRequestHandler<DeleteNotificationCommand>
 {
     private readonly INotificationRepository _repository;
+    private readonly IRealtimeEventPublisher _realtimeEvents;
 
-    public DeleteNotificationCommandHandler(INotificationRepository repository)
+    public DeleteNotificationCommandHandler(INotificationRepository repository, IRealtimeEventPublisher realtimeEvents)
     {
         _repository = repository;
+        _realtimeEvents = realtimeEvents;
     }
 
     public async Task Handle(DeleteNotificationCommand request, CancellationToken cancellationToken)
     {
         await _repository.DeleteAsync(request.NotificationId, request.UserId, cancellationToken);
+
+        // Keeps the unread badge in step across the user's open tabs
+        var unreadCount = await _repository.GetUnreadCountAsync(request.UserId, cancellationToken);
+        _realtimeEvents.Publish(request.UserId, RealtimeEventTypes.NotificationUnreadCount, new { Count = unreadCount });
     }
 }
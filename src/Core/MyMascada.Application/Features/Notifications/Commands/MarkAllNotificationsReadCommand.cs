@@ -1,5 +1,6 @@
 using MediatR;
 using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
 
 namespace MyMascada.Application.Features.Notifications.Commands;
 
@@ -11,14 +12,20 @@ public class MarkAllNotificationsReadCommand : IRequest
 public class MarkAllNotificationsReadCommandHandler : IRequestHandler<MarkAllNotificationsReadCommand>
 {
     private readonly INotificationRepository _repository;
+    private readonly IRealtimeEventPublisher _realtimeEvents;
 
-    public MarkAllNotificationsReadCommandHandler(INotificationRepository repository)
+    public MarkAllNotificationsReadCommandHandler(INotificationRepository repository, IRealtimeEventPublisher realtimeEvents)
     {
         _repository = repository;
+        _realtimeEvents = realtimeEvents;
     }
 
     public async Task Handle(MarkAllNotificationsReadCommand request, CancellationToken cancellationToken)
     {
         await _repository.MarkAllAsReadAsync(request.UserId, cancellationToken);
+
+        // Keeps the unread badge in step across the user's open tabs
+        var unreadCount = await _repository.GetUnreadCountAsync(request.UserId, cancellationToken);
+        _realtimeEvents.Publish(request.UserId, RealtimeEventTypes.NotificationUnreadCount, new { Count = unreadCount });
     }
 }
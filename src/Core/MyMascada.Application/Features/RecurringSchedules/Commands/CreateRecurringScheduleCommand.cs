@@ -0,0 +1,26 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+
+namespace MyMascada.Application.Features.RecurringSchedules.Commands;
+
+public class CreateRecurringScheduleCommand : IRequest<RecurringScheduleDto>
+{
+    public SaveRecurringScheduleRequest Schedule { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class CreateRecurringScheduleCommandHandler : IRequestHandler<CreateRecurringScheduleCommand, RecurringScheduleDto>
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public CreateRecurringScheduleCommandHandler(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    public async Task<RecurringScheduleDto> Handle(CreateRecurringScheduleCommand request, CancellationToken cancellationToken)
+    {
+        return await _scheduleService.CreateScheduleAsync(request.UserId, request.Schedule, cancellationToken);
+    }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.RecurringSchedules.Commands;
+
+public class DeleteRecurringScheduleCommand : IRequest
+{
+    public int ScheduleId { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class DeleteRecurringScheduleCommandHandler : IRequestHandler<DeleteRecurringScheduleCommand>
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public DeleteRecurringScheduleCommandHandler(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    public async Task Handle(DeleteRecurringScheduleCommand request, CancellationToken cancellationToken)
+    {
+        await _scheduleService.DeleteScheduleAsync(request.UserId, request.ScheduleId, cancellationToken);
+    }
+}
@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+
+namespace MyMascada.Application.Features.RecurringSchedules.Commands;
+
+public class UpdateRecurringScheduleCommand : IRequest<RecurringScheduleDto>
+{
+    public int ScheduleId { get; set; }
+    public SaveRecurringScheduleRequest Schedule { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class UpdateRecurringScheduleCommandHandler : IRequestHandler<UpdateRecurringScheduleCommand, RecurringScheduleDto>
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public UpdateRecurringScheduleCommandHandler(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    public async Task<RecurringScheduleDto> Handle(UpdateRecurringScheduleCommand request, CancellationToken cancellationToken)
+    {
+        return await _scheduleService.UpdateScheduleAsync(request.UserId, request.ScheduleId, request.Schedule, cancellationToken);
+    }
+}
@@ -0,0 +1,93 @@
+namespace MyMascada.Application.Features.RecurringSchedules.DTOs;
+
+/// <summary>
+/// A user-defined recurring schedule with its latest outcome
+/// </summary>
+public class RecurringScheduleDto
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public int AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public int? CategoryId { get; set; }
+    public string? CategoryName { get; set; }
+    public string? CategoryColor { get; set; }
+    public decimal Amount { get; set; }
+    public string Frequency { get; set; } = string.Empty;
+    public DateTime StartDate { get; set; }
+    public DateTime? EndDate { get; set; }
+    public DateTime? NextDueDate { get; set; }
+    public string? MatchText { get; set; }
+    public decimal AmountTolerancePercent { get; set; }
+    public bool IsActive { get; set; }
+    public string? Notes { get; set; }
+    public DateTime? LastMatchedAt { get; set; }
+    public int MissedCount { get; set; }
+
+    /// <summary>
+    /// Outcome of the most recent due date: "paid", "late" or "missed"; null before the first one
+    /// </summary>
+    public string? LastStatus { get; set; }
+
+    /// <summary>
+    /// Amount of the most recent matched transaction when it was outside the tolerance
+    /// </summary>
+    public decimal? LastChangedAmount { get; set; }
+}
+
+public class SaveRecurringScheduleRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public int AccountId { get; set; }
+    public int? CategoryId { get; set; }
+    public decimal Amount { get; set; }
+    public string Frequency { get; set; } = "Monthly";
+    public DateTime StartDate { get; set; }
+    public DateTime? EndDate { get; set; }
+    public string? MatchText { get; set; }
+    public decimal? AmountTolerancePercent { get; set; }
+    public bool IsActive { get; set; } = true;
+    public string? Notes { get; set; }
+}
+
+/// <summary>
+/// Expected and recorded payments between two dates, from user schedules and inferred bills
+/// </summary>
+public class RecurringCalendarDto
+{
+    public DateTime StartDate { get; set; }
+    public DateTime EndDate { get; set; }
+    public List<RecurringCalendarEntryDto> Entries { get; set; } = new();
+    public decimal TotalExpectedExpenses { get; set; }
+    public decimal TotalExpectedIncome { get; set; }
+}
+
+/// <summary>
+/// One due date on the calendar. Amounts are signed like transactions.
+/// </summary>
+public class RecurringCalendarEntryDto
+{
+    public DateTime Date { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+
+    /// <summary>
+    /// "schedule" for user-defined schedules, "inferred" for bills detected from history
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+
+    public int? ScheduleId { get; set; }
+    public int? PatternId { get; set; }
+
+    /// <summary>
+    /// "expected", "paid", "late" or "missed"
+    /// </summary>
+    public string Status { get; set; } = string.Empty;
+
+    public int? TransactionId { get; set; }
+    public decimal? ActualAmount { get; set; }
+    public bool AmountChanged { get; set; }
+    public string? AccountName { get; set; }
+    public string? CategoryName { get; set; }
+    public string? CategoryColor { get; set; }
+}
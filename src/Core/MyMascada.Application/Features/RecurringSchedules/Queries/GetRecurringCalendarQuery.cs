@@ -0,0 +1,30 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+
+namespace MyMascada.Application.Features.RecurringSchedules.Queries;
+
+/// <summary>
+/// Bill calendar between two dates: user schedules alongside inferred bills
+/// </summary>
+public class GetRecurringCalendarQuery : IRequest<RecurringCalendarDto>
+{
+    public Guid UserId { get; set; }
+    public DateTime StartDate { get; set; }
+    public DateTime EndDate { get; set; }
+}
+
+public class GetRecurringCalendarQueryHandler : IRequestHandler<GetRecurringCalendarQuery, RecurringCalendarDto>
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public GetRecurringCalendarQueryHandler(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    public async Task<RecurringCalendarDto> Handle(GetRecurringCalendarQuery request, CancellationToken cancellationToken)
+    {
+        return await _scheduleService.GetCalendarAsync(request.UserId, request.StartDate, request.EndDate, cancellationToken);
+    }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+
+namespace MyMascada.Application.Features.RecurringSchedules.Queries;
+
+public class GetRecurringSchedulesQuery : IRequest<IReadOnlyList<RecurringScheduleDto>>
+{
+    public Guid UserId { get; set; }
+}
+
+public class GetRecurringSchedulesQueryHandler : IRequestHandler<GetRecurringSchedulesQuery, IReadOnlyList<RecurringScheduleDto>>
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public GetRecurringSchedulesQueryHandler(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    public async Task<IReadOnlyList<RecurringScheduleDto>> Handle(GetRecurringSchedulesQuery request, CancellationToken cancellationToken)
+    {
+        return await _scheduleService.GetSchedulesAsync(request.UserId, cancellationToken);
+    }
+}
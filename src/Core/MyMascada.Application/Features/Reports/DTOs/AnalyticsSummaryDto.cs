@@ -16,6 +16,16 @@ public class AnalyticsSummaryDto
     public MonthHighlightDto? WorstMonth { get; set; }
     public List<MonthlyTrendDto> MonthlyTrends { get; set; } = new();
     public List<YearlyComparisonDto> YearlyComparisons { get; set; } = new();
+
+    /// <summary>
+    /// Currency all amounts are converted into (the user's base currency)
+    /// </summary>
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account currencies without an exchange rate, whose amounts were added unconverted
+    /// </summary>
+    public List<string> UnconvertedCurrencies { get; set; } = new();
 }
 
 /// <summary>
@@ -24,6 +24,16 @@ public class DashboardSummaryDto
     public bool IsUsingFallbackMonth { get; set; }
     public int DisplayMonth { get; set; }
     public int DisplayYear { get; set; }
+
+    /// <summary>
+    /// Currency all totals are converted into (the user's base currency)
+    /// </summary>
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account currencies without an exchange rate, whose amounts were added unconverted
+    /// </summary>
+    public List<string> UnconvertedCurrencies { get; set; } = new();
 }
 
 public class RecentTransactionDto
@@ -34,6 +44,11 @@ public class RecentTransactionDto
     public string Description { get; set; } = string.Empty;
     public string? UserDescription { get; set; }
     public string AccountName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Currency of the account; the amount is not converted
+    /// </summary>
+    public string? Currency { get; set; }
     public string? CategoryName { get; set; }
     public string? CategoryColor { get; set; }
 }
@@ -15,10 +15,14 @@ public class GetAnalyticsSummaryQuery : IRequest<AnalyticsSummaryDto>
 public class GetAnalyticsSummaryQueryHandler : IRequestHandler<GetAnalyticsSummaryQuery, AnalyticsSummaryDto>
 {
     private readonly ITransactionRepository _transactionRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
-    public GetAnalyticsSummaryQueryHandler(ITransactionRepository transactionRepository)
+    public GetAnalyticsSummaryQueryHandler(
+        ITransactionRepository transactionRepository,
+        IExchangeRateService exchangeRateService)
     {
         _transactionRepository = transactionRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<AnalyticsSummaryDto> Handle(GetAnalyticsSummaryQuery request, CancellationToken cancellationToken)
@@ -34,13 +38,15 @@ public class GetAnalyticsSummaryQueryHandler : IRequestHandler<GetAnalyticsSumma
             .Where(t => !t.TransferId.HasValue)
             .ToList();
 
+        var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+
         // Group by year/month
         var monthlyGroups = transactionList
             .GroupBy(t => new { t.TransactionDate.Year, t.TransactionDate.Month })
             .Select(g =>
             {
-                var income = g.Where(t => t.Amount > 0).Sum(t => t.Amount);
-                var expenses = g.Where(t => t.Amount < 0).Sum(t => Math.Abs(t.Amount));
+                var income = g.Where(t => t.Amount > 0).Sum(t => converter.ToBase(t));
+                var expenses = g.Where(t => t.Amount < 0).Sum(t => Math.Abs(converter.ToBase(t)));
                 var net = income - expenses;
                 var savingsRate = net > 0 && income > 0 ? (net / income) * 100 : 0;
 
@@ -138,7 +144,9 @@ public class GetAnalyticsSummaryQueryHandler : IRequestHandler<GetAnalyticsSumma
             BestMonth = bestMonth,
             WorstMonth = worstMonth,
             MonthlyTrends = monthlyTrends,
-            YearlyComparisons = yearlyComparisons
+            YearlyComparisons = yearlyComparisons,
+            BaseCurrency = converter.BaseCurrency,
+            UnconvertedCurrencies = converter.MissingCurrencies.OrderBy(c => c).ToList()
         };
     }
 
@@ -15,10 +15,14 @@ public class GetCashflowHistoryQuery : IRequest<CashflowHistoryDto>
 public class GetCashflowHistoryQueryHandler : IRequestHandler<GetCashflowHistoryQuery, CashflowHistoryDto>
 {
     private readonly ITransactionRepository _transactionRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
-    public GetCashflowHistoryQueryHandler(ITransactionRepository transactionRepository)
+    public GetCashflowHistoryQueryHandler(
+        ITransactionRepository transactionRepository,
+        IExchangeRateService exchangeRateService)
     {
         _transactionRepository = transactionRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<CashflowHistoryDto> Handle(GetCashflowHistoryQuery request, CancellationToken cancellationToken)
@@ -36,15 +40,17 @@ public class GetCashflowHistoryQueryHandler : IRequestHandler<GetCashflowHistory
         var transactions = (await _transactionRepository.GetByDateRangeAsync(
             request.UserId, rangeStartDate, rangeEndDate)).ToList();
 
-        // Group by year, month and calculate income/expenses (excluding transfers)
+        var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+
+        // Group by year, month and calculate income/expenses in the base currency (excluding transfers)
         var grouped = transactions
             .Where(t => !t.TransferId.HasValue)
             .GroupBy(t => new { t.TransactionDate.Year, t.TransactionDate.Month })
             .ToDictionary(
                 g => (g.Key.Year, g.Key.Month),
                 g => (
-                    Income: g.Where(t => t.Amount > 0).Sum(t => t.Amount),
-                    Expenses: Math.Abs(g.Where(t => t.Amount < 0).Sum(t => t.Amount))
+                    Income: g.Where(t => t.Amount > 0).Sum(t => converter.ToBase(t)),
+                    Expenses: Math.Abs(g.Where(t => t.Amount < 0).Sum(t => converter.ToBase(t)))
                 ));
 
         // Build result for each month in the range (including months with no data)
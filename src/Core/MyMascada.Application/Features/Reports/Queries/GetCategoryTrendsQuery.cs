@@ -16,10 +16,14 @@ public class GetCategoryTrendsQuery : IRequest<CategoryTrendsResponseDto>
 public class GetCategoryTrendsQueryHandler : IRequestHandler<GetCategoryTrendsQuery, CategoryTrendsResponseDto>
 {
     private readonly ITransactionRepository _transactionRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
-    public GetCategoryTrendsQueryHandler(ITransactionRepository transactionRepository)
+    public GetCategoryTrendsQueryHandler(
+        ITransactionRepository transactionRepository,
+        IExchangeRateService exchangeRateService)
     {
         _transactionRepository = transactionRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<CategoryTrendsResponseDto> Handle(GetCategoryTrendsQuery request, CancellationToken cancellationToken)
@@ -40,29 +44,40 @@ public class GetCategoryTrendsQueryHandler : IRequestHandler<GetCategoryTrendsQu
             endDate);
 
         var transactionList = transactions.ToList();
-
-        // Filter to expenses only (negative amounts), non-transfers, with categories
-        var expenseTransactions = transactionList
-            .Where(t => t.Amount < 0 && !t.TransferId.HasValue && t.Category != null)
+        var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+
+        // Filter to expenses only (negative amounts), non-transfers, with categories.
+        // Split transactions contribute one line per split to each line's category.
+        // Amounts are converted into the base currency at the rate of the transaction date.
+        var expenseLines = transactionList
+            .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
+            .SelectMany(t => t.GetCategoryAmounts()
+                .Where(line => line.Category != null)
+                .Select(line => new
+                {
+                    Transaction = t,
+                    Category = line.Category!,
+                    Amount = converter.ToBase(line.Amount, t.Account?.Currency, t.TransactionDate)
+                }))
             .ToList();
 
         // If category IDs specified, filter further
         if (request.CategoryIds != null && request.CategoryIds.Any())
         {
-            expenseTransactions = expenseTransactions
-                .Where(t => request.CategoryIds.Contains(t.Category!.Id))
+            expenseLines = expenseLines
+                .Where(l => request.CategoryIds.Contains(l.Category.Id))
                 .ToList();
         }
 
         // Group by category and month
-        var categoryMonthData = expenseTransactions
-            .GroupBy(t => new
+        var categoryMonthData = expenseLines
+            .GroupBy(l => new
             {
-                CategoryId = t.Category!.Id,
-                CategoryName = t.Category.Name,
-                CategoryColor = t.Category.Color,
-                Year = t.TransactionDate.Year,
-                Month = t.TransactionDate.Month
+                CategoryId = l.Category.Id,
+                CategoryName = l.Category.Name,
+                CategoryColor = l.Category.Color,
+                Year = l.Transaction.TransactionDate.Year,
+                Month = l.Transaction.TransactionDate.Month
             })
             .Select(g => new
             {
@@ -71,8 +86,8 @@ public class GetCategoryTrendsQueryHandler : IRequestHandler<GetCategoryTrendsQu
                 g.Key.CategoryColor,
                 g.Key.Year,
                 g.Key.Month,
-                Amount = Math.Abs(g.Sum(t => t.Amount)),
-                TransactionCount = g.Count()
+                Amount = Math.Abs(g.Sum(l => l.Amount)),
+                TransactionCount = g.Select(l => l.Transaction.Id).Distinct().Count()
             })
             .ToList();
 
@@ -183,9 +198,13 @@ public class GetCategoryTrendsQueryHandler : IRequestHandler<GetCategoryTrendsQu
                 .Where(d => d.Year == period.PeriodStart.Year && d.Month == period.PeriodStart.Month)
                 .Sum(d => d.Amount);
 
-            var monthTransactionCount = categoryMonthData
-                .Where(d => d.Year == period.PeriodStart.Year && d.Month == period.PeriodStart.Month)
-                .Sum(d => d.TransactionCount);
+            // A split transaction spans several categories but is still one transaction
+            var monthTransactionCount = expenseLines
+                .Where(l => l.Transaction.TransactionDate.Year == period.PeriodStart.Year &&
+                            l.Transaction.TransactionDate.Month == period.PeriodStart.Month)
+                .Select(l => l.Transaction.Id)
+                .Distinct()
+                .Count();
 
             return new TrendPeriodSummaryDto
             {
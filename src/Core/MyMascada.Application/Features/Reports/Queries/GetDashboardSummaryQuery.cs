@@ -1,4 +1,5 @@
 using MediatR;
+using MyMascada.Application.Common;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.Reports.DTOs;
 using MyMascada.Domain.Common;
@@ -15,13 +16,16 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
 {
     private readonly IAccountRepository _accountRepository;
     private readonly ITransactionRepository _transactionRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
     public GetDashboardSummaryQueryHandler(
         IAccountRepository accountRepository,
-        ITransactionRepository transactionRepository)
+        ITransactionRepository transactionRepository,
+        IExchangeRateService exchangeRateService)
     {
         _accountRepository = accountRepository;
         _transactionRepository = transactionRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<DashboardSummaryDto> Handle(GetDashboardSummaryQuery request, CancellationToken cancellationToken)
@@ -34,7 +38,11 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
         // Get real-time balances (initial balance + transaction sums)
         var accountBalances = await _transactionRepository.GetAccountBalancesAsync(request.UserId);
 
-        decimal GetBalance(Domain.Entities.Account a) => accountBalances.GetValueOrDefault(a.Id, a.CurrentBalance);
+        // Totals are reported in the user's base currency
+        var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+
+        decimal GetBalance(Domain.Entities.Account a) =>
+            converter.ToBase(accountBalances.GetValueOrDefault(a.Id, a.CurrentBalance), a.Currency, now);
 
         // Calculate total balance, assets, and liabilities in one pass
         var balanceByType = userAccounts
@@ -97,15 +105,15 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
         // Calculate monthly income and expenses for display month (excluding transfers)
         var monthlyIncome = displayMonthTransactions
             .Where(t => t.Amount > 0 && !t.TransferId.HasValue)
-            .Sum(t => t.Amount);
+            .Sum(t => converter.ToBase(t));
 
         var monthlyExpenses = Math.Abs(displayMonthTransactions
             .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
-            .Sum(t => t.Amount));
+            .Sum(t => converter.ToBase(t)));
 
         // 3-month rolling average runway calculation
         var (avgMonthlyIncome, avgMonthlyExpenses) = await CalculateRollingAveragesAsync(
-            request.UserId, now);
+            request.UserId, now, converter);
 
         var netSaved = avgMonthlyIncome - avgMonthlyExpenses;
         var runwayMonths = avgMonthlyExpenses > 0
@@ -130,6 +138,7 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
             Description = t.Description,
             UserDescription = t.UserDescription,
             AccountName = t.Account?.Name ?? "Unknown Account",
+            Currency = t.Account?.Currency,
             CategoryName = t.Category?.Name,
             CategoryColor = t.Category?.Color
         }).ToList();
@@ -151,12 +160,14 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
             NetWorth = netWorth,
             IsUsingFallbackMonth = isUsingFallbackMonth,
             DisplayMonth = displayMonth,
-            DisplayYear = displayYear
+            DisplayYear = displayYear,
+            BaseCurrency = converter.BaseCurrency,
+            UnconvertedCurrencies = converter.MissingCurrencies.OrderBy(c => c).ToList()
         };
     }
 
     private async Task<(decimal avgIncome, decimal avgExpenses)> CalculateRollingAveragesAsync(
-        Guid userId, DateTime now)
+        Guid userId, DateTime now, CurrencyConverter converter)
     {
         // Load last 3 complete months in a single query
         var threeMonthsAgoDate = now.AddMonths(-3);
@@ -181,10 +192,10 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
 
             var income = transactions
                 .Where(t => t.Amount > 0 && !t.TransferId.HasValue)
-                .Sum(t => t.Amount);
+                .Sum(t => converter.ToBase(t));
             var expenses = Math.Abs(transactions
                 .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
-                .Sum(t => t.Amount));
+                .Sum(t => converter.ToBase(t)));
 
             monthlySummaries.Add((income, expenses));
         }
@@ -204,10 +215,10 @@ public class GetDashboardSummaryQueryHandler : IRequestHandler<GetDashboardSumma
 
             var currentIncome = currentTransactions
                 .Where(t => t.Amount > 0 && !t.TransferId.HasValue)
-                .Sum(t => t.Amount);
+                .Sum(t => converter.ToBase(t));
             var currentExpenses = Math.Abs(currentTransactions
                 .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
-                .Sum(t => t.Amount));
+                .Sum(t => converter.ToBase(t)));
 
             if (currentIncome > 0 || currentExpenses > 0)
             {
@@ -45,17 +45,21 @@ public class GetMonthlySummaryQueryHandler : IRequestHandler<GetMonthlySummaryQu
 
         var netAmount = totalIncome - totalExpenses;
 
-        // Get top categories by spending (expenses only, excluding transfers)
+        // Get top categories by spending (expenses only, excluding transfers);
+        // split transactions count each line under its own category
         var topCategories = transactionList
-            .Where(t => t.Amount < 0 && t.Category != null && !t.TransferId.HasValue)
-            .GroupBy(t => new { t.Category!.Id, t.Category.Name, t.Category.Color })
+            .Where(t => t.Amount < 0 && !t.TransferId.HasValue)
+            .SelectMany(t => t.GetCategoryAmounts()
+                .Where(line => line.Category != null)
+                .Select(line => new { TransactionId = t.Id, Category = line.Category!, line.Amount }))
+            .GroupBy(l => new { l.Category.Id, l.Category.Name, l.Category.Color })
             .Select(g => new CategorySpendingDto
             {
                 CategoryId = g.Key.Id,
                 CategoryName = g.Key.Name,
                 CategoryColor = g.Key.Color,
-                Amount = Math.Abs(g.Sum(t => t.Amount)),
-                TransactionCount = g.Count()
+                Amount = Math.Abs(g.Sum(l => l.Amount)),
+                TransactionCount = g.Select(l => l.TransactionId).Distinct().Count()
             })
             .OrderByDescending(c => c.Amount)
             .Take(5)
@@ -18,6 +18,7 @@ public class CreateRuleCommand : IRequest<CategorizationRuleDto>
     public decimal? MinAmount { get; set; }
     public decimal? MaxAmount { get; set; }
     public string? AccountTypes { get; set; }
+    public string? ApplyTags { get; set; }
     public int CategoryId { get; set; }
     public RuleLogic Logic { get; set; } = RuleLogic.All;
     public List<CreateRuleConditionDto> Conditions { get; set; } = new();
@@ -47,6 +48,7 @@ public class UpdateRuleCommand : IRequest<CategorizationRuleDto>
     public decimal? MinAmount { get; set; }
     public decimal? MaxAmount { get; set; }
     public string? AccountTypes { get; set; }
+    public string? ApplyTags { get; set; }
     public int CategoryId { get; set; }
     public RuleLogic Logic { get; set; }
     public List<UpdateRuleConditionDto> Conditions { get; set; } = new();
@@ -19,6 +19,7 @@ public class CategorizationRuleDto
     public decimal? MinAmount { get; set; }
     public decimal? MaxAmount { get; set; }
     public string? AccountTypes { get; set; }
+    public string? ApplyTags { get; set; }
     public int CategoryId { get; set; }
     public string CategoryName { get; set; } = string.Empty;
     public RuleLogic Logic { get; set; }
@@ -31,6 +31,7 @@ public class CreateRuleCommandHandler : IRequestHandler<CreateRuleCommand, Categ
             MinAmount = request.MinAmount,
             MaxAmount = request.MaxAmount,
             AccountTypes = request.AccountTypes,
+            ApplyTags = Transaction.NormalizeTags(request.ApplyTags),
             CategoryId = request.CategoryId,
             UserId = request.UserId,
             Logic = request.Logic,
@@ -73,6 +74,7 @@ public class CreateRuleCommandHandler : IRequestHandler<CreateRuleCommand, Categ
             MinAmount = createdRule.MinAmount,
             MaxAmount = createdRule.MaxAmount,
             AccountTypes = createdRule.AccountTypes,
+            ApplyTags = createdRule.ApplyTags,
             CategoryId = createdRule.CategoryId,
             CategoryName = createdRule.Category?.Name ?? "",
             Logic = createdRule.Logic,
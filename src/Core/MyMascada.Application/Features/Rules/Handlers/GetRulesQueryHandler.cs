@@ -37,6 +37,7 @@ public class GetRulesQueryHandler : IRequestHandler<GetRulesQuery, IEnumerable<C
             MinAmount = rule.MinAmount,
             MaxAmount = rule.MaxAmount,
             AccountTypes = rule.AccountTypes,
+            ApplyTags = rule.ApplyTags,
             CategoryId = rule.CategoryId,
             CategoryName = rule.Category?.Name ?? "",
             Logic = rule.Logic,
@@ -90,6 +91,7 @@ public class GetRuleByIdQueryHandler : IRequestHandler<GetRuleByIdQuery, Categor
             MinAmount = rule.MinAmount,
             MaxAmount = rule.MaxAmount,
             AccountTypes = rule.AccountTypes,
+            ApplyTags = rule.ApplyTags,
             CategoryId = rule.CategoryId,
             CategoryName = rule.Category?.Name ?? "",
             Logic = rule.Logic,
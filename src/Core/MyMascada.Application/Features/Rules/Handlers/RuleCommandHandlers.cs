@@ -34,6 +34,7 @@ public class UpdateRuleCommandHandler : IRequestHandler<UpdateRuleCommand, Categ
         existingRule.MinAmount = request.MinAmount;
         existingRule.MaxAmount = request.MaxAmount;
         existingRule.AccountTypes = request.AccountTypes;
+        existingRule.ApplyTags = Transaction.NormalizeTags(request.ApplyTags);
         existingRule.CategoryId = request.CategoryId;
         existingRule.Logic = request.Logic;
 
@@ -73,6 +74,7 @@ public class UpdateRuleCommandHandler : IRequestHandler<UpdateRuleCommand, Categ
             MinAmount = updatedRule.MinAmount,
             MaxAmount = updatedRule.MaxAmount,
             AccountTypes = updatedRule.AccountTypes,
+            ApplyTags = updatedRule.ApplyTags,
             CategoryId = updatedRule.CategoryId,
             CategoryName = updatedRule.Category?.Name ?? "",
             Logic = updatedRule.Logic,
@@ -281,6 +283,7 @@ public class CreateRuleFromSuggestionCommandHandler : IRequestHandler<CreateRule
             MinAmount = createdRule.MinAmount,
             MaxAmount = createdRule.MaxAmount,
             AccountTypes = createdRule.AccountTypes,
+            ApplyTags = createdRule.ApplyTags,
             CategoryId = createdRule.CategoryId,
             CategoryName = createdRule.Category?.Name ?? "",
             Logic = createdRule.Logic,
@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Subscriptions.DTOs;
+
+namespace MyMascada.Application.Features.Subscriptions.Commands;
+
+public class UpdateSubscriptionCommand : IRequest<SubscriptionDto>
+{
+    public int PatternId { get; set; }
+    public UpdateSubscriptionRequest Subscription { get; set; } = new();
+    public Guid UserId { get; set; }
+}
+
+public class UpdateSubscriptionCommandHandler : IRequestHandler<UpdateSubscriptionCommand, SubscriptionDto>
+{
+    private readonly ISubscriptionTrackerService _subscriptionTracker;
+
+    public UpdateSubscriptionCommandHandler(ISubscriptionTrackerService subscriptionTracker)
+    {
+        _subscriptionTracker = subscriptionTracker;
+    }
+
+    public async Task<SubscriptionDto> Handle(UpdateSubscriptionCommand request, CancellationToken cancellationToken)
+    {
+        return await _subscriptionTracker.UpdateSubscriptionAsync(request.UserId, request.PatternId, request.Subscription, cancellationToken);
+    }
+}
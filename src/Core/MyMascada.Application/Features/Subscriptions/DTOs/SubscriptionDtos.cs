@@ -0,0 +1,87 @@
+namespace MyMascada.Application.Features.Subscriptions.DTOs;
+
+/// <summary>
+/// Every detected recurring charge with its cost and the user's cancellation tracking
+/// </summary>
+public class SubscriptionsResponse
+{
+    public List<SubscriptionDto> Subscriptions { get; set; } = new();
+
+    /// <summary>
+    /// Annualized cost of the subscriptions that are still running (not cancelled)
+    /// </summary>
+    public decimal TotalAnnualCost { get; set; }
+
+    /// <summary>
+    /// Annualized cost of the subscriptions the user intends to cancel
+    /// </summary>
+    public decimal CancelIntendedAnnualCost { get; set; }
+
+    /// <summary>
+    /// Annualized cost no longer paid thanks to cancelled subscriptions
+    /// </summary>
+    public decimal CancelledAnnualSavings { get; set; }
+}
+
+/// <summary>
+/// A recurring charge detected from transaction history (a <c>RecurringPattern</c>)
+/// </summary>
+public class SubscriptionDto
+{
+    public int PatternId { get; set; }
+    public string MerchantName { get; set; } = string.Empty;
+    public string Interval { get; set; } = string.Empty;
+    public int IntervalDays { get; set; }
+    public decimal AverageAmount { get; set; }
+
+    /// <summary>
+    /// Most recent charge amount (positive), falling back to the average when no charge is found
+    /// </summary>
+    public decimal CurrentAmount { get; set; }
+    public decimal MonthlyCost { get; set; }
+    public decimal AnnualizedAmount { get; set; }
+
+    /// <summary>
+    /// Detection status: Active, AtRisk, Paused or Cancelled
+    /// </summary>
+    public string Status { get; set; } = string.Empty;
+
+    /// <summary>
+    /// User cancellation tracking: None, CancelIntended or Cancelled
+    /// </summary>
+    public string CancellationStatus { get; set; } = "None";
+    public DateTime? CancellationStatusChangedAt { get; set; }
+    public DateTime? ChargedAfterCancellationAt { get; set; }
+    public string ConfidenceLevel { get; set; } = string.Empty;
+    public int OccurrenceCount { get; set; }
+    public DateTime FirstChargedAt { get; set; }
+    public DateTime LastChargedAt { get; set; }
+    public DateTime? NextExpectedDate { get; set; }
+    public DateTime? LastUsedAt { get; set; }
+    public string? Notes { get; set; }
+    public int? CategoryId { get; set; }
+    public string? CategoryName { get; set; }
+    public string? CategoryColor { get; set; }
+
+    /// <summary>
+    /// Price changes between consecutive charges, oldest first
+    /// </summary>
+    public List<SubscriptionPriceChangeDto> PriceChanges { get; set; } = new();
+}
+
+public class SubscriptionPriceChangeDto
+{
+    public DateTime Date { get; set; }
+    public decimal PreviousAmount { get; set; }
+    public decimal NewAmount { get; set; }
+}
+
+public class UpdateSubscriptionRequest
+{
+    /// <summary>
+    /// None, CancelIntended or Cancelled
+    /// </summary>
+    public string CancellationStatus { get; set; } = "None";
+    public DateTime? LastUsedAt { get; set; }
+    public string? Notes { get; set; }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Subscriptions.DTOs;
+
+namespace MyMascada.Application.Features.Subscriptions.Queries;
+
+public class GetSubscriptionsQuery : IRequest<SubscriptionsResponse>
+{
+    public Guid UserId { get; set; }
+}
+
+public class GetSubscriptionsQueryHandler : IRequestHandler<GetSubscriptionsQuery, SubscriptionsResponse>
+{
+    private readonly ISubscriptionTrackerService _subscriptionTracker;
+
+    public GetSubscriptionsQueryHandler(ISubscriptionTrackerService subscriptionTracker)
+    {
+        _subscriptionTracker = subscriptionTracker;
+    }
+
+    public async Task<SubscriptionsResponse> Handle(GetSubscriptionsQuery request, CancellationToken cancellationToken)
+    {
+        return await _subscriptionTracker.GetSubscriptionsAsync(request.UserId, cancellationToken);
+    }
+}
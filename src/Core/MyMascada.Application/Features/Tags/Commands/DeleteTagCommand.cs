@@ -0,0 +1,29 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+
+namespace MyMascada.Application.Features.Tags.Commands;
+
+/// <summary>
+/// Deletes a tag and removes it from every transaction and rule.
+/// </summary>
+public class DeleteTagCommand : IRequest<TagChangeResultDto>
+{
+    public string Name { get; set; } = string.Empty;
+    public Guid UserId { get; set; }
+}
+
+public class DeleteTagCommandHandler : IRequestHandler<DeleteTagCommand, TagChangeResultDto>
+{
+    private readonly ITagService _tagService;
+
+    public DeleteTagCommandHandler(ITagService tagService)
+    {
+        _tagService = tagService;
+    }
+
+    public async Task<TagChangeResultDto> Handle(DeleteTagCommand request, CancellationToken cancellationToken)
+    {
+        return await _tagService.DeleteTagAsync(request.UserId, request.Name, cancellationToken);
+    }
+}
@@ -0,0 +1,30 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+
+namespace MyMascada.Application.Features.Tags.Commands;
+
+/// <summary>
+/// Renames a tag everywhere it is used; renaming onto an existing tag merges them.
+/// </summary>
+public class RenameTagCommand : IRequest<TagChangeResultDto>
+{
+    public string Name { get; set; } = string.Empty;
+    public string NewName { get; set; } = string.Empty;
+    public Guid UserId { get; set; }
+}
+
+public class RenameTagCommandHandler : IRequestHandler<RenameTagCommand, TagChangeResultDto>
+{
+    private readonly ITagService _tagService;
+
+    public RenameTagCommandHandler(ITagService tagService)
+    {
+        _tagService = tagService;
+    }
+
+    public async Task<TagChangeResultDto> Handle(RenameTagCommand request, CancellationToken cancellationToken)
+    {
+        return await _tagService.RenameTagAsync(request.UserId, request.Name, request.NewName, cancellationToken);
+    }
+}
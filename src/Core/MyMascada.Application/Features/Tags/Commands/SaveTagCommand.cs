@@ -0,0 +1,30 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+
+namespace MyMascada.Application.Features.Tags.Commands;
+
+/// <summary>
+/// Creates a tag or updates the color of an existing one.
+/// </summary>
+public class SaveTagCommand : IRequest<TagDto>
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Color { get; set; }
+    public Guid UserId { get; set; }
+}
+
+public class SaveTagCommandHandler : IRequestHandler<SaveTagCommand, TagDto>
+{
+    private readonly ITagService _tagService;
+
+    public SaveTagCommandHandler(ITagService tagService)
+    {
+        _tagService = tagService;
+    }
+
+    public async Task<TagDto> Handle(SaveTagCommand request, CancellationToken cancellationToken)
+    {
+        return await _tagService.SaveTagAsync(request.UserId, request.Name, request.Color, cancellationToken);
+    }
+}
@@ -0,0 +1,77 @@
+namespace MyMascada.Application.Features.Tags.DTOs;
+
+/// <summary>
+/// A tag as listed for autocomplete and management. Tags that were typed on transactions
+/// but never given settings are listed too, without a color.
+/// </summary>
+public class TagDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Color { get; set; }
+    public int TransactionCount { get; set; }
+    public int RuleCount { get; set; }
+    public DateTime? LastUsedAt { get; set; }
+}
+
+public class SaveTagRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Color { get; set; }
+}
+
+public class RenameTagRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string NewName { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Result of renaming or deleting a tag: how many transactions and rules were rewritten
+/// </summary>
+public class TagChangeResultDto
+{
+    public string Name { get; set; } = string.Empty;
+    public int TransactionsUpdated { get; set; }
+    public int RulesUpdated { get; set; }
+}
+
+public class TagSpendingReportDto
+{
+    public DateTime StartDate { get; set; }
+    public DateTime EndDate { get; set; }
+    public List<TagSpendingDto> Tags { get; set; } = new();
+}
+
+/// <summary>
+/// Spending for one tag across categories and months. A transaction with several tags
+/// counts fully under each of them; split transactions count per split line.
+/// </summary>
+public class TagSpendingDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Color { get; set; }
+    public decimal TotalSpent { get; set; }
+    public decimal TotalIncome { get; set; }
+    public int TransactionCount { get; set; }
+    public List<TagCategorySpendingDto> Categories { get; set; } = new();
+    public List<TagMonthlySpendingDto> Months { get; set; } = new();
+}
+
+public class TagCategorySpendingDto
+{
+    /// <summary>
+    /// Null for uncategorized spending
+    /// </summary>
+    public int? CategoryId { get; set; }
+    public string CategoryName { get; set; } = string.Empty;
+    public string? CategoryColor { get; set; }
+    public decimal Amount { get; set; }
+    public int TransactionCount { get; set; }
+}
+
+public class TagMonthlySpendingDto
+{
+    public int Year { get; set; }
+    public int Month { get; set; }
+    public decimal Amount { get; set; }
+}
@@ -0,0 +1,32 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+
+namespace MyMascada.Application.Features.Tags.Queries;
+
+/// <summary>
+/// Spending per tag across categories, e.g. everything tagged "vacation-2026" whatever it was categorized as.
+/// </summary>
+public class GetTagSpendingReportQuery : IRequest<TagSpendingReportDto>
+{
+    public Guid UserId { get; set; }
+    public DateTime StartDate { get; set; }
+    public DateTime EndDate { get; set; }
+    public List<string> Tags { get; set; } = new();
+}
+
+public class GetTagSpendingReportQueryHandler : IRequestHandler<GetTagSpendingReportQuery, TagSpendingReportDto>
+{
+    private readonly ITagService _tagService;
+
+    public GetTagSpendingReportQueryHandler(ITagService tagService)
+    {
+        _tagService = tagService;
+    }
+
+    public async Task<TagSpendingReportDto> Handle(GetTagSpendingReportQuery request, CancellationToken cancellationToken)
+    {
+        return await _tagService.GetSpendingReportAsync(
+            request.UserId, request.StartDate, request.EndDate, request.Tags, cancellationToken);
+    }
+}
@@ -0,0 +1,25 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+
+namespace MyMascada.Application.Features.Tags.Queries;
+
+public class GetTagsQuery : IRequest<IReadOnlyList<TagDto>>
+{
+    public Guid UserId { get; set; }
+}
+
+public class GetTagsQueryHandler : IRequestHandler<GetTagsQuery, IReadOnlyList<TagDto>>
+{
+    private readonly ITagService _tagService;
+
+    public GetTagsQueryHandler(ITagService tagService)
+    {
+        _tagService = tagService;
+    }
+
+    public async Task<IReadOnlyList<TagDto>> Handle(GetTagsQuery request, CancellationToken cancellationToken)
+    {
+        return await _tagService.GetTagsAsync(request.UserId, cancellationToken);
+    }
+}
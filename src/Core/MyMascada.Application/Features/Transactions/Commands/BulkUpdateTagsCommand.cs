@@ -0,0 +1,123 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Transactions.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Features.Transactions.Commands;
+
+public class BulkUpdateTagsCommand : IRequest<BulkUpdateTagsResponse>
+{
+    public Guid UserId { get; set; }
+    public List<int> TransactionIds { get; set; } = new();
+    public List<string> AddTags { get; set; } = new();
+    public List<string> RemoveTags { get; set; } = new();
+}
+
+public class BulkUpdateTagsCommandHandler : IRequestHandler<BulkUpdateTagsCommand, BulkUpdateTagsResponse>
+{
+    private const int MaxTagListLength = 500;
+
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly IAccountAccessService _accountAccessService;
+    private readonly ITagService _tagService;
+
+    public BulkUpdateTagsCommandHandler(
+        ITransactionRepository transactionRepository,
+        IAccountAccessService accountAccessService,
+        ITagService tagService)
+    {
+        _transactionRepository = transactionRepository;
+        _accountAccessService = accountAccessService;
+        _tagService = tagService;
+    }
+
+    public async Task<BulkUpdateTagsResponse> Handle(BulkUpdateTagsCommand request, CancellationToken cancellationToken)
+    {
+        var errors = new List<string>();
+
+        if (request.TransactionIds == null || request.TransactionIds.Count == 0)
+        {
+            return new BulkUpdateTagsResponse
+            {
+                Success = false,
+                Message = "No transaction IDs provided",
+                Errors = new List<string> { "No transaction IDs provided" }
+            };
+        }
+
+        var addTags = Transaction.ParseTags(string.Join(",", request.AddTags ?? new List<string>()));
+        var removeTags = Transaction.ParseTags(string.Join(",", request.RemoveTags ?? new List<string>()));
+
+        if (addTags.Count == 0 && removeTags.Count == 0)
+        {
+            throw new ArgumentException("Provide at least one tag to add or remove.");
+        }
+
+        if (addTags.Concat(removeTags).Any(tag => tag.Length > Tag.MaxNameLength))
+        {
+            throw new ArgumentException($"Tag names cannot exceed {Tag.MaxNameLength} characters.");
+        }
+
+        var transactions = (await _transactionRepository.GetTransactionsByIdsAsync(
+            request.TransactionIds,
+            request.UserId,
+            cancellationToken)).ToList();
+
+        var foundIds = transactions.Select(t => t.Id).ToHashSet();
+        var missingIds = request.TransactionIds.Where(id => !foundIds.Contains(id)).ToList();
+        if (missingIds.Count > 0)
+        {
+            errors.Add($"Transactions not found or access denied: {string.Join(", ", missingIds)}");
+        }
+
+        var accountIds = transactions.Select(t => t.AccountId).Distinct().ToList();
+        foreach (var accountId in accountIds)
+        {
+            if (!await _accountAccessService.CanModifyAccountAsync(request.UserId, accountId))
+            {
+                throw new UnauthorizedAccessException("You do not have permission to update transactions on one or more of these accounts.");
+            }
+        }
+
+        var updated = new List<Transaction>();
+        var now = DateTime.UtcNow;
+
+        foreach (var transaction in transactions)
+        {
+            var previousTags = transaction.Tags;
+            var removed = transaction.RemoveTags(removeTags);
+            var added = transaction.AddTags(addTags);
+
+            if (transaction.Tags?.Length > MaxTagListLength)
+            {
+                transaction.Tags = previousTags;
+                errors.Add($"Transaction {transaction.Id} already has too many tags.");
+                continue;
+            }
+
+            if (!removed && !added)
+            {
+                continue;
+            }
+
+            transaction.UpdatedAt = now;
+            transaction.UpdatedBy = request.UserId.ToString();
+            updated.Add(transaction);
+        }
+
+        await _tagService.SyncTransactionTagsAsync(updated, cancellationToken);
+        await _transactionRepository.SaveChangesAsync();
+
+        var updatedCount = updated.Count;
+
+        return new BulkUpdateTagsResponse
+        {
+            Success = errors.Count == 0,
+            Message = errors.Count == 0
+                ? $"Successfully updated {updatedCount} transaction(s)"
+                : $"Updated {updatedCount} transaction(s) with {errors.Count} issue(s)",
+            TransactionsUpdated = updatedCount,
+            Errors = errors
+        };
+    }
+}
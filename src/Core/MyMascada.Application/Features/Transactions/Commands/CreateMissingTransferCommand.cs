@@ -37,4 +37,9 @@ public class CreateMissingTransferCommand : IRequest<ConfirmTransfersResponse>
     /// Optional different date for the missing transaction
     /// </summary>
     public DateTime? TransactionDate { get; set; }
+    /// <summary>
+    /// Optional amount of the missing transaction in its account's currency, when the two accounts
+    /// use different currencies. Without it the user's stored exchange rate for the date is used.
+    /// </summary>
+    public decimal? MissingAmount { get; set; }
 }
\ No newline at end of file
@@ -15,17 +15,23 @@ public class CreateMissingTransferCommandHandler : IRequestHandler<CreateMissing
     private readonly IAccountRepository _accountRepository;
     private readonly ITransferRepository _transferRepository;
     private readonly IAccountAccessService _accountAccessService;
+    private readonly IExchangeRateService _exchangeRateService;
+    private readonly ITagService _tagService;
 
     public CreateMissingTransferCommandHandler(
         ITransactionRepository transactionRepository,
         IAccountRepository accountRepository,
         ITransferRepository transferRepository,
-        IAccountAccessService accountAccessService)
+        IAccountAccessService accountAccessService,
+        IExchangeRateService exchangeRateService,
+        ITagService tagService)
     {
         _transactionRepository = transactionRepository;
         _accountRepository = accountRepository;
         _transferRepository = transferRepository;
         _accountAccessService = accountAccessService;
+        _exchangeRateService = exchangeRateService;
+        _tagService = tagService;
     }
 
     public async Task<ConfirmTransfersResponse> Handle(CreateMissingTransferCommand request, CancellationToken cancellationToken)
@@ -83,13 +89,46 @@ public class CreateMissingTransferCommandHandler : IRequestHandler<CreateMissing
             var sourceAccountId = isExistingSource ? existingTransaction.AccountId : request.MissingAccountId;
             var destinationAccountId = isExistingSource ? request.MissingAccountId : existingTransaction.AccountId;
 
-            // Create Transfer entity
             var transferDate = request.TransactionDate ?? existingTransaction.TransactionDate;
+
+            // Between currencies the missing side is converted, at the amount the user entered or their stored rate
+            var existingCurrency = existingTransaction.Account.Currency;
+            var isMultiCurrency = !string.Equals(existingCurrency, missingAccount.Currency, StringComparison.OrdinalIgnoreCase);
+            var missingAmount = transferAmount;
+            decimal? exchangeRate = null;
+            if (isMultiCurrency)
+            {
+                if (request.MissingAmount is > 0)
+                {
+                    missingAmount = Math.Round(request.MissingAmount.Value, 2);
+                }
+                else
+                {
+                    var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+                    var rate = converter.GetRate(existingCurrency, missingAccount.Currency, transferDate);
+                    if (!rate.HasValue)
+                    {
+                        response.Success = false;
+                        response.Message = $"No exchange rate from {existingCurrency} to {missingAccount.Currency} is known for this date";
+                        response.Errors.Add("Enter the amount in the other account's currency or add an exchange rate");
+                        return response;
+                    }
+                    missingAmount = Math.Round(transferAmount * rate.Value, 2);
+                }
+
+                // The transfer rate always runs from source to destination currency
+                exchangeRate = isExistingSource
+                    ? Math.Round(missingAmount / transferAmount, 8)
+                    : Math.Round(transferAmount / missingAmount, 8);
+            }
+
+            // Create Transfer entity
             var transfer = new Transfer
             {
                 TransferId = Guid.NewGuid(),
-                Amount = transferAmount,
+                Amount = isExistingSource ? transferAmount : missingAmount,
                 Currency = sourceAccount.Currency,
+                ExchangeRate = exchangeRate,
                 Description = request.Description ?? $"Transfer {(isExistingSource ? "to" : "from")} {(isExistingSource ? destinationAccount.Name : sourceAccount.Name)}",
                 Notes = request.Notes,
                 Status = TransferStatus.Completed,
@@ -111,7 +150,7 @@ public class CreateMissingTransferCommandHandler : IRequestHandler<CreateMissing
             await _transactionRepository.UpdateAsync(existingTransaction);
 
             // Create the missing transaction
-            var missingTransactionAmount = isExistingSource ? transferAmount : -transferAmount;
+            var missingTransactionAmount = isExistingSource ? missingAmount : -missingAmount;
             var missingTransaction = new Transaction
             {
                 Amount = missingTransactionAmount,
@@ -135,6 +174,11 @@ public class CreateMissingTransferCommandHandler : IRequestHandler<CreateMissing
             };
 
             // Save the missing transaction
+            if (missingTransaction.Tags != null)
+            {
+                await _tagService.SyncTransactionTagsAsync(new[] { missingTransaction }, cancellationToken);
+            }
+
             await _transactionRepository.AddAsync(missingTransaction);
 
             // Update existing transaction to reference the new one
@@ -144,6 +188,12 @@ public class CreateMissingTransferCommandHandler : IRequestHandler<CreateMissing
             // Save all changes
             await _transactionRepository.SaveChangesAsync();
 
+            if (exchangeRate.HasValue && request.MissingAmount is > 0)
+            {
+                await _exchangeRateService.RecordTransferRateAsync(request.UserId, sourceAccount.Currency,
+                    destinationAccount.Currency, exchangeRate.Value, transfer.TransferDate, cancellationToken);
+            }
+
             response.TransfersCreated = 1;
             response.TransactionsUpdated = 2; // existing + new
             response.Message = $"Successfully created transfer from {sourceAccount.Name} to {destinationAccount.Name}";
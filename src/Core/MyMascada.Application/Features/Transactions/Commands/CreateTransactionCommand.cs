@@ -23,6 +23,7 @@ public class CreateTransactionCommand : IRequest<TransactionDto>, ITransactionBa
     public string? Tags { get; set; }
     public int AccountId { get; set; }
     public int? CategoryId { get; set; }
+    public List<TransactionSplitRequest>? Splits { get; set; }
     public string? IdempotencyToken { get; set; }
     public bool AllowDuplicates { get; set; } = false;
 }
@@ -35,6 +36,8 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
     private readonly IAccountAccessService _accountAccessService;
     private readonly TransactionDuplicateChecker _duplicateChecker;
     private readonly ICategorizationPipeline _categorizationPipeline;
+    private readonly TransactionSplitService _splitService;
+    private readonly ITagService _tagService;
 
     public CreateTransactionCommandHandler(
         ITransactionRepository transactionRepository,
@@ -42,7 +45,9 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
         ICategoryRepository categoryRepository,
         IAccountAccessService accountAccessService,
         TransactionDuplicateChecker duplicateChecker,
-        ICategorizationPipeline categorizationPipeline)
+        ICategorizationPipeline categorizationPipeline,
+        TransactionSplitService splitService,
+        ITagService tagService)
     {
         _transactionRepository = transactionRepository;
         _accountRepository = accountRepository;
@@ -50,6 +55,8 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
         _accountAccessService = accountAccessService;
         _duplicateChecker = duplicateChecker;
         _categorizationPipeline = categorizationPipeline;
+        _splitService = splitService;
+        _tagService = tagService;
     }
 
     public async Task<TransactionDto> Handle(CreateTransactionCommand request, CancellationToken cancellationToken)
@@ -67,6 +74,22 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
             throw new UnauthorizedAccessException("You do not have permission to create transactions on this account.");
         }
 
+        // A retried request (e.g. an offline outbox replay) returns the transaction it already created
+        var idempotencyKey = string.IsNullOrWhiteSpace(request.IdempotencyToken) ? null : request.IdempotencyToken.Trim();
+        if (idempotencyKey != null)
+        {
+            if (idempotencyKey.Length > 100)
+            {
+                throw new ArgumentException("Idempotency key cannot exceed 100 characters");
+            }
+
+            var replayed = await _transactionRepository.GetByIdempotencyKeyAsync(request.AccountId, idempotencyKey);
+            if (replayed != null)
+            {
+                return TransactionMapper.ToDto(replayed);
+            }
+        }
+
         // Validate category if provided
         if (request.CategoryId.HasValue)
         {
@@ -77,6 +100,10 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
             }
         }
 
+        var splits = request.Splits is { Count: > 0 }
+            ? await _splitService.BuildSplitsAsync(request.Amount, request.Splits, request.UserId)
+            : null;
+
         // Check for duplicates unless explicitly allowed
         if (!request.AllowDuplicates)
         {
@@ -98,9 +125,10 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
             Status = request.Status,
             Source = TransactionSource.Manual,
             ExternalId = externalId,
+            IdempotencyKey = idempotencyKey,
             Notes = request.Notes,
             Location = request.Location,
-            Tags = request.Tags,
+            Tags = Transaction.NormalizeTags(request.Tags),
             AccountId = request.AccountId,
             CategoryId = request.CategoryId,
             IsReviewed = request.CategoryId.HasValue, // User explicitly chose a category — no need to review
@@ -109,10 +137,21 @@ public class CreateTransactionCommandHandler : IRequestHandler<CreateTransaction
             UpdatedAt = DateTimeProvider.UtcNow
         };
 
+        if (splits != null)
+        {
+            transaction.ReplaceSplits(splits);
+            transaction.IsReviewed = true;
+        }
+
+        if (transaction.Tags != null)
+        {
+            await _tagService.SyncTransactionTagsAsync(new[] { transaction }, cancellationToken);
+        }
+
         var createdTransaction = await _transactionRepository.AddAsync(transaction);
 
         // Apply automatic categorization if no category was provided
-        if (!request.CategoryId.HasValue)
+        if (!createdTransaction.CategoryId.HasValue)
         {
             var result = await _categorizationPipeline.ProcessAsync(new[] { createdTransaction }, cancellationToken);
             if (result.CategorizedTransactions.Any())
@@ -14,15 +14,18 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
     private readonly ITransactionRepository _transactionRepository;
     private readonly ITransferRepository _transferRepository;
     private readonly IAccountAccessService _accountAccessService;
+    private readonly IExchangeRateService _exchangeRateService;
 
     public LinkTransactionsAsTransferCommandHandler(
         ITransactionRepository transactionRepository,
         ITransferRepository transferRepository,
-        IAccountAccessService accountAccessService)
+        IAccountAccessService accountAccessService,
+        IExchangeRateService exchangeRateService)
     {
         _transactionRepository = transactionRepository;
         _transferRepository = transferRepository;
         _accountAccessService = accountAccessService;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<ConfirmTransfersResponse> Handle(LinkTransactionsAsTransferCommand request, CancellationToken cancellationToken)
@@ -89,7 +92,13 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
             var amountDifference = Math.Abs(sourceAmount - destinationAmount);
             var tolerance = Math.Max(sourceAmount, destinationAmount) * 0.05m; // 5% tolerance
 
-            if (amountDifference > tolerance)
+            // Amounts in different currencies can't be compared; their ratio is the realised rate
+            var sourceCurrency = sourceTransaction.Account?.Currency;
+            var destinationCurrency = destinationTransaction.Account?.Currency;
+            var isMultiCurrency = sourceCurrency != null && destinationCurrency != null
+                && !string.Equals(sourceCurrency, destinationCurrency, StringComparison.OrdinalIgnoreCase);
+
+            if (!isMultiCurrency && amountDifference > tolerance)
             {
                 response.Success = false;
                 response.Message = $"Transaction amounts differ too much (${sourceAmount:F2} vs ${destinationAmount:F2})";
@@ -100,6 +109,14 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
             // Use the larger amount as the transfer amount
             var transferAmount = Math.Max(sourceAmount, destinationAmount);
 
+            if (isMultiCurrency && (sourceAmount == 0 || destinationAmount == 0))
+            {
+                response.Success = false;
+                response.Message = "Transaction amounts must be non-zero to link a transfer between currencies";
+                response.Errors.Add("Transaction amounts must be non-zero");
+                return response;
+            }
+
             // Determine which transaction is actually the source (outgoing) and destination (incoming)
             Transaction actualSource, actualDestination;
             if (isSourceNegative && isDestinationPositive)
@@ -121,6 +138,13 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
                 actualDestination = sourceTransaction;
             }
 
+            decimal? exchangeRate = null;
+            if (isMultiCurrency)
+            {
+                transferAmount = Math.Abs(actualSource.Amount);
+                exchangeRate = Math.Round(Math.Abs(actualDestination.Amount) / transferAmount, 8);
+            }
+
             // Create Transfer entity
             var transferDate = actualSource.TransactionDate;
             var transfer = new Transfer
@@ -128,6 +152,7 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
                 TransferId = Guid.NewGuid(),
                 Amount = transferAmount,
                 Currency = actualSource.Account?.Currency ?? "USD",
+                ExchangeRate = exchangeRate,
                 Description = request.Description ?? $"Transfer from {actualSource.Account?.Name} to {actualDestination.Account?.Name}",
                 Notes = request.Notes,
                 Status = TransferStatus.Completed,
@@ -160,6 +185,12 @@ public class LinkTransactionsAsTransferCommandHandler : IRequestHandler<LinkTran
             // Save all changes
             await _transactionRepository.SaveChangesAsync();
 
+            if (exchangeRate.HasValue)
+            {
+                await _exchangeRateService.RecordTransferRateAsync(request.UserId, actualSource.Account!.Currency,
+                    actualDestination.Account!.Currency, exchangeRate.Value, transfer.TransferDate, cancellationToken);
+            }
+
             response.TransfersCreated = 1;
             response.TransactionsUpdated = 2;
             response.Message = $"Successfully linked transactions as transfer from {actualSource.Account?.Name} to {actualDestination.Account?.Name}";
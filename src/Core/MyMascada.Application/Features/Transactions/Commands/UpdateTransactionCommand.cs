@@ -3,6 +3,7 @@ using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.Categorization.Services;
 using MyMascada.Application.Features.Transactions.DTOs;
 using MyMascada.Application.Features.Transactions.Mappings;
+using MyMascada.Application.Features.Transactions.Services;
 using MyMascada.Domain.Entities;
 using MyMascada.Domain.Enums;
 using MyMascada.Domain.Common;
@@ -22,6 +23,7 @@ public class UpdateTransactionCommand : IRequest<TransactionDto>, ITransactionBa
     public string? Location { get; set; }
     public string? Tags { get; set; }
     public int? CategoryId { get; set; }
+    public List<TransactionSplitRequest>? Splits { get; set; }
 }
 
 public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransactionCommand, TransactionDto>
@@ -31,19 +33,25 @@ public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransaction
     private readonly ITransferRepository _transferRepository;
     private readonly IAccountAccessService _accountAccessService;
     private readonly ICategorizationHistoryService _historyService;
+    private readonly TransactionSplitService _splitService;
+    private readonly ITagService _tagService;
 
     public UpdateTransactionCommandHandler(
         ITransactionRepository transactionRepository,
         ICategoryRepository categoryRepository,
         ITransferRepository transferRepository,
         IAccountAccessService accountAccessService,
-        ICategorizationHistoryService historyService)
+        ICategorizationHistoryService historyService,
+        TransactionSplitService splitService,
+        ITagService tagService)
     {
         _transactionRepository = transactionRepository;
         _categoryRepository = categoryRepository;
         _transferRepository = transferRepository;
         _accountAccessService = accountAccessService;
         _historyService = historyService;
+        _splitService = splitService;
+        _tagService = tagService;
     }
 
     public async Task<TransactionDto> Handle(UpdateTransactionCommand request, CancellationToken cancellationToken)
@@ -101,6 +109,11 @@ public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransaction
             {
                 throw new ArgumentException("Transfer transactions cannot be assigned to categories");
             }
+
+            if (request.Splits is { Count: > 0 })
+            {
+                throw new ArgumentException("Transfer transactions cannot be split across categories");
+            }
         }
 
         // Store originals before mutation
@@ -109,6 +122,16 @@ public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransaction
         var originalCategoryId = transaction.CategoryId;
         var originalDescription = transaction.Description;
 
+        // Existing split lines would stop adding up if the amount moved underneath them
+        if (request.Splits == null && amountChanged && transaction.IsSplit())
+        {
+            throw new ArgumentException("Update the split lines together with the transaction amount");
+        }
+
+        var splits = request.Splits is { Count: > 0 }
+            ? await _splitService.BuildSplitsAsync(request.Amount, request.Splits, request.UserId)
+            : null;
+
         // Update transaction properties
         transaction.Amount = request.Amount;
         transaction.TransactionDate = DateTimeProvider.ToUtc(request.TransactionDate);
@@ -117,16 +140,29 @@ public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransaction
         transaction.Status = request.Status;
         transaction.Notes = request.Notes;
         transaction.Location = request.Location;
-        transaction.Tags = request.Tags;
+        var tags = Transaction.NormalizeTags(request.Tags);
+        var tagsChanged = tags != transaction.Tags;
+        transaction.Tags = tags;
         
         // Only set category if not a transfer
         if (!isTransfer)
         {
             transaction.CategoryId = request.CategoryId;
         }
+
+        // Splits pick the transaction's category themselves; an empty list un-splits it
+        if (request.Splits != null)
+        {
+            transaction.ReplaceSplits(splits ?? new List<TransactionSplit>());
+        }
         
         transaction.UpdatedAt = DateTimeProvider.UtcNow;
 
+        if (tagsChanged)
+        {
+            await _tagService.SyncTransactionTagsAsync(new[] { transaction }, cancellationToken);
+        }
+
         await _transactionRepository.UpdateAsync(transaction);
 
         // If this is a transfer and amount changed, update the related transaction and transfer
@@ -161,9 +197,10 @@ public class UpdateTransactionCommandHandler : IRequestHandler<UpdateTransaction
         await _transactionRepository.SaveChangesAsync();
 
         // Record categorization history (best-effort — transaction update already persisted above)
+        // Split transactions say nothing about a single category for the description, so skip them
         var categoryChanged = originalCategoryId != request.CategoryId;
         var descriptionChanged = originalDescription != request.Description;
-        if (!isTransfer && request.CategoryId.HasValue && (categoryChanged || descriptionChanged))
+        if (!isTransfer && !transaction.IsSplit() && request.CategoryId.HasValue && (categoryChanged || descriptionChanged))
         {
             try
             {
@@ -0,0 +1,22 @@
+namespace MyMascada.Application.Features.Transactions.DTOs;
+
+/// <summary>
+/// Request to add and/or remove tags on multiple transactions.
+/// </summary>
+public class BulkUpdateTagsRequest
+{
+    public List<int> TransactionIds { get; set; } = new();
+    public List<string> AddTags { get; set; } = new();
+    public List<string> RemoveTags { get; set; } = new();
+}
+
+/// <summary>
+/// Response after bulk adding or removing tags.
+/// </summary>
+public class BulkUpdateTagsResponse
+{
+    public bool Success { get; set; }
+    public string Message { get; set; } = string.Empty;
+    public int TransactionsUpdated { get; set; }
+    public List<string> Errors { get; set; } = new();
+}
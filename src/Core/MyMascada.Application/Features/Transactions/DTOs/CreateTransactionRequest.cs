@@ -39,4 +39,9 @@ public class CreateTransactionRequest
     public int AccountId { get; set; }
     
     public int? CategoryId { get; set; }
+    
+    /// <summary>
+    /// Optional split lines across categories; when set, CategoryId is ignored
+    /// </summary>
+    public List<TransactionSplitRequest>? Splits { get; set; }
 }
\ No newline at end of file
@@ -168,6 +168,11 @@ public class CreateMissingTransferRequest
     /// Optional different date for the missing transaction
     /// </summary>
     public DateTime? TransactionDate { get; set; }
+    /// <summary>
+    /// Optional amount of the missing transaction in its account's currency, when the two accounts
+    /// use different currencies. Without it the user's stored exchange rate for the date is used.
+    /// </summary>
+    public decimal? MissingAmount { get; set; }
 }
 
 /// <summary>
@@ -33,6 +33,13 @@ public class TransactionDto
     public string? CategoryName { get; set; }
     public string? CategoryColor { get; set; }
     
+    // Split lines, when the transaction is divided across categories
+    public List<TransactionSplitDto>? Splits { get; set; }
+    
+    // Receipts and documents attached to the transaction
+    public int AttachmentCount { get; set; }
+    public int? ThumbnailAttachmentId { get; set; }
+    
     // Transfer information
     public Guid? TransferId { get; set; }
     public bool IsTransferSource { get; set; }
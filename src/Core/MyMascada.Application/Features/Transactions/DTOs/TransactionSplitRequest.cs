@@ -0,0 +1,18 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MyMascada.Application.Features.Transactions.DTOs;
+
+/// <summary>
+/// One line of a split transaction. Lines carry the transaction's sign and must sum to its amount.
+/// </summary>
+public class TransactionSplitRequest
+{
+    [Required]
+    public decimal Amount { get; set; }
+
+    [Required]
+    public int CategoryId { get; set; }
+
+    [StringLength(500)]
+    public string? Description { get; set; }
+}
@@ -39,4 +39,9 @@ public class UpdateTransactionRequest
     public string? Tags { get; set; }
     
     public int? CategoryId { get; set; }
+    
+    /// <summary>
+    /// Split lines across categories. Null leaves any existing split alone; an empty list removes it.
+    /// </summary>
+    public List<TransactionSplitRequest>? Splits { get; set; }
 }
\ No newline at end of file
@@ -14,12 +14,17 @@ public static partial class TransactionMapper
         dto.AccountName = transaction.Account?.Name ?? string.Empty;
         dto.CategoryName = transaction.Category?.Name;
         dto.CategoryColor = transaction.Category?.Color;
+        dto.Splits = ToActiveSplitDtos(transaction);
+        ApplyAttachmentSummary(dto, transaction);
         return dto;
     }
 
     [MapperIgnoreTarget(nameof(TransactionDto.AccountName))]
     [MapperIgnoreTarget(nameof(TransactionDto.CategoryName))]
     [MapperIgnoreTarget(nameof(TransactionDto.CategoryColor))]
+    [MapperIgnoreTarget(nameof(TransactionDto.Splits))]
+    [MapperIgnoreTarget(nameof(TransactionDto.AttachmentCount))]
+    [MapperIgnoreTarget(nameof(TransactionDto.ThumbnailAttachmentId))]
     private static partial TransactionDto TransactionToDtoGenerated(Transaction transaction);
 
     // Transaction -> TransactionDetailDto (for single view)
@@ -43,9 +48,7 @@ public static partial class TransactionMapper
         dto.CategoryColor = transaction.Category?.Color;
         dto.CategoryIcon = transaction.Category?.Icon;
         dto.RelatedAccountName = transaction.RelatedTransaction?.Account?.Name;
-        dto.Splits = transaction.Splits is { Count: > 0 } splits
-            ? splits.Select(ToSplitDto).ToList()
-            : null;
+        dto.Splits = ToActiveSplitDtos(transaction);
         return dto;
     }
 
@@ -76,6 +79,24 @@ public static partial class TransactionMapper
     [MapperIgnoreTarget(nameof(TransactionSplitDto.CategoryColor))]
     private static partial TransactionSplitDto SplitToDtoGenerated(TransactionSplit split);
 
+    // Lines replaced during an update stay in the tracked collection as soft-deleted rows
+    private static List<TransactionSplitDto>? ToActiveSplitDtos(Transaction transaction)
+    {
+        var splits = transaction.Splits.Where(s => !s.IsDeleted).ToList();
+        return splits.Count > 0 ? splits.Select(ToSplitDto).ToList() : null;
+    }
+
+    // Attachments are only loaded by the list queries; elsewhere the collection is empty
+    private static void ApplyAttachmentSummary(TransactionDto dto, Transaction transaction)
+    {
+        var attachments = transaction.Attachments
+            .Where(a => !a.IsDeleted)
+            .OrderBy(a => a.CreatedAt)
+            .ToList();
+        dto.AttachmentCount = attachments.Count;
+        dto.ThumbnailAttachmentId = attachments.FirstOrDefault(a => a.IsImage())?.Id;
+    }
+
     // Note: CreateTransactionDto -> Transaction and UpdateTransactionDto -> Transaction mappings
     // are intentionally NOT included here. Those mappings contained business logic (amount sign-flipping
     // based on type, enum parsing, setting Source=Manual, IsReviewed=true) that belongs in command
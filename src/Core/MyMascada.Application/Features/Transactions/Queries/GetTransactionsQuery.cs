@@ -19,6 +19,8 @@ public class GetTransactionsQuery : IRequest<TransactionListResponse>
     public decimal? MaxAmount { get; set; }
     public TransactionStatus? Status { get; set; }
     public string? SearchTerm { get; set; }
+    public string? Tag { get; set; }
+    public bool? HasAttachments { get; set; }
     public bool? IsReviewed { get; set; }
     public bool? IsReconciled { get; set; }
     public bool? IsExcluded { get; set; }
@@ -0,0 +1,65 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Transactions.DTOs;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Application.Features.Transactions.Services;
+
+/// <summary>
+/// Validates split lines for a transaction and turns them into entities.
+/// Invalid lines throw <see cref="ArgumentException"/> so controllers answer 400.
+/// </summary>
+public class TransactionSplitService
+{
+    private readonly ICategoryRepository _categoryRepository;
+
+    public TransactionSplitService(ICategoryRepository categoryRepository)
+    {
+        _categoryRepository = categoryRepository;
+    }
+
+    public async Task<List<TransactionSplit>> BuildSplitsAsync(
+        decimal transactionAmount,
+        IReadOnlyCollection<TransactionSplitRequest> lines,
+        Guid userId)
+    {
+        if (lines.Count < 2)
+        {
+            throw new ArgumentException("A split needs at least two lines");
+        }
+
+        if (transactionAmount == 0)
+        {
+            throw new ArgumentException("A zero-amount transaction cannot be split");
+        }
+
+        // Lines share the transaction's sign so an expense never hides a refund inside it
+        if (lines.Any(l => l.Amount == 0 || Math.Sign(l.Amount) != Math.Sign(transactionAmount)))
+        {
+            throw new ArgumentException("Each split line must be non-zero and have the same sign as the transaction");
+        }
+
+        var total = lines.Sum(l => l.Amount);
+        if (Math.Round(total, 2) != Math.Round(transactionAmount, 2))
+        {
+            throw new ArgumentException(
+                $"Split lines add up to {total:0.00} but the transaction amount is {transactionAmount:0.00}");
+        }
+
+        foreach (var categoryId in lines.Select(l => l.CategoryId).Distinct())
+        {
+            if (!await _categoryRepository.ExistsAsync(categoryId, userId))
+            {
+                throw new ArgumentException($"Category with ID {categoryId} not found or does not belong to user");
+            }
+        }
+
+        return lines
+            .Select(l => new TransactionSplit
+            {
+                Amount = l.Amount,
+                CategoryId = l.CategoryId,
+                Description = string.IsNullOrWhiteSpace(l.Description) ? null : l.Description.Trim()
+            })
+            .ToList();
+    }
+}
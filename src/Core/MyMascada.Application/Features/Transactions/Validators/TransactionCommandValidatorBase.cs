@@ -1,5 +1,6 @@
 using FluentValidation;
 using MyMascada.Application.Features.Transactions.Commands;
+using MyMascada.Domain.Entities;
 
 namespace MyMascada.Application.Features.Transactions.Validators;
 
@@ -45,6 +46,8 @@ public abstract class TransactionCommandValidatorBase<TCommand> : AbstractValida
         RuleFor(x => x.Tags)
             .MaximumLength(500)
             .WithMessage("Tags cannot exceed 500 characters.")
+            .Must(tags => Transaction.ParseTags(tags).All(tag => tag.Length <= Tag.MaxNameLength))
+            .WithMessage($"Each tag cannot exceed {Tag.MaxNameLength} characters.")
             .When(x => x.Tags != null);
     }
 }
@@ -40,6 +40,13 @@ public class CreateTransferCommand : IRequest<TransferDto>
     /// </summary>
     public decimal? ExchangeRate { get; set; }
 
+    /// <summary>
+    /// Amount received in the destination account's currency, when it differs from the source's.
+    /// The realised exchange rate is derived from it and takes precedence over ExchangeRate.
+    /// </summary>
+    [Range(0.01, double.MaxValue, ErrorMessage = "Destination amount must be greater than 0")]
+    public decimal? DestinationAmount { get; set; }
+
     /// <summary>
     /// Fee amount for the transfer
     /// </summary>
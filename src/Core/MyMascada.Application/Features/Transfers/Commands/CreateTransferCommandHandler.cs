@@ -15,17 +15,20 @@ public class CreateTransferCommandHandler : IRequestHandler<CreateTransferComman
     private readonly ITransactionRepository _transactionRepository;
     private readonly IAccountRepository _accountRepository;
     private readonly IAccountAccessService _accountAccessService;
+    private readonly IExchangeRateService _exchangeRateService;
 
     public CreateTransferCommandHandler(
         ITransferRepository transferRepository,
         ITransactionRepository transactionRepository,
         IAccountRepository accountRepository,
-        IAccountAccessService accountAccessService)
+        IAccountAccessService accountAccessService,
+        IExchangeRateService exchangeRateService)
     {
         _transferRepository = transferRepository;
         _transactionRepository = transactionRepository;
         _accountRepository = accountRepository;
         _accountAccessService = accountAccessService;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<TransferDto> Handle(CreateTransferCommand request, CancellationToken cancellationToken)
@@ -49,13 +52,34 @@ public class CreateTransferCommandHandler : IRequestHandler<CreateTransferComman
         if (request.SourceAccountId == request.DestinationAccountId)
             throw new ArgumentException("Cannot transfer to the same account");
 
+        // Between currencies, the rate realised by the amount received wins over a given rate,
+        // which wins over the user's stored rate for the day
+        var isMultiCurrency = !string.Equals(sourceAccount.Currency, destinationAccount.Currency, StringComparison.OrdinalIgnoreCase);
+        var exchangeRate = request.ExchangeRate;
+        if (isMultiCurrency)
+        {
+            if (request.DestinationAmount.HasValue)
+            {
+                exchangeRate = Math.Round(request.DestinationAmount.Value / request.Amount, 8);
+            }
+            else if (!exchangeRate.HasValue)
+            {
+                var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+                exchangeRate = converter.GetRate(sourceAccount.Currency, destinationAccount.Currency, request.TransferDate);
+            }
+
+            if (!exchangeRate.HasValue)
+                throw new ArgumentException(
+                    $"No exchange rate from {sourceAccount.Currency} to {destinationAccount.Currency} is known for this date. Enter the amount received or add a rate.");
+        }
+
         // Create Transfer entity
         var transfer = new Transfer
         {
             TransferId = Guid.NewGuid(),
             Amount = request.Amount,
             Currency = request.Currency,
-            ExchangeRate = request.ExchangeRate,
+            ExchangeRate = isMultiCurrency ? exchangeRate : request.ExchangeRate,
             FeeAmount = request.FeeAmount,
             Description = request.Description,
             Notes = request.Notes,
@@ -85,7 +109,9 @@ public class CreateTransferCommandHandler : IRequestHandler<CreateTransferComman
         };
 
         // Create destination transaction (income - positive amount)
-        var destinationAmount = transfer.GetDestinationAmount();
+        var destinationAmount = isMultiCurrency
+            ? Math.Round(request.DestinationAmount ?? request.Amount * exchangeRate!.Value, 2)
+            : request.Amount;
         var destinationTransaction = new Transaction
         {
             Amount = destinationAmount, // Positive for income
@@ -108,6 +134,13 @@ public class CreateTransferCommandHandler : IRequestHandler<CreateTransferComman
         transfer.MarkAsCompleted();
         await _transferRepository.UpdateAsync(transfer);
 
+        // A rate the user actually got is kept for converting that day's amounts
+        if (isMultiCurrency && (request.DestinationAmount.HasValue || request.ExchangeRate.HasValue))
+        {
+            await _exchangeRateService.RecordTransferRateAsync(request.UserId, sourceAccount.Currency,
+                destinationAccount.Currency, exchangeRate!.Value, request.TransferDate, cancellationToken);
+        }
+
         // Return DTO
         return new TransferDto
         {
@@ -157,7 +190,7 @@ public class CreateTransferCommandHandler : IRequestHandler<CreateTransferComman
                     Type = destinationTransaction.Type
                 }
             },
-            IsMultiCurrency = savedTransfer.IsMultiCurrency(),
+            IsMultiCurrency = isMultiCurrency,
             DestinationAmount = destinationAmount,
             CreatedAt = savedTransfer.CreatedAt,
             UpdatedAt = savedTransfer.UpdatedAt
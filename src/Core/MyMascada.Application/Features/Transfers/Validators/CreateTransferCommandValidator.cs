@@ -41,6 +41,11 @@ public class CreateTransferCommandValidator : AbstractValidator<CreateTransferCo
             .When(x => x.ExchangeRate.HasValue)
             .WithMessage("Exchange rate must be greater than 0 when specified");
 
+        RuleFor(x => x.DestinationAmount)
+            .GreaterThan(0)
+            .When(x => x.DestinationAmount.HasValue)
+            .WithMessage("Destination amount must be greater than 0 when specified");
+
         RuleFor(x => x.FeeAmount)
             .GreaterThanOrEqualTo(0)
             .When(x => x.FeeAmount.HasValue)
@@ -15,6 +15,7 @@ public class UserDataExportDto
     // Financial Data
     public List<AccountExportDto> Accounts { get; set; } = new();
     public List<TransactionExportDto> Transactions { get; set; } = new();
+    public List<AttachmentExportDto> Attachments { get; set; } = new();
     public List<TransferExportDto> Transfers { get; set; } = new();
     public List<CategoryExportDto> Categories { get; set; } = new();
     public List<CategorizationRuleExportDto> CategorizationRules { get; set; } = new();
@@ -83,6 +84,24 @@ public class TransactionExportDto
     public DateTime? UpdatedAt { get; set; }
 }
 
+/// <summary>
+/// Receipt or document attached to a transaction. The file itself sits in the export archive
+/// at <see cref="ArchivePath"/>.
+/// </summary>
+public class AttachmentExportDto
+{
+    public int Id { get; set; }
+    public int TransactionId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long SizeBytes { get; set; }
+    public DateTime CreatedAt { get; set; }
+    /// <summary>
+    /// Path of the file inside the export archive; null when the file is missing from storage
+    /// </summary>
+    public string? ArchivePath { get; set; }
+}
+
 public class TransferExportDto
 {
     public int Id { get; set; }
@@ -155,6 +174,7 @@ public class DataSummaryDto
 {
     public int TotalAccounts { get; set; }
     public int TotalTransactions { get; set; }
+    public int TotalAttachments { get; set; }
     public int TotalTransfers { get; set; }
     public int TotalCategories { get; set; }
     public int TotalRules { get; set; }
@@ -0,0 +1,27 @@
+using MediatR;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Application.Features.UserData.Queries;
+
+public class ExportUserDataArchiveQuery : IRequest<Stream>
+{
+    public Guid UserId { get; set; }
+}
+
+public class ExportUserDataArchiveQueryHandler : IRequestHandler<ExportUserDataArchiveQuery, Stream>
+{
+    private readonly IUserDataExportService _userDataExportService;
+
+    public ExportUserDataArchiveQueryHandler(IUserDataExportService userDataExportService)
+    {
+        _userDataExportService = userDataExportService;
+    }
+
+    public async Task<Stream> Handle(ExportUserDataArchiveQuery request, CancellationToken cancellationToken)
+    {
+        if (request.UserId == Guid.Empty)
+            throw new ArgumentException("UserId cannot be empty", nameof(request.UserId));
+
+        return await _userDataExportService.CreateExportArchiveAsync(request.UserId, cancellationToken);
+    }
+}
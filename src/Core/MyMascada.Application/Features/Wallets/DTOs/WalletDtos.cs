@@ -55,6 +55,22 @@ public class WalletDashboardSummaryDto
     /// </summary>
     public Dictionary<string, decimal> BalanceByCurrency { get; set; } = new();
 
+    /// <summary>
+    /// The user's base currency
+    /// </summary>
+    public string BaseCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Sum of all wallet balances converted into the base currency at today's rates.
+    /// Currencies listed in UnconvertedCurrencies are included at face value.
+    /// </summary>
+    public decimal TotalBalanceInBaseCurrency { get; set; }
+
+    /// <summary>
+    /// Wallet currencies without an exchange rate to the base currency
+    /// </summary>
+    public List<string> UnconvertedCurrencies { get; set; } = new();
+
     public List<WalletSummaryDto> Wallets { get; set; } = new();
 }
 
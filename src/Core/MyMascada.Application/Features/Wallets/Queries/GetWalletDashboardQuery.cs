@@ -13,10 +13,12 @@ public class GetWalletDashboardQuery : IRequest<WalletDashboardSummaryDto>
 public class GetWalletDashboardQueryHandler : IRequestHandler<GetWalletDashboardQuery, WalletDashboardSummaryDto>
 {
     private readonly IWalletRepository _walletRepository;
+    private readonly IExchangeRateService _exchangeRateService;
 
-    public GetWalletDashboardQueryHandler(IWalletRepository walletRepository)
+    public GetWalletDashboardQueryHandler(IWalletRepository walletRepository, IExchangeRateService exchangeRateService)
     {
         _walletRepository = walletRepository;
+        _exchangeRateService = exchangeRateService;
     }
 
     public async Task<WalletDashboardSummaryDto> Handle(GetWalletDashboardQuery request, CancellationToken cancellationToken)
@@ -37,10 +39,18 @@ public class GetWalletDashboardQueryHandler : IRequestHandler<GetWalletDashboard
             .GroupBy(w => w.Currency, StringComparer.OrdinalIgnoreCase)
             .ToDictionary(g => g.Key.ToUpperInvariant(), g => g.Sum(w => w.Balance));
 
+        // Convert each currency's total at today's rate
+        var converter = await _exchangeRateService.GetConverterAsync(request.UserId, cancellationToken);
+        var today = DateTime.UtcNow.Date;
+        var totalInBaseCurrency = balanceByCurrency.Sum(kv => converter.ToBase(kv.Value, kv.Key, today));
+
         return new WalletDashboardSummaryDto
         {
             TotalBalance = totalBalance,
             BalanceByCurrency = balanceByCurrency,
+            BaseCurrency = converter.BaseCurrency,
+            TotalBalanceInBaseCurrency = totalInBaseCurrency,
+            UnconvertedCurrencies = converter.MissingCurrencies.OrderBy(c => c).ToList(),
             Wallets = walletSummaries
         };
     }
@@ -0,0 +1,44 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// What an account was worth on a given day, entered by hand for assets such as property or
+/// vehicles whose value moves without transactions. From that day the account's balance is the
+/// valuation plus any later transactions.
+/// </summary>
+public class AccountValuation : BaseEntity
+{
+    /// <summary>
+    /// Account being valued
+    /// </summary>
+    [Required]
+    public int AccountId { get; set; }
+
+    /// <summary>
+    /// User ID who recorded this valuation
+    /// </summary>
+    [Required]
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Value in the account's currency
+    /// </summary>
+    public decimal Value { get; set; }
+
+    /// <summary>
+    /// Day the valuation applies to (start of day, UTC)
+    /// </summary>
+    [Required]
+    public DateTime ValuationDate { get; set; }
+
+    /// <summary>
+    /// Where the value came from (appraisal, listing, estimate)
+    /// </summary>
+    [MaxLength(500)]
+    public string? Notes { get; set; }
+
+    // Navigation properties
+    public Account Account { get; set; } = null!;
+}
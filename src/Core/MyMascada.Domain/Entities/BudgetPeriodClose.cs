@@ -0,0 +1,72 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// Record of a budget period being closed by the rollover, with what each rollover category
+/// carried into the next period. Budgets closed together share the same <see cref="ClosedAt"/>.
+/// </summary>
+public class BudgetPeriodClose : BaseEntity
+{
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// The budget whose period was closed
+    /// </summary>
+    public int SourceBudgetId { get; set; }
+
+    /// <summary>
+    /// Name of the closed budget at the time it was closed
+    /// </summary>
+    [Required]
+    [MaxLength(100)]
+    public string SourceBudgetName { get; set; } = string.Empty;
+
+    public DateTime PeriodStartDate { get; set; }
+
+    public DateTime PeriodEndDate { get; set; }
+
+    /// <summary>
+    /// The next period's budget; null when the closed budget was not recurring
+    /// </summary>
+    public int? NewBudgetId { get; set; }
+
+    public DateTime ClosedAt { get; set; }
+
+    // Navigation properties
+    public Budget SourceBudget { get; set; } = null!;
+    public ICollection<BudgetPeriodCloseCategory> Categories { get; set; } = new List<BudgetPeriodCloseCategory>();
+}
+
+/// <summary>
+/// What one category carried into the next period when its budget period was closed
+/// </summary>
+public class BudgetPeriodCloseCategory : BaseEntity
+{
+    public int BudgetPeriodCloseId { get; set; }
+
+    public int CategoryId { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string CategoryName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Amount the rollover calculated for the category
+    /// </summary>
+    public decimal CalculatedAmount { get; set; }
+
+    /// <summary>
+    /// Amount actually carried, which differs from the calculated one when the user overrode it
+    /// </summary>
+    public decimal CarriedAmount { get; set; }
+
+    public bool Overridden { get; set; }
+
+    public BudgetRolloverReason Reason { get; set; }
+
+    // Navigation properties
+    public BudgetPeriodClose BudgetPeriodClose { get; set; } = null!;
+}
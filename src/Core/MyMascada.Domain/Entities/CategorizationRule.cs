@@ -85,6 +85,12 @@ public class CategorizationRule : BaseEntity
     /// </summary>
     public string? AccountTypes { get; set; }
 
+    /// <summary>
+    /// Tags added to a transaction when this rule categorizes it (comma-separated, null = none)
+    /// </summary>
+    [MaxLength(500)]
+    public string? ApplyTags { get; set; }
+
     // Foreign keys
     /// <summary>
     /// User ID who owns this rule
@@ -268,6 +274,14 @@ public class CategorizationRule : BaseEntity
         AccountTypes = string.Join(",", accountTypes.Select(t => t.ToString()));
     }
 
+    /// <summary>
+    /// Gets the tags this rule adds to the transactions it categorizes
+    /// </summary>
+    public IReadOnlyList<string> GetApplyTags()
+    {
+        return Transaction.ParseTags(ApplyTags);
+    }
+
     /// <summary>
     /// Records that this rule was applied to a transaction
     /// </summary>
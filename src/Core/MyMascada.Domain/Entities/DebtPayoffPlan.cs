@@ -0,0 +1,22 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// How a user has chosen to pay down their debts, applied to the terms of each loan and credit
+/// card account when projecting the payoff. A user has at most one plan.
+/// </summary>
+public class DebtPayoffPlan : BaseEntity
+{
+    [Required]
+    public Guid UserId { get; set; }
+
+    public DebtPayoffStrategy Strategy { get; set; } = DebtPayoffStrategy.Avalanche;
+
+    /// <summary>
+    /// Amount paid each month on top of the minimum payments, in the user's base currency
+    /// </summary>
+    public decimal ExtraPayment { get; set; }
+}
@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// Interest and repayment terms of a loan or credit card account, used to project its
+/// amortization and payoff. An account has at most one set of terms.
+/// </summary>
+public class DebtTerms : BaseEntity
+{
+    /// <summary>
+    /// Loan or credit card account the terms apply to
+    /// </summary>
+    [Required]
+    public int AccountId { get; set; }
+
+    /// <summary>
+    /// Annual percentage rate, e.g. 19.99 for 19.99%. Interest compounds monthly at APR / 12.
+    /// </summary>
+    public decimal AnnualInterestRate { get; set; }
+
+    /// <summary>
+    /// Payment due each month in the account's currency
+    /// </summary>
+    public decimal MinimumPayment { get; set; }
+
+    /// <summary>
+    /// Original length of a fixed-term loan in months; null for revolving credit
+    /// </summary>
+    public int? TermMonths { get; set; }
+
+    /// <summary>
+    /// Day the loan started (start of day, UTC), from which the term runs
+    /// </summary>
+    public DateTime? StartDate { get; set; }
+
+    // Navigation properties
+    public Account Account { get; set; } = null!;
+}
@@ -0,0 +1,50 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// The value of one currency in another on a given day, as entered by the user, loaded from
+/// a rates file or realised by a cross-currency transfer. One unit of <see cref="FromCurrency"/>
+/// buys <see cref="Rate"/> units of <see cref="ToCurrency"/>.
+/// </summary>
+public class ExchangeRate : BaseEntity
+{
+    /// <summary>
+    /// User ID who owns this rate
+    /// </summary>
+    [Required]
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// ISO 4217 code of the currency being priced
+    /// </summary>
+    [Required]
+    [MaxLength(3)]
+    public string FromCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// ISO 4217 code of the currency the price is expressed in
+    /// </summary>
+    [Required]
+    [MaxLength(3)]
+    public string ToCurrency { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Units of <see cref="ToCurrency"/> per unit of <see cref="FromCurrency"/>
+    /// </summary>
+    public decimal Rate { get; set; }
+
+    /// <summary>
+    /// Day the rate applies to (start of day, UTC)
+    /// </summary>
+    [Required]
+    public DateTime RateDate { get; set; }
+
+    /// <summary>
+    /// Entered manually, imported from a file or recorded from a transfer
+    /// </summary>
+    [Required]
+    public ExchangeRateSource Source { get; set; } = ExchangeRateSource.Manual;
+}
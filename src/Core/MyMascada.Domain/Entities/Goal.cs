@@ -25,6 +25,17 @@ public class Goal : BaseEntity
 
     public int? LinkedAccountId { get; set; }
 
+    /// <summary>
+    /// Tag whose transactions count as contributions to the goal
+    /// </summary>
+    [MaxLength(Tag.MaxNameLength)]
+    public string? ContributionTag { get; set; }
+
+    /// <summary>
+    /// Wallet whose allocations count as contributions to the goal
+    /// </summary>
+    public int? WalletId { get; set; }
+
     [Required]
     public Guid UserId { get; set; }
 
@@ -35,6 +46,10 @@ public class Goal : BaseEntity
     // Navigation properties
     public Account? Account { get; set; }
 
+    public Wallet? Wallet { get; set; }
+
+    public ICollection<GoalContribution> Contributions { get; set; } = new List<GoalContribution>();
+
     /// <summary>
     /// Gets the progress percentage (0-100)
     /// </summary>
@@ -83,12 +98,32 @@ public class Goal : BaseEntity
     }
 
     /// <summary>
-    /// Marks the goal as completed
+    /// Records a manual contribution and adds it to the current amount, which for goals without a
+    /// linked account is the running total of manual contributions
+    /// </summary>
+    public GoalContribution RecordContribution(decimal amount, DateTime date, string? note = null)
+    {
+        var contribution = new GoalContribution
+        {
+            GoalId = Id,
+            Amount = amount,
+            ContributionDate = date,
+            Note = note
+        };
+
+        Contributions.Add(contribution);
+        CurrentAmount += amount;
+        UpdatedAt = DateTimeProvider.UtcNow;
+        return contribution;
+    }
+
+    /// <summary>
+    /// Marks the goal as completed. The amount is left as it is; completing a goal short of its
+    /// target records the rest as a contribution so the ledger still adds up.
     /// </summary>
     public void MarkCompleted()
     {
         Status = GoalStatus.Completed;
-        CurrentAmount = TargetAmount;
         UpdatedAt = DateTimeProvider.UtcNow;
     }
 
@@ -0,0 +1,31 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// Money the user recorded as put into (or taken out of) a goal by hand. Contributions from
+/// tagged transactions, wallet allocations and linked accounts are derived when the ledger is
+/// read and are not stored here.
+/// </summary>
+public class GoalContribution : BaseEntity
+{
+    [Required]
+    public int GoalId { get; set; }
+
+    /// <summary>
+    /// Amount added to the goal; negative for a withdrawal
+    /// </summary>
+    public decimal Amount { get; set; }
+
+    /// <summary>
+    /// Day of the contribution (start of day, UTC)
+    /// </summary>
+    public DateTime ContributionDate { get; set; }
+
+    [MaxLength(500)]
+    public string? Note { get; set; }
+
+    // Navigation properties
+    public Goal Goal { get; set; } = null!;
+}
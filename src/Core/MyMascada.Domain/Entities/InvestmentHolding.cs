@@ -0,0 +1,34 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// A security held in an investment account. Units and cost basis are not stored; they are
+/// replayed from the holding's <see cref="Trades"/>.
+/// </summary>
+public class InvestmentHolding : BaseEntity
+{
+    /// <summary>
+    /// Investment account holding the security
+    /// </summary>
+    [Required]
+    public int AccountId { get; set; }
+
+    /// <summary>
+    /// Ticker or other identifier, upper case (e.g., VTI, BTC)
+    /// </summary>
+    [Required]
+    [MaxLength(20)]
+    public string Symbol { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Optional descriptive name of the security
+    /// </summary>
+    [MaxLength(200)]
+    public string? Name { get; set; }
+
+    // Navigation properties
+    public Account Account { get; set; } = null!;
+    public ICollection<InvestmentTrade> Trades { get; set; } = new List<InvestmentTrade>();
+}
@@ -0,0 +1,57 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// A buy, sell or dividend on a holding. The cash side of the trade is recorded as an ordinary
+/// transaction on the account, linked through <see cref="TransactionId"/>.
+/// </summary>
+public class InvestmentTrade : BaseEntity
+{
+    [Required]
+    public int HoldingId { get; set; }
+
+    [Required]
+    public InvestmentTradeType Type { get; set; }
+
+    /// <summary>
+    /// Day of the trade (start of day, UTC)
+    /// </summary>
+    [Required]
+    public DateTime TradeDate { get; set; }
+
+    /// <summary>
+    /// Units bought or sold; zero for dividends
+    /// </summary>
+    public decimal Units { get; set; }
+
+    /// <summary>
+    /// Price per unit in the account's currency; zero for dividends
+    /// </summary>
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// Brokerage and other costs of the trade
+    /// </summary>
+    public decimal Fees { get; set; }
+
+    /// <summary>
+    /// Cash moved by the trade, signed as on the account: negative for buys, positive for sells
+    /// and dividends
+    /// </summary>
+    public decimal Amount { get; set; }
+
+    /// <summary>
+    /// Transaction recording the cash side of the trade
+    /// </summary>
+    public int? TransactionId { get; set; }
+
+    [MaxLength(500)]
+    public string? Notes { get; set; }
+
+    // Navigation properties
+    public InvestmentHolding Holding { get; set; } = null!;
+    public Transaction? Transaction { get; set; }
+}
@@ -85,6 +85,26 @@ public class RecurringPattern : BaseEntity
     [MaxLength(500)]
     public string? Notes { get; set; }
 
+    /// <summary>
+    /// Whether the user intends to cancel, or has cancelled, this subscription
+    /// </summary>
+    public SubscriptionCancellationStatus CancellationStatus { get; set; } = SubscriptionCancellationStatus.None;
+
+    /// <summary>
+    /// When the cancellation status last changed
+    /// </summary>
+    public DateTime? CancellationStatusChangedAt { get; set; }
+
+    /// <summary>
+    /// When the user last used the service, as noted by the user
+    /// </summary>
+    public DateTime? LastUsedAt { get; set; }
+
+    /// <summary>
+    /// Date of the latest charge already reported after the user cancelled
+    /// </summary>
+    public DateTime? ChargedAfterCancellationAt { get; set; }
+
     // Navigation properties
 
     /// <summary>
@@ -199,6 +219,35 @@ public class RecurringPattern : BaseEntity
         UpdatedAt = DateTime.UtcNow;
     }
 
+    /// <summary>
+    /// Records the user's cancellation status for this subscription
+    /// </summary>
+    public void SetCancellationStatus(SubscriptionCancellationStatus status)
+    {
+        if (CancellationStatus == status)
+            return;
+
+        CancellationStatus = status;
+        CancellationStatusChangedAt = status == SubscriptionCancellationStatus.None ? null : DateTime.UtcNow;
+        ChargedAfterCancellationAt = null;
+        UpdatedAt = DateTime.UtcNow;
+    }
+
+    /// <summary>
+    /// Checks if a charge was made after the user cancelled and has not been reported yet
+    /// </summary>
+    public bool IsUnreportedChargeAfterCancellation(DateTime transactionDate)
+    {
+        if (CancellationStatus != SubscriptionCancellationStatus.Cancelled || !CancellationStatusChangedAt.HasValue)
+            return false;
+
+        // Charges dated on the cancellation day may have been taken before the user cancelled
+        if (transactionDate.Date <= CancellationStatusChangedAt.Value.Date)
+            return false;
+
+        return !ChargedAfterCancellationAt.HasValue || transactionDate.Date > ChargedAfterCancellationAt.Value.Date;
+    }
+
     /// <summary>
     /// Gets the interval name for display (Weekly/Biweekly/Monthly)
     /// </summary>
@@ -256,18 +305,36 @@ public class RecurringPattern : BaseEntity
     /// Checks if a transaction matches this pattern (description similarity)
     /// </summary>
     public bool MatchesTransaction(string description, decimal amount, decimal similarityThreshold = 0.8m)
+    {
+        // Check description similarity and amount range (±20%)
+        var amountRangeMatch = Math.Abs(amount) >= AverageAmount * 0.8m
+                               && Math.Abs(amount) <= AverageAmount * 1.2m;
+
+        return amountRangeMatch && MatchesMerchant(description, similarityThreshold);
+    }
+
+    /// <summary>
+    /// Checks if a transaction description belongs to this merchant, whatever the amount
+    /// </summary>
+    public bool MatchesMerchant(string? description, decimal similarityThreshold = 0.8m)
     {
         if (string.IsNullOrWhiteSpace(description))
             return false;
 
-        var normalizedDescription = NormalizeDescription(description);
-        var similarity = CalculateStringSimilarity(NormalizedMerchantKey, normalizedDescription);
+        return MatchesNormalizedMerchant(NormalizeDescription(description), similarityThreshold);
+    }
 
-        // Check description similarity and amount range (±20%)
-        var amountRangeMatch = Math.Abs(amount) >= AverageAmount * 0.8m
-                               && Math.Abs(amount) <= AverageAmount * 1.2m;
+    /// <summary>
+    /// Checks if a description already passed through <see cref="NormalizeDescription"/> belongs to this merchant
+    /// </summary>
+    public bool MatchesNormalizedMerchant(string normalizedDescription, decimal similarityThreshold = 0.8m)
+    {
+        // The edit distance is at least the length difference, so lengths alone rule most descriptions out
+        var maxLength = Math.Max(NormalizedMerchantKey.Length, normalizedDescription.Length);
+        if (Math.Abs(NormalizedMerchantKey.Length - normalizedDescription.Length) > (1m - similarityThreshold) * maxLength)
+            return false;
 
-        return similarity >= similarityThreshold && amountRangeMatch;
+        return CalculateStringSimilarity(NormalizedMerchantKey, normalizedDescription) >= similarityThreshold;
     }
 
     /// <summary>
@@ -0,0 +1,212 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// A recurring payment or deposit declared by the user (rent, salary, subscriptions).
+/// Unlike <see cref="RecurringPattern"/>, which is inferred from history, a schedule is
+/// known up front and produces expected transactions on its due dates.
+/// </summary>
+public class RecurringSchedule : BaseEntity
+{
+    /// <summary>
+    /// User ID who owns this schedule
+    /// </summary>
+    [Required]
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Display name (e.g. "Rent", "Salary")
+    /// </summary>
+    [Required]
+    [MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Account the payment is expected on
+    /// </summary>
+    [Required]
+    public int AccountId { get; set; }
+
+    /// <summary>
+    /// Optional category for the expected transaction
+    /// </summary>
+    public int? CategoryId { get; set; }
+
+    /// <summary>
+    /// Expected amount, signed like a transaction (negative = expense, positive = income)
+    /// </summary>
+    public decimal Amount { get; set; }
+
+    /// <summary>
+    /// How often the schedule falls due
+    /// </summary>
+    public ScheduleFrequency Frequency { get; set; } = ScheduleFrequency.Monthly;
+
+    /// <summary>
+    /// First due date. Later due dates are stepped from this date so monthly schedules
+    /// keep their day of month (a schedule starting on the 31st falls on the last day of shorter months).
+    /// </summary>
+    public DateTime StartDate { get; set; }
+
+    /// <summary>
+    /// Optional last date the schedule can fall due on
+    /// </summary>
+    public DateTime? EndDate { get; set; }
+
+    /// <summary>
+    /// Next due date that has not been matched or recorded as missed yet
+    /// </summary>
+    public DateTime NextDueDate { get; set; }
+
+    /// <summary>
+    /// Text expected in the transaction description. Falls back to <see cref="Name"/> when empty.
+    /// </summary>
+    [MaxLength(200)]
+    public string? MatchText { get; set; }
+
+    /// <summary>
+    /// How far the actual amount may differ from <see cref="Amount"/>, in percent, before
+    /// the payment is reported as changed
+    /// </summary>
+    public decimal AmountTolerancePercent { get; set; } = 10m;
+
+    /// <summary>
+    /// Inactive schedules stay listed but are not matched, alerted on or shown as upcoming
+    /// </summary>
+    public bool IsActive { get; set; } = true;
+
+    /// <summary>
+    /// User notes
+    /// </summary>
+    [MaxLength(500)]
+    public string? Notes { get; set; }
+
+    /// <summary>
+    /// When a transaction was last matched to this schedule
+    /// </summary>
+    public DateTime? LastMatchedAt { get; set; }
+
+    // Navigation properties
+    public Account Account { get; set; } = null!;
+    public Category? Category { get; set; }
+    public ICollection<RecurringScheduleOccurrence> Occurrences { get; set; } = new List<RecurringScheduleOccurrence>();
+
+    // Business logic methods
+
+    /// <summary>
+    /// Due date of the n-th occurrence (0 = <see cref="StartDate"/>)
+    /// </summary>
+    public DateTime GetDueDate(int index)
+    {
+        var start = StartDate.Date;
+        return Frequency switch
+        {
+            ScheduleFrequency.Weekly => start.AddDays(7 * index),
+            ScheduleFrequency.Biweekly => start.AddDays(14 * index),
+            ScheduleFrequency.Quarterly => start.AddMonths(3 * index),
+            ScheduleFrequency.Yearly => start.AddYears(index),
+            _ => start.AddMonths(index)
+        };
+    }
+
+    /// <summary>
+    /// Due dates between the two dates (inclusive), stopping at <see cref="EndDate"/>
+    /// </summary>
+    public IEnumerable<DateTime> GetDueDatesBetween(DateTime from, DateTime to)
+    {
+        for (var index = 0; ; index++)
+        {
+            var dueDate = GetDueDate(index);
+            if (dueDate > to.Date || HasEndedBy(dueDate))
+                yield break;
+
+            if (dueDate >= from.Date)
+                yield return dueDate;
+        }
+    }
+
+    /// <summary>
+    /// First due date strictly after the given date. Past the end date this keeps stepping,
+    /// so callers check <see cref="HasEndedBy"/>.
+    /// </summary>
+    public DateTime GetDueDateAfter(DateTime date)
+    {
+        for (var index = 0; ; index++)
+        {
+            var dueDate = GetDueDate(index);
+            if (dueDate > date.Date)
+                return dueDate;
+        }
+    }
+
+    /// <summary>
+    /// First due date on or after the given date
+    /// </summary>
+    public DateTime GetDueDateOnOrAfter(DateTime date) => GetDueDateAfter(date.Date.AddDays(-1));
+
+    /// <summary>
+    /// True when the due date falls after the schedule's end date
+    /// </summary>
+    public bool HasEndedBy(DateTime dueDate) => EndDate.HasValue && dueDate.Date > EndDate.Value.Date;
+
+    /// <summary>
+    /// True when the schedule still produces expected transactions
+    /// </summary>
+    public bool IsRunning => IsActive && !HasEndedBy(NextDueDate);
+
+    /// <summary>
+    /// Days before or after a due date in which a transaction still counts for it
+    /// </summary>
+    public int GetGraceDays()
+    {
+        return Frequency switch
+        {
+            ScheduleFrequency.Weekly => 2,
+            ScheduleFrequency.Biweekly => 3,
+            _ => 5
+        };
+    }
+
+    /// <summary>
+    /// Checks whether an actual amount is within the tolerance of the expected amount
+    /// </summary>
+    public bool IsAmountWithinTolerance(decimal amount)
+    {
+        var expected = Math.Abs(Amount);
+        return Math.Abs(Math.Abs(amount) - expected) <= expected * AmountTolerancePercent / 100m;
+    }
+
+    /// <summary>
+    /// Checks whether a transaction pays the given due date of this schedule: same account,
+    /// same direction, within the grace window, and the description contains the match text.
+    /// </summary>
+    public bool MatchesTransaction(int accountId, string? description, decimal amount, DateTime transactionDate, DateTime dueDate)
+    {
+        if (!IsInWindow(accountId, amount, transactionDate, dueDate))
+            return false;
+
+        var matchText = string.IsNullOrWhiteSpace(MatchText) ? Name : MatchText;
+        return !string.IsNullOrWhiteSpace(description)
+               && description.Contains(matchText.Trim(), StringComparison.OrdinalIgnoreCase);
+    }
+
+    /// <summary>
+    /// Checks whether a transaction could pay the given due date on its amount alone. Bank
+    /// descriptions drift, so this is only trusted when it is the single such transaction in the window.
+    /// </summary>
+    public bool MatchesAmountOnly(int accountId, decimal amount, DateTime transactionDate, DateTime dueDate)
+    {
+        return IsInWindow(accountId, amount, transactionDate, dueDate) && IsAmountWithinTolerance(amount);
+    }
+
+    private bool IsInWindow(int accountId, decimal amount, DateTime transactionDate, DateTime dueDate)
+    {
+        if (accountId != AccountId || amount == 0 || Math.Sign(amount) != Math.Sign(Amount))
+            return false;
+
+        return Math.Abs((transactionDate.Date - dueDate.Date).TotalDays) <= GetGraceDays();
+    }
+}
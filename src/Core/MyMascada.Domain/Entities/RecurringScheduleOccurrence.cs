@@ -0,0 +1,91 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// Outcome of one due date of a <see cref="RecurringSchedule"/>: the transaction that paid it,
+/// or a record that it was missed.
+/// </summary>
+public class RecurringScheduleOccurrence : BaseEntity
+{
+    /// <summary>
+    /// Foreign key to the parent schedule
+    /// </summary>
+    [Required]
+    public int ScheduleId { get; set; }
+
+    /// <summary>
+    /// The due date this occurrence is for
+    /// </summary>
+    [Required]
+    public DateTime DueDate { get; set; }
+
+    /// <summary>
+    /// The schedule's amount at the time (signed)
+    /// </summary>
+    public decimal ExpectedAmount { get; set; }
+
+    /// <summary>
+    /// Matched transaction, null when missed
+    /// </summary>
+    public int? TransactionId { get; set; }
+
+    /// <summary>
+    /// Date of the matched transaction
+    /// </summary>
+    public DateTime? ActualDate { get; set; }
+
+    /// <summary>
+    /// Amount of the matched transaction (signed)
+    /// </summary>
+    public decimal? ActualAmount { get; set; }
+
+    /// <summary>
+    /// Posted on time, late, or missed
+    /// </summary>
+    [Required]
+    public OccurrenceOutcome Outcome { get; set; } = OccurrenceOutcome.Posted;
+
+    /// <summary>
+    /// True when the matched amount was outside the schedule's tolerance
+    /// </summary>
+    public bool AmountChanged { get; set; }
+
+    // Navigation properties
+    public RecurringSchedule Schedule { get; set; } = null!;
+    public Transaction? Transaction { get; set; }
+
+    /// <summary>
+    /// Creates an occurrence for a due date that passed without a matching transaction
+    /// </summary>
+    public static RecurringScheduleOccurrence CreateMissed(RecurringSchedule schedule, DateTime dueDate)
+    {
+        return new RecurringScheduleOccurrence
+        {
+            ScheduleId = schedule.Id,
+            DueDate = dueDate,
+            ExpectedAmount = schedule.Amount,
+            Outcome = OccurrenceOutcome.Missed
+        };
+    }
+
+    /// <summary>
+    /// Creates an occurrence for a due date paid by the given transaction
+    /// </summary>
+    public static RecurringScheduleOccurrence CreateMatched(RecurringSchedule schedule, DateTime dueDate, Transaction transaction)
+    {
+        return new RecurringScheduleOccurrence
+        {
+            ScheduleId = schedule.Id,
+            DueDate = dueDate,
+            ExpectedAmount = schedule.Amount,
+            TransactionId = transaction.Id,
+            ActualDate = transaction.TransactionDate,
+            ActualAmount = transaction.Amount,
+            Outcome = transaction.TransactionDate.Date > dueDate.Date ? OccurrenceOutcome.Late : OccurrenceOutcome.Posted,
+            AmountChanged = !schedule.IsAmountWithinTolerance(transaction.Amount)
+        };
+    }
+}
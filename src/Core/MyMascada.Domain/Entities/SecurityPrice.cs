@@ -0,0 +1,42 @@
+using System.ComponentModel.DataAnnotations;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// The price of one unit of a security on a given day, as entered by the user, loaded from a
+/// quotes file or taken from a trade. Prices belong to the user who owns the holdings.
+/// </summary>
+public class SecurityPrice : BaseEntity
+{
+    /// <summary>
+    /// User ID who owns this price
+    /// </summary>
+    [Required]
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Ticker the price is for, upper case
+    /// </summary>
+    [Required]
+    [MaxLength(20)]
+    public string Symbol { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Day the price applies to (start of day, UTC)
+    /// </summary>
+    [Required]
+    public DateTime PriceDate { get; set; }
+
+    /// <summary>
+    /// Price per unit in the currency of the accounts holding the security
+    /// </summary>
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// Entered manually, imported from a file or recorded from a trade
+    /// </summary>
+    [Required]
+    public SecurityPriceSource Source { get; set; } = SecurityPriceSource.Manual;
+}
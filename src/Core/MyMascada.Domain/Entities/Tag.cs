@@ -0,0 +1,34 @@
+using MyMascada.Domain.Common;
+using System.ComponentModel.DataAnnotations;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// A user's tag with its display settings. Transactions keep their tag names in
+/// <see cref="Transaction.Tags"/> and are linked to the matching tag through
+/// <see cref="TransactionTag"/>; a tag can also be created before it has been used so it
+/// shows up in autocomplete.
+/// </summary>
+public class Tag : BaseEntity
+{
+    public const int MaxNameLength = 50;
+
+    [Required]
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Tag name as shown to the user. Unique per user, compared case-insensitively.
+    /// </summary>
+    [Required]
+    [MaxLength(MaxNameLength)]
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Hex color used for the tag chip
+    /// </summary>
+    [MaxLength(7)]
+    public string? Color { get; set; }
+
+    // Navigation properties
+    public ICollection<TransactionTag> TransactionTags { get; set; } = new List<TransactionTag>();
+}
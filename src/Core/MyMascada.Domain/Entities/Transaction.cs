@@ -49,6 +49,13 @@ public class Transaction : BaseEntity
     [MaxLength(100)]
     public string? ExternalId { get; set; }
 
+    /// <summary>
+    /// Client-supplied key identifying the request that created the transaction, so a retried
+    /// create (e.g. an offline outbox replay) returns the original instead of adding a copy
+    /// </summary>
+    [MaxLength(100)]
+    public string? IdempotencyKey { get; set; }
+
     /// <summary>
     /// Reference number or check number
     /// </summary>
@@ -175,6 +182,16 @@ public class Transaction : BaseEntity
     /// </summary>
     public ICollection<WalletAllocation> WalletAllocations { get; set; } = new List<WalletAllocation>();
 
+    /// <summary>
+    /// Receipts and documents attached to this transaction
+    /// </summary>
+    public ICollection<TransactionAttachment> Attachments { get; set; } = new List<TransactionAttachment>();
+
+    /// <summary>
+    /// Links to the transaction's tags, which tag filters and reports read instead of <see cref="Tags"/>
+    /// </summary>
+    public ICollection<TransactionTag> TransactionTags { get; set; } = new List<TransactionTag>();
+
     /// <summary>
     /// Gets the display description, preferring user description over original
     /// </summary>
@@ -227,6 +244,51 @@ public class Transaction : BaseEntity
         return Amount;
     }
 
+    /// <summary>
+    /// Gets the amounts counted under each category: one entry per split line for a split
+    /// transaction, otherwise the whole amount under the transaction's own category
+    /// </summary>
+    public IEnumerable<(int CategoryId, Category? Category, decimal Amount)> GetCategoryAmounts()
+    {
+        if (IsSplit())
+        {
+            return Splits
+                .Where(s => !s.IsDeleted)
+                .Select(s => (s.CategoryId, (Category?)s.Category, s.Amount))
+                .ToList();
+        }
+
+        return CategoryId.HasValue
+            ? new[] { (CategoryId.Value, Category, Amount) }
+            : Array.Empty<(int, Category?, decimal)>();
+    }
+
+    /// <summary>
+    /// Replaces the split lines. The transaction's own category follows the largest line so
+    /// views that ignore splits still show something sensible; an empty list removes the split.
+    /// </summary>
+    public void ReplaceSplits(IEnumerable<TransactionSplit> splits)
+    {
+        var now = DateTimeProvider.UtcNow;
+        foreach (var existing in Splits.Where(s => !s.IsDeleted))
+        {
+            existing.IsDeleted = true;
+            existing.DeletedAt = now;
+            existing.UpdatedAt = now;
+        }
+
+        var lines = splits.ToList();
+        foreach (var line in lines)
+        {
+            Splits.Add(line);
+        }
+
+        if (lines.Count > 0)
+        {
+            CategoryId = lines.OrderByDescending(l => Math.Abs(l.Amount)).First().CategoryId;
+        }
+    }
+
     /// <summary>
     /// Marks this transaction as auto-categorized with the specified details
     /// </summary>
@@ -248,25 +310,89 @@ public class Transaction : BaseEntity
         return IsAutoCategorized && AutoCategorizationMethod == method;
     }
 
+    /// <summary>
+    /// Parses a comma-separated tag string into trimmed names, dropping blanks and
+    /// case-insensitive duplicates (the first spelling wins)
+    /// </summary>
+    public static IReadOnlyList<string> ParseTags(string? tags)
+    {
+        if (string.IsNullOrWhiteSpace(tags))
+            return Array.Empty<string>();
+
+        return tags.Split(',', StringSplitOptions.RemoveEmptyEntries)
+                   .Select(tag => tag.Trim())
+                   .Where(tag => !string.IsNullOrEmpty(tag))
+                   .Distinct(StringComparer.OrdinalIgnoreCase)
+                   .ToList();
+    }
+
     /// <summary>
     /// Parses tags from the Tags string
     /// </summary>
     public IEnumerable<string> GetTags()
     {
-        if (string.IsNullOrWhiteSpace(Tags))
-            return Enumerable.Empty<string>();
+        return ParseTags(Tags);
+    }
 
-        return Tags.Split(',', StringSplitOptions.RemoveEmptyEntries)
-                  .Select(tag => tag.Trim())
-                  .Where(tag => !string.IsNullOrEmpty(tag));
+    /// <summary>
+    /// Normalizes a comma-separated tag string the way it is stored: trimmed, de-duplicated,
+    /// joined without spaces, and null when there are no tags
+    /// </summary>
+    public static string? NormalizeTags(string? tags)
+    {
+        var parsed = ParseTags(tags);
+        return parsed.Count > 0 ? string.Join(",", parsed) : null;
     }
 
     /// <summary>
-    /// Sets tags from a collection of strings
+    /// Sets tags from a collection of strings, storing null when there are none
     /// </summary>
     public void SetTags(IEnumerable<string> tags)
     {
-        Tags = string.Join(",", tags.Where(t => !string.IsNullOrWhiteSpace(t)));
+        Tags = NormalizeTags(string.Join(",", tags));
+    }
+
+    /// <summary>
+    /// Checks if this transaction carries the tag (case-insensitive)
+    /// </summary>
+    public bool HasTag(string tag)
+    {
+        return GetTags().Contains(tag.Trim(), StringComparer.OrdinalIgnoreCase);
+    }
+
+    /// <summary>
+    /// Adds tags that are not already present. Returns whether anything changed.
+    /// </summary>
+    public bool AddTags(IEnumerable<string> tags)
+    {
+        var current = GetTags().ToList();
+        var added = ParseTags(string.Join(",", tags))
+            .Where(tag => !current.Contains(tag, StringComparer.OrdinalIgnoreCase))
+            .ToList();
+
+        if (added.Count == 0)
+            return false;
+
+        SetTags(current.Concat(added));
+        return true;
+    }
+
+    /// <summary>
+    /// Removes tags (case-insensitive). Returns whether anything changed.
+    /// </summary>
+    public bool RemoveTags(IEnumerable<string> tags)
+    {
+        var removed = ParseTags(string.Join(",", tags));
+        var current = GetTags().ToList();
+        var remaining = current
+            .Where(tag => !removed.Contains(tag, StringComparer.OrdinalIgnoreCase))
+            .ToList();
+
+        if (remaining.Count == current.Count)
+            return false;
+
+        SetTags(remaining);
+        return true;
     }
 
     /// <summary>
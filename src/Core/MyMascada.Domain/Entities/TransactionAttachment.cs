@@ -0,0 +1,62 @@
+using MyMascada.Domain.Common;
+using System.ComponentModel.DataAnnotations;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// A receipt or document attached to a transaction. The file itself lives in the configured
+/// file storage under <see cref="StorageKey"/>; this entity only holds its metadata.
+/// </summary>
+public class TransactionAttachment : BaseEntity
+{
+    /// <summary>
+    /// ID of the transaction the file is attached to
+    /// </summary>
+    [Required]
+    public int TransactionId { get; set; }
+
+    /// <summary>
+    /// User who uploaded the file (may differ from the account owner on shared accounts)
+    /// </summary>
+    [Required]
+    public Guid UploadedByUserId { get; set; }
+
+    /// <summary>
+    /// Original file name as uploaded, shown to the user and used for downloads
+    /// </summary>
+    [Required]
+    [MaxLength(255)]
+    public string FileName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// MIME type of the file (image/jpeg, application/pdf, ...)
+    /// </summary>
+    [Required]
+    [MaxLength(100)]
+    public string ContentType { get; set; } = string.Empty;
+
+    /// <summary>
+    /// File size in bytes
+    /// </summary>
+    public long SizeBytes { get; set; }
+
+    /// <summary>
+    /// Opaque key of the file in the storage backend
+    /// </summary>
+    [Required]
+    [MaxLength(300)]
+    public string StorageKey { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Transaction the file is attached to
+    /// </summary>
+    public Transaction Transaction { get; set; } = null!;
+
+    /// <summary>
+    /// Checks if the file is an image that can be shown as a thumbnail
+    /// </summary>
+    public bool IsImage()
+    {
+        return ContentType.StartsWith("image/", StringComparison.OrdinalIgnoreCase);
+    }
+}
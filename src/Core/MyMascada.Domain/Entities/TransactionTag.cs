@@ -0,0 +1,24 @@
+using MyMascada.Domain.Common;
+using System.ComponentModel.DataAnnotations;
+
+namespace MyMascada.Domain.Entities;
+
+/// <summary>
+/// Links a transaction to one of its owner's tags. These rows are the record of which
+/// transactions carry a tag: tag filters and reports join on them, while
+/// <see cref="Transaction.Tags"/> keeps the names for display. Whatever changes a
+/// transaction's tags brings its links in step through the tag service.
+/// </summary>
+public class TransactionTag : BaseEntity
+{
+    [Required]
+    public int TransactionId { get; set; }
+
+    [Required]
+    public int TagId { get; set; }
+
+    // Navigation properties
+    public Transaction Transaction { get; set; } = null!;
+
+    public Tag Tag { get; set; } = null!;
+}
@@ -0,0 +1,27 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// Why a budget category carried what it did into the next period when its period was closed
+/// </summary>
+public enum BudgetRolloverReason
+{
+    /// <summary>
+    /// The unspent remainder carried over
+    /// </summary>
+    Surplus = 1,
+
+    /// <summary>
+    /// The overspend carried over as debt (CarryOverspend)
+    /// </summary>
+    OverspendCarried = 2,
+
+    /// <summary>
+    /// The overspend was dropped and nothing carried over
+    /// </summary>
+    OverspendCapped = 3,
+
+    /// <summary>
+    /// The budget ended, so there was no next period to carry into
+    /// </summary>
+    NotRecurring = 4
+}
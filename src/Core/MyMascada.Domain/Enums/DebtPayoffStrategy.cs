@@ -0,0 +1,17 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// Order in which a payoff plan puts extra money towards debts
+/// </summary>
+public enum DebtPayoffStrategy
+{
+    /// <summary>
+    /// Highest interest rate first; pays the least interest overall
+    /// </summary>
+    Avalanche = 1,
+
+    /// <summary>
+    /// Smallest balance first; clears individual debts soonest
+    /// </summary>
+    Snowball = 2
+}
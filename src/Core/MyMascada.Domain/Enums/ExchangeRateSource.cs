@@ -0,0 +1,11 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// Where a stored exchange rate came from
+/// </summary>
+public enum ExchangeRateSource
+{
+    Manual = 1,
+    Imported = 2,
+    Transfer = 3
+}
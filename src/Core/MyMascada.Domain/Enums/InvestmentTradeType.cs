@@ -0,0 +1,22 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// What an investment trade did to a holding
+/// </summary>
+public enum InvestmentTradeType
+{
+    /// <summary>
+    /// Units bought; cash leaves the account
+    /// </summary>
+    Buy = 1,
+
+    /// <summary>
+    /// Units sold; cash enters the account
+    /// </summary>
+    Sell = 2,
+
+    /// <summary>
+    /// Income paid on the holding; units are unchanged
+    /// </summary>
+    Dividend = 3
+}
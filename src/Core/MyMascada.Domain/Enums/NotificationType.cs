@@ -10,6 +10,9 @@ public enum NotificationType
     RecurringTransactionCreated = 2,
     CategorizationReminder = 3,
     LargeTransaction = 4,
+    ScheduledPaymentMissed = 5,
+    ScheduledPaymentAmountChanged = 6,
+    CancelledSubscriptionCharged = 7,
 
     // Budget & Spending
     BudgetThreshold = 10,
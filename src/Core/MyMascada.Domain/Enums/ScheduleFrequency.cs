@@ -0,0 +1,13 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// How often a user-defined recurring schedule falls due
+/// </summary>
+public enum ScheduleFrequency
+{
+    Weekly = 1,
+    Biweekly = 2,
+    Monthly = 3,
+    Quarterly = 4,
+    Yearly = 5
+}
@@ -0,0 +1,11 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// Where a stored security price came from
+/// </summary>
+public enum SecurityPriceSource
+{
+    Manual = 1,
+    Imported = 2,
+    Trade = 3
+}
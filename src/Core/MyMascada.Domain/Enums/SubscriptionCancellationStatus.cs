@@ -0,0 +1,23 @@
+namespace MyMascada.Domain.Enums;
+
+/// <summary>
+/// Where the user is in cancelling a detected subscription. Kept apart from
+/// <see cref="RecurringPatternStatus"/>, which detection changes on its own.
+/// </summary>
+public enum SubscriptionCancellationStatus
+{
+    /// <summary>
+    /// The user has not flagged the subscription
+    /// </summary>
+    None = 0,
+
+    /// <summary>
+    /// The user plans to cancel the subscription
+    /// </summary>
+    CancelIntended = 1,
+
+    /// <summary>
+    /// The user has cancelled the subscription; any further charge is unexpected
+    /// </summary>
+    Cancelled = 2
+}
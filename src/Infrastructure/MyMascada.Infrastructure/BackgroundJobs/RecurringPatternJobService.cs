@@ -9,7 +9,8 @@ namespace MyMascada.Infrastructure.BackgroundJobs;
 
 /// <summary>
 /// Hangfire-based implementation of recurring pattern background jobs.
-/// Runs daily to detect patterns and process missed payments for all users.
+/// Runs daily to detect patterns, process missed payments (inferred patterns and
+/// user-defined schedules) and check cancelled subscriptions for all users.
 /// </summary>
 public class RecurringPatternJobService : IRecurringPatternJobService
 {
@@ -44,6 +45,8 @@ public class RecurringPatternJobService : IRecurringPatternJobService
             using var scope = _serviceScopeFactory.CreateScope();
             var patternRepository = scope.ServiceProvider.GetRequiredService<IRecurringPatternRepository>();
             var persistenceService = scope.ServiceProvider.GetRequiredService<IRecurringPatternPersistenceService>();
+            var scheduleService = scope.ServiceProvider.GetRequiredService<IRecurringScheduleService>();
+            var subscriptionTracker = scope.ServiceProvider.GetRequiredService<ISubscriptionTrackerService>();
 
             // Get all users who have transactions
             var userIds = await patternRepository.GetUserIdsWithTransactionsAsync();
@@ -65,6 +68,12 @@ public class RecurringPatternJobService : IRecurringPatternJobService
                     var missedPayments = await persistenceService.ProcessMissedPaymentsAsync(userId);
                     totalMissedPaymentsProcessed += missedPayments;
 
+                    // Process missed scheduled payments
+                    totalMissedPaymentsProcessed += await scheduleService.ProcessMissedSchedulesAsync(userId);
+
+                    // Alert on charges from subscriptions the user cancelled
+                    await subscriptionTracker.DetectChargesAfterCancellationAsync(userId);
+
                     totalUsersProcessed++;
 
                     if ((totalUsersProcessed % 10) == 0)
@@ -127,6 +136,8 @@ public class RecurringPatternJobService : IRecurringPatternJobService
         {
             using var scope = _serviceScopeFactory.CreateScope();
             var persistenceService = scope.ServiceProvider.GetRequiredService<IRecurringPatternPersistenceService>();
+            var scheduleService = scope.ServiceProvider.GetRequiredService<IRecurringScheduleService>();
+            var subscriptionTracker = scope.ServiceProvider.GetRequiredService<ISubscriptionTrackerService>();
 
             // Detect and persist patterns
             var patternsDetected = await persistenceService.DetectAndPersistPatternsAsync(userId);
@@ -134,6 +145,12 @@ public class RecurringPatternJobService : IRecurringPatternJobService
             // Process missed payments
             var missedPayments = await persistenceService.ProcessMissedPaymentsAsync(userId);
 
+            // Process missed scheduled payments
+            missedPayments += await scheduleService.ProcessMissedSchedulesAsync(userId);
+
+            // Alert on charges from subscriptions the user cancelled
+            await subscriptionTracker.DetectChargesAfterCancellationAsync(userId);
+
             var totalDuration = DateTime.UtcNow - startTime;
 
             _logger.LogInformation("✅ Recurring pattern job completed for user {UserId}. " +
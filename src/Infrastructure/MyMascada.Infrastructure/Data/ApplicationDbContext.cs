@@ -36,6 +36,8 @@ public class ApplicationDbContext : DbContext
     public DbSet<EmailVerificationToken> EmailVerificationTokens => Set<EmailVerificationToken>();
     public DbSet<Budget> Budgets => Set<Budget>();
     public DbSet<BudgetCategory> BudgetCategories => Set<BudgetCategory>();
+    public DbSet<BudgetPeriodClose> BudgetPeriodCloses => Set<BudgetPeriodClose>();
+    public DbSet<BudgetPeriodCloseCategory> BudgetPeriodCloseCategories => Set<BudgetPeriodCloseCategory>();
     public DbSet<RecurringPattern> RecurringPatterns => Set<RecurringPattern>();
     public DbSet<RecurringOccurrence> RecurringOccurrences => Set<RecurringOccurrence>();
     public DbSet<WaitlistEntry> WaitlistEntries => Set<WaitlistEntry>();
@@ -45,6 +47,7 @@ public class ApplicationDbContext : DbContext
     public DbSet<ChatMessage> ChatMessages => Set<ChatMessage>();
     public DbSet<UserTelegramSettings> UserTelegramSettings => Set<UserTelegramSettings>();
     public DbSet<Goal> Goals => Set<Goal>();
+    public DbSet<GoalContribution> GoalContributions => Set<GoalContribution>();
     public DbSet<Wallet> Wallets => Set<Wallet>();
     public DbSet<WalletAllocation> WalletAllocations => Set<WalletAllocation>();
     public DbSet<UserFinancialProfile> UserFinancialProfiles => Set<UserFinancialProfile>();
@@ -56,6 +59,18 @@ public class ApplicationDbContext : DbContext
     public DbSet<NotificationPreference> NotificationPreferences => Set<NotificationPreference>();
     public DbSet<CategorizationHistory> CategorizationHistories => Set<CategorizationHistory>();
     public DbSet<AiCategorizationUsage> AiCategorizationUsages => Set<AiCategorizationUsage>();
+    public DbSet<Tag> Tags => Set<Tag>();
+    public DbSet<TransactionTag> TransactionTags => Set<TransactionTag>();
+    public DbSet<TransactionAttachment> TransactionAttachments => Set<TransactionAttachment>();
+    public DbSet<RecurringSchedule> RecurringSchedules => Set<RecurringSchedule>();
+    public DbSet<RecurringScheduleOccurrence> RecurringScheduleOccurrences => Set<RecurringScheduleOccurrence>();
+    public DbSet<ExchangeRate> ExchangeRates => Set<ExchangeRate>();
+    public DbSet<AccountValuation> AccountValuations => Set<AccountValuation>();
+    public DbSet<InvestmentHolding> InvestmentHoldings => Set<InvestmentHolding>();
+    public DbSet<InvestmentTrade> InvestmentTrades => Set<InvestmentTrade>();
+    public DbSet<SecurityPrice> SecurityPrices => Set<SecurityPrice>();
+    public DbSet<DebtTerms> DebtTerms => Set<DebtTerms>();
+    public DbSet<DebtPayoffPlan> DebtPayoffPlans => Set<DebtPayoffPlan>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -115,6 +130,12 @@ public class ApplicationDbContext : DbContext
             // Index for auto-categorization queries
             entity.HasIndex(e => e.IsAutoCategorized);
             entity.HasIndex(e => e.AutoCategorizationMethod);
+
+            // Retried creates are matched on the key within the account
+            entity.Property(e => e.IdempotencyKey).HasMaxLength(100);
+            entity.HasIndex(e => new { e.AccountId, e.IdempotencyKey })
+                .IsUnique()
+                .HasFilter("\"IdempotencyKey\" IS NOT NULL AND \"IsDeleted\" = false");
             
             entity.HasQueryFilter(e => !e.IsDeleted);
         });
@@ -165,6 +186,7 @@ public class ApplicationDbContext : DbContext
             entity.HasKey(e => e.Id);
             entity.Property(e => e.Name).IsRequired().HasMaxLength(100);
             entity.Property(e => e.Pattern).IsRequired().HasMaxLength(500);
+            entity.Property(e => e.ApplyTags).HasMaxLength(500);
             entity.HasOne<User>()
                 .WithMany(u => u.CategorizationRules)
                 .HasForeignKey(e => e.UserId)
@@ -599,6 +621,40 @@ public class ApplicationDbContext : DbContext
             entity.HasQueryFilter(e => !e.IsDeleted);
         });
 
+        // BudgetPeriodClose configuration
+        modelBuilder.Entity<BudgetPeriodClose>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.SourceBudgetName).IsRequired().HasMaxLength(100);
+
+            entity.HasIndex(e => new { e.UserId, e.ClosedAt });
+            entity.HasIndex(e => e.SourceBudgetId);
+            entity.HasIndex(e => e.NewBudgetId);
+
+            entity.HasOne(e => e.SourceBudget)
+                .WithMany()
+                .HasForeignKey(e => e.SourceBudgetId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // BudgetPeriodCloseCategory configuration
+        modelBuilder.Entity<BudgetPeriodCloseCategory>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.CategoryName).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.CalculatedAmount).HasPrecision(18, 2);
+            entity.Property(e => e.CarriedAmount).HasPrecision(18, 2);
+
+            entity.HasOne(e => e.BudgetPeriodClose)
+                .WithMany(c => c.Categories)
+                .HasForeignKey(e => e.BudgetPeriodCloseId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
         // RecurringPattern configuration
         modelBuilder.Entity<RecurringPattern>(entity =>
         {
@@ -792,6 +848,7 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.CurrentAmount).HasPrecision(18, 2);
             entity.Property(e => e.UserId).IsRequired();
             entity.Property(e => e.IsPinned).HasDefaultValue(false);
+            entity.Property(e => e.ContributionTag).HasMaxLength(Tag.MaxNameLength);
 
             // Indexes for efficient querying
             entity.HasIndex(e => e.UserId);
@@ -803,6 +860,30 @@ public class ApplicationDbContext : DbContext
                 .HasForeignKey(e => e.LinkedAccountId)
                 .OnDelete(DeleteBehavior.SetNull);
 
+            // Optional FK to the Wallet whose allocations feed the goal
+            entity.HasOne(e => e.Wallet)
+                .WithMany()
+                .HasForeignKey(e => e.WalletId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // GoalContribution configuration
+        modelBuilder.Entity<GoalContribution>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.GoalId).IsRequired();
+            entity.Property(e => e.Amount).HasPrecision(18, 2);
+            entity.Property(e => e.Note).HasMaxLength(500);
+
+            entity.HasIndex(e => new { e.GoalId, e.ContributionDate });
+
+            entity.HasOne(e => e.Goal)
+                .WithMany(g => g.Contributions)
+                .HasForeignKey(e => e.GoalId)
+                .OnDelete(DeleteBehavior.Cascade);
+
             entity.HasQueryFilter(e => !e.IsDeleted);
         });
 
@@ -1050,6 +1131,282 @@ public class ApplicationDbContext : DbContext
 
             entity.HasQueryFilter(e => !e.IsDeleted);
         });
+
+        // Tag configuration
+        modelBuilder.Entity<Tag>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.Name).IsRequired().HasMaxLength(Tag.MaxNameLength);
+            entity.Property(e => e.Color).HasMaxLength(7);
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // One tag per name per user (excluding soft-deleted)
+            entity.HasIndex(e => new { e.UserId, e.Name })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // TransactionTag configuration
+        modelBuilder.Entity<TransactionTag>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TransactionId).IsRequired();
+            entity.Property(e => e.TagId).IsRequired();
+
+            entity.HasOne(e => e.Transaction)
+                .WithMany(t => t.TransactionTags)
+                .HasForeignKey(e => e.TransactionId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Tag)
+                .WithMany(t => t.TransactionTags)
+                .HasForeignKey(e => e.TagId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // A transaction carries each tag once (excluding soft-deleted links)
+            entity.HasIndex(e => new { e.TransactionId, e.TagId })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+            entity.HasIndex(e => e.TagId);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // TransactionAttachment configuration
+        modelBuilder.Entity<TransactionAttachment>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.FileName).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.ContentType).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.StorageKey).IsRequired().HasMaxLength(300);
+
+            entity.HasOne(e => e.Transaction)
+                .WithMany(t => t.Attachments)
+                .HasForeignKey(e => e.TransactionId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.TransactionId);
+            entity.HasIndex(e => e.StorageKey).IsUnique();
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // RecurringSchedule configuration
+        modelBuilder.Entity<RecurringSchedule>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.Name).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.Amount).HasPrecision(18, 2);
+            entity.Property(e => e.Frequency).IsRequired();
+            entity.Property(e => e.StartDate).IsRequired();
+            entity.Property(e => e.NextDueDate).IsRequired();
+            entity.Property(e => e.MatchText).HasMaxLength(200);
+            entity.Property(e => e.AmountTolerancePercent).HasPrecision(5, 2).HasDefaultValue(10m);
+            entity.Property(e => e.IsActive).HasDefaultValue(true);
+            entity.Property(e => e.Notes).HasMaxLength(500);
+
+            entity.HasIndex(e => e.UserId);
+            entity.HasIndex(e => new { e.UserId, e.NextDueDate });
+            entity.HasIndex(e => e.AccountId);
+            entity.HasIndex(e => e.CategoryId);
+
+            entity.HasOne(e => e.Account)
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Category)
+                .WithMany()
+                .HasForeignKey(e => e.CategoryId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasMany(e => e.Occurrences)
+                .WithOne(o => o.Schedule)
+                .HasForeignKey(o => o.ScheduleId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // RecurringScheduleOccurrence configuration
+        modelBuilder.Entity<RecurringScheduleOccurrence>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.ScheduleId).IsRequired();
+            entity.Property(e => e.DueDate).IsRequired();
+            entity.Property(e => e.Outcome).IsRequired();
+            entity.Property(e => e.ExpectedAmount).HasPrecision(18, 2);
+            entity.Property(e => e.ActualAmount).HasPrecision(18, 2);
+
+            // One outcome per due date (excluding soft-deleted)
+            entity.HasIndex(e => new { e.ScheduleId, e.DueDate })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+            entity.HasIndex(e => e.TransactionId);
+
+            entity.HasOne(e => e.Transaction)
+                .WithMany()
+                .HasForeignKey(e => e.TransactionId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // ExchangeRate configuration
+        modelBuilder.Entity<ExchangeRate>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.FromCurrency).IsRequired().HasMaxLength(3);
+            entity.Property(e => e.ToCurrency).IsRequired().HasMaxLength(3);
+            entity.Property(e => e.Rate).HasPrecision(18, 8);
+            entity.Property(e => e.RateDate).IsRequired();
+            entity.Property(e => e.Source).IsRequired();
+
+            // One rate per pair and day (excluding soft-deleted)
+            entity.HasIndex(e => new { e.UserId, e.FromCurrency, e.ToCurrency, e.RateDate })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // AccountValuation configuration
+        modelBuilder.Entity<AccountValuation>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.AccountId).IsRequired();
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.Value).HasPrecision(18, 2);
+            entity.Property(e => e.ValuationDate).IsRequired();
+            entity.Property(e => e.Notes).HasMaxLength(500);
+
+            // One valuation per account and day (excluding soft-deleted)
+            entity.HasIndex(e => new { e.AccountId, e.ValuationDate })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+            entity.HasIndex(e => e.UserId);
+
+            entity.HasOne(e => e.Account)
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // InvestmentHolding configuration
+        modelBuilder.Entity<InvestmentHolding>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.AccountId).IsRequired();
+            entity.Property(e => e.Symbol).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.Name).HasMaxLength(200);
+
+            // One holding per security and account (excluding soft-deleted)
+            entity.HasIndex(e => new { e.AccountId, e.Symbol })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasOne(e => e.Account)
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // InvestmentTrade configuration
+        modelBuilder.Entity<InvestmentTrade>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.HoldingId).IsRequired();
+            entity.Property(e => e.Type).IsRequired();
+            entity.Property(e => e.TradeDate).IsRequired();
+            entity.Property(e => e.Units).HasPrecision(18, 8);
+            entity.Property(e => e.Price).HasPrecision(18, 6);
+            entity.Property(e => e.Fees).HasPrecision(18, 2);
+            entity.Property(e => e.Amount).HasPrecision(18, 2);
+            entity.Property(e => e.Notes).HasMaxLength(500);
+
+            entity.HasIndex(e => new { e.HoldingId, e.TradeDate });
+            entity.HasIndex(e => e.TransactionId);
+
+            entity.HasOne(e => e.Holding)
+                .WithMany(h => h.Trades)
+                .HasForeignKey(e => e.HoldingId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Transaction)
+                .WithMany()
+                .HasForeignKey(e => e.TransactionId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // SecurityPrice configuration
+        modelBuilder.Entity<SecurityPrice>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.Symbol).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.PriceDate).IsRequired();
+            entity.Property(e => e.Price).HasPrecision(18, 6);
+            entity.Property(e => e.Source).IsRequired();
+
+            // One price per security and day (excluding soft-deleted)
+            entity.HasIndex(e => new { e.UserId, e.Symbol, e.PriceDate })
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // DebtTerms configuration
+        modelBuilder.Entity<DebtTerms>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.AccountId).IsRequired();
+            entity.Property(e => e.AnnualInterestRate).HasPrecision(7, 4);
+            entity.Property(e => e.MinimumPayment).HasPrecision(18, 2);
+
+            // One set of terms per account (excluding soft-deleted)
+            entity.HasIndex(e => e.AccountId)
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasOne(e => e.Account)
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
+
+        // DebtPayoffPlan configuration
+        modelBuilder.Entity<DebtPayoffPlan>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.UserId).IsRequired();
+            entity.Property(e => e.Strategy).IsRequired();
+            entity.Property(e => e.ExtraPayment).HasPrecision(18, 2);
+
+            // One plan per user (excluding soft-deleted)
+            entity.HasIndex(e => e.UserId)
+                .HasFilter("\"IsDeleted\" = false")
+                .IsUnique();
+
+            entity.HasQueryFilter(e => !e.IsDeleted);
+        });
     }
 
     public override Task<int> SaveChangesAsync(CancellationToken cancellationToken = default)
@@ -262,6 +262,52 @@ public class BudgetRepository : IBudgetRepository
             .ToListAsync(cancellationToken);
     }
 
+    public async Task<Budget?> ClosePeriodAsync(Budget expiredBudget, Budget? nextPeriodBudget, BudgetPeriodClose periodClose, CancellationToken cancellationToken = default)
+    {
+        // The next period (with any overridden rollovers), the completed status and the close
+        // record either all land or none do, so a failed close can simply be retried
+        await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+        try
+        {
+            if (nextPeriodBudget != null)
+            {
+                _context.Budgets.Add(nextPeriodBudget);
+                await _context.SaveChangesAsync(cancellationToken);
+                periodClose.NewBudgetId = nextPeriodBudget.Id;
+            }
+
+            expiredBudget.UpdatedAt = DateTime.UtcNow;
+            _context.Budgets.Update(expiredBudget);
+            _context.BudgetPeriodCloses.Add(periodClose);
+            await _context.SaveChangesAsync(cancellationToken);
+
+            await transaction.CommitAsync(cancellationToken);
+        }
+        catch
+        {
+            await transaction.RollbackAsync(cancellationToken);
+            throw;
+        }
+
+        if (nextPeriodBudget == null)
+        {
+            return null;
+        }
+
+        // Reload with includes
+        return await GetBudgetByIdAsync(nextPeriodBudget.Id, nextPeriodBudget.UserId, cancellationToken)
+               ?? throw new InvalidOperationException("Failed to reload created budget");
+    }
+
+    public async Task<IEnumerable<BudgetPeriodClose>> GetPeriodClosesForBudgetAsync(int budgetId, Guid userId, CancellationToken cancellationToken = default)
+    {
+        return await _context.BudgetPeriodCloses
+            .Include(c => c.Categories.Where(cc => !cc.IsDeleted))
+            .Where(c => c.UserId == userId && (c.SourceBudgetId == budgetId || c.NewBudgetId == budgetId))
+            .OrderByDescending(c => c.ClosedAt)
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task<bool> BudgetNameExistsAsync(Guid userId, string name, int? excludeBudgetId = null, CancellationToken cancellationToken = default)
     {
         var query = _context.Budgets
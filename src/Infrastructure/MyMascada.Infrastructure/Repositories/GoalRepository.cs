@@ -18,6 +18,7 @@ public class GoalRepository : IGoalRepository
     {
         return await _context.Goals
             .Include(g => g.Account)
+            .Include(g => g.Wallet)
             .Where(g => g.UserId == userId && !g.IsDeleted)
             .OrderBy(g => g.DisplayOrder)
             .ThenByDescending(g => g.CreatedAt)
@@ -28,6 +29,7 @@ public class GoalRepository : IGoalRepository
     {
         return await _context.Goals
             .Include(g => g.Account)
+            .Include(g => g.Wallet)
             .Where(g => g.UserId == userId && g.Status == Domain.Enums.GoalStatus.Active && !g.IsDeleted)
             .OrderBy(g => g.DisplayOrder)
             .ThenByDescending(g => g.CreatedAt)
@@ -38,6 +40,7 @@ public class GoalRepository : IGoalRepository
     {
         return await _context.Goals
             .Include(g => g.Account)
+            .Include(g => g.Wallet)
             .FirstOrDefaultAsync(g => g.Id == goalId && g.UserId == userId && !g.IsDeleted, cancellationToken);
     }
 
@@ -114,6 +114,7 @@ public class RecurringPatternRepository : IRecurringPatternRepository
             .Include(p => p.Category)
             .Where(p => p.UserId == userId
                         && (p.Status == RecurringPatternStatus.Active || p.Status == RecurringPatternStatus.AtRisk)
+                        && p.CancellationStatus != SubscriptionCancellationStatus.Cancelled
                         && p.NextExpectedDate >= fromDate
                         && p.NextExpectedDate <= toDate
                         && !p.IsDeleted)
@@ -1,5 +1,6 @@
 using System.Linq.Expressions;
 using Microsoft.EntityFrameworkCore;
+using MyMascada.Application.Common;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Common.Models;
 using MyMascada.Application.Features.Transactions.Queries;
@@ -32,6 +33,8 @@ public class TransactionRepository : ITransactionRepository
         return await _context.Transactions
             .Include(t => t.Account)
             .Include(t => t.Category)
+            .Include(t => t.Splits)
+                .ThenInclude(s => s.Category)
             .FirstOrDefaultAsync(t => t.Id == id &&
                                      accessibleIds.Contains(t.AccountId));
     }
@@ -89,6 +92,9 @@ public class TransactionRepository : ITransactionRepository
         var transactions = await paginatedQuery
             .Include(t => t.Account)
             .Include(t => t.Category)
+            .Include(t => t.Splits)
+                .ThenInclude(s => s.Category)
+            .Include(t => t.Attachments)
             .ToListAsync();
 
         return (transactions, totalCount);
@@ -229,15 +235,28 @@ public class TransactionRepository : ITransactionRepository
         if (account == null)
             return 0;
 
+        // A manual valuation replaces the initial balance, everything up to its day and the holdings
+        var valuation = await _context.AccountValuations
+            .Where(v => v.AccountId == accountId)
+            .OrderByDescending(v => v.ValuationDate)
+            .FirstOrDefaultAsync();
+        var after = valuation?.ValuationDate.AddDays(1) ?? DateTime.MinValue;
+
         // Get transaction balance
         var transactionBalance = await _context.Transactions
             .Where(t => t.AccountId == accountId &&
+                       t.TransactionDate >= after &&
                        t.Status != TransactionStatus.Cancelled &&
                        !t.IsDeleted)
             .SumAsync(t => (decimal?)t.Amount) ?? 0;
 
-        // Return initial balance + transaction balance
-        return account.CurrentBalance + transactionBalance;
+        if (valuation != null)
+            return valuation.Value + transactionBalance;
+
+        var holdingsValues = await GetHoldingsValuesAsync(new[] { accountId });
+
+        // Return initial balance + transaction balance + investment holdings
+        return account.CurrentBalance + transactionBalance + holdingsValues.GetValueOrDefault(accountId);
     }
 
     public async Task<IEnumerable<Transaction>> GetRecentTransactionsAsync(Guid userId, int count = 10, CancellationToken cancellationToken = default)
@@ -297,6 +316,14 @@ public class TransactionRepository : ITransactionRepository
                 t.CreatedAt >= cutoffTime);
     }
 
+    public async Task<Transaction?> GetByIdempotencyKeyAsync(int accountId, string idempotencyKey)
+    {
+        return await _context.Transactions
+            .Include(t => t.Account)
+            .Include(t => t.Category)
+            .FirstOrDefaultAsync(t => t.AccountId == accountId && t.IdempotencyKey == idempotencyKey);
+    }
+
     public async Task<IEnumerable<Transaction>> GetRecentAsync(Guid userId, int count = 5)
     {
         var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
@@ -346,6 +373,8 @@ public class TransactionRepository : ITransactionRepository
             .AsNoTracking()
             .Include(t => t.Account)
             .Include(t => t.Category)
+            .Include(t => t.Splits)
+                .ThenInclude(s => s.Category)
             .Where(t => accessibleIds.Contains(t.AccountId) &&
                        !t.Account.IsDeleted &&
                        t.TransactionDate >= startDate &&
@@ -386,6 +415,8 @@ public class TransactionRepository : ITransactionRepository
         return await _context.Transactions
             .Include(t => t.Account)
             .Include(t => t.Category)
+            .Include(t => t.Splits)
+                .ThenInclude(s => s.Category)
             .FirstOrDefaultAsync(t => t.Id == id);
     }
 
@@ -427,6 +458,35 @@ public class TransactionRepository : ITransactionRepository
             balances[account.Id] = account.CurrentBalance + transactionBalance;
         }
 
+        // Accounts with a manual valuation start from their latest one instead
+        var latestValuations = (await _context.AccountValuations
+                .Where(v => accessibleIds.Contains(v.AccountId))
+                .Select(v => new { v.AccountId, v.ValuationDate, v.Value })
+                .ToListAsync())
+            .GroupBy(v => v.AccountId)
+            .Select(g => g.OrderByDescending(v => v.ValuationDate).First())
+            .Where(v => balances.ContainsKey(v.AccountId));
+
+        var valuedIds = new HashSet<int>();
+        foreach (var valuation in latestValuations)
+        {
+            valuedIds.Add(valuation.AccountId);
+            var after = valuation.ValuationDate.AddDays(1);
+            var laterBalance = await _context.Transactions
+                .Where(t => t.AccountId == valuation.AccountId &&
+                           t.TransactionDate >= after &&
+                           t.Status != TransactionStatus.Cancelled &&
+                           !t.IsDeleted)
+                .SumAsync(t => (decimal?)t.Amount) ?? 0;
+            balances[valuation.AccountId] = valuation.Value + laterBalance;
+        }
+
+        // Investment accounts are also worth the market value of their holdings, unless a valuation already covers them
+        foreach (var (accountId, value) in await GetHoldingsValuesAsync(balances.Keys.Where(id => !valuedIds.Contains(id)).ToList()))
+        {
+            balances[accountId] += value;
+        }
+
         return balances;
     }
 
@@ -672,9 +732,11 @@ public class TransactionRepository : ITransactionRepository
         return await _context.Transactions
             .Include(t => t.Account)
             .Include(t => t.Category)
+            // Split transactions span several categories, so they teach nothing about one description
             .Where(t => accessibleIds.Contains(t.AccountId) &&
                        t.CategoryId.HasValue &&
-                       !t.IsDeleted)
+                       !t.IsDeleted &&
+                       !t.Splits.Any())
             .OrderByDescending(t => t.CreatedAt)
             .Take(count)
             .ToListAsync(cancellationToken);
@@ -828,4 +890,37 @@ public class TransactionRepository : ITransactionRepository
                     cancellationToken);
         }
     }
+
+    /// <summary>
+    /// Current market value of the investment holdings in each account, priced with the account owner's prices
+    /// </summary>
+    private async Task<Dictionary<int, decimal>> GetHoldingsValuesAsync(IReadOnlyCollection<int> accountIds)
+    {
+        var holdings = await _context.InvestmentHoldings
+            .AsNoTracking()
+            .Include(h => h.Trades)
+            .Include(h => h.Account)
+            .Where(h => accountIds.Contains(h.AccountId))
+            .ToListAsync();
+
+        if (holdings.Count == 0)
+            return new Dictionary<int, decimal>();
+
+        var ownerIds = holdings.Select(h => h.Account.UserId).Distinct().ToList();
+        var prices = await _context.SecurityPrices
+            .AsNoTracking()
+            .Where(p => ownerIds.Contains(p.UserId))
+            .ToListAsync();
+
+        var now = DateTimeProvider.UtcNow;
+        var calculators = ownerIds.ToDictionary(
+            id => id,
+            id => new PortfolioCalculator(prices.Where(p => p.UserId == id)));
+
+        return holdings
+            .GroupBy(h => h.AccountId)
+            .ToDictionary(
+                g => g.Key,
+                g => g.Sum(h => calculators[h.Account.UserId].GetMarketValue(h, now)));
+    }
 }
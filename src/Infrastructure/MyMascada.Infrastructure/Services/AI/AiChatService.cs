@@ -3,6 +3,8 @@ using Microsoft.SemanticKernel;
 using Microsoft.SemanticKernel.ChatCompletion;
 using Microsoft.SemanticKernel.Connectors.OpenAI;
 using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
+using MyMascada.Application.Features.AiChat.DTOs;
 using MyMascada.Application.Features.RuleSuggestions.Services;
 using MyMascada.Domain.Common;
 using MyMascada.Domain.Entities;
@@ -24,6 +26,7 @@ public class AiChatService : IAiChatService
     private readonly ICategorizationRuleRepository _categorizationRuleRepository;
     private readonly IGoalRepository _goalRepository;
     private readonly IAiTokenTracker _tokenTracker;
+    private readonly IRealtimeEventPublisher _realtimeEvents;
     private readonly ILogger<AiChatService> _logger;
 
     public AiChatService(
@@ -40,6 +43,7 @@ public class AiChatService : IAiChatService
         ICategorizationRuleRepository categorizationRuleRepository,
         IGoalRepository goalRepository,
         IAiTokenTracker tokenTracker,
+        IRealtimeEventPublisher realtimeEvents,
         ILogger<AiChatService> logger)
     {
         _chatMessageRepository = chatMessageRepository;
@@ -55,6 +59,7 @@ public class AiChatService : IAiChatService
         _categorizationRuleRepository = categorizationRuleRepository;
         _goalRepository = goalRepository;
         _tokenTracker = tokenTracker;
+        _realtimeEvents = realtimeEvents;
         _logger = logger;
     }
 
@@ -68,6 +73,7 @@ public class AiChatService : IAiChatService
             Content = message
         };
         await _chatMessageRepository.AddAsync(userMessage);
+        PublishMessage(userMessage);
 
         // 2. Get Kernel via CreateChatKernelForUserAsync (NO fallback - returns null if no chat settings)
         var kernel = await _kernelFactory.CreateChatKernelForUserAsync(userId);
@@ -137,6 +143,7 @@ public class AiChatService : IAiChatService
                 Content = assistantContent
             };
             await _chatMessageRepository.AddAsync(assistantMessage);
+            PublishMessage(assistantMessage);
 
             // 9.5. Track AI token usage
             var (promptTokens, completionTokens, _) = SemanticKernelTokenExtractor.ExtractTokenUsage(response.Metadata, _logger);
@@ -165,6 +172,21 @@ public class AiChatService : IAiChatService
         }
     }
 
+    // Other open tabs (and the web app, for messages that came in through Telegram) show the message live
+    private void PublishMessage(ChatMessage message)
+    {
+        _realtimeEvents.Publish(message.UserId, RealtimeEventTypes.ChatMessage, new
+        {
+            Message = new ChatMessageDto
+            {
+                Id = message.Id,
+                Role = message.Role,
+                Content = message.Content,
+                CreatedAt = message.CreatedAt
+            }
+        });
+    }
+
     private static string BuildSystemPrompt(string financialContext)
     {
         return $"""
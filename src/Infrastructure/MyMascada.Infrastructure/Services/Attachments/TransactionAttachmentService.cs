@@ -0,0 +1,256 @@
+using System.Text;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using MyMascada.Application.Common.Configuration;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Attachments;
+
+/// <summary>
+/// Stores attachment files under generated keys so user-supplied names never reach the storage
+/// backend. The row is written only after the file is saved, and a failed save is cleaned up.
+/// </summary>
+public class TransactionAttachmentService : ITransactionAttachmentService
+{
+    private static readonly Dictionary<string, string> AllowedContentTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["image/jpeg"] = ".jpg",
+        ["image/png"] = ".png",
+        ["image/webp"] = ".webp",
+        ["image/gif"] = ".gif",
+        ["image/heic"] = ".heic",
+        ["application/pdf"] = ".pdf"
+    };
+
+    private static readonly HashSet<string> HeifBrands = new(StringComparer.Ordinal)
+    {
+        "heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"
+    };
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly IFileStorageService _storage;
+    private readonly FileStorageOptions _options;
+    private readonly ILogger<TransactionAttachmentService> _logger;
+
+    public TransactionAttachmentService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        IFileStorageService storage,
+        IOptions<FileStorageOptions> options,
+        ILogger<TransactionAttachmentService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _storage = storage;
+        _options = options.Value;
+        _logger = logger;
+    }
+
+    public async Task<IReadOnlyList<TransactionAttachmentDto>> GetAttachmentsAsync(Guid userId, int transactionId, CancellationToken cancellationToken = default)
+    {
+        var transaction = await GetTransactionAsync(transactionId, cancellationToken);
+        if (!await _accountAccess.CanAccessAccountAsync(userId, transaction.AccountId))
+        {
+            throw new ArgumentException("Transaction not found.");
+        }
+
+        var attachments = await _context.TransactionAttachments
+            .AsNoTracking()
+            .Where(a => a.TransactionId == transactionId)
+            .OrderBy(a => a.CreatedAt)
+            .ToListAsync(cancellationToken);
+
+        return attachments.Select(ToDto).ToList();
+    }
+
+    public async Task<TransactionAttachmentDto> UploadAsync(
+        Guid userId,
+        int transactionId,
+        string fileName,
+        string contentType,
+        long sizeBytes,
+        Stream content,
+        CancellationToken cancellationToken = default)
+    {
+        var transaction = await GetTransactionAsync(transactionId, cancellationToken);
+        if (!await _accountAccess.CanModifyAccountAsync(userId, transaction.AccountId))
+        {
+            throw new UnauthorizedAccessException("You do not have permission to modify this transaction.");
+        }
+
+        if (sizeBytes <= 0)
+        {
+            throw new ArgumentException("The file is empty.");
+        }
+
+        if (sizeBytes > _options.MaxFileSizeBytes)
+        {
+            throw new ArgumentException($"Files cannot be larger than {_options.MaxFileSizeBytes / (1024 * 1024)} MB.");
+        }
+
+        if (!AllowedContentTypes.TryGetValue(contentType, out var extension))
+        {
+            throw new ArgumentException("Only images (JPEG, PNG, WebP, GIF, HEIC) and PDF files can be attached.");
+        }
+
+        // Upload streams can seek; anything else is buffered so the signature check can rewind it
+        await using var buffer = content.CanSeek ? null : new MemoryStream();
+        if (buffer != null)
+        {
+            await content.CopyToAsync(buffer, cancellationToken);
+            buffer.Position = 0;
+            content = buffer;
+        }
+
+        if (!await HasExpectedSignatureAsync(content, contentType, cancellationToken))
+        {
+            throw new ArgumentException("The file's contents don't match its file type.");
+        }
+
+        var name = Path.GetFileName(fileName.Trim());
+        if (string.IsNullOrEmpty(name))
+        {
+            name = $"attachment{extension}";
+        }
+        else if (name.Length > 255)
+        {
+            name = name[..(255 - extension.Length)] + extension;
+        }
+
+        var storageKey = $"transactions/{transactionId}/{Guid.NewGuid():N}{extension}";
+        await _storage.SaveAsync(storageKey, content, contentType, cancellationToken);
+
+        var attachment = new TransactionAttachment
+        {
+            TransactionId = transactionId,
+            UploadedByUserId = userId,
+            FileName = name,
+            ContentType = contentType.ToLowerInvariant(),
+            SizeBytes = sizeBytes,
+            StorageKey = storageKey,
+            CreatedBy = userId.ToString(),
+            UpdatedBy = userId.ToString()
+        };
+
+        try
+        {
+            _context.TransactionAttachments.Add(attachment);
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+        catch
+        {
+            await _storage.DeleteAsync(storageKey, CancellationToken.None);
+            throw;
+        }
+
+        _logger.LogInformation("Attached {ContentType} file ({SizeBytes} bytes) to transaction {TransactionId}",
+            attachment.ContentType, sizeBytes, transactionId);
+
+        return ToDto(attachment);
+    }
+
+    public async Task<AttachmentContentDto?> OpenAsync(Guid userId, int attachmentId, CancellationToken cancellationToken = default)
+    {
+        var attachment = await _context.TransactionAttachments
+            .AsNoTracking()
+            .Include(a => a.Transaction)
+            .FirstOrDefaultAsync(a => a.Id == attachmentId, cancellationToken);
+
+        if (attachment == null || !await _accountAccess.CanAccessAccountAsync(userId, attachment.Transaction.AccountId))
+        {
+            return null;
+        }
+
+        var stream = await _storage.OpenReadAsync(attachment.StorageKey, cancellationToken);
+        if (stream == null)
+        {
+            _logger.LogWarning("File for attachment {AttachmentId} is missing from storage", attachmentId);
+            return null;
+        }
+
+        return new AttachmentContentDto
+        {
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            Content = stream
+        };
+    }
+
+    public async Task DeleteAsync(Guid userId, int attachmentId, CancellationToken cancellationToken = default)
+    {
+        var attachment = await _context.TransactionAttachments
+            .Include(a => a.Transaction)
+            .FirstOrDefaultAsync(a => a.Id == attachmentId, cancellationToken)
+            ?? throw new ArgumentException("Attachment not found.");
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, attachment.Transaction.AccountId))
+        {
+            throw new UnauthorizedAccessException("You do not have permission to modify this transaction.");
+        }
+
+        attachment.IsDeleted = true;
+        attachment.DeletedAt = DateTime.UtcNow;
+        attachment.UpdatedAt = DateTime.UtcNow;
+        attachment.UpdatedBy = userId.ToString();
+        await _context.SaveChangesAsync(cancellationToken);
+
+        // The row stays as an audit record; the file itself is not kept once removed
+        await _storage.DeleteAsync(attachment.StorageKey, cancellationToken);
+    }
+
+    private async Task<Transaction> GetTransactionAsync(int transactionId, CancellationToken cancellationToken)
+    {
+        return await _context.Transactions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(t => t.Id == transactionId, cancellationToken)
+            ?? throw new ArgumentException("Transaction not found.");
+    }
+
+    /// <summary>
+    /// Compares the file's leading bytes with the declared type, so a file can't be stored as an
+    /// image or PDF just by claiming to be one. Leaves the stream where it started.
+    /// </summary>
+    private static async Task<bool> HasExpectedSignatureAsync(Stream content, string contentType, CancellationToken cancellationToken)
+    {
+        var start = content.Position;
+        var header = new byte[12];
+        var read = await content.ReadAtLeastAsync(header, header.Length, throwOnEndOfStream: false, cancellationToken);
+        content.Position = start;
+
+        return MatchesSignature(header.AsSpan(0, read), contentType.ToLowerInvariant());
+    }
+
+    private static bool MatchesSignature(ReadOnlySpan<byte> header, string contentType)
+    {
+        return contentType switch
+        {
+            "image/jpeg" => header.StartsWith(new byte[] { 0xFF, 0xD8, 0xFF }),
+            "image/png" => header.StartsWith(new byte[] { 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A }),
+            "image/gif" => header.StartsWith("GIF87a"u8) || header.StartsWith("GIF89a"u8),
+            "image/webp" => header.Length >= 12 && header.StartsWith("RIFF"u8) && header[8..12].SequenceEqual("WEBP"u8),
+            // HEIC is an ISO media file: a box size, then "ftyp" and a HEIF brand
+            "image/heic" => header.Length >= 12 && header[4..8].SequenceEqual("ftyp"u8) && HeifBrands.Contains(Encoding.ASCII.GetString(header[8..12])),
+            "application/pdf" => header.StartsWith("%PDF-"u8),
+            _ => false
+        };
+    }
+
+    private static TransactionAttachmentDto ToDto(TransactionAttachment attachment)
+    {
+        return new TransactionAttachmentDto
+        {
+            Id = attachment.Id,
+            TransactionId = attachment.TransactionId,
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            SizeBytes = attachment.SizeBytes,
+            IsImage = attachment.IsImage(),
+            CreatedAt = attachment.CreatedAt
+        };
+    }
+}
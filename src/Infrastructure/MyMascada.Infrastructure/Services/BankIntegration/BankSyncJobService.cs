@@ -3,6 +3,7 @@ using Hangfire;
 using Hangfire.Server;
 using MediatR;
 using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
 using MyMascada.Application.Events;
 using MyMascada.Application.Features.BankConnections.DTOs;
 using MyMascada.Domain.Enums;
@@ -34,13 +35,13 @@ public class BankSyncJobService : IBankSyncJobService
         _tracker = tracker ?? throw new ArgumentNullException(nameof(tracker));
     }
 
-    public BankSyncJobAcceptedDto EnqueueConnectionSync(Guid userId, int connectionId)
+    public BankSyncJobAcceptedDto EnqueueConnectionSync(Guid userId, int connectionId, DateTime? from = null, DateTime? to = null)
     {
         var trackingId = Guid.NewGuid().ToString("N");
         var accepted = _tracker.Register(trackingId, userId, "connection", new[] { connectionId });
 
         _backgroundJobClient.Enqueue<BankSyncJobService>(
-            service => service.ProcessConnectionSyncJobAsync(trackingId, connectionId, userId, null));
+            service => service.ProcessConnectionSyncJobAsync(trackingId, connectionId, userId, from, to, null));
 
         _logger.LogInformation(
             "Enqueued bank sync job {TrackingId} for connection {ConnectionId} and user {UserId}",
@@ -75,13 +76,17 @@ public class BankSyncJobService : IBankSyncJobService
         string trackingId,
         int connectionId,
         Guid userId,
+        DateTime? from,
+        DateTime? to,
         PerformContext? performContext = null)
     {
         _tracker.MarkRunning(trackingId);
 
         try
         {
-            var result = await _bankSyncService.SyncAccountAsync(connectionId, BankSyncType.Manual);
+            var result = from.HasValue && to.HasValue
+                ? await _bankSyncService.SyncAccountRangeAsync(connectionId, BankSyncType.Manual, from.Value, to.Value)
+                : await _bankSyncService.SyncAccountAsync(connectionId, BankSyncType.Manual);
 
             if (result.IsSuccess && result.ImportedTransactionIds.Any())
             {
@@ -152,6 +157,12 @@ public sealed class InMemoryBankSyncJobTracker
 {
     private static readonly TimeSpan Retention = TimeSpan.FromHours(6);
     private readonly ConcurrentDictionary<string, BankSyncJobState> _jobs = new();
+    private readonly IRealtimeEventPublisher _realtimeEvents;
+
+    public InMemoryBankSyncJobTracker(IRealtimeEventPublisher realtimeEvents)
+    {
+        _realtimeEvents = realtimeEvents ?? throw new ArgumentNullException(nameof(realtimeEvents));
+    }
 
     public BankSyncJobAcceptedDto Register(string jobId, Guid userId, string scope, IReadOnlyCollection<int> connectionIds)
     {
@@ -168,6 +179,7 @@ public sealed class InMemoryBankSyncJobTracker
 
         _jobs[jobId] = state;
         CleanupExpired();
+        PublishStatus(state);
 
         return new BankSyncJobAcceptedDto
         {
@@ -186,24 +198,7 @@ public sealed class InMemoryBankSyncJobTracker
             throw new ArgumentException($"Bank sync job {jobId} not found");
         }
 
-        lock (state.SyncRoot)
-        {
-            return new BankSyncJobStatusDto
-            {
-                JobId = state.JobId,
-                Scope = state.Scope,
-                Status = state.Status,
-                StartedAt = state.StartedAt,
-                CompletedAt = state.CompletedAt,
-                ConnectionIds = state.ConnectionIds,
-                TotalConnections = state.TotalConnections,
-                CompletedConnections = state.CompletedConnections,
-                FailedConnections = state.FailedConnections,
-                TransactionsImported = state.TransactionsImported,
-                TransactionsSkipped = state.TransactionsSkipped,
-                ErrorMessage = state.ErrorMessage
-            };
-        }
+        return ToDto(state);
     }
 
     public void MarkRunning(string jobId)
@@ -216,6 +211,8 @@ public sealed class InMemoryBankSyncJobTracker
             state.Status = "processing";
             state.LastUpdatedAt = DateTime.UtcNow;
         }
+
+        PublishStatus(state);
     }
 
     public void RecordConnectionResult(string jobId, BankSyncResult result)
@@ -239,6 +236,8 @@ public sealed class InMemoryBankSyncJobTracker
                 }
             }
         }
+
+        PublishStatus(state);
     }
 
     public void RecordUnhandledConnectionFailure(string jobId, int connectionId, string errorMessage)
@@ -255,6 +254,8 @@ public sealed class InMemoryBankSyncJobTracker
                 state.ErrorMessage,
                 $"Connection {connectionId}: {errorMessage}");
         }
+
+        PublishStatus(state);
     }
 
     public void MarkCompleted(string jobId, BankSyncJobTerminalStatus terminalStatus)
@@ -273,6 +274,8 @@ public sealed class InMemoryBankSyncJobTracker
             state.CompletedAt = DateTime.UtcNow;
             state.LastUpdatedAt = state.CompletedAt.Value;
         }
+
+        PublishStatus(state);
     }
 
     public void MarkFailed(string jobId, string errorMessage)
@@ -289,6 +292,36 @@ public sealed class InMemoryBankSyncJobTracker
             state.CompletedConnections = state.TotalConnections == 0 ? 0 : Math.Max(state.CompletedConnections, 1);
             state.FailedConnections = state.TotalConnections == 0 ? 0 : Math.Max(state.FailedConnections, 1);
         }
+
+        PublishStatus(state);
+    }
+
+    // Sync status and the connection detail pages follow the job over the realtime stream
+    private void PublishStatus(BankSyncJobState state)
+    {
+        _realtimeEvents.Publish(state.UserId, RealtimeEventTypes.BankSyncJob, ToDto(state));
+    }
+
+    private static BankSyncJobStatusDto ToDto(BankSyncJobState state)
+    {
+        lock (state.SyncRoot)
+        {
+            return new BankSyncJobStatusDto
+            {
+                JobId = state.JobId,
+                Scope = state.Scope,
+                Status = state.Status,
+                StartedAt = state.StartedAt,
+                CompletedAt = state.CompletedAt,
+                ConnectionIds = state.ConnectionIds,
+                TotalConnections = state.TotalConnections,
+                CompletedConnections = state.CompletedConnections,
+                FailedConnections = state.FailedConnections,
+                TransactionsImported = state.TransactionsImported,
+                TransactionsSkipped = state.TransactionsSkipped,
+                ErrorMessage = state.ErrorMessage
+            };
+        }
     }
 
     private void CleanupExpired()
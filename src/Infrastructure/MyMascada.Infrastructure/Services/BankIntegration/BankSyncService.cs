@@ -1,3 +1,4 @@
+using System.Text.Json;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.BankConnections.DTOs;
 using MyMascada.Application.Features.ImportReview.DTOs;
@@ -57,7 +58,23 @@ public class BankSyncService : IBankSyncService
     }
 
     /// <inheritdoc />
-    public async Task<BankSyncResult> SyncAccountAsync(int bankConnectionId, BankSyncType syncType, CancellationToken ct = default)
+    public Task<BankSyncResult> SyncAccountAsync(int bankConnectionId, BankSyncType syncType, CancellationToken ct = default)
+    {
+        return SyncAccountCoreAsync(bankConnectionId, syncType, null, null, ct);
+    }
+
+    /// <inheritdoc />
+    public Task<BankSyncResult> SyncAccountRangeAsync(int bankConnectionId, BankSyncType syncType, DateTime from, DateTime to, CancellationToken ct = default)
+    {
+        return SyncAccountCoreAsync(bankConnectionId, syncType, from.Date, to.Date, ct);
+    }
+
+    private async Task<BankSyncResult> SyncAccountCoreAsync(
+        int bankConnectionId,
+        BankSyncType syncType,
+        DateTime? rangeFrom,
+        DateTime? rangeTo,
+        CancellationToken ct)
     {
         var startedAt = DateTime.UtcNow;
 
@@ -94,9 +111,18 @@ public class BankSyncService : IBankSyncService
             // 4. Build config for provider
             var config = BuildConnectionConfig(connection);
 
-            // 5. Calculate date range (last 30 days by default, or from last sync with overlap)
-            var to = DateTime.UtcNow.Date.AddDays(1); // Include today's transactions
-            var from = connection.LastSyncAt?.Date.AddDays(-SyncOverlapDays) ?? to.AddDays(-DefaultSyncDays);
+            // 5. Calculate date range (last 30 days by default, or from last sync with overlap),
+            // unless the caller asked for an explicit range
+            var to = rangeTo ?? DateTime.UtcNow.Date.AddDays(1); // Include today's transactions
+            var from = rangeFrom ?? connection.LastSyncAt?.Date.AddDays(-SyncOverlapDays) ?? to.AddDays(-DefaultSyncDays);
+
+            // Record the range so sync history can show which days each run covered
+            syncLog.Details = JsonSerializer.Serialize(new
+            {
+                from = from.ToString("yyyy-MM-dd"),
+                to = to.ToString("yyyy-MM-dd"),
+                requestedRange = rangeFrom.HasValue
+            });
 
             _logger.LogInformation(
                 "Starting bank sync for connection {ConnectionId} ({ProviderId}) from {From:yyyy-MM-dd} to {To:yyyy-MM-dd}",
@@ -119,7 +145,7 @@ public class BankSyncService : IBankSyncService
             if (fetchResult.Transactions.Count == 0)
             {
                 _logger.LogInformation("No transactions to process for connection {ConnectionId}", bankConnectionId);
-                return await CompleteSyncSuccessAsync(syncLog, connection, 0, 0, ct);
+                return await CompleteSyncSuccessAsync(syncLog, connection, 0, 0, rangeFrom.HasValue, ct);
             }
 
             // 8. Map to ImportCandidateDto for duplicate detection
@@ -256,7 +282,7 @@ public class BankSyncService : IBankSyncService
                 "Bank sync completed for connection {ConnectionId}: {Imported} imported, {Skipped} skipped (duplicates)",
                 bankConnectionId, imported, skipped);
 
-            return await CompleteSyncSuccessAsync(syncLog, connection, imported, skipped, ct, importedTransactionIds);
+            return await CompleteSyncSuccessAsync(syncLog, connection, imported, skipped, rangeFrom.HasValue, ct, importedTransactionIds);
         }
         catch (Exception ex)
         {
@@ -464,12 +490,15 @@ public class BankSyncService : IBankSyncService
 
     /// <summary>
     /// Completes the sync operation successfully and updates the sync log and connection.
+    /// A sync of an explicit range leaves LastSyncAt alone, since the next regular sync
+    /// still needs to start from where the last regular sync stopped.
     /// </summary>
     private async Task<BankSyncResult> CompleteSyncSuccessAsync(
         BankSyncLog syncLog,
         BankConnection connection,
         int imported,
         int skipped,
+        bool isRangeSync,
         CancellationToken ct,
         List<int>? importedTransactionIds = null)
     {
@@ -479,7 +508,10 @@ public class BankSyncService : IBankSyncService
         syncLog.TransactionsSkipped = skipped;
         await _syncLogRepository.UpdateAsync(syncLog, ct);
 
-        connection.LastSyncAt = DateTime.UtcNow;
+        if (!isRangeSync)
+        {
+            connection.LastSyncAt = DateTime.UtcNow;
+        }
         connection.LastSyncError = null;
         await _connectionRepository.UpdateAsync(connection, ct);
 
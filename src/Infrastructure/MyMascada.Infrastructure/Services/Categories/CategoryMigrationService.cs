@@ -0,0 +1,504 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Categories;
+
+/// <summary>
+/// Merges and splits categories, moving every reference inside a single database transaction.
+/// Preview and apply share the same code path so the preview counts are exactly what gets migrated.
+/// </summary>
+public class CategoryMigrationService : ICategoryMigrationService
+{
+    private const int MaxCategoryNameLength = 100;
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<CategoryMigrationService> _logger;
+
+    public CategoryMigrationService(ApplicationDbContext context, ILogger<CategoryMigrationService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<CategoryMigrationSummaryDto> MergeAsync(
+        Guid userId,
+        IReadOnlyCollection<int> sourceCategoryIds,
+        int targetCategoryId,
+        bool dryRun,
+        CancellationToken cancellationToken = default)
+    {
+        var sourceIds = sourceCategoryIds.Distinct().ToList();
+        if (sourceIds.Count == 0)
+        {
+            throw new InvalidOperationException("Select at least one category to merge.");
+        }
+
+        if (sourceIds.Contains(targetCategoryId))
+        {
+            throw new InvalidOperationException("A category cannot be merged into itself.");
+        }
+
+        var categories = await _context.Categories
+            .Where(c => c.UserId == userId || c.IsSystemCategory)
+            .ToListAsync(cancellationToken);
+        var categoriesById = categories.ToDictionary(c => c.Id);
+
+        if (!categoriesById.TryGetValue(targetCategoryId, out var target))
+        {
+            throw new ArgumentException("Target category not found.");
+        }
+
+        var sources = new List<Category>();
+        foreach (var sourceId in sourceIds)
+        {
+            if (!categoriesById.TryGetValue(sourceId, out var source))
+            {
+                throw new ArgumentException("Category not found.");
+            }
+
+            if (source.IsSystemCategory || source.UserId != userId)
+            {
+                throw new UnauthorizedAccessException("You don't have permission to merge this category.");
+            }
+
+            sources.Add(source);
+        }
+
+        // Sources are owned by the user, so anything pointing at them belongs to the user too.
+        // References are loaded and updated through the change tracker so they are saved together
+        var transactions = await _context.Transactions
+            .Where(t => t.CategoryId.HasValue && sourceIds.Contains(t.CategoryId.Value))
+            .ToListAsync(cancellationToken);
+        var splitLines = await _context.TransactionSplits
+            .Where(s => sourceIds.Contains(s.CategoryId))
+            .ToListAsync(cancellationToken);
+        var rules = await _context.CategorizationRules
+            .Where(r => sourceIds.Contains(r.CategoryId))
+            .ToListAsync(cancellationToken);
+        var bankMappings = await _context.BankCategoryMappings
+            .Where(m => sourceIds.Contains(m.CategoryId))
+            .ToListAsync(cancellationToken);
+        var recurringPatterns = await _context.RecurringPatterns
+            .Where(p => p.CategoryId.HasValue && sourceIds.Contains(p.CategoryId.Value))
+            .ToListAsync(cancellationToken);
+        var recurringSchedules = await _context.RecurringSchedules
+            .Where(s => s.CategoryId.HasValue && sourceIds.Contains(s.CategoryId.Value))
+            .ToListAsync(cancellationToken);
+
+        var allocations = await _context.BudgetCategories
+            .Where(bc => bc.Budget.UserId == userId)
+            .Where(bc => sourceIds.Contains(bc.CategoryId) || bc.CategoryId == targetCategoryId)
+            .ToListAsync(cancellationToken);
+        var budgetGroups = allocations
+            .GroupBy(bc => bc.BudgetId)
+            .Where(g => g.Any(bc => bc.CategoryId != targetCategoryId))
+            .ToList();
+
+        var subcategories = categories
+            .Where(c => c.ParentCategoryId.HasValue && sourceIds.Contains(c.ParentCategoryId.Value) && !sourceIds.Contains(c.Id))
+            .ToList();
+
+        var summary = new CategoryMigrationSummaryDto
+        {
+            TransactionCount = transactions.Count,
+            SplitLineCount = splitLines.Count,
+            BudgetCount = budgetGroups.Count,
+            CombinedBudgetAllocationCount = budgetGroups.Sum(g => g.Count() - 1),
+            RuleCount = rules.Count,
+            BankCategoryMappingCount = bankMappings.Count,
+            RecurringPatternCount = recurringPatterns.Count,
+            RecurringScheduleCount = recurringSchedules.Count,
+            SubcategoryCount = subcategories.Count(c => c.Id != targetCategoryId)
+        };
+
+        if (dryRun)
+        {
+            return summary;
+        }
+
+        await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+
+        try
+        {
+            var now = DateTime.UtcNow;
+
+            transactions.ForEach(t => t.CategoryId = targetCategoryId);
+            splitLines.ForEach(l => l.CategoryId = targetCategoryId);
+            rules.ForEach(r => r.CategoryId = targetCategoryId);
+            bankMappings.ForEach(m => m.CategoryId = targetCategoryId);
+            recurringPatterns.ForEach(p => p.CategoryId = targetCategoryId);
+            recurringSchedules.ForEach(s => s.CategoryId = targetCategoryId);
+
+            // Open suggestions and candidates would otherwise point at a deleted category
+            var openSuggestions = await _context.RuleSuggestions
+                .Where(rs => sourceIds.Contains(rs.SuggestedCategoryId) && !rs.IsAccepted && !rs.IsRejected)
+                .ToListAsync(cancellationToken);
+            openSuggestions.ForEach(rs => rs.SuggestedCategoryId = targetCategoryId);
+
+            var pendingCandidates = await _context.CategorizationCandidates
+                .Where(cc => sourceIds.Contains(cc.CategoryId) && cc.Status == CandidateStatus.Pending)
+                .ToListAsync(cancellationToken);
+            pendingCandidates.ForEach(cc => cc.CategoryId = targetCategoryId);
+
+            await CombineBudgetAllocationsAsync(budgetGroups, targetCategoryId, now, cancellationToken);
+
+            // Children of a source move under the target, except the target itself and its ancestors,
+            // which would otherwise form a cycle; those climb to the nearest surviving ancestor instead
+            var targetAncestorIds = AncestorIds(target, categoriesById);
+            foreach (var subcategory in subcategories)
+            {
+                subcategory.ParentCategoryId = subcategory.Id == targetCategoryId || targetAncestorIds.Contains(subcategory.Id)
+                    ? SurvivingParentId(subcategory, categoriesById, sourceIds)
+                    : targetCategoryId;
+                subcategory.UpdatedAt = now;
+            }
+
+            foreach (var source in sources)
+            {
+                source.IsDeleted = true;
+                source.DeletedAt = now;
+                source.UpdatedAt = now;
+            }
+
+            await _context.SaveChangesAsync(cancellationToken);
+            await transaction.CommitAsync(cancellationToken);
+
+            _logger.LogInformation(
+                "Merged categories {SourceIds} into {TargetId} for user {UserId}: {Transactions} transactions, " +
+                "{Budgets} budgets, {Rules} rules, {Mappings} bank mappings",
+                sourceIds, targetCategoryId, userId, summary.TransactionCount,
+                summary.BudgetCount, summary.RuleCount, summary.BankCategoryMappingCount);
+
+            return summary;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to merge categories {SourceIds} into {TargetId} for user {UserId}",
+                sourceIds, targetCategoryId, userId);
+            await transaction.RollbackAsync(cancellationToken);
+            throw;
+        }
+    }
+
+    public async Task<CategoryMigrationSummaryDto> SplitAsync(
+        Guid userId,
+        int sourceCategoryId,
+        IReadOnlyList<CategorySplitTargetRequest> targets,
+        bool dryRun,
+        CancellationToken cancellationToken = default)
+    {
+        if (targets.Count == 0)
+        {
+            throw new InvalidOperationException("Add at least one category to split into.");
+        }
+
+        var source = await _context.Categories
+            .FirstOrDefaultAsync(c => c.Id == sourceCategoryId, cancellationToken);
+        if (source == null)
+        {
+            throw new ArgumentException("Category not found.");
+        }
+
+        if (source.IsSystemCategory || source.UserId != userId)
+        {
+            throw new UnauthorizedAccessException("You don't have permission to split this category.");
+        }
+
+        var existingTargetIds = targets
+            .Where(t => t.CategoryId.HasValue)
+            .Select(t => t.CategoryId!.Value)
+            .Distinct()
+            .ToList();
+        var existingTargets = await _context.Categories
+            .Where(c => existingTargetIds.Contains(c.Id) && (c.UserId == userId || c.IsSystemCategory))
+            .ToDictionaryAsync(c => c.Id, cancellationToken);
+
+        foreach (var target in targets)
+        {
+            var hasName = !string.IsNullOrWhiteSpace(target.NewCategoryName);
+            if (target.CategoryId.HasValue == hasName)
+            {
+                throw new InvalidOperationException("Each split target needs either an existing category or a new category name.");
+            }
+
+            if (target.CategoryId == sourceCategoryId)
+            {
+                throw new InvalidOperationException("A category cannot be split into itself.");
+            }
+
+            if (target.CategoryId.HasValue && !existingTargets.ContainsKey(target.CategoryId.Value))
+            {
+                throw new ArgumentException("Target category not found.");
+            }
+
+            if (hasName && target.NewCategoryName!.Trim().Length > MaxCategoryNameLength)
+            {
+                throw new InvalidOperationException($"Category names can be at most {MaxCategoryNameLength} characters.");
+            }
+
+            if (target.TransactionIds.Count == 0 && string.IsNullOrWhiteSpace(target.Pattern))
+            {
+                throw new InvalidOperationException("Each split target needs selected transactions or a pattern.");
+            }
+        }
+
+        var candidates = await _context.Transactions
+            .Where(t => t.CategoryId == sourceCategoryId)
+            .Select(t => new { t.Id, t.Description, t.UserDescription })
+            .ToListAsync(cancellationToken);
+
+        // Explicitly selected transactions are claimed first, then patterns in target order
+        var claimed = new HashSet<int>();
+        var assignments = targets.Select(_ => new List<int>()).ToList();
+
+        for (var i = 0; i < targets.Count; i++)
+        {
+            var selected = targets[i].TransactionIds.ToHashSet();
+            foreach (var candidate in candidates)
+            {
+                if (selected.Contains(candidate.Id) && claimed.Add(candidate.Id))
+                {
+                    assignments[i].Add(candidate.Id);
+                }
+            }
+        }
+
+        for (var i = 0; i < targets.Count; i++)
+        {
+            var pattern = targets[i].Pattern?.Trim();
+            if (string.IsNullOrEmpty(pattern))
+            {
+                continue;
+            }
+
+            foreach (var candidate in candidates)
+            {
+                var matches = candidate.Description.Contains(pattern, StringComparison.OrdinalIgnoreCase)
+                    || (candidate.UserDescription?.Contains(pattern, StringComparison.OrdinalIgnoreCase) ?? false);
+                if (matches && claimed.Add(candidate.Id))
+                {
+                    assignments[i].Add(candidate.Id);
+                }
+            }
+        }
+
+        // Schedules follow the first target whose pattern their name or match text contains
+        var schedules = await _context.RecurringSchedules
+            .Where(s => s.CategoryId == sourceCategoryId)
+            .Select(s => new { s.Id, s.Name, s.MatchText })
+            .ToListAsync(cancellationToken);
+        var scheduleAssignments = targets.Select(_ => new List<int>()).ToList();
+        var claimedSchedules = new HashSet<int>();
+
+        for (var i = 0; i < targets.Count; i++)
+        {
+            var pattern = targets[i].Pattern?.Trim();
+            if (string.IsNullOrEmpty(pattern))
+            {
+                continue;
+            }
+
+            foreach (var schedule in schedules)
+            {
+                var matches = schedule.Name.Contains(pattern, StringComparison.OrdinalIgnoreCase)
+                    || (schedule.MatchText?.Contains(pattern, StringComparison.OrdinalIgnoreCase) ?? false);
+                if (matches && claimedSchedules.Add(schedule.Id))
+                {
+                    scheduleAssignments[i].Add(schedule.Id);
+                }
+            }
+        }
+
+        var summary = new CategoryMigrationSummaryDto();
+        for (var i = 0; i < targets.Count; i++)
+        {
+            var target = targets[i];
+            summary.Targets.Add(new CategorySplitTargetSummaryDto
+            {
+                CategoryId = target.CategoryId,
+                CategoryName = target.CategoryId.HasValue
+                    ? existingTargets[target.CategoryId.Value].Name
+                    : target.NewCategoryName!.Trim(),
+                IsNew = !target.CategoryId.HasValue,
+                TransactionCount = assignments[i].Count
+            });
+        }
+
+        // References stay with the source; report them so the user knows what a split leaves behind
+        summary.TransactionCount = claimed.Count;
+        summary.RemainingTransactionCount = candidates.Count - claimed.Count;
+        summary.RecurringScheduleCount = claimedSchedules.Count;
+        summary.BudgetCount = await _context.BudgetCategories
+            .CountAsync(bc => bc.CategoryId == sourceCategoryId && bc.Budget.UserId == userId, cancellationToken);
+        summary.RuleCount = await _context.CategorizationRules
+            .CountAsync(r => r.CategoryId == sourceCategoryId, cancellationToken);
+        summary.BankCategoryMappingCount = await _context.BankCategoryMappings
+            .CountAsync(m => m.CategoryId == sourceCategoryId, cancellationToken);
+        summary.RecurringPatternCount = await _context.RecurringPatterns
+            .CountAsync(p => p.CategoryId == sourceCategoryId, cancellationToken);
+
+        if (dryRun)
+        {
+            return summary;
+        }
+
+        await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+
+        try
+        {
+            var now = DateTime.UtcNow;
+
+            for (var i = 0; i < targets.Count; i++)
+            {
+                var targetSummary = summary.Targets[i];
+
+                if (targetSummary.IsNew)
+                {
+                    var created = new Category
+                    {
+                        Name = targetSummary.CategoryName,
+                        Color = source.Color,
+                        Icon = source.Icon,
+                        ParentCategoryId = source.Id,
+                        UserId = userId,
+                        IsSystemCategory = false,
+                        IsActive = true,
+                        CreatedAt = now,
+                        UpdatedAt = now
+                    };
+                    _context.Categories.Add(created);
+                    await _context.SaveChangesAsync(cancellationToken);
+                    targetSummary.CategoryId = created.Id;
+                }
+
+                var targetCategoryId = targetSummary.CategoryId!.Value;
+
+                var transactionIds = assignments[i];
+                if (transactionIds.Count > 0)
+                {
+                    var moved = await _context.Transactions
+                        .Where(t => transactionIds.Contains(t.Id) && t.CategoryId == sourceCategoryId)
+                        .ToListAsync(cancellationToken);
+                    moved.ForEach(t => t.CategoryId = targetCategoryId);
+                }
+
+                var scheduleIds = scheduleAssignments[i];
+                if (scheduleIds.Count > 0)
+                {
+                    var movedSchedules = await _context.RecurringSchedules
+                        .Where(s => scheduleIds.Contains(s.Id) && s.CategoryId == sourceCategoryId)
+                        .ToListAsync(cancellationToken);
+                    movedSchedules.ForEach(s => s.CategoryId = targetCategoryId);
+                }
+            }
+
+            await _context.SaveChangesAsync(cancellationToken);
+            await transaction.CommitAsync(cancellationToken);
+
+            _logger.LogInformation(
+                "Split category {SourceId} for user {UserId}: {Transactions} transactions and {Schedules} schedules moved to {Targets} categories",
+                sourceCategoryId, userId, summary.TransactionCount, summary.RecurringScheduleCount, targets.Count);
+
+            return summary;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to split category {SourceId} for user {UserId}", sourceCategoryId, userId);
+            await transaction.RollbackAsync(cancellationToken);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Leaves one allocation per budget pointing at the target, adding the folded allocations' amounts to it.
+    /// </summary>
+    private async Task CombineBudgetAllocationsAsync(
+        List<IGrouping<int, BudgetCategory>> budgetGroups,
+        int targetCategoryId,
+        DateTime now,
+        CancellationToken cancellationToken)
+    {
+        if (budgetGroups.Count == 0)
+        {
+            return;
+        }
+
+        // (BudgetId, CategoryId) is unique even across soft-deleted rows, so an old target
+        // allocation has to be revived rather than a source allocation re-pointed at it
+        var budgetIds = budgetGroups.Select(g => g.Key).ToList();
+        var deletedTargetAllocations = await _context.BudgetCategories
+            .IgnoreQueryFilters()
+            .Where(bc => budgetIds.Contains(bc.BudgetId) && bc.CategoryId == targetCategoryId && bc.IsDeleted)
+            .ToDictionaryAsync(bc => bc.BudgetId, cancellationToken);
+
+        foreach (var group in budgetGroups)
+        {
+            var folded = group.Where(bc => bc.CategoryId != targetCategoryId).ToList();
+            var keeper = group.FirstOrDefault(bc => bc.CategoryId == targetCategoryId);
+
+            if (keeper == null && deletedTargetAllocations.TryGetValue(group.Key, out var deleted))
+            {
+                keeper = deleted;
+                keeper.IsDeleted = false;
+                keeper.DeletedAt = null;
+                keeper.BudgetedAmount = 0;
+                keeper.RolloverAmount = null;
+                keeper.AllowRollover = folded[0].AllowRollover;
+                keeper.CarryOverspend = folded[0].CarryOverspend;
+                keeper.IncludeSubcategories = folded[0].IncludeSubcategories;
+                keeper.Notes = folded[0].Notes;
+            }
+            else if (keeper == null)
+            {
+                keeper = folded[0];
+                folded.RemoveAt(0);
+                keeper.CategoryId = targetCategoryId;
+            }
+
+            foreach (var allocation in folded)
+            {
+                keeper.BudgetedAmount += allocation.BudgetedAmount;
+                if (allocation.RolloverAmount.HasValue)
+                {
+                    keeper.RolloverAmount = (keeper.RolloverAmount ?? 0) + allocation.RolloverAmount.Value;
+                }
+
+                allocation.IsDeleted = true;
+                allocation.DeletedAt = now;
+                allocation.UpdatedAt = now;
+            }
+
+            keeper.UpdatedAt = now;
+        }
+    }
+
+    private static HashSet<int> AncestorIds(Category category, IReadOnlyDictionary<int, Category> categoriesById)
+    {
+        var ancestorIds = new HashSet<int>();
+        var parentId = category.ParentCategoryId;
+        while (parentId.HasValue && ancestorIds.Add(parentId.Value))
+        {
+            parentId = categoriesById.TryGetValue(parentId.Value, out var parent) ? parent.ParentCategoryId : null;
+        }
+
+        return ancestorIds;
+    }
+
+    private static int? SurvivingParentId(
+        Category category,
+        IReadOnlyDictionary<int, Category> categoriesById,
+        ICollection<int> removedIds)
+    {
+        var parentId = category.ParentCategoryId;
+        while (parentId.HasValue && removedIds.Contains(parentId.Value))
+        {
+            parentId = categoriesById.TryGetValue(parentId.Value, out var parent) ? parent.ParentCategoryId : null;
+        }
+
+        return parentId;
+    }
+}
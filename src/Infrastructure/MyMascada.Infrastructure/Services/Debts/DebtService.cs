@@ -0,0 +1,240 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Debts;
+
+/// <summary>
+/// Terms are only kept for loan and credit card accounts. Amortization and payoff plans are
+/// projected from the current balance and these terms by the client, so nothing here depends on
+/// past payments. The chosen strategy and extra payment are kept per user so every device
+/// projects the same plan.
+/// </summary>
+public class DebtService : IDebtService
+{
+    private const decimal MaxInterestRate = 100m;
+    private const decimal MaxPayment = 1_000_000_000m;
+    private const int MaxTermMonths = 600;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly IExchangeRateService _exchangeRateService;
+    private readonly ILogger<DebtService> _logger;
+
+    public DebtService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        ITransactionRepository transactionRepository,
+        IExchangeRateService exchangeRateService,
+        ILogger<DebtService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _transactionRepository = transactionRepository;
+        _exchangeRateService = exchangeRateService;
+        _logger = logger;
+    }
+
+    public async Task<DebtsResponse> GetDebtsAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+
+        var accounts = await _context.Accounts
+            .AsNoTracking()
+            .Where(a => accessibleIds.Contains(a.Id)
+                        && !a.IsDeleted
+                        && a.IsActive
+                        && (a.Type == AccountType.Loan || a.Type == AccountType.CreditCard))
+            .ToListAsync(cancellationToken);
+        var accountIds = accounts.Select(a => a.Id).ToList();
+
+        var terms = await _context.DebtTerms
+            .AsNoTracking()
+            .Where(d => accountIds.Contains(d.AccountId))
+            .ToDictionaryAsync(d => d.AccountId, cancellationToken);
+
+        var balances = await _transactionRepository.GetAccountBalancesAsync(userId);
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+        var today = DateTimeProvider.UtcNow;
+
+        var debts = accounts
+            .Select(a => ToDto(a, balances.GetValueOrDefault(a.Id), terms.GetValueOrDefault(a.Id), converter, today))
+            .Where(d => d.Balance > 0)
+            .OrderByDescending(d => d.BaseBalance)
+            .ToList();
+
+        var plan = await _context.DebtPayoffPlans
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.UserId == userId, cancellationToken);
+
+        return new DebtsResponse
+        {
+            BaseCurrency = converter.BaseCurrency,
+            UnconvertedCurrencies = converter.MissingCurrencies.OrderBy(c => c).ToList(),
+            Debts = debts,
+            Plan = plan != null ? ToDto(plan) : new DebtPayoffPlanDto()
+        };
+    }
+
+    public async Task<DebtDto> GetDebtAsync(Guid userId, int accountId, CancellationToken cancellationToken = default)
+    {
+        if (!await _accountAccess.CanAccessAccountAsync(userId, accountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var account = await _context.Accounts
+                          .AsNoTracking()
+                          .FirstOrDefaultAsync(a => a.Id == accountId && !a.IsDeleted, cancellationToken)
+                      ?? throw new ArgumentException("Account not found.");
+
+        var terms = await _context.DebtTerms
+            .AsNoTracking()
+            .FirstOrDefaultAsync(d => d.AccountId == accountId, cancellationToken);
+
+        var balance = await _transactionRepository.GetAccountBalanceAsync(accountId, userId);
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+
+        return ToDto(account, balance, terms, converter, DateTimeProvider.UtcNow);
+    }
+
+    public async Task<DebtTermsDto> SaveTermsAsync(Guid userId, int accountId, SaveDebtTermsRequest request, CancellationToken cancellationToken = default)
+    {
+        if (request.AnnualInterestRate < 0 || request.AnnualInterestRate > MaxInterestRate)
+        {
+            throw new ArgumentException($"The interest rate must be between 0 and {MaxInterestRate}%.");
+        }
+        if (request.MinimumPayment < 0 || request.MinimumPayment > MaxPayment)
+        {
+            throw new ArgumentException("The minimum payment cannot be negative.");
+        }
+        if (request.TermMonths is < 1 or > MaxTermMonths)
+        {
+            throw new ArgumentException($"The term must be between 1 and {MaxTermMonths} months.");
+        }
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, accountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var account = await _context.Accounts
+                          .FirstOrDefaultAsync(a => a.Id == accountId && !a.IsDeleted, cancellationToken)
+                      ?? throw new ArgumentException("Account not found.");
+
+        if (account.Type != AccountType.Loan && account.Type != AccountType.CreditCard)
+        {
+            throw new ArgumentException("Terms can only be set on loan and credit card accounts.");
+        }
+
+        var terms = await _context.DebtTerms
+            .FirstOrDefaultAsync(d => d.AccountId == account.Id, cancellationToken);
+
+        if (terms == null)
+        {
+            terms = new DebtTerms { AccountId = account.Id };
+            _context.DebtTerms.Add(terms);
+        }
+
+        terms.AnnualInterestRate = request.AnnualInterestRate;
+        terms.MinimumPayment = Math.Round(request.MinimumPayment, 2);
+        terms.TermMonths = request.TermMonths;
+        terms.StartDate = request.StartDate.HasValue ? DateTimeProvider.StartOfDayUtc(request.StartDate.Value) : null;
+        terms.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Saved debt terms for account {AccountId} for user {UserId}", account.Id, userId);
+
+        return ToDto(terms);
+    }
+
+    public async Task DeleteTermsAsync(Guid userId, int accountId, CancellationToken cancellationToken = default)
+    {
+        if (!await _accountAccess.CanModifyAccountAsync(userId, accountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var terms = await _context.DebtTerms
+                        .FirstOrDefaultAsync(d => d.AccountId == accountId, cancellationToken)
+                    ?? throw new ArgumentException("The account has no terms.");
+
+        terms.IsDeleted = true;
+        terms.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task<DebtPayoffPlanDto> SavePlanAsync(Guid userId, SaveDebtPayoffPlanRequest request, CancellationToken cancellationToken = default)
+    {
+        if (!Enum.TryParse<DebtPayoffStrategy>(request.Strategy, ignoreCase: true, out var strategy)
+            || !Enum.IsDefined(strategy))
+        {
+            throw new ArgumentException("The strategy must be avalanche or snowball.");
+        }
+        if (request.ExtraPayment < 0 || request.ExtraPayment > MaxPayment)
+        {
+            throw new ArgumentException("The extra payment cannot be negative.");
+        }
+
+        var plan = await _context.DebtPayoffPlans
+            .FirstOrDefaultAsync(p => p.UserId == userId, cancellationToken);
+
+        if (plan == null)
+        {
+            plan = new DebtPayoffPlan { UserId = userId };
+            _context.DebtPayoffPlans.Add(plan);
+        }
+
+        plan.Strategy = strategy;
+        plan.ExtraPayment = Math.Round(request.ExtraPayment, 2);
+        plan.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(plan);
+    }
+
+    private static DebtDto ToDto(Account account, decimal balance, DebtTerms? terms, CurrencyConverter converter, DateTime today)
+    {
+        // Liability balances are negative while money is owed
+        var owed = -balance;
+
+        return new DebtDto
+        {
+            AccountId = account.Id,
+            Name = account.Name,
+            Type = account.Type,
+            Currency = account.Currency,
+            Balance = owed,
+            BaseBalance = converter.ToBase(owed, account.Currency, today),
+            BaseMinimumPayment = terms != null ? converter.ToBase(terms.MinimumPayment, account.Currency, today) : null,
+            Terms = terms != null ? ToDto(terms) : null
+        };
+    }
+
+    private static DebtTermsDto ToDto(DebtTerms terms) => new()
+    {
+        AccountId = terms.AccountId,
+        AnnualInterestRate = terms.AnnualInterestRate,
+        MinimumPayment = terms.MinimumPayment,
+        TermMonths = terms.TermMonths,
+        StartDate = terms.StartDate,
+        MaturityDate = terms.StartDate.HasValue && terms.TermMonths.HasValue
+            ? terms.StartDate.Value.AddMonths(terms.TermMonths.Value)
+            : null
+    };
+
+    private static DebtPayoffPlanDto ToDto(DebtPayoffPlan plan) => new()
+    {
+        Strategy = plan.Strategy.ToString().ToLowerInvariant(),
+        ExtraPayment = plan.ExtraPayment
+    };
+}
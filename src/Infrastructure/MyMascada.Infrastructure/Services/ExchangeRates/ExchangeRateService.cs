@@ -0,0 +1,235 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.ExchangeRates;
+
+/// <summary>
+/// Rates are kept per user with at most one rate per currency pair and day; saving or importing
+/// a rate for a day that already has one replaces it.
+/// </summary>
+public class ExchangeRateService : IExchangeRateService
+{
+    private const int MaxImportLines = 10000;
+    private const decimal MaxRate = 1_000_000m;
+
+    private static readonly string[] DateFormats = { "yyyy-MM-dd", "yyyy/MM/dd", "dd/MM/yyyy" };
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<ExchangeRateService> _logger;
+
+    public ExchangeRateService(ApplicationDbContext context, ILogger<ExchangeRateService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<ExchangeRatesResponse> GetRatesAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var converter = await GetConverterAsync(userId, cancellationToken);
+
+        var rates = await _context.ExchangeRates
+            .AsNoTracking()
+            .Where(r => r.UserId == userId)
+            .OrderByDescending(r => r.RateDate)
+            .ThenBy(r => r.FromCurrency)
+            .ThenBy(r => r.ToCurrency)
+            .ToListAsync(cancellationToken);
+
+        var accountCurrencies = (await _context.Accounts
+                .AsNoTracking()
+                .Where(a => a.UserId == userId && !a.IsDeleted && a.IsActive)
+                .Select(a => a.Currency)
+                .Distinct()
+                .ToListAsync(cancellationToken))
+            .Select(c => c.ToUpperInvariant())
+            .Where(c => c != converter.BaseCurrency)
+            .Distinct()
+            .OrderBy(c => c)
+            .ToList();
+
+        var today = DateTime.UtcNow.Date;
+
+        return new ExchangeRatesResponse
+        {
+            BaseCurrency = converter.BaseCurrency,
+            AccountCurrencies = accountCurrencies,
+            MissingCurrencies = accountCurrencies
+                .Where(c => !converter.GetRate(c, converter.BaseCurrency, today).HasValue)
+                .ToList(),
+            Rates = rates.Select(ToDto).ToList()
+        };
+    }
+
+    public async Task<ExchangeRateDto> SaveRateAsync(Guid userId, SaveExchangeRateRequest request, CancellationToken cancellationToken = default)
+    {
+        var error = Validate(request.FromCurrency, request.ToCurrency, request.Rate, request.RateDate);
+        if (error != null)
+        {
+            throw new ArgumentException(error);
+        }
+
+        var rate = await UpsertAsync(userId, request.FromCurrency, request.ToCurrency, request.Rate, request.RateDate,
+            ExchangeRateSource.Manual, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(rate);
+    }
+
+    public async Task DeleteRateAsync(Guid userId, int rateId, CancellationToken cancellationToken = default)
+    {
+        var rate = await _context.ExchangeRates
+                       .FirstOrDefaultAsync(r => r.Id == rateId && r.UserId == userId, cancellationToken)
+                   ?? throw new ArgumentException("Exchange rate not found.");
+
+        rate.IsDeleted = true;
+        rate.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task<ExchangeRateImportResult> ImportRatesAsync(Guid userId, Stream content, CancellationToken cancellationToken = default)
+    {
+        var result = new ExchangeRateImportResult();
+        using var reader = new StreamReader(content);
+
+        var lineNumber = 0;
+        string? line;
+        while ((line = await reader.ReadLineAsync(cancellationToken)) != null)
+        {
+            lineNumber++;
+            if (lineNumber > MaxImportLines)
+            {
+                result.Errors.Add($"Only the first {MaxImportLines} lines were read.");
+                break;
+            }
+
+            if (string.IsNullOrWhiteSpace(line))
+                continue;
+
+            var columns = line.Split(line.Contains(';') ? ';' : ',').Select(c => c.Trim().Trim('"')).ToArray();
+            if (columns.Length < 4)
+            {
+                result.Errors.Add($"Line {lineNumber}: expected date, from, to and rate.");
+                continue;
+            }
+
+            var parsedDate = DateTime.TryParseExact(columns[0], DateFormats, CultureInfo.InvariantCulture,
+                DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal, out var date);
+            var parsedRate = decimal.TryParse(columns[3], NumberStyles.Number, CultureInfo.InvariantCulture, out var value);
+
+            // A header row is skipped rather than reported
+            if (lineNumber == 1 && !parsedDate && !parsedRate)
+                continue;
+
+            var error = !parsedDate
+                ? "the date must be written as yyyy-mm-dd"
+                : !parsedRate
+                    ? "the rate is not a number"
+                    : Validate(columns[1], columns[2], value, date);
+            if (error != null)
+            {
+                result.Errors.Add($"Line {lineNumber}: {char.ToLowerInvariant(error[0])}{error[1..].TrimEnd('.')}.");
+                continue;
+            }
+
+            var rate = await UpsertAsync(userId, columns[1], columns[2], value, date, ExchangeRateSource.Imported, cancellationToken);
+            if (rate.Id == 0)
+                result.Imported++;
+            else
+                result.Updated++;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Imported {Imported} and updated {Updated} exchange rates for user {UserId} ({Errors} lines skipped)",
+            result.Imported, result.Updated, userId, result.Errors.Count);
+
+        return result;
+    }
+
+    public async Task<CurrencyConverter> GetConverterAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var baseCurrency = await _context.Users
+            .AsNoTracking()
+            .Where(u => u.Id == userId)
+            .Select(u => u.Currency)
+            .FirstOrDefaultAsync(cancellationToken) ?? "USD";
+
+        var rates = await _context.ExchangeRates
+            .AsNoTracking()
+            .Where(r => r.UserId == userId)
+            .ToListAsync(cancellationToken);
+
+        return new CurrencyConverter(baseCurrency, rates);
+    }
+
+    public async Task RecordTransferRateAsync(Guid userId, string fromCurrency, string toCurrency, decimal rate, DateTime date, CancellationToken cancellationToken = default)
+    {
+        if (Validate(fromCurrency, toCurrency, rate, date) != null)
+            return;
+
+        await UpsertAsync(userId, fromCurrency, toCurrency, rate, date, ExchangeRateSource.Transfer, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Returns the tracked rate for the pair and day, updated or newly added (Id 0 until saved)
+    /// </summary>
+    private async Task<ExchangeRate> UpsertAsync(Guid userId, string fromCurrency, string toCurrency, decimal value,
+        DateTime date, ExchangeRateSource source, CancellationToken cancellationToken)
+    {
+        var from = fromCurrency.Trim().ToUpperInvariant();
+        var to = toCurrency.Trim().ToUpperInvariant();
+        var day = DateTimeProvider.StartOfDayUtc(date);
+
+        var rate = _context.ExchangeRates.Local
+                       .FirstOrDefault(r => r.UserId == userId && r.FromCurrency == from && r.ToCurrency == to && r.RateDate == day && !r.IsDeleted)
+                   ?? await _context.ExchangeRates
+                       .FirstOrDefaultAsync(r => r.UserId == userId && r.FromCurrency == from && r.ToCurrency == to && r.RateDate == day, cancellationToken);
+
+        if (rate == null)
+        {
+            rate = new ExchangeRate { UserId = userId, FromCurrency = from, ToCurrency = to, RateDate = day };
+            _context.ExchangeRates.Add(rate);
+        }
+
+        rate.Rate = value;
+        rate.Source = source;
+        rate.UpdatedAt = DateTime.UtcNow;
+        return rate;
+    }
+
+    private static string? Validate(string fromCurrency, string toCurrency, decimal rate, DateTime date)
+    {
+        var from = fromCurrency.Trim().ToUpperInvariant();
+        var to = toCurrency.Trim().ToUpperInvariant();
+
+        if (!CurrencyConstants.IsValid(from) || !CurrencyConstants.IsValid(to))
+            return "Currencies must be valid 3-letter ISO 4217 codes (e.g., USD, EUR, BRL).";
+        if (from == to)
+            return "The two currencies must be different.";
+        if (rate <= 0 || rate > MaxRate)
+            return $"The rate must be greater than 0 and at most {MaxRate:N0}.";
+        if (DateTimeProvider.StartOfDayUtc(date) > DateTime.UtcNow.Date.AddDays(1))
+            return "The rate date cannot be in the future.";
+
+        return null;
+    }
+
+    private static ExchangeRateDto ToDto(ExchangeRate rate) => new()
+    {
+        Id = rate.Id,
+        FromCurrency = rate.FromCurrency,
+        ToCurrency = rate.ToCurrency,
+        Rate = rate.Rate,
+        RateDate = rate.RateDate,
+        Source = rate.Source.ToString()
+    };
+}
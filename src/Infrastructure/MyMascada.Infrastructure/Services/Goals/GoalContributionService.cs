@@ -0,0 +1,370 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Goals;
+
+/// <summary>
+/// Only manual contributions are stored. Tagged transactions and wallet allocations are read when
+/// needed, so retagging a transaction or moving an allocation changes the goal straight away.
+/// Goals with a linked account follow its balance, and their ledger lists the account's
+/// transactions since the goal was created.
+/// </summary>
+public class GoalContributionService : IGoalContributionService
+{
+    private const decimal MaxContribution = 1_000_000_000m;
+
+    private const string ManualSource = "Manual";
+    private const string TagSource = "Tag";
+    private const string WalletSource = "Wallet";
+    private const string AccountSource = "Account";
+    private const string AdjustmentSource = "Adjustment";
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly ILogger<GoalContributionService> _logger;
+
+    public GoalContributionService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        ITransactionRepository transactionRepository,
+        ILogger<GoalContributionService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _transactionRepository = transactionRepository;
+        _logger = logger;
+    }
+
+    public async Task<Dictionary<int, decimal>> GetCurrentAmountsAsync(Guid userId, IReadOnlyCollection<Goal> goals, CancellationToken cancellationToken = default)
+    {
+        var amounts = new Dictionary<int, decimal>();
+
+        var accountBalances = goals.Any(g => g.LinkedAccountId.HasValue)
+            ? await _transactionRepository.GetAccountBalancesAsync(userId)
+            : new Dictionary<int, decimal>();
+
+        var tagTotals = new Dictionary<string, decimal>(StringComparer.OrdinalIgnoreCase);
+        var walletTotals = new Dictionary<int, decimal>();
+
+        foreach (var goal in goals)
+        {
+            if (goal.LinkedAccountId.HasValue)
+            {
+                amounts[goal.Id] = accountBalances.GetValueOrDefault(goal.LinkedAccountId.Value);
+                continue;
+            }
+
+            var amount = goal.CurrentAmount;
+
+            if (!string.IsNullOrEmpty(goal.ContributionTag))
+            {
+                if (!tagTotals.TryGetValue(goal.ContributionTag, out var tagTotal))
+                {
+                    var tagged = await GetTagContributionsAsync(userId, goal.ContributionTag, cancellationToken);
+                    tagTotal = tagged.Sum(c => c.Amount);
+                    tagTotals[goal.ContributionTag] = tagTotal;
+                }
+                amount += tagTotal;
+            }
+
+            if (goal.WalletId.HasValue)
+            {
+                if (!walletTotals.TryGetValue(goal.WalletId.Value, out var walletTotal))
+                {
+                    var allocations = await GetWalletContributionsAsync(userId, goal.WalletId.Value, cancellationToken);
+                    walletTotal = allocations.Sum(c => c.Amount);
+                    walletTotals[goal.WalletId.Value] = walletTotal;
+                }
+                amount += walletTotal;
+            }
+
+            amounts[goal.Id] = amount;
+        }
+
+        return amounts;
+    }
+
+    public async Task<GoalContributionsResponse> GetContributionsAsync(Guid userId, int goalId, CancellationToken cancellationToken = default)
+    {
+        var goal = await _context.Goals
+                       .AsNoTracking()
+                       .Include(g => g.Contributions)
+                       .FirstOrDefaultAsync(g => g.Id == goalId && g.UserId == userId, cancellationToken)
+                   ?? throw new ArgumentException("Goal not found.");
+
+        var contributions = new List<GoalContributionDto>();
+
+        if (goal.LinkedAccountId.HasValue)
+        {
+            contributions.AddRange(await GetAccountContributionsAsync(userId, goal, cancellationToken));
+        }
+        else
+        {
+            contributions.AddRange(goal.Contributions.Select(ToDto));
+
+            // Progress set before contributions were tracked, or changed outside the ledger
+            var drift = goal.CurrentAmount - goal.Contributions.Sum(c => c.Amount);
+            if (drift != 0)
+            {
+                contributions.Add(new GoalContributionDto
+                {
+                    Source = AdjustmentSource,
+                    Date = DateTimeProvider.StartOfDayUtc(goal.CreatedAt),
+                    Amount = drift
+                });
+            }
+
+            if (!string.IsNullOrEmpty(goal.ContributionTag))
+            {
+                contributions.AddRange(await GetTagContributionsAsync(userId, goal.ContributionTag, cancellationToken));
+            }
+
+            if (goal.WalletId.HasValue)
+            {
+                contributions.AddRange(await GetWalletContributionsAsync(userId, goal.WalletId.Value, cancellationToken));
+            }
+        }
+
+        var ordered = contributions
+            .OrderBy(c => c.Date)
+            .ThenBy(c => c.Source == AdjustmentSource ? 0 : 1)
+            .ThenBy(c => c.Id ?? c.TransactionId ?? 0)
+            .ToList();
+
+        return new GoalContributionsResponse
+        {
+            GoalId = goal.Id,
+            CurrentAmount = ordered.Sum(c => c.Amount),
+            TargetAmount = goal.TargetAmount,
+            ContributionTag = goal.ContributionTag,
+            WalletId = goal.WalletId,
+            Contributions = ordered
+        };
+    }
+
+    public async Task<GoalContributionDto> AddContributionAsync(Guid userId, int goalId, SaveGoalContributionRequest request, CancellationToken cancellationToken = default)
+    {
+        if (request.Amount == 0)
+        {
+            throw new ArgumentException("The contribution amount cannot be zero.");
+        }
+        if (Math.Abs(request.Amount) > MaxContribution)
+        {
+            throw new ArgumentException("The contribution amount is too large.");
+        }
+
+        var date = DateTimeProvider.StartOfDayUtc(request.ContributionDate);
+        if (date > DateTimeProvider.UtcNow)
+        {
+            throw new ArgumentException("Contributions cannot be dated in the future.");
+        }
+
+        var note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim();
+        if (note?.Length > 500)
+        {
+            throw new ArgumentException("The note cannot exceed 500 characters.");
+        }
+
+        var goal = await FindGoalAsync(userId, goalId, cancellationToken);
+        if (goal.LinkedAccountId.HasValue)
+        {
+            throw new InvalidOperationException("Goals with a linked account follow its balance; contributions cannot be added by hand.");
+        }
+
+        var contribution = goal.RecordContribution(Math.Round(request.Amount, 2), date, note);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Recorded a contribution to goal {GoalId} for user {UserId}", goal.Id, userId);
+
+        return ToDto(contribution);
+    }
+
+    public async Task DeleteContributionAsync(Guid userId, int goalId, int contributionId, CancellationToken cancellationToken = default)
+    {
+        var goal = await FindGoalAsync(userId, goalId, cancellationToken);
+        if (goal.LinkedAccountId.HasValue)
+        {
+            throw new InvalidOperationException("Goals with a linked account follow its balance; contributions cannot be removed by hand.");
+        }
+
+        var contribution = await _context.GoalContributions
+                               .FirstOrDefaultAsync(c => c.Id == contributionId && c.GoalId == goal.Id, cancellationToken)
+                           ?? throw new ArgumentException("Contribution not found.");
+
+        var now = DateTimeProvider.UtcNow;
+        contribution.IsDeleted = true;
+        contribution.DeletedAt = now;
+        goal.CurrentAmount -= contribution.Amount;
+        goal.UpdatedAt = now;
+
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task UpdateContributionSourcesAsync(Guid userId, int goalId, UpdateGoalContributionSourcesRequest request, CancellationToken cancellationToken = default)
+    {
+        var goal = await FindGoalAsync(userId, goalId, cancellationToken);
+
+        var tag = string.IsNullOrWhiteSpace(request.ContributionTag) ? null : request.ContributionTag.Trim();
+        if (tag != null)
+        {
+            if (tag.Contains(','))
+            {
+                throw new ArgumentException("Tag names cannot contain commas.");
+            }
+            if (tag.Length > Tag.MaxNameLength)
+            {
+                throw new ArgumentException($"Tag names cannot exceed {Tag.MaxNameLength} characters.");
+            }
+        }
+
+        if (request.WalletId.HasValue
+            && !await _context.Wallets.AnyAsync(w => w.Id == request.WalletId.Value && w.UserId == userId, cancellationToken))
+        {
+            throw new ArgumentException("Wallet not found.");
+        }
+
+        if ((tag != null || request.WalletId.HasValue) && goal.LinkedAccountId.HasValue)
+        {
+            throw new InvalidOperationException("Goals with a linked account follow its balance and cannot count tags or wallets.");
+        }
+
+        goal.ContributionTag = tag;
+        goal.WalletId = request.WalletId;
+        goal.UpdatedAt = DateTimeProvider.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private async Task<Goal> FindGoalAsync(Guid userId, int goalId, CancellationToken cancellationToken)
+    {
+        return await _context.Goals
+                   .FirstOrDefaultAsync(g => g.Id == goalId && g.UserId == userId, cancellationToken)
+               ?? throw new ArgumentException("Goal not found.");
+    }
+
+    /// <summary>
+    /// Transactions carrying the tag count by their size whichever way the money moved; a
+    /// withdrawal from a goal is entered as a negative manual contribution. Only the sending leg of
+    /// a transfer counts, so a tagged transfer isn't counted twice.
+    /// </summary>
+    private async Task<List<GoalContributionDto>> GetTagContributionsAsync(Guid userId, string tag, CancellationToken cancellationToken)
+    {
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+        var lowered = tag.ToLower();
+
+        var tagged = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => accessibleIds.Contains(t.AccountId) &&
+                        !t.Account.IsDeleted &&
+                        t.Status != TransactionStatus.Cancelled &&
+                        t.TransactionTags.Any(tt => tt.Tag.Name.ToLower() == lowered) &&
+                        (!t.TransferId.HasValue || t.IsTransferSource))
+            .ToListAsync(cancellationToken);
+
+        return tagged
+            .Select(t => new GoalContributionDto
+            {
+                Source = TagSource,
+                Date = t.TransactionDate,
+                Amount = Math.Abs(t.Amount),
+                Description = t.GetDisplayDescription(),
+                TransactionId = t.Id
+            })
+            .ToList();
+    }
+
+    /// <summary>
+    /// Allocations keep their sign, so taking money out of the wallet takes it out of the goal
+    /// </summary>
+    private async Task<List<GoalContributionDto>> GetWalletContributionsAsync(Guid userId, int walletId, CancellationToken cancellationToken)
+    {
+        return await _context.WalletAllocations
+            .AsNoTracking()
+            .Where(a => a.WalletId == walletId &&
+                        a.Wallet.UserId == userId &&
+                        !a.Wallet.IsDeleted &&
+                        !a.Transaction.IsDeleted)
+            .Select(a => new GoalContributionDto
+            {
+                Source = WalletSource,
+                Date = a.Transaction.TransactionDate,
+                Amount = a.Amount,
+                Description = a.Note ?? a.Transaction.UserDescription ?? a.Transaction.Description,
+                TransactionId = a.TransactionId
+            })
+            .ToListAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// The opening balance followed by every transaction since the goal was created (or since the
+    /// account's last valuation, which resets the balance)
+    /// </summary>
+    private async Task<List<GoalContributionDto>> GetAccountContributionsAsync(Guid userId, Goal goal, CancellationToken cancellationToken)
+    {
+        var accountId = goal.LinkedAccountId!.Value;
+        if (!await _accountAccess.CanAccessAccountAsync(userId, accountId))
+        {
+            return new List<GoalContributionDto>();
+        }
+
+        var balance = await _transactionRepository.GetAccountBalanceAsync(accountId, userId);
+
+        var lastValuation = await _context.AccountValuations
+            .AsNoTracking()
+            .Where(v => v.AccountId == accountId)
+            .OrderByDescending(v => v.ValuationDate)
+            .Select(v => (DateTime?)v.ValuationDate)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var start = DateTimeProvider.StartOfDayUtc(goal.CreatedAt);
+        if (lastValuation.HasValue && lastValuation.Value.AddDays(1) > start)
+        {
+            start = lastValuation.Value.AddDays(1);
+        }
+
+        var transactions = await _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.AccountId == accountId &&
+                        t.TransactionDate >= start &&
+                        t.Status != TransactionStatus.Cancelled)
+            .Select(t => new GoalContributionDto
+            {
+                Source = AccountSource,
+                Date = t.TransactionDate,
+                Amount = t.Amount,
+                Description = t.UserDescription ?? t.Description,
+                TransactionId = t.Id
+            })
+            .ToListAsync(cancellationToken);
+
+        var opening = balance - transactions.Sum(t => t.Amount);
+        if (opening != 0)
+        {
+            transactions.Insert(0, new GoalContributionDto
+            {
+                Source = AdjustmentSource,
+                Date = start,
+                Amount = opening,
+                Description = "Opening balance"
+            });
+        }
+
+        return transactions;
+    }
+
+    private static GoalContributionDto ToDto(GoalContribution contribution) => new()
+    {
+        Id = contribution.Id,
+        Source = ManualSource,
+        Date = contribution.ContributionDate,
+        Amount = contribution.Amount,
+        Description = contribution.Note
+    };
+}
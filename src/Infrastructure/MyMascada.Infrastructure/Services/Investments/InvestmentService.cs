@@ -0,0 +1,579 @@
+using System.Globalization;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Investments;
+
+/// <summary>
+/// Trades keep holdings and cash in step: each trade writes a transaction for the money it moved,
+/// and units and cost are replayed from the trades by <see cref="PortfolioCalculator"/>. Prices are
+/// kept per user with at most one price per symbol and day; the account owner's prices value
+/// shared accounts.
+/// </summary>
+public class InvestmentService : IInvestmentService
+{
+    private const int MaxImportLines = 10000;
+    private const decimal MaxAmount = 1_000_000_000m;
+
+    private static readonly string[] DateFormats = { "yyyy-MM-dd", "yyyy/MM/dd", "dd/MM/yyyy" };
+    private static readonly Regex SymbolPattern = new(@"^[A-Z0-9][A-Z0-9.\-:^=]{0,19}$", RegexOptions.Compiled);
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly ILogger<InvestmentService> _logger;
+
+    public InvestmentService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        ITransactionRepository transactionRepository,
+        ILogger<InvestmentService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _transactionRepository = transactionRepository;
+        _logger = logger;
+    }
+
+    public async Task<PortfolioResponse> GetPortfolioAsync(Guid userId, int accountId, CancellationToken cancellationToken = default)
+    {
+        if (!await _accountAccess.CanAccessAccountAsync(userId, accountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var account = await _context.Accounts
+                          .AsNoTracking()
+                          .FirstOrDefaultAsync(a => a.Id == accountId && !a.IsDeleted, cancellationToken)
+                      ?? throw new ArgumentException("Account not found.");
+
+        var holdings = await _context.InvestmentHoldings
+            .AsNoTracking()
+            .Include(h => h.Trades)
+            .Where(h => h.AccountId == accountId)
+            .OrderBy(h => h.Symbol)
+            .ToListAsync(cancellationToken);
+
+        var calculator = await GetCalculatorAsync(account.UserId, cancellationToken);
+        var now = DateTimeProvider.UtcNow;
+
+        var holdingDtos = holdings.Select(h =>
+        {
+            var position = PortfolioCalculator.GetPosition(h.Trades);
+            var price = calculator.FindPrice(h.Symbol, now);
+            var marketValue = calculator.GetMarketValue(h, now);
+
+            return new HoldingDto
+            {
+                Id = h.Id,
+                Symbol = h.Symbol,
+                Name = h.Name,
+                Units = position.Units,
+                AverageCost = position.AverageCost,
+                CostBasis = Math.Round(position.CostBasis, 2),
+                Price = price?.Price,
+                PriceDate = price?.Date,
+                MarketValue = marketValue,
+                UnrealisedGain = position.Units > 0 ? marketValue - Math.Round(position.CostBasis, 2) : 0m,
+                RealisedGain = Math.Round(position.RealisedGain, 2),
+                Dividends = position.Dividends
+            };
+        }).ToList();
+
+        var marketValue = holdingDtos.Sum(h => h.MarketValue);
+        foreach (var holding in holdingDtos)
+        {
+            holding.AllocationPercent = marketValue > 0 ? Math.Round(holding.MarketValue / marketValue * 100, 2) : 0m;
+        }
+
+        // The account balance already includes the holdings' market value
+        var totalValue = await _transactionRepository.GetAccountBalanceAsync(accountId, userId);
+        var costBasis = holdingDtos.Where(h => h.Units > 0).Sum(h => h.CostBasis);
+        var unrealisedGain = holdingDtos.Sum(h => h.UnrealisedGain);
+
+        return new PortfolioResponse
+        {
+            AccountId = account.Id,
+            Currency = account.Currency,
+            CashBalance = totalValue - marketValue,
+            MarketValue = marketValue,
+            TotalValue = totalValue,
+            CostBasis = costBasis,
+            UnrealisedGain = unrealisedGain,
+            UnrealisedGainPercent = costBasis > 0 ? Math.Round(unrealisedGain / costBasis * 100, 2) : null,
+            RealisedGain = holdingDtos.Sum(h => h.RealisedGain),
+            Dividends = holdingDtos.Sum(h => h.Dividends),
+            TimeWeightedReturn = calculator.GetTimeWeightedReturn(holdings, now),
+            Holdings = holdingDtos
+                .OrderByDescending(h => h.MarketValue)
+                .ThenBy(h => h.Symbol)
+                .ToList(),
+            Trades = holdings
+                .SelectMany(h => h.Trades)
+                .OrderByDescending(t => t.TradeDate)
+                .ThenByDescending(t => t.Id)
+                .Select(t => ToDto(t, holdings.First(h => h.Id == t.HoldingId).Symbol))
+                .ToList()
+        };
+    }
+
+    public async Task<InvestmentTradeDto> AddTradeAsync(Guid userId, SaveInvestmentTradeRequest request, CancellationToken cancellationToken = default)
+    {
+        if (!Enum.TryParse<InvestmentTradeType>(request.Type, true, out var type) || !Enum.IsDefined(type))
+        {
+            throw new ArgumentException("Trade type must be Buy, Sell or Dividend.");
+        }
+
+        var symbol = NormalizeSymbol(request.Symbol);
+        var notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        if (notes?.Length > 500)
+        {
+            throw new ArgumentException("Notes cannot exceed 500 characters.");
+        }
+
+        var day = DateTimeProvider.StartOfDayUtc(request.TradeDate);
+        if (day > DateTime.UtcNow.Date)
+        {
+            throw new ArgumentException("The trade date cannot be in the future.");
+        }
+
+        decimal amount;
+        if (type == InvestmentTradeType.Dividend)
+        {
+            if (request.DividendAmount is not > 0 || request.DividendAmount > MaxAmount)
+            {
+                throw new ArgumentException("The dividend amount must be greater than 0.");
+            }
+
+            amount = Math.Round(request.DividendAmount.Value, 2);
+        }
+        else
+        {
+            if (request.Units <= 0 || request.Price <= 0 || request.Units * request.Price > MaxAmount)
+            {
+                throw new ArgumentException("Units and price must be greater than 0.");
+            }
+            if (request.Fees < 0)
+            {
+                throw new ArgumentException("Fees cannot be negative.");
+            }
+
+            var gross = request.Units * request.Price;
+            amount = Math.Round(type == InvestmentTradeType.Buy ? -(gross + request.Fees) : gross - request.Fees, 2);
+        }
+
+        var account = await GetModifiableInvestmentAccountAsync(userId, request.AccountId, cancellationToken);
+
+        var holding = await _context.InvestmentHoldings
+            .Include(h => h.Trades)
+            .FirstOrDefaultAsync(h => h.AccountId == account.Id && h.Symbol == symbol, cancellationToken);
+
+        if (holding == null)
+        {
+            if (type != InvestmentTradeType.Buy)
+            {
+                throw new ArgumentException($"The account doesn't hold {symbol}; record a buy first.");
+            }
+
+            var name = string.IsNullOrWhiteSpace(request.Name) ? null : request.Name.Trim();
+            holding = new InvestmentHolding { AccountId = account.Id, Symbol = symbol, Name = name?[..Math.Min(name.Length, 200)] };
+            _context.InvestmentHoldings.Add(holding);
+        }
+
+        var isDividend = type == InvestmentTradeType.Dividend;
+        var transaction = new Transaction
+        {
+            AccountId = account.Id,
+            Amount = amount,
+            TransactionDate = day,
+            Description = isDividend
+                ? $"Dividend {symbol}"
+                : $"{type} {request.Units.ToString("0.########", CultureInfo.InvariantCulture)} {symbol} @ {request.Price.ToString("0.######", CultureInfo.InvariantCulture)}",
+            Notes = notes,
+            Type = amount < 0 ? TransactionType.Expense : TransactionType.Income,
+            Status = TransactionStatus.Cleared,
+            Source = TransactionSource.Manual,
+            IsReviewed = true,
+            // Buying and selling moves money between cash and holdings; only dividends are income
+            IsExcluded = !isDividend
+        };
+        _context.Transactions.Add(transaction);
+
+        var trade = new InvestmentTrade
+        {
+            Holding = holding,
+            Type = type,
+            TradeDate = day,
+            Units = isDividend ? 0m : request.Units,
+            Price = isDividend ? 0m : request.Price,
+            Fees = isDividend ? 0m : request.Fees,
+            Amount = amount,
+            Transaction = transaction,
+            Notes = notes
+        };
+        holding.Trades.Add(trade);
+
+        if (PortfolioCalculator.GetPosition(holding.Trades).IsOversold)
+        {
+            throw new ArgumentException($"More {symbol} units would be sold than were held at the time.");
+        }
+
+        if (!isDividend)
+        {
+            // The trade price is also a quote for valuing the holding
+            await UpsertPriceAsync(account.UserId, symbol, request.Price, day, SecurityPriceSource.Trade, overwrite: false, cancellationToken);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Recorded {TradeType} of {Symbol} in account {AccountId} for user {UserId}",
+            type, symbol, account.Id, userId);
+
+        return ToDto(trade, symbol);
+    }
+
+    public async Task DeleteTradeAsync(Guid userId, int tradeId, CancellationToken cancellationToken = default)
+    {
+        var trade = await _context.InvestmentTrades
+                        .Include(t => t.Holding)
+                        .ThenInclude(h => h.Trades)
+                        .Include(t => t.Transaction)
+                        .FirstOrDefaultAsync(t => t.Id == tradeId, cancellationToken)
+                    ?? throw new ArgumentException("Trade not found.");
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, trade.Holding.AccountId))
+        {
+            throw new ArgumentException("Trade not found.");
+        }
+
+        var now = DateTime.UtcNow;
+        trade.IsDeleted = true;
+        trade.DeletedAt = now;
+
+        if (PortfolioCalculator.GetPosition(trade.Holding.Trades).IsOversold)
+        {
+            throw new InvalidOperationException("Later sales need the units from this trade; delete them first.");
+        }
+
+        if (trade.Transaction != null)
+        {
+            trade.Transaction.IsDeleted = true;
+            trade.Transaction.DeletedAt = now;
+        }
+
+        if (trade.Holding.Trades.All(t => t.IsDeleted))
+        {
+            trade.Holding.IsDeleted = true;
+            trade.Holding.DeletedAt = now;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task<List<SecurityPriceDto>> GetPricesAsync(Guid userId, string? symbol, CancellationToken cancellationToken = default)
+    {
+        var query = _context.SecurityPrices
+            .AsNoTracking()
+            .Where(p => p.UserId == userId);
+
+        if (!string.IsNullOrWhiteSpace(symbol))
+        {
+            var normalized = symbol.Trim().ToUpperInvariant();
+            query = query.Where(p => p.Symbol == normalized);
+        }
+
+        var prices = await query
+            .OrderByDescending(p => p.PriceDate)
+            .ThenBy(p => p.Symbol)
+            .ToListAsync(cancellationToken);
+
+        return prices.Select(ToDto).ToList();
+    }
+
+    public async Task<SecurityPriceDto> SavePriceAsync(Guid userId, SaveSecurityPriceRequest request, CancellationToken cancellationToken = default)
+    {
+        var error = ValidatePrice(request.Symbol, request.Price, request.PriceDate);
+        if (error != null)
+        {
+            throw new ArgumentException(error);
+        }
+
+        var price = await UpsertPriceAsync(userId, NormalizeSymbol(request.Symbol), request.Price, request.PriceDate,
+            SecurityPriceSource.Manual, overwrite: true, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(price);
+    }
+
+    public async Task DeletePriceAsync(Guid userId, int priceId, CancellationToken cancellationToken = default)
+    {
+        var price = await _context.SecurityPrices
+                        .FirstOrDefaultAsync(p => p.Id == priceId && p.UserId == userId, cancellationToken)
+                    ?? throw new ArgumentException("Price not found.");
+
+        price.IsDeleted = true;
+        price.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task<SecurityPriceImportResult> ImportPricesAsync(Guid userId, Stream content, CancellationToken cancellationToken = default)
+    {
+        var result = new SecurityPriceImportResult();
+        using var reader = new StreamReader(content);
+        var text = await reader.ReadToEndAsync(cancellationToken);
+
+        var entries = text.TrimStart().StartsWith('{') || text.TrimStart().StartsWith('[')
+            ? ReadQuotesFile(text, result.Errors)
+            : ReadCsv(text, result.Errors);
+
+        foreach (var (label, symbol, value, date) in entries)
+        {
+            var error = ValidatePrice(symbol, value, date);
+            if (error != null)
+            {
+                result.Errors.Add($"{label}: {char.ToLowerInvariant(error[0])}{error[1..].TrimEnd('.')}.");
+                continue;
+            }
+
+            var price = await UpsertPriceAsync(userId, NormalizeSymbol(symbol), value, date, SecurityPriceSource.Imported,
+                overwrite: true, cancellationToken);
+            if (price.Id == 0)
+                result.Imported++;
+            else
+                result.Updated++;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Imported {Imported} and updated {Updated} security prices for user {UserId} ({Errors} entries skipped)",
+            result.Imported, result.Updated, userId, result.Errors.Count);
+
+        return result;
+    }
+
+    /// <summary>
+    /// Rows of "date,symbol,price", or "symbol,price" for today's quotes; a header row is skipped
+    /// </summary>
+    private static List<(string Label, string Symbol, decimal Price, DateTime Date)> ReadCsv(string text, List<string> errors)
+    {
+        var entries = new List<(string, string, decimal, DateTime)>();
+        var lines = text.Split('\n');
+
+        for (var i = 0; i < lines.Length; i++)
+        {
+            var lineNumber = i + 1;
+            if (lineNumber > MaxImportLines)
+            {
+                errors.Add($"Only the first {MaxImportLines} lines were read.");
+                break;
+            }
+
+            var line = lines[i].Trim();
+            if (string.IsNullOrWhiteSpace(line))
+                continue;
+
+            var columns = line.Split(line.Contains(';') ? ';' : ',').Select(c => c.Trim().Trim('"')).ToArray();
+            var hasDate = columns.Length >= 3;
+            if (columns.Length < 2)
+            {
+                errors.Add($"Line {lineNumber}: expected date, symbol and price.");
+                continue;
+            }
+
+            var parsedDate = DateTime.TryParseExact(hasDate ? columns[0] : string.Empty, DateFormats, CultureInfo.InvariantCulture,
+                DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal, out var date);
+            var parsedPrice = decimal.TryParse(columns[hasDate ? 2 : 1], NumberStyles.Number, CultureInfo.InvariantCulture, out var price);
+
+            if (lineNumber == 1 && !parsedPrice)
+                continue;
+
+            if (hasDate && !parsedDate)
+            {
+                errors.Add($"Line {lineNumber}: the date must be written as yyyy-mm-dd.");
+                continue;
+            }
+            if (!parsedPrice)
+            {
+                errors.Add($"Line {lineNumber}: the price is not a number.");
+                continue;
+            }
+
+            entries.Add(($"Line {lineNumber}", columns[hasDate ? 1 : 0], price, hasDate ? date : DateTime.UtcNow.Date));
+        }
+
+        return entries;
+    }
+
+    /// <summary>
+    /// A JSON object of symbol to price for today, or an array of { symbol, price, date } quotes
+    /// </summary>
+    private static List<(string Label, string Symbol, decimal Price, DateTime Date)> ReadQuotesFile(string text, List<string> errors)
+    {
+        var entries = new List<(string, string, decimal, DateTime)>();
+
+        try
+        {
+            using var document = JsonDocument.Parse(text);
+            var root = document.RootElement;
+
+            if (root.ValueKind == JsonValueKind.Object)
+            {
+                foreach (var property in root.EnumerateObject())
+                {
+                    if (property.Value.ValueKind == JsonValueKind.Number)
+                        entries.Add((property.Name, property.Name, property.Value.GetDecimal(), DateTime.UtcNow.Date));
+                    else
+                        errors.Add($"{property.Name}: the price is not a number.");
+                }
+            }
+            else if (root.ValueKind == JsonValueKind.Array)
+            {
+                var index = 0;
+                foreach (var quote in root.EnumerateArray().Take(MaxImportLines))
+                {
+                    index++;
+                    var label = $"Entry {index}";
+                    if (quote.ValueKind != JsonValueKind.Object
+                        || !quote.TryGetProperty("symbol", out var symbol) || symbol.ValueKind != JsonValueKind.String
+                        || !quote.TryGetProperty("price", out var price) || price.ValueKind != JsonValueKind.Number)
+                    {
+                        errors.Add($"{label}: expected a symbol and a numeric price.");
+                        continue;
+                    }
+
+                    var date = DateTime.UtcNow.Date;
+                    if (quote.TryGetProperty("date", out var dateValue)
+                        && !DateTime.TryParseExact(dateValue.GetString(), DateFormats, CultureInfo.InvariantCulture,
+                            DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal, out date))
+                    {
+                        errors.Add($"{label}: the date must be written as yyyy-mm-dd.");
+                        continue;
+                    }
+
+                    entries.Add((label, symbol.GetString()!, price.GetDecimal(), date));
+                }
+            }
+        }
+        catch (JsonException)
+        {
+            errors.Add("The quotes file is not valid JSON.");
+        }
+
+        return entries;
+    }
+
+    private async Task<PortfolioCalculator> GetCalculatorAsync(Guid ownerId, CancellationToken cancellationToken)
+    {
+        var prices = await _context.SecurityPrices
+            .AsNoTracking()
+            .Where(p => p.UserId == ownerId)
+            .ToListAsync(cancellationToken);
+
+        return new PortfolioCalculator(prices);
+    }
+
+    private async Task<Account> GetModifiableInvestmentAccountAsync(Guid userId, int accountId, CancellationToken cancellationToken)
+    {
+        if (!await _accountAccess.CanModifyAccountAsync(userId, accountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var account = await _context.Accounts
+                          .FirstOrDefaultAsync(a => a.Id == accountId && !a.IsDeleted, cancellationToken)
+                      ?? throw new ArgumentException("Account not found.");
+
+        if (account.Type != AccountType.Investment)
+        {
+            throw new ArgumentException("Holdings can only be recorded on investment accounts.");
+        }
+
+        return account;
+    }
+
+    /// <summary>
+    /// Returns the tracked price for the symbol and day, updated or newly added (Id 0 until saved).
+    /// Without <paramref name="overwrite"/> an existing price is left as it is.
+    /// </summary>
+    private async Task<SecurityPrice> UpsertPriceAsync(Guid userId, string symbol, decimal value, DateTime date,
+        SecurityPriceSource source, bool overwrite, CancellationToken cancellationToken)
+    {
+        var day = DateTimeProvider.StartOfDayUtc(date);
+
+        var price = _context.SecurityPrices.Local
+                        .FirstOrDefault(p => p.UserId == userId && p.Symbol == symbol && p.PriceDate == day && !p.IsDeleted)
+                    ?? await _context.SecurityPrices
+                        .FirstOrDefaultAsync(p => p.UserId == userId && p.Symbol == symbol && p.PriceDate == day, cancellationToken);
+
+        if (price == null)
+        {
+            price = new SecurityPrice { UserId = userId, Symbol = symbol, PriceDate = day };
+            _context.SecurityPrices.Add(price);
+        }
+        else if (!overwrite)
+        {
+            return price;
+        }
+
+        price.Price = value;
+        price.Source = source;
+        price.UpdatedAt = DateTime.UtcNow;
+        return price;
+    }
+
+    private static string NormalizeSymbol(string symbol)
+    {
+        var normalized = (symbol ?? string.Empty).Trim().ToUpperInvariant();
+        if (!SymbolPattern.IsMatch(normalized))
+        {
+            throw new ArgumentException("Symbols are 1–20 letters, digits or . - : ^ = (e.g., VTI, BRK.B).");
+        }
+
+        return normalized;
+    }
+
+    private static string? ValidatePrice(string symbol, decimal price, DateTime date)
+    {
+        if (!SymbolPattern.IsMatch((symbol ?? string.Empty).Trim().ToUpperInvariant()))
+            return "Symbols are 1–20 letters, digits or . - : ^ = (e.g., VTI, BRK.B).";
+        if (price <= 0 || price > MaxAmount)
+            return "The price must be greater than 0.";
+        if (DateTimeProvider.StartOfDayUtc(date) > DateTime.UtcNow.Date.AddDays(1))
+            return "The price date cannot be in the future.";
+
+        return null;
+    }
+
+    private static InvestmentTradeDto ToDto(InvestmentTrade trade, string symbol) => new()
+    {
+        Id = trade.Id,
+        HoldingId = trade.HoldingId,
+        Symbol = symbol,
+        Type = trade.Type.ToString(),
+        TradeDate = trade.TradeDate,
+        Units = trade.Units,
+        Price = trade.Price,
+        Fees = trade.Fees,
+        Amount = trade.Amount,
+        TransactionId = trade.TransactionId,
+        Notes = trade.Notes
+    };
+
+    private static SecurityPriceDto ToDto(SecurityPrice price) => new()
+    {
+        Id = price.Id,
+        Symbol = price.Symbol,
+        PriceDate = price.PriceDate,
+        Price = price.Price,
+        Source = price.Source.ToString()
+    };
+}
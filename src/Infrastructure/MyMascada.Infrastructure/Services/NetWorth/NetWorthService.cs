@@ -0,0 +1,293 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.NetWorth;
+
+/// <summary>
+/// An account's balance on a day is its latest valuation on or before that day plus the
+/// transactions after it, or the initial balance plus all transactions up to the day when it has
+/// no valuation yet. Accounts count from their creation, first transaction or first valuation,
+/// whichever is earliest. Investment holdings add their market value on the day to the balance.
+/// </summary>
+public class NetWorthService : INetWorthService
+{
+    private const int MaxMonths = 120;
+    private const decimal MaxValue = 1_000_000_000m;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly IExchangeRateService _exchangeRateService;
+    private readonly ILogger<NetWorthService> _logger;
+
+    public NetWorthService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        IExchangeRateService exchangeRateService,
+        ILogger<NetWorthService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _exchangeRateService = exchangeRateService;
+        _logger = logger;
+    }
+
+    public async Task<NetWorthHistoryResponse> GetHistoryAsync(Guid userId, int months, CancellationToken cancellationToken = default)
+    {
+        if (months < 1 || months > MaxMonths)
+        {
+            throw new ArgumentException($"Months must be between 1 and {MaxMonths}.");
+        }
+
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+
+        var accounts = await _context.Accounts
+            .AsNoTracking()
+            .Where(a => accessibleIds.Contains(a.Id) && !a.IsDeleted)
+            .OrderBy(a => a.Name)
+            .ToListAsync(cancellationToken);
+        var accountIds = accounts.Select(a => a.Id).ToList();
+
+        var transactions = (await _context.Transactions
+                .AsNoTracking()
+                .Where(t => accountIds.Contains(t.AccountId) &&
+                            t.Status != TransactionStatus.Cancelled &&
+                            !t.IsDeleted)
+                .Select(t => new { t.AccountId, t.TransactionDate, t.Amount })
+                .ToListAsync(cancellationToken))
+            .ToLookup(t => t.AccountId, t => (Date: t.TransactionDate, t.Amount));
+
+        var valuations = (await _context.AccountValuations
+                .AsNoTracking()
+                .Where(v => accountIds.Contains(v.AccountId))
+                .Select(v => new { v.AccountId, v.ValuationDate, v.Value })
+                .ToListAsync(cancellationToken))
+            .ToLookup(v => v.AccountId, v => (Date: v.ValuationDate, v.Value));
+
+        var holdings = (await _context.InvestmentHoldings
+                .AsNoTracking()
+                .Include(h => h.Trades)
+                .Where(h => accountIds.Contains(h.AccountId))
+                .ToListAsync(cancellationToken))
+            .ToLookup(h => h.AccountId);
+
+        // Holdings are priced with their account owner's prices
+        var ownerIds = accounts.Where(a => holdings.Contains(a.Id)).Select(a => a.UserId).Distinct().ToList();
+        var prices = await _context.SecurityPrices
+            .AsNoTracking()
+            .Where(p => ownerIds.Contains(p.UserId))
+            .ToListAsync(cancellationToken);
+        var calculators = ownerIds.ToDictionary(id => id, id => new PortfolioCalculator(prices.Where(p => p.UserId == id)));
+
+        var converter = await _exchangeRateService.GetConverterAsync(userId, cancellationToken);
+
+        var now = DateTimeProvider.UtcNow;
+        var currentMonth = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+        var dates = Enumerable.Range(0, months)
+            .Select(i => currentMonth.AddMonths(i - months + 1))
+            .Select(start => start == currentMonth ? now : start.AddMonths(1).AddTicks(-1))
+            .ToList();
+
+        // Balances in each account's own currency, per snapshot date
+        var balances = accounts.ToDictionary(
+            a => a.Id,
+            a =>
+            {
+                var accountTransactions = transactions[a.Id].ToList();
+                var accountValuations = valuations[a.Id].ToList();
+                return dates.Select(date =>
+                {
+                    var balance = GetBalanceOn(a, accountTransactions, accountValuations, date);
+
+                    // A valuation on or before the date is the account's whole worth, holdings included
+                    var valued = accountValuations.Any(v => v.Date <= date);
+                    return balance.HasValue && !valued && holdings.Contains(a.Id)
+                        ? balance + holdings[a.Id].Sum(h => calculators[a.UserId].GetMarketValue(h, date))
+                        : balance;
+                }).ToList();
+            });
+
+        var snapshots = dates.Select((date, i) =>
+        {
+            var converted = accounts
+                .Where(a => balances[a.Id][i].HasValue)
+                .Select(a => (Account: a, Balance: converter.ToBase(balances[a.Id][i]!.Value, a.Currency, date)))
+                .ToList();
+
+            var totalAssets = converted.Where(c => !IsLiability(c.Account.Type)).Sum(c => c.Balance);
+            var totalLiabilities = Math.Abs(converted.Where(c => IsLiability(c.Account.Type)).Sum(c => c.Balance));
+
+            return new NetWorthSnapshotDto
+            {
+                Year = date.Year,
+                Month = date.Month,
+                Date = date,
+                TotalAssets = totalAssets,
+                TotalLiabilities = totalLiabilities,
+                NetWorth = totalAssets - totalLiabilities,
+                ByAccountType = converted
+                    .GroupBy(c => c.Account.Type)
+                    .OrderBy(g => g.Key)
+                    .Select(g => new AccountTypeBalanceDto { AccountType = g.Key, Balance = g.Sum(c => c.Balance) })
+                    .ToList()
+            };
+        }).ToList();
+
+        var first = dates[0];
+        var last = dates[^1];
+
+        return new NetWorthHistoryResponse
+        {
+            BaseCurrency = converter.BaseCurrency,
+            UnconvertedCurrencies = converter.MissingCurrencies.OrderBy(c => c).ToList(),
+            Snapshots = snapshots,
+            Accounts = accounts.Select(a =>
+            {
+                var start = converter.ToBase(balances[a.Id][0] ?? 0m, a.Currency, first);
+                var end = converter.ToBase(balances[a.Id][^1] ?? 0m, a.Currency, last);
+                return new NetWorthAccountDto
+                {
+                    AccountId = a.Id,
+                    Name = a.Name,
+                    Type = a.Type,
+                    Currency = a.Currency,
+                    IsLiability = IsLiability(a.Type),
+                    HasValuations = valuations[a.Id].Any(),
+                    StartBalance = start,
+                    EndBalance = end,
+                    Change = end - start
+                };
+            }).ToList()
+        };
+    }
+
+    public async Task<List<AccountValuationDto>> GetValuationsAsync(Guid userId, int? accountId, CancellationToken cancellationToken = default)
+    {
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+
+        var query = _context.AccountValuations
+            .AsNoTracking()
+            .Include(v => v.Account)
+            .Where(v => accessibleIds.Contains(v.AccountId) && !v.Account.IsDeleted);
+
+        if (accountId.HasValue)
+        {
+            query = query.Where(v => v.AccountId == accountId.Value);
+        }
+
+        var valuations = await query
+            .OrderByDescending(v => v.ValuationDate)
+            .ThenBy(v => v.Account.Name)
+            .ToListAsync(cancellationToken);
+
+        return valuations.Select(ToDto).ToList();
+    }
+
+    public async Task<AccountValuationDto> SaveValuationAsync(Guid userId, SaveAccountValuationRequest request, CancellationToken cancellationToken = default)
+    {
+        if (Math.Abs(request.Value) > MaxValue)
+        {
+            throw new ArgumentException($"The value must be at most {MaxValue:N0}.");
+        }
+
+        var notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        if (notes?.Length > 500)
+        {
+            throw new ArgumentException("Notes cannot exceed 500 characters.");
+        }
+
+        var day = DateTimeProvider.StartOfDayUtc(request.ValuationDate);
+        if (day > DateTime.UtcNow.Date)
+        {
+            throw new ArgumentException("The valuation date cannot be in the future.");
+        }
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, request.AccountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        var account = await _context.Accounts
+                          .FirstOrDefaultAsync(a => a.Id == request.AccountId && !a.IsDeleted, cancellationToken)
+                      ?? throw new ArgumentException("Account not found.");
+
+        var valuation = await _context.AccountValuations
+            .FirstOrDefaultAsync(v => v.AccountId == account.Id && v.ValuationDate == day, cancellationToken);
+
+        if (valuation == null)
+        {
+            valuation = new AccountValuation { AccountId = account.Id, ValuationDate = day };
+            _context.AccountValuations.Add(valuation);
+        }
+
+        valuation.UserId = userId;
+        valuation.Value = request.Value;
+        valuation.Notes = notes;
+        valuation.UpdatedAt = DateTime.UtcNow;
+        valuation.Account = account;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Recorded valuation of account {AccountId} on {ValuationDate} for user {UserId}",
+            account.Id, day, userId);
+
+        return ToDto(valuation);
+    }
+
+    public async Task DeleteValuationAsync(Guid userId, int valuationId, CancellationToken cancellationToken = default)
+    {
+        var valuation = await _context.AccountValuations
+                            .FirstOrDefaultAsync(v => v.Id == valuationId, cancellationToken)
+                        ?? throw new ArgumentException("Valuation not found.");
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, valuation.AccountId))
+        {
+            throw new ArgumentException("Valuation not found.");
+        }
+
+        valuation.IsDeleted = true;
+        valuation.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private static bool IsLiability(AccountType type) => type == AccountType.CreditCard || type == AccountType.Loan;
+
+    /// <summary>
+    /// The balance at the end of the date, or null before the account existed
+    /// </summary>
+    private static decimal? GetBalanceOn(Account account, List<(DateTime Date, decimal Amount)> transactions,
+        List<(DateTime Date, decimal Value)> valuations, DateTime date)
+    {
+        var openedOn = new[] { account.CreatedAt.Date }
+            .Concat(transactions.Select(t => t.Date.Date))
+            .Concat(valuations.Select(v => v.Date.Date))
+            .Min();
+        if (openedOn > date)
+            return null;
+
+        var valuation = valuations.Where(v => v.Date <= date).OrderByDescending(v => v.Date).FirstOrDefault();
+        if (valuation != default)
+        {
+            var after = valuation.Date.AddDays(1);
+            return valuation.Value + transactions.Where(t => t.Date >= after && t.Date <= date).Sum(t => t.Amount);
+        }
+
+        return account.CurrentBalance + transactions.Where(t => t.Date <= date).Sum(t => t.Amount);
+    }
+
+    private static AccountValuationDto ToDto(AccountValuation valuation) => new()
+    {
+        Id = valuation.Id,
+        AccountId = valuation.AccountId,
+        AccountName = valuation.Account.Name,
+        Currency = valuation.Account.Currency,
+        Value = valuation.Value,
+        ValuationDate = valuation.ValuationDate,
+        Notes = valuation.Notes
+    };
+}
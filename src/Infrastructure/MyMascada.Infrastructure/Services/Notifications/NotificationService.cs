@@ -1,5 +1,7 @@
 using Microsoft.Extensions.Logging;
 using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
+using MyMascada.Application.Features.Notifications.DTOs;
 using MyMascada.Domain.Entities;
 using MyMascada.Domain.Enums;
 
@@ -9,6 +11,7 @@ public class NotificationService : INotificationService
 {
     private readonly INotificationRepository _notificationRepository;
     private readonly INotificationPreferenceRepository _preferenceRepository;
+    private readonly IRealtimeEventPublisher _realtimeEvents;
     private readonly ILogger<NotificationService> _logger;
 
     // Rate limit: max notifications per type per day
@@ -17,10 +20,12 @@ public class NotificationService : INotificationService
     public NotificationService(
         INotificationRepository notificationRepository,
         INotificationPreferenceRepository preferenceRepository,
+        IRealtimeEventPublisher realtimeEvents,
         ILogger<NotificationService> logger)
     {
         _notificationRepository = notificationRepository;
         _preferenceRepository = preferenceRepository;
+        _realtimeEvents = realtimeEvents;
         _logger = logger;
     }
 
@@ -126,6 +131,25 @@ public class NotificationService : INotificationService
 
         _logger.LogInformation("Created {Type} notification for user {UserId}", type, userId);
 
+        // Push to the user's open tabs so the bell updates without polling
+        var unreadCount = await _notificationRepository.GetUnreadCountAsync(userId, cancellationToken);
+        _realtimeEvents.Publish(userId, RealtimeEventTypes.NotificationCreated, new
+        {
+            Notification = new NotificationDto
+            {
+                Id = created.Id,
+                Type = created.Type.ToString(),
+                Priority = created.Priority.ToString(),
+                Title = created.Title,
+                Body = created.Body,
+                Data = created.Data,
+                IsRead = created.IsRead,
+                CreatedAt = created.CreatedAt,
+                ReadAt = created.ReadAt
+            },
+            UnreadCount = unreadCount
+        });
+
         // Future: dispatch to other delivery channels (push, email, etc.) based on preferences
     }
 }
@@ -148,4 +148,129 @@ public class NotificationTriggerService : INotificationTriggerService
             _logger.LogError(ex, "Error sending transaction reminder for user {UserId}", userId);
         }
     }
+
+    public async Task NotifyScheduledPaymentMissedAsync(
+        Guid userId,
+        int scheduleId,
+        string scheduleName,
+        decimal expectedAmount,
+        DateTime dueDate,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var groupKey = $"scheduled-payment-missed-{scheduleId}-{dueDate:yyyy-MM-dd}";
+            var data = JsonSerializer.Serialize(new
+            {
+                href = "/bills",
+                templateKey = "ScheduledPaymentMissed",
+                scheduleId,
+                merchantName = scheduleName,
+                amountMinorUnits = (long)Math.Round(Math.Abs(expectedAmount) * 100),
+                dateIso = dueDate.ToString("yyyy-MM-dd")
+            });
+
+            await _notificationService.CreateNotificationAsync(
+                userId,
+                NotificationType.ScheduledPaymentMissed,
+                "ScheduledPaymentMissed",
+                "ScheduledPaymentMissed.body",
+                data,
+                NotificationPriority.High,
+                groupKey,
+                cancellationToken: cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending missed scheduled payment notification for user {UserId}", userId);
+        }
+    }
+
+    public async Task NotifyScheduledPaymentAmountChangedAsync(
+        Guid userId,
+        int scheduleId,
+        string scheduleName,
+        decimal expectedAmount,
+        decimal actualAmount,
+        DateTime dueDate,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var groupKey = $"scheduled-payment-amount-{scheduleId}-{dueDate:yyyy-MM-dd}";
+            var data = JsonSerializer.Serialize(new
+            {
+                href = "/bills",
+                templateKey = "ScheduledPaymentAmountChanged",
+                scheduleId,
+                merchantName = scheduleName,
+                amountMinorUnits = (long)Math.Round(Math.Abs(actualAmount) * 100),
+                expectedAmountMinorUnits = (long)Math.Round(Math.Abs(expectedAmount) * 100),
+                dateIso = dueDate.ToString("yyyy-MM-dd")
+            });
+
+            await _notificationService.CreateNotificationAsync(
+                userId,
+                NotificationType.ScheduledPaymentAmountChanged,
+                "ScheduledPaymentAmountChanged",
+                "ScheduledPaymentAmountChanged.body",
+                data,
+                NotificationPriority.Normal,
+                groupKey,
+                cancellationToken: cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending scheduled payment amount change notification for user {UserId}", userId);
+        }
+    }
+
+    public async Task NotifyCancelledSubscriptionChargedAsync(
+        Guid userId,
+        int patternId,
+        string merchantName,
+        decimal amount,
+        DateTime chargeDate,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var groupKey = $"cancelled-subscription-charged-{patternId}-{chargeDate:yyyy-MM-dd}";
+            var data = JsonSerializer.Serialize(new
+            {
+                href = "/bills/subscriptions",
+                templateKey = "CancelledSubscriptionCharged",
+                patternId,
+                merchantName,
+                amountMinorUnits = (long)Math.Round(Math.Abs(amount) * 100),
+                dateIso = chargeDate.ToString("yyyy-MM-dd")
+            });
+
+            await _notificationService.CreateNotificationAsync(
+                userId,
+                NotificationType.CancelledSubscriptionCharged,
+                "CancelledSubscriptionCharged",
+                "CancelledSubscriptionCharged.body",
+                data,
+                NotificationPriority.High,
+                groupKey,
+                cancellationToken: cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending cancelled subscription charge notification for user {UserId}", userId);
+        }
+    }
 }
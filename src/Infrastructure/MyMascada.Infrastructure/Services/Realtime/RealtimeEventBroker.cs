@@ -0,0 +1,130 @@
+using System.Collections.Concurrent;
+using System.Text.Json;
+using System.Threading.Channels;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
+
+namespace MyMascada.Infrastructure.Services.Realtime;
+
+/// <summary>
+/// In-process fan-out of realtime events to the streams each user has open. Like the bank sync
+/// job tracker, it lives in this instance's memory: events published by another instance are not
+/// seen here, and clients fall back to polling for anything they miss.
+/// </summary>
+public sealed class RealtimeEventBroker : IRealtimeEventPublisher, IRealtimeEventStream
+{
+    // Recent events kept per user so a reconnecting client can catch up via Last-Event-ID
+    private const int ReplayBufferSize = 50;
+    private static readonly TimeSpan ReplayWindow = TimeSpan.FromMinutes(5);
+    // A stalled client loses its oldest events rather than holding memory indefinitely
+    private const int SubscriberBufferSize = 256;
+
+    private static readonly JsonSerializerOptions SerializerOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ConcurrentDictionary<Guid, UserFeed> _feeds = new();
+    private long _lastEventId;
+
+    public void Publish(Guid userId, string eventType, object payload)
+    {
+        var data = JsonSerializer.Serialize(payload, SerializerOptions);
+        var feed = _feeds.GetOrAdd(userId, _ => new UserFeed());
+        feed.Append(() => new RealtimeEvent(Interlocked.Increment(ref _lastEventId), eventType, data), DateTime.UtcNow);
+    }
+
+    public IRealtimeSubscription Subscribe(Guid userId, long? lastEventId = null)
+    {
+        var feed = _feeds.GetOrAdd(userId, _ => new UserFeed());
+        return feed.Subscribe(lastEventId, DateTime.UtcNow);
+    }
+
+    private sealed class UserFeed
+    {
+        private readonly object _syncRoot = new();
+        private readonly Queue<(RealtimeEvent Event, DateTime PublishedAt)> _recent = new();
+        private readonly List<Subscription> _subscribers = new();
+
+        public void Append(Func<RealtimeEvent> createEvent, DateTime now)
+        {
+            lock (_syncRoot)
+            {
+                // Ids are taken under the lock so each user's events stay in id order
+                var realtimeEvent = createEvent();
+                _recent.Enqueue((realtimeEvent, now));
+                Prune(now);
+
+                foreach (var subscriber in _subscribers)
+                {
+                    subscriber.Writer.TryWrite(realtimeEvent);
+                }
+            }
+        }
+
+        public IRealtimeSubscription Subscribe(long? lastEventId, DateTime now)
+        {
+            var subscription = new Subscription(this);
+
+            lock (_syncRoot)
+            {
+                Prune(now);
+
+                if (lastEventId.HasValue)
+                {
+                    foreach (var (recentEvent, _) in _recent)
+                    {
+                        if (recentEvent.Id > lastEventId.Value)
+                        {
+                            subscription.Writer.TryWrite(recentEvent);
+                        }
+                    }
+                }
+
+                _subscribers.Add(subscription);
+            }
+
+            return subscription;
+        }
+
+        public void Remove(Subscription subscription)
+        {
+            lock (_syncRoot)
+            {
+                _subscribers.Remove(subscription);
+            }
+        }
+
+        private void Prune(DateTime now)
+        {
+            while (_recent.Count > ReplayBufferSize ||
+                   (_recent.Count > 0 && now - _recent.Peek().PublishedAt > ReplayWindow))
+            {
+                _recent.Dequeue();
+            }
+        }
+    }
+
+    private sealed class Subscription : IRealtimeSubscription
+    {
+        private readonly UserFeed _feed;
+        private readonly Channel<RealtimeEvent> _channel = Channel.CreateBounded<RealtimeEvent>(
+            new BoundedChannelOptions(SubscriberBufferSize)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+
+        public Subscription(UserFeed feed)
+        {
+            _feed = feed;
+        }
+
+        public ChannelWriter<RealtimeEvent> Writer => _channel.Writer;
+
+        public ChannelReader<RealtimeEvent> Events => _channel.Reader;
+
+        public void Dispose()
+        {
+            _feed.Remove(this);
+            _channel.Writer.TryComplete();
+        }
+    }
+}
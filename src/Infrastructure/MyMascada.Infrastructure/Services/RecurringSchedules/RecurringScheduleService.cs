@@ -0,0 +1,517 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.RecurringSchedules;
+
+/// <summary>
+/// A schedule tracks a single <see cref="RecurringSchedule.NextDueDate"/>: matching a transaction
+/// or recording a miss writes an occurrence for that date and steps to the next one, so every
+/// due date gets exactly one outcome.
+/// </summary>
+public class RecurringScheduleService : IRecurringScheduleService
+{
+    private const int MaxCalendarDays = 400;
+
+    // Stops a schedule that was not processed for a long time from recording years of misses in one run
+    private const int MaxCatchUpPeriods = 24;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly INotificationTriggerService _notificationTrigger;
+    private readonly ILogger<RecurringScheduleService> _logger;
+
+    public RecurringScheduleService(
+        ApplicationDbContext context,
+        IAccountAccessService accountAccess,
+        INotificationTriggerService notificationTrigger,
+        ILogger<RecurringScheduleService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _notificationTrigger = notificationTrigger;
+        _logger = logger;
+    }
+
+    public async Task<IReadOnlyList<RecurringScheduleDto>> GetSchedulesAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var schedules = await _context.RecurringSchedules
+            .AsNoTracking()
+            .Include(s => s.Account)
+            .Include(s => s.Category)
+            .Include(s => s.Occurrences)
+            .Where(s => s.UserId == userId)
+            .OrderBy(s => s.Name)
+            .ToListAsync(cancellationToken);
+
+        return schedules.Select(ToDto).ToList();
+    }
+
+    public async Task<RecurringScheduleDto> CreateScheduleAsync(Guid userId, SaveRecurringScheduleRequest request, CancellationToken cancellationToken = default)
+    {
+        var schedule = new RecurringSchedule { UserId = userId };
+        await ApplyRequestAsync(userId, schedule, request, cancellationToken);
+
+        _context.RecurringSchedules.Add(schedule);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Created recurring schedule {ScheduleId} for user {UserId}", schedule.Id, userId);
+
+        return ToDto(await LoadScheduleAsync(userId, schedule.Id, cancellationToken));
+    }
+
+    public async Task<RecurringScheduleDto> UpdateScheduleAsync(Guid userId, int scheduleId, SaveRecurringScheduleRequest request, CancellationToken cancellationToken = default)
+    {
+        var schedule = await LoadScheduleAsync(userId, scheduleId, cancellationToken);
+        await ApplyRequestAsync(userId, schedule, request, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return ToDto(await LoadScheduleAsync(userId, scheduleId, cancellationToken));
+    }
+
+    public async Task DeleteScheduleAsync(Guid userId, int scheduleId, CancellationToken cancellationToken = default)
+    {
+        var schedule = await LoadScheduleAsync(userId, scheduleId, cancellationToken);
+        schedule.IsDeleted = true;
+        schedule.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async Task<RecurringCalendarDto> GetCalendarAsync(Guid userId, DateTime startDate, DateTime endDate, CancellationToken cancellationToken = default)
+    {
+        var start = DateTimeProvider.StartOfDayUtc(startDate);
+        var end = DateTimeProvider.StartOfDayUtc(endDate);
+        if (end < start)
+        {
+            throw new ArgumentException("The end date must be on or after the start date.");
+        }
+
+        if ((end - start).TotalDays > MaxCalendarDays)
+        {
+            throw new ArgumentException($"The calendar can span at most {MaxCalendarDays} days.");
+        }
+
+        var schedules = await _context.RecurringSchedules
+            .AsNoTracking()
+            .Include(s => s.Account)
+            .Include(s => s.Category)
+            .Include(s => s.Occurrences.Where(o => o.DueDate >= start && o.DueDate <= end))
+            .Where(s => s.UserId == userId)
+            .ToListAsync(cancellationToken);
+
+        var entries = new List<RecurringCalendarEntryDto>();
+        foreach (var schedule in schedules)
+        {
+            var recordedDates = new HashSet<DateTime>();
+            foreach (var occurrence in schedule.Occurrences)
+            {
+                recordedDates.Add(occurrence.DueDate.Date);
+                entries.Add(new RecurringCalendarEntryDto
+                {
+                    Date = occurrence.DueDate.Date,
+                    Name = schedule.Name,
+                    Amount = occurrence.ExpectedAmount,
+                    Source = "schedule",
+                    ScheduleId = schedule.Id,
+                    Status = ToStatus(occurrence.Outcome),
+                    TransactionId = occurrence.TransactionId,
+                    ActualAmount = occurrence.ActualAmount,
+                    AmountChanged = occurrence.AmountChanged,
+                    AccountName = schedule.Account?.Name,
+                    CategoryName = schedule.Category?.Name,
+                    CategoryColor = schedule.Category?.Color
+                });
+            }
+
+            if (!schedule.IsActive)
+                continue;
+
+            // Due dates before NextDueDate were either recorded or predate the schedule's tracking
+            var from = schedule.NextDueDate > start ? schedule.NextDueDate : start;
+            foreach (var dueDate in schedule.GetDueDatesBetween(from, end).Where(d => !recordedDates.Contains(d)))
+            {
+                entries.Add(new RecurringCalendarEntryDto
+                {
+                    Date = dueDate,
+                    Name = schedule.Name,
+                    Amount = schedule.Amount,
+                    Source = "schedule",
+                    ScheduleId = schedule.Id,
+                    Status = "expected",
+                    AccountName = schedule.Account?.Name,
+                    CategoryName = schedule.Category?.Name,
+                    CategoryColor = schedule.Category?.Color
+                });
+            }
+        }
+
+        entries.AddRange(await GetInferredEntriesAsync(userId, schedules, start, end, cancellationToken));
+
+        var expected = entries.Where(e => e.Status == "expected").ToList();
+        return new RecurringCalendarDto
+        {
+            StartDate = start,
+            EndDate = end,
+            Entries = entries.OrderBy(e => e.Date).ThenBy(e => e.Name).ToList(),
+            TotalExpectedExpenses = expected.Where(e => e.Amount < 0).Sum(e => -e.Amount),
+            TotalExpectedIncome = expected.Where(e => e.Amount > 0).Sum(e => e.Amount)
+        };
+    }
+
+    public async Task<bool> TryMatchTransactionAsync(Transaction transaction, CancellationToken cancellationToken = default)
+    {
+        if (transaction.Amount == 0)
+            return false;
+
+        if (await _context.RecurringScheduleOccurrences.AnyAsync(o => o.TransactionId == transaction.Id, cancellationToken))
+            return false;
+
+        var schedules = await _context.RecurringSchedules
+            .Where(s => s.AccountId == transaction.AccountId && s.IsActive)
+            .OrderBy(s => s.NextDueDate)
+            .ToListAsync(cancellationToken);
+
+        foreach (var schedule in schedules.Where(s => s.IsRunning))
+        {
+            if (!schedule.MatchesTransaction(transaction.AccountId, transaction.Description, transaction.Amount,
+                    transaction.TransactionDate, schedule.NextDueDate))
+            {
+                if (!schedule.MatchesAmountOnly(transaction.AccountId, transaction.Amount, transaction.TransactionDate, schedule.NextDueDate))
+                    continue;
+
+                var candidate = await FindUnmatchedTransactionAsync(schedule, schedule.NextDueDate, cancellationToken);
+                if (candidate?.Id != transaction.Id)
+                    continue;
+            }
+
+            await RecordMatchAsync(schedule, schedule.NextDueDate, transaction, cancellationToken);
+
+            _logger.LogInformation("Matched transaction {TransactionId} to recurring schedule {ScheduleId}. Next due date: {NextDueDate}",
+                transaction.Id, schedule.Id, schedule.NextDueDate);
+
+            return true;
+        }
+
+        return false;
+    }
+
+    public async Task<int> ProcessMissedSchedulesAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var today = DateTime.UtcNow.Date;
+        var schedules = await _context.RecurringSchedules
+            .Where(s => s.UserId == userId && s.IsActive)
+            .ToListAsync(cancellationToken);
+
+        var missedCount = 0;
+        foreach (var schedule in schedules)
+        {
+            try
+            {
+                DateTime? lastMissed = null;
+                var periods = 0;
+
+                while (schedule.IsRunning
+                       && schedule.NextDueDate.Date.AddDays(schedule.GetGraceDays()) < today
+                       && periods++ < MaxCatchUpPeriods)
+                {
+                    var dueDate = schedule.NextDueDate;
+
+                    // Manually entered transactions do not raise the created event, so look for one before calling it missed
+                    var transaction = await FindUnmatchedTransactionAsync(schedule, dueDate, cancellationToken);
+                    if (transaction != null)
+                    {
+                        await RecordMatchAsync(schedule, dueDate, transaction, cancellationToken);
+                        continue;
+                    }
+
+                    _context.RecurringScheduleOccurrences.Add(RecurringScheduleOccurrence.CreateMissed(schedule, dueDate));
+                    schedule.NextDueDate = schedule.GetDueDateAfter(dueDate);
+                    await _context.SaveChangesAsync(cancellationToken);
+
+                    lastMissed = dueDate;
+                    missedCount++;
+                }
+
+                // One alert per schedule, for the most recent miss, even when catching up on several
+                if (lastMissed.HasValue)
+                {
+                    await _notificationTrigger.NotifyScheduledPaymentMissedAsync(
+                        schedule.UserId, schedule.Id, schedule.Name, schedule.Amount, lastMissed.Value, cancellationToken);
+                }
+            }
+            catch (OperationCanceledException)
+            {
+                throw;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to process missed payments for recurring schedule {ScheduleId}", schedule.Id);
+            }
+        }
+
+        if (missedCount > 0)
+        {
+            _logger.LogInformation("Recorded {Count} missed scheduled payments for user {UserId}", missedCount, userId);
+        }
+
+        return missedCount;
+    }
+
+    private async Task RecordMatchAsync(RecurringSchedule schedule, DateTime dueDate, Transaction transaction, CancellationToken cancellationToken)
+    {
+        var occurrence = RecurringScheduleOccurrence.CreateMatched(schedule, dueDate, transaction);
+        _context.RecurringScheduleOccurrences.Add(occurrence);
+
+        schedule.LastMatchedAt = DateTime.UtcNow;
+        schedule.NextDueDate = schedule.GetDueDateAfter(dueDate);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        if (occurrence.AmountChanged)
+        {
+            await _notificationTrigger.NotifyScheduledPaymentAmountChangedAsync(
+                schedule.UserId, schedule.Id, schedule.Name, schedule.Amount, transaction.Amount, dueDate, cancellationToken);
+        }
+    }
+
+    private async Task<Transaction?> FindUnmatchedTransactionAsync(RecurringSchedule schedule, DateTime dueDate, CancellationToken cancellationToken)
+    {
+        var graceDays = schedule.GetGraceDays();
+        var from = dueDate.Date.AddDays(-graceDays);
+        var to = dueDate.Date.AddDays(graceDays + 1);
+
+        var linkedIds = _context.RecurringScheduleOccurrences
+            .Where(o => o.TransactionId != null)
+            .Select(o => o.TransactionId!.Value);
+
+        var candidates = await _context.Transactions
+            .Where(t => t.AccountId == schedule.AccountId
+                        && t.TransactionDate >= from
+                        && t.TransactionDate < to
+                        && !linkedIds.Contains(t.Id))
+            .ToListAsync(cancellationToken);
+
+        var textMatch = candidates
+            .Where(t => schedule.MatchesTransaction(t.AccountId, t.Description, t.Amount, t.TransactionDate, dueDate))
+            .OrderBy(t => Math.Abs((t.TransactionDate.Date - dueDate.Date).TotalDays))
+            .FirstOrDefault();
+        if (textMatch != null)
+            return textMatch;
+
+        // Without the match text an amount is only trusted when nothing else in the window could be the payment
+        var amountMatches = candidates
+            .Where(t => schedule.MatchesAmountOnly(t.AccountId, t.Amount, t.TransactionDate, dueDate))
+            .Take(2)
+            .ToList();
+        return amountMatches.Count == 1 ? amountMatches[0] : null;
+    }
+
+    /// <summary>
+    /// Projects active recurring patterns over the range, skipping merchants a schedule already covers.
+    /// Patterns only track expenses, so their amounts are negated.
+    /// </summary>
+    private async Task<List<RecurringCalendarEntryDto>> GetInferredEntriesAsync(
+        Guid userId,
+        IReadOnlyCollection<RecurringSchedule> schedules,
+        DateTime start,
+        DateTime end,
+        CancellationToken cancellationToken)
+    {
+        var patterns = await _context.RecurringPatterns
+            .AsNoTracking()
+            .Include(p => p.Category)
+            .Where(p => p.UserId == userId
+                        && (p.Status == RecurringPatternStatus.Active || p.Status == RecurringPatternStatus.AtRisk)
+                        && p.CancellationStatus != SubscriptionCancellationStatus.Cancelled
+                        && p.IntervalDays > 0)
+            .ToListAsync(cancellationToken);
+
+        var scheduleKeys = schedules
+            .Where(s => s.IsActive)
+            .Select(s => RecurringPattern.NormalizeDescription(string.IsNullOrWhiteSpace(s.MatchText) ? s.Name : s.MatchText))
+            .Where(k => k.Length > 0)
+            .ToList();
+
+        var entries = new List<RecurringCalendarEntryDto>();
+        foreach (var pattern in patterns)
+        {
+            var covered = scheduleKeys.Any(k =>
+                pattern.NormalizedMerchantKey.Contains(k) || k.Contains(pattern.NormalizedMerchantKey));
+            if (covered)
+                continue;
+
+            for (var date = pattern.NextExpectedDate.Date; date <= end; date = date.AddDays(pattern.IntervalDays))
+            {
+                if (date < start)
+                    continue;
+
+                entries.Add(new RecurringCalendarEntryDto
+                {
+                    Date = date,
+                    Name = pattern.MerchantName,
+                    Amount = -Math.Round(pattern.AverageAmount, 2),
+                    Source = "inferred",
+                    PatternId = pattern.Id,
+                    Status = "expected",
+                    CategoryName = pattern.Category?.Name,
+                    CategoryColor = pattern.Category?.Color
+                });
+            }
+        }
+
+        return entries;
+    }
+
+    private async Task ApplyRequestAsync(Guid userId, RecurringSchedule schedule, SaveRecurringScheduleRequest request, CancellationToken cancellationToken)
+    {
+        var name = request.Name?.Trim() ?? string.Empty;
+        if (name.Length == 0)
+        {
+            throw new ArgumentException("Schedule name is required.");
+        }
+
+        if (name.Length > 200)
+        {
+            throw new ArgumentException("Schedule name cannot exceed 200 characters.");
+        }
+
+        if (request.Amount == 0)
+        {
+            throw new ArgumentException("Amount cannot be zero.");
+        }
+
+        if (!Enum.TryParse<ScheduleFrequency>(request.Frequency, true, out var frequency) || !Enum.IsDefined(frequency))
+        {
+            throw new ArgumentException("Frequency must be Weekly, Biweekly, Monthly, Quarterly or Yearly.");
+        }
+
+        var startDate = DateTimeProvider.StartOfDayUtc(request.StartDate);
+        DateTime? endDate = request.EndDate.HasValue ? DateTimeProvider.StartOfDayUtc(request.EndDate.Value) : null;
+        if (endDate < startDate)
+        {
+            throw new ArgumentException("The end date must be on or after the start date.");
+        }
+
+        var tolerance = request.AmountTolerancePercent ?? 10m;
+        if (tolerance < 0 || tolerance > 100)
+        {
+            throw new ArgumentException("Amount tolerance must be between 0 and 100 percent.");
+        }
+
+        var matchText = string.IsNullOrWhiteSpace(request.MatchText) ? null : request.MatchText.Trim();
+        if (matchText?.Length > 200)
+        {
+            throw new ArgumentException("Match text cannot exceed 200 characters.");
+        }
+
+        if (request.Notes?.Length > 500)
+        {
+            throw new ArgumentException("Notes cannot exceed 500 characters.");
+        }
+
+        if (!await _accountAccess.CanModifyAccountAsync(userId, request.AccountId))
+        {
+            throw new ArgumentException("Account not found.");
+        }
+
+        if (request.CategoryId.HasValue)
+        {
+            var categoryExists = await _context.Categories.AnyAsync(
+                c => c.Id == request.CategoryId.Value && (c.UserId == userId || c.IsSystemCategory),
+                cancellationToken);
+            if (!categoryExists)
+            {
+                throw new ArgumentException("Category not found.");
+            }
+        }
+
+        schedule.Name = name;
+        schedule.AccountId = request.AccountId;
+        schedule.CategoryId = request.CategoryId;
+        schedule.Amount = Math.Round(request.Amount, 2);
+        schedule.Frequency = frequency;
+        schedule.StartDate = startDate;
+        schedule.EndDate = endDate;
+        schedule.MatchText = matchText;
+        schedule.AmountTolerancePercent = tolerance;
+        schedule.IsActive = request.IsActive;
+        schedule.Notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        schedule.NextDueDate = GetFirstOpenDueDate(schedule);
+    }
+
+    /// <summary>
+    /// First due date still open: not before the current grace window (so creating a schedule
+    /// with a past start date doesn't report every earlier date as missed) and after any date
+    /// that already has an outcome.
+    /// </summary>
+    private static DateTime GetFirstOpenDueDate(RecurringSchedule schedule)
+    {
+        var earliestOpen = DateTime.UtcNow.Date.AddDays(-schedule.GetGraceDays());
+        var dueDate = schedule.GetDueDateOnOrAfter(earliestOpen);
+
+        var lastRecorded = schedule.Occurrences
+            .Where(o => !o.IsDeleted)
+            .Select(o => o.DueDate.Date)
+            .DefaultIfEmpty(DateTime.MinValue)
+            .Max();
+
+        return dueDate > lastRecorded ? dueDate : schedule.GetDueDateAfter(lastRecorded);
+    }
+
+    private async Task<RecurringSchedule> LoadScheduleAsync(Guid userId, int scheduleId, CancellationToken cancellationToken)
+    {
+        return await _context.RecurringSchedules
+                   .Include(s => s.Account)
+                   .Include(s => s.Category)
+                   .Include(s => s.Occurrences)
+                   .FirstOrDefaultAsync(s => s.Id == scheduleId && s.UserId == userId, cancellationToken)
+               ?? throw new ArgumentException("Schedule not found.");
+    }
+
+    private static RecurringScheduleDto ToDto(RecurringSchedule schedule)
+    {
+        var occurrences = schedule.Occurrences
+            .Where(o => !o.IsDeleted)
+            .OrderByDescending(o => o.DueDate)
+            .ToList();
+        var last = occurrences.FirstOrDefault();
+
+        return new RecurringScheduleDto
+        {
+            Id = schedule.Id,
+            Name = schedule.Name,
+            AccountId = schedule.AccountId,
+            AccountName = schedule.Account?.Name ?? string.Empty,
+            CategoryId = schedule.CategoryId,
+            CategoryName = schedule.Category?.Name,
+            CategoryColor = schedule.Category?.Color,
+            Amount = schedule.Amount,
+            Frequency = schedule.Frequency.ToString(),
+            StartDate = schedule.StartDate,
+            EndDate = schedule.EndDate,
+            NextDueDate = schedule.IsRunning ? schedule.NextDueDate : null,
+            MatchText = schedule.MatchText,
+            AmountTolerancePercent = schedule.AmountTolerancePercent,
+            IsActive = schedule.IsActive,
+            Notes = schedule.Notes,
+            LastMatchedAt = schedule.LastMatchedAt,
+            MissedCount = occurrences.Count(o => o.Outcome == OccurrenceOutcome.Missed),
+            LastStatus = last == null ? null : ToStatus(last.Outcome),
+            LastChangedAmount = last?.AmountChanged == true ? last.ActualAmount : null
+        };
+    }
+
+    private static string ToStatus(OccurrenceOutcome outcome)
+    {
+        return outcome switch
+        {
+            OccurrenceOutcome.Late => "late",
+            OccurrenceOutcome.Missed => "missed",
+            _ => "paid"
+        };
+    }
+}
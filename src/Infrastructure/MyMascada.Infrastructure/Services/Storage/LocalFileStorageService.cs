@@ -0,0 +1,82 @@
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using MyMascada.Application.Common.Configuration;
+using MyMascada.Application.Common.Interfaces;
+
+namespace MyMascada.Infrastructure.Services.Storage;
+
+/// <summary>
+/// Stores files on the local disk under <see cref="FileStorageOptions.LocalPath"/>.
+/// Keys may contain forward slashes to group files into folders.
+/// </summary>
+public class LocalFileStorageService : IFileStorageService
+{
+    private readonly string _rootPath;
+    private readonly ILogger<LocalFileStorageService> _logger;
+
+    public string ProviderId => "local";
+
+    public LocalFileStorageService(
+        IOptions<FileStorageOptions> options,
+        ILogger<LocalFileStorageService> logger)
+        : this(Path.GetFullPath(options.Value.LocalPath), logger)
+    {
+    }
+
+    public LocalFileStorageService(string rootPath, ILogger<LocalFileStorageService> logger)
+    {
+        _rootPath = Path.GetFullPath(rootPath);
+        _logger = logger;
+    }
+
+    public async Task SaveAsync(string key, Stream content, string contentType, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(key);
+        Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+
+        await using var file = new FileStream(path, FileMode.Create, FileAccess.Write, FileShare.None);
+        await content.CopyToAsync(file, cancellationToken);
+    }
+
+    public Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(key);
+        if (!File.Exists(path))
+        {
+            _logger.LogWarning("Stored file {Key} is missing from local storage", key);
+            return Task.FromResult<Stream?>(null);
+        }
+
+        return Task.FromResult<Stream?>(new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.Read));
+    }
+
+    public Task DeleteAsync(string key, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(key);
+        if (File.Exists(path))
+        {
+            File.Delete(path);
+        }
+
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Maps a key to a path inside the root, rejecting anything that would escape it
+    /// </summary>
+    private string ResolvePath(string key)
+    {
+        if (string.IsNullOrWhiteSpace(key) || key.Contains('\\') || key.Split('/').Any(part => part is "" or "." or ".."))
+        {
+            throw new ArgumentException("Invalid storage key.", nameof(key));
+        }
+
+        var path = Path.GetFullPath(Path.Combine(_rootPath, key));
+        if (!path.StartsWith(_rootPath + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+        {
+            throw new ArgumentException("Invalid storage key.", nameof(key));
+        }
+
+        return path;
+    }
+}
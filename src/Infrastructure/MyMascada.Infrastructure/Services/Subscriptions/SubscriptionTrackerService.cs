@@ -0,0 +1,240 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Subscriptions.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Subscriptions;
+
+/// <summary>
+/// Subscriptions are the user's detected <see cref="RecurringPattern"/>s. Charges are found again
+/// in the transaction history by merchant only, so price changes outside the pattern's amount
+/// range still show up.
+/// </summary>
+public class SubscriptionTrackerService : ISubscriptionTrackerService
+{
+    private const int HistoryMonths = 12;
+
+    // Smaller differences between consecutive charges are treated as noise (exchange rates, rounding)
+    private const decimal PriceChangeThresholdPercent = 2m;
+
+    private readonly ApplicationDbContext _context;
+    private readonly INotificationTriggerService _notificationTrigger;
+    private readonly ILogger<SubscriptionTrackerService> _logger;
+
+    public SubscriptionTrackerService(
+        ApplicationDbContext context,
+        INotificationTriggerService notificationTrigger,
+        ILogger<SubscriptionTrackerService> logger)
+    {
+        _context = context;
+        _notificationTrigger = notificationTrigger;
+        _logger = logger;
+    }
+
+    public async Task<SubscriptionsResponse> GetSubscriptionsAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var patterns = await _context.RecurringPatterns
+            .AsNoTracking()
+            .Include(p => p.Category)
+            .Where(p => p.UserId == userId && !p.IsDeleted && p.IntervalDays > 0)
+            .ToListAsync(cancellationToken);
+
+        var charges = await GetChargesByMerchantAsync(userId, DateTime.UtcNow.Date.AddMonths(-HistoryMonths), null, cancellationToken);
+
+        var subscriptions = patterns
+            .Select(p => ToDto(p, ChargesFor(p, charges)))
+            .OrderByDescending(s => s.AnnualizedAmount)
+            .ToList();
+
+        return new SubscriptionsResponse
+        {
+            Subscriptions = subscriptions,
+            TotalAnnualCost = subscriptions
+                .Where(s => s.CancellationStatus != nameof(SubscriptionCancellationStatus.Cancelled))
+                .Sum(s => s.AnnualizedAmount),
+            CancelIntendedAnnualCost = subscriptions
+                .Where(s => s.CancellationStatus == nameof(SubscriptionCancellationStatus.CancelIntended))
+                .Sum(s => s.AnnualizedAmount),
+            CancelledAnnualSavings = subscriptions
+                .Where(s => s.CancellationStatus == nameof(SubscriptionCancellationStatus.Cancelled))
+                .Sum(s => s.AnnualizedAmount)
+        };
+    }
+
+    public async Task<SubscriptionDto> UpdateSubscriptionAsync(Guid userId, int patternId, UpdateSubscriptionRequest request, CancellationToken cancellationToken = default)
+    {
+        if (!Enum.TryParse<SubscriptionCancellationStatus>(request.CancellationStatus, true, out var status) || !Enum.IsDefined(status))
+        {
+            throw new ArgumentException("Cancellation status must be None, CancelIntended or Cancelled.");
+        }
+
+        var notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        if (notes?.Length > 500)
+        {
+            throw new ArgumentException("Notes cannot exceed 500 characters.");
+        }
+
+        DateTime? lastUsedAt = request.LastUsedAt.HasValue ? DateTimeProvider.StartOfDayUtc(request.LastUsedAt.Value) : null;
+        if (lastUsedAt > DateTime.UtcNow.Date)
+        {
+            throw new ArgumentException("The last used date cannot be in the future.");
+        }
+
+        var pattern = await _context.RecurringPatterns
+            .Include(p => p.Category)
+            .FirstOrDefaultAsync(p => p.Id == patternId && p.UserId == userId && !p.IsDeleted, cancellationToken)
+            ?? throw new ArgumentException($"Subscription {patternId} was not found.");
+
+        pattern.SetCancellationStatus(status);
+        pattern.LastUsedAt = lastUsedAt;
+        pattern.Notes = notes;
+        pattern.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Set cancellation status of subscription {PatternId} to {Status} for user {UserId}",
+            patternId, status, userId);
+
+        var charges = await GetChargesByMerchantAsync(userId, DateTime.UtcNow.Date.AddMonths(-HistoryMonths), null, cancellationToken);
+        return ToDto(pattern, ChargesFor(pattern, charges));
+    }
+
+    public async Task<int> DetectChargesAfterCancellationAsync(Guid userId, IReadOnlyCollection<int>? transactionIds = null, CancellationToken cancellationToken = default)
+    {
+        var cancelled = await _context.RecurringPatterns
+            .Where(p => p.UserId == userId
+                        && !p.IsDeleted
+                        && p.CancellationStatus == SubscriptionCancellationStatus.Cancelled
+                        && p.CancellationStatusChangedAt != null)
+            .ToListAsync(cancellationToken);
+
+        if (cancelled.Count == 0)
+            return 0;
+
+        // Charges up to a pattern's last reported one have already been looked at
+        var since = cancelled
+            .Min(p => new[] { p.CancellationStatusChangedAt!.Value, p.ChargedAfterCancellationAt ?? DateTime.MinValue }.Max().Date)
+            .AddDays(1);
+        var charges = await GetChargesByMerchantAsync(userId, since, transactionIds, cancellationToken);
+        var chargedCount = 0;
+
+        foreach (var pattern in cancelled)
+        {
+            var latest = ChargesFor(pattern, charges)
+                .Where(t => pattern.IsUnreportedChargeAfterCancellation(t.TransactionDate))
+                .MaxBy(t => t.TransactionDate);
+
+            if (latest == null)
+                continue;
+
+            pattern.ChargedAfterCancellationAt = latest.TransactionDate.Date;
+            pattern.UpdatedAt = DateTime.UtcNow;
+            chargedCount++;
+
+            _logger.LogWarning("Cancelled subscription {PatternId} ({MerchantName}) charged again on {ChargeDate} for user {UserId}",
+                pattern.Id, pattern.MerchantName, latest.TransactionDate, userId);
+
+            await _notificationTrigger.NotifyCancelledSubscriptionChargedAsync(
+                userId, pattern.Id, pattern.MerchantName, latest.Amount, latest.TransactionDate, cancellationToken);
+        }
+
+        if (chargedCount > 0)
+        {
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+
+        return chargedCount;
+    }
+
+    /// <summary>
+    /// The user's expenses since the date, excluding transfers, grouped by normalized description so
+    /// each pattern is compared with every distinct description once. Limited to the given transactions when ids are passed.
+    /// </summary>
+    private async Task<ILookup<string, Transaction>> GetChargesByMerchantAsync(
+        Guid userId, DateTime since, IReadOnlyCollection<int>? transactionIds, CancellationToken cancellationToken)
+    {
+        var query = _context.Transactions
+            .AsNoTracking()
+            .Where(t => t.Account.UserId == userId
+                        && t.Amount < 0
+                        && t.TransferId == null
+                        && t.TransactionDate >= since);
+
+        if (transactionIds != null)
+        {
+            query = query.Where(t => transactionIds.Contains(t.Id));
+        }
+
+        var charges = await query
+            .OrderBy(t => t.TransactionDate)
+            .ToListAsync(cancellationToken);
+
+        return charges
+            .Where(t => !string.IsNullOrWhiteSpace(t.Description))
+            .ToLookup(t => RecurringPattern.NormalizeDescription(t.Description));
+    }
+
+    /// <summary>
+    /// The pattern's charges, oldest first
+    /// </summary>
+    private static List<Transaction> ChargesFor(RecurringPattern pattern, ILookup<string, Transaction> chargesByMerchant)
+    {
+        return chargesByMerchant
+            .Where(g => pattern.MatchesNormalizedMerchant(g.Key))
+            .SelectMany(g => g)
+            .OrderBy(t => t.TransactionDate)
+            .ToList();
+    }
+
+    private static SubscriptionDto ToDto(RecurringPattern pattern, List<Transaction> charges)
+    {
+        var priceChanges = new List<SubscriptionPriceChangeDto>();
+        for (var i = 1; i < charges.Count; i++)
+        {
+            var previous = Math.Abs(charges[i - 1].Amount);
+            var current = Math.Abs(charges[i].Amount);
+            if (previous > 0 && Math.Abs(current - previous) / previous * 100 > PriceChangeThresholdPercent)
+            {
+                priceChanges.Add(new SubscriptionPriceChangeDto
+                {
+                    Date = charges[i].TransactionDate,
+                    PreviousAmount = previous,
+                    NewAmount = current
+                });
+            }
+        }
+
+        var isCancelled = pattern.Status == RecurringPatternStatus.Cancelled
+                          || pattern.CancellationStatus == SubscriptionCancellationStatus.Cancelled;
+
+        return new SubscriptionDto
+        {
+            PatternId = pattern.Id,
+            MerchantName = pattern.MerchantName,
+            Interval = pattern.GetIntervalName(),
+            IntervalDays = pattern.IntervalDays,
+            AverageAmount = Math.Round(pattern.AverageAmount, 2),
+            CurrentAmount = charges.Count > 0 ? Math.Abs(charges[^1].Amount) : Math.Round(pattern.AverageAmount, 2),
+            MonthlyCost = pattern.GetMonthlyCost(),
+            AnnualizedAmount = pattern.GetAnnualCost(),
+            Status = pattern.Status.ToString(),
+            CancellationStatus = pattern.CancellationStatus.ToString(),
+            CancellationStatusChangedAt = pattern.CancellationStatusChangedAt,
+            ChargedAfterCancellationAt = pattern.ChargedAfterCancellationAt,
+            ConfidenceLevel = pattern.GetConfidenceLevel(),
+            OccurrenceCount = pattern.OccurrenceCount,
+            FirstChargedAt = charges.Count > 0 ? charges[0].TransactionDate : pattern.LastObservedAt,
+            LastChargedAt = charges.Count > 0 ? charges[^1].TransactionDate : pattern.LastObservedAt,
+            NextExpectedDate = isCancelled ? null : pattern.NextExpectedDate,
+            LastUsedAt = pattern.LastUsedAt,
+            Notes = pattern.Notes,
+            CategoryId = pattern.CategoryId,
+            CategoryName = pattern.Category?.Name,
+            CategoryColor = pattern.Category?.Color,
+            PriceChanges = priceChanges
+        };
+    }
+}
@@ -0,0 +1,518 @@
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.DTOs;
+using MyMascada.Domain.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+
+namespace MyMascada.Infrastructure.Services.Tags;
+
+/// <summary>
+/// Tag settings live in the Tags table and transactions are linked to them through TransactionTag
+/// rows. Transactions and rules also keep plain comma-separated names, so every rename or delete
+/// rewrites those strings and moves the links in the same SaveChanges call.
+/// </summary>
+public class TagService : ITagService
+{
+    private const int MaxTagListLength = 500;
+    private static readonly Regex HexColor = new("^#[0-9A-Fa-f]{6}$", RegexOptions.Compiled);
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly ILogger<TagService> _logger;
+
+    public TagService(ApplicationDbContext context, IAccountAccessService accountAccess, ILogger<TagService> logger)
+    {
+        _context = context;
+        _accountAccess = accountAccess;
+        _logger = logger;
+    }
+
+    public async Task<IReadOnlyList<TagDto>> GetTagsAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+
+        var saved = await _context.Tags
+            .AsNoTracking()
+            .Where(t => t.UserId == userId)
+            .ToListAsync(cancellationToken);
+
+        var used = await _context.TransactionTags
+            .AsNoTracking()
+            .Where(tt => accessibleIds.Contains(tt.Transaction.AccountId))
+            .Select(tt => new { tt.Tag.Name, tt.Transaction.TransactionDate })
+            .GroupBy(x => x.Name)
+            .Select(g => new
+            {
+                Name = g.Key,
+                TransactionCount = g.Count(),
+                LastUsedAt = g.Max(x => x.TransactionDate)
+            })
+            .ToListAsync(cancellationToken);
+
+        var ruleTags = await _context.CategorizationRules
+            .AsNoTracking()
+            .Where(r => r.UserId == userId && r.ApplyTags != null && r.ApplyTags != "")
+            .Select(r => r.ApplyTags)
+            .ToListAsync(cancellationToken);
+
+        // Saved tags come first so their spelling wins over whatever was typed on a transaction
+        var tags = new Dictionary<string, TagDto>(StringComparer.OrdinalIgnoreCase);
+        foreach (var tag in saved)
+        {
+            tags.TryAdd(tag.Name, new TagDto { Name = tag.Name, Color = tag.Color });
+        }
+
+        // Shared accounts link to their owner's tags, which can share a name with the user's own
+        foreach (var usage in used)
+        {
+            if (!tags.TryGetValue(usage.Name, out var dto))
+            {
+                dto = new TagDto { Name = usage.Name };
+                tags[usage.Name] = dto;
+            }
+
+            dto.TransactionCount += usage.TransactionCount;
+            if (dto.LastUsedAt == null || usage.LastUsedAt > dto.LastUsedAt)
+            {
+                dto.LastUsedAt = usage.LastUsedAt;
+            }
+        }
+
+        foreach (var name in ruleTags.SelectMany(Transaction.ParseTags))
+        {
+            if (!tags.TryGetValue(name, out var dto))
+            {
+                dto = new TagDto { Name = name };
+                tags[name] = dto;
+            }
+
+            dto.RuleCount++;
+        }
+
+        return tags.Values
+            .OrderBy(t => t.Name, StringComparer.OrdinalIgnoreCase)
+            .ToList();
+    }
+
+    public async Task<TagDto> SaveTagAsync(Guid userId, string name, string? color, CancellationToken cancellationToken = default)
+    {
+        var tagName = NormalizeName(name);
+        var tagColor = NormalizeColor(color);
+
+        var existing = await FindTagAsync(userId, tagName, cancellationToken);
+        if (existing == null)
+        {
+            _context.Tags.Add(new Tag { UserId = userId, Name = tagName, Color = tagColor });
+        }
+        else
+        {
+            existing.Color = tagColor;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var tags = await GetTagsAsync(userId, cancellationToken);
+        return tags.First(t => string.Equals(t.Name, existing?.Name ?? tagName, StringComparison.OrdinalIgnoreCase));
+    }
+
+    public async Task<TagChangeResultDto> RenameTagAsync(Guid userId, string name, string newName, CancellationToken cancellationToken = default)
+    {
+        var oldName = NormalizeName(name);
+        var targetName = NormalizeName(newName);
+        var result = new TagChangeResultDto { Name = targetName };
+
+        if (string.Equals(oldName, targetName, StringComparison.Ordinal))
+        {
+            return result;
+        }
+
+        var source = await FindTagAsync(userId, oldName, cancellationToken);
+        var target = string.Equals(oldName, targetName, StringComparison.OrdinalIgnoreCase)
+            ? null
+            : await FindTagAsync(userId, targetName, cancellationToken);
+
+        if (source != null && target != null)
+        {
+            // Merging: the existing target keeps its settings, unless only the source had a color
+            target.Color ??= source.Color;
+            SoftDelete(source);
+        }
+        else if (source != null)
+        {
+            source.Name = targetName;
+        }
+
+        var transactions = await GetOwnedTransactionsWithTagAsync(userId, oldName, cancellationToken);
+        foreach (var transaction in transactions)
+        {
+            transaction.RemoveTags(new[] { oldName });
+            transaction.AddTags(new[] { targetName });
+            if (transaction.Tags?.Length > MaxTagListLength)
+            {
+                throw new InvalidOperationException(
+                    $"Renaming would make the tags on transaction {transaction.Id} longer than {MaxTagListLength} characters.");
+            }
+
+            transaction.UpdatedBy = userId.ToString();
+            result.TransactionsUpdated++;
+        }
+
+        // A renamed tag keeps its links; a merged one hands them over to the target
+        await SyncTransactionTagsAsync(transactions, cancellationToken);
+
+        foreach (var rule in await GetRulesWithTagAsync(userId, oldName, cancellationToken))
+        {
+            var ruleTags = rule.GetApplyTags()
+                .Select(tag => string.Equals(tag, oldName, StringComparison.OrdinalIgnoreCase) ? targetName : tag);
+            rule.ApplyTags = Transaction.NormalizeTags(string.Join(",", ruleTags));
+            result.RulesUpdated++;
+        }
+
+        foreach (var goal in await GetGoalsWithTagAsync(userId, oldName, cancellationToken))
+        {
+            goal.ContributionTag = targetName;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation(
+            "Renamed tag for user {UserId}: {TransactionCount} transactions and {RuleCount} rules updated",
+            userId, result.TransactionsUpdated, result.RulesUpdated);
+
+        return result;
+    }
+
+    public async Task<TagChangeResultDto> DeleteTagAsync(Guid userId, string name, CancellationToken cancellationToken = default)
+    {
+        var tagName = NormalizeName(name);
+        var result = new TagChangeResultDto { Name = tagName };
+
+        var saved = await FindTagAsync(userId, tagName, cancellationToken);
+        if (saved != null)
+        {
+            SoftDelete(saved);
+        }
+
+        var transactions = await GetOwnedTransactionsWithTagAsync(userId, tagName, cancellationToken);
+        foreach (var transaction in transactions)
+        {
+            transaction.RemoveTags(new[] { tagName });
+            transaction.UpdatedBy = userId.ToString();
+            result.TransactionsUpdated++;
+        }
+
+        await SyncTransactionTagsAsync(transactions, cancellationToken);
+
+        foreach (var rule in await GetRulesWithTagAsync(userId, tagName, cancellationToken))
+        {
+            var ruleTags = rule.GetApplyTags()
+                .Where(tag => !string.Equals(tag, tagName, StringComparison.OrdinalIgnoreCase));
+            rule.ApplyTags = Transaction.NormalizeTags(string.Join(",", ruleTags));
+            result.RulesUpdated++;
+        }
+
+        // Goals stop counting the tag's transactions as contributions
+        foreach (var goal in await GetGoalsWithTagAsync(userId, tagName, cancellationToken))
+        {
+            goal.ContributionTag = null;
+        }
+
+        if (saved == null && result.TransactionsUpdated == 0 && result.RulesUpdated == 0)
+        {
+            throw new ArgumentException("Tag not found.");
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return result;
+    }
+
+    public async Task SyncTransactionTagsAsync(IReadOnlyCollection<Transaction> transactions, CancellationToken cancellationToken = default)
+    {
+        if (transactions.Count == 0)
+        {
+            return;
+        }
+
+        // Tags belong to the account's owner, whoever is editing the transaction
+        var accountIds = transactions.Select(t => t.AccountId).Distinct().ToList();
+        var owners = await _context.Accounts
+            .IgnoreQueryFilters()
+            .Where(a => accountIds.Contains(a.Id))
+            .ToDictionaryAsync(a => a.Id, a => a.UserId, cancellationToken);
+        var userIds = owners.Values.Distinct().ToList();
+
+        var names = transactions
+            .SelectMany(t => t.GetTags())
+            .Where(name => name.Length <= Tag.MaxNameLength)
+            .Select(name => name.ToLower())
+            .Distinct()
+            .ToList();
+        if (names.Count > 0)
+        {
+            await _context.Tags
+                .Where(t => userIds.Contains(t.UserId) && names.Contains(t.Name.ToLower()))
+                .LoadAsync(cancellationToken);
+        }
+
+        // Removed links are loaded too, so a tag put back on a transaction reuses its old link
+        var savedIds = transactions.Where(t => t.Id != 0).Select(t => t.Id).ToList();
+        if (savedIds.Count > 0)
+        {
+            await _context.TransactionTags
+                .IgnoreQueryFilters()
+                .Include(tt => tt.Tag)
+                .Where(tt => savedIds.Contains(tt.TransactionId))
+                .LoadAsync(cancellationToken);
+        }
+
+        // Tags.Local also holds tags added or renamed earlier in this unit of work
+        var tagsByName = _context.Tags.Local
+            .Where(t => userIds.Contains(t.UserId) && !t.IsDeleted)
+            .GroupBy(t => (t.UserId, Name: t.Name.ToLowerInvariant()))
+            .ToDictionary(g => g.Key, g => g.First());
+
+        var now = DateTimeProvider.UtcNow;
+        foreach (var transaction in transactions)
+        {
+            if (!owners.TryGetValue(transaction.AccountId, out var ownerId))
+            {
+                continue;
+            }
+
+            var wanted = new List<Tag>();
+            foreach (var name in transaction.GetTags().Where(name => name.Length <= Tag.MaxNameLength))
+            {
+                var key = (ownerId, name.ToLowerInvariant());
+                if (!tagsByName.TryGetValue(key, out var tag))
+                {
+                    tag = new Tag { UserId = ownerId, Name = name };
+                    _context.Tags.Add(tag);
+                    tagsByName[key] = tag;
+                }
+
+                wanted.Add(tag);
+            }
+
+            foreach (var link in transaction.TransactionTags.Where(l => !l.IsDeleted && !wanted.Contains(l.Tag)))
+            {
+                link.IsDeleted = true;
+                link.DeletedAt = now;
+            }
+
+            foreach (var tag in wanted)
+            {
+                var link = transaction.TransactionTags.FirstOrDefault(l => l.Tag == tag && !l.IsDeleted)
+                    ?? transaction.TransactionTags.FirstOrDefault(l => l.Tag == tag);
+                if (link == null)
+                {
+                    link = new TransactionTag { Transaction = transaction, Tag = tag };
+                    transaction.TransactionTags.Add(link);
+                    _context.TransactionTags.Add(link);
+                }
+                else if (link.IsDeleted)
+                {
+                    link.IsDeleted = false;
+                    link.DeletedAt = null;
+                }
+            }
+        }
+    }
+
+    public async Task<TagSpendingReportDto> GetSpendingReportAsync(
+        Guid userId,
+        DateTime startDate,
+        DateTime endDate,
+        IReadOnlyCollection<string>? tags,
+        CancellationToken cancellationToken = default)
+    {
+        var start = DateTimeProvider.ToUtc(startDate);
+        var end = DateTimeProvider.ToUtc(endDate);
+        if (end < start)
+        {
+            throw new ArgumentException("End date must be on or after the start date.");
+        }
+
+        var accessibleIds = await _accountAccess.GetAccessibleAccountIdsAsync(userId);
+
+        var wanted = (tags ?? Array.Empty<string>())
+            .SelectMany(Transaction.ParseTags)
+            .Select(tag => tag.ToLower())
+            .Distinct()
+            .ToList();
+        var allTags = wanted.Count == 0;
+
+        // Transfers and excluded transactions stay out, as in the other spending reports
+        var transactions = await _context.Transactions
+            .AsNoTracking()
+            .Include(t => t.Category)
+            .Include(t => t.Splits)
+                .ThenInclude(s => s.Category)
+            .Include(t => t.TransactionTags)
+                .ThenInclude(tt => tt.Tag)
+            .Where(t => accessibleIds.Contains(t.AccountId) &&
+                        !t.Account.IsDeleted &&
+                        t.TransactionDate >= start &&
+                        t.TransactionDate <= end &&
+                        t.TransactionTags.Any(tt => allTags || wanted.Contains(tt.Tag.Name.ToLower())) &&
+                        !t.IsExcluded &&
+                        !t.TransferId.HasValue &&
+                        t.Type != TransactionType.TransferComponent)
+            .ToListAsync(cancellationToken);
+
+        var colors = (await _context.Tags
+                .AsNoTracking()
+                .Where(t => t.UserId == userId)
+                .ToListAsync(cancellationToken))
+            .GroupBy(t => t.Name, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.First().Color, StringComparer.OrdinalIgnoreCase);
+
+        var byTag = transactions
+            .SelectMany(t => t.TransactionTags.Select(tt => (Tag: tt.Tag.Name, Transaction: t)))
+            .Where(x => allTags || wanted.Contains(x.Tag.ToLower()))
+            .GroupBy(x => x.Tag, x => x.Transaction, StringComparer.OrdinalIgnoreCase);
+
+        var report = new TagSpendingReportDto { StartDate = start, EndDate = end };
+        foreach (var group in byTag)
+        {
+            var tagged = group.ToList();
+            var expenseLines = tagged
+                .Where(t => t.Amount < 0)
+                .SelectMany(t => GetExpenseLines(t).Select(line => (Transaction: t, line.CategoryId, line.Category, line.Amount)))
+                .ToList();
+
+            report.Tags.Add(new TagSpendingDto
+            {
+                Name = group.Key,
+                Color = colors.GetValueOrDefault(group.Key),
+                TotalSpent = expenseLines.Sum(l => Math.Abs(l.Amount)),
+                TotalIncome = tagged.Where(t => t.Amount > 0).Sum(t => t.Amount),
+                TransactionCount = tagged.Count,
+                Categories = expenseLines
+                    .GroupBy(l => l.CategoryId)
+                    .Select(g => new TagCategorySpendingDto
+                    {
+                        CategoryId = g.Key,
+                        CategoryName = g.First().Category?.Name ?? "Uncategorized",
+                        CategoryColor = g.First().Category?.Color,
+                        Amount = g.Sum(l => Math.Abs(l.Amount)),
+                        TransactionCount = g.Select(l => l.Transaction.Id).Distinct().Count()
+                    })
+                    .OrderByDescending(c => c.Amount)
+                    .ToList(),
+                Months = expenseLines
+                    .GroupBy(l => new { l.Transaction.TransactionDate.Year, l.Transaction.TransactionDate.Month })
+                    .Select(g => new TagMonthlySpendingDto
+                    {
+                        Year = g.Key.Year,
+                        Month = g.Key.Month,
+                        Amount = g.Sum(l => Math.Abs(l.Amount))
+                    })
+                    .OrderBy(m => m.Year)
+                    .ThenBy(m => m.Month)
+                    .ToList()
+            });
+        }
+
+        report.Tags = report.Tags.OrderByDescending(t => t.TotalSpent).ToList();
+        return report;
+    }
+
+    private static IEnumerable<(int? CategoryId, Category? Category, decimal Amount)> GetExpenseLines(Transaction transaction)
+    {
+        var lines = transaction.GetCategoryAmounts()
+            .Select(line => ((int?)line.CategoryId, line.Category, line.Amount))
+            .ToList();
+
+        return lines.Count > 0
+            ? lines
+            : new[] { ((int?)null, (Category?)null, transaction.Amount) };
+    }
+
+    private async Task<Tag?> FindTagAsync(Guid userId, string name, CancellationToken cancellationToken)
+    {
+        var lowered = name.ToLower();
+        return await _context.Tags
+            .FirstOrDefaultAsync(t => t.UserId == userId && t.Name.ToLower() == lowered, cancellationToken);
+    }
+
+    /// <summary>
+    /// Renames and deletes rewrite the user's own accounts only; shared accounts keep their owner's tags.
+    /// </summary>
+    private async Task<List<Transaction>> GetOwnedTransactionsWithTagAsync(Guid userId, string name, CancellationToken cancellationToken)
+    {
+        var lowered = name.ToLower();
+        return await _context.Transactions
+            .Where(t => t.Account.UserId == userId &&
+                        t.TransactionTags.Any(tt => tt.Tag.Name.ToLower() == lowered))
+            .ToListAsync(cancellationToken);
+    }
+
+    private async Task<List<CategorizationRule>> GetRulesWithTagAsync(Guid userId, string name, CancellationToken cancellationToken)
+    {
+        var lowered = name.ToLower();
+        var candidates = await _context.CategorizationRules
+            .Where(r => r.UserId == userId && r.ApplyTags != null && r.ApplyTags.ToLower().Contains(lowered))
+            .ToListAsync(cancellationToken);
+
+        return candidates
+            .Where(r => r.GetApplyTags().Contains(name, StringComparer.OrdinalIgnoreCase))
+            .ToList();
+    }
+
+    private async Task<List<Goal>> GetGoalsWithTagAsync(Guid userId, string name, CancellationToken cancellationToken)
+    {
+        var lowered = name.ToLower();
+        return await _context.Goals
+            .Where(g => g.UserId == userId && !g.IsDeleted && g.ContributionTag != null && g.ContributionTag.ToLower() == lowered)
+            .ToListAsync(cancellationToken);
+    }
+
+    private static void SoftDelete(Tag tag)
+    {
+        var now = DateTimeProvider.UtcNow;
+        tag.IsDeleted = true;
+        tag.DeletedAt = now;
+        tag.UpdatedAt = now;
+    }
+
+    private static string NormalizeName(string name)
+    {
+        var trimmed = name?.Trim() ?? string.Empty;
+        if (trimmed.Length == 0)
+        {
+            throw new ArgumentException("Tag name is required.");
+        }
+
+        if (trimmed.Contains(','))
+        {
+            throw new ArgumentException("Tag names cannot contain commas.");
+        }
+
+        if (trimmed.Length > Tag.MaxNameLength)
+        {
+            throw new ArgumentException($"Tag names cannot exceed {Tag.MaxNameLength} characters.");
+        }
+
+        return trimmed;
+    }
+
+    private static string? NormalizeColor(string? color)
+    {
+        if (string.IsNullOrWhiteSpace(color))
+        {
+            return null;
+        }
+
+        if (!HexColor.IsMatch(color))
+        {
+            throw new ArgumentException("Color must be a valid hex color (e.g., #FF5733).");
+        }
+
+        return color;
+    }
+}
@@ -91,6 +91,21 @@ public class TransactionQueryService : ITransactionQueryService
                 t.Account.Name.ToLower().Contains(searchTerm));
         }
 
+        // Tag filtering through the transaction's tag links, case-insensitively
+        if (!string.IsNullOrWhiteSpace(parameters.Tag))
+        {
+            var tagName = parameters.Tag.Trim().ToLower();
+            query = query.Where(t => t.TransactionTags.Any(tt => tt.Tag.Name.ToLower() == tagName));
+        }
+
+        // Attachment filtering: receipts and documents that have not been removed
+        if (parameters.HasAttachments.HasValue)
+        {
+            query = parameters.HasAttachments.Value
+                ? query.Where(t => t.Attachments.Any(a => !a.IsDeleted))
+                : query.Where(t => !t.Attachments.Any(a => !a.IsDeleted));
+        }
+
         // Transaction type filtering (income/expense)
         if (!string.IsNullOrEmpty(parameters.TransactionType))
         {
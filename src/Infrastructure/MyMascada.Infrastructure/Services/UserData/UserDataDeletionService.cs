@@ -13,17 +13,20 @@ public class UserDataDeletionService : IUserDataDeletionService
     private readonly ApplicationDbContext _context;
     private readonly IAkahuApiClient _akahuApiClient;
     private readonly ISettingsEncryptionService _encryptionService;
+    private readonly IFileStorageService _fileStorage;
     private readonly ILogger<UserDataDeletionService> _logger;
 
     public UserDataDeletionService(
         ApplicationDbContext context,
         IAkahuApiClient akahuApiClient,
         ISettingsEncryptionService encryptionService,
+        IFileStorageService fileStorage,
         ILogger<UserDataDeletionService> logger)
     {
         _context = context;
         _akahuApiClient = akahuApiClient;
         _encryptionService = encryptionService;
+        _fileStorage = fileStorage;
         _logger = logger;
     }
 
@@ -50,6 +53,10 @@ public class UserDataDeletionService : IUserDataDeletionService
             return result;
         }
 
+        // Attachment files live outside the database; their keys are collected up front and the
+        // files removed only once the rows are gone
+        var attachmentKeys = new List<string>();
+
         // Use a transaction for data integrity
         await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
 
@@ -171,6 +178,30 @@ public class UserDataDeletionService : IUserDataDeletionService
                     .ExecuteDeleteAsync(cancellationToken);
             }
 
+            // 6b. Delete TransactionAttachments
+            if (transactionIds.Any())
+            {
+                attachmentKeys = await _context.TransactionAttachments
+                    .IgnoreQueryFilters()
+                    .Where(ta => transactionIds.Contains(ta.TransactionId))
+                    .Select(ta => ta.StorageKey)
+                    .ToListAsync(cancellationToken);
+
+                result.AttachmentsDeleted = await _context.TransactionAttachments
+                    .IgnoreQueryFilters()
+                    .Where(ta => transactionIds.Contains(ta.TransactionId))
+                    .ExecuteDeleteAsync(cancellationToken);
+            }
+
+            // 6c. Delete TransactionTags
+            if (transactionIds.Any())
+            {
+                await _context.TransactionTags
+                    .IgnoreQueryFilters()
+                    .Where(tt => transactionIds.Contains(tt.TransactionId))
+                    .ExecuteDeleteAsync(cancellationToken);
+            }
+
             // 7. Delete ReconciliationItems
             if (reconciliationIds.Any())
             {
@@ -216,7 +247,17 @@ public class UserDataDeletionService : IUserDataDeletionService
                 .Where(de => de.UserId == userId)
                 .ExecuteDeleteAsync(cancellationToken);
 
-            // 13. Delete BudgetCategories
+            // 13. Delete BudgetPeriodCloses and BudgetCategories
+            await _context.BudgetPeriodCloseCategories
+                .IgnoreQueryFilters()
+                .Where(pcc => pcc.BudgetPeriodClose.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            await _context.BudgetPeriodCloses
+                .IgnoreQueryFilters()
+                .Where(pc => pc.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
             if (budgetIds.Any())
             {
                 await _context.BudgetCategories
@@ -261,7 +302,62 @@ public class UserDataDeletionService : IUserDataDeletionService
                 .Where(rp => rp.UserId == userId)
                 .ExecuteDeleteAsync(cancellationToken);
 
-            // 19. Delete Goals
+            // 18b. Delete RecurringScheduleOccurrences and RecurringSchedules
+            await _context.RecurringScheduleOccurrences
+                .IgnoreQueryFilters()
+                .Where(o => o.Schedule.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            result.RecurringSchedulesDeleted = await _context.RecurringSchedules
+                .IgnoreQueryFilters()
+                .Where(s => s.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            // 18c. Delete ExchangeRates
+            result.ExchangeRatesDeleted = await _context.ExchangeRates
+                .IgnoreQueryFilters()
+                .Where(r => r.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            // 18d. Delete AccountValuations
+            result.AccountValuationsDeleted = await _context.AccountValuations
+                .IgnoreQueryFilters()
+                .Where(v => accountIds.Contains(v.AccountId) || v.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            // 18e. Delete InvestmentTrades, InvestmentHoldings and SecurityPrices
+            await _context.InvestmentTrades
+                .IgnoreQueryFilters()
+                .Where(t => accountIds.Contains(t.Holding.AccountId))
+                .ExecuteDeleteAsync(cancellationToken);
+
+            result.InvestmentHoldingsDeleted = await _context.InvestmentHoldings
+                .IgnoreQueryFilters()
+                .Where(h => accountIds.Contains(h.AccountId))
+                .ExecuteDeleteAsync(cancellationToken);
+
+            await _context.SecurityPrices
+                .IgnoreQueryFilters()
+                .Where(p => p.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            // 18f. Delete DebtTerms and the payoff plan
+            result.DebtTermsDeleted = await _context.DebtTerms
+                .IgnoreQueryFilters()
+                .Where(d => accountIds.Contains(d.AccountId))
+                .ExecuteDeleteAsync(cancellationToken);
+
+            await _context.DebtPayoffPlans
+                .IgnoreQueryFilters()
+                .Where(p => p.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
+            // 19. Delete GoalContributions and Goals
+            result.GoalContributionsDeleted = await _context.GoalContributions
+                .IgnoreQueryFilters()
+                .Where(c => c.Goal.UserId == userId)
+                .ExecuteDeleteAsync(cancellationToken);
+
             result.GoalsDeleted = await _context.Goals
                 .IgnoreQueryFilters()
                 .Where(g => g.UserId == userId)
@@ -424,11 +520,23 @@ public class UserDataDeletionService : IUserDataDeletionService
 
             result.Success = true;
 
+            foreach (var key in attachmentKeys)
+            {
+                try
+                {
+                    await _fileStorage.DeleteAsync(key, CancellationToken.None);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Failed to delete attachment file {StorageKey} for user {UserId}", key, userId);
+                }
+            }
+
             _logger.LogInformation(
                 "Data deletion completed for user {UserId}: " +
-                "{Accounts} accounts, {Transactions} transactions, {Categories} categories, {Rules} rules, " +
+                "{Accounts} accounts, {Transactions} transactions, {Attachments} attachments, {Categories} categories, {Rules} rules, " +
                 "{Transfers} transfers, {Reconciliations} reconciliations, {BankConnections} bank connections, " +
-                "{Budgets} budgets, {Wallets} wallets, {RecurringPatterns} recurring patterns, {Goals} goals, " +
+                "{Budgets} budgets, {Wallets} wallets, {RecurringPatterns} recurring patterns, {RecurringSchedules} recurring schedules, {ExchangeRates} exchange rates, {AccountValuations} account valuations, {InvestmentHoldings} investment holdings, {DebtTerms} debt terms, {GoalContributions} goal contributions, {Goals} goals, " +
                 "{AccountShares} account shares, {ChatMessages} chat messages, {Notifications} notifications, " +
                 "{NotificationPreferences} notification preferences, {DashboardNudgeDismissals} nudge dismissals, " +
                 "{BankCategoryMappings} bank category mappings, {DuplicateExclusions} duplicate exclusions, " +
@@ -437,9 +545,9 @@ public class UserDataDeletionService : IUserDataDeletionService
                 "{UserAiSettings} AI settings, {UserTelegramSettings} telegram settings, " +
                 "{UserFinancialProfiles} financial profiles, {AiTokenUsages} AI token usages, {UserSubscriptions} subscriptions",
                 userId,
-                result.AccountsDeleted, result.TransactionsDeleted, result.CategoriesDeleted, result.RulesDeleted,
+                result.AccountsDeleted, result.TransactionsDeleted, result.AttachmentsDeleted, result.CategoriesDeleted, result.RulesDeleted,
                 result.TransfersDeleted, result.ReconciliationsDeleted, result.BankConnectionsDeleted,
-                result.BudgetsDeleted, result.WalletsDeleted, result.RecurringPatternsDeleted, result.GoalsDeleted,
+                result.BudgetsDeleted, result.WalletsDeleted, result.RecurringPatternsDeleted, result.RecurringSchedulesDeleted, result.ExchangeRatesDeleted, result.AccountValuationsDeleted, result.InvestmentHoldingsDeleted, result.DebtTermsDeleted, result.GoalContributionsDeleted, result.GoalsDeleted,
                 result.AccountSharesDeleted, result.ChatMessagesDeleted, result.NotificationsDeleted,
                 result.NotificationPreferencesDeleted, result.DashboardNudgeDismissalsDeleted,
                 result.BankCategoryMappingsDeleted, result.DuplicateExclusionsDeleted,
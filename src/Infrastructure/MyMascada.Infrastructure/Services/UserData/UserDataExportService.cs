@@ -1,3 +1,5 @@
+using System.IO.Compression;
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using MyMascada.Application.Common.Interfaces;
@@ -11,14 +13,26 @@ namespace MyMascada.Infrastructure.Services.UserData;
 /// </summary>
 public class UserDataExportService : IUserDataExportService
 {
+    private const string ExportDataFileName = "data.json";
+
+    // Pretty printed for human readability
+    private static readonly JsonSerializerOptions ExportJsonOptions = new()
+    {
+        WriteIndented = true,
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+    };
+
     private readonly ApplicationDbContext _context;
+    private readonly IFileStorageService _fileStorage;
     private readonly ILogger<UserDataExportService> _logger;
 
     public UserDataExportService(
         ApplicationDbContext context,
+        IFileStorageService fileStorage,
         ILogger<UserDataExportService> logger)
     {
         _context = context;
+        _fileStorage = fileStorage;
         _logger = logger;
     }
 
@@ -136,6 +150,25 @@ public class UserDataExportService : IUserDataExportService
         _logger.LogInformation("Exported {Count} transactions for user {UserId}",
             export.Transactions.Count, userId);
 
+        // Attachments (removed ones no longer have a stored file)
+        var transactionIds = transactions.Select(t => t.Id).ToList();
+        var attachments = await _context.TransactionAttachments
+            .AsNoTracking()
+            .Where(a => transactionIds.Contains(a.TransactionId))
+            .OrderBy(a => a.TransactionId)
+            .ThenBy(a => a.CreatedAt)
+            .ToListAsync(cancellationToken);
+
+        export.Attachments = attachments.Select(a => new AttachmentExportDto
+        {
+            Id = a.Id,
+            TransactionId = a.TransactionId,
+            FileName = a.FileName,
+            ContentType = a.ContentType,
+            SizeBytes = a.SizeBytes,
+            CreatedAt = a.CreatedAt
+        }).ToList();
+
         // Transfers
         var transfers = await _context.Transfers
             .IgnoreQueryFilters()
@@ -279,6 +312,7 @@ public class UserDataExportService : IUserDataExportService
         {
             TotalAccounts = export.Accounts.Count,
             TotalTransactions = export.Transactions.Count,
+            TotalAttachments = export.Attachments.Count,
             TotalTransfers = export.Transfers.Count,
             TotalCategories = export.Categories.Count,
             TotalRules = export.CategorizationRules.Count,
@@ -297,4 +331,68 @@ public class UserDataExportService : IUserDataExportService
 
         return export;
     }
+
+    public async Task<Stream> CreateExportArchiveAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var export = await ExportUserDataAsync(userId, cancellationToken);
+
+        var attachmentIds = export.Attachments.Select(a => a.Id).ToList();
+        var storageKeys = await _context.TransactionAttachments
+            .AsNoTracking()
+            .Where(a => attachmentIds.Contains(a.Id))
+            .ToDictionaryAsync(a => a.Id, a => a.StorageKey, cancellationToken);
+
+        // Files are copied one at a time into a temporary archive, so no attachment is ever held
+        // in memory whole; the file goes away when the returned stream is disposed
+        var archive = new FileStream(
+            Path.GetTempFileName(),
+            FileMode.Create,
+            FileAccess.ReadWrite,
+            FileShare.None,
+            bufferSize: 81920,
+            FileOptions.DeleteOnClose | FileOptions.Asynchronous);
+
+        try
+        {
+            using (var zip = new ZipArchive(archive, ZipArchiveMode.Create, leaveOpen: true))
+            {
+                foreach (var attachment in export.Attachments)
+                {
+                    await using var content = await _fileStorage.OpenReadAsync(storageKeys[attachment.Id], cancellationToken);
+                    if (content == null)
+                    {
+                        _logger.LogWarning("Attachment file {StorageKey} is missing from storage; exporting metadata only",
+                            storageKeys[attachment.Id]);
+                        continue;
+                    }
+
+                    var path = $"attachments/{attachment.Id}-{Path.GetFileName(attachment.FileName)}";
+
+                    // Images and PDFs are already compressed
+                    var entry = zip.CreateEntry(path, CompressionLevel.NoCompression);
+                    await using (var entryStream = entry.Open())
+                    {
+                        await content.CopyToAsync(entryStream, cancellationToken);
+                    }
+
+                    attachment.ArchivePath = path;
+                }
+
+                // Written last so each attachment's ArchivePath reflects whether its file made it in
+                var dataEntry = zip.CreateEntry(ExportDataFileName);
+                await using (var dataStream = dataEntry.Open())
+                {
+                    await JsonSerializer.SerializeAsync(dataStream, export, ExportJsonOptions, cancellationToken);
+                }
+            }
+
+            archive.Position = 0;
+            return archive;
+        }
+        catch
+        {
+            await archive.DisposeAsync();
+            throw;
+        }
+    }
 }
@@ -24,6 +24,11 @@ namespace MyMascada.WebAPI.Controllers;
 [Authorize]
 public class BankConnectionsController : ControllerBase
 {
+    /// <summary>
+    /// Longest date range a single range sync may fetch.
+    /// </summary>
+    private const int MaxSyncRangeDays = 365;
+
     private readonly IMediator _mediator;
     private readonly ICurrentUserService _currentUserService;
     private readonly AkahuOptions _akahuOptions;
@@ -337,6 +342,59 @@ public class BankConnectionsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Re-fetches an explicit date range for a bank connection, e.g. days a previous sync missed.
+    /// Queues background processing and returns immediately.
+    /// </summary>
+    /// <param name="id">The bank connection ID to sync</param>
+    /// <param name="request">The date range to fetch</param>
+    /// <returns>Accepted job metadata</returns>
+    [HttpPost("{id}/sync-range")]
+    [ProducesResponseType(typeof(BankSyncJobAcceptedDto), StatusCodes.Status202Accepted)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<BankSyncJobAcceptedDto>> SyncBankConnectionRange(int id, [FromBody] SyncRangeRequest request)
+    {
+        var from = request.From.Date;
+        var to = request.To.Date;
+
+        if (from >= to)
+        {
+            return BadRequest(new { message = "The start date must be before the end date" });
+        }
+
+        if (to > DateTime.UtcNow.Date.AddDays(1))
+        {
+            return BadRequest(new { message = "The end date cannot be in the future" });
+        }
+
+        if ((to - from).TotalDays > MaxSyncRangeDays)
+        {
+            return BadRequest(new { message = $"The range cannot be longer than {MaxSyncRangeDays} days" });
+        }
+
+        try
+        {
+            var command = new SyncBankConnectionCommand(_currentUserService.GetUserId(), id, from, to);
+            var result = await _mediator.Send(command);
+            return Accepted(result);
+        }
+        catch (ArgumentException)
+        {
+            return NotFound();
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Sync range request rejected for connection {ConnectionId}", id);
+            return BadRequest(new { message = "The requested sync could not be started. Please check your bank connections." });
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
     /// <summary>
     /// Triggers a background sync for all active bank connections of the current user.
     /// </summary>
@@ -408,6 +466,21 @@ public class BankConnectionsController : ControllerBase
     }
 }
 
+/// <summary>
+/// Request DTO for re-fetching a date range of a bank connection.
+/// </summary>
+public record SyncRangeRequest(
+    /// <summary>
+    /// First day to fetch (inclusive).
+    /// </summary>
+    [property: JsonPropertyName("from")] DateTime From,
+
+    /// <summary>
+    /// Day after the last day to fetch (exclusive).
+    /// </summary>
+    [property: JsonPropertyName("to")] DateTime To
+);
+
 /// <summary>
 /// Request DTO for initiating an Akahu OAuth connection.
 /// </summary>
@@ -114,6 +114,33 @@ public class BudgetsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Get the period closes that closed this budget or opened it as the next period, newest first
+    /// </summary>
+    [HttpGet("{id}/closes")]
+    public async Task<ActionResult<IEnumerable<BudgetPeriodCloseDto>>> GetBudgetPeriodCloses(int id)
+    {
+        try
+        {
+            var query = new GetBudgetPeriodClosesQuery
+            {
+                BudgetId = id,
+                UserId = _currentUserService.GetUserId()
+            };
+
+            var closes = await _mediator.Send(query);
+            return Ok(closes);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving the budget's period closes." });
+        }
+    }
+
     /// <summary>
     /// Get budget suggestions based on historical spending
     /// </summary>
@@ -320,6 +347,7 @@ public class BudgetsController : ControllerBase
                 BudgetId = id,
                 CategoryId = categoryId,
                 BudgetedAmount = request.BudgetedAmount,
+                RolloverAmount = request.RolloverAmount,
                 AllowRollover = request.AllowRollover,
                 CarryOverspend = request.CarryOverspend,
                 IncludeSubcategories = request.IncludeSubcategories,
@@ -381,15 +409,19 @@ public class BudgetsController : ControllerBase
     /// Creates next period budgets for recurring budgets with rollover-enabled categories.
     /// </summary>
     /// <param name="previewOnly">If true, only shows what would be rolled over without making changes</param>
+    /// <param name="request">Optional amounts to carry instead of the calculated rollovers</param>
     [HttpPost("process-rollovers")]
-    public async Task<ActionResult<BudgetRolloverResultDto>> ProcessRollovers([FromQuery] bool previewOnly = false)
+    public async Task<ActionResult<BudgetRolloverResultDto>> ProcessRollovers(
+        [FromQuery] bool previewOnly = false,
+        [FromBody] ProcessBudgetRolloversRequest? request = null)
     {
         try
         {
             var command = new ProcessBudgetRolloversCommand
             {
                 UserId = _currentUserService.GetUserId(),
-                PreviewOnly = previewOnly
+                PreviewOnly = previewOnly,
+                Overrides = request?.Overrides ?? new List<BudgetRolloverOverrideDto>()
             };
 
             var result = await _mediator.Send(command);
@@ -399,6 +431,10 @@ public class BudgetsController : ControllerBase
         {
             return Unauthorized(new { message = ex.Message });
         }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
         catch (Exception ex)
         {
             return StatusCode(500, new { message = "An error occurred while processing budget rollovers." });
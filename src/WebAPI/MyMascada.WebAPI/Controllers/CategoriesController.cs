@@ -261,37 +261,27 @@ public class CategoriesController : ControllerBase
     }
 
     /// <summary>
-    /// Get category statistics (transaction count, total amounts, etc.)
+    /// Get category statistics: totals, monthly history, top merchants and subcategory breakdown
     /// </summary>
     [HttpGet("{id}/statistics")]
-    public async Task<ActionResult<CategoryStatisticsDto>> GetCategoryStatistics(int id)
+    public async Task<ActionResult<CategoryStatisticsDto>> GetCategoryStatistics(int id, [FromQuery] int months = 24)
     {
         try
         {
-            // First check if category exists and user has access
-            var categoryQuery = new GetCategoryQuery
+            var query = new GetCategoryStatisticsQuery
             {
                 CategoryId = id,
-                UserId = _currentUserService.GetUserId()
+                UserId = _currentUserService.GetUserId(),
+                Months = months
             };
 
-            var category = await _mediator.Send(categoryQuery);
-            if (category == null)
+            var statistics = await _mediator.Send(query);
+            if (statistics == null)
             {
                 return NotFound(new { message = "Category not found or you don't have permission to access it." });
             }
 
-            // For now, return basic statistics - this could be expanded with a dedicated query
-            return Ok(new CategoryStatisticsDto
-            {
-                CategoryId = category.Id,
-                CategoryName = category.Name,
-                TransactionCount = 0, // TODO: Implement actual statistics
-                TotalAmount = 0,
-                AverageAmount = 0,
-                LastTransactionDate = null,
-                FirstTransactionDate = null
-            });
+            return Ok(statistics);
         }
         catch (UnauthorizedAccessException ex)
         {
@@ -303,6 +293,89 @@ public class CategoriesController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Preview what merging the source categories into the target would move
+    /// </summary>
+    [HttpPost("merge/preview")]
+    public async Task<ActionResult<CategoryMigrationSummaryDto>> PreviewMergeCategories([FromBody] MergeCategoriesRequest request)
+    {
+        return await RunMigrationAsync(new PreviewCategoryMergeQuery
+        {
+            SourceCategoryIds = request.SourceCategoryIds,
+            TargetCategoryId = request.TargetCategoryId,
+            UserId = _currentUserService.GetUserId()
+        }, "An error occurred while previewing the merge.");
+    }
+
+    /// <summary>
+    /// Merge categories: move transactions, budgets, rules and bank mappings to the target and delete the sources
+    /// </summary>
+    [HttpPost("merge")]
+    public async Task<ActionResult<CategoryMigrationSummaryDto>> MergeCategories([FromBody] MergeCategoriesRequest request)
+    {
+        return await RunMigrationAsync(new MergeCategoriesCommand
+        {
+            SourceCategoryIds = request.SourceCategoryIds,
+            TargetCategoryId = request.TargetCategoryId,
+            UserId = _currentUserService.GetUserId()
+        }, "An error occurred while merging the categories.");
+    }
+
+    /// <summary>
+    /// Preview which transactions splitting a category would move to each target
+    /// </summary>
+    [HttpPost("{id}/split/preview")]
+    public async Task<ActionResult<CategoryMigrationSummaryDto>> PreviewSplitCategory(int id, [FromBody] SplitCategoryRequest request)
+    {
+        return await RunMigrationAsync(new PreviewCategorySplitQuery
+        {
+            CategoryId = id,
+            Targets = request.Targets,
+            UserId = _currentUserService.GetUserId()
+        }, "An error occurred while previewing the split.");
+    }
+
+    /// <summary>
+    /// Split a category by moving selected or pattern-matched transactions to other categories
+    /// </summary>
+    [HttpPost("{id}/split")]
+    public async Task<ActionResult<CategoryMigrationSummaryDto>> SplitCategory(int id, [FromBody] SplitCategoryRequest request)
+    {
+        return await RunMigrationAsync(new SplitCategoryCommand
+        {
+            CategoryId = id,
+            Targets = request.Targets,
+            UserId = _currentUserService.GetUserId()
+        }, "An error occurred while splitting the category.");
+    }
+
+    private async Task<ActionResult<CategoryMigrationSummaryDto>> RunMigrationAsync(
+        IRequest<CategoryMigrationSummaryDto> request,
+        string errorMessage)
+    {
+        try
+        {
+            var summary = await _mediator.Send(request);
+            return Ok(summary);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = errorMessage });
+        }
+    }
+
     /// <summary>
     /// Initialize default categories for the current user with locale support.
     /// </summary>
@@ -0,0 +1,171 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.Commands;
+using MyMascada.Application.Features.Debts.DTOs;
+using MyMascada.Application.Features.Debts.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+/// <summary>
+/// Loan and credit card debts, their interest and repayment terms and the plan to pay them off
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/debts")]
+[Route("api/latest/debts")]
+[Authorize]
+public class DebtsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public DebtsController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get the loan and credit card accounts with a balance owed
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<DebtsResponse>> GetDebts()
+    {
+        try
+        {
+            var debts = await _mediator.Send(new GetDebtsQuery
+            {
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(debts);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving debts." });
+        }
+    }
+
+    /// <summary>
+    /// Set the payoff strategy and the extra amount paid towards debts each month
+    /// </summary>
+    [HttpPut("plan")]
+    public async Task<ActionResult<DebtPayoffPlanDto>> SavePlan([FromBody] SaveDebtPayoffPlanRequest request)
+    {
+        try
+        {
+            var plan = await _mediator.Send(new SaveDebtPayoffPlanCommand
+            {
+                Plan = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(plan);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the payoff plan." });
+        }
+    }
+
+    /// <summary>
+    /// Get an account's balance owed and terms
+    /// </summary>
+    [HttpGet("accounts/{accountId:int}")]
+    public async Task<ActionResult<DebtDto>> GetDebt(int accountId)
+    {
+        try
+        {
+            var debt = await _mediator.Send(new GetDebtQuery
+            {
+                AccountId = accountId,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(debt);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving the debt." });
+        }
+    }
+
+    /// <summary>
+    /// Set the interest rate, minimum payment and term of a loan or credit card account
+    /// </summary>
+    [HttpPut("accounts/{accountId:int}/terms")]
+    public async Task<ActionResult<DebtTermsDto>> SaveTerms(int accountId, [FromBody] SaveDebtTermsRequest request)
+    {
+        try
+        {
+            var terms = await _mediator.Send(new SaveDebtTermsCommand
+            {
+                AccountId = accountId,
+                Terms = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(terms);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the terms." });
+        }
+    }
+
+    /// <summary>
+    /// Remove an account's terms
+    /// </summary>
+    [HttpDelete("accounts/{accountId:int}/terms")]
+    public async Task<IActionResult> DeleteTerms(int accountId)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteDebtTermsCommand
+            {
+                AccountId = accountId,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the terms." });
+        }
+    }
+}
@@ -0,0 +1,148 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.ExchangeRates.Commands;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+using MyMascada.Application.Features.ExchangeRates.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+/// <summary>
+/// Historical exchange rates used to convert totals into the user's base currency
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/exchange-rates")]
+[Route("api/latest/exchange-rates")]
+[Authorize]
+public class ExchangeRatesController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public ExchangeRatesController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get the base currency and all stored exchange rates
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<ExchangeRatesResponse>> GetRates()
+    {
+        try
+        {
+            var rates = await _mediator.Send(new GetExchangeRatesQuery
+            {
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(rates);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving exchange rates." });
+        }
+    }
+
+    /// <summary>
+    /// Add a rate, replacing any rate for the same currency pair and day
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<ExchangeRateDto>> SaveRate([FromBody] SaveExchangeRateRequest request)
+    {
+        try
+        {
+            var rate = await _mediator.Send(new SaveExchangeRateCommand
+            {
+                Rate = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(rate);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the exchange rate." });
+        }
+    }
+
+    /// <summary>
+    /// Load rates from a CSV file with the columns date, from, to, rate
+    /// </summary>
+    [HttpPost("import")]
+    [RequestSizeLimit(5 * 1024 * 1024)]
+    public async Task<ActionResult<ExchangeRateImportResult>> ImportRates([FromForm] IFormFile file)
+    {
+        if (file == null || file.Length == 0)
+        {
+            return BadRequest(new { message = "No file uploaded" });
+        }
+
+        try
+        {
+            await using var content = file.OpenReadStream();
+            var result = await _mediator.Send(new ImportExchangeRatesCommand
+            {
+                Content = content,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while importing exchange rates." });
+        }
+    }
+
+    /// <summary>
+    /// Delete an exchange rate
+    /// </summary>
+    [HttpDelete("{id:int}")]
+    public async Task<IActionResult> DeleteRate(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteExchangeRateCommand
+            {
+                RateId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the exchange rate." });
+        }
+    }
+}
@@ -301,6 +301,155 @@ public class GoalsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Get the contributions ledger of a goal
+    /// </summary>
+    [HttpGet("{id}/contributions")]
+    public async Task<ActionResult<GoalContributionsResponse>> GetGoalContributions(int id)
+    {
+        try
+        {
+            var query = new GetGoalContributionsQuery
+            {
+                GoalId = id,
+                UserId = _currentUserService.GetUserId()
+            };
+
+            var result = await _mediator.Send(query);
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving goal contributions." });
+        }
+    }
+
+    /// <summary>
+    /// Record a manual contribution to (or withdrawal from) a goal
+    /// </summary>
+    [HttpPost("{id}/contributions")]
+    public async Task<ActionResult<GoalContributionDto>> AddGoalContribution(int id, [FromBody] SaveGoalContributionRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ModelState);
+            }
+
+            var command = new AddGoalContributionCommand
+            {
+                GoalId = id,
+                Contribution = request,
+                UserId = _currentUserService.GetUserId()
+            };
+
+            var contribution = await _mediator.Send(command);
+            return Ok(contribution);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while recording the contribution." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a manual contribution
+    /// </summary>
+    [HttpDelete("{id}/contributions/{contributionId}")]
+    public async Task<IActionResult> DeleteGoalContribution(int id, int contributionId)
+    {
+        try
+        {
+            var command = new DeleteGoalContributionCommand
+            {
+                GoalId = id,
+                ContributionId = contributionId,
+                UserId = _currentUserService.GetUserId()
+            };
+
+            await _mediator.Send(command);
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the contribution." });
+        }
+    }
+
+    /// <summary>
+    /// Set the tag and wallet whose transactions and allocations count towards a goal
+    /// </summary>
+    [HttpPut("{id}/contribution-sources")]
+    public async Task<IActionResult> UpdateGoalContributionSources(int id, [FromBody] UpdateGoalContributionSourcesRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ModelState);
+            }
+
+            var command = new UpdateGoalContributionSourcesCommand
+            {
+                GoalId = id,
+                Sources = request,
+                UserId = _currentUserService.GetUserId()
+            };
+
+            await _mediator.Send(command);
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while updating the contribution sources." });
+        }
+    }
+
     /// <summary>
     /// Get emergency fund analysis for a specific goal
     /// </summary>
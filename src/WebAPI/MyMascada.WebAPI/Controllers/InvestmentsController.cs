@@ -0,0 +1,240 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.Commands;
+using MyMascada.Application.Features.Investments.DTOs;
+using MyMascada.Application.Features.Investments.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+/// <summary>
+/// Investment account holdings, their buy, sell and dividend trades, and security prices
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/investments")]
+[Route("api/latest/investments")]
+[Authorize]
+public class InvestmentsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public InvestmentsController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get an investment account's holdings, gains, allocation and time-weighted return
+    /// </summary>
+    [HttpGet("accounts/{accountId:int}/portfolio")]
+    public async Task<ActionResult<PortfolioResponse>> GetPortfolio(int accountId)
+    {
+        try
+        {
+            var portfolio = await _mediator.Send(new GetPortfolioQuery
+            {
+                AccountId = accountId,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(portfolio);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving the portfolio." });
+        }
+    }
+
+    /// <summary>
+    /// Record a buy, sell or dividend along with the cash transaction it made
+    /// </summary>
+    [HttpPost("trades")]
+    public async Task<ActionResult<InvestmentTradeDto>> AddTrade([FromBody] SaveInvestmentTradeRequest request)
+    {
+        try
+        {
+            var trade = await _mediator.Send(new AddInvestmentTradeCommand
+            {
+                Trade = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(trade);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while recording the trade." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a trade and its cash transaction
+    /// </summary>
+    [HttpDelete("trades/{id:int}")]
+    public async Task<IActionResult> DeleteTrade(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteInvestmentTradeCommand
+            {
+                TradeId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the trade." });
+        }
+    }
+
+    /// <summary>
+    /// Get stored security prices, optionally for one symbol
+    /// </summary>
+    [HttpGet("prices")]
+    public async Task<ActionResult<List<SecurityPriceDto>>> GetPrices([FromQuery] string? symbol = null)
+    {
+        try
+        {
+            var prices = await _mediator.Send(new GetSecurityPricesQuery
+            {
+                Symbol = symbol,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(prices);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving security prices." });
+        }
+    }
+
+    /// <summary>
+    /// Add a price for a symbol on a day, replacing any price for the same day
+    /// </summary>
+    [HttpPost("prices")]
+    public async Task<ActionResult<SecurityPriceDto>> SavePrice([FromBody] SaveSecurityPriceRequest request)
+    {
+        try
+        {
+            var price = await _mediator.Send(new SaveSecurityPriceCommand
+            {
+                Price = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(price);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the price." });
+        }
+    }
+
+    /// <summary>
+    /// Load prices from a CSV file (date, symbol, price) or a JSON quotes file
+    /// </summary>
+    [HttpPost("prices/import")]
+    [RequestSizeLimit(5 * 1024 * 1024)]
+    public async Task<ActionResult<SecurityPriceImportResult>> ImportPrices([FromForm] IFormFile file)
+    {
+        if (file == null || file.Length == 0)
+        {
+            return BadRequest(new { message = "No file uploaded" });
+        }
+
+        try
+        {
+            await using var content = file.OpenReadStream();
+            var result = await _mediator.Send(new ImportSecurityPricesCommand
+            {
+                Content = content,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while importing security prices." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a security price
+    /// </summary>
+    [HttpDelete("prices/{id:int}")]
+    public async Task<IActionResult> DeletePrice(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteSecurityPriceCommand
+            {
+                PriceId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the price." });
+        }
+    }
+}
@@ -0,0 +1,142 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.Commands;
+using MyMascada.Application.Features.NetWorth.DTOs;
+using MyMascada.Application.Features.NetWorth.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+/// <summary>
+/// Net worth history from month-end account balances, and manual account valuations
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/net-worth")]
+[Route("api/latest/net-worth")]
+[Authorize]
+public class NetWorthController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public NetWorthController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get month-end net worth snapshots for the last given number of months
+    /// </summary>
+    [HttpGet("history")]
+    public async Task<ActionResult<NetWorthHistoryResponse>> GetHistory([FromQuery] int months = 12)
+    {
+        try
+        {
+            var history = await _mediator.Send(new GetNetWorthHistoryQuery
+            {
+                UserId = _currentUserService.GetUserId(),
+                Months = months
+            });
+            return Ok(history);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving net worth history." });
+        }
+    }
+
+    /// <summary>
+    /// Get manual valuations, optionally for one account
+    /// </summary>
+    [HttpGet("valuations")]
+    public async Task<ActionResult<List<AccountValuationDto>>> GetValuations([FromQuery] int? accountId = null)
+    {
+        try
+        {
+            var valuations = await _mediator.Send(new GetAccountValuationsQuery
+            {
+                UserId = _currentUserService.GetUserId(),
+                AccountId = accountId
+            });
+            return Ok(valuations);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving account valuations." });
+        }
+    }
+
+    /// <summary>
+    /// Record what an account is worth on a day, replacing any valuation for the same day
+    /// </summary>
+    [HttpPost("valuations")]
+    public async Task<ActionResult<AccountValuationDto>> SaveValuation([FromBody] SaveAccountValuationRequest request)
+    {
+        try
+        {
+            var valuation = await _mediator.Send(new SaveAccountValuationCommand
+            {
+                Valuation = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(valuation);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the valuation." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a valuation
+    /// </summary>
+    [HttpDelete("valuations/{id:int}")]
+    public async Task<IActionResult> DeleteValuation(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteAccountValuationCommand
+            {
+                ValuationId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the valuation." });
+        }
+    }
+}
@@ -0,0 +1,95 @@
+using Asp.Versioning;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Http.Features;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
+
+namespace MyMascada.WebAPI.Controllers;
+
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/[controller]")]
+[Route("api/latest/[controller]")]
+[Authorize]
+public class RealtimeController : ControllerBase
+{
+    // Comment lines sent while idle so proxies don't close the connection
+    private static readonly TimeSpan KeepAliveInterval = TimeSpan.FromSeconds(25);
+
+    private readonly IRealtimeEventStream _eventStream;
+    private readonly ICurrentUserService _currentUserService;
+
+    public RealtimeController(IRealtimeEventStream eventStream, ICurrentUserService currentUserService)
+    {
+        _eventStream = eventStream;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Streams the current user's notification, bank sync job and chat events as server-sent
+    /// events until the client disconnects. A Last-Event-ID header replays recent events the
+    /// client missed while reconnecting.
+    /// </summary>
+    [HttpGet("events")]
+    public async Task StreamEvents([FromHeader(Name = "Last-Event-ID")] string? lastEventId = null)
+    {
+        var userId = _currentUserService.GetUserId();
+        var cancellationToken = HttpContext.RequestAborted;
+
+        Response.Headers.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        Response.Headers["X-Accel-Buffering"] = "no";
+        HttpContext.Features.Get<IHttpResponseBodyFeature>()?.DisableBuffering();
+
+        using var subscription = _eventStream.Subscribe(
+            userId,
+            long.TryParse(lastEventId, out var parsedId) ? parsedId : null);
+
+        try
+        {
+            // Sends the headers right away so the client knows the stream is open
+            await Response.WriteAsync(": connected\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+
+            while (!cancellationToken.IsCancellationRequested)
+            {
+                using var keepAlive = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                keepAlive.CancelAfter(KeepAliveInterval);
+
+                bool hasEvents;
+                try
+                {
+                    hasEvents = await subscription.Events.WaitToReadAsync(keepAlive.Token);
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await Response.WriteAsync(": keep-alive\n\n", cancellationToken);
+                    await Response.Body.FlushAsync(cancellationToken);
+                    continue;
+                }
+
+                if (!hasEvents)
+                {
+                    break;
+                }
+
+                while (subscription.Events.TryRead(out var realtimeEvent))
+                {
+                    await Response.WriteAsync(Format(realtimeEvent), cancellationToken);
+                }
+
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // The client disconnected
+        }
+    }
+
+    private static string Format(RealtimeEvent realtimeEvent)
+    {
+        return $"id: {realtimeEvent.Id}\nevent: {realtimeEvent.Type}\ndata: {realtimeEvent.Data}\n\n";
+    }
+}
@@ -0,0 +1,171 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.RecurringSchedules.Commands;
+using MyMascada.Application.Features.RecurringSchedules.DTOs;
+using MyMascada.Application.Features.RecurringSchedules.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/recurring-schedules")]
+[Route("api/latest/recurring-schedules")]
+[Authorize]
+public class RecurringSchedulesController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public RecurringSchedulesController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get all recurring schedules for the current user
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IReadOnlyList<RecurringScheduleDto>>> GetSchedules()
+    {
+        try
+        {
+            var schedules = await _mediator.Send(new GetRecurringSchedulesQuery
+            {
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(schedules);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving recurring schedules." });
+        }
+    }
+
+    /// <summary>
+    /// Create a recurring schedule
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<RecurringScheduleDto>> CreateSchedule([FromBody] SaveRecurringScheduleRequest request)
+    {
+        try
+        {
+            var schedule = await _mediator.Send(new CreateRecurringScheduleCommand
+            {
+                Schedule = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(schedule);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while creating the recurring schedule." });
+        }
+    }
+
+    /// <summary>
+    /// Update a recurring schedule
+    /// </summary>
+    [HttpPut("{id:int}")]
+    public async Task<ActionResult<RecurringScheduleDto>> UpdateSchedule(int id, [FromBody] SaveRecurringScheduleRequest request)
+    {
+        try
+        {
+            var schedule = await _mediator.Send(new UpdateRecurringScheduleCommand
+            {
+                ScheduleId = id,
+                Schedule = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(schedule);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while updating the recurring schedule." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a recurring schedule
+    /// </summary>
+    [HttpDelete("{id:int}")]
+    public async Task<IActionResult> DeleteSchedule(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteRecurringScheduleCommand
+            {
+                ScheduleId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the recurring schedule." });
+        }
+    }
+
+    /// <summary>
+    /// Bill calendar: scheduled and inferred payments between two dates
+    /// </summary>
+    [HttpGet("calendar")]
+    public async Task<ActionResult<RecurringCalendarDto>> GetCalendar(
+        [FromQuery] DateTime startDate,
+        [FromQuery] DateTime endDate)
+    {
+        try
+        {
+            var calendar = await _mediator.Send(new GetRecurringCalendarQuery
+            {
+                StartDate = startDate,
+                EndDate = endDate,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(calendar);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while building the bill calendar." });
+        }
+    }
+}
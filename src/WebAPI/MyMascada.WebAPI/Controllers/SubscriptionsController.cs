@@ -0,0 +1,85 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Subscriptions.Commands;
+using MyMascada.Application.Features.Subscriptions.DTOs;
+using MyMascada.Application.Features.Subscriptions.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+/// <summary>
+/// Recurring charges detected from transaction history, with cancellation tracking.
+/// Not to be confused with the billing plan endpoints.
+/// </summary>
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/subscriptions")]
+[Route("api/latest/subscriptions")]
+[Authorize]
+public class SubscriptionsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public SubscriptionsController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get every detected subscription with annualized cost and price-change history
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<SubscriptionsResponse>> GetSubscriptions()
+    {
+        try
+        {
+            var subscriptions = await _mediator.Send(new GetSubscriptionsQuery
+            {
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(subscriptions);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving subscriptions." });
+        }
+    }
+
+    /// <summary>
+    /// Update the cancellation status and last-used notes of a subscription
+    /// </summary>
+    [HttpPut("{patternId:int}")]
+    public async Task<ActionResult<SubscriptionDto>> UpdateSubscription(int patternId, [FromBody] UpdateSubscriptionRequest request)
+    {
+        try
+        {
+            var subscription = await _mediator.Send(new UpdateSubscriptionCommand
+            {
+                PatternId = patternId,
+                Subscription = request,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(subscription);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while updating the subscription." });
+        }
+    }
+}
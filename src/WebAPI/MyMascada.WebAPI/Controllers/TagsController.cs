@@ -0,0 +1,178 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Tags.Commands;
+using MyMascada.Application.Features.Tags.DTOs;
+using MyMascada.Application.Features.Tags.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}/[controller]")]
+[Route("api/latest/[controller]")]
+[Authorize]
+public class TagsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public TagsController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// Get all tags for the current user with usage counts
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IReadOnlyList<TagDto>>> GetTags()
+    {
+        try
+        {
+            var tags = await _mediator.Send(new GetTagsQuery
+            {
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(tags);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving tags." });
+        }
+    }
+
+    /// <summary>
+    /// Create a tag or update the color of an existing one
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<TagDto>> SaveTag([FromBody] SaveTagRequest request)
+    {
+        try
+        {
+            var tag = await _mediator.Send(new SaveTagCommand
+            {
+                Name = request.Name,
+                Color = request.Color,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(tag);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while saving the tag." });
+        }
+    }
+
+    /// <summary>
+    /// Rename a tag on every transaction and rule that uses it
+    /// </summary>
+    [HttpPost("rename")]
+    public async Task<ActionResult<TagChangeResultDto>> RenameTag([FromBody] RenameTagRequest request)
+    {
+        try
+        {
+            var result = await _mediator.Send(new RenameTagCommand
+            {
+                Name = request.Name,
+                NewName = request.NewName,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while renaming the tag." });
+        }
+    }
+
+    /// <summary>
+    /// Delete a tag and remove it from transactions and rules
+    /// </summary>
+    [HttpDelete]
+    public async Task<ActionResult<TagChangeResultDto>> DeleteTag([FromQuery] string name)
+    {
+        try
+        {
+            var result = await _mediator.Send(new DeleteTagCommand
+            {
+                Name = name,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the tag." });
+        }
+    }
+
+    /// <summary>
+    /// Spending per tag across categories and months
+    /// </summary>
+    [HttpGet("spending")]
+    public async Task<ActionResult<TagSpendingReportDto>> GetTagSpending(
+        [FromQuery] DateTime startDate,
+        [FromQuery] DateTime endDate,
+        [FromQuery] List<string>? tags = null)
+    {
+        try
+        {
+            var report = await _mediator.Send(new GetTagSpendingReportQuery
+            {
+                StartDate = startDate,
+                EndDate = endDate,
+                Tags = tags ?? new List<string>(),
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(report);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { message = "An error occurred while building the tag report." });
+        }
+    }
+}
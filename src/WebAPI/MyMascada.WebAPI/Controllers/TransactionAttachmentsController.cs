@@ -0,0 +1,157 @@
+using Asp.Versioning;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.Commands;
+using MyMascada.Application.Features.Attachments.DTOs;
+using MyMascada.Application.Features.Attachments.Queries;
+
+namespace MyMascada.WebAPI.Controllers;
+
+[ApiController]
+[ApiVersion("1.0")]
+[Route("api/v{version:apiVersion}")]
+[Route("api/latest")]
+[Authorize]
+public class TransactionAttachmentsController : ControllerBase
+{
+    private readonly IMediator _mediator;
+    private readonly ICurrentUserService _currentUserService;
+
+    public TransactionAttachmentsController(IMediator mediator, ICurrentUserService currentUserService)
+    {
+        _mediator = mediator;
+        _currentUserService = currentUserService;
+    }
+
+    /// <summary>
+    /// List the receipts and documents attached to a transaction
+    /// </summary>
+    [HttpGet("transactions/{transactionId}/attachments")]
+    public async Task<ActionResult<IReadOnlyList<TransactionAttachmentDto>>> GetAttachments(int transactionId)
+    {
+        try
+        {
+            var attachments = await _mediator.Send(new GetTransactionAttachmentsQuery
+            {
+                TransactionId = transactionId,
+                UserId = _currentUserService.GetUserId()
+            });
+            return Ok(attachments);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception)
+        {
+            return StatusCode(500, new { message = "An error occurred while retrieving attachments." });
+        }
+    }
+
+    /// <summary>
+    /// Upload a photo or PDF and attach it to a transaction
+    /// </summary>
+    [HttpPost("transactions/{transactionId}/attachments")]
+    [RequestSizeLimit(50 * 1024 * 1024)]
+    public async Task<ActionResult<TransactionAttachmentDto>> UploadAttachment(int transactionId, [FromForm] IFormFile file)
+    {
+        if (file == null || file.Length == 0)
+        {
+            return BadRequest(new { message = "No file uploaded" });
+        }
+
+        try
+        {
+            await using var content = file.OpenReadStream();
+            var attachment = await _mediator.Send(new UploadTransactionAttachmentCommand
+            {
+                TransactionId = transactionId,
+                UserId = _currentUserService.GetUserId(),
+                FileName = file.FileName,
+                ContentType = file.ContentType,
+                SizeBytes = file.Length,
+                Content = content
+            });
+            return Ok(attachment);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception)
+        {
+            return StatusCode(500, new { message = "An error occurred while uploading the attachment." });
+        }
+    }
+
+    /// <summary>
+    /// Download an attachment's file
+    /// </summary>
+    [HttpGet("attachments/{id}/content")]
+    public async Task<IActionResult> GetAttachmentContent(int id)
+    {
+        try
+        {
+            var attachment = await _mediator.Send(new GetAttachmentContentQuery
+            {
+                AttachmentId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+
+            if (attachment == null)
+            {
+                return NotFound(new { message = "Attachment not found." });
+            }
+
+            // The stream is disposed by the FileStreamResult once the response is written
+            return File(attachment.Content, attachment.ContentType, attachment.FileName);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception)
+        {
+            return StatusCode(500, new { message = "An error occurred while downloading the attachment." });
+        }
+    }
+
+    /// <summary>
+    /// Remove an attachment and delete its file
+    /// </summary>
+    [HttpDelete("attachments/{id}")]
+    public async Task<IActionResult> DeleteAttachment(int id)
+    {
+        try
+        {
+            await _mediator.Send(new DeleteTransactionAttachmentCommand
+            {
+                AttachmentId = id,
+                UserId = _currentUserService.GetUserId()
+            });
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (Exception)
+        {
+            return StatusCode(500, new { message = "An error occurred while deleting the attachment." });
+        }
+    }
+}
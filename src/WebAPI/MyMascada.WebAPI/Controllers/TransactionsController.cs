@@ -41,6 +41,8 @@ public class TransactionsController : ControllerBase
         [FromQuery] decimal? maxAmount = null,
         [FromQuery] TransactionStatus? status = null,
         [FromQuery] string? searchTerm = null,
+        [FromQuery] string? tag = null,
+        [FromQuery] bool? hasAttachments = null,
         [FromQuery] bool? isReviewed = null,
         [FromQuery] bool? isReconciled = null,
         [FromQuery] bool? isExcluded = null,
@@ -65,6 +67,8 @@ public class TransactionsController : ControllerBase
             MaxAmount = maxAmount,
             Status = status,
             SearchTerm = searchTerm,
+            Tag = tag,
+            HasAttachments = hasAttachments,
             IsReviewed = isReviewed,
             IsReconciled = isReconciled,
             IsExcluded = isExcluded,
@@ -100,7 +104,9 @@ public class TransactionsController : ControllerBase
     }
 
     [HttpPost]
-    public async Task<ActionResult<TransactionDto>> CreateTransaction([FromBody] CreateTransactionRequest request)
+    public async Task<ActionResult<TransactionDto>> CreateTransaction(
+        [FromBody] CreateTransactionRequest request,
+        [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey = null)
     {
         var command = new CreateTransactionCommand
         {
@@ -114,7 +120,9 @@ public class TransactionsController : ControllerBase
             Location = request.Location,
             Tags = request.Tags,
             AccountId = request.AccountId,
-            CategoryId = request.CategoryId
+            CategoryId = request.CategoryId,
+            Splits = request.Splits,
+            IdempotencyToken = idempotencyKey
         };
 
         try
@@ -176,7 +184,8 @@ public class TransactionsController : ControllerBase
             Notes = request.Notes,
             Location = request.Location,
             Tags = request.Tags,
-            CategoryId = request.CategoryId
+            CategoryId = request.CategoryId,
+            Splits = request.Splits
         };
 
         try
@@ -334,6 +343,33 @@ public class TransactionsController : ControllerBase
         }
     }
 
+    [HttpPost("bulk-tags")]
+    public async Task<ActionResult<BulkUpdateTagsResponse>> BulkUpdateTags([FromBody] BulkUpdateTagsRequest request)
+    {
+        var command = new BulkUpdateTagsCommand
+        {
+            UserId = _currentUserService.GetUserId(),
+            TransactionIds = request.TransactionIds,
+            AddTags = request.AddTags,
+            RemoveTags = request.RemoveTags
+        };
+
+        try
+        {
+            var result = await _mediator.Send(command);
+            return Ok(result);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized bulk tag update attempt for user {UserId}", _currentUserService.GetUserId());
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to update one or more selected transactions." });
+        }
+    }
+
     [HttpGet("description-suggestions")]
     public async Task<ActionResult<IEnumerable<string>>> GetDescriptionSuggestions([FromQuery] string? q = null, [FromQuery] int limit = 10)
     {
@@ -469,7 +505,8 @@ public class TransactionsController : ControllerBase
             Notes = request.Notes,
             TransactionDate = request.TransactionDate?.Kind == DateTimeKind.Unspecified 
                 ? DateTime.SpecifyKind(request.TransactionDate.Value, DateTimeKind.Utc) 
-                : request.TransactionDate
+                : request.TransactionDate,
+            MissingAmount = request.MissingAmount
         };
 
         try
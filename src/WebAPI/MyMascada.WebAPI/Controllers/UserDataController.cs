@@ -1,5 +1,3 @@
-using System.Text;
-using System.Text.Json;
 using Asp.Versioning;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
@@ -38,12 +36,14 @@ public class UserDataController : ControllerBase
 
     /// <summary>
     /// Export all user data for LGPD/GDPR Article 20 compliance (right to data portability).
-    /// Returns a JSON file containing all personal data associated with the user account.
+    /// Returns a zip archive with a data.json file containing all personal data associated with
+    /// the user account, plus every attached receipt and document under attachments/.
     /// </summary>
-    /// <returns>JSON file with all user data</returns>
+    /// <returns>Zip archive with all user data</returns>
     [HttpGet("export")]
     [EnableRateLimiting("standard")]
-    [ProducesResponseType(typeof(UserDataExportDto), StatusCodes.Status200OK)]
+    [Produces("application/zip")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     [ProducesResponseType(StatusCodes.Status500InternalServerError)]
     public async Task<IActionResult> ExportUserData()
@@ -53,26 +53,15 @@ public class UserDataController : ControllerBase
 
         try
         {
-            var query = new ExportUserDataQuery { UserId = userId };
-            var result = await _mediator.Send(query);
-
-            // Serialize with pretty printing for human readability
-            var options = new JsonSerializerOptions
-            {
-                WriteIndented = true,
-                PropertyNamingPolicy = JsonNamingPolicy.CamelCase
-            };
-
-            var jsonContent = JsonSerializer.Serialize(result, options);
-            var bytes = Encoding.UTF8.GetBytes(jsonContent);
+            var query = new ExportUserDataArchiveQuery { UserId = userId };
+            var archive = await _mediator.Send(query);
 
-            var fileName = $"mymascada-data-export-{DateTime.UtcNow:yyyy-MM-dd}.json";
+            var fileName = $"mymascada-data-export-{DateTime.UtcNow:yyyy-MM-dd}.zip";
 
-            _logger.LogInformation(
-                "Data export completed for user {UserId}: {Size} bytes, {Accounts} accounts, {Transactions} transactions",
-                userId, bytes.Length, result.Summary.TotalAccounts, result.Summary.TotalTransactions);
+            _logger.LogInformation("Data export completed for user {UserId}: {Size} bytes", userId, archive.Length);
 
-            return File(bytes, "application/json", fileName);
+            // The file result disposes the archive stream once it has been sent
+            return File(archive, "application/zip", fileName);
         }
         catch (Exception ex)
         {
@@ -35,6 +35,7 @@ public static class ApplicationServiceExtensions
         services.AddScoped<ITransactionQueryService, MyMascada.Infrastructure.Services.TransactionQueryService>();
         services.AddScoped<MyMascada.Application.Features.Transactions.Services.TransactionReviewService>();
         services.AddScoped<MyMascada.Application.Features.Transactions.Services.TransactionDuplicateChecker>();
+        services.AddScoped<MyMascada.Application.Features.Transactions.Services.TransactionSplitService>();
 
         // Authentication services
         services.AddScoped<IAuthenticationService, AuthenticationService>();
@@ -98,6 +99,45 @@ public static class ApplicationServiceExtensions
         services.AddScoped<IUserDataExportService, UserDataExportService>();
         services.AddScoped<IUserDataDeletionService, UserDataDeletionService>();
 
+        // Category merge/split
+        services.AddScoped<ICategoryMigrationService,
+            MyMascada.Infrastructure.Services.Categories.CategoryMigrationService>();
+
+        // Tag management and tag reports
+        services.AddScoped<ITagService, MyMascada.Infrastructure.Services.Tags.TagService>();
+
+        // Receipts and documents attached to transactions
+        services.AddScoped<ITransactionAttachmentService,
+            MyMascada.Infrastructure.Services.Attachments.TransactionAttachmentService>();
+
+        // User-defined recurring schedules and the bill calendar
+        services.AddScoped<IRecurringScheduleService,
+            MyMascada.Infrastructure.Services.RecurringSchedules.RecurringScheduleService>();
+
+        // Subscriptions detected from recurring patterns and cancellation tracking
+        services.AddScoped<ISubscriptionTrackerService,
+            MyMascada.Infrastructure.Services.Subscriptions.SubscriptionTrackerService>();
+
+        // Exchange rates and base-currency conversion
+        services.AddScoped<IExchangeRateService,
+            MyMascada.Infrastructure.Services.ExchangeRates.ExchangeRateService>();
+
+        // Net worth history and manual account valuations
+        services.AddScoped<INetWorthService,
+            MyMascada.Infrastructure.Services.NetWorth.NetWorthService>();
+
+        // Investment holdings, trades and security prices
+        services.AddScoped<IInvestmentService,
+            MyMascada.Infrastructure.Services.Investments.InvestmentService>();
+
+        // Loan and credit card terms for amortization and payoff planning
+        services.AddScoped<IDebtService,
+            MyMascada.Infrastructure.Services.Debts.DebtService>();
+
+        // Goal contributions from manual entries, tagged transactions and wallet allocations
+        services.AddScoped<IGoalContributionService,
+            MyMascada.Infrastructure.Services.Goals.GoalContributionService>();
+
         // Budget services
         services.AddScoped<MyMascada.Application.Features.Budgets.Services.IBudgetCalculationService,
             MyMascada.Application.Features.Budgets.Services.BudgetCalculationService>();
@@ -114,6 +154,13 @@ public static class ApplicationServiceExtensions
         services.AddScoped<INotificationService, MyMascada.Infrastructure.Services.Notifications.NotificationService>();
         services.AddScoped<INotificationTriggerService, MyMascada.Infrastructure.Services.Notifications.NotificationTriggerService>();
 
+        // Realtime event stream: one in-process broker behind both the publisher and the stream
+        services.AddSingleton<MyMascada.Infrastructure.Services.Realtime.RealtimeEventBroker>();
+        services.AddSingleton<IRealtimeEventPublisher>(sp =>
+            sp.GetRequiredService<MyMascada.Infrastructure.Services.Realtime.RealtimeEventBroker>());
+        services.AddSingleton<IRealtimeEventStream>(sp =>
+            sp.GetRequiredService<MyMascada.Infrastructure.Services.Realtime.RealtimeEventBroker>());
+
         return services;
     }
 }
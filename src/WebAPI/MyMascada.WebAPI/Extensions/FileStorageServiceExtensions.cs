@@ -0,0 +1,30 @@
+using MyMascada.Application.Common.Configuration;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Infrastructure.Services.Storage;
+
+namespace MyMascada.WebAPI.Extensions;
+
+/// <summary>
+/// Extension methods for registering the file storage backend used for attachments.
+/// </summary>
+public static class FileStorageServiceExtensions
+{
+    public static IServiceCollection AddFileStorageServices(this IServiceCollection services, IConfiguration configuration)
+    {
+        var section = configuration.GetSection(FileStorageOptions.SectionName);
+        services.Configure<FileStorageOptions>(section);
+
+        var provider = section.GetValue<string>(nameof(FileStorageOptions.Provider)) ?? "local";
+        switch (provider.ToLowerInvariant())
+        {
+            case "local":
+                services.AddSingleton<IFileStorageService, LocalFileStorageService>();
+                break;
+            default:
+                throw new InvalidOperationException(
+                    $"Unknown file storage provider '{provider}'. Supported providers: local.");
+        }
+
+        return services;
+    }
+}
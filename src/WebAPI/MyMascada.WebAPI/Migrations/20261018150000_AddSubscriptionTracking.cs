@@ -0,0 +1,60 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MyMascada.WebAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSubscriptionTracking : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "CancellationStatus",
+                table: "RecurringPatterns",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CancellationStatusChangedAt",
+                table: "RecurringPatterns",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ChargedAfterCancellationAt",
+                table: "RecurringPatterns",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LastUsedAt",
+                table: "RecurringPatterns",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CancellationStatus",
+                table: "RecurringPatterns");
+
+            migrationBuilder.DropColumn(
+                name: "CancellationStatusChangedAt",
+                table: "RecurringPatterns");
+
+            migrationBuilder.DropColumn(
+                name: "ChargedAfterCancellationAt",
+                table: "RecurringPatterns");
+
+            migrationBuilder.DropColumn(
+                name: "LastUsedAt",
+                table: "RecurringPatterns");
+        }
+    }
+}
@@ -0,0 +1,105 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace MyMascada.WebAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddGoalContributions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "ContributionTag",
+                table: "Goals",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "WalletId",
+                table: "Goals",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "GoalContributions",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    GoalId = table.Column<int>(type: "integer", nullable: false),
+                    Amount = table.Column<decimal>(type: "numeric(18,2)", precision: 18, scale: 2, nullable: false),
+                    ContributionDate = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    Note = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "boolean", nullable: false),
+                    DeletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedBy = table.Column<string>(type: "text", nullable: true),
+                    UpdatedBy = table.Column<string>(type: "text", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_GoalContributions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_GoalContributions_Goals_GoalId",
+                        column: x => x.GoalId,
+                        principalTable: "Goals",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Goals_WalletId",
+                table: "Goals",
+                column: "WalletId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_GoalContributions_GoalId_ContributionDate",
+                table: "GoalContributions",
+                columns: new[] { "GoalId", "ContributionDate" });
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Goals_Wallets_WalletId",
+                table: "Goals",
+                column: "WalletId",
+                principalTable: "Wallets",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+
+            // Progress entered before the ledger becomes its opening contribution, so the current
+            // amount of goals without a linked account stays the sum of their contributions
+            migrationBuilder.Sql(
+                "INSERT INTO \"GoalContributions\" (\"GoalId\", \"Amount\", \"ContributionDate\", \"Note\", \"CreatedAt\", \"UpdatedAt\", \"IsDeleted\") " +
+                "SELECT \"Id\", \"CurrentAmount\", date_trunc('day', \"CreatedAt\" AT TIME ZONE 'UTC') AT TIME ZONE 'UTC', 'Progress recorded before contributions were tracked', now(), now(), false " +
+                "FROM \"Goals\" WHERE \"LinkedAccountId\" IS NULL AND \"CurrentAmount\" <> 0 AND \"IsDeleted\" = false");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Goals_Wallets_WalletId",
+                table: "Goals");
+
+            migrationBuilder.DropTable(
+                name: "GoalContributions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Goals_WalletId",
+                table: "Goals");
+
+            migrationBuilder.DropColumn(
+                name: "ContributionTag",
+                table: "Goals");
+
+            migrationBuilder.DropColumn(
+                name: "WalletId",
+                table: "Goals");
+        }
+    }
+}
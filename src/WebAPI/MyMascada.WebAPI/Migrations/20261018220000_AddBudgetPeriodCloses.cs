@@ -0,0 +1,108 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace MyMascada.WebAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBudgetPeriodCloses : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "BudgetPeriodCloses",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    UserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    SourceBudgetId = table.Column<int>(type: "integer", nullable: false),
+                    SourceBudgetName = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    PeriodStartDate = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    PeriodEndDate = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    NewBudgetId = table.Column<int>(type: "integer", nullable: true),
+                    ClosedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "boolean", nullable: false),
+                    DeletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedBy = table.Column<string>(type: "text", nullable: true),
+                    UpdatedBy = table.Column<string>(type: "text", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BudgetPeriodCloses", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BudgetPeriodCloses_Budgets_SourceBudgetId",
+                        column: x => x.SourceBudgetId,
+                        principalTable: "Budgets",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "BudgetPeriodCloseCategories",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    BudgetPeriodCloseId = table.Column<int>(type: "integer", nullable: false),
+                    CategoryId = table.Column<int>(type: "integer", nullable: false),
+                    CategoryName = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    CalculatedAmount = table.Column<decimal>(type: "numeric(18,2)", precision: 18, scale: 2, nullable: false),
+                    CarriedAmount = table.Column<decimal>(type: "numeric(18,2)", precision: 18, scale: 2, nullable: false),
+                    Overridden = table.Column<bool>(type: "boolean", nullable: false),
+                    Reason = table.Column<int>(type: "integer", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "boolean", nullable: false),
+                    DeletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedBy = table.Column<string>(type: "text", nullable: true),
+                    UpdatedBy = table.Column<string>(type: "text", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BudgetPeriodCloseCategories", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BudgetPeriodCloseCategories_BudgetPeriodCloses_BudgetPeriodCloseId",
+                        column: x => x.BudgetPeriodCloseId,
+                        principalTable: "BudgetPeriodCloses",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BudgetPeriodCloseCategories_BudgetPeriodCloseId",
+                table: "BudgetPeriodCloseCategories",
+                column: "BudgetPeriodCloseId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BudgetPeriodCloses_NewBudgetId",
+                table: "BudgetPeriodCloses",
+                column: "NewBudgetId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BudgetPeriodCloses_SourceBudgetId",
+                table: "BudgetPeriodCloses",
+                column: "SourceBudgetId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BudgetPeriodCloses_UserId_ClosedAt",
+                table: "BudgetPeriodCloses",
+                columns: new[] { "UserId", "ClosedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BudgetPeriodCloseCategories");
+
+            migrationBuilder.DropTable(
+                name: "BudgetPeriodCloses");
+        }
+    }
+}
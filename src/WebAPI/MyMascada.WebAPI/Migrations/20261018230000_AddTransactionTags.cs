@@ -0,0 +1,99 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace MyMascada.WebAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTransactionTags : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "TransactionTags",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    TransactionId = table.Column<int>(type: "integer", nullable: false),
+                    TagId = table.Column<int>(type: "integer", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "boolean", nullable: false),
+                    DeletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedBy = table.Column<string>(type: "text", nullable: true),
+                    UpdatedBy = table.Column<string>(type: "text", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_TransactionTags", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_TransactionTags_Tags_TagId",
+                        column: x => x.TagId,
+                        principalTable: "Tags",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_TransactionTags_Transactions_TransactionId",
+                        column: x => x.TransactionId,
+                        principalTable: "Transactions",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TransactionTags_TagId",
+                table: "TransactionTags",
+                column: "TagId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TransactionTags_TransactionId_TagId",
+                table: "TransactionTags",
+                columns: new[] { "TransactionId", "TagId" },
+                unique: true,
+                filter: "\"IsDeleted\" = false");
+
+            // Give every name already used on a transaction a tag owned by the account's user
+            migrationBuilder.Sql("""
+                INSERT INTO "Tags" ("UserId", "Name", "CreatedAt", "UpdatedAt", "IsDeleted")
+                SELECT DISTINCT ON (a."UserId", lower(trim(n.name))) a."UserId", trim(n.name), now(), now(), false
+                FROM "Transactions" t
+                JOIN "Accounts" a ON a."Id" = t."AccountId"
+                CROSS JOIN LATERAL unnest(string_to_array(t."Tags", ',')) AS n(name)
+                WHERE t."Tags" IS NOT NULL
+                  AND trim(n.name) <> ''
+                  AND length(trim(n.name)) <= 50
+                  AND NOT EXISTS (
+                      SELECT 1 FROM "Tags" g
+                      WHERE g."UserId" = a."UserId"
+                        AND lower(g."Name") = lower(trim(n.name))
+                        AND g."IsDeleted" = false)
+                ORDER BY a."UserId", lower(trim(n.name)), trim(n.name);
+                """);
+
+            // Link each transaction to the tags named in its comma-separated list
+            migrationBuilder.Sql("""
+                INSERT INTO "TransactionTags" ("TransactionId", "TagId", "CreatedAt", "UpdatedAt", "IsDeleted")
+                SELECT DISTINCT t."Id", g."Id", now(), now(), false
+                FROM "Transactions" t
+                JOIN "Accounts" a ON a."Id" = t."AccountId"
+                CROSS JOIN LATERAL unnest(string_to_array(t."Tags", ',')) AS n(name)
+                JOIN "Tags" g ON g."UserId" = a."UserId"
+                    AND lower(g."Name") = lower(trim(n.name))
+                    AND g."IsDeleted" = false
+                WHERE t."Tags" IS NOT NULL
+                ON CONFLICT ("TransactionId", "TagId") DO NOTHING;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "TransactionTags");
+        }
+    }
+}
@@ -177,6 +177,7 @@ builder.Services.AddCategorizationServices(builder.Configuration);
 builder.Services.AddDescriptionCleaningServices(builder.Configuration);
 builder.Services.AddBankProviderServices(builder.Configuration);
 builder.Services.AddEmailServices(builder.Configuration);
+builder.Services.AddFileStorageServices(builder.Configuration);
 builder.Services.AddHealthCheckServices();
 builder.Services.AddBackgroundJobs(builder.Configuration);
 builder.Services.AddCorsConfiguration(builder.Configuration);
@@ -0,0 +1,153 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categorization.Models;
+using MyMascada.Application.Features.Categorization.Services;
+using MyMascada.Application.Features.Transactions.Commands;
+using MyMascada.Application.Features.Transactions.Services;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Commands;
+
+public class CreateTransactionCommandHandlerTests
+{
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly IAccountRepository _accountRepository;
+    private readonly ICategoryRepository _categoryRepository;
+    private readonly IAccountAccessService _accountAccessService;
+    private readonly ICategorizationPipeline _categorizationPipeline;
+    private readonly ITagService _tagService;
+    private readonly CreateTransactionCommandHandler _handler;
+    private readonly Guid _userId = Guid.NewGuid();
+    private const int AccountId = 7;
+
+    public CreateTransactionCommandHandlerTests()
+    {
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _accountRepository = Substitute.For<IAccountRepository>();
+        _categoryRepository = Substitute.For<ICategoryRepository>();
+        _accountAccessService = Substitute.For<IAccountAccessService>();
+        _categorizationPipeline = Substitute.For<ICategorizationPipeline>();
+        _tagService = Substitute.For<ITagService>();
+
+        _accountRepository.GetByIdAsync(AccountId, _userId)
+            .Returns(new Account { Id = AccountId, Name = "Checking" });
+        _accountAccessService.CanModifyAccountAsync(_userId, AccountId).Returns(true);
+        _transactionRepository.AddAsync(Arg.Any<Transaction>())
+            .Returns(callInfo =>
+            {
+                var transaction = callInfo.Arg<Transaction>();
+                transaction.Id = 42;
+                return transaction;
+            });
+        _categorizationPipeline.ProcessAsync(Arg.Any<IEnumerable<Transaction>>(), Arg.Any<CancellationToken>())
+            .Returns(new CategorizationResult());
+
+        _handler = new CreateTransactionCommandHandler(
+            _transactionRepository,
+            _accountRepository,
+            _categoryRepository,
+            _accountAccessService,
+            new TransactionDuplicateChecker(_transactionRepository),
+            _categorizationPipeline,
+            new TransactionSplitService(_categoryRepository),
+            _tagService);
+    }
+
+    private CreateTransactionCommand CreateCommand(string? idempotencyToken = null) => new()
+    {
+        UserId = _userId,
+        AccountId = AccountId,
+        Amount = -12.50m,
+        TransactionDate = new DateTime(2026, 10, 18, 0, 0, 0, DateTimeKind.Utc),
+        Description = "Coffee",
+        IdempotencyToken = idempotencyToken
+    };
+
+    [Fact]
+    public async Task Handle_WithIdempotencyKeyAlreadyUsed_ShouldReturnExistingTransactionWithoutCreating()
+    {
+        // Arrange
+        var existing = new Transaction
+        {
+            Id = 5,
+            AccountId = AccountId,
+            Amount = -12.50m,
+            Description = "Coffee",
+            IdempotencyKey = "outbox-entry-1"
+        };
+        _transactionRepository.GetByIdempotencyKeyAsync(AccountId, "outbox-entry-1").Returns(existing);
+
+        // Act
+        var result = await _handler.Handle(CreateCommand("outbox-entry-1"), CancellationToken.None);
+
+        // Assert
+        result.Id.Should().Be(5);
+        await _transactionRepository.DidNotReceive().AddAsync(Arg.Any<Transaction>());
+    }
+
+    [Fact]
+    public async Task Handle_WithNewIdempotencyKey_ShouldStoreKeyOnCreatedTransaction()
+    {
+        // Arrange
+        _transactionRepository.GetByIdempotencyKeyAsync(AccountId, "outbox-entry-2").Returns((Transaction?)null);
+
+        // Act
+        var result = await _handler.Handle(CreateCommand(" outbox-entry-2 "), CancellationToken.None);
+
+        // Assert
+        result.Id.Should().Be(42);
+        await _transactionRepository.Received(1).AddAsync(Arg.Is<Transaction>(t => t.IdempotencyKey == "outbox-entry-2"));
+    }
+
+    [Fact]
+    public async Task Handle_WithoutIdempotencyKey_ShouldNotLookUpKey()
+    {
+        // Act
+        await _handler.Handle(CreateCommand(), CancellationToken.None);
+
+        // Assert
+        await _transactionRepository.DidNotReceive().GetByIdempotencyKeyAsync(Arg.Any<int>(), Arg.Any<string>());
+        await _transactionRepository.Received(1).AddAsync(Arg.Is<Transaction>(t => t.IdempotencyKey == null));
+    }
+
+    [Fact]
+    public async Task Handle_WithTags_ShouldLinkTheTagsBeforeSaving()
+    {
+        // Arrange
+        var command = CreateCommand();
+        command.Tags = " Coffee ,work";
+
+        // Act
+        await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        Received.InOrder(() =>
+        {
+            _tagService.SyncTransactionTagsAsync(
+                Arg.Is<IReadOnlyCollection<Transaction>>(t => t.Single().Tags == "Coffee,work"),
+                Arg.Any<CancellationToken>());
+            _transactionRepository.AddAsync(Arg.Any<Transaction>());
+        });
+    }
+
+    [Fact]
+    public async Task Handle_WithoutTags_ShouldNotLinkTags()
+    {
+        // Act
+        await _handler.Handle(CreateCommand(), CancellationToken.None);
+
+        // Assert
+        await _tagService.DidNotReceive().SyncTransactionTagsAsync(
+            Arg.Any<IReadOnlyCollection<Transaction>>(), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task Handle_WithIdempotencyKeyTooLong_ShouldThrowArgumentException()
+    {
+        // Act
+        var act = () => _handler.Handle(CreateCommand(new string('k', 101)), CancellationToken.None);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>();
+        await _transactionRepository.DidNotReceive().AddAsync(Arg.Any<Transaction>());
+    }
+}
@@ -103,8 +103,9 @@ public class ProcessBudgetRolloversCommandTests
         result.ProcessedBudgets[0].NewBudgetCreated.Should().BeFalse();
         result.Message.Should().Contain("Preview");
 
-        // Verify no budget was created
-        await _budgetRepository.DidNotReceive().CreateBudgetAsync(Arg.Any<Budget>(), Arg.Any<CancellationToken>());
+        // Verify nothing was closed
+        await _budgetRepository.DidNotReceive().ClosePeriodAsync(
+            Arg.Any<Budget>(), Arg.Any<Budget?>(), Arg.Any<BudgetPeriodClose>(), Arg.Any<CancellationToken>());
     }
 
     [Fact]
@@ -163,12 +164,11 @@ public class ProcessBudgetRolloversCommandTests
 
         SetupCalculationServiceMock(budget, spent: 400m, budgeted: 500m);
 
-        // Mock the budget creation to return a new budget with ID
+        // Mock the period close to return the created budget with ID
         var newBudget = CreateTestBudget(isRecurring: true);
         newBudget.Id = 999;
         newBudget.StartDate = new DateTime(2025, 2, 1, 0, 0, 0, DateTimeKind.Utc);
-        _budgetRepository.CreateBudgetAsync(Arg.Any<Budget>(), Arg.Any<CancellationToken>())
-            .Returns(newBudget);
+        SetupClosePeriodMock(newBudget);
 
         // Act
         var result = await _handler.Handle(command, CancellationToken.None);
@@ -179,14 +179,11 @@ public class ProcessBudgetRolloversCommandTests
         result.ProcessedBudgets[0].NewBudgetCreated.Should().BeTrue();
         result.ProcessedBudgets[0].NewBudgetId.Should().Be(999);
 
-        // Verify new budget was created
-        await _budgetRepository.Received(1).CreateBudgetAsync(
-            Arg.Is<Budget>(b => b.IsRecurring == true),
-            Arg.Any<CancellationToken>());
-
-        // Verify old budget was marked Completed (not just IsActive=false)
-        await _budgetRepository.Received(1).UpdateBudgetAsync(
+        // Verify the new period was created and the old budget marked Completed (not just IsActive=false)
+        await _budgetRepository.Received(1).ClosePeriodAsync(
             Arg.Is<Budget>(b => b.Status == BudgetStatus.Completed && b.RolloverProcessedAt != null),
+            Arg.Is<Budget?>(b => b != null && b.IsRecurring == true),
+            Arg.Any<BudgetPeriodClose>(),
             Arg.Any<CancellationToken>());
     }
 
@@ -210,8 +207,7 @@ public class ProcessBudgetRolloversCommandTests
 
         var newBudget = CreateTestBudget(isRecurring: true);
         newBudget.Id = 999;
-        _budgetRepository.CreateBudgetAsync(Arg.Any<Budget>(), Arg.Any<CancellationToken>())
-            .Returns(newBudget);
+        SetupClosePeriodMock(newBudget);
 
         // Act
         var result = await _handler.Handle(command, CancellationToken.None);
@@ -221,8 +217,8 @@ public class ProcessBudgetRolloversCommandTests
         result.ProcessedBudgets[0].NewBudgetCreated.Should().BeTrue();
         result.ProcessedBudgets[0].CategoryRollovers.Should().BeEmpty(); // No rollover amounts
 
-        await _budgetRepository.Received(1).CreateBudgetAsync(
-            Arg.Any<Budget>(), Arg.Any<CancellationToken>());
+        await _budgetRepository.Received(1).ClosePeriodAsync(
+            Arg.Any<Budget>(), Arg.Is<Budget?>(b => b != null), Arg.Any<BudgetPeriodClose>(), Arg.Any<CancellationToken>());
     }
 
     [Fact]
@@ -249,17 +245,241 @@ public class ProcessBudgetRolloversCommandTests
         result.NewBudgetsCreated.Should().Be(0);
         result.ProcessedBudgets[0].NewBudgetCreated.Should().BeFalse();
 
-        // Verify no budget was created
-        await _budgetRepository.DidNotReceive().CreateBudgetAsync(Arg.Any<Budget>(), Arg.Any<CancellationToken>());
-
-        // Verify old budget was marked Completed
-        await _budgetRepository.Received(1).UpdateBudgetAsync(
+        // Verify no budget was created and the old budget was marked Completed
+        await _budgetRepository.Received(1).ClosePeriodAsync(
             Arg.Is<Budget>(b => b.Status == BudgetStatus.Completed),
+            Arg.Is<Budget?>(b => b == null),
+            Arg.Any<BudgetPeriodClose>(),
             Arg.Any<CancellationToken>());
     }
 
     #endregion
 
+    #region Overrides and Close Records
+
+    [Fact]
+    public async Task Handle_WithOverride_ShouldCarryOverriddenAmountIntoNextPeriod()
+    {
+        // Arrange
+        var budget = CreateTestBudgetWithMultipleCategories();
+        var command = new ProcessExpiredBudgetsCommand
+        {
+            UserId = _userId,
+            PreviewOnly = false,
+            Overrides = new List<BudgetRolloverOverrideDto>
+            {
+                new() { SourceBudgetId = budget.Id, CategoryId = 1, Amount = 40m }
+            }
+        };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMockForMultipleCategories(budget);
+
+        Budget? nextPeriod = null;
+        _budgetRepository.ClosePeriodAsync(Arg.Any<Budget>(), Arg.Do<Budget?>(b => nextPeriod = b), Arg.Any<BudgetPeriodClose>(), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.ArgAt<Budget?>(1));
+
+        // Act
+        var result = await _handler.Handle(command, CancellationToken.None);
+
+        // Assert - the override lands in the same close as the new period, no separate update
+        nextPeriod.Should().NotBeNull();
+        nextPeriod!.BudgetCategories.First(bc => bc.CategoryId == 1).RolloverAmount.Should().Be(40m);
+        nextPeriod.BudgetCategories.First(bc => bc.CategoryId == 2).RolloverAmount.Should().Be(-50m);
+        await _budgetRepository.DidNotReceive().UpsertBudgetCategoryAsync(Arg.Any<BudgetCategory>(), Arg.Any<CancellationToken>());
+
+        var groceries = result.ProcessedBudgets[0].CategoryRollovers.First(c => c.CategoryId == 1);
+        groceries.RolloverAmount.Should().Be(40m);
+        groceries.CalculatedRolloverAmount.Should().Be(100m);
+        groceries.IsOverridden.Should().BeTrue();
+        result.TotalRolloverAmount.Should().Be(-10m); // 40 - 50
+    }
+
+    [Theory]
+    [InlineData(1, 1, -10)]    // Negative
+    [InlineData(1, 1, 500.01)] // More than the category's 500 budget
+    [InlineData(1, 3, 10)]     // Category not in the budget
+    [InlineData(2, 1, 10)]     // Budget not expired
+    public async Task Handle_WithInvalidOverride_ShouldThrowBeforeClosingAnyPeriod(int sourceBudgetId, int categoryId, double amount)
+    {
+        // Arrange
+        var budget = CreateTestBudgetWithMultipleCategories();
+        var command = new ProcessExpiredBudgetsCommand
+        {
+            UserId = _userId,
+            PreviewOnly = false,
+            Overrides = new List<BudgetRolloverOverrideDto>
+            {
+                new() { SourceBudgetId = sourceBudgetId, CategoryId = categoryId, Amount = (decimal)amount }
+            }
+        };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMockForMultipleCategories(budget);
+
+        // Act
+        var act = () => _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>();
+        await _budgetRepository.DidNotReceiveWithAnyArgs().ClosePeriodAsync(default!, default, default!, default);
+    }
+
+    [Fact]
+    public async Task Handle_WithOverrideOfTheBudgetPlusCarriedInAmount_ShouldAcceptIt()
+    {
+        // Arrange
+        var budget = CreateTestBudgetWithMultipleCategories();
+        budget.BudgetCategories.First(bc => bc.CategoryId == 1).RolloverAmount = 100m;
+        var command = new ProcessExpiredBudgetsCommand
+        {
+            UserId = _userId,
+            PreviewOnly = true,
+            Overrides = new List<BudgetRolloverOverrideDto>
+            {
+                new() { SourceBudgetId = budget.Id, CategoryId = 1, Amount = 600m }
+            }
+        };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMockForMultipleCategories(budget);
+
+        // Act
+        var result = await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        result.ProcessedBudgets[0].CategoryRollovers.First(c => c.CategoryId == 1).RolloverAmount.Should().Be(600m);
+    }
+
+    [Fact]
+    public async Task Handle_WithOverrideForNonRecurringBudget_ShouldIgnoreOverride()
+    {
+        // Arrange
+        var budget = CreateTestBudget(isRecurring: false);
+        budget.BudgetCategories.First().AllowRollover = true;
+        var command = new ProcessExpiredBudgetsCommand
+        {
+            UserId = _userId,
+            PreviewOnly = true,
+            Overrides = new List<BudgetRolloverOverrideDto>
+            {
+                new() { SourceBudgetId = budget.Id, CategoryId = 1, Amount = 10m }
+            }
+        };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMock(budget, spent: 300m, budgeted: 500m);
+
+        // Act
+        var result = await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        var categoryRollover = result.ProcessedBudgets[0].CategoryRollovers[0];
+        categoryRollover.RolloverAmount.Should().Be(200m);
+        categoryRollover.IsOverridden.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task Handle_ShouldRecordPeriodCloseWithCarriedAmountsAndReasons()
+    {
+        // Arrange
+        var budget = CreateTestBudgetWithMultipleCategories();
+        var command = new ProcessExpiredBudgetsCommand
+        {
+            UserId = _userId,
+            PreviewOnly = false,
+            Overrides = new List<BudgetRolloverOverrideDto>
+            {
+                new() { SourceBudgetId = budget.Id, CategoryId = 2, Amount = 0m }
+            }
+        };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMockForMultipleCategories(budget);
+
+        BudgetPeriodClose? periodClose = null;
+        _budgetRepository.ClosePeriodAsync(Arg.Any<Budget>(), Arg.Any<Budget?>(), Arg.Do<BudgetPeriodClose>(c => periodClose = c), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.ArgAt<Budget?>(1));
+
+        // Act
+        var result = await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        periodClose.Should().NotBeNull();
+        periodClose!.UserId.Should().Be(_userId);
+        periodClose.SourceBudgetId.Should().Be(budget.Id);
+        periodClose.SourceBudgetName.Should().Be("January 2025 Budget");
+        periodClose.ClosedAt.Should().Be(result.ProcessedAt);
+
+        var groceries = periodClose.Categories.Single(c => c.CategoryId == 1);
+        groceries.CalculatedAmount.Should().Be(100m);
+        groceries.CarriedAmount.Should().Be(100m);
+        groceries.Overridden.Should().BeFalse();
+        groceries.Reason.Should().Be(BudgetRolloverReason.Surplus);
+
+        var entertainment = periodClose.Categories.Single(c => c.CategoryId == 2);
+        entertainment.CalculatedAmount.Should().Be(-50m);
+        entertainment.CarriedAmount.Should().Be(0m);
+        entertainment.Overridden.Should().BeTrue();
+        entertainment.Reason.Should().Be(BudgetRolloverReason.OverspendCarried);
+    }
+
+    [Fact]
+    public async Task Handle_NonRecurringBudget_ShouldRecordNothingCarried()
+    {
+        // Arrange
+        var budget = CreateTestBudget(isRecurring: false);
+        budget.BudgetCategories.First().AllowRollover = true;
+        var command = new ProcessExpiredBudgetsCommand { UserId = _userId, PreviewOnly = false };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMock(budget, spent: 300m, budgeted: 500m);
+
+        BudgetPeriodClose? periodClose = null;
+        _budgetRepository.ClosePeriodAsync(Arg.Any<Budget>(), Arg.Any<Budget?>(), Arg.Do<BudgetPeriodClose>(c => periodClose = c), Arg.Any<CancellationToken>())
+            .Returns((Budget?)null);
+
+        // Act
+        await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        var category = periodClose!.Categories.Single();
+        category.CalculatedAmount.Should().Be(0m);
+        category.CarriedAmount.Should().Be(0m);
+        category.Reason.Should().Be(BudgetRolloverReason.NotRecurring);
+    }
+
+    [Fact]
+    public async Task Handle_OverspendWithoutCarryOverspend_ShouldRecordCappedReason()
+    {
+        // Arrange
+        var budget = CreateTestBudget(isRecurring: true);
+        budget.BudgetCategories.First().AllowRollover = true;
+        var command = new ProcessExpiredBudgetsCommand { UserId = _userId, PreviewOnly = false };
+
+        _budgetRepository.GetExpiredActiveBudgetsAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new[] { budget });
+        SetupCalculationServiceMock(budget, spent: 600m, budgeted: 500m);
+
+        BudgetPeriodClose? periodClose = null;
+        _budgetRepository.ClosePeriodAsync(Arg.Any<Budget>(), Arg.Any<Budget?>(), Arg.Do<BudgetPeriodClose>(c => periodClose = c), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.ArgAt<Budget?>(1));
+
+        // Act
+        await _handler.Handle(command, CancellationToken.None);
+
+        // Assert
+        periodClose!.Categories.Single().Reason.Should().Be(BudgetRolloverReason.OverspendCapped);
+    }
+
+    #endregion
+
     #region Rollover Calculations
 
     [Fact]
@@ -431,6 +651,12 @@ public class ProcessBudgetRolloversCommandTests
 
     #region Helper Methods
 
+    private void SetupClosePeriodMock(Budget newBudget)
+    {
+        _budgetRepository.ClosePeriodAsync(Arg.Any<Budget>(), Arg.Any<Budget?>(), Arg.Any<BudgetPeriodClose>(), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.ArgAt<Budget?>(1) == null ? null : newBudget);
+    }
+
     private Budget CreateTestBudget(bool isRecurring = true, string name = "January 2025 Budget")
     {
         var groceriesCategory = new Category
@@ -0,0 +1,112 @@
+using System.Reflection;
+using System.Text;
+using System.Threading.Channels;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Common.Models;
+using MyMascada.WebAPI.Controllers;
+
+namespace MyMascada.Tests.Unit.Controllers;
+
+public class RealtimeControllerTests
+{
+    private readonly IRealtimeEventStream _eventStream;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly IRealtimeSubscription _subscription;
+    private readonly Channel<RealtimeEvent> _channel = Channel.CreateUnbounded<RealtimeEvent>();
+    private readonly RealtimeController _controller;
+    private readonly MemoryStream _responseBody = new();
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public RealtimeControllerTests()
+    {
+        _eventStream = Substitute.For<IRealtimeEventStream>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.GetUserId().Returns(_userId);
+
+        _subscription = Substitute.For<IRealtimeSubscription>();
+        _subscription.Events.Returns(_channel.Reader);
+        _eventStream.Subscribe(Arg.Any<Guid>(), Arg.Any<long?>()).Returns(_subscription);
+
+        _controller = new RealtimeController(_eventStream, _currentUserService)
+        {
+            ControllerContext = new ControllerContext
+            {
+                HttpContext = new DefaultHttpContext { Response = { Body = _responseBody } }
+            }
+        };
+    }
+
+    private string ResponseText => Encoding.UTF8.GetString(_responseBody.ToArray());
+
+    [Fact]
+    public void Controller_ShouldRequireAuthentication()
+    {
+        typeof(RealtimeController).GetCustomAttribute<AuthorizeAttribute>().Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task StreamEvents_ShouldWriteEventsInServerSentEventFormat()
+    {
+        // Arrange
+        await _channel.Writer.WriteAsync(new RealtimeEvent(7, RealtimeEventTypes.NotificationUnreadCount, "{\"count\":2}"));
+        await _channel.Writer.WriteAsync(new RealtimeEvent(8, RealtimeEventTypes.ChatMessage, "{\"message\":{\"id\":1}}"));
+        _channel.Writer.Complete();
+
+        // Act
+        await _controller.StreamEvents();
+
+        // Assert
+        _controller.Response.ContentType.Should().Be("text/event-stream");
+        ResponseText.Should().Be(
+            ": connected\n\n" +
+            "id: 7\nevent: notification.unreadCount\ndata: {\"count\":2}\n\n" +
+            "id: 8\nevent: chat.message\ndata: {\"message\":{\"id\":1}}\n\n");
+        _subscription.Received(1).Dispose();
+    }
+
+    [Fact]
+    public async Task StreamEvents_ShouldSubscribeForTheCurrentUserFromTheLastEventId()
+    {
+        // Arrange
+        _channel.Writer.Complete();
+
+        // Act
+        await _controller.StreamEvents("41");
+
+        // Assert
+        _eventStream.Received(1).Subscribe(_userId, 41);
+    }
+
+    [Fact]
+    public async Task StreamEvents_WithUnparseableLastEventId_ShouldSubscribeWithoutReplay()
+    {
+        // Arrange
+        _channel.Writer.Complete();
+
+        // Act
+        await _controller.StreamEvents("not-a-number");
+
+        // Assert
+        _eventStream.Received(1).Subscribe(_userId, null);
+    }
+
+    [Fact]
+    public async Task StreamEvents_WhenClientDisconnects_ShouldReturnAndReleaseTheSubscription()
+    {
+        // Arrange
+        using var disconnect = new CancellationTokenSource();
+        _controller.HttpContext.RequestAborted = disconnect.Token;
+
+        // Act
+        var stream = _controller.StreamEvents();
+        disconnect.Cancel();
+        await stream;
+
+        // Assert
+        stream.IsCompletedSuccessfully.Should().BeTrue();
+        _subscription.Received(1).Dispose();
+    }
+}
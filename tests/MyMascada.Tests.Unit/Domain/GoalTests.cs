@@ -0,0 +1,43 @@
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Tests.Unit.Domain;
+
+public class GoalTests
+{
+    [Fact]
+    public void MarkCompleted_ShouldKeepTheCurrentAmount()
+    {
+        // Arrange
+        var goal = new Goal { Name = "Emergency fund", TargetAmount = 1000m, CurrentAmount = 400m };
+
+        // Act
+        goal.MarkCompleted();
+
+        // Assert
+        goal.Status.Should().Be(GoalStatus.Completed);
+        goal.CurrentAmount.Should().Be(400m);
+        goal.Contributions.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void RecordContribution_ShouldAddToTheCurrentAmount()
+    {
+        // Arrange
+        var goal = new Goal { Id = 3, Name = "Holiday", TargetAmount = 3000m, CurrentAmount = 500m };
+        var date = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc);
+
+        // Act
+        goal.RecordContribution(250m, date, "Pay day");
+        goal.RecordContribution(-100m, date);
+
+        // Assert
+        goal.CurrentAmount.Should().Be(650m);
+        goal.Contributions.Select(c => c.Amount).Should().Equal(250m, -100m);
+
+        var first = goal.Contributions.First();
+        first.GoalId.Should().Be(3);
+        first.ContributionDate.Should().Be(date);
+        first.Note.Should().Be("Pay day");
+    }
+}
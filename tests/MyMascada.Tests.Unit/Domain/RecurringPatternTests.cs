@@ -495,6 +495,25 @@ public class RecurringPatternTests
         result.Should().BeFalse();
     }
 
+    [Theory]
+    [InlineData("netflix subscription", true)]
+    [InlineData("netflix subscriptio", true)]
+    [InlineData("netflix subscrip", true)]        // Four characters shorter is still exactly 80% similar
+    [InlineData("netflix subscri", false)]
+    [InlineData("netflix", false)]
+    [InlineData("netflix subscription renewal", false)]
+    public void MatchesNormalizedMerchant_ShouldRequireTheSimilarityThreshold(string normalizedDescription, bool expected)
+    {
+        // Arrange
+        var pattern = CreatePattern(normalizedMerchantKey: "netflix subscription");
+
+        // Act
+        var result = pattern.MatchesNormalizedMerchant(normalizedDescription);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
     #endregion
 
     #region Description Normalization Tests
@@ -0,0 +1,156 @@
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Tests.Unit.Domain;
+
+public class RecurringScheduleTests
+{
+    private static readonly DateTime DueDate = new(2026, 10, 15);
+
+    private static RecurringSchedule CreateSchedule(decimal amount = -1850m, string? matchText = "Ray White")
+    {
+        return new RecurringSchedule
+        {
+            Name = "Rent",
+            AccountId = 1,
+            Amount = amount,
+            Frequency = ScheduleFrequency.Monthly,
+            StartDate = new DateTime(2026, 1, 15),
+            NextDueDate = DueDate,
+            MatchText = matchText,
+            AmountTolerancePercent = 10m
+        };
+    }
+
+    #region Due dates
+
+    [Fact]
+    public void GetDueDate_WhenStartingOnThe31st_ShouldFallOnTheLastDayOfShorterMonths()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+        schedule.StartDate = new DateTime(2026, 1, 31);
+
+        // Act & Assert
+        schedule.GetDueDate(1).Should().Be(new DateTime(2026, 2, 28));
+        schedule.GetDueDate(2).Should().Be(new DateTime(2026, 3, 31));
+    }
+
+    [Fact]
+    public void GetDueDatesBetween_ShouldStopAtTheEndDate()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+        schedule.EndDate = new DateTime(2026, 3, 20);
+
+        // Act
+        var dueDates = schedule.GetDueDatesBetween(new DateTime(2026, 1, 1), new DateTime(2026, 12, 31)).ToList();
+
+        // Assert
+        dueDates.Should().Equal(new DateTime(2026, 1, 15), new DateTime(2026, 2, 15), new DateTime(2026, 3, 15));
+    }
+
+    #endregion
+
+    #region Matching
+
+    [Fact]
+    public void MatchesTransaction_WithMatchTextInTheGraceWindow_ShouldReturnTrue()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesTransaction(1, "AP RAY WHITE RENT", -1850m, DueDate.AddDays(3), DueDate);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Fact]
+    public void MatchesTransaction_WithMatchTextButChangedAmount_ShouldReturnTrue()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesTransaction(1, "Ray White", -1950m, DueDate, DueDate);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Fact]
+    public void MatchesTransaction_WithoutMatchText_ShouldReturnFalseEvenWhenTheAmountMatches()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesTransaction(1, "Harvey Norman", -1850m, DueDate, DueDate);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    [Fact]
+    public void MatchesTransaction_WithoutMatchText_ShouldFallBackToTheName()
+    {
+        // Arrange
+        var schedule = CreateSchedule(matchText: null);
+
+        // Act
+        var result = schedule.MatchesTransaction(1, "Monthly rent", -1850m, DueDate, DueDate);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Theory]
+    [InlineData(2, -1850, 0)]    // Different account
+    [InlineData(1, 1850, 0)]     // Opposite direction
+    [InlineData(1, -1850, 6)]    // Outside the five-day monthly grace window
+    [InlineData(1, -1850, -6)]
+    public void MatchesTransaction_OutsideTheWindow_ShouldReturnFalse(int accountId, decimal amount, int daysFromDue)
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesTransaction(accountId, "Ray White", amount, DueDate.AddDays(daysFromDue), DueDate);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    [Theory]
+    [InlineData(-1850, true)]
+    [InlineData(-1700, true)]   // 8% lower
+    [InlineData(-2100, false)]  // 13.5% higher
+    public void MatchesAmountOnly_ShouldApplyTheTolerance(decimal amount, bool expected)
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesAmountOnly(1, amount, DueDate.AddDays(-2), DueDate);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Fact]
+    public void MatchesAmountOnly_OutsideTheGraceWindow_ShouldReturnFalse()
+    {
+        // Arrange
+        var schedule = CreateSchedule();
+
+        // Act
+        var result = schedule.MatchesAmountOnly(1, -1850m, DueDate.AddDays(6), DueDate);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    #endregion
+}
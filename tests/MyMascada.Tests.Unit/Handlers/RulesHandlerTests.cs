@@ -126,6 +126,35 @@ public class RulesHandlerTests
         autoApplied.ProcessedBy.Should().Be("Rules");
     }
 
+    [Fact]
+    public async Task ProcessTransactionsAsync_SplitTransaction_IsLeftToItsSplitLines()
+    {
+        // Arrange
+        var categoryId = 123;
+        var category = CreateCategory(categoryId, "Test Category");
+        var split = CreateTransaction(userId: _userId, description: "WALMART STORE");
+        split.ReplaceSplits(new[]
+        {
+            new TransactionSplit { CategoryId = 1, Amount = -60m },
+            new TransactionSplit { CategoryId = 2, Amount = -40m }
+        });
+        var plain = CreateTransaction(userId: _userId, description: "WALMART STORE", id: 2);
+        var rule = CreateRule(pattern: "WALMART", categoryId: categoryId, confidence: 0.98m, category: category);
+
+        _ruleRepository.GetActiveRulesForUserAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new List<CategorizationRule> { rule });
+        _categoryRepository.GetByIdAsync(categoryId).Returns(category);
+
+        // Act
+        var result = await _handler.HandleAsync(new List<Transaction> { split, plain }, CancellationToken.None);
+
+        // Assert
+        result.AutoAppliedTransactions.Should().ContainSingle()
+            .Which.Transaction.Id.Should().Be(2);
+        result.Candidates.Should().BeEmpty();
+        split.CategoryId.Should().Be(1);
+    }
+
     [Fact]
     public async Task ProcessTransactionsAsync_MediumConfidenceRuleMatch_CreatesCandidate()
     {
@@ -0,0 +1,105 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.Commands;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Tests.Unit.Handlers;
+
+public class UpdateGoalCommandHandlerTests
+{
+    private const int GoalId = 7;
+
+    private readonly IGoalRepository _goalRepository;
+    private readonly IGoalContributionService _goalContributionService;
+    private readonly UpdateGoalCommandHandler _handler;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Goal _goal;
+
+    public UpdateGoalCommandHandlerTests()
+    {
+        _goal = new Goal { Id = GoalId, Name = "Emergency fund", TargetAmount = 1000m, CurrentAmount = 400m, UserId = _userId };
+
+        _goalRepository = Substitute.For<IGoalRepository>();
+        _goalRepository.GetGoalByIdAsync(GoalId, _userId, Arg.Any<CancellationToken>()).Returns(_goal);
+        _goalRepository.UpdateGoalAsync(Arg.Any<Goal>(), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.Arg<Goal>());
+
+        // Goals without a linked account progress by their recorded contributions
+        _goalContributionService = Substitute.For<IGoalContributionService>();
+        _goalContributionService.GetCurrentAmountsAsync(_userId, Arg.Any<IReadOnlyCollection<Goal>>(), Arg.Any<CancellationToken>())
+            .Returns(_ => new Dictionary<int, decimal> { [GoalId] = _goal.CurrentAmount });
+
+        _handler = new UpdateGoalCommandHandler(_goalRepository, Substitute.For<IAccountRepository>(), _goalContributionService);
+    }
+
+    private UpdateGoalCommand Command(string? status = null, decimal? currentAmount = null) => new()
+    {
+        GoalId = GoalId,
+        Status = status,
+        CurrentAmount = currentAmount,
+        UserId = _userId
+    };
+
+    [Fact]
+    public async Task Handle_MarkingCompletedShortOfTheTarget_ShouldRecordTheRestAsAContribution()
+    {
+        // Act
+        var result = await _handler.Handle(Command(status: "Completed"), CancellationToken.None);
+
+        // Assert
+        var contribution = _goal.Contributions.Should().ContainSingle().Subject;
+        contribution.Amount.Should().Be(600m);
+        contribution.Note.Should().Be("Marked as completed");
+
+        _goal.Status.Should().Be(GoalStatus.Completed);
+        _goal.CurrentAmount.Should().Be(1000m);
+        result.CurrentAmount.Should().Be(1000m);
+        result.Status.Should().Be("Completed");
+    }
+
+    [Fact]
+    public async Task Handle_MarkingCompletedAtTheTarget_ShouldNotRecordAContribution()
+    {
+        // Arrange
+        _goal.CurrentAmount = 1000m;
+
+        // Act
+        await _handler.Handle(Command(status: "Completed"), CancellationToken.None);
+
+        // Assert
+        _goal.Status.Should().Be(GoalStatus.Completed);
+        _goal.Contributions.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task Handle_MarkingALinkedGoalCompleted_ShouldLeaveItsAmountToTheAccount()
+    {
+        // Arrange
+        _goal.LinkedAccountId = 5;
+        _goalContributionService.GetCurrentAmountsAsync(_userId, Arg.Any<IReadOnlyCollection<Goal>>(), Arg.Any<CancellationToken>())
+            .Returns(new Dictionary<int, decimal> { [GoalId] = 300m });
+
+        // Act
+        var result = await _handler.Handle(Command(status: "Completed"), CancellationToken.None);
+
+        // Assert
+        _goal.Status.Should().Be(GoalStatus.Completed);
+        _goal.Contributions.Should().BeEmpty();
+        result.CurrentAmount.Should().Be(300m);
+    }
+
+    [Fact]
+    public async Task Handle_WithANewCurrentAmount_ShouldRecordTheDifference()
+    {
+        // Act
+        var result = await _handler.Handle(Command(currentAmount: 650m), CancellationToken.None);
+
+        // Assert
+        var contribution = _goal.Contributions.Should().ContainSingle().Subject;
+        contribution.Amount.Should().Be(250m);
+        contribution.Note.Should().Be("Progress updated");
+
+        _goal.Status.Should().Be(GoalStatus.Active);
+        result.CurrentAmount.Should().Be(650m);
+    }
+}
@@ -0,0 +1,204 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categories.Queries;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Queries;
+
+public class GetCategoryStatisticsQueryHandlerTests
+{
+    private readonly ICategoryRepository _categoryRepository;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly GetCategoryStatisticsQueryHandler _handler;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly DateTime _currentMonth;
+    private int _nextTransactionId = 1;
+
+    // Food has two direct children; Supermarket sits under Groceries and rolls up into it
+    private readonly Category _food;
+    private readonly Category _groceries;
+    private readonly Category _supermarket;
+    private readonly Category _dining;
+    private readonly Category _transport;
+
+    public GetCategoryStatisticsQueryHandlerTests()
+    {
+        _categoryRepository = Substitute.For<ICategoryRepository>();
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _handler = new GetCategoryStatisticsQueryHandler(_categoryRepository, _transactionRepository);
+
+        var now = DateTime.UtcNow;
+        _currentMonth = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+
+        _food = new Category { Id = 1, Name = "Food", UserId = _userId };
+        _groceries = new Category { Id = 2, Name = "Groceries", Color = "#22c55e", UserId = _userId, ParentCategoryId = 1 };
+        _supermarket = new Category { Id = 3, Name = "Supermarket", UserId = _userId, ParentCategoryId = 2 };
+        _dining = new Category { Id = 4, Name = "Dining", Color = "#f97316", UserId = _userId, ParentCategoryId = 1 };
+        _transport = new Category { Id = 5, Name = "Transport", UserId = _userId };
+
+        _categoryRepository.GetByIdAsync(_food.Id).Returns(_food);
+        _categoryRepository.GetByUserIdAsync(_userId)
+            .Returns(new List<Category> { _food, _groceries, _supermarket, _dining, _transport });
+        _categoryRepository.GetSystemCategoriesAsync().Returns(new List<Category>());
+    }
+
+    private GetCategoryStatisticsQuery CreateQuery(int months = 12) => new()
+    {
+        CategoryId = _food.Id,
+        UserId = _userId,
+        Months = months
+    };
+
+    private Transaction CreateTransaction(decimal amount, Category? category, string description, DateTime? date = null)
+    {
+        return new Transaction
+        {
+            Id = _nextTransactionId++,
+            Amount = amount,
+            CategoryId = category?.Id,
+            Category = category,
+            TransactionDate = date ?? _currentMonth,
+            Description = description
+        };
+    }
+
+    private Transaction CreateSplitTransaction(string description, params (Category Category, decimal Amount)[] lines)
+    {
+        var transaction = CreateTransaction(lines.Sum(l => l.Amount), null, description);
+        transaction.ReplaceSplits(lines.Select(l => new TransactionSplit
+        {
+            CategoryId = l.Category.Id,
+            Category = l.Category,
+            Amount = l.Amount
+        }));
+        return transaction;
+    }
+
+    private void ReturnTransactions(params Transaction[] transactions)
+    {
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(transactions.ToList());
+    }
+
+    [Fact]
+    public async Task Handle_ShouldRollDescendantsUpIntoTheirDirectChild()
+    {
+        // Arrange
+        ReturnTransactions(
+            CreateTransaction(-50m, _food, "Farmers market"),
+            CreateTransaction(-30m, _supermarket, "Countdown"),
+            CreateTransaction(-25m, _groceries, "Pak n Save"),
+            CreateTransaction(-20m, _dining, "Cafe"),
+            CreateTransaction(-15m, _transport, "Bus"));
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(), CancellationToken.None);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.TotalAmount.Should().Be(-125m);
+        result.TransactionCount.Should().Be(4);
+
+        // Spending directly in Food is part of the total but not a subcategory
+        result.Subcategories.Select(s => (s.CategoryId, s.Amount, s.TransactionCount)).Should().Equal(
+            (_groceries.Id, -55m, 2),
+            (_dining.Id, -20m, 1));
+        result.Subcategories[0].CategoryName.Should().Be("Groceries");
+        result.Subcategories[0].Color.Should().Be("#22c55e");
+    }
+
+    [Fact]
+    public async Task Handle_WithSplitTransaction_ShouldCountOnlyTheLinesInTheSubtree()
+    {
+        // Arrange
+        ReturnTransactions(
+            CreateSplitTransaction("Warehouse", (_groceries, -40m), (_transport, -60m)),
+            CreateSplitTransaction("Mall", (_groceries, -10m), (_dining, -15m)));
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(), CancellationToken.None);
+
+        // Assert
+        result!.TotalAmount.Should().Be(-65m);
+        result.TransactionCount.Should().Be(2);
+        result.AverageAmount.Should().Be(-32.5m);
+        result.MonthlyTotals[^1].TransactionCount.Should().Be(2);
+
+        result.Subcategories.Select(s => (s.CategoryId, s.Amount, s.TransactionCount)).Should().Equal(
+            (_groceries.Id, -50m, 2),
+            (_dining.Id, -15m, 1));
+        result.TopMerchants.Select(m => (m.Name, m.Amount)).Should().Equal(("Warehouse", -40m), ("Mall", -25m));
+    }
+
+    [Fact]
+    public async Task Handle_ShouldLeaveOutExcludedAndTransferTransactions()
+    {
+        // Arrange
+        var excluded = CreateTransaction(-100m, _groceries, "Refunded shop");
+        excluded.IsExcluded = true;
+        var transfer = CreateTransaction(-200m, _dining, "To savings");
+        transfer.TransferId = Guid.NewGuid();
+        ReturnTransactions(excluded, transfer, CreateTransaction(-20m, _dining, "Cafe"));
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(), CancellationToken.None);
+
+        // Assert
+        result!.TotalAmount.Should().Be(-20m);
+        result.TransactionCount.Should().Be(1);
+        result.TopMerchants.Should().ContainSingle().Which.Name.Should().Be("Cafe");
+        result.Subcategories.Should().ContainSingle().Which.CategoryId.Should().Be(_dining.Id);
+    }
+
+    [Fact]
+    public async Task Handle_ShouldCoverWholeMonthsEndingWithTheCurrentOne()
+    {
+        // Arrange
+        var oldest = _currentMonth.AddMonths(-2);
+        ReturnTransactions(
+            CreateTransaction(-30m, _groceries, "Countdown", oldest.AddDays(3)),
+            CreateTransaction(-20m, _groceries, "Countdown", _currentMonth));
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(months: 3), CancellationToken.None);
+
+        // Assert
+        await _transactionRepository.Received(1).GetByDateRangeAsync(
+            _userId, oldest, _currentMonth.AddMonths(1).AddTicks(-1));
+
+        result!.Months.Should().Be(3);
+        result.MonthlyTotals.Select(m => m.PeriodStart).Should().Equal(oldest, oldest.AddMonths(1), _currentMonth);
+        result.MonthlyTotals.Select(m => m.Amount).Should().Equal(-30m, 0m, -20m);
+        result.FirstTransactionDate.Should().Be(oldest.AddDays(3));
+        result.LastTransactionDate.Should().Be(_currentMonth);
+    }
+
+    [Theory]
+    [InlineData(0, 1)]
+    [InlineData(100, 60)]
+    public async Task Handle_WithMonthsOutOfRange_ShouldClampThem(int requested, int expected)
+    {
+        // Arrange
+        ReturnTransactions();
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(months: requested), CancellationToken.None);
+
+        // Assert
+        result!.Months.Should().Be(expected);
+        result.MonthlyTotals.Should().HaveCount(expected);
+    }
+
+    [Fact]
+    public async Task Handle_WithAnotherUsersCategory_ShouldReturnNull()
+    {
+        // Arrange
+        _categoryRepository.GetByIdAsync(9).Returns(new Category { Id = 9, Name = "Theirs", UserId = Guid.NewGuid() });
+
+        // Act
+        var result = await _handler.Handle(new GetCategoryStatisticsQuery { CategoryId = 9, UserId = _userId }, CancellationToken.None);
+
+        // Assert
+        result.Should().BeNull();
+        await _transactionRepository.DidNotReceiveWithAnyArgs().GetByDateRangeAsync(default, default, default);
+    }
+}
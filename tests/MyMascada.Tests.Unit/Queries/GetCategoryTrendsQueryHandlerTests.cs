@@ -0,0 +1,126 @@
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Reports.Queries;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Queries;
+
+public class GetCategoryTrendsQueryHandlerTests
+{
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly GetCategoryTrendsQueryHandler _handler;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Category _groceries = new() { Id = 1, Name = "Groceries", Color = "#22c55e" };
+    private readonly Category _household = new() { Id = 2, Name = "Household", Color = "#3b82f6" };
+    private int _nextTransactionId = 1;
+
+    public GetCategoryTrendsQueryHandlerTests()
+    {
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        var exchangeRateService = Substitute.For<IExchangeRateService>();
+        exchangeRateService.GetConverterAsync(Arg.Any<Guid>(), Arg.Any<CancellationToken>())
+            .Returns(CurrencyConverter.Identity("NZD"));
+        _handler = new GetCategoryTrendsQueryHandler(_transactionRepository, exchangeRateService);
+    }
+
+    private GetCategoryTrendsQuery CreateQuery() => new()
+    {
+        UserId = _userId,
+        StartDate = new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc),
+        EndDate = new DateTime(2025, 2, 28, 0, 0, 0, DateTimeKind.Utc)
+    };
+
+    private Transaction CreateTransaction(decimal amount, Category? category, DateTime date, Guid? transferId = null)
+    {
+        return new Transaction
+        {
+            Id = _nextTransactionId++,
+            Amount = amount,
+            CategoryId = category?.Id,
+            Category = category,
+            TransactionDate = DateTime.SpecifyKind(date, DateTimeKind.Utc),
+            Description = "Test Transaction",
+            TransferId = transferId
+        };
+    }
+
+    private Transaction CreateSplitTransaction(DateTime date, params (Category Category, decimal Amount)[] lines)
+    {
+        var transaction = CreateTransaction(lines.Sum(l => l.Amount), null, date);
+        transaction.ReplaceSplits(lines.Select(l => new TransactionSplit
+        {
+            CategoryId = l.Category.Id,
+            Category = l.Category,
+            Amount = l.Amount
+        }));
+        return transaction;
+    }
+
+    [Fact]
+    public async Task Handle_WithSplitTransaction_ShouldAttributeEachLineToItsCategory()
+    {
+        // Arrange
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(new List<Transaction>
+            {
+                CreateSplitTransaction(new DateTime(2025, 1, 10), (_groceries, -100m), (_household, -50m)),
+                CreateTransaction(-30m, _household, new DateTime(2025, 2, 3)),
+                CreateTransaction(-500m, _household, new DateTime(2025, 2, 4), transferId: Guid.NewGuid())
+            });
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(), CancellationToken.None);
+
+        // Assert
+        result.TotalSpending.Should().Be(180m);
+
+        var groceries = result.Categories.Single(c => c.CategoryId == _groceries.Id);
+        groceries.TotalSpent.Should().Be(100m);
+        groceries.Periods.Select(p => p.Amount).Should().Equal(100m, 0m);
+
+        var household = result.Categories.Single(c => c.CategoryId == _household.Id);
+        household.TotalSpent.Should().Be(80m);
+        household.Periods.Select(p => p.Amount).Should().Equal(50m, 30m);
+        household.Periods.Select(p => p.TransactionCount).Should().Equal(1, 1);
+    }
+
+    [Fact]
+    public async Task Handle_WithSplitTransaction_ShouldCountItOnceInThePeriodSummary()
+    {
+        // Arrange
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(new List<Transaction>
+            {
+                CreateSplitTransaction(new DateTime(2025, 1, 10), (_groceries, -100m), (_household, -50m)),
+                CreateTransaction(-20m, _groceries, new DateTime(2025, 1, 12))
+            });
+
+        // Act
+        var result = await _handler.Handle(CreateQuery(), CancellationToken.None);
+
+        // Assert
+        var january = result.PeriodSummaries.First();
+        january.TotalSpent.Should().Be(170m);
+        january.TransactionCount.Should().Be(2);
+    }
+
+    [Fact]
+    public async Task Handle_WithCategoryFilter_ShouldKeepOnlyTheMatchingSplitLines()
+    {
+        // Arrange
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(new List<Transaction>
+            {
+                CreateSplitTransaction(new DateTime(2025, 1, 10), (_groceries, -100m), (_household, -50m))
+            });
+        var query = CreateQuery();
+        query.CategoryIds = new List<int> { _household.Id };
+
+        // Act
+        var result = await _handler.Handle(query, CancellationToken.None);
+
+        // Assert
+        result.Categories.Should().ContainSingle().Which.TotalSpent.Should().Be(50m);
+        result.TotalSpending.Should().Be(50m);
+    }
+}
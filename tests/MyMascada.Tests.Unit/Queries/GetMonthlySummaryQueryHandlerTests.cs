@@ -0,0 +1,82 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Reports.Queries;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Queries;
+
+public class GetMonthlySummaryQueryHandlerTests
+{
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly GetMonthlySummaryQueryHandler _handler;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Category _groceries = new() { Id = 1, Name = "Groceries" };
+    private readonly Category _household = new() { Id = 2, Name = "Household" };
+    private int _nextTransactionId = 1;
+
+    public GetMonthlySummaryQueryHandlerTests()
+    {
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _handler = new GetMonthlySummaryQueryHandler(_transactionRepository);
+    }
+
+    private Transaction CreateTransaction(decimal amount, Category? category, Guid? transferId = null)
+    {
+        return new Transaction
+        {
+            Id = _nextTransactionId++,
+            Amount = amount,
+            CategoryId = category?.Id,
+            Category = category,
+            TransactionDate = new DateTime(2025, 1, 15, 0, 0, 0, DateTimeKind.Utc),
+            Description = "Test Transaction",
+            TransferId = transferId
+        };
+    }
+
+    private Transaction CreateSplitTransaction(params (Category Category, decimal Amount)[] lines)
+    {
+        var transaction = CreateTransaction(lines.Sum(l => l.Amount), null);
+        transaction.ReplaceSplits(lines.Select(l => new TransactionSplit
+        {
+            CategoryId = l.Category.Id,
+            Category = l.Category,
+            Amount = l.Amount
+        }));
+        return transaction;
+    }
+
+    [Fact]
+    public async Task Handle_WithSplitTransaction_ShouldAttributeEachLineToItsCategory()
+    {
+        // Arrange
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(new List<Transaction>
+            {
+                CreateSplitTransaction((_groceries, -100m), (_household, -50m)),
+                CreateTransaction(-30m, _household),
+                CreateTransaction(500m, null),
+                CreateTransaction(-200m, _household, transferId: Guid.NewGuid())
+            });
+
+        // Act
+        var result = await _handler.Handle(new GetMonthlySummaryQuery { UserId = _userId, Year = 2025, Month = 1 }, CancellationToken.None);
+
+        // Assert
+        result.TotalIncome.Should().Be(500m);
+        result.TotalExpenses.Should().Be(180m);
+
+        result.TopCategories.Select(c => c.CategoryId).Should().Equal(_groceries.Id, _household.Id);
+
+        var groceries = result.TopCategories[0];
+        groceries.Amount.Should().Be(100m);
+        groceries.TransactionCount.Should().Be(1);
+
+        // The split counts under both categories; the plain household expense only under its own
+        var household = result.TopCategories[1];
+        household.Amount.Should().Be(80m);
+        household.TransactionCount.Should().Be(2);
+
+        groceries.Percentage.Should().BeApproximately(55.56m, 0.01m);
+        household.Percentage.Should().BeApproximately(44.44m, 0.01m);
+    }
+}
@@ -1,10 +1,12 @@
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.Transactions.Queries;
 using MyMascada.Domain.Entities;
 using MyMascada.Domain.Enums;
 using MyMascada.Infrastructure.Data;
 using MyMascada.Infrastructure.Repositories;
+using MyMascada.Infrastructure.Services.Tags;
 using NSubstitute;
 using Xunit;
 
@@ -484,6 +486,37 @@ public class TransactionRepositoryTests : IDisposable
         Assert.All(transactionList, t => Assert.Equal(1, t.AccountId));
     }
 
+    [Fact]
+    public async Task GetFilteredAsync_WithTag_ReturnsTransactionsLinkedToTheTag()
+    {
+        // Arrange
+        var first = await _context.Transactions.FindAsync(1);
+        var second = await _context.Transactions.FindAsync(2);
+        first!.Tags = "Holiday,Food";
+        second!.Tags = "food";
+        var tagService = new TagService(_context, Substitute.For<IAccountAccessService>(), Substitute.For<ILogger<TagService>>());
+        await tagService.SyncTransactionTagsAsync(new[] { first, second });
+        await _context.SaveChangesAsync();
+
+        var query = new GetTransactionsQuery
+        {
+            UserId = _userId,
+            Tag = "FOOD",
+            Page = 1,
+            PageSize = 100
+        };
+
+        // Act
+        var (transactions, totalCount) = await _repository.GetFilteredAsync(query);
+        var transactionList = transactions.ToList();
+
+        // Assert
+        // Both spellings resolve to the same tag, so both transactions are linked to it
+        Assert.Equal(2, totalCount);
+        Assert.Equal(new[] { 1, 2 }, transactionList.Select(t => t.Id).OrderBy(id => id));
+        Assert.Single(_context.Tags, t => t.UserId == _userId && t.Name.ToLower() == "food");
+    }
+
     [Fact]
     public async Task GetFilteredAsync_UserIsolation_DoesNotReturnOtherUsersTransactions()
     {
@@ -729,6 +762,83 @@ public class TransactionRepositoryTests : IDisposable
         Assert.DoesNotContain(1000, result);
     }
 
+    private async Task SeedInvestmentAccountAsync()
+    {
+        // 10 units bought for 1000 and now priced at 120
+        var account = new Account
+        {
+            Id = 10,
+            Name = "Brokerage",
+            Type = AccountType.Investment,
+            CurrentBalance = 0m,
+            Currency = "USD",
+            IsActive = true,
+            UserId = _userId
+        };
+        var holding = new InvestmentHolding { AccountId = account.Id, Symbol = "VTI" };
+        holding.Trades.Add(new InvestmentTrade
+        {
+            Type = InvestmentTradeType.Buy,
+            TradeDate = DateTime.UtcNow.AddDays(-60),
+            Units = 10m,
+            Price = 100m,
+            Amount = -1000m
+        });
+
+        _context.Accounts.Add(account);
+        _context.InvestmentHoldings.Add(holding);
+        _context.SecurityPrices.Add(new SecurityPrice { UserId = _userId, Symbol = "VTI", PriceDate = DateTime.UtcNow.Date, Price = 120m });
+        await _context.SaveChangesAsync();
+    }
+
+    [Fact]
+    public async Task GetAccountBalanceAsync_InvestmentAccount_AddsTheMarketValueOfItsHoldings()
+    {
+        // Arrange
+        await SeedInvestmentAccountAsync();
+
+        // Act
+        var balance = await _repository.GetAccountBalanceAsync(10, _userId);
+        var balances = await _repository.GetAccountBalancesAsync(_userId);
+
+        // Assert
+        Assert.Equal(1200m, balance);
+        Assert.Equal(1200m, balances[10]);
+    }
+
+    [Fact]
+    public async Task GetAccountBalanceAsync_InvestmentAccountWithValuation_DoesNotAddHoldingsOnTop()
+    {
+        // Arrange
+        await SeedInvestmentAccountAsync();
+        _context.AccountValuations.Add(new AccountValuation
+        {
+            AccountId = 10,
+            UserId = _userId,
+            Value = 5000m,
+            ValuationDate = DateTime.UtcNow.Date.AddDays(-10)
+        });
+        _context.Transactions.Add(new Transaction
+        {
+            Id = 100,
+            Amount = 200m,
+            TransactionDate = DateTime.UtcNow.AddDays(-5),
+            Description = "Contribution",
+            AccountId = 10,
+            Status = TransactionStatus.Cleared
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var balance = await _repository.GetAccountBalanceAsync(10, _userId);
+        var balances = await _repository.GetAccountBalancesAsync(_userId);
+
+        // Assert
+        // The valuation already includes the holdings; only the later contribution is added
+        Assert.Equal(5200m, balance);
+        Assert.Equal(5200m, balances[10]);
+    }
+
     public void Dispose()
     {
         _context.Dispose();
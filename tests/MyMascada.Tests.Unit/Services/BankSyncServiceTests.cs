@@ -0,0 +1,80 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.BankConnections.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Services.BankIntegration;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class BankSyncServiceTests
+{
+    private const int ConnectionId = 3;
+
+    private readonly IBankProviderFactory _providerFactory;
+    private readonly IBankProvider _provider;
+    private readonly IBankConnectionRepository _connectionRepository;
+    private readonly IBankSyncLogRepository _syncLogRepository;
+    private readonly BankSyncService _service;
+    private readonly DateTime _lastSyncAt = new(2026, 10, 1, 6, 0, 0, DateTimeKind.Utc);
+    private readonly BankConnection _connection;
+
+    public BankSyncServiceTests()
+    {
+        _providerFactory = Substitute.For<IBankProviderFactory>();
+        _provider = Substitute.For<IBankProvider>();
+        _connectionRepository = Substitute.For<IBankConnectionRepository>();
+        _syncLogRepository = Substitute.For<IBankSyncLogRepository>();
+
+        _connection = new BankConnection
+        {
+            Id = ConnectionId,
+            AccountId = 7,
+            UserId = Guid.NewGuid(),
+            ProviderId = "akahu",
+            LastSyncAt = _lastSyncAt
+        };
+
+        _connectionRepository.GetByIdAsync(ConnectionId, Arg.Any<CancellationToken>()).Returns(_connection);
+        _syncLogRepository.AddAsync(Arg.Any<BankSyncLog>(), Arg.Any<CancellationToken>())
+            .Returns(callInfo => callInfo.Arg<BankSyncLog>());
+        _providerFactory.GetProvider("akahu").Returns(_provider);
+        _provider.FetchTransactionsAsync(Arg.Any<BankConnectionConfig>(), Arg.Any<DateTime>(), Arg.Any<DateTime>(), Arg.Any<CancellationToken>())
+            .Returns(BankTransactionFetchResult.Success(Array.Empty<BankTransactionDto>()));
+
+        _service = new BankSyncService(
+            _providerFactory,
+            _connectionRepository,
+            _syncLogRepository,
+            Substitute.For<ISettingsEncryptionService>(),
+            Substitute.For<IImportAnalysisService>(),
+            Substitute.For<ITransactionRepository>(),
+            Substitute.For<IBankCategoryMappingService>(),
+            Substitute.For<IApplicationLogger<BankSyncService>>());
+    }
+
+    [Fact]
+    public async Task SyncAccountRangeAsync_ShouldNotMoveLastSyncAt()
+    {
+        // Act
+        var result = await _service.SyncAccountRangeAsync(
+            ConnectionId, BankSyncType.Manual, new DateTime(2026, 6, 1), new DateTime(2026, 6, 30));
+
+        // Assert
+        result.IsSuccess.Should().BeTrue();
+        _connection.LastSyncAt.Should().Be(_lastSyncAt);
+        await _provider.Received(1).FetchTransactionsAsync(
+            Arg.Any<BankConnectionConfig>(), new DateTime(2026, 6, 1), new DateTime(2026, 6, 30), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task SyncAccountAsync_ShouldSetLastSyncAt()
+    {
+        // Act
+        var result = await _service.SyncAccountAsync(ConnectionId, BankSyncType.Manual);
+
+        // Assert
+        result.IsSuccess.Should().BeTrue();
+        _connection.LastSyncAt.Should().BeAfter(_lastSyncAt);
+        await _connectionRepository.Received(1).UpdateAsync(_connection, Arg.Any<CancellationToken>());
+    }
+}
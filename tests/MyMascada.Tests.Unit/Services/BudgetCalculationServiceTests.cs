@@ -1,3 +1,4 @@
+using MyMascada.Application.Common;
 using MyMascada.Application.Common.Interfaces;
 using MyMascada.Application.Features.Budgets.DTOs;
 using MyMascada.Application.Features.Budgets.Services;
@@ -11,6 +12,7 @@ public class BudgetCalculationServiceTests
 {
     private readonly ITransactionRepository _transactionRepository;
     private readonly ICategoryRepository _categoryRepository;
+    private readonly IExchangeRateService _exchangeRateService;
     private readonly BudgetCalculationService _service;
     private readonly Guid _userId;
     private int _transactionIdCounter;
@@ -19,7 +21,10 @@ public class BudgetCalculationServiceTests
     {
         _transactionRepository = Substitute.For<ITransactionRepository>();
         _categoryRepository = Substitute.For<ICategoryRepository>();
-        _service = new BudgetCalculationService(_transactionRepository, _categoryRepository);
+        _exchangeRateService = Substitute.For<IExchangeRateService>();
+        _exchangeRateService.GetConverterAsync(Arg.Any<Guid>(), Arg.Any<CancellationToken>())
+            .Returns(CurrencyConverter.Identity("NZD"));
+        _service = new BudgetCalculationService(_transactionRepository, _categoryRepository, _exchangeRateService);
         _userId = Guid.NewGuid();
         _transactionIdCounter = 1;
     }
@@ -280,6 +285,79 @@ public class BudgetCalculationServiceTests
         result.TransactionCount.Should().Be(1);
     }
 
+    [Fact]
+    public async Task GetCategorySpendingAsync_ShouldConvertForeignCurrencyExpensesToTheBaseCurrency()
+    {
+        // Arrange
+        int categoryId = 1;
+        var startDate = new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc);
+        var endDate = new DateTime(2025, 1, 31, 23, 59, 59, DateTimeKind.Utc);
+
+        var category = new Category
+        {
+            Id = categoryId,
+            Name = "Travel",
+            UserId = _userId,
+        };
+
+        var sydneyHotel = CreateTransaction(-200m, categoryId, new DateTime(2025, 1, 10));
+        sydneyHotel.Account = new Account { Name = "AUD card", Currency = "AUD", UserId = _userId };
+
+        var transactions = new List<Transaction>
+        {
+            CreateTransaction(-50m, categoryId, new DateTime(2025, 1, 5)),
+            sydneyHotel,
+        };
+
+        _categoryRepository.GetByIdAsync(categoryId).Returns(category);
+        _transactionRepository.GetByDateRangeAsync(_userId, startDate, endDate)
+            .Returns(transactions);
+        _exchangeRateService.GetConverterAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new CurrencyConverter("NZD", new[]
+            {
+                new ExchangeRate { FromCurrency = "AUD", ToCurrency = "NZD", Rate = 1.0850m, RateDate = new DateTime(2025, 1, 1) }
+            }));
+
+        // Act
+        var result = await _service.GetCategorySpendingAsync(
+            categoryId, _userId, startDate, endDate);
+
+        // Assert
+        result.TotalSpent.Should().Be(267m); // 50 + 200 AUD * 1.085
+        result.TransactionCount.Should().Be(2);
+    }
+
+    [Fact]
+    public async Task GetCategorySpendingAsync_WithSplitTransaction_ShouldCountOnlyTheCategorysLines()
+    {
+        // Arrange
+        int groceryId = 1;
+        int householdId = 2;
+        var startDate = new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc);
+        var endDate = new DateTime(2025, 1, 31, 23, 59, 59, DateTimeKind.Utc);
+
+        var category = new Category { Id = groceryId, Name = "Groceries", UserId = _userId };
+
+        var transactions = new List<Transaction>
+        {
+            // Two grocery lines on one receipt still count as one transaction
+            CreateSplitTransaction(new DateTime(2025, 1, 5), (groceryId, -60m), (householdId, -30m), (groceryId, -10m)),
+            CreateTransaction(-25m, householdId, new DateTime(2025, 1, 8)),
+        };
+
+        _categoryRepository.GetByIdAsync(groceryId).Returns(category);
+        _transactionRepository.GetByDateRangeAsync(_userId, startDate, endDate)
+            .Returns(transactions);
+
+        // Act
+        var result = await _service.GetCategorySpendingAsync(
+            groceryId, _userId, startDate, endDate);
+
+        // Assert
+        result.TotalSpent.Should().Be(70m);
+        result.TransactionCount.Should().Be(1);
+    }
+
     #endregion
 
     #region GetCategorySpendingBatchAsync Tests
@@ -632,6 +710,57 @@ public class BudgetCalculationServiceTests
         categoryProgress.IsOverBudget.Should().BeFalse();
     }
 
+    [Fact]
+    public async Task CalculateBudgetProgressAsync_WithSplitTransaction_ShouldAttributeEachLineToItsCategory()
+    {
+        // Arrange
+        int groceryId = 1;
+        int householdId = 2;
+        var groceryCategory = new Category { Id = groceryId, Name = "Groceries", UserId = _userId };
+        var householdCategory = new Category { Id = householdId, Name = "Household", UserId = _userId };
+
+        var budget = new Budget
+        {
+            Id = 1,
+            Name = "January Budget",
+            UserId = _userId,
+            PeriodType = BudgetPeriodType.Monthly,
+            StartDate = new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc),
+            IsActive = true,
+            BudgetCategories = new List<BudgetCategory>
+            {
+                new() { Id = 1, CategoryId = groceryId, Category = groceryCategory, BudgetedAmount = 400m, IncludeSubcategories = true },
+                new() { Id = 2, CategoryId = householdId, Category = householdCategory, BudgetedAmount = 100m, IncludeSubcategories = true }
+            }
+        };
+
+        // The transaction's own category follows its largest line, but each line counts separately
+        var transactions = new List<Transaction>
+        {
+            CreateSplitTransaction(new DateTime(2025, 1, 10), (groceryId, -120m), (householdId, -80m)),
+        };
+
+        _categoryRepository.GetByUserIdAsync(_userId).Returns(new List<Category> { groceryCategory, householdCategory });
+        _transactionRepository.GetByDateRangeAsync(_userId, Arg.Any<DateTime>(), Arg.Any<DateTime>())
+            .Returns(transactions);
+
+        // Act
+        var result = await _service.CalculateBudgetProgressAsync(budget, _userId);
+
+        // Assert
+        result.TotalSpent.Should().Be(200m);
+
+        var groceries = result.Categories.Single(c => c.CategoryId == groceryId);
+        groceries.ActualSpent.Should().Be(120m);
+        groceries.TransactionCount.Should().Be(1);
+        groceries.IsOverBudget.Should().BeFalse();
+
+        var household = result.Categories.Single(c => c.CategoryId == householdId);
+        household.ActualSpent.Should().Be(80m);
+        household.TransactionCount.Should().Be(1);
+        household.IsOverBudget.Should().BeFalse();
+    }
+
     [Fact]
     public async Task CalculateBudgetProgressAsync_WithOverspending_ShouldIndicateOverBudget()
     {
@@ -879,5 +1008,12 @@ public class BudgetCalculationServiceTests
         };
     }
 
+    private Transaction CreateSplitTransaction(DateTime date, params (int CategoryId, decimal Amount)[] lines)
+    {
+        var transaction = CreateTransaction(lines.Sum(l => l.Amount), null, date);
+        transaction.ReplaceSplits(lines.Select(l => new TransactionSplit { CategoryId = l.CategoryId, Amount = l.Amount }));
+        return transaction;
+    }
+
     #endregion
 }
@@ -19,6 +19,7 @@ public class CategorizationPipelineTests
     private readonly LLMHandler _llmHandler;
     private readonly ICategorizationCandidatesService _candidatesService;
     private readonly ITransactionRepository _transactionRepository;
+    private readonly ITagService _tagService;
     private readonly ILogger<CategorizationPipeline> _logger;
     private readonly CategorizationPipeline _pipeline;
     private readonly Guid _userId = Guid.NewGuid();
@@ -55,6 +56,7 @@ public class CategorizationPipelineTests
         _candidatesService = Substitute.For<ICategorizationCandidatesService>();
         var historyService = Substitute.For<ICategorizationHistoryService>();
         _transactionRepository = Substitute.For<ITransactionRepository>();
+        _tagService = Substitute.For<ITagService>();
         _logger = Substitute.For<ILogger<CategorizationPipeline>>();
 
         _pipeline = new CategorizationPipeline(
@@ -65,6 +67,7 @@ public class CategorizationPipelineTests
             _candidatesService,
             historyService,
             _transactionRepository,
+            _tagService,
             _logger);
     }
 
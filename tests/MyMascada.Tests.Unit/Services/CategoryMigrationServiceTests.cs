@@ -0,0 +1,301 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Features.Categories.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Categories;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class CategoryMigrationServiceTests : IDisposable
+{
+    private const int TargetId = 1;
+    private const int SourceId = 2;
+    private const int SystemCategoryId = 3;
+
+    private readonly ApplicationDbContext _context;
+    private readonly CategoryMigrationService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public CategoryMigrationServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning))
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _service = new CategoryMigrationService(_context, Substitute.For<ILogger<CategoryMigrationService>>());
+
+        _context.Categories.AddRange(
+            new Category { Id = TargetId, Name = "Groceries", UserId = _userId },
+            new Category { Id = SourceId, Name = "Supermarket", UserId = _userId },
+            new Category { Id = SystemCategoryId, Name = "Uncategorized", IsSystemCategory = true });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private Transaction AddTransaction(int id, int categoryId, string description)
+    {
+        var transaction = new Transaction
+        {
+            Id = id,
+            AccountId = 1,
+            CategoryId = categoryId,
+            Amount = -10m,
+            Description = description,
+            TransactionDate = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc)
+        };
+        _context.Transactions.Add(transaction);
+        return transaction;
+    }
+
+    #region Merge
+
+    [Fact]
+    public async Task MergeAsync_ShouldMoveEveryReferenceToTargetAndDeleteSource()
+    {
+        // Arrange
+        AddTransaction(10, SourceId, "Countdown");
+        AddTransaction(11, SourceId, "New World");
+        AddTransaction(12, TargetId, "Pak n Save");
+        _context.TransactionSplits.Add(new TransactionSplit { Id = 1, TransactionId = 12, CategoryId = SourceId, Amount = -4m });
+        _context.CategorizationRules.Add(new CategorizationRule { Id = 1, Name = "Countdown", Pattern = "countdown", UserId = _userId, CategoryId = SourceId });
+        _context.BankCategoryMappings.Add(new BankCategoryMapping { Id = 1, BankCategoryName = "Supermarkets", NormalizedName = "supermarkets", ProviderId = "akahu", UserId = _userId, CategoryId = SourceId });
+        _context.RecurringPatterns.Add(new RecurringPattern { Id = 1, UserId = _userId, MerchantName = "Countdown", NormalizedMerchantKey = "countdown", CategoryId = SourceId });
+        _context.RecurringSchedules.Add(new RecurringSchedule { Id = 1, UserId = _userId, Name = "Weekly shop", AccountId = 1, Amount = -150m, CategoryId = SourceId });
+        _context.RuleSuggestions.AddRange(
+            new RuleSuggestion { Id = 1, Name = "Open", Pattern = "nw", UserId = _userId, SuggestedCategoryId = SourceId },
+            new RuleSuggestion { Id = 2, Name = "Accepted", Pattern = "cd", UserId = _userId, SuggestedCategoryId = SourceId, IsAccepted = true });
+        _context.CategorizationCandidates.AddRange(
+            new CategorizationCandidate { Id = 1, TransactionId = 10, CategoryId = SourceId, CategorizationMethod = "Rule", Status = CandidateStatus.Pending },
+            new CategorizationCandidate { Id = 2, TransactionId = 11, CategoryId = SourceId, CategorizationMethod = "Rule", Status = CandidateStatus.Rejected });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var summary = await _service.MergeAsync(_userId, new[] { SourceId }, TargetId, dryRun: false);
+
+        // Assert
+        summary.TransactionCount.Should().Be(2);
+        summary.SplitLineCount.Should().Be(1);
+        summary.RuleCount.Should().Be(1);
+        summary.BankCategoryMappingCount.Should().Be(1);
+        summary.RecurringPatternCount.Should().Be(1);
+        summary.RecurringScheduleCount.Should().Be(1);
+
+        (await _context.Transactions.CountAsync(t => t.CategoryId == TargetId)).Should().Be(3);
+        (await _context.TransactionSplits.SingleAsync()).CategoryId.Should().Be(TargetId);
+        (await _context.CategorizationRules.SingleAsync()).CategoryId.Should().Be(TargetId);
+        (await _context.BankCategoryMappings.SingleAsync()).CategoryId.Should().Be(TargetId);
+        (await _context.RecurringPatterns.SingleAsync()).CategoryId.Should().Be(TargetId);
+        (await _context.RecurringSchedules.SingleAsync()).CategoryId.Should().Be(TargetId);
+
+        // Only open suggestions and pending candidates follow the merge
+        (await _context.RuleSuggestions.SingleAsync(rs => rs.Id == 1)).SuggestedCategoryId.Should().Be(TargetId);
+        (await _context.RuleSuggestions.SingleAsync(rs => rs.Id == 2)).SuggestedCategoryId.Should().Be(SourceId);
+        (await _context.CategorizationCandidates.SingleAsync(cc => cc.Id == 1)).CategoryId.Should().Be(TargetId);
+        (await _context.CategorizationCandidates.SingleAsync(cc => cc.Id == 2)).CategoryId.Should().Be(SourceId);
+
+        var source = await _context.Categories.IgnoreQueryFilters().SingleAsync(c => c.Id == SourceId);
+        source.IsDeleted.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task MergeAsync_DryRun_ShouldReportCountsWithoutChangingAnything()
+    {
+        // Arrange
+        AddTransaction(10, SourceId, "Countdown");
+        _context.CategorizationRules.Add(new CategorizationRule { Id = 1, Name = "Countdown", Pattern = "countdown", UserId = _userId, CategoryId = SourceId });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var summary = await _service.MergeAsync(_userId, new[] { SourceId }, TargetId, dryRun: true);
+
+        // Assert
+        summary.TransactionCount.Should().Be(1);
+        summary.RuleCount.Should().Be(1);
+        (await _context.Transactions.SingleAsync()).CategoryId.Should().Be(SourceId);
+        (await _context.Categories.SingleAsync(c => c.Id == SourceId)).IsDeleted.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task MergeAsync_ShouldFoldSourceBudgetAllocationsIntoTarget()
+    {
+        // Arrange
+        _context.Budgets.Add(new Budget { Id = 1, Name = "October", UserId = _userId, StartDate = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc) });
+        _context.BudgetCategories.AddRange(
+            new BudgetCategory { Id = 1, BudgetId = 1, CategoryId = TargetId, BudgetedAmount = 200m },
+            new BudgetCategory { Id = 2, BudgetId = 1, CategoryId = SourceId, BudgetedAmount = 100m, RolloverAmount = 15m });
+        _context.Budgets.Add(new Budget { Id = 2, Name = "November", UserId = _userId, StartDate = new DateTime(2026, 11, 1, 0, 0, 0, DateTimeKind.Utc) });
+        _context.BudgetCategories.Add(new BudgetCategory { Id = 3, BudgetId = 2, CategoryId = SourceId, BudgetedAmount = 80m });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var summary = await _service.MergeAsync(_userId, new[] { SourceId }, TargetId, dryRun: false);
+
+        // Assert
+        summary.BudgetCount.Should().Be(2);
+        summary.CombinedBudgetAllocationCount.Should().Be(1);
+
+        var october = await _context.BudgetCategories.Where(bc => bc.BudgetId == 1).ToListAsync();
+        october.Should().ContainSingle();
+        october[0].CategoryId.Should().Be(TargetId);
+        october[0].BudgetedAmount.Should().Be(300m);
+        october[0].RolloverAmount.Should().Be(15m);
+
+        // Without a target allocation, the source allocation is re-pointed at the target
+        var november = await _context.BudgetCategories.SingleAsync(bc => bc.BudgetId == 2);
+        november.Id.Should().Be(3);
+        november.CategoryId.Should().Be(TargetId);
+        november.BudgetedAmount.Should().Be(80m);
+    }
+
+    [Fact]
+    public async Task MergeAsync_ShouldMoveSubcategoriesUnderTargetWithoutCreatingACycle()
+    {
+        // Arrange - the target is itself a child of the source
+        var target = await _context.Categories.SingleAsync(c => c.Id == TargetId);
+        target.ParentCategoryId = SourceId;
+        _context.Categories.Add(new Category { Id = 4, Name = "Bakery", UserId = _userId, ParentCategoryId = SourceId });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var summary = await _service.MergeAsync(_userId, new[] { SourceId }, TargetId, dryRun: false);
+
+        // Assert
+        summary.SubcategoryCount.Should().Be(1);
+        (await _context.Categories.SingleAsync(c => c.Id == 4)).ParentCategoryId.Should().Be(TargetId);
+        (await _context.Categories.SingleAsync(c => c.Id == TargetId)).ParentCategoryId.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task MergeAsync_IntoItself_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.MergeAsync(_userId, new[] { TargetId }, TargetId, dryRun: true);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task MergeAsync_SystemCategoryAsSource_ShouldThrowUnauthorized()
+    {
+        // Act
+        var act = () => _service.MergeAsync(_userId, new[] { SystemCategoryId }, TargetId, dryRun: true);
+
+        // Assert
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+
+    #region Split
+
+    [Fact]
+    public async Task SplitAsync_ShouldMoveSelectedTransactionsBeforePatternMatches()
+    {
+        // Arrange
+        AddTransaction(10, SourceId, "Coffee Supreme");
+        AddTransaction(11, SourceId, "Coffee Club");
+        AddTransaction(12, SourceId, "Countdown");
+        _context.CategorizationRules.Add(new CategorizationRule { Id = 1, Name = "Countdown", Pattern = "countdown", UserId = _userId, CategoryId = SourceId });
+        await _context.SaveChangesAsync();
+
+        var targets = new List<CategorySplitTargetRequest>
+        {
+            new() { CategoryId = TargetId, TransactionIds = new List<int> { 10 } },
+            new() { NewCategoryName = " Coffee ", Pattern = "coffee" }
+        };
+
+        // Act
+        var summary = await _service.SplitAsync(_userId, SourceId, targets, dryRun: false);
+
+        // Assert
+        summary.TransactionCount.Should().Be(2);
+        summary.RemainingTransactionCount.Should().Be(1);
+        summary.RuleCount.Should().Be(1);
+        summary.Targets.Select(t => t.TransactionCount).Should().Equal(1, 1);
+
+        var coffee = await _context.Categories.SingleAsync(c => c.Name == "Coffee");
+        coffee.ParentCategoryId.Should().Be(SourceId);
+        coffee.UserId.Should().Be(_userId);
+        summary.Targets[1].CategoryId.Should().Be(coffee.Id);
+
+        (await _context.Transactions.SingleAsync(t => t.Id == 10)).CategoryId.Should().Be(TargetId);
+        (await _context.Transactions.SingleAsync(t => t.Id == 11)).CategoryId.Should().Be(coffee.Id);
+        (await _context.Transactions.SingleAsync(t => t.Id == 12)).CategoryId.Should().Be(SourceId);
+
+        // Other references stay with the source
+        (await _context.CategorizationRules.SingleAsync()).CategoryId.Should().Be(SourceId);
+    }
+
+    [Fact]
+    public async Task SplitAsync_ShouldMoveSchedulesMatchingATargetPattern()
+    {
+        // Arrange
+        AddTransaction(10, SourceId, "Coffee Supreme");
+        _context.RecurringSchedules.AddRange(
+            new RecurringSchedule { Id = 1, UserId = _userId, Name = "Beans", MatchText = "COFFEE SUPREME", AccountId = 1, Amount = -40m, CategoryId = SourceId },
+            new RecurringSchedule { Id = 2, UserId = _userId, Name = "Weekly shop", AccountId = 1, Amount = -150m, CategoryId = SourceId });
+        await _context.SaveChangesAsync();
+
+        var targets = new List<CategorySplitTargetRequest>
+        {
+            new() { NewCategoryName = "Coffee", Pattern = "coffee" }
+        };
+
+        // Act
+        var preview = await _service.SplitAsync(_userId, SourceId, targets, dryRun: true);
+        var summary = await _service.SplitAsync(_userId, SourceId, targets, dryRun: false);
+
+        // Assert
+        preview.RecurringScheduleCount.Should().Be(1);
+        summary.RecurringScheduleCount.Should().Be(1);
+
+        var coffee = await _context.Categories.SingleAsync(c => c.Name == "Coffee");
+        (await _context.RecurringSchedules.SingleAsync(s => s.Id == 1)).CategoryId.Should().Be(coffee.Id);
+        (await _context.RecurringSchedules.SingleAsync(s => s.Id == 2)).CategoryId.Should().Be(SourceId);
+    }
+
+    [Fact]
+    public async Task SplitAsync_DryRun_ShouldNotCreateCategoriesOrMoveTransactions()
+    {
+        // Arrange
+        AddTransaction(10, SourceId, "Coffee Supreme");
+        await _context.SaveChangesAsync();
+
+        var targets = new List<CategorySplitTargetRequest>
+        {
+            new() { NewCategoryName = "Coffee", Pattern = "coffee" }
+        };
+
+        // Act
+        var summary = await _service.SplitAsync(_userId, SourceId, targets, dryRun: true);
+
+        // Assert
+        summary.Targets.Should().ContainSingle(t => t.IsNew && t.CategoryName == "Coffee" && t.TransactionCount == 1);
+        (await _context.Categories.AnyAsync(c => c.Name == "Coffee")).Should().BeFalse();
+        (await _context.Transactions.SingleAsync()).CategoryId.Should().Be(SourceId);
+    }
+
+    [Fact]
+    public async Task SplitAsync_TargetWithoutTransactionsOrPattern_ShouldThrow()
+    {
+        // Arrange
+        var targets = new List<CategorySplitTargetRequest> { new() { CategoryId = TargetId } };
+
+        // Act
+        var act = () => _service.SplitAsync(_userId, SourceId, targets, dryRun: true);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    #endregion
+}
@@ -0,0 +1,120 @@
+using MyMascada.Application.Common;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class CurrencyConverterTests
+{
+    private static ExchangeRate Rate(string from, string to, decimal rate, int year, int month, int day)
+    {
+        return new ExchangeRate { FromCurrency = from, ToCurrency = to, Rate = rate, RateDate = new DateTime(year, month, day) };
+    }
+
+    [Fact]
+    public void ToBase_InTheBaseCurrencyOrWithoutCurrency_ShouldReturnTheAmount()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("nzd", new[] { Rate("AUD", "NZD", 1.08m, 2025, 1, 1) });
+
+        // Act & Assert
+        converter.BaseCurrency.Should().Be("NZD");
+        converter.ToBase(123.45m, "NZD", new DateTime(2025, 3, 1)).Should().Be(123.45m);
+        converter.ToBase(123.45m, null, new DateTime(2025, 3, 1)).Should().Be(123.45m);
+        converter.MissingCurrencies.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void ToBase_ShouldUseTheLatestRateOnOrBeforeTheDate()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[]
+        {
+            Rate("AUD", "NZD", 1.10m, 2025, 2, 1),
+            Rate("AUD", "NZD", 1.08m, 2025, 1, 1)
+        });
+
+        // Act & Assert
+        converter.ToBase(-100m, "AUD", new DateTime(2025, 1, 20)).Should().Be(-108m);
+        converter.ToBase(-100m, "aud", new DateTime(2025, 2, 1)).Should().Be(-110m);
+        converter.ToBase(-100m, "AUD", new DateTime(2025, 6, 30)).Should().Be(-110m);
+    }
+
+    [Fact]
+    public void ToBase_BeforeTheFirstRate_ShouldUseTheEarliestRate()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[]
+        {
+            Rate("AUD", "NZD", 1.08m, 2025, 1, 1),
+            Rate("AUD", "NZD", 1.10m, 2025, 2, 1)
+        });
+
+        // Act
+        var result = converter.ToBase(50m, "AUD", new DateTime(2024, 11, 15));
+
+        // Assert
+        result.Should().Be(54m);
+    }
+
+    [Fact]
+    public void ToBase_WithOnlyTheInverseRate_ShouldDivide()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[] { Rate("NZD", "USD", 0.60m, 2025, 1, 1) });
+
+        // Act
+        var result = converter.ToBase(60m, "USD", new DateTime(2025, 1, 10));
+
+        // Assert
+        result.Should().Be(100m);
+    }
+
+    [Fact]
+    public void ToBase_ShouldRoundToCents()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[] { Rate("EUR", "NZD", 1.8123m, 2025, 1, 1) });
+
+        // Act
+        var result = converter.ToBase(9.99m, "EUR", new DateTime(2025, 1, 10));
+
+        // Assert
+        result.Should().Be(18.10m); // 18.104877
+    }
+
+    [Fact]
+    public void GetRate_BetweenTwoForeignCurrencies_ShouldCrossThroughTheBaseCurrency()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[]
+        {
+            Rate("AUD", "NZD", 1.10m, 2025, 1, 1),
+            Rate("USD", "NZD", 1.76m, 2025, 1, 1)
+        });
+
+        // Act
+        var rate = converter.GetRate("AUD", "USD", new DateTime(2025, 1, 10));
+
+        // Assert
+        rate.Should().Be(0.625m);
+    }
+
+    [Fact]
+    public void ToBase_WithoutAnyRate_ShouldReturnTheAmountAndReportTheCurrency()
+    {
+        // Arrange
+        var converter = new CurrencyConverter("NZD", new[]
+        {
+            Rate("AUD", "NZD", 1.08m, 2025, 1, 1),
+            Rate("JPY", "NZD", 0m, 2025, 1, 1)      // Non-positive rates are ignored
+        });
+
+        // Act
+        var result = converter.ToBase(-5000m, "jpy", new DateTime(2025, 1, 10));
+
+        // Assert
+        result.Should().Be(-5000m);
+        converter.MissingCurrencies.Should().Equal("JPY");
+        converter.GetRate("JPY", "AUD", new DateTime(2025, 1, 10)).Should().BeNull();
+    }
+}
@@ -0,0 +1,310 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Debts.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Debts;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class DebtServiceTests : IDisposable
+{
+    private const int MortgageId = 1;
+    private const int VisaId = 2;
+    private const int AudCardId = 3;
+    private const int CarLoanId = 4;
+    private const int CheckingId = 5;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly DebtService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly HashSet<int> _accessibleIds = new() { MortgageId, VisaId, AudCardId, CarLoanId, CheckingId };
+
+    public DebtServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        _accountAccess = Substitute.For<IAccountAccessService>();
+        _accountAccess.GetAccessibleAccountIdsAsync(_userId).Returns(_accessibleIds);
+        _accountAccess.CanAccessAccountAsync(_userId, Arg.Any<int>()).Returns(callInfo => _accessibleIds.Contains(callInfo.ArgAt<int>(1)));
+        _accountAccess.CanModifyAccountAsync(_userId, Arg.Any<int>()).Returns(callInfo => _accessibleIds.Contains(callInfo.ArgAt<int>(1)));
+
+        // Liability balances are negative while money is owed
+        var transactionRepository = Substitute.For<ITransactionRepository>();
+        transactionRepository.GetAccountBalancesAsync(_userId).Returns(new Dictionary<int, decimal>
+        {
+            [MortgageId] = -25000m,
+            [VisaId] = -3000m,
+            [AudCardId] = -3000m,
+            [CarLoanId] = 0m,
+            [CheckingId] = -150m
+        });
+        transactionRepository.GetAccountBalanceAsync(AudCardId, _userId).Returns(-3000m);
+
+        var exchangeRateService = Substitute.For<IExchangeRateService>();
+        exchangeRateService.GetConverterAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(_ => new CurrencyConverter("NZD", new[]
+            {
+                new ExchangeRate { FromCurrency = "AUD", ToCurrency = "NZD", Rate = 1.10m, RateDate = new DateTime(2020, 1, 1) }
+            }));
+
+        _service = new DebtService(
+            _context,
+            _accountAccess,
+            transactionRepository,
+            exchangeRateService,
+            Substitute.For<ILogger<DebtService>>());
+
+        _context.Accounts.AddRange(
+            new Account { Id = MortgageId, Name = "Mortgage", Type = AccountType.Loan, Currency = "NZD", UserId = _userId },
+            new Account { Id = VisaId, Name = "Visa", Type = AccountType.CreditCard, Currency = "NZD", UserId = _userId },
+            new Account { Id = AudCardId, Name = "Sydney card", Type = AccountType.CreditCard, Currency = "AUD", UserId = _userId },
+            new Account { Id = CarLoanId, Name = "Car loan", Type = AccountType.Loan, Currency = "NZD", UserId = _userId },
+            new Account { Id = CheckingId, Name = "Everyday", Type = AccountType.Checking, Currency = "NZD", UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Debts
+
+    [Fact]
+    public async Task GetDebtsAsync_ShouldListOwedDebtsLargestFirstInTheBaseCurrency()
+    {
+        // Act
+        var result = await _service.GetDebtsAsync(_userId);
+
+        // Assert
+        result.BaseCurrency.Should().Be("NZD");
+        result.UnconvertedCurrencies.Should().BeEmpty();
+
+        // The paid-off loan and the overdrawn checking account aren't debts to plan
+        result.Debts.Select(d => d.AccountId).Should().Equal(MortgageId, AudCardId, VisaId);
+
+        var audCard = result.Debts.Single(d => d.AccountId == AudCardId);
+        audCard.Balance.Should().Be(3000m);
+        audCard.BaseBalance.Should().Be(3300m);
+    }
+
+    [Fact]
+    public async Task GetDebtsAsync_ShouldConvertMinimumPaymentsAndLeaveDebtsWithoutTermsBlank()
+    {
+        // Arrange
+        await _service.SaveTermsAsync(_userId, AudCardId, new SaveDebtTermsRequest { AnnualInterestRate = 20.99m, MinimumPayment = 100m });
+
+        // Act
+        var result = await _service.GetDebtsAsync(_userId);
+
+        // Assert
+        var audCard = result.Debts.Single(d => d.AccountId == AudCardId);
+        audCard.Terms!.MinimumPayment.Should().Be(100m);
+        audCard.BaseMinimumPayment.Should().Be(110m);
+
+        var visa = result.Debts.Single(d => d.AccountId == VisaId);
+        visa.Terms.Should().BeNull();
+        visa.BaseMinimumPayment.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetDebtsAsync_ShouldLeaveOutAccountsTheUserCannotAccess()
+    {
+        // Arrange
+        _accessibleIds.Remove(MortgageId);
+
+        // Act
+        var result = await _service.GetDebtsAsync(_userId);
+
+        // Assert
+        result.Debts.Select(d => d.AccountId).Should().Equal(AudCardId, VisaId);
+    }
+
+    [Fact]
+    public async Task GetDebtAsync_WithoutAccess_ShouldThrow()
+    {
+        // Arrange
+        _accessibleIds.Remove(AudCardId);
+
+        // Act
+        var act = () => _service.GetDebtAsync(_userId, AudCardId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Account not found.");
+    }
+
+    #endregion
+
+    #region Terms
+
+    [Fact]
+    public async Task SaveTermsAsync_ShouldStoreTheTermsAndWorkOutTheMaturityDate()
+    {
+        // Act
+        var terms = await _service.SaveTermsAsync(_userId, MortgageId, new SaveDebtTermsRequest
+        {
+            AnnualInterestRate = 6.49m,
+            MinimumPayment = 1687.456m,
+            TermMonths = 300,
+            StartDate = new DateTime(2024, 3, 15, 10, 30, 0, DateTimeKind.Utc)
+        });
+
+        // Assert
+        terms.MinimumPayment.Should().Be(1687.46m);
+        terms.StartDate.Should().Be(new DateTime(2024, 3, 15, 0, 0, 0, DateTimeKind.Utc));
+        terms.MaturityDate.Should().Be(new DateTime(2049, 3, 15, 0, 0, 0, DateTimeKind.Utc));
+
+        var row = await _context.DebtTerms.SingleAsync();
+        row.AccountId.Should().Be(MortgageId);
+        row.AnnualInterestRate.Should().Be(6.49m);
+    }
+
+    [Fact]
+    public async Task SaveTermsAsync_WhenTermsExist_ShouldReplaceThem()
+    {
+        // Arrange
+        await _service.SaveTermsAsync(_userId, VisaId, new SaveDebtTermsRequest { AnnualInterestRate = 20.95m, MinimumPayment = 60m });
+
+        // Act
+        var terms = await _service.SaveTermsAsync(_userId, VisaId, new SaveDebtTermsRequest { AnnualInterestRate = 22.95m, MinimumPayment = 75m });
+
+        // Assert
+        terms.AnnualInterestRate.Should().Be(22.95m);
+        terms.MaturityDate.Should().BeNull();
+        (await _context.DebtTerms.CountAsync()).Should().Be(1);
+    }
+
+    [Theory]
+    [InlineData(-1, 50, null, "The interest rate*")]
+    [InlineData(101, 50, null, "The interest rate*")]
+    [InlineData(10, -50, null, "The minimum payment*")]
+    [InlineData(10, 50, 0, "The term*")]
+    [InlineData(10, 50, 601, "The term*")]
+    public async Task SaveTermsAsync_WithInvalidTerms_ShouldThrow(double rate, double payment, int? termMonths, string message)
+    {
+        // Act
+        var act = () => _service.SaveTermsAsync(_userId, MortgageId, new SaveDebtTermsRequest
+        {
+            AnnualInterestRate = (decimal)rate,
+            MinimumPayment = (decimal)payment,
+            TermMonths = termMonths
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage(message);
+    }
+
+    [Fact]
+    public async Task SaveTermsAsync_OnAnAccountThatIsNotADebt_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.SaveTermsAsync(_userId, CheckingId, new SaveDebtTermsRequest { AnnualInterestRate = 5m, MinimumPayment = 10m });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Terms can only be set on loan and credit card accounts.");
+    }
+
+    [Fact]
+    public async Task DeleteTermsAsync_ShouldSoftDeleteTheTerms()
+    {
+        // Arrange
+        await _service.SaveTermsAsync(_userId, VisaId, new SaveDebtTermsRequest { AnnualInterestRate = 20.95m, MinimumPayment = 60m });
+
+        // Act
+        await _service.DeleteTermsAsync(_userId, VisaId);
+
+        // Assert
+        (await _context.DebtTerms.AnyAsync()).Should().BeFalse();
+        (await _context.DebtTerms.IgnoreQueryFilters().SingleAsync()).IsDeleted.Should().BeTrue();
+
+        var again = () => _service.DeleteTermsAsync(_userId, VisaId);
+        await again.Should().ThrowAsync<ArgumentException>().WithMessage("The account has no terms.");
+    }
+
+    #endregion
+
+    #region Payoff plan
+
+    [Fact]
+    public async Task GetDebtsAsync_WithoutASavedPlan_ShouldReturnTheDefaultPlan()
+    {
+        // Act
+        var result = await _service.GetDebtsAsync(_userId);
+
+        // Assert
+        result.Plan.Strategy.Should().Be("avalanche");
+        result.Plan.ExtraPayment.Should().Be(0m);
+    }
+
+    [Fact]
+    public async Task SavePlanAsync_ShouldBeReturnedWithTheDebts()
+    {
+        // Act
+        var saved = await _service.SavePlanAsync(_userId, new SaveDebtPayoffPlanRequest { Strategy = "Snowball", ExtraPayment = 250.555m });
+
+        // Assert
+        saved.Strategy.Should().Be("snowball");
+        saved.ExtraPayment.Should().Be(250.56m);
+
+        var result = await _service.GetDebtsAsync(_userId);
+        result.Plan.Strategy.Should().Be("snowball");
+        result.Plan.ExtraPayment.Should().Be(250.56m);
+    }
+
+    [Fact]
+    public async Task SavePlanAsync_WhenAPlanExists_ShouldReplaceIt()
+    {
+        // Arrange
+        await _service.SavePlanAsync(_userId, new SaveDebtPayoffPlanRequest { Strategy = "snowball", ExtraPayment = 250m });
+
+        // Act
+        await _service.SavePlanAsync(_userId, new SaveDebtPayoffPlanRequest { Strategy = "avalanche", ExtraPayment = 100m });
+
+        // Assert
+        var plan = await _context.DebtPayoffPlans.SingleAsync();
+        plan.UserId.Should().Be(_userId);
+        plan.Strategy.Should().Be(DebtPayoffStrategy.Avalanche);
+        plan.ExtraPayment.Should().Be(100m);
+    }
+
+    [Fact]
+    public async Task SavePlanAsync_ShouldKeepEachUsersPlanSeparate()
+    {
+        // Arrange
+        var otherUserId = Guid.NewGuid();
+        await _service.SavePlanAsync(otherUserId, new SaveDebtPayoffPlanRequest { Strategy = "snowball", ExtraPayment = 500m });
+
+        // Act
+        var result = await _service.GetDebtsAsync(_userId);
+
+        // Assert
+        result.Plan.Strategy.Should().Be("avalanche");
+        result.Plan.ExtraPayment.Should().Be(0m);
+    }
+
+    [Theory]
+    [InlineData("fastest", 100, "The strategy*")]
+    [InlineData("", 100, "The strategy*")]
+    [InlineData("7", 100, "The strategy*")]
+    [InlineData("avalanche", -1, "The extra payment*")]
+    public async Task SavePlanAsync_WithInvalidPlan_ShouldThrow(string strategy, double extraPayment, string message)
+    {
+        // Act
+        var act = () => _service.SavePlanAsync(_userId, new SaveDebtPayoffPlanRequest { Strategy = strategy, ExtraPayment = (decimal)extraPayment });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage(message);
+        (await _context.DebtPayoffPlans.AnyAsync()).Should().BeFalse();
+    }
+
+    #endregion
+}
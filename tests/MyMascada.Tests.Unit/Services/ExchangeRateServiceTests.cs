@@ -0,0 +1,204 @@
+using System.Text;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Features.ExchangeRates.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.ExchangeRates;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class ExchangeRateServiceTests : IDisposable
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ExchangeRateService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public ExchangeRateServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _service = new ExchangeRateService(_context, Substitute.For<ILogger<ExchangeRateService>>());
+
+        _context.Users.Add(new User
+        {
+            Id = _userId,
+            Email = "rates@example.com",
+            UserName = "rates",
+            PasswordHash = "hash",
+            FirstName = "Rates",
+            LastName = "User",
+            Currency = "NZD"
+        });
+        _context.Accounts.AddRange(
+            new Account { Id = 1, Name = "Everyday", Type = AccountType.Checking, Currency = "NZD", UserId = _userId },
+            new Account { Id = 2, Name = "Sydney card", Type = AccountType.CreditCard, Currency = "AUD", UserId = _userId },
+            new Account { Id = 3, Name = "US broker", Type = AccountType.Investment, Currency = "USD", UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private static SaveExchangeRateRequest Request(string from, string to, decimal rate, DateTime? date = null)
+    {
+        return new SaveExchangeRateRequest
+        {
+            FromCurrency = from,
+            ToCurrency = to,
+            Rate = rate,
+            RateDate = date ?? new DateTime(2025, 1, 10, 0, 0, 0, DateTimeKind.Utc)
+        };
+    }
+
+    private static MemoryStream Csv(string content) => new(Encoding.UTF8.GetBytes(content));
+
+    #region Save
+
+    [Fact]
+    public async Task SaveRateAsync_ForTheSamePairAndDay_ShouldReplaceTheRate()
+    {
+        // Arrange
+        await _service.SaveRateAsync(_userId, Request("aud", "nzd", 1.08m));
+
+        // Act
+        var saved = await _service.SaveRateAsync(_userId, Request("AUD", "NZD", 1.09m, new DateTime(2025, 1, 10, 15, 30, 0, DateTimeKind.Utc)));
+
+        // Assert
+        saved.FromCurrency.Should().Be("AUD");
+        saved.ToCurrency.Should().Be("NZD");
+        saved.Rate.Should().Be(1.09m);
+        saved.RateDate.Should().Be(new DateTime(2025, 1, 10));
+        (await _context.ExchangeRates.CountAsync()).Should().Be(1);
+    }
+
+    [Theory]
+    [InlineData("AUD", "AUD", 1.0, "*different*")]
+    [InlineData("AU", "NZD", 1.08, "*ISO 4217*")]
+    [InlineData("AUD", "NZD", 0, "*greater than 0*")]
+    public async Task SaveRateAsync_WithInvalidRate_ShouldThrow(string from, string to, decimal rate, string message)
+    {
+        // Act
+        var act = () => _service.SaveRateAsync(_userId, Request(from, to, rate));
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage(message);
+    }
+
+    [Fact]
+    public async Task SaveRateAsync_WithFutureDate_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.SaveRateAsync(_userId, Request("AUD", "NZD", 1.08m, DateTime.UtcNow.Date.AddDays(3)));
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*future*");
+    }
+
+    #endregion
+
+    #region Import
+
+    [Fact]
+    public async Task ImportRatesAsync_ShouldSkipTheHeaderAndReplaceExistingRates()
+    {
+        // Arrange
+        await _service.SaveRateAsync(_userId, Request("AUD", "NZD", 1.05m));
+        var csv = Csv("date,from,to,rate\n" +
+                      "2025-01-10,AUD,NZD,1.08\n" +
+                      "2025-01-11;USD;NZD;1.76\n" +
+                      "\n" +
+                      "10/01/2025,EUR,NZD,1.81\n");
+
+        // Act
+        var result = await _service.ImportRatesAsync(_userId, csv);
+
+        // Assert
+        result.Imported.Should().Be(2);
+        result.Updated.Should().Be(1);
+        result.Errors.Should().BeEmpty();
+
+        var rates = await _context.ExchangeRates.OrderBy(r => r.FromCurrency).ToListAsync();
+        rates.Select(r => (r.FromCurrency, r.Rate)).Should().Equal(("AUD", 1.08m), ("EUR", 1.81m), ("USD", 1.76m));
+        rates.Single(r => r.FromCurrency == "USD").Source.Should().Be(ExchangeRateSource.Imported);
+    }
+
+    [Fact]
+    public async Task ImportRatesAsync_ShouldReportEachInvalidLine()
+    {
+        // Arrange
+        var csv = Csv("2025-01-10,AUD,NZD\n" +
+                      "Jan 10,AUD,NZD,1.08\n" +
+                      "2025-01-10,AUD,NZD,abc\n" +
+                      "2025-01-10,NZD,NZD,1\n" +
+                      "2025-01-10,AUD,NZD,1.08\n");
+
+        // Act
+        var result = await _service.ImportRatesAsync(_userId, csv);
+
+        // Assert
+        result.Imported.Should().Be(1);
+        result.Errors.Should().Equal(
+            "Line 1: expected date, from, to and rate.",
+            "Line 2: the date must be written as yyyy-mm-dd.",
+            "Line 3: the rate is not a number.",
+            "Line 4: the two currencies must be different.");
+    }
+
+    #endregion
+
+    #region Rates overview
+
+    [Fact]
+    public async Task GetRatesAsync_ShouldListAccountCurrenciesWithoutARateToTheBaseCurrency()
+    {
+        // Arrange
+        await _service.SaveRateAsync(_userId, Request("NZD", "AUD", 0.92m));
+
+        // Act
+        var result = await _service.GetRatesAsync(_userId);
+
+        // Assert
+        result.BaseCurrency.Should().Be("NZD");
+        result.AccountCurrencies.Should().Equal("AUD", "USD");
+        result.MissingCurrencies.Should().Equal("USD");
+        result.Rates.Should().ContainSingle();
+    }
+
+    [Fact]
+    public async Task GetConverterAsync_ShouldConvertIntoTheUsersCurrencyAndIgnoreOtherUsersRates()
+    {
+        // Arrange
+        await _service.SaveRateAsync(_userId, Request("AUD", "NZD", 1.08m));
+        await _service.SaveRateAsync(Guid.NewGuid(), Request("USD", "NZD", 1.70m));
+
+        // Act
+        var converter = await _service.GetConverterAsync(_userId);
+
+        // Assert
+        converter.BaseCurrency.Should().Be("NZD");
+        converter.ToBase(-100m, "AUD", new DateTime(2025, 2, 1)).Should().Be(-108m);
+        converter.GetRate("USD", "NZD", new DateTime(2025, 2, 1)).Should().BeNull();
+    }
+
+    [Fact]
+    public async Task RecordTransferRateAsync_WithInvalidRate_ShouldDoNothing()
+    {
+        // Act
+        await _service.RecordTransferRateAsync(_userId, "AUD", "AUD", 1m, new DateTime(2025, 1, 10));
+        await _service.RecordTransferRateAsync(_userId, "AUD", "NZD", 1.0832m, new DateTime(2025, 1, 10));
+
+        // Assert
+        var rate = await _context.ExchangeRates.SingleAsync();
+        rate.Rate.Should().Be(1.0832m);
+        rate.Source.Should().Be(ExchangeRateSource.Transfer);
+    }
+
+    #endregion
+}
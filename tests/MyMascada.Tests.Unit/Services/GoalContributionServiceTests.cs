@@ -0,0 +1,383 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Goals.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Goals;
+using MyMascada.Infrastructure.Services.Tags;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class GoalContributionServiceTests : IDisposable
+{
+    private const int CheckingId = 1;
+    private const int SavingsId = 2;
+    private const int WalletId = 1;
+    private const int ManualGoalId = 1;
+    private const int LinkedGoalId = 2;
+
+    private readonly ApplicationDbContext _context;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly GoalContributionService _service;
+    private readonly TagService _tagService;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly DateTime _goalCreatedAt;
+    private int _nextTransactionId = 1;
+
+    public GoalContributionServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        var accountAccess = Substitute.For<IAccountAccessService>();
+        accountAccess.GetAccessibleAccountIdsAsync(_userId).Returns(new HashSet<int> { CheckingId, SavingsId });
+        accountAccess.CanAccessAccountAsync(_userId, SavingsId).Returns(true);
+
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _transactionRepository.GetAccountBalancesAsync(_userId).Returns(new Dictionary<int, decimal> { [SavingsId] = 5200m });
+        _transactionRepository.GetAccountBalanceAsync(SavingsId, _userId).Returns(5200m);
+
+        _service = new GoalContributionService(
+            _context,
+            accountAccess,
+            _transactionRepository,
+            Substitute.For<ILogger<GoalContributionService>>());
+        _tagService = new TagService(_context, accountAccess, Substitute.For<ILogger<TagService>>());
+
+        _goalCreatedAt = DaysAgo(30);
+
+        _context.Accounts.AddRange(
+            new Account { Id = CheckingId, Name = "Everyday", Type = AccountType.Checking, UserId = _userId },
+            new Account { Id = SavingsId, Name = "Savings", Type = AccountType.Savings, UserId = _userId });
+        _context.Wallets.Add(new Wallet { Id = WalletId, Name = "Holiday jar", Currency = "NZD", UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    // Tagged transactions are linked to their tags first, and since saving stamps CreatedAt,
+    // goals are moved back to when they were created afterwards
+    private async Task SaveAsync()
+    {
+        await _tagService.SyncTransactionTagsAsync(_context.Transactions.Local.Where(t => t.Tags != null).ToList());
+        await _context.SaveChangesAsync();
+        foreach (var goal in _context.Goals.Local)
+        {
+            goal.CreatedAt = _goalCreatedAt;
+        }
+        await _context.SaveChangesAsync();
+    }
+
+    private DateTime DaysAgo(int days) => DateTime.SpecifyKind(DateTime.UtcNow.Date.AddDays(-days), DateTimeKind.Utc);
+
+    private Transaction AddTransaction(int accountId, decimal amount, int daysAgo, string? tags = null)
+    {
+        var transaction = new Transaction
+        {
+            Id = _nextTransactionId++,
+            AccountId = accountId,
+            Amount = amount,
+            Description = $"Transaction {_nextTransactionId}",
+            Tags = tags,
+            TransactionDate = DaysAgo(daysAgo)
+        };
+        _context.Transactions.Add(transaction);
+        return transaction;
+    }
+
+    private Goal AddManualGoal(decimal currentAmount = 0m, string? contributionTag = null, int? walletId = null)
+    {
+        var goal = new Goal
+        {
+            Id = ManualGoalId,
+            Name = "Holiday",
+            TargetAmount = 3000m,
+            CurrentAmount = currentAmount,
+            ContributionTag = contributionTag,
+            WalletId = walletId,
+            UserId = _userId
+        };
+        _context.Goals.Add(goal);
+        return goal;
+    }
+
+    private Goal AddLinkedGoal()
+    {
+        var goal = new Goal
+        {
+            Id = LinkedGoalId,
+            Name = "House deposit",
+            TargetAmount = 20000m,
+            LinkedAccountId = SavingsId,
+            UserId = _userId
+        };
+        _context.Goals.Add(goal);
+        return goal;
+    }
+
+    #region Current amounts
+
+    [Fact]
+    public async Task GetCurrentAmountsAsync_ShouldAddManualTaggedAndWalletContributions()
+    {
+        // Arrange
+        var goal = AddManualGoal(contributionTag: "Holiday", walletId: WalletId);
+        goal.RecordContribution(500m, DaysAgo(20));
+        AddTransaction(CheckingId, -120m, 10, "Holiday");
+        AddTransaction(CheckingId, 80m, 9, "holiday");
+        var allocated = AddTransaction(CheckingId, 1000m, 8);
+        _context.WalletAllocations.AddRange(
+            new WalletAllocation { WalletId = WalletId, TransactionId = allocated.Id, Amount = 300m },
+            new WalletAllocation { WalletId = WalletId, TransactionId = allocated.Id, Amount = -50m });
+        var linked = AddLinkedGoal();
+        await SaveAsync();
+
+        // Act
+        var amounts = await _service.GetCurrentAmountsAsync(_userId, new[] { goal, linked });
+
+        // Assert
+        // 500 manual + 120 + 80 tagged (by size) + 300 - 50 allocated
+        amounts[ManualGoalId].Should().Be(950m);
+        amounts[LinkedGoalId].Should().Be(5200m);
+    }
+
+    [Fact]
+    public async Task GetCurrentAmountsAsync_ShouldCountATaggedTransferOnceAndSkipCancelledTransactions()
+    {
+        // Arrange
+        var goal = AddManualGoal(contributionTag: "Holiday");
+        var transferId = Guid.NewGuid();
+        var source = AddTransaction(CheckingId, -400m, 5, "Holiday");
+        source.TransferId = transferId;
+        source.IsTransferSource = true;
+        var destination = AddTransaction(SavingsId, 400m, 5, "Holiday");
+        destination.TransferId = transferId;
+        AddTransaction(CheckingId, -75m, 4, "Holiday").Status = TransactionStatus.Cancelled;
+        await SaveAsync();
+
+        // Act
+        var amounts = await _service.GetCurrentAmountsAsync(_userId, new[] { goal });
+
+        // Assert
+        amounts[ManualGoalId].Should().Be(400m);
+    }
+
+    #endregion
+
+    #region Ledger
+
+    [Fact]
+    public async Task GetContributionsAsync_ShouldAddUpToTheCurrentAmountIncludingEarlierProgress()
+    {
+        // Arrange
+        var goal = AddManualGoal(currentAmount: 700m, contributionTag: "Holiday");
+        goal.RecordContribution(250m, DaysAgo(20), "Bonus");
+        AddTransaction(CheckingId, -60m, 10, "Holiday");
+        await SaveAsync();
+
+        // Act
+        var ledger = await _service.GetContributionsAsync(_userId, ManualGoalId);
+
+        // Assert
+        ledger.Contributions.Select(c => (c.Source, c.Amount)).Should().Equal(
+            ("Adjustment", 700m),
+            ("Manual", 250m),
+            ("Tag", 60m));
+        ledger.CurrentAmount.Should().Be(1010m);
+        ledger.Contributions[1].Description.Should().Be("Bonus");
+        ledger.Contributions[1].Id.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task GetContributionsAsync_ForALinkedGoal_ShouldStartFromTheOpeningBalance()
+    {
+        // Arrange
+        AddLinkedGoal();
+        AddTransaction(SavingsId, 3000m, 60);
+        AddTransaction(SavingsId, 1500m, 20);
+        AddTransaction(SavingsId, 700m, 5);
+        AddTransaction(SavingsId, 999m, 3).Status = TransactionStatus.Cancelled;
+        await SaveAsync();
+
+        // Act
+        var ledger = await _service.GetContributionsAsync(_userId, LinkedGoalId);
+
+        // Assert
+        // Only transactions since the goal was created are listed; the rest is the opening balance
+        ledger.Contributions.Select(c => (c.Source, c.Amount)).Should().Equal(
+            ("Adjustment", 3000m),
+            ("Account", 1500m),
+            ("Account", 700m));
+        ledger.Contributions[0].Description.Should().Be("Opening balance");
+        ledger.CurrentAmount.Should().Be(5200m);
+    }
+
+    [Fact]
+    public async Task GetContributionsAsync_ForAnotherUsersGoal_ShouldThrow()
+    {
+        // Arrange
+        AddManualGoal();
+        await SaveAsync();
+
+        // Act
+        var act = () => _service.GetContributionsAsync(Guid.NewGuid(), ManualGoalId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Goal not found.");
+    }
+
+    #endregion
+
+    #region Manual contributions
+
+    [Fact]
+    public async Task AddContributionAsync_ShouldRecordTheContributionAndRaiseTheAmount()
+    {
+        // Arrange
+        AddManualGoal(currentAmount: 100m);
+        await SaveAsync();
+
+        // Act
+        var contribution = await _service.AddContributionAsync(_userId, ManualGoalId, new SaveGoalContributionRequest
+        {
+            Amount = 49.999m,
+            ContributionDate = DaysAgo(1).AddHours(15),
+            Note = "  Round-up  "
+        });
+
+        // Assert
+        contribution.Source.Should().Be("Manual");
+        contribution.Amount.Should().Be(50m);
+        contribution.Date.Should().Be(DaysAgo(1));
+        contribution.Description.Should().Be("Round-up");
+
+        (await _context.Goals.FindAsync(ManualGoalId))!.CurrentAmount.Should().Be(150m);
+        (await _context.GoalContributions.SingleAsync()).Amount.Should().Be(50m);
+    }
+
+    [Theory]
+    [InlineData(0, 0, "*cannot be zero*")]
+    [InlineData(50, -1, "*in the future*")]
+    public async Task AddContributionAsync_WithInvalidContribution_ShouldThrow(double amount, int daysAgo, string message)
+    {
+        // Arrange
+        AddManualGoal();
+        await SaveAsync();
+
+        // Act
+        var act = () => _service.AddContributionAsync(_userId, ManualGoalId, new SaveGoalContributionRequest
+        {
+            Amount = (decimal)amount,
+            ContributionDate = DaysAgo(daysAgo)
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage(message);
+    }
+
+    [Fact]
+    public async Task AddContributionAsync_ToALinkedGoal_ShouldThrow()
+    {
+        // Arrange
+        AddLinkedGoal();
+        await SaveAsync();
+
+        // Act
+        var act = () => _service.AddContributionAsync(_userId, LinkedGoalId, new SaveGoalContributionRequest
+        {
+            Amount = 50m,
+            ContributionDate = DaysAgo(1)
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task DeleteContributionAsync_ShouldTakeTheAmountBackOffTheGoal()
+    {
+        // Arrange
+        var goal = AddManualGoal();
+        goal.RecordContribution(500m, DaysAgo(20));
+        goal.RecordContribution(-120m, DaysAgo(10));
+        await SaveAsync();
+        var withdrawal = await _context.GoalContributions.SingleAsync(c => c.Amount == -120m);
+
+        // Act
+        await _service.DeleteContributionAsync(_userId, ManualGoalId, withdrawal.Id);
+
+        // Assert
+        (await _context.Goals.FindAsync(ManualGoalId))!.CurrentAmount.Should().Be(500m);
+        (await _context.GoalContributions.IgnoreQueryFilters().SingleAsync(c => c.Id == withdrawal.Id)).IsDeleted.Should().BeTrue();
+
+        var ledger = await _service.GetContributionsAsync(_userId, ManualGoalId);
+        ledger.Contributions.Should().ContainSingle().Which.Amount.Should().Be(500m);
+    }
+
+    #endregion
+
+    #region Sources
+
+    [Fact]
+    public async Task UpdateContributionSourcesAsync_ShouldSetTheTagAndWallet()
+    {
+        // Arrange
+        AddManualGoal();
+        await SaveAsync();
+
+        // Act
+        await _service.UpdateContributionSourcesAsync(_userId, ManualGoalId, new UpdateGoalContributionSourcesRequest
+        {
+            ContributionTag = " Holiday ",
+            WalletId = WalletId
+        });
+
+        // Assert
+        var goal = (await _context.Goals.FindAsync(ManualGoalId))!;
+        goal.ContributionTag.Should().Be("Holiday");
+        goal.WalletId.Should().Be(WalletId);
+    }
+
+    [Fact]
+    public async Task UpdateContributionSourcesAsync_WithInvalidSources_ShouldThrow()
+    {
+        // Arrange
+        AddManualGoal();
+        await SaveAsync();
+
+        // Act
+        var commaTag = () => _service.UpdateContributionSourcesAsync(_userId, ManualGoalId,
+            new UpdateGoalContributionSourcesRequest { ContributionTag = "Holiday,Flights" });
+        var otherWallet = () => _service.UpdateContributionSourcesAsync(_userId, ManualGoalId,
+            new UpdateGoalContributionSourcesRequest { WalletId = 99 });
+
+        // Assert
+        await commaTag.Should().ThrowAsync<ArgumentException>().WithMessage("Tag names cannot contain commas.");
+        await otherWallet.Should().ThrowAsync<ArgumentException>().WithMessage("Wallet not found.");
+    }
+
+    [Fact]
+    public async Task UpdateContributionSourcesAsync_OnALinkedGoal_ShouldThrow()
+    {
+        // Arrange
+        AddLinkedGoal();
+        await SaveAsync();
+
+        // Act
+        var act = () => _service.UpdateContributionSourcesAsync(_userId, LinkedGoalId,
+            new UpdateGoalContributionSourcesRequest { ContributionTag = "Holiday" });
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    #endregion
+}
@@ -0,0 +1,231 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Investments.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Investments;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class InvestmentServiceTests : IDisposable
+{
+    private const int BrokerageId = 1;
+    private const int CheckingId = 2;
+
+    private readonly ApplicationDbContext _context;
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly InvestmentService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly DateTime _today = DateTime.UtcNow.Date;
+
+    public InvestmentServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        var accountAccess = Substitute.For<IAccountAccessService>();
+        accountAccess.CanAccessAccountAsync(_userId, Arg.Any<int>()).Returns(true);
+        accountAccess.CanModifyAccountAsync(_userId, Arg.Any<int>()).Returns(true);
+
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _service = new InvestmentService(_context, accountAccess, _transactionRepository, Substitute.For<ILogger<InvestmentService>>());
+
+        _context.Accounts.AddRange(
+            new Account { Id = BrokerageId, Name = "Brokerage", Type = AccountType.Investment, Currency = "USD", UserId = _userId },
+            new Account { Id = CheckingId, Name = "Everyday", Type = AccountType.Checking, Currency = "USD", UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private Task<InvestmentTradeDto> TradeAsync(string type, decimal units, decimal price, int daysAgo, decimal fees = 0m, int accountId = BrokerageId)
+    {
+        return _service.AddTradeAsync(_userId, new SaveInvestmentTradeRequest
+        {
+            AccountId = accountId,
+            Symbol = "vti",
+            Name = "Vanguard Total Stock Market",
+            Type = type,
+            Units = units,
+            Price = price,
+            Fees = fees,
+            TradeDate = _today.AddDays(-daysAgo)
+        });
+    }
+
+    #region Trades
+
+    [Fact]
+    public async Task AddTradeAsync_Buy_ShouldRecordTheCashMovementAndTheTradePrice()
+    {
+        // Act
+        var trade = await TradeAsync("buy", 10m, 100m, 30, fees: 9.99m);
+
+        // Assert
+        trade.Symbol.Should().Be("VTI");
+        trade.Type.Should().Be("Buy");
+
+        var transaction = await _context.Transactions.SingleAsync();
+        transaction.AccountId.Should().Be(BrokerageId);
+        transaction.Amount.Should().Be(-1009.99m);
+        transaction.Description.Should().Be("Buy 10 VTI @ 100");
+        transaction.IsExcluded.Should().BeTrue();
+
+        var price = await _context.SecurityPrices.SingleAsync();
+        price.Symbol.Should().Be("VTI");
+        price.Price.Should().Be(100m);
+        price.Source.Should().Be(SecurityPriceSource.Trade);
+    }
+
+    [Fact]
+    public async Task AddTradeAsync_Dividend_ShouldRecordIncome()
+    {
+        // Arrange
+        await TradeAsync("Buy", 10m, 100m, 30);
+
+        // Act
+        await _service.AddTradeAsync(_userId, new SaveInvestmentTradeRequest
+        {
+            AccountId = BrokerageId,
+            Symbol = "VTI",
+            Type = "Dividend",
+            DividendAmount = 12.345m,
+            TradeDate = _today.AddDays(-5)
+        });
+
+        // Assert
+        var dividend = await _context.Transactions.SingleAsync(t => t.Amount > 0);
+        dividend.Amount.Should().Be(12.34m);
+        dividend.Description.Should().Be("Dividend VTI");
+        dividend.IsExcluded.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task AddTradeAsync_SellingMoreThanHeld_ShouldThrow()
+    {
+        // Arrange
+        await TradeAsync("Buy", 10m, 100m, 30);
+
+        // Act
+        var act = () => TradeAsync("Sell", 11m, 110m, 10);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("More VTI units would be sold*");
+    }
+
+    [Fact]
+    public async Task AddTradeAsync_SellingBeforeTheBuy_ShouldThrow()
+    {
+        // Arrange
+        await TradeAsync("Buy", 10m, 100m, 10);
+
+        // Act
+        var act = () => TradeAsync("Sell", 5m, 110m, 20);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("More VTI units would be sold*");
+    }
+
+    [Fact]
+    public async Task AddTradeAsync_SellWithoutHolding_ShouldThrow()
+    {
+        // Act
+        var act = () => TradeAsync("Sell", 1m, 100m, 10);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*record a buy first*");
+    }
+
+    [Fact]
+    public async Task AddTradeAsync_OnANonInvestmentAccount_ShouldThrow()
+    {
+        // Act
+        var act = () => TradeAsync("Buy", 1m, 100m, 10, accountId: CheckingId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Holdings can only be recorded on investment accounts.");
+    }
+
+    [Fact]
+    public async Task DeleteTradeAsync_WhenALaterSaleNeedsItsUnits_ShouldThrow()
+    {
+        // Arrange
+        var buy = await TradeAsync("Buy", 10m, 100m, 30);
+        await TradeAsync("Sell", 8m, 110m, 10);
+
+        // Act
+        var act = () => _service.DeleteTradeAsync(_userId, buy.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task DeleteTradeAsync_ShouldRemoveItsTransactionAndTheEmptyHolding()
+    {
+        // Arrange
+        var buy = await TradeAsync("Buy", 10m, 100m, 30);
+
+        // Act
+        await _service.DeleteTradeAsync(_userId, buy.Id);
+
+        // Assert
+        (await _context.Transactions.AnyAsync()).Should().BeFalse();
+        (await _context.InvestmentHoldings.AnyAsync()).Should().BeFalse();
+    }
+
+    #endregion
+
+    #region Portfolio
+
+    [Fact]
+    public async Task GetPortfolioAsync_ShouldReportAverageCostGainsAndCash()
+    {
+        // Arrange
+        await TradeAsync("Buy", 10m, 100m, 60);
+        await TradeAsync("Buy", 10m, 120m, 40);
+        await TradeAsync("Sell", 5m, 130m, 20);    // Average cost 110, so 100 realised
+        await _service.SavePriceAsync(_userId, new SaveSecurityPriceRequest { Symbol = "VTI", Price = 140m, PriceDate = _today.AddDays(-1) });
+        _transactionRepository.GetAccountBalanceAsync(BrokerageId, _userId).Returns(2600m);
+
+        // Act
+        var portfolio = await _service.GetPortfolioAsync(_userId, BrokerageId);
+
+        // Assert
+        var holding = portfolio.Holdings.Single();
+        holding.Units.Should().Be(15m);
+        holding.AverageCost.Should().Be(110m);
+        holding.CostBasis.Should().Be(1650m);
+        holding.Price.Should().Be(140m);
+        holding.MarketValue.Should().Be(2100m);
+        holding.UnrealisedGain.Should().Be(450m);
+        holding.RealisedGain.Should().Be(100m);
+        holding.AllocationPercent.Should().Be(100m);
+
+        portfolio.MarketValue.Should().Be(2100m);
+        portfolio.CashBalance.Should().Be(500m);
+        portfolio.UnrealisedGainPercent.Should().Be(27.27m);
+        portfolio.Trades.Should().HaveCount(3);
+        portfolio.TimeWeightedReturn.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task GetPortfolioAsync_WithoutAccess_ShouldThrowNotFound()
+    {
+        // Act
+        var act = () => _service.GetPortfolioAsync(Guid.NewGuid(), BrokerageId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Account not found.");
+    }
+
+    #endregion
+}
@@ -0,0 +1,312 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.NetWorth.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.NetWorth;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class NetWorthServiceTests : IDisposable
+{
+    private const int CheckingId = 1;
+    private const int CreditCardId = 2;
+    private const int HouseId = 3;
+    private const int AudSavingsId = 4;
+    private const int KiwiSaverId = 5;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly IExchangeRateService _exchangeRateService;
+    private readonly NetWorthService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly HashSet<int> _accessibleIds = new() { CheckingId, CreditCardId, HouseId, AudSavingsId, KiwiSaverId };
+    private int _nextTransactionId = 1;
+
+    // Start of each month covered by a three-month history, oldest first
+    private readonly DateTime[] _months;
+
+    public NetWorthServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        _accountAccess = Substitute.For<IAccountAccessService>();
+        _accountAccess.GetAccessibleAccountIdsAsync(_userId).Returns(_accessibleIds);
+        _accountAccess.CanModifyAccountAsync(_userId, Arg.Any<int>()).Returns(callInfo => _accessibleIds.Contains(callInfo.ArgAt<int>(1)));
+
+        _exchangeRateService = Substitute.For<IExchangeRateService>();
+        _exchangeRateService.GetConverterAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(_ => new CurrencyConverter("NZD", new[]
+            {
+                new ExchangeRate { FromCurrency = "AUD", ToCurrency = "NZD", Rate = 1.10m, RateDate = new DateTime(2020, 1, 1) }
+            }));
+
+        _service = new NetWorthService(_context, _accountAccess, _exchangeRateService, Substitute.For<ILogger<NetWorthService>>());
+
+        var now = DateTime.UtcNow;
+        var currentMonth = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+        _months = new[] { currentMonth.AddMonths(-2), currentMonth.AddMonths(-1), currentMonth };
+
+        _context.Accounts.AddRange(
+            new Account { Id = CheckingId, Name = "Everyday", Type = AccountType.Checking, Currency = "NZD", UserId = _userId },
+            new Account { Id = CreditCardId, Name = "Visa", Type = AccountType.CreditCard, Currency = "NZD", UserId = _userId },
+            new Account { Id = HouseId, Name = "House", Type = AccountType.Other, Currency = "NZD", UserId = _userId },
+            new Account { Id = AudSavingsId, Name = "Sydney savings", Type = AccountType.Savings, Currency = "AUD", UserId = _userId },
+            new Account { Id = KiwiSaverId, Name = "KiwiSaver", Type = AccountType.Investment, Currency = "NZD", UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private void AddTransaction(int accountId, decimal amount, DateTime date)
+    {
+        _context.Transactions.Add(new Transaction
+        {
+            Id = _nextTransactionId++,
+            AccountId = accountId,
+            Amount = amount,
+            Description = "Test Transaction",
+            TransactionDate = date
+        });
+    }
+
+    private void AddValuation(int accountId, decimal value, DateTime date)
+    {
+        _context.AccountValuations.Add(new AccountValuation { AccountId = accountId, UserId = _userId, Value = value, ValuationDate = date });
+    }
+
+    private void SeedHistory()
+    {
+        AddTransaction(CheckingId, 2000m, _months[0].AddDays(4));
+        AddTransaction(CheckingId, -300m, _months[1].AddDays(2));
+        AddTransaction(CreditCardId, -400m, _months[1].AddDays(9));
+        AddValuation(HouseId, 500_000m, _months[0]);
+        AddValuation(HouseId, 520_000m, _months[1].AddDays(14));
+        AddTransaction(AudSavingsId, 1000m, _months[0].AddDays(1));
+
+        // The valuation already includes the contribution made the same day
+        AddValuation(KiwiSaverId, 10_000m, _months[1]);
+        AddTransaction(KiwiSaverId, 200m, _months[1]);
+        AddTransaction(KiwiSaverId, 300m, _months[1].AddDays(19));
+
+        _context.SaveChanges();
+    }
+
+    #region History
+
+    [Fact]
+    public async Task GetHistoryAsync_ShouldSnapshotEachMonthEndInTheBaseCurrency()
+    {
+        // Arrange
+        SeedHistory();
+
+        // Act
+        var result = await _service.GetHistoryAsync(_userId, 3);
+
+        // Assert
+        result.BaseCurrency.Should().Be("NZD");
+        result.UnconvertedCurrencies.Should().BeEmpty();
+        result.Snapshots.Select(s => s.Month).Should().Equal(_months.Select(m => m.Month));
+        result.Snapshots[0].Date.Should().Be(_months[1].AddTicks(-1));
+
+        // Checking 2000, house 500,000, AUD 1000 at 1.10; the card and KiwiSaver had not started yet
+        result.Snapshots[0].TotalAssets.Should().Be(503_100m);
+        result.Snapshots[0].TotalLiabilities.Should().Be(0m);
+        result.Snapshots[0].NetWorth.Should().Be(503_100m);
+
+        // Checking 1700, house revalued to 520,000, AUD 1100, KiwiSaver 10,000 + 300; card owes 400
+        result.Snapshots[1].TotalAssets.Should().Be(533_100m);
+        result.Snapshots[1].TotalLiabilities.Should().Be(400m);
+        result.Snapshots[1].NetWorth.Should().Be(532_700m);
+        result.Snapshots[1].ByAccountType.Select(b => (b.AccountType, b.Balance)).Should().Equal(
+            (AccountType.Checking, 1700m),
+            (AccountType.Savings, 1100m),
+            (AccountType.CreditCard, -400m),
+            (AccountType.Investment, 10_300m),
+            (AccountType.Other, 520_000m));
+
+        result.Snapshots[2].NetWorth.Should().Be(532_700m);
+    }
+
+    [Fact]
+    public async Task GetHistoryAsync_ShouldSummariseTheChangeOfEachAccount()
+    {
+        // Arrange
+        SeedHistory();
+
+        // Act
+        var result = await _service.GetHistoryAsync(_userId, 3);
+
+        // Assert
+        var card = result.Accounts.Single(a => a.AccountId == CreditCardId);
+        card.IsLiability.Should().BeTrue();
+        card.StartBalance.Should().Be(0m);
+        card.EndBalance.Should().Be(-400m);
+        card.Change.Should().Be(-400m);
+
+        var house = result.Accounts.Single(a => a.AccountId == HouseId);
+        house.HasValuations.Should().BeTrue();
+        house.Change.Should().Be(20_000m);
+
+        var savings = result.Accounts.Single(a => a.AccountId == AudSavingsId);
+        savings.Currency.Should().Be("AUD");
+        savings.EndBalance.Should().Be(1100m);
+    }
+
+    [Fact]
+    public async Task GetHistoryAsync_WithoutARate_ShouldCountTheBalanceUnconvertedAndReportTheCurrency()
+    {
+        // Arrange
+        _context.Accounts.Add(new Account { Id = 6, Name = "US broker", Type = AccountType.Investment, Currency = "USD", UserId = _userId });
+        _accessibleIds.Add(6);
+        AddTransaction(6, 250m, _months[0].AddDays(3));
+        AddTransaction(CheckingId, 100m, _months[0].AddDays(3));
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetHistoryAsync(_userId, 2);
+
+        // Assert
+        result.UnconvertedCurrencies.Should().Equal("USD");
+        result.Snapshots.Should().HaveCount(2);
+        result.Snapshots[^1].NetWorth.Should().Be(350m);
+    }
+
+    [Fact]
+    public async Task GetHistoryAsync_ShouldLeaveOutInaccessibleAndCancelledActivity()
+    {
+        // Arrange
+        _accessibleIds.Remove(HouseId);
+        AddValuation(HouseId, 500_000m, _months[0]);
+        AddTransaction(CheckingId, 100m, _months[0].AddDays(3));
+        _context.Transactions.Add(new Transaction
+        {
+            Id = _nextTransactionId++,
+            AccountId = CheckingId,
+            Amount = 900m,
+            Description = "Bounced",
+            Status = TransactionStatus.Cancelled,
+            TransactionDate = _months[0].AddDays(5)
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetHistoryAsync(_userId, 3);
+
+        // Assert
+        result.Accounts.Should().NotContain(a => a.AccountId == HouseId);
+        result.Snapshots[^1].NetWorth.Should().Be(100m);
+    }
+
+    [Fact]
+    public async Task GetHistoryAsync_WithHoldings_ShouldCountThemOnlyUntilTheAccountIsValued()
+    {
+        // Arrange
+        AddTransaction(KiwiSaverId, 1000m, _months[0].AddDays(1));
+        AddTransaction(KiwiSaverId, -1000m, _months[0].AddDays(2));
+        var holding = new InvestmentHolding { AccountId = KiwiSaverId, Symbol = "FNZ" };
+        holding.Trades.Add(new InvestmentTrade
+        {
+            Type = InvestmentTradeType.Buy,
+            TradeDate = _months[0].AddDays(2),
+            Units = 10m,
+            Price = 100m,
+            Amount = -1000m
+        });
+        _context.InvestmentHoldings.Add(holding);
+        _context.SecurityPrices.Add(new SecurityPrice { UserId = _userId, Symbol = "FNZ", PriceDate = _months[0], Price = 150m });
+        AddValuation(KiwiSaverId, 10_000m, _months[1]);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetHistoryAsync(_userId, 3);
+
+        // Assert
+        // The market value of the units until the valuation, then the valuation alone
+        result.Snapshots.Select(s => s.NetWorth).Should().Equal(1500m, 10_000m, 10_000m);
+    }
+
+    [Theory]
+    [InlineData(0)]
+    [InlineData(121)]
+    public async Task GetHistoryAsync_WithMonthsOutOfRange_ShouldThrow(int months)
+    {
+        // Act
+        var act = () => _service.GetHistoryAsync(_userId, months);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Months must be between*");
+    }
+
+    #endregion
+
+    #region Valuations
+
+    [Fact]
+    public async Task SaveValuationAsync_ForTheSameDay_ShouldReplaceTheValue()
+    {
+        // Arrange
+        var day = DateTime.UtcNow.Date.AddDays(-3);
+        await _service.SaveValuationAsync(_userId, new SaveAccountValuationRequest { AccountId = HouseId, Value = 500_000m, ValuationDate = day });
+
+        // Act
+        var saved = await _service.SaveValuationAsync(_userId, new SaveAccountValuationRequest
+        {
+            AccountId = HouseId,
+            Value = 510_000m,
+            ValuationDate = day.AddHours(18),
+            Notes = "  Council valuation  "
+        });
+
+        // Assert
+        saved.Value.Should().Be(510_000m);
+        saved.Notes.Should().Be("Council valuation");
+        saved.AccountName.Should().Be("House");
+        (await _context.AccountValuations.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task SaveValuationAsync_WithFutureDate_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.SaveValuationAsync(_userId, new SaveAccountValuationRequest
+        {
+            AccountId = HouseId,
+            Value = 500_000m,
+            ValuationDate = DateTime.UtcNow.Date.AddDays(2)
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*future*");
+    }
+
+    [Fact]
+    public async Task SaveValuationAsync_ForAnAccountTheUserCannotModify_ShouldThrowNotFound()
+    {
+        // Arrange
+        _accessibleIds.Remove(HouseId);
+
+        // Act
+        var act = () => _service.SaveValuationAsync(_userId, new SaveAccountValuationRequest
+        {
+            AccountId = HouseId,
+            Value = 500_000m,
+            ValuationDate = DateTime.UtcNow.Date
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Account not found.");
+    }
+
+    #endregion
+}
@@ -0,0 +1,286 @@
+using MyMascada.Application.Common;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class PortfolioCalculatorTests
+{
+    private int _nextTradeId = 1;
+
+    private InvestmentTrade Buy(decimal units, decimal price, DateTime date, decimal fees = 0m)
+    {
+        return Trade(InvestmentTradeType.Buy, units, price, fees, -(units * price + fees), date);
+    }
+
+    private InvestmentTrade Sell(decimal units, decimal price, DateTime date, decimal fees = 0m)
+    {
+        return Trade(InvestmentTradeType.Sell, units, price, fees, units * price - fees, date);
+    }
+
+    private InvestmentTrade Dividend(decimal amount, DateTime date)
+    {
+        return Trade(InvestmentTradeType.Dividend, 0m, 0m, 0m, amount, date);
+    }
+
+    private InvestmentTrade Trade(InvestmentTradeType type, decimal units, decimal price, decimal fees, decimal amount, DateTime date)
+    {
+        return new InvestmentTrade { Id = _nextTradeId++, Type = type, Units = units, Price = price, Fees = fees, Amount = amount, TradeDate = date };
+    }
+
+    private static InvestmentHolding Holding(string symbol, params InvestmentTrade[] trades)
+    {
+        return new InvestmentHolding { Symbol = symbol, Trades = trades.ToList() };
+    }
+
+    private static SecurityPrice Price(string symbol, decimal price, int year, int month, int day)
+    {
+        return new SecurityPrice { Symbol = symbol, Price = price, PriceDate = new DateTime(year, month, day) };
+    }
+
+    #region Average cost
+
+    [Fact]
+    public void GetPosition_ShouldAverageTheCostOfBuysIncludingFees()
+    {
+        // Arrange
+        var trades = new[]
+        {
+            Buy(10m, 100m, new DateTime(2025, 1, 10), fees: 10m),   // 1010
+            Buy(10m, 120m, new DateTime(2025, 2, 10), fees: 10m)    // 1210
+        };
+
+        // Act
+        var position = PortfolioCalculator.GetPosition(trades);
+
+        // Assert
+        position.Units.Should().Be(20m);
+        position.CostBasis.Should().Be(2220m);
+        position.AverageCost.Should().Be(111m);
+        position.RealisedGain.Should().Be(0m);
+    }
+
+    [Fact]
+    public void GetPosition_WhenSelling_ShouldRealiseTheGainAgainstTheAverageCost()
+    {
+        // Arrange
+        var trades = new[]
+        {
+            Buy(10m, 100m, new DateTime(2025, 1, 10), fees: 10m),
+            Buy(10m, 120m, new DateTime(2025, 2, 10), fees: 10m),
+            Sell(5m, 130m, new DateTime(2025, 3, 10), fees: 10m),   // Proceeds 640, cost 5 * 111 = 555
+            Dividend(25m, new DateTime(2025, 4, 1))
+        };
+
+        // Act
+        var position = PortfolioCalculator.GetPosition(trades);
+
+        // Assert
+        position.Units.Should().Be(15m);
+        position.CostBasis.Should().Be(1665m);
+        position.AverageCost.Should().Be(111m);
+        position.RealisedGain.Should().Be(85m);
+        position.Dividends.Should().Be(25m);
+    }
+
+    [Fact]
+    public void GetPosition_WhenSellingEverything_ShouldCloseThePosition()
+    {
+        // Arrange
+        var trades = new[]
+        {
+            Buy(3m, 50m, new DateTime(2025, 1, 10)),
+            Sell(1m, 40m, new DateTime(2025, 2, 10)),   // Loss of 10
+            Sell(2m, 70m, new DateTime(2025, 3, 10))    // Gain of 40
+        };
+
+        // Act
+        var position = PortfolioCalculator.GetPosition(trades);
+
+        // Assert
+        position.Units.Should().Be(0m);
+        position.CostBasis.Should().Be(0m);
+        position.AverageCost.Should().Be(0m);
+        position.RealisedGain.Should().Be(30m);
+        position.IsOversold.Should().BeFalse();
+    }
+
+    [Fact]
+    public void GetPosition_AsOfADate_ShouldIgnoreLaterAndDeletedTrades()
+    {
+        // Arrange
+        var deleted = Buy(100m, 1m, new DateTime(2025, 1, 5));
+        deleted.IsDeleted = true;
+        var trades = new[]
+        {
+            Buy(10m, 100m, new DateTime(2025, 1, 10)),
+            deleted,
+            Sell(4m, 150m, new DateTime(2025, 3, 10))
+        };
+
+        // Act
+        var position = PortfolioCalculator.GetPosition(trades, new DateTime(2025, 3, 9));
+
+        // Assert
+        position.Units.Should().Be(10m);
+        position.CostBasis.Should().Be(1000m);
+        position.RealisedGain.Should().Be(0m);
+    }
+
+    [Fact]
+    public void GetPosition_WhenSellingMoreThanHeld_ShouldFlagOversold()
+    {
+        // Arrange
+        var trades = new[]
+        {
+            Buy(5m, 100m, new DateTime(2025, 1, 10)),
+            Sell(6m, 100m, new DateTime(2025, 2, 10)),
+            Buy(5m, 100m, new DateTime(2025, 3, 10))
+        };
+
+        // Act
+        var position = PortfolioCalculator.GetPosition(trades);
+
+        // Assert
+        position.IsOversold.Should().BeTrue();
+    }
+
+    #endregion
+
+    #region Market value
+
+    [Fact]
+    public void GetMarketValue_ShouldUseTheLatestPriceOnOrBeforeTheDate()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(new[]
+        {
+            Price("vti", 200m, 2025, 1, 10),
+            Price("VTI", 210.557m, 2025, 2, 1)
+        });
+        var holding = Holding("VTI", Buy(3m, 200m, new DateTime(2025, 1, 10)));
+
+        // Act & Assert
+        calculator.GetMarketValue(holding, new DateTime(2025, 1, 31)).Should().Be(600m);
+        calculator.GetMarketValue(holding, new DateTime(2025, 6, 30)).Should().Be(631.67m);
+        calculator.FindPrice("vti", new DateTime(2025, 6, 30))!.Value.Date.Should().Be(new DateTime(2025, 2, 1));
+    }
+
+    [Fact]
+    public void GetMarketValue_WithoutAPrice_ShouldValueTheUnitsAtCost()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(new[] { Price("VTI", 0m, 2025, 1, 10) });
+        var holding = Holding("VTI", Buy(3m, 200m, new DateTime(2025, 1, 10), fees: 4.99m));
+
+        // Act
+        var value = calculator.GetMarketValue(holding, new DateTime(2025, 2, 1));
+
+        // Assert
+        value.Should().Be(604.99m);
+    }
+
+    [Fact]
+    public void GetMarketValue_BeforeTheFirstBuy_ShouldBeZero()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(new[] { Price("VTI", 200m, 2025, 1, 10) });
+        var holding = Holding("VTI", Buy(3m, 200m, new DateTime(2025, 1, 10)));
+
+        // Act
+        var value = calculator.GetMarketValue(holding, new DateTime(2025, 1, 9));
+
+        // Assert
+        value.Should().Be(0m);
+    }
+
+    #endregion
+
+    #region Time-weighted return
+
+    [Fact]
+    public void GetTimeWeightedReturn_ShouldNotCountAddedMoneyAsPerformance()
+    {
+        // Arrange: +20% before the second buy, then -10% on twice the money
+        var calculator = new PortfolioCalculator(new[]
+        {
+            Price("ABC", 100m, 2025, 1, 1),
+            Price("ABC", 120m, 2025, 3, 1),
+            Price("ABC", 108m, 2025, 6, 1)
+        });
+        var holding = Holding("ABC",
+            Buy(10m, 100m, new DateTime(2025, 1, 1)),
+            Buy(10m, 120m, new DateTime(2025, 3, 1)));
+
+        // Act
+        var result = calculator.GetTimeWeightedReturn(new[] { holding }, new DateTime(2025, 6, 1));
+
+        // Assert: 1.2 * 0.9 - 1, although 2200 invested is now worth only 2160
+        result.Should().Be(8.00m);
+        calculator.GetMarketValue(holding, new DateTime(2025, 6, 1)).Should().Be(2160m);
+    }
+
+    [Fact]
+    public void GetTimeWeightedReturn_ShouldCountDividendsAsReturn()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(new[]
+        {
+            Price("ABC", 100m, 2025, 1, 1),
+            Price("ABC", 120m, 2025, 3, 1),
+            Price("ABC", 108m, 2025, 6, 1)
+        });
+        var holding = Holding("ABC",
+            Buy(10m, 100m, new DateTime(2025, 1, 1)),
+            Buy(10m, 120m, new DateTime(2025, 3, 1)),
+            Dividend(24m, new DateTime(2025, 4, 1)));
+
+        // Act
+        var result = calculator.GetTimeWeightedReturn(new[] { holding }, new DateTime(2025, 6, 1));
+
+        // Assert: 1.2 * (2160 + 24) / 2400 - 1
+        result.Should().Be(9.20m);
+    }
+
+    [Fact]
+    public void GetTimeWeightedReturn_ShouldChainPeriodsAcrossHoldingsAndSales()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(new[]
+        {
+            Price("ABC", 100m, 2025, 1, 1),
+            Price("ABC", 110m, 2025, 2, 1),
+            Price("ABC", 121m, 2025, 3, 1),
+            Price("XYZ", 50m, 2025, 1, 1),
+            Price("XYZ", 50m, 2025, 2, 1),
+            Price("XYZ", 55m, 2025, 3, 1)
+        });
+        var holdings = new[]
+        {
+            Holding("ABC", Buy(10m, 100m, new DateTime(2025, 1, 1)), Sell(5m, 110m, new DateTime(2025, 2, 1))),
+            Holding("XYZ", Buy(20m, 50m, new DateTime(2025, 1, 1)))
+        };
+
+        // Act
+        var result = calculator.GetTimeWeightedReturn(holdings, new DateTime(2025, 3, 1));
+
+        // Assert: (1100 + 1000) / 2000 = 1.05, then (605 + 1100) / (550 + 1000) = 1.1
+        result.Should().Be(15.50m);
+    }
+
+    [Fact]
+    public void GetTimeWeightedReturn_BeforeAnyBuy_ShouldBeNull()
+    {
+        // Arrange
+        var calculator = new PortfolioCalculator(Array.Empty<SecurityPrice>());
+        var holding = Holding("ABC", Buy(10m, 100m, new DateTime(2025, 1, 1)));
+
+        // Act
+        var result = calculator.GetTimeWeightedReturn(new[] { holding }, new DateTime(2024, 12, 31));
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+}
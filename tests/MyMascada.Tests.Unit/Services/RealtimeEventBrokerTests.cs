@@ -0,0 +1,148 @@
+using System.Text.Json;
+using MyMascada.Application.Common.Models;
+using MyMascada.Application.Features.BankConnections.DTOs;
+using MyMascada.Infrastructure.Services.BankIntegration;
+using MyMascada.Infrastructure.Services.Realtime;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class RealtimeEventBrokerTests
+{
+    private readonly RealtimeEventBroker _broker = new();
+    private readonly Guid _userId = Guid.NewGuid();
+
+    private static List<RealtimeEvent> Drain(MyMascada.Application.Common.Interfaces.IRealtimeSubscription subscription)
+    {
+        var events = new List<RealtimeEvent>();
+        while (subscription.Events.TryRead(out var realtimeEvent))
+        {
+            events.Add(realtimeEvent);
+        }
+        return events;
+    }
+
+    [Fact]
+    public void Publish_ShouldDeliverCamelCaseJsonToTheUsersSubscribers()
+    {
+        // Arrange
+        using var subscription = _broker.Subscribe(_userId);
+
+        // Act
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 3 });
+
+        // Assert
+        var events = Drain(subscription);
+        events.Should().ContainSingle();
+        events[0].Type.Should().Be("notification.unreadCount");
+        events[0].Data.Should().Be("{\"count\":3}");
+    }
+
+    [Fact]
+    public void Publish_ShouldNotDeliverToOtherUsers()
+    {
+        // Arrange
+        using var otherUser = _broker.Subscribe(Guid.NewGuid());
+
+        // Act
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 1 });
+
+        // Assert
+        Drain(otherUser).Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Publish_ShouldDeliverToEveryOpenStreamOfTheUser()
+    {
+        // Arrange
+        using var firstTab = _broker.Subscribe(_userId);
+        using var secondTab = _broker.Subscribe(_userId);
+
+        // Act
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 2 });
+
+        // Assert
+        Drain(firstTab).Should().ContainSingle();
+        Drain(secondTab).Should().ContainSingle();
+    }
+
+    [Fact]
+    public void Subscribe_WithLastEventId_ShouldReplayOnlyNewerEvents()
+    {
+        // Arrange
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 1 });
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 2 });
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 3 });
+        using var firstConnection = _broker.Subscribe(_userId, 0);
+        var published = Drain(firstConnection);
+
+        // Act
+        using var reconnected = _broker.Subscribe(_userId, published[0].Id);
+
+        // Assert
+        Drain(reconnected).Select(e => e.Data).Should().Equal("{\"count\":2}", "{\"count\":3}");
+    }
+
+    [Fact]
+    public void Subscribe_WithoutLastEventId_ShouldNotReplayEarlierEvents()
+    {
+        // Arrange
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 1 });
+
+        // Act
+        using var subscription = _broker.Subscribe(_userId);
+
+        // Assert
+        Drain(subscription).Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Publish_ShouldAssignIncreasingIds()
+    {
+        // Arrange
+        using var subscription = _broker.Subscribe(_userId);
+
+        // Act
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 1 });
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 2 });
+
+        // Assert
+        var events = Drain(subscription);
+        events[1].Id.Should().BeGreaterThan(events[0].Id);
+    }
+
+    [Fact]
+    public void Dispose_ShouldStopDeliveryAndCompleteTheFeed()
+    {
+        // Arrange
+        var subscription = _broker.Subscribe(_userId);
+
+        // Act
+        subscription.Dispose();
+        _broker.Publish(_userId, RealtimeEventTypes.NotificationUnreadCount, new { Count = 1 });
+
+        // Assert
+        Drain(subscription).Should().BeEmpty();
+        subscription.Events.Completion.IsCompleted.Should().BeTrue();
+    }
+
+    [Fact]
+    public void BankSyncJobTracker_ShouldPublishEachStatusChange()
+    {
+        // Arrange
+        var tracker = new InMemoryBankSyncJobTracker(_broker);
+        using var subscription = _broker.Subscribe(_userId);
+
+        // Act
+        tracker.Register("job-1", _userId, "connection", new[] { 4 });
+        tracker.MarkRunning("job-1");
+        tracker.MarkCompleted("job-1", BankSyncJobTerminalStatus.Succeeded);
+
+        // Assert
+        var statuses = Drain(subscription)
+            .Where(e => e.Type == RealtimeEventTypes.BankSyncJob)
+            .Select(e => JsonSerializer.Deserialize<BankSyncJobStatusDto>(e.Data, new JsonSerializerOptions(JsonSerializerDefaults.Web))!)
+            .ToList();
+        statuses.Select(s => s.Status).Should().Equal("queued", "processing", "succeeded");
+        statuses.Should().OnlyContain(s => s.JobId == "job-1");
+    }
+}
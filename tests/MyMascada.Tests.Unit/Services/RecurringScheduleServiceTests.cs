@@ -0,0 +1,198 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.RecurringSchedules;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class RecurringScheduleServiceTests : IDisposable
+{
+    private const int AccountId = 1;
+    private const int ScheduleId = 5;
+
+    private readonly ApplicationDbContext _context;
+    private readonly INotificationTriggerService _notificationTrigger;
+    private readonly RecurringScheduleService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly DateTime _dueDate = DateTime.UtcNow.Date.AddDays(-20);
+
+    public RecurringScheduleServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _notificationTrigger = Substitute.For<INotificationTriggerService>();
+
+        _service = new RecurringScheduleService(
+            _context,
+            Substitute.For<IAccountAccessService>(),
+            _notificationTrigger,
+            Substitute.For<ILogger<RecurringScheduleService>>());
+
+        _context.Accounts.Add(new Account { Id = AccountId, Name = "Everyday", Type = AccountType.Checking, UserId = _userId });
+        _context.RecurringSchedules.Add(new RecurringSchedule
+        {
+            Id = ScheduleId,
+            UserId = _userId,
+            Name = "Rent",
+            AccountId = AccountId,
+            Amount = -1850m,
+            Frequency = ScheduleFrequency.Monthly,
+            StartDate = _dueDate,
+            NextDueDate = _dueDate,
+            MatchText = "Ray White"
+        });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private Transaction AddTransaction(int id, string description, decimal amount, int daysFromDue = 0)
+    {
+        var transaction = new Transaction
+        {
+            Id = id,
+            AccountId = AccountId,
+            Amount = amount,
+            Description = description,
+            TransactionDate = _dueDate.AddDays(daysFromDue)
+        };
+        _context.Transactions.Add(transaction);
+        _context.SaveChanges();
+        return transaction;
+    }
+
+    private Task<RecurringScheduleOccurrence> SingleOccurrenceAsync()
+    {
+        return _context.RecurringScheduleOccurrences.SingleAsync(o => o.ScheduleId == ScheduleId);
+    }
+
+    #region Matching new transactions
+
+    [Fact]
+    public async Task TryMatchTransactionAsync_WithMatchText_ShouldRecordThePaymentAndStepToTheNextDueDate()
+    {
+        // Arrange
+        var transaction = AddTransaction(10, "AP RAY WHITE", -1850m, 1);
+
+        // Act
+        var matched = await _service.TryMatchTransactionAsync(transaction);
+
+        // Assert
+        matched.Should().BeTrue();
+        var occurrence = await SingleOccurrenceAsync();
+        occurrence.TransactionId.Should().Be(10);
+        occurrence.Outcome.Should().Be(OccurrenceOutcome.Late);
+        (await _context.RecurringSchedules.FindAsync(ScheduleId))!.NextDueDate.Should().Be(_dueDate.AddMonths(1));
+    }
+
+    [Fact]
+    public async Task TryMatchTransactionAsync_WithMatchTextAndChangedAmount_ShouldFlagTheChange()
+    {
+        // Arrange
+        var transaction = AddTransaction(10, "Ray White", -2100m);
+
+        // Act
+        await _service.TryMatchTransactionAsync(transaction);
+
+        // Assert
+        (await SingleOccurrenceAsync()).AmountChanged.Should().BeTrue();
+        await _notificationTrigger.Received(1).NotifyScheduledPaymentAmountChangedAsync(
+            _userId, ScheduleId, "Rent", -1850m, -2100m, _dueDate, Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task TryMatchTransactionAsync_WithAmountOnlyAsTheSingleCandidate_ShouldMatch()
+    {
+        // Arrange
+        AddTransaction(9, "Countdown", -85m);
+        var transaction = AddTransaction(10, "AUTOMATIC PAYMENT 4471", -1850m, -1);
+
+        // Act
+        var matched = await _service.TryMatchTransactionAsync(transaction);
+
+        // Assert
+        matched.Should().BeTrue();
+        (await SingleOccurrenceAsync()).TransactionId.Should().Be(10);
+    }
+
+    [Fact]
+    public async Task TryMatchTransactionAsync_WithAmountOnlyAndAnotherCandidateInTheWindow_ShouldNotMatch()
+    {
+        // Arrange
+        AddTransaction(9, "Car loan", -1800m, 2);
+        var transaction = AddTransaction(10, "AUTOMATIC PAYMENT 4471", -1850m, -1);
+
+        // Act
+        var matched = await _service.TryMatchTransactionAsync(transaction);
+
+        // Assert
+        matched.Should().BeFalse();
+        (await _context.RecurringScheduleOccurrences.AnyAsync()).Should().BeFalse();
+        (await _context.RecurringSchedules.FindAsync(ScheduleId))!.NextDueDate.Should().Be(_dueDate);
+    }
+
+    #endregion
+
+    #region Missed payments
+
+    [Fact]
+    public async Task ProcessMissedSchedulesAsync_WithMatchText_ShouldPreferItOverAmountOnlyCandidates()
+    {
+        // Arrange
+        AddTransaction(9, "Car loan", -1850m);
+        AddTransaction(10, "Ray White", -1790m, 3);
+
+        // Act
+        var missed = await _service.ProcessMissedSchedulesAsync(_userId);
+
+        // Assert
+        missed.Should().Be(0);
+        (await SingleOccurrenceAsync()).TransactionId.Should().Be(10);
+    }
+
+    [Fact]
+    public async Task ProcessMissedSchedulesAsync_WithSingleAmountOnlyCandidate_ShouldMatchIt()
+    {
+        // Arrange
+        AddTransaction(10, "AUTOMATIC PAYMENT 4471", -1850m, 2);
+
+        // Act
+        var missed = await _service.ProcessMissedSchedulesAsync(_userId);
+
+        // Assert
+        missed.Should().Be(0);
+        var occurrence = await SingleOccurrenceAsync();
+        occurrence.TransactionId.Should().Be(10);
+        occurrence.Outcome.Should().Be(OccurrenceOutcome.Late);
+    }
+
+    [Fact]
+    public async Task ProcessMissedSchedulesAsync_WithSeveralAmountOnlyCandidates_ShouldRecordAMiss()
+    {
+        // Arrange
+        AddTransaction(9, "Car loan", -1800m, -2);
+        AddTransaction(10, "AUTOMATIC PAYMENT 4471", -1850m, 2);
+
+        // Act
+        var missed = await _service.ProcessMissedSchedulesAsync(_userId);
+
+        // Assert
+        missed.Should().Be(1);
+        var occurrence = await SingleOccurrenceAsync();
+        occurrence.Outcome.Should().Be(OccurrenceOutcome.Missed);
+        occurrence.TransactionId.Should().BeNull();
+        await _notificationTrigger.Received(1).NotifyScheduledPaymentMissedAsync(
+            _userId, ScheduleId, "Rent", -1850m, _dueDate, Arg.Any<CancellationToken>());
+    }
+
+    #endregion
+}
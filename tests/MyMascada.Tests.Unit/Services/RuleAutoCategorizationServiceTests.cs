@@ -0,0 +1,100 @@
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using MyMascada.Application.Common.Configuration;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Categorization.Handlers;
+using MyMascada.Application.Features.Categorization.Services;
+using MyMascada.Domain.Entities;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class RuleAutoCategorizationServiceTests
+{
+    private const int RuleId = 5;
+    private const int DiningId = 30;
+
+    private readonly ITransactionRepository _transactionRepository;
+    private readonly ICategorizationRuleRepository _ruleRepository;
+    private readonly ITagService _tagService;
+    private readonly RuleAutoCategorizationService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public RuleAutoCategorizationServiceTests()
+    {
+        _transactionRepository = Substitute.For<ITransactionRepository>();
+        _ruleRepository = Substitute.For<ICategorizationRuleRepository>();
+        _tagService = Substitute.For<ITagService>();
+
+        var options = Substitute.For<IOptions<CategorizationOptions>>();
+        options.Value.Returns(new CategorizationOptions());
+        var categoryRepository = Substitute.For<ICategoryRepository>();
+
+        _service = new RuleAutoCategorizationService(
+            new RulesHandler(_ruleRepository, categoryRepository, options, Substitute.For<ILogger<RulesHandler>>()),
+            Substitute.For<ICategorizationCandidatesService>(),
+            Substitute.For<ICategorizationCandidatesRepository>(),
+            _transactionRepository,
+            categoryRepository,
+            _ruleRepository,
+            _tagService,
+            Substitute.For<ILogger<RuleAutoCategorizationService>>());
+
+        _ruleRepository.GetAllRulesForUserAsync(_userId, Arg.Any<CancellationToken>())
+            .Returns(new List<CategorizationRule>
+            {
+                new() { Id = RuleId, Name = "Cafes", Pattern = "cafe", CategoryId = DiningId, UserId = _userId, ApplyTags = "Coffee" }
+            });
+    }
+
+    private static RuleMatchDetail Match(int transactionId) => new()
+    {
+        TransactionId = transactionId,
+        RuleId = RuleId,
+        CategoryId = DiningId,
+        CategoryName = "Dining",
+        ConfidenceScore = 0.95m
+    };
+
+    [Fact]
+    public async Task ApplySelectedRuleMatchesAsync_ShouldCategorizeAndTagTheTransaction()
+    {
+        // Arrange
+        var transaction = new Transaction { Id = 1, Amount = -8m, Description = "Corner Cafe" };
+        _transactionRepository.GetByIdAsync(1, _userId).Returns(transaction);
+
+        // Act
+        var result = await _service.ApplySelectedRuleMatchesAsync(new List<RuleMatchDetail> { Match(1) }, _userId);
+
+        // Assert
+        result.TransactionsMatched.Should().Be(1);
+        transaction.CategoryId.Should().Be(DiningId);
+        transaction.Tags.Should().Be("Coffee");
+        await _tagService.Received(1).SyncTransactionTagsAsync(
+            Arg.Is<IReadOnlyCollection<Transaction>>(t => t.Single() == transaction), Arg.Any<CancellationToken>());
+        await _transactionRepository.Received(1).UpdateAsync(transaction);
+    }
+
+    [Fact]
+    public async Task ApplySelectedRuleMatchesAsync_WithSplitTransaction_ShouldLeaveItUntouched()
+    {
+        // Arrange
+        var transaction = new Transaction { Id = 1, Amount = -50m, Description = "Cafe and groceries" };
+        transaction.ReplaceSplits(new[]
+        {
+            new TransactionSplit { CategoryId = 10, Amount = -35m },
+            new TransactionSplit { CategoryId = 20, Amount = -15m }
+        });
+        _transactionRepository.GetByIdAsync(1, _userId).Returns(transaction);
+
+        // Act
+        var result = await _service.ApplySelectedRuleMatchesAsync(new List<RuleMatchDetail> { Match(1) }, _userId);
+
+        // Assert
+        result.TransactionsMatched.Should().Be(0);
+        transaction.CategoryId.Should().Be(10);
+        transaction.Tags.Should().BeNull();
+        await _transactionRepository.DidNotReceive().UpdateAsync(Arg.Any<Transaction>());
+        await _tagService.DidNotReceive().SyncTransactionTagsAsync(
+            Arg.Any<IReadOnlyCollection<Transaction>>(), Arg.Any<CancellationToken>());
+    }
+}
@@ -0,0 +1,271 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Subscriptions.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Subscriptions;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class SubscriptionTrackerServiceTests : IDisposable
+{
+    private const int AccountId = 1;
+
+    private readonly ApplicationDbContext _context;
+    private readonly INotificationTriggerService _notificationTrigger;
+    private readonly SubscriptionTrackerService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly DateTime _today = DateTime.UtcNow.Date;
+    private int _nextTransactionId = 1;
+
+    public SubscriptionTrackerServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _notificationTrigger = Substitute.For<INotificationTriggerService>();
+        _service = new SubscriptionTrackerService(
+            _context, _notificationTrigger, Substitute.For<ILogger<SubscriptionTrackerService>>());
+
+        _context.Accounts.Add(new Account { Id = AccountId, Name = "Everyday", Type = AccountType.Checking, UserId = _userId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private RecurringPattern AddPattern(int id, string merchant, decimal averageAmount,
+        SubscriptionCancellationStatus cancellationStatus = SubscriptionCancellationStatus.None)
+    {
+        var pattern = new RecurringPattern
+        {
+            Id = id,
+            UserId = _userId,
+            MerchantName = merchant,
+            NormalizedMerchantKey = RecurringPattern.NormalizeDescription(merchant),
+            IntervalDays = 30,
+            AverageAmount = averageAmount,
+            Confidence = 0.9m,
+            OccurrenceCount = 6,
+            NextExpectedDate = _today.AddDays(10),
+            LastObservedAt = _today.AddDays(-20),
+            CancellationStatus = cancellationStatus,
+            CancellationStatusChangedAt = cancellationStatus == SubscriptionCancellationStatus.None ? null : _today.AddDays(-10)
+        };
+        _context.RecurringPatterns.Add(pattern);
+        _context.SaveChanges();
+        return pattern;
+    }
+
+    private void AddCharge(string description, decimal amount, int daysAgo)
+    {
+        _context.Transactions.Add(new Transaction
+        {
+            Id = _nextTransactionId++,
+            AccountId = AccountId,
+            Amount = amount,
+            Description = description,
+            TransactionDate = _today.AddDays(-daysAgo)
+        });
+        _context.SaveChanges();
+    }
+
+    #region Subscriptions
+
+    [Fact]
+    public async Task GetSubscriptionsAsync_ShouldTotalAnnualCostsByCancellationStatus()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);                                                  // 20 * 365 / 30 = 243.33
+        AddPattern(2, "Spotify", 10m, SubscriptionCancellationStatus.CancelIntended);    // 121.67
+        AddPattern(3, "Les Mills", 60m, SubscriptionCancellationStatus.Cancelled);       // 730.00
+
+        // Act
+        var result = await _service.GetSubscriptionsAsync(_userId);
+
+        // Assert
+        result.Subscriptions.Select(s => s.MerchantName).Should().Equal("Les Mills", "Netflix", "Spotify");
+        result.Subscriptions.Single(s => s.PatternId == 1).AnnualizedAmount.Should().Be(243.33m);
+        result.TotalAnnualCost.Should().Be(365.00m);
+        result.CancelIntendedAnnualCost.Should().Be(121.67m);
+        result.CancelledAnnualSavings.Should().Be(730.00m);
+        result.Subscriptions.Single(s => s.PatternId == 3).NextExpectedDate.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetSubscriptionsAsync_ShouldReportPriceChangesAboveTheThreshold()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);
+        AddCharge("Netflix", -20.00m, 90);
+        AddCharge("Netflix", -20.00m, 60);
+        AddCharge("Netflix", -22.99m, 30);
+        AddCharge("Netflix", -23.20m, 1);       // Under 2%, treated as noise
+        AddCharge("Countdown", -85.40m, 5);
+        AddCharge("Netflix", 22.99m, 2);        // Refunds are not charges
+
+        // Act
+        var subscription = (await _service.GetSubscriptionsAsync(_userId)).Subscriptions.Single();
+
+        // Assert
+        subscription.PriceChanges.Should().ContainSingle();
+        subscription.PriceChanges[0].PreviousAmount.Should().Be(20.00m);
+        subscription.PriceChanges[0].NewAmount.Should().Be(22.99m);
+        subscription.PriceChanges[0].Date.Should().Be(_today.AddDays(-30));
+        subscription.CurrentAmount.Should().Be(23.20m);
+        subscription.FirstChargedAt.Should().Be(_today.AddDays(-90));
+        subscription.LastChargedAt.Should().Be(_today.AddDays(-1));
+    }
+
+    [Fact]
+    public async Task UpdateSubscriptionAsync_ShouldRecordWhenTheStatusChanged()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);
+
+        // Act
+        var result = await _service.UpdateSubscriptionAsync(_userId, 1, new UpdateSubscriptionRequest
+        {
+            CancellationStatus = "cancelled",
+            Notes = "  Cancelled online  "
+        });
+
+        // Assert
+        result.CancellationStatus.Should().Be("Cancelled");
+        result.CancellationStatusChangedAt.Should().NotBeNull();
+        result.Notes.Should().Be("Cancelled online");
+        result.NextExpectedDate.Should().BeNull();
+    }
+
+    [Theory]
+    [InlineData("Paused")]
+    [InlineData("7")]
+    public async Task UpdateSubscriptionAsync_WithUnknownStatus_ShouldThrow(string status)
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);
+
+        // Act
+        var act = () => _service.UpdateSubscriptionAsync(_userId, 1, new UpdateSubscriptionRequest { CancellationStatus = status });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Cancellation status*");
+    }
+
+    [Fact]
+    public async Task UpdateSubscriptionAsync_WithFutureLastUsedDate_ShouldThrow()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);
+
+        // Act
+        var act = () => _service.UpdateSubscriptionAsync(_userId, 1, new UpdateSubscriptionRequest
+        {
+            CancellationStatus = "None",
+            LastUsedAt = _today.AddDays(2)
+        });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*future*");
+    }
+
+    [Fact]
+    public async Task UpdateSubscriptionAsync_ForAnotherUsersPattern_ShouldThrow()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m);
+
+        // Act
+        var act = () => _service.UpdateSubscriptionAsync(Guid.NewGuid(), 1, new UpdateSubscriptionRequest { CancellationStatus = "None" });
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*not found*");
+    }
+
+    #endregion
+
+    #region Charges after cancellation
+
+    [Fact]
+    public async Task DetectChargesAfterCancellationAsync_ShouldReportTheLatestChargeOnce()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m, SubscriptionCancellationStatus.Cancelled);
+        AddCharge("Netflix", -20.00m, 10);      // Same day as the cancellation
+        AddCharge("Netflix", -20.00m, 5);
+        AddCharge("Netflix", -22.99m, 3);
+
+        // Act
+        var first = await _service.DetectChargesAfterCancellationAsync(_userId);
+        var second = await _service.DetectChargesAfterCancellationAsync(_userId);
+
+        // Assert
+        first.Should().Be(1);
+        second.Should().Be(0);
+        (await _context.RecurringPatterns.FindAsync(1))!.ChargedAfterCancellationAt.Should().Be(_today.AddDays(-3));
+        await _notificationTrigger.Received(1).NotifyCancelledSubscriptionChargedAsync(
+            _userId, 1, "Netflix", -22.99m, _today.AddDays(-3), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task DetectChargesAfterCancellationAsync_WithTransactionIds_ShouldOnlyCheckThoseCharges()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m, SubscriptionCancellationStatus.Cancelled);
+        AddCharge("Netflix", -20.00m, 5);
+        AddCharge("Netflix", -22.99m, 3);
+
+        // Act
+        var result = await _service.DetectChargesAfterCancellationAsync(_userId, new[] { 1 });
+
+        // Assert
+        result.Should().Be(1);
+        (await _context.RecurringPatterns.FindAsync(1))!.ChargedAfterCancellationAt.Should().Be(_today.AddDays(-5));
+        await _notificationTrigger.Received(1).NotifyCancelledSubscriptionChargedAsync(
+            _userId, 1, "Netflix", -20.00m, _today.AddDays(-5), Arg.Any<CancellationToken>());
+    }
+
+    [Fact]
+    public async Task DetectChargesAfterCancellationAsync_ShouldMatchChargesWithNoisyDescriptions()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m, SubscriptionCancellationStatus.Cancelled);
+        AddPattern(2, "Spotify", 10m, SubscriptionCancellationStatus.Cancelled);
+        AddCharge("POS NETFLIX 12/05", -20.00m, 2);
+        AddCharge("Countdown Ponsonby", -20.00m, 1);
+
+        // Act
+        var result = await _service.DetectChargesAfterCancellationAsync(_userId);
+
+        // Assert
+        result.Should().Be(1);
+        (await _context.RecurringPatterns.FindAsync(1))!.ChargedAfterCancellationAt.Should().Be(_today.AddDays(-2));
+        (await _context.RecurringPatterns.FindAsync(2))!.ChargedAfterCancellationAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task DetectChargesAfterCancellationAsync_WithOnlyACancellationDayCharge_ShouldNotReport()
+    {
+        // Arrange
+        AddPattern(1, "Netflix", 20m, SubscriptionCancellationStatus.Cancelled);
+        AddPattern(2, "Spotify", 10m, SubscriptionCancellationStatus.CancelIntended);
+        AddCharge("Netflix", -20.00m, 10);
+        AddCharge("Spotify", -10.00m, 2);
+
+        // Act
+        var result = await _service.DetectChargesAfterCancellationAsync(_userId);
+
+        // Assert
+        result.Should().Be(0);
+        await _notificationTrigger.DidNotReceiveWithAnyArgs().NotifyCancelledSubscriptionChargedAsync(
+            default, default, default!, default, default, default);
+    }
+
+    #endregion
+}
@@ -0,0 +1,336 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Tags;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class TagServiceTests : IDisposable
+{
+    private const int OwnAccountId = 1;
+    private const int SharedAccountId = 2;
+
+    private readonly ApplicationDbContext _context;
+    private readonly TagService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Guid _otherUserId = Guid.NewGuid();
+
+    public TagServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning))
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        var accountAccess = Substitute.For<IAccountAccessService>();
+        accountAccess.GetAccessibleAccountIdsAsync(_userId)
+            .Returns(new HashSet<int> { OwnAccountId, SharedAccountId });
+
+        _service = new TagService(_context, accountAccess, Substitute.For<ILogger<TagService>>());
+
+        _context.Accounts.AddRange(
+            new Account { Id = OwnAccountId, Name = "Everyday", Type = AccountType.Checking, UserId = _userId },
+            new Account { Id = SharedAccountId, Name = "Partner's card", Type = AccountType.CreditCard, UserId = _otherUserId });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private Transaction AddTransaction(int id, string tags, int accountId = OwnAccountId)
+    {
+        var transaction = new Transaction
+        {
+            Id = id,
+            AccountId = accountId,
+            Amount = -20m,
+            Description = $"Transaction {id}",
+            Tags = tags,
+            TransactionDate = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc)
+        };
+        _context.Transactions.Add(transaction);
+        return transaction;
+    }
+
+    private async Task SaveWithTagLinksAsync()
+    {
+        await _service.SyncTransactionTagsAsync(_context.Transactions.Local.ToList());
+        await _context.SaveChangesAsync();
+    }
+
+    private List<string> LinkedTagNames(int transactionId)
+    {
+        return _context.TransactionTags
+            .Where(tt => tt.TransactionId == transactionId)
+            .Select(tt => tt.Tag.Name)
+            .OrderBy(name => name)
+            .ToList();
+    }
+
+    #region Tag links
+
+    [Fact]
+    public async Task SyncTransactionTagsAsync_ShouldLinkTransactionTagsAndCreateMissingTags()
+    {
+        // Arrange
+        _context.Tags.Add(new Tag { UserId = _userId, Name = "Holiday", Color = "#22c55e" });
+        var transaction = AddTransaction(10, "holiday,Flights");
+
+        // Act
+        await _service.SyncTransactionTagsAsync(new[] { transaction });
+        await _context.SaveChangesAsync();
+
+        // Assert
+        LinkedTagNames(10).Should().Equal("Flights", "Holiday");
+        _context.Tags.Where(t => t.UserId == _userId).Select(t => t.Name)
+            .Should().BeEquivalentTo(new[] { "Holiday", "Flights" });
+    }
+
+    [Fact]
+    public async Task SyncTransactionTagsAsync_ShouldLinkSharedAccountTransactionsToTheAccountOwnersTags()
+    {
+        // Arrange
+        var transaction = AddTransaction(10, "Groceries", SharedAccountId);
+
+        // Act
+        await _service.SyncTransactionTagsAsync(new[] { transaction });
+        await _context.SaveChangesAsync();
+
+        // Assert
+        _context.TransactionTags.Single(tt => tt.TransactionId == 10).Tag.UserId.Should().Be(_otherUserId);
+    }
+
+    [Fact]
+    public async Task SyncTransactionTagsAsync_WhenTagsChange_ShouldReplaceTheLinks()
+    {
+        // Arrange
+        var transaction = AddTransaction(10, "Holiday,Flights");
+        await SaveWithTagLinksAsync();
+
+        // Act
+        transaction.RemoveTags(new[] { "Flights" });
+        transaction.AddTags(new[] { "Hotels" });
+        await _service.SyncTransactionTagsAsync(new[] { transaction });
+        await _context.SaveChangesAsync();
+
+        // Assert
+        LinkedTagNames(10).Should().Equal("Holiday", "Hotels");
+        _context.TransactionTags.IgnoreQueryFilters()
+            .Single(tt => tt.TransactionId == 10 && tt.Tag.Name == "Flights")
+            .IsDeleted.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task SyncTransactionTagsAsync_WhenATagIsPutBack_ShouldReuseItsLink()
+    {
+        // Arrange
+        var transaction = AddTransaction(10, "Holiday");
+        await SaveWithTagLinksAsync();
+        transaction.RemoveTags(new[] { "Holiday" });
+        await SaveWithTagLinksAsync();
+
+        // Act
+        transaction.AddTags(new[] { "Holiday" });
+        await _service.SyncTransactionTagsAsync(new[] { transaction });
+        await _context.SaveChangesAsync();
+
+        // Assert
+        LinkedTagNames(10).Should().Equal("Holiday");
+        _context.TransactionTags.IgnoreQueryFilters().Count(tt => tt.TransactionId == 10).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task SaveChangesAsync_ShouldNotLinkTagsOnItsOwn()
+    {
+        // Arrange
+        AddTransaction(10, "Holiday");
+
+        // Act
+        await _context.SaveChangesAsync();
+
+        // Assert
+        LinkedTagNames(10).Should().BeEmpty();
+        _context.Tags.Should().BeEmpty();
+    }
+
+    #endregion
+
+    #region Reads
+
+    [Fact]
+    public async Task GetTagsAsync_ShouldCountLinkedTransactionsAcrossSharedAccounts()
+    {
+        // Arrange
+        _context.Tags.Add(new Tag { UserId = _userId, Name = "Holiday", Color = "#22c55e" });
+        AddTransaction(10, "Holiday,Flights");
+        AddTransaction(11, "holiday", SharedAccountId);
+        await SaveWithTagLinksAsync();
+
+        // A name left on the transaction without a link doesn't count as a use of the tag
+        AddTransaction(12, "Holiday");
+        await _context.SaveChangesAsync();
+
+        // Act
+        var tags = await _service.GetTagsAsync(_userId);
+
+        // Assert
+        tags.Select(t => t.Name).Should().Equal("Flights", "Holiday");
+        var holiday = tags.Single(t => t.Name == "Holiday");
+        holiday.Color.Should().Be("#22c55e");
+        holiday.TransactionCount.Should().Be(2);
+        holiday.LastUsedAt.Should().Be(new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc));
+    }
+
+    [Fact]
+    public async Task GetSpendingReportAsync_ShouldGroupSpendingByLinkedTag()
+    {
+        // Arrange
+        AddTransaction(10, "Holiday,Flights");
+        AddTransaction(11, "holiday", SharedAccountId);
+        AddTransaction(12, "Groceries");
+        await SaveWithTagLinksAsync();
+
+        // Act
+        var report = await _service.GetSpendingReportAsync(
+            _userId,
+            new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc),
+            new DateTime(2026, 10, 31, 0, 0, 0, DateTimeKind.Utc),
+            new[] { "HOLIDAY", "Flights" });
+
+        // Assert
+        report.Tags.Select(t => t.Name.ToLower()).Should().BeEquivalentTo(new[] { "holiday", "flights" });
+        var holiday = report.Tags.Single(t => t.Name.Equals("holiday", StringComparison.OrdinalIgnoreCase));
+        holiday.TotalSpent.Should().Be(40m);
+        holiday.TransactionCount.Should().Be(2);
+        report.Tags.Single(t => t.Name == "Flights").TotalSpent.Should().Be(20m);
+    }
+
+    #endregion
+
+    #region Rename
+
+    [Fact]
+    public async Task RenameTagAsync_ShouldRewriteTransactionsRulesAndGoals()
+    {
+        // Arrange
+        _context.Tags.Add(new Tag { UserId = _userId, Name = "Holiday" });
+        AddTransaction(10, "Holiday,Flights");
+        AddTransaction(11, "holiday");
+        _context.CategorizationRules.Add(new CategorizationRule { Id = 1, Name = "Air NZ", Pattern = "air nz", UserId = _userId, CategoryId = 1, ApplyTags = "Flights,Holiday" });
+        _context.Goals.Add(new Goal { Id = 1, Name = "Trip", TargetAmount = 3000m, UserId = _userId, ContributionTag = "Holiday" });
+        await SaveWithTagLinksAsync();
+        var tag = await _context.Tags.SingleAsync(t => t.Name == "Holiday");
+
+        // Act
+        var result = await _service.RenameTagAsync(_userId, "Holiday", "Travel");
+
+        // Assert
+        result.TransactionsUpdated.Should().Be(2);
+        result.RulesUpdated.Should().Be(1);
+        (await _context.Transactions.FindAsync(10))!.Tags.Should().Be("Flights,Travel");
+        (await _context.Transactions.FindAsync(11))!.Tags.Should().Be("Travel");
+        (await _context.CategorizationRules.FindAsync(1))!.ApplyTags.Should().Be("Flights,Travel");
+        (await _context.Goals.FindAsync(1))!.ContributionTag.Should().Be("Travel");
+
+        // The tag itself is renamed, so its links stay in place
+        tag.Name.Should().Be("Travel");
+        _context.TransactionTags.Where(tt => tt.TagId == tag.Id).Select(tt => tt.TransactionId)
+            .Should().BeEquivalentTo(new[] { 10, 11 });
+    }
+
+    [Fact]
+    public async Task RenameTagAsync_IntoExistingTag_ShouldMergeIntoTheTarget()
+    {
+        // Arrange
+        _context.Tags.AddRange(
+            new Tag { UserId = _userId, Name = "Trip", Color = "#ef4444" },
+            new Tag { UserId = _userId, Name = "Travel" });
+        AddTransaction(10, "Trip,Travel");
+        AddTransaction(11, "Trip");
+        await SaveWithTagLinksAsync();
+
+        // Act
+        var result = await _service.RenameTagAsync(_userId, "Trip", "Travel");
+
+        // Assert
+        result.TransactionsUpdated.Should().Be(2);
+        (await _context.Transactions.FindAsync(10))!.Tags.Should().Be("Travel");
+        (await _context.Transactions.FindAsync(11))!.Tags.Should().Be("Travel");
+
+        // The target keeps its name and picks up the source's color; the source is soft-deleted
+        var target = await _context.Tags.SingleAsync(t => t.UserId == _userId);
+        target.Name.Should().Be("Travel");
+        target.Color.Should().Be("#ef4444");
+        _context.Tags.IgnoreQueryFilters().Single(t => t.Name == "Trip").IsDeleted.Should().BeTrue();
+
+        LinkedTagNames(10).Should().Equal("Travel");
+        LinkedTagNames(11).Should().Equal("Travel");
+    }
+
+    [Fact]
+    public async Task RenameTagAsync_ShouldLeaveSharedAccountTransactionsAlone()
+    {
+        // Arrange
+        AddTransaction(10, "Holiday");
+        AddTransaction(11, "Holiday", SharedAccountId);
+        await SaveWithTagLinksAsync();
+
+        // Act
+        var result = await _service.RenameTagAsync(_userId, "Holiday", "Travel");
+
+        // Assert
+        result.TransactionsUpdated.Should().Be(1);
+        (await _context.Transactions.FindAsync(11))!.Tags.Should().Be("Holiday");
+        LinkedTagNames(11).Should().Equal("Holiday");
+    }
+
+    #endregion
+
+    #region Delete
+
+    [Fact]
+    public async Task DeleteTagAsync_ShouldRemoveTheTagEverywhere()
+    {
+        // Arrange
+        AddTransaction(10, "Holiday,Flights");
+        AddTransaction(11, "holiday");
+        _context.CategorizationRules.Add(new CategorizationRule { Id = 1, Name = "Air NZ", Pattern = "air nz", UserId = _userId, CategoryId = 1, ApplyTags = "Holiday" });
+        _context.Goals.Add(new Goal { Id = 1, Name = "Trip", TargetAmount = 3000m, UserId = _userId, ContributionTag = "Holiday" });
+        await SaveWithTagLinksAsync();
+
+        // Act
+        var result = await _service.DeleteTagAsync(_userId, "Holiday");
+
+        // Assert
+        result.TransactionsUpdated.Should().Be(2);
+        result.RulesUpdated.Should().Be(1);
+        (await _context.Transactions.FindAsync(10))!.Tags.Should().Be("Flights");
+        (await _context.Transactions.FindAsync(11))!.Tags.Should().BeNull();
+        (await _context.CategorizationRules.FindAsync(1))!.ApplyTags.Should().BeNull();
+        (await _context.Goals.FindAsync(1))!.ContributionTag.Should().BeNull();
+
+        _context.Tags.Should().NotContain(t => t.Name.ToLower() == "holiday");
+        LinkedTagNames(10).Should().Equal("Flights");
+        LinkedTagNames(11).Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task DeleteTagAsync_WithUnknownTag_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.DeleteTagAsync(_userId, "Nowhere");
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Tag not found.");
+    }
+
+    #endregion
+}
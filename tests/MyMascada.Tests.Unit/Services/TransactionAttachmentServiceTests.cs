@@ -0,0 +1,243 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using MyMascada.Application.Common.Configuration;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Attachments.DTOs;
+using MyMascada.Domain.Entities;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.Attachments;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class TransactionAttachmentServiceTests : IDisposable
+{
+    private const int AccountId = 1;
+    private const int TransactionId = 10;
+
+    private static readonly byte[] PngHeader = Convert.FromHexString("89504E470D0A1A0A0000000D49484452");
+    private static readonly byte[] PdfHeader = "%PDF-1.7\n"u8.ToArray();
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAccountAccessService _accountAccess;
+    private readonly IFileStorageService _storage;
+    private readonly TransactionAttachmentService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Dictionary<string, byte[]> _storedFiles = new();
+
+    public TransactionAttachmentServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+
+        _accountAccess = Substitute.For<IAccountAccessService>();
+        _accountAccess.CanAccessAccountAsync(_userId, AccountId).Returns(true);
+        _accountAccess.CanModifyAccountAsync(_userId, AccountId).Returns(true);
+
+        _storage = Substitute.For<IFileStorageService>();
+        _storage.When(s => s.SaveAsync(Arg.Any<string>(), Arg.Any<Stream>(), Arg.Any<string>(), Arg.Any<CancellationToken>()))
+            .Do(callInfo =>
+            {
+                using var copy = new MemoryStream();
+                callInfo.Arg<Stream>().CopyTo(copy);
+                _storedFiles[callInfo.ArgAt<string>(0)] = copy.ToArray();
+            });
+
+        _service = new TransactionAttachmentService(
+            _context,
+            _accountAccess,
+            _storage,
+            Options.Create(new FileStorageOptions { MaxFileSizeBytes = 1024 }),
+            Substitute.For<ILogger<TransactionAttachmentService>>());
+
+        _context.Transactions.Add(new Transaction
+        {
+            Id = TransactionId,
+            AccountId = AccountId,
+            Amount = -42.50m,
+            Description = "Hardware store",
+            TransactionDate = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc)
+        });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    private static byte[] FileWithHeader(byte[] header)
+    {
+        return header.Concat(Enumerable.Repeat((byte)0x2A, 64)).ToArray();
+    }
+
+    private Task<TransactionAttachmentDto> UploadAsync(
+        string fileName, string contentType, byte[] content, Stream? stream = null)
+    {
+        return _service.UploadAsync(
+            _userId, TransactionId, fileName, contentType, content.Length, stream ?? new MemoryStream(content));
+    }
+
+    #region Upload
+
+    [Fact]
+    public async Task UploadAsync_ShouldStoreTheWholeFileAndRecordTheAttachment()
+    {
+        // Arrange
+        var content = FileWithHeader(PngHeader);
+
+        // Act
+        var attachment = await UploadAsync("receipt.png", "image/PNG", content);
+
+        // Assert
+        attachment.FileName.Should().Be("receipt.png");
+        attachment.ContentType.Should().Be("image/png");
+        attachment.SizeBytes.Should().Be(content.Length);
+        attachment.IsImage.Should().BeTrue();
+
+        var row = await _context.TransactionAttachments.SingleAsync();
+        row.StorageKey.Should().StartWith($"transactions/{TransactionId}/").And.EndWith(".png");
+        row.UploadedByUserId.Should().Be(_userId);
+
+        // The signature check must not eat the first bytes of the stored file
+        _storedFiles[row.StorageKey].Should().Equal(content);
+    }
+
+    [Fact]
+    public async Task UploadAsync_WithNonSeekableStream_ShouldStoreTheWholeFile()
+    {
+        // Arrange
+        var content = FileWithHeader(PdfHeader);
+
+        // Act
+        await UploadAsync("statement.pdf", "application/pdf", content, new NonSeekableStream(content));
+
+        // Assert
+        _storedFiles.Values.Single().Should().Equal(content);
+    }
+
+    [Theory]
+    [InlineData("image/jpeg", "FFD8FFE000104A464946")]
+    [InlineData("image/gif", "474946383961")]
+    [InlineData("image/webp", "524946462400000057454250")]
+    [InlineData("image/heic", "000000186674797068656963")]
+    [InlineData("application/pdf", "255044462D312E34")]
+    public async Task UploadAsync_ShouldAcceptFilesMatchingTheirDeclaredType(string contentType, string headerHex)
+    {
+        // Act
+        var attachment = await UploadAsync("file", contentType, FileWithHeader(Convert.FromHexString(headerHex)));
+
+        // Assert
+        attachment.ContentType.Should().Be(contentType);
+        _storedFiles.Should().ContainSingle();
+    }
+
+    [Theory]
+    [InlineData("image/png")]
+    [InlineData("image/jpeg")]
+    [InlineData("image/webp")]
+    public async Task UploadAsync_WhenContentDoesNotMatchDeclaredType_ShouldRejectWithoutStoring(string contentType)
+    {
+        // Act
+        var act = () => UploadAsync("receipt.png", contentType, FileWithHeader(PdfHeader));
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("*don't match*");
+        await _storage.DidNotReceiveWithAnyArgs().SaveAsync(default!, default!, default!, default);
+        (await _context.TransactionAttachments.AnyAsync()).Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task UploadAsync_WithTruncatedFile_ShouldReject()
+    {
+        // Act
+        var act = () => UploadAsync("photo.webp", "image/webp", "RIFF"u8.ToArray());
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>();
+    }
+
+    [Fact]
+    public async Task UploadAsync_WithUnsupportedType_ShouldReject()
+    {
+        // Act
+        var act = () => UploadAsync("setup.exe", "application/x-msdownload", FileWithHeader("MZ"u8.ToArray()));
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("Only images*");
+    }
+
+    [Fact]
+    public async Task UploadAsync_WhenFileIsTooLarge_ShouldReject()
+    {
+        // Act
+        var act = () => UploadAsync("scan.pdf", "application/pdf", PdfHeader.Concat(new byte[2048]).ToArray());
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>();
+        await _storage.DidNotReceiveWithAnyArgs().SaveAsync(default!, default!, default!, default);
+    }
+
+    [Fact]
+    public async Task UploadAsync_WithoutModifyPermission_ShouldThrowUnauthorized()
+    {
+        // Arrange
+        _accountAccess.CanModifyAccountAsync(_userId, AccountId).Returns(false);
+
+        // Act
+        var act = () => UploadAsync("receipt.png", "image/png", FileWithHeader(PngHeader));
+
+        // Assert
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+
+    #region Open and delete
+
+    [Fact]
+    public async Task OpenAsync_WithoutAccess_ShouldReturnNull()
+    {
+        // Arrange
+        var attachment = await UploadAsync("receipt.png", "image/png", FileWithHeader(PngHeader));
+
+        // Act
+        var content = await _service.OpenAsync(Guid.NewGuid(), attachment.Id);
+
+        // Assert
+        content.Should().BeNull();
+        await _storage.DidNotReceiveWithAnyArgs().OpenReadAsync(default!, default);
+    }
+
+    [Fact]
+    public async Task DeleteAsync_ShouldKeepTheRowAsDeletedAndRemoveTheFile()
+    {
+        // Arrange
+        var attachment = await UploadAsync("receipt.png", "image/png", FileWithHeader(PngHeader));
+        var storageKey = _storedFiles.Keys.Single();
+
+        // Act
+        await _service.DeleteAsync(_userId, attachment.Id);
+
+        // Assert
+        var row = await _context.TransactionAttachments.IgnoreQueryFilters().SingleAsync();
+        row.IsDeleted.Should().BeTrue();
+        row.DeletedAt.Should().NotBeNull();
+        await _storage.Received(1).DeleteAsync(storageKey, Arg.Any<CancellationToken>());
+        (await _service.GetAttachmentsAsync(_userId, TransactionId)).Should().BeEmpty();
+    }
+
+    #endregion
+
+    private sealed class NonSeekableStream : MemoryStream
+    {
+        public NonSeekableStream(byte[] buffer) : base(buffer)
+        {
+        }
+
+        public override bool CanSeek => false;
+    }
+}
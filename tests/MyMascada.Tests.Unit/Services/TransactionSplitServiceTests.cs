@@ -0,0 +1,121 @@
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Application.Features.Transactions.DTOs;
+using MyMascada.Application.Features.Transactions.Services;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class TransactionSplitServiceTests
+{
+    private const int GroceriesId = 1;
+    private const int HouseholdId = 2;
+
+    private readonly ICategoryRepository _categoryRepository;
+    private readonly TransactionSplitService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public TransactionSplitServiceTests()
+    {
+        _categoryRepository = Substitute.For<ICategoryRepository>();
+        _categoryRepository.ExistsAsync(GroceriesId, _userId).Returns(true);
+        _categoryRepository.ExistsAsync(HouseholdId, _userId).Returns(true);
+        _service = new TransactionSplitService(_categoryRepository);
+    }
+
+    private static TransactionSplitRequest Line(decimal amount, int categoryId, string? description = null) => new()
+    {
+        Amount = amount,
+        CategoryId = categoryId,
+        Description = description
+    };
+
+    [Fact]
+    public async Task BuildSplitsAsync_WithValidLines_ShouldReturnOneSplitPerLine()
+    {
+        // Act
+        var splits = await _service.BuildSplitsAsync(
+            -100m,
+            new[] { Line(-60m, GroceriesId, "  Food  "), Line(-40m, HouseholdId, " ") },
+            _userId);
+
+        // Assert
+        splits.Should().HaveCount(2);
+        splits[0].Amount.Should().Be(-60m);
+        splits[0].CategoryId.Should().Be(GroceriesId);
+        splits[0].Description.Should().Be("Food");
+        splits[1].Amount.Should().Be(-40m);
+        splits[1].CategoryId.Should().Be(HouseholdId);
+        splits[1].Description.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task BuildSplitsAsync_WithASingleLine_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.BuildSplitsAsync(-100m, new[] { Line(-100m, GroceriesId) }, _userId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("A split needs at least two lines");
+    }
+
+    [Fact]
+    public async Task BuildSplitsAsync_WithZeroAmountTransaction_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.BuildSplitsAsync(0m, new[] { Line(-10m, GroceriesId), Line(10m, HouseholdId) }, _userId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>().WithMessage("A zero-amount transaction cannot be split");
+    }
+
+    [Theory]
+    [InlineData(-100, -120, 20)]
+    [InlineData(-100, -100, 0)]
+    [InlineData(100, 120, -20)]
+    public async Task BuildSplitsAsync_WithALineOfTheWrongSign_ShouldThrow(double total, double first, double second)
+    {
+        // Act
+        var act = () => _service.BuildSplitsAsync(
+            (decimal)total,
+            new[] { Line((decimal)first, GroceriesId), Line((decimal)second, HouseholdId) },
+            _userId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>()
+            .WithMessage("Each split line must be non-zero and have the same sign as the transaction");
+    }
+
+    [Fact]
+    public async Task BuildSplitsAsync_WhenLinesDoNotAddUpToTheTransaction_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.BuildSplitsAsync(-100m, new[] { Line(-60m, GroceriesId), Line(-30m, HouseholdId) }, _userId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>()
+            .WithMessage("Split lines add up to -90.00 but the transaction amount is -100.00");
+    }
+
+    [Fact]
+    public async Task BuildSplitsAsync_WithAnUnknownCategory_ShouldThrow()
+    {
+        // Act
+        var act = () => _service.BuildSplitsAsync(-100m, new[] { Line(-60m, GroceriesId), Line(-40m, 99) }, _userId);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>()
+            .WithMessage("Category with ID 99 not found or does not belong to user");
+    }
+
+    [Fact]
+    public async Task BuildSplitsAsync_WithIncomeLines_ShouldAcceptPositiveAmounts()
+    {
+        // Act
+        var splits = await _service.BuildSplitsAsync(
+            250m,
+            new[] { Line(200m, GroceriesId), Line(50m, HouseholdId) },
+            _userId);
+
+        // Assert
+        splits.Sum(s => s.Amount).Should().Be(250m);
+    }
+}
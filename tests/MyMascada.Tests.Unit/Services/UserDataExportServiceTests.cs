@@ -0,0 +1,107 @@
+using System.IO.Compression;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using MyMascada.Application.Common.Interfaces;
+using MyMascada.Domain.Entities;
+using MyMascada.Domain.Enums;
+using MyMascada.Infrastructure.Data;
+using MyMascada.Infrastructure.Services.UserData;
+
+namespace MyMascada.Tests.Unit.Services;
+
+public class UserDataExportServiceTests : IDisposable
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IFileStorageService _storage;
+    private readonly UserDataExportService _service;
+    private readonly Guid _userId = Guid.NewGuid();
+
+    public UserDataExportServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _storage = Substitute.For<IFileStorageService>();
+        _service = new UserDataExportService(_context, _storage, Substitute.For<ILogger<UserDataExportService>>());
+
+        _context.Users.Add(new User
+        {
+            Id = _userId,
+            Email = "export@example.com",
+            UserName = "export",
+            PasswordHash = "hash",
+            FirstName = "Export",
+            LastName = "User"
+        });
+        _context.Accounts.Add(new Account { Id = 1, Name = "Everyday", Type = AccountType.Checking, UserId = _userId });
+        _context.Transactions.Add(new Transaction
+        {
+            Id = 10,
+            AccountId = 1,
+            Amount = -42.50m,
+            Description = "Hardware store",
+            TransactionDate = new DateTime(2026, 10, 1, 0, 0, 0, DateTimeKind.Utc)
+        });
+        _context.TransactionAttachments.AddRange(
+            new TransactionAttachment { Id = 1, TransactionId = 10, UploadedByUserId = _userId, FileName = "receipt.pdf", ContentType = "application/pdf", SizeBytes = 9, StorageKey = "transactions/10/a.pdf" },
+            new TransactionAttachment { Id = 2, TransactionId = 10, UploadedByUserId = _userId, FileName = "photo.jpg", ContentType = "image/jpeg", SizeBytes = 4, StorageKey = "transactions/10/b.jpg" });
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    [Fact]
+    public async Task ExportUserDataAsync_ShouldListAttachmentsWithoutReadingTheirFiles()
+    {
+        // Act
+        var export = await _service.ExportUserDataAsync(_userId);
+
+        // Assert
+        export.Attachments.Select(a => a.FileName).Should().BeEquivalentTo(new[] { "receipt.pdf", "photo.jpg" });
+        export.Summary.TotalAttachments.Should().Be(2);
+        await _storage.DidNotReceiveWithAnyArgs().OpenReadAsync(default!, default);
+    }
+
+    [Fact]
+    public async Task CreateExportArchiveAsync_ShouldStreamEachFileIntoTheArchiveNextToTheData()
+    {
+        // Arrange
+        var receipt = "%PDF-1.7\n"u8.ToArray();
+        _storage.OpenReadAsync("transactions/10/a.pdf", Arg.Any<CancellationToken>())
+            .Returns(_ => new MemoryStream(receipt));
+        _storage.OpenReadAsync("transactions/10/b.jpg", Arg.Any<CancellationToken>())
+            .Returns((Stream?)null);
+
+        // Act
+        await using var archive = await _service.CreateExportArchiveAsync(_userId);
+
+        // Assert
+        using var zip = new ZipArchive(archive, ZipArchiveMode.Read);
+        zip.Entries.Select(e => e.FullName).Should().BeEquivalentTo(new[] { "attachments/1-receipt.pdf", "data.json" });
+
+        await using (var file = zip.GetEntry("attachments/1-receipt.pdf")!.Open())
+        {
+            using var copy = new MemoryStream();
+            await file.CopyToAsync(copy);
+            copy.ToArray().Should().Equal(receipt);
+        }
+
+        await using var data = zip.GetEntry("data.json")!.Open();
+        using var json = await JsonDocument.ParseAsync(data);
+        var attachments = json.RootElement.GetProperty("attachments").EnumerateArray().ToList();
+        attachments.Should().HaveCount(2);
+
+        // A file missing from storage is still listed, just without a path into the archive
+        attachments.Single(a => a.GetProperty("id").GetInt32() == 1)
+            .GetProperty("archivePath").GetString().Should().Be("attachments/1-receipt.pdf");
+        attachments.Single(a => a.GetProperty("id").GetInt32() == 2)
+            .GetProperty("archivePath").ValueKind.Should().Be(JsonValueKind.Null);
+        json.RootElement.GetProperty("attachments")[0].TryGetProperty("contentBase64", out _).Should().BeFalse();
+    }
+}